@@ -54,9 +54,15 @@ jest.mock('../shared/auth-context', () => ({
   }),
 }));
 
-jest.mock('../shared/useDiscourseSettings', () => ({
-  useDiscourseSettings: () => ({ minTitle: 5, minPost: 10, loading: false }),
-}));
+jest.mock('../shared/useSiteSettings', () => {
+  const { DEFAULT_SITE_SETTINGS } = jest.requireActual('../shared/site-settings');
+  return {
+    useSiteSettings: () => ({
+      settings: { ...DEFAULT_SITE_SETTINGS, minTopicTitleLength: 5, minFirstPostLength: 10 },
+      isLoading: false,
+    }),
+  };
+});
 
 jest.mock('../shared/useSettingsStorage', () => ({
   useSettingsStorage: () => ({ settings: { autoSave: false }, loading: false }),
@@ -46,6 +46,14 @@ jest.mock('../../shared/logger', () => ({
   },
 }));
 
+// Mock the account registry: the default site plus one signed-in community
+jest.mock('../../shared/accounts', () => ({
+  getKnownSiteHosts: () => ['meta.fomio.app', 'forum.example.com'],
+  getActiveAccountId: () => null,
+  findAccountForHost: () => null,
+  useAccountStore: { getState: () => ({ accounts: [], activeAccountId: null }) },
+}));
+
 describe('resolveDeepLink', () => {
   describe('host/path normalization', () => {
     it('parses byte with double slash', () => {
@@ -153,6 +161,29 @@ describe('resolveDeepLink', () => {
     });
   });
 
+  describe('web links from known sites', () => {
+    it('converts topic links and remembers the site', () => {
+      const result = resolveDeepLink('https://forum.example.com/t/some-topic/42');
+      expect(result?.path).toBe('/feed/42');
+      expect(result?.siteHost).toBe('forum.example.com');
+    });
+
+    it('converts links from the default site', () => {
+      const result = resolveDeepLink('https://meta.fomio.app/u/alice');
+      expect(result?.path).toBe('/profile/alice');
+      expect(result?.siteHost).toBe('meta.fomio.app');
+    });
+
+    it('converts tag links', () => {
+      const result = resolveDeepLink('https://forum.example.com/tag/react-native');
+      expect(result?.path).toBe('/tag/react-native');
+    });
+
+    it('leaves fomio links without a site', () => {
+      expect(resolveDeepLink('fomio://byte/42')?.siteHost).toBeUndefined();
+    });
+  });
+
   describe('home', () => {
     it('handles empty path', () => {
       const result = resolveDeepLink('fomio://');
@@ -186,6 +217,11 @@ describe('resolveDeepLink', () => {
       expect(result?.path).toBe('/hub/3?byId=true');
     });
 
+    it('resolves tag by name', () => {
+      const result = resolveDeepLink('fomio://tag/javascript');
+      expect(result?.path).toBe('/tag/javascript');
+    });
+
     it('resolves profile by username', () => {
       const result = resolveDeepLink('fomio://profile/johndoe');
       expect(result?.path).toBe('/profile/johndoe');
@@ -200,6 +236,16 @@ describe('resolveDeepLink', () => {
       const result = resolveDeepLink('fomio://notifications');
       expect(result?.path).toBe('/(tabs)/notifications');
     });
+
+    it('resolves messages inbox', () => {
+      const result = resolveDeepLink('fomio://messages');
+      expect(result?.path).toBe('/messages');
+    });
+
+    it('resolves a message conversation', () => {
+      const result = resolveDeepLink('fomio://messages/42');
+      expect(result?.path).toBe('/messages/42');
+    });
   });
 
   describe('settings routes', () => {
@@ -227,6 +273,11 @@ describe('isFomioDeepLink', () => {
     expect(isFomioDeepLink('fomio://')).toBe(true);
   });
 
+  it('returns true for web links from known sites', () => {
+    expect(isFomioDeepLink('https://forum.example.com/t/some-topic/42')).toBe(true);
+    expect(isFomioDeepLink('https://meta.fomio.app/u/alice')).toBe(true);
+  });
+
   it('returns false for other schemes', () => {
     expect(isFomioDeepLink('https://example.com')).toBe(false);
     expect(isFomioDeepLink('http://example.com')).toBe(false);
@@ -243,6 +294,8 @@ describe('requiresAuth', () => {
   it('returns true for auth-required paths', () => {
     expect(requiresAuth('me')).toBe(true);
     expect(requiresAuth('notifications')).toBe(true);
+    expect(requiresAuth('messages')).toBe(true);
+    expect(requiresAuth('messages/42')).toBe(true);
     expect(requiresAuth('compose')).toBe(true);
     expect(requiresAuth('compose?teret=design')).toBe(true);
     expect(requiresAuth('settings')).toBe(true);
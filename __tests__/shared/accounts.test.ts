@@ -0,0 +1,224 @@
+/**
+ * Unit tests for the account registry
+ */
+
+const mockSecureStore: Record<string, string> = {};
+
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: jest.fn(async (key: string) => mockSecureStore[key] ?? null),
+  setItemAsync: jest.fn(async (key: string, value: string) => {
+    mockSecureStore[key] = value;
+  }),
+  deleteItemAsync: jest.fn(async (key: string) => {
+    delete mockSecureStore[key];
+  }),
+}));
+
+jest.mock('expo-constants', () => ({
+  expoConfig: { extra: { DISCOURSE_BASE_URL: 'https://meta.fomio.app' } },
+}));
+
+jest.mock('../../lib/auth', () => ({
+  authHeaders: jest.fn().mockResolvedValue({ 'User-Api-Key': 'key' }),
+}));
+
+import { discourseApi } from '../../shared/discourseApi';
+import {
+  Account,
+  DEFAULT_SITE_URL,
+  findAccountForHost,
+  getAccountId,
+  getAccountStorageKey,
+  getActiveSiteUrl,
+  getKnownSiteHosts,
+  getSiteHost,
+  normalizeSiteUrl,
+  onActiveAccountChange,
+  useAccountStore,
+} from '../../shared/accounts';
+
+function makeAccount(siteUrl: string, username: string, lastUsedAt: number): Account {
+  return {
+    id: getAccountId(siteUrl, username),
+    siteUrl,
+    username,
+    addedAt: 0,
+    lastUsedAt,
+  };
+}
+
+describe('normalizeSiteUrl', () => {
+  it('reduces input to a lowercase origin', () => {
+    expect(normalizeSiteUrl('HTTPS://Forum.Example.com/latest?page=2')).toBe('https://forum.example.com');
+    expect(normalizeSiteUrl(' forum.example.com/ ')).toBe('https://forum.example.com');
+    expect(normalizeSiteUrl('http://localhost:3000')).toBe('http://localhost:3000');
+  });
+
+  it('rejects input that is not a site', () => {
+    expect(normalizeSiteUrl('')).toBeNull();
+    expect(normalizeSiteUrl(undefined)).toBeNull();
+    expect(normalizeSiteUrl('forum')).toBeNull();
+    expect(normalizeSiteUrl('ftp://forum.example.com')).toBeNull();
+  });
+});
+
+describe('account ids and storage keys', () => {
+  it('identifies an account by user and host', () => {
+    expect(getSiteHost('https://forum.example.com/t/1')).toBe('forum.example.com');
+    expect(getAccountId('https://forum.example.com', 'Alice')).toBe('alice@forum.example.com');
+  });
+
+  it('scopes storage keys to characters SecureStore allows', () => {
+    expect(getAccountStorageKey('auth-token-v1', 'alice@forum.example.com:8080')).toBe(
+      'auth-token-v1.alice_forum.example.com_8080'
+    );
+  });
+
+  it('keeps the base key without an account', () => {
+    expect(getAccountStorageKey('auth-token-v1', null)).toBe('auth-token-v1');
+  });
+});
+
+describe('findAccountForHost', () => {
+  const older = makeAccount('https://forum.example.com', 'alice', 1);
+  const newer = makeAccount('https://forum.example.com', 'bob', 2);
+  const other = makeAccount('https://other.example.org', 'carol', 3);
+  const accounts = [older, newer, other];
+
+  it('prefers the active account on that site', () => {
+    expect(findAccountForHost(accounts, 'forum.example.com', older.id)).toBe(older);
+  });
+
+  it('otherwise picks the most recently used account there', () => {
+    expect(findAccountForHost(accounts, 'FORUM.example.com', other.id)).toBe(newer);
+  });
+
+  it('returns null for sites without an account', () => {
+    expect(findAccountForHost(accounts, 'unknown.example.net', null)).toBeNull();
+  });
+});
+
+describe('useAccountStore', () => {
+  beforeEach(() => {
+    Object.keys(mockSecureStore).forEach((key) => delete mockSecureStore[key]);
+    useAccountStore.setState({ accounts: [], activeAccountId: null, isLoaded: false });
+  });
+
+  it('adds accounts and makes them active', async () => {
+    const account = await useAccountStore
+      .getState()
+      .addAccount({ siteUrl: 'forum.example.com/', username: 'alice' });
+
+    expect(account.id).toBe('alice@forum.example.com');
+    expect(account.siteUrl).toBe('https://forum.example.com');
+    expect(useAccountStore.getState().activeAccountId).toBe(account.id);
+    expect(getActiveSiteUrl()).toBe('https://forum.example.com');
+    expect(getKnownSiteHosts()).toEqual([getSiteHost(DEFAULT_SITE_URL), 'forum.example.com']);
+  });
+
+  it('updates an existing account instead of adding it twice', async () => {
+    const store = useAccountStore.getState();
+    const first = await store.addAccount({ siteUrl: 'https://forum.example.com', username: 'alice' });
+    await store.addAccount({ siteUrl: 'https://forum.example.com', username: 'Alice', name: 'Alice A' });
+
+    const { accounts } = useAccountStore.getState();
+    expect(accounts).toHaveLength(1);
+    expect(accounts[0].name).toBe('Alice A');
+    expect(accounts[0].addedAt).toBe(first.addedAt);
+  });
+
+  it('persists the registry and loads it back', async () => {
+    await useAccountStore.getState().addAccount({ siteUrl: 'https://forum.example.com', username: 'alice' });
+    useAccountStore.setState({ accounts: [], activeAccountId: null, isLoaded: false });
+
+    await useAccountStore.getState().load();
+
+    expect(useAccountStore.getState().isLoaded).toBe(true);
+    expect(useAccountStore.getState().activeAccountId).toBe('alice@forum.example.com');
+  });
+
+  it('notifies listeners when the active account changes', async () => {
+    const store = useAccountStore.getState();
+    const alice = await store.addAccount({ siteUrl: 'https://forum.example.com', username: 'alice' });
+    await store.addAccount({ siteUrl: 'https://other.example.org', username: 'bob' });
+
+    const listener = jest.fn();
+    const unsubscribe = onActiveAccountChange(listener);
+    await store.switchAccount(alice.id);
+    await store.updateAccount(alice.id, { name: 'Alice' });
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(alice.id);
+  });
+
+  it('keeps a signed-out account listed until it signs in again', async () => {
+    const store = useAccountStore.getState();
+    const alice = await store.addAccount({ siteUrl: 'https://forum.example.com', username: 'alice' });
+    const bob = await store.addAccount({ siteUrl: 'https://other.example.org', username: 'bob' });
+
+    await store.markSignedOut(alice.id);
+
+    const { accounts, activeAccountId } = useAccountStore.getState();
+    expect(accounts.map((account) => account.id)).toEqual([alice.id, bob.id]);
+    expect(accounts.find((account) => account.id === alice.id)?.signedOut).toBe(true);
+    expect(activeAccountId).toBe(bob.id);
+
+    await store.addAccount({ siteUrl: 'https://forum.example.com', username: 'alice' });
+    expect(useAccountStore.getState().accounts.find((account) => account.id === alice.id)?.signedOut).toBeUndefined();
+  });
+
+  it('falls back to the most recently used account when the active one is removed', async () => {
+    const store = useAccountStore.getState();
+    const alice = await store.addAccount({ siteUrl: 'https://forum.example.com', username: 'alice' });
+    const bob = await store.addAccount({ siteUrl: 'https://other.example.org', username: 'bob' });
+    const carol = await store.addAccount({ siteUrl: 'https://third.example.net', username: 'carol' });
+    useAccountStore.setState({
+      accounts: useAccountStore
+        .getState()
+        .accounts.map((account) => ({ ...account, lastUsedAt: account.id === alice.id ? 20 : 10 })),
+    });
+
+    const next = await store.removeAccount(carol.id);
+
+    expect(next?.id).toBe(alice.id);
+    expect(useAccountStore.getState().accounts.map((account) => account.id)).toEqual([alice.id, bob.id]);
+
+    await store.removeAccount(alice.id);
+    expect(await store.removeAccount(bob.id)).toBeNull();
+    expect(useAccountStore.getState().activeAccountId).toBeNull();
+    expect(getActiveSiteUrl()).toBe(DEFAULT_SITE_URL);
+  });
+});
+
+describe('switching accounts on one site', () => {
+  beforeEach(() => {
+    Object.keys(mockSecureStore).forEach((key) => delete mockSecureStore[key]);
+    useAccountStore.setState({ accounts: [], activeAccountId: null, isLoaded: false });
+  });
+
+  it('does not serve the previous account its cached session', async () => {
+    const store = useAccountStore.getState();
+    const alice = await store.addAccount({ siteUrl: 'https://forum.example.com', username: 'alice' });
+    const bob = await store.addAccount({ siteUrl: 'https://forum.example.com', username: 'bob' });
+    const sessionFor = (id: number, username: string) => ({
+      ok: true,
+      status: 200,
+      statusText: '',
+      json: async () => ({ current_user: { id, username } }),
+      text: async () => JSON.stringify({ current_user: { id, username } }),
+      headers: { get: () => 'application/json' },
+    });
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce(sessionFor(1, 'alice'))
+      .mockResolvedValueOnce(sessionFor(2, 'bob')) as any;
+
+    await store.switchAccount(alice.id);
+    expect((await discourseApi.getCurrentUser()).data?.username).toBe('alice');
+
+    await store.switchAccount(bob.id);
+    expect((await discourseApi.getCurrentUser()).data?.username).toBe('bob');
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+});
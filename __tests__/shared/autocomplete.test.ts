@@ -0,0 +1,151 @@
+/**
+ * Unit tests for @mention and #hashtag autocomplete helpers
+ */
+
+import {
+  AutocompleteSuggestion,
+  HashtagCategory,
+  applyAutocompleteSuggestion,
+  filterHashtagSuggestions,
+  getAutocompleteQuery,
+  getMentionParticipants,
+  isInsideCode,
+  moveHighlight,
+  rankMentionSuggestions,
+} from '../../shared/autocomplete';
+
+const categories: HashtagCategory[] = [
+  { id: 1, name: 'Technology', slug: 'tech', color: '0088CC' },
+  { id: 2, name: 'Mobile Apps', slug: 'apps', color: 'F1592A', parent_category: { slug: 'tech', name: 'Technology' } },
+  { id: 3, name: 'Travel', slug: 'travel', color: '12A89D' },
+  { id: 4, name: 'Fintech', slug: 'money', color: '652D90' },
+];
+
+describe('getAutocompleteQuery', () => {
+  it('finds a mention at the cursor', () => {
+    expect(getAutocompleteQuery('hey @ali', 8)).toEqual({ trigger: '@', term: 'ali', start: 4, end: 8 });
+  });
+
+  it('opens on a bare trigger', () => {
+    expect(getAutocompleteQuery('@', 1)).toEqual({ trigger: '@', term: '', start: 0, end: 1 });
+  });
+
+  it('covers the rest of the word when the cursor is inside it', () => {
+    expect(getAutocompleteQuery('hi @alice there', 6)).toEqual({ trigger: '@', term: 'al', start: 3, end: 9 });
+  });
+
+  it('finds subcategory hashtags', () => {
+    expect(getAutocompleteQuery('see #tech:ap', 12)).toEqual({ trigger: '#', term: 'tech:ap', start: 4, end: 12 });
+  });
+
+  it('ignores triggers in the middle of a word', () => {
+    expect(getAutocompleteQuery('mail me at bob@example', 22)).toBeNull();
+    expect(getAutocompleteQuery('issue a#1', 9)).toBeNull();
+  });
+
+  it('ignores finished words and headings', () => {
+    expect(getAutocompleteQuery('@alice ', 7)).toBeNull();
+    expect(getAutocompleteQuery('# Title', 1)).toBeNull();
+  });
+
+  it('ignores triggers inside code', () => {
+    expect(getAutocompleteQuery('run `npm @types', 15)).toBeNull();
+    expect(getAutocompleteQuery('```\n@alice', 10)).toBeNull();
+    expect(getAutocompleteQuery('```\ncode\n```\n@al', 16)).not.toBeNull();
+  });
+});
+
+describe('isInsideCode', () => {
+  it('tracks inline code and fences', () => {
+    expect(isInsideCode('a `b', 4)).toBe(true);
+    expect(isInsideCode('a `b` c', 7)).toBe(false);
+    expect(isInsideCode('~~~\nx', 5)).toBe(true);
+  });
+});
+
+describe('applyAutocompleteSuggestion', () => {
+  const user: AutocompleteSuggestion = { type: 'user', key: 'user:alice', username: 'alice' };
+
+  it('replaces the query and adds a space', () => {
+    const query = getAutocompleteQuery('hey @al', 7)!;
+    expect(applyAutocompleteSuggestion('hey @al', query, user)).toEqual({ text: 'hey @alice ', cursor: 11 });
+  });
+
+  it('reuses an existing space after the word', () => {
+    const query = getAutocompleteQuery('hey @al there', 7)!;
+    expect(applyAutocompleteSuggestion('hey @al there', query, user)).toEqual({ text: 'hey @alice there', cursor: 11 });
+  });
+
+  it('writes hashtag refs', () => {
+    const [hashtag] = filterHashtagSuggestions('apps', categories);
+    const query = getAutocompleteQuery('#app', 4)!;
+    expect(applyAutocompleteSuggestion('#app', query, hashtag).text).toBe('#tech:apps ');
+  });
+});
+
+describe('getMentionParticipants', () => {
+  it('puts the most recent poster first without duplicates', () => {
+    const participants = getMentionParticipants([
+      { username: 'op', name: 'Original', avatar: 'op.png' },
+      { username: 'alice', name: 'Alice', avatar: '' },
+      undefined,
+      { username: 'OP', name: 'Original', avatar: 'op.png' },
+    ]);
+    expect(participants.map((participant) => participant.username)).toEqual(['OP', 'alice']);
+    expect(participants[1].avatarUrl).toBeUndefined();
+  });
+});
+
+describe('rankMentionSuggestions', () => {
+  const participants = [
+    { username: 'alice', name: 'Alice Liddell' },
+    { username: 'bob', name: 'Bob Allen' },
+    { username: 'carol' },
+  ];
+
+  it('ranks matching participants before search results', () => {
+    const suggestions = rankMentionSuggestions('al', participants, [
+      { username: 'alan', avatar_template: '/a/{size}.png' },
+      { username: 'alice', avatar_template: '/b/{size}.png' },
+    ]);
+    expect(suggestions.map((suggestion) => suggestion.type === 'user' && suggestion.username)).toEqual([
+      'alice',
+      'bob',
+      'alan',
+    ]);
+  });
+
+  it('leaves out excluded usernames and respects the limit', () => {
+    const suggestions = rankMentionSuggestions('', participants, [{ username: 'dave' }], {
+      exclude: ['ALICE'],
+      limit: 2,
+    });
+    expect(suggestions.map((suggestion) => suggestion.type === 'user' && suggestion.username)).toEqual([
+      'bob',
+      'carol',
+    ]);
+  });
+});
+
+describe('filterHashtagSuggestions', () => {
+  it('ranks slug matches before name and substring matches', () => {
+    const refs = (term: string) =>
+      filterHashtagSuggestions(term, categories).map((suggestion) => suggestion.type === 'hashtag' && suggestion.ref);
+
+    expect(refs('tech')).toEqual(['tech', 'tech:apps', 'money']);
+    expect(refs('mob')).toEqual(['tech:apps']);
+    expect(refs('xyz')).toEqual([]);
+  });
+
+  it('returns everything for an empty term, up to the limit', () => {
+    expect(filterHashtagSuggestions('', categories, 2)).toHaveLength(2);
+  });
+});
+
+describe('moveHighlight', () => {
+  it('wraps at both ends', () => {
+    expect(moveHighlight(2, 1, 3)).toBe(0);
+    expect(moveHighlight(0, -1, 3)).toBe(2);
+    expect(moveHighlight(0, 1, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Unit tests for bookmark parsing and reminder helpers
+ */
+
+import {
+  BOOKMARK_AUTO_DELETE,
+  buildCustomReminder,
+  findByteBookmark,
+  formatReminderTime,
+  getAvailableReminderPresets,
+  getReminderPreset,
+  getReminderPresetTime,
+  getReminderStatus,
+  parseBookmark,
+  parseTopicBookmarks,
+  toBookmarkParams,
+} from '../../shared/bookmarks';
+
+// Newer ICU puts a narrow no-break space before AM/PM
+const normalize = (value: string) => value.replace(/\s/g, ' ');
+
+describe('parseBookmark', () => {
+  it('maps a bookmark from the user bookmarks list', () => {
+    expect(
+      parseBookmark({
+        id: 12,
+        name: 'Read later',
+        reminder_at: '2026-10-20T08:00:00.000Z',
+        reminder_last_sent_at: null,
+        auto_delete_preference: 1,
+        bookmarkable_type: 'Post',
+        bookmarkable_id: 345,
+        topic_id: 67,
+        linked_post_number: 4,
+        fancy_title: 'Tips &amp; tricks',
+        excerpt: '<p>Some <b>bold</b> text</p>',
+        created_at: '2026-10-18T10:00:00.000Z',
+      })
+    ).toEqual({
+      id: 12,
+      name: 'Read later',
+      reminderAt: '2026-10-20T08:00:00.000Z',
+      reminderLastSentAt: null,
+      autoDeletePreference: BOOKMARK_AUTO_DELETE.whenReminderSent,
+      bookmarkableType: 'Post',
+      bookmarkableId: 345,
+      topicId: 67,
+      postNumber: 4,
+      title: 'Tips & tricks',
+      excerpt: 'Some bold text',
+      createdAt: '2026-10-18T10:00:00.000Z',
+    });
+  });
+
+  it('takes the topic ID from a topic bookmark', () => {
+    const bookmark = parseBookmark({ id: 1, bookmarkable_type: 'Topic', bookmarkable_id: 99 });
+    expect(bookmark?.topicId).toBe(99);
+    expect(bookmark?.postNumber).toBeNull();
+  });
+
+  it('defaults an unknown auto-delete preference to clearing the reminder', () => {
+    expect(parseBookmark({ id: 1, auto_delete_preference: 7 })?.autoDeletePreference).toBe(
+      BOOKMARK_AUTO_DELETE.clearReminder
+    );
+  });
+
+  it('ignores payloads without an ID', () => {
+    expect(parseBookmark(null)).toBeNull();
+    expect(parseBookmark({ name: 'No id' })).toBeNull();
+  });
+});
+
+describe('parseTopicBookmarks', () => {
+  it('fills in the topic on each bookmark', () => {
+    const bookmarks = parseTopicBookmarks({
+      id: 5,
+      title: 'A Byte',
+      bookmarks: [
+        { id: 1, bookmarkable_type: 'Post', bookmarkable_id: 50 },
+        { id: 2, bookmarkable_type: 'Topic', bookmarkable_id: 5 },
+        { bookmarkable_type: 'Post' },
+      ],
+    });
+    expect(bookmarks.map((bookmark) => [bookmark.id, bookmark.topicId, bookmark.title])).toEqual([
+      [1, 5, 'A Byte'],
+      [2, 5, 'A Byte'],
+    ]);
+  });
+
+  it('returns nothing without bookmarks', () => {
+    expect(parseTopicBookmarks({ id: 5 })).toEqual([]);
+    expect(parseTopicBookmarks(undefined)).toEqual([]);
+  });
+});
+
+describe('findByteBookmark', () => {
+  const post = parseBookmark({ id: 1, bookmarkable_type: 'Post', bookmarkable_id: 50 })!;
+  const reply = parseBookmark({ id: 2, bookmarkable_type: 'Post', bookmarkable_id: 51 })!;
+  const topic = parseBookmark({ id: 3, bookmarkable_type: 'Topic', bookmarkable_id: 5 })!;
+
+  it('prefers the topic bookmark', () => {
+    expect(findByteBookmark([post, topic], 50)).toBe(topic);
+  });
+
+  it('falls back to a bookmark on the first post', () => {
+    expect(findByteBookmark([reply, post], 50)).toBe(post);
+  });
+
+  it('ignores bookmarks on replies', () => {
+    expect(findByteBookmark([reply], 50)).toBeNull();
+  });
+});
+
+describe('getReminderPresetTime', () => {
+  // Wednesday, October 21st 2026, 10:20
+  const now = new Date(2026, 9, 21, 10, 20);
+
+  it('rounds "later today" up to the hour', () => {
+    expect(getReminderPresetTime('later_today', now)).toEqual(new Date(2026, 9, 21, 14, 0));
+    expect(getReminderPresetTime('later_today', new Date(2026, 9, 21, 10, 0))).toEqual(
+      new Date(2026, 9, 21, 13, 0)
+    );
+  });
+
+  it('drops "later today" once it would run into tomorrow', () => {
+    const evening = new Date(2026, 9, 21, 21, 30);
+    expect(getReminderPresetTime('later_today', evening)).toBeNull();
+    expect(getAvailableReminderPresets(evening)).toEqual(['none', 'tomorrow', 'next_week', 'custom']);
+    expect(getAvailableReminderPresets(now)).toEqual(['none', 'later_today', 'tomorrow', 'next_week', 'custom']);
+  });
+
+  it('sets tomorrow and next week for the morning', () => {
+    expect(getReminderPresetTime('tomorrow', now)).toEqual(new Date(2026, 9, 22, 8, 0));
+    expect(getReminderPresetTime('next_week', now)).toEqual(new Date(2026, 9, 26, 8, 0));
+  });
+
+  it('moves "next week" a full week on from a Monday', () => {
+    expect(getReminderPresetTime('next_week', new Date(2026, 9, 19, 9, 0))).toEqual(new Date(2026, 9, 26, 8, 0));
+  });
+
+  it('has no time for no reminder or a custom one', () => {
+    expect(getReminderPresetTime('none', now)).toBeNull();
+    expect(getReminderPresetTime('custom', now)).toBeNull();
+  });
+});
+
+describe('buildCustomReminder', () => {
+  const now = new Date(2026, 9, 21, 10, 20);
+
+  it('sets the picked day and hour', () => {
+    expect(buildCustomReminder(now, 3, 17)).toEqual(new Date(2026, 9, 24, 17, 0));
+    expect(buildCustomReminder(now, 0, 11)).toEqual(new Date(2026, 9, 21, 11, 0));
+  });
+
+  it('refuses times that have already passed', () => {
+    expect(buildCustomReminder(now, 0, 10)).toBeNull();
+    expect(buildCustomReminder(now, 0, 9)).toBeNull();
+  });
+});
+
+describe('getReminderPreset', () => {
+  const now = new Date(2026, 9, 21, 10, 20);
+
+  it('matches reminders to the preset that set them', () => {
+    expect(getReminderPreset(null, now)).toBe('none');
+    expect(getReminderPreset(new Date(2026, 9, 22, 8, 0).toISOString(), now)).toBe('tomorrow');
+    expect(getReminderPreset(new Date(2026, 9, 26, 8, 0).toISOString(), now)).toBe('next_week');
+    expect(getReminderPreset(new Date(2026, 9, 23, 15, 0).toISOString(), now)).toBe('custom');
+  });
+});
+
+describe('getReminderStatus', () => {
+  const now = new Date(2026, 9, 21, 10, 20);
+
+  it('is due once the reminder time has passed', () => {
+    expect(getReminderStatus({ reminderAt: new Date(2026, 9, 21, 9, 0).toISOString() }, now)).toBe('due');
+    expect(getReminderStatus({ reminderAt: new Date(2026, 9, 22, 8, 0).toISOString() }, now)).toBe('upcoming');
+    expect(getReminderStatus({ reminderAt: null }, now)).toBeNull();
+  });
+});
+
+describe('formatReminderTime', () => {
+  const now = new Date(2026, 9, 21, 10, 20);
+
+  it('names today and tomorrow', () => {
+    expect(normalize(formatReminderTime(new Date(2026, 9, 21, 15, 0), now))).toBe('Today at 3:00 PM');
+    expect(normalize(formatReminderTime(new Date(2026, 9, 22, 8, 0), now))).toBe('Tomorrow at 8:00 AM');
+  });
+
+  it('shows the date further out, with the year when it differs', () => {
+    expect(normalize(formatReminderTime(new Date(2026, 9, 26, 8, 0), now))).toBe('Mon, Oct 26 at 8:00 AM');
+    expect(normalize(formatReminderTime(new Date(2027, 0, 4, 8, 0), now))).toBe('Mon, Jan 4, 2027 at 8:00 AM');
+  });
+});
+
+describe('toBookmarkParams', () => {
+  it('sends only the fields being set', () => {
+    expect(toBookmarkParams({ name: '  Later  ' })).toEqual({ name: 'Later' });
+    expect(
+      toBookmarkParams({
+        reminderAt: '2026-10-22T08:00:00.000Z',
+        autoDeletePreference: BOOKMARK_AUTO_DELETE.onOwnerReply,
+      })
+    ).toEqual({ reminder_at: '2026-10-22T08:00:00.000Z', auto_delete_preference: 2 });
+  });
+
+  it('clears a removed reminder', () => {
+    expect(toBookmarkParams({ reminderAt: null })).toEqual({ reminder_at: '' });
+  });
+});
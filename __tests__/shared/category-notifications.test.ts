@@ -0,0 +1,60 @@
+/**
+ * Unit tests for category notification level helpers
+ */
+
+jest.mock('../../shared/discourseApi', () => ({
+  CATEGORY_NOTIFICATION_LEVELS: {
+    muted: 0,
+    regular: 1,
+    tracking: 2,
+    watching: 3,
+    watchingFirstPost: 4,
+  },
+}));
+
+import {
+  extractCategoryNotificationLevels,
+  getCategoryNotificationLevelOption,
+  isSubscribedLevel,
+} from '../../shared/category-notifications';
+
+describe('extractCategoryNotificationLevels', () => {
+  it('collects levels from hubs and their terets', () => {
+    const levels = extractCategoryNotificationLevels([
+      {
+        id: 1,
+        notification_level: 3,
+        subcategory_list: [
+          { id: 10, notification_level: 0 },
+          { id: 11, notification_level: 2 },
+        ],
+      },
+      { id: 2, notification_level: 1 },
+    ]);
+
+    expect(levels).toEqual({ 1: 3, 10: 0, 11: 2, 2: 1 });
+  });
+
+  it('skips categories without a level (anonymous sessions)', () => {
+    expect(extractCategoryNotificationLevels([{ id: 1 }, { id: 2, subcategory_list: [] }])).toEqual({});
+  });
+});
+
+describe('isSubscribedLevel', () => {
+  it('treats tracking and watching levels as subscribed', () => {
+    expect(isSubscribedLevel(2)).toBe(true);
+    expect(isSubscribedLevel(3)).toBe(true);
+    expect(isSubscribedLevel(4)).toBe(true);
+  });
+
+  it('treats normal and muted as not subscribed', () => {
+    expect(isSubscribedLevel(1)).toBe(false);
+    expect(isSubscribedLevel(0)).toBe(false);
+  });
+});
+
+describe('getCategoryNotificationLevelOption', () => {
+  it('returns the matching option', () => {
+    expect(getCategoryNotificationLevelOption(4).label).toBe('Watching First Post');
+  });
+});
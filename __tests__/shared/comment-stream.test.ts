@@ -0,0 +1,87 @@
+/**
+ * Unit tests for comment stream paging
+ */
+
+import {
+  CommentStreamPage,
+  getLoadedRange,
+  getNextCommentWindow,
+  getPreviousCommentWindow,
+  flattenCommentPages,
+  appendCommentToPages,
+} from '../../shared/comment-stream';
+import type { Comment } from '../../shared/discourseApi';
+
+const makeComment = (id: number): Comment => ({
+  id,
+  content: `<p>${id}</p>`,
+  rawContent: String(id),
+  author: {
+    id: '1',
+    name: 'Test',
+    username: 'test',
+    email: '',
+    avatar: '',
+    bio: '',
+    followers: 0,
+    following: 0,
+    bytes: 0,
+    comments: 0,
+    joinedDate: '',
+  },
+  byteId: 1,
+  byteTitle: 'Byte',
+  postNumber: id,
+  createdAt: '',
+  updatedAt: '',
+  likeCount: 0,
+  isLiked: false,
+  discourseId: id,
+});
+
+const stream = Array.from({ length: 50 }, (_, index) => index + 100);
+
+const makePage = (start: number, end: number): CommentStreamPage => ({
+  comments: stream.slice(start, end).map(makeComment),
+  stream,
+  start,
+  end,
+  byteTitle: 'Byte',
+});
+
+describe('comment stream paging', () => {
+  it('locates the loaded chunk within the stream', () => {
+    const comments = stream.slice(20, 40).map(makeComment);
+    expect(getLoadedRange(stream, comments)).toEqual({ start: 20, end: 40 });
+  });
+
+  it('pages forward until the end of the stream', () => {
+    const next = getNextCommentWindow(makePage(0, 20));
+    expect(next).toMatchObject({ start: 20, end: 40 });
+    expect(next?.postIds).toEqual(stream.slice(20, 40));
+
+    expect(getNextCommentWindow(makePage(40, 45))).toMatchObject({ start: 45, end: 50 });
+    expect(getNextCommentWindow(makePage(40, 50))).toBeUndefined();
+  });
+
+  it('pages backward until the start of the stream', () => {
+    expect(getPreviousCommentWindow(makePage(30, 50))).toMatchObject({ start: 10, end: 30 });
+    expect(getPreviousCommentWindow(makePage(10, 30))?.postIds).toEqual(stream.slice(0, 10));
+    expect(getPreviousCommentWindow(makePage(0, 20))).toBeUndefined();
+  });
+
+  it('flattens pages without duplicates', () => {
+    const data = { pages: [makePage(0, 20), makePage(15, 35)], pageParams: [null, null] };
+    expect(flattenCommentPages(data).map((c) => c.id)).toEqual(stream.slice(0, 35));
+  });
+
+  it('only shows new comments once the end of the stream is loaded', () => {
+    const partial = appendCommentToPages({ pages: [makePage(0, 20)], pageParams: [null] }, makeComment(999));
+    expect(partial?.pages[0].comments).toHaveLength(20);
+    expect(partial?.pages[0].stream).toContain(999);
+
+    const complete = appendCommentToPages({ pages: [makePage(30, 50)], pageParams: [null] }, makeComment(999));
+    expect(complete?.pages[0].comments.map((c) => c.id)).toContain(999);
+    expect(complete?.pages[0].end).toBe(51);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for draft parsing, resume links and conflict detection
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  getDraftFingerprint,
+  getDraftKind,
+  getDraftPreview,
+  getDraftResumeHref,
+  getReplyDraftKey,
+  hasDraftChangedElsewhere,
+  isDraftConflict,
+  parseDraftContent,
+  parseUserDraft,
+} from '../../shared/drafts';
+
+describe('parseDraftContent', () => {
+  it('reads a draft saved by the app', () => {
+    expect(
+      parseDraftContent(JSON.stringify({ title: 'Hello', raw: 'Body', category_id: 4, tags: ['news'] }))
+    ).toEqual({ title: 'Hello', raw: 'Body', categoryId: 4, tags: ['news'], recipients: [] });
+  });
+
+  it('reads a draft saved by the web composer', () => {
+    expect(
+      parseDraftContent({ title: 'Hi', reply: 'Text', categoryId: '7', recipients: 'alice, bob' })
+    ).toEqual({ title: 'Hi', raw: 'Text', categoryId: 7, tags: [], recipients: ['alice', 'bob'] });
+  });
+
+  it('returns empty content for missing or broken drafts', () => {
+    const empty = { title: '', raw: '', categoryId: null, tags: [], recipients: [] };
+    expect(parseDraftContent(null)).toEqual(empty);
+    expect(parseDraftContent('{not json')).toEqual(empty);
+  });
+});
+
+describe('getDraftFingerprint', () => {
+  it('matches the same content saved in either format', () => {
+    expect(getDraftFingerprint({ title: 'A ', raw: 'B', category_id: 2 })).toBe(
+      getDraftFingerprint(JSON.stringify({ title: 'A', reply: 'B ', categoryId: 2 }))
+    );
+  });
+
+  it('differs when the text changes', () => {
+    expect(getDraftFingerprint({ raw: 'one' })).not.toBe(getDraftFingerprint({ raw: 'two' }));
+  });
+});
+
+describe('getDraftKind', () => {
+  it('tells drafts apart by key and archetype', () => {
+    expect(getDraftKind('new_topic')).toBe('topic');
+    expect(getDraftKind('new_private_message')).toBe('private_message');
+    expect(getDraftKind(getReplyDraftKey(12))).toBe('reply');
+    expect(getDraftKind('topic_12', 'private_message')).toBe('private_message_reply');
+  });
+});
+
+describe('getDraftPreview', () => {
+  it('strips markdown, quotes and images', () => {
+    expect(
+      getDraftPreview('[quote="bob"]old[/quote]\n## Hi **there** ![img](upload://a.png) see [this](https://x.y)')
+    ).toBe('Hi there see this');
+  });
+
+  it('truncates long text', () => {
+    const preview = getDraftPreview('word '.repeat(60));
+    expect(preview.length).toBeLessThanOrEqual(140);
+    expect(preview.endsWith('…')).toBe(true);
+  });
+});
+
+describe('parseUserDraft', () => {
+  it('maps a reply draft from /drafts.json', () => {
+    expect(
+      parseUserDraft({
+        draft_key: 'topic_42',
+        sequence: 3,
+        draft: JSON.stringify({ reply: 'Nice **post**', action: 'reply' }),
+        topic_id: 42,
+        title: 'Original topic',
+        updated_at: '2026-10-18T10:00:00.000Z',
+      })
+    ).toMatchObject({
+      draftKey: 'topic_42',
+      sequence: 3,
+      kind: 'reply',
+      topicId: 42,
+      title: 'Original topic',
+      preview: 'Nice post',
+      updatedAt: '2026-10-18T10:00:00.000Z',
+    });
+  });
+
+  it('has no topic for a new Byte', () => {
+    expect(parseUserDraft({ draft_key: 'new_topic', draft: '{"title":"T"}' })).toMatchObject({
+      kind: 'topic',
+      topicId: null,
+      title: 'T',
+    });
+  });
+
+  it('rejects payloads without a key', () => {
+    expect(parseUserDraft({ draft: '{}' })).toBeNull();
+    expect(parseUserDraft(null)).toBeNull();
+  });
+});
+
+describe('getDraftResumeHref', () => {
+  it('opens each kind in its composer with key and sequence', () => {
+    expect(getDraftResumeHref({ draftKey: 'new_topic', sequence: 2, kind: 'topic', topicId: null })).toBe(
+      '/compose?draftKey=new_topic&draftSequence=2'
+    );
+    expect(
+      getDraftResumeHref({ draftKey: 'new_private_message', sequence: 0, kind: 'private_message', topicId: null })
+    ).toBe('/messages/new?draftKey=new_private_message&draftSequence=0');
+    expect(getDraftResumeHref({ draftKey: 'topic_5', sequence: 1, kind: 'reply', topicId: 5 })).toBe(
+      '/feed/5?showComments=true&draftKey=topic_5&draftSequence=1'
+    );
+    expect(
+      getDraftResumeHref({ draftKey: 'topic_9', sequence: 4, kind: 'private_message_reply', topicId: 9 })
+    ).toBe('/messages/9?draftKey=topic_9&draftSequence=4');
+  });
+});
+
+describe('conflicts', () => {
+  it('only treats a refused 409 save as a conflict', () => {
+    expect(isDraftConflict({ success: false, status: 409 })).toBe(true);
+    expect(isDraftConflict({ success: false, status: 500 })).toBe(false);
+    expect(isDraftConflict({ success: true, status: 200 })).toBe(false);
+  });
+
+  it('ignores a server draft that matches the one this composer started from', () => {
+    const base = getDraftFingerprint({ title: 'A', raw: 'B' });
+    expect(hasDraftChangedElsewhere(base, JSON.stringify({ title: 'A', reply: 'B' }))).toBe(false);
+    expect(hasDraftChangedElsewhere(base, JSON.stringify({ title: 'A', reply: 'Edited' }))).toBe(true);
+  });
+
+  it('counts any content as a change when this composer started empty', () => {
+    expect(hasDraftChangedElsewhere(null, { raw: 'From the web' })).toBe(true);
+    expect(hasDraftChangedElsewhere(null, null)).toBe(false);
+  });
+});
+
+describe('getDraftOwner', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('creates an owner once and keeps it across restarts', async () => {
+    let first = '';
+    await jest.isolateModulesAsync(async () => {
+      const { getDraftOwner } = require('../../shared/drafts');
+      first = await getDraftOwner();
+      expect(first).toMatch(/^[0-9a-f]{32}$/);
+      expect(await getDraftOwner()).toBe(first);
+    });
+
+    await jest.isolateModulesAsync(async () => {
+      const { getDraftOwner } = require('../../shared/drafts');
+      expect(await getDraftOwner()).toBe(first);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for emoji helpers
+ */
+
+import {
+  CUSTOM_EMOJI_GROUP,
+  findEmoji,
+  getEmojiGroups,
+  insertEmojiCode,
+  parseCustomEmojis,
+  searchEmoji,
+} from '../../shared/emoji';
+
+const customEmojis = parseCustomEmojis({
+  default: [{ name: 'fomio', url: 'https://example.com/fomio.png', group: 'default' }],
+  party_pack: [{ name: 'party_parrot', url: 'https://example.com/parrot.gif', group: 'party_pack' }],
+});
+
+describe('parseCustomEmojis', () => {
+  it('flattens groups and files the default group as custom', () => {
+    expect(customEmojis).toEqual([
+      { name: 'fomio', url: 'https://example.com/fomio.png', group: CUSTOM_EMOJI_GROUP },
+      { name: 'party_parrot', url: 'https://example.com/parrot.gif', group: 'party_pack' },
+    ]);
+  });
+
+  it('accepts a flat list and skips broken entries', () => {
+    expect(parseCustomEmojis([{ name: 'ok', url: '/ok.png' }, { name: 'no_url' }])).toEqual([
+      { name: 'ok', url: '/ok.png', group: CUSTOM_EMOJI_GROUP },
+    ]);
+    expect(parseCustomEmojis(null)).toEqual([]);
+  });
+});
+
+describe('getEmojiGroups', () => {
+  it('adds one group per custom emoji group after the standard ones', () => {
+    const groups = getEmojiGroups(customEmojis);
+    expect(groups.slice(-2).map((group) => [group.id, group.name])).toEqual([
+      ['custom:custom', 'Custom'],
+      ['custom:party_pack', 'party pack'],
+    ]);
+  });
+});
+
+describe('findEmoji', () => {
+  it('finds standard emoji by name or alias', () => {
+    expect(findEmoji('heart')?.char).toBe('❤️');
+    expect(findEmoji('thumbsup')?.char).toBe('👍');
+    expect(findEmoji(':smile:')?.char).toBe('😄');
+  });
+
+  it('finds custom emoji and returns null for unknown names', () => {
+    expect(findEmoji('fomio', customEmojis)?.url).toBe('https://example.com/fomio.png');
+    expect(findEmoji('fomio')).toBeNull();
+  });
+});
+
+describe('searchEmoji', () => {
+  it('ranks prefix matches before word and substring matches', () => {
+    const names = searchEmoji('smil').map((emoji) => emoji.name);
+    expect(names[0]).toBe('smile');
+    expect(names.indexOf('smile')).toBeLessThan(names.indexOf('sweat_smile'));
+  });
+
+  it('matches aliases and custom emoji', () => {
+    expect(searchEmoji('thumbs').map((emoji) => emoji.name)).toContain('+1');
+    expect(searchEmoji('parrot', customEmojis).map((emoji) => emoji.name)).toEqual(['party_parrot']);
+  });
+});
+
+describe('insertEmojiCode', () => {
+  it('inserts at the cursor with a space after a word', () => {
+    expect(insertEmojiCode('Nice', { start: 4, end: 4 }, 'tada')).toEqual({ text: 'Nice :tada:', cursor: 11 });
+  });
+
+  it('replaces the selection without an extra space', () => {
+    expect(insertEmojiCode('I love it', { start: 2, end: 6 }, 'heart')).toEqual({
+      text: 'I :heart: it',
+      cursor: 9,
+    });
+  });
+});
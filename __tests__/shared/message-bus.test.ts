@@ -0,0 +1,285 @@
+/**
+ * Unit tests for the MessageBus client, run against a local fake
+ * MessageBus server
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+
+jest.mock('../../shared/discourseApi', () => ({
+  discourseApi: {
+    getBaseUrl: () => 'https://forum.example.com',
+  },
+}));
+
+jest.mock('../../lib/auth', () => ({
+  authHeaders: jest.fn().mockResolvedValue({}),
+}));
+
+jest.mock('../../shared/auth-context', () => ({
+  useAuth: () => ({ isAuthenticated: false, user: null }),
+}));
+
+jest.mock('../../shared/accounts', () => ({
+  getActiveAccountId: () => null,
+}));
+
+import { MessageBusClient } from '../../shared/message-bus';
+
+interface PublishedMessage {
+  global_id: number;
+  message_id: number;
+  channel: string;
+  data: any;
+}
+
+interface RecordedPoll {
+  clientId: string;
+  positions: Record<string, number>;
+  headers: http.IncomingHttpHeaders;
+}
+
+/**
+ * Minimal stand-in for Discourse's MessageBus endpoint: keeps a backlog per
+ * channel, answers new subscribers with /__status and holds polls open
+ * until something is published (or the hold time runs out).
+ */
+class FakeMessageBusServer {
+  polls: RecordedPoll[] = [];
+  private server = http.createServer((req, res) => this.handle(req, res));
+  private backlog: PublishedMessage[] = [];
+  private lastIds: Record<string, number> = {};
+  private globalId = 0;
+  private waiting: { positions: Record<string, number>; res: http.ServerResponse; timer: NodeJS.Timeout }[] = [];
+  private failures: number[] = [];
+
+  constructor(private holdMs = 200) {}
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async close(): Promise<void> {
+    this.waiting.forEach(({ res, timer }) => {
+      clearTimeout(timer);
+      res.end('[]');
+    });
+    this.waiting = [];
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  publish(channel: string, data: any): void {
+    this.lastIds[channel] = (this.lastIds[channel] || 0) + 1;
+    this.backlog.push({
+      global_id: ++this.globalId,
+      message_id: this.lastIds[channel],
+      channel,
+      data,
+    });
+
+    const waiting = this.waiting;
+    this.waiting = [];
+    waiting.forEach(({ positions, res, timer }) => {
+      const pending = this.pendingFor(positions);
+      if (pending.length > 0) {
+        clearTimeout(timer);
+        this.respond(res, pending);
+      } else {
+        this.waiting.push({ positions, res, timer });
+      }
+    });
+  }
+
+  // Fail the next polls with these HTTP statuses
+  failWith(...statuses: number[]): void {
+    this.failures.push(...statuses);
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const match = /^\/message-bus\/([^/]+)\/poll/.exec(req.url || '');
+    if (!match || req.method !== 'POST') {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      const positions: Record<string, number> = {};
+      new URLSearchParams(body).forEach((value, key) => {
+        if (key !== '__seq') positions[key] = Number(value);
+      });
+      this.polls.push({ clientId: match[1], positions, headers: req.headers });
+
+      const failure = this.failures.shift();
+      if (failure) {
+        res.statusCode = failure;
+        res.end();
+        return;
+      }
+
+      const status = Object.entries(positions).filter(([, lastId]) => lastId < 0);
+      if (status.length > 0) {
+        this.respond(res, [{
+          global_id: -1,
+          message_id: -1,
+          channel: '/__status',
+          data: Object.fromEntries(status.map(([channel]) => [channel, this.lastIds[channel] || 0])),
+        }]);
+        return;
+      }
+
+      const pending = this.pendingFor(positions);
+      if (pending.length > 0) {
+        this.respond(res, pending);
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        this.waiting = this.waiting.filter((entry) => entry.res !== res);
+        this.respond(res, []);
+      }, this.holdMs);
+      this.waiting.push({ positions, res, timer });
+    });
+  }
+
+  private pendingFor(positions: Record<string, number>): PublishedMessage[] {
+    return this.backlog.filter(
+      (message) => message.channel in positions && message.message_id > positions[message.channel]
+    );
+  }
+
+  private respond(res: http.ServerResponse, messages: PublishedMessage[]): void {
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(messages));
+  }
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('MessageBusClient', () => {
+  let server: FakeMessageBusServer;
+  let client: MessageBusClient;
+
+  beforeEach(async () => {
+    // Long polls and backoff run on real time against the local server
+    jest.useRealTimers();
+    server = new FakeMessageBusServer();
+    const baseUrl = await server.start();
+    client = new MessageBusClient({
+      getBaseUrl: () => baseUrl,
+      getHeaders: async () => ({ 'User-Api-Key': 'test-key' }),
+      clientId: 'test-client',
+      retryDelay: 20,
+      maxRetryDelay: 50,
+    });
+  });
+
+  afterEach(async () => {
+    client.stop();
+    await client.idle();
+    await server.close();
+  });
+
+  it('delivers published messages to channel subscribers', async () => {
+    const received: any[] = [];
+    client.subscribe('/topic/42', (data) => received.push(data));
+    client.start();
+
+    // Wait until the client has its starting position from /__status
+    await waitFor(() => client.getPosition('/topic/42') === 0);
+    server.publish('/topic/42', { type: 'created', post_number: 2 });
+    server.publish('/topic/7', { type: 'created', post_number: 9 });
+
+    await waitFor(() => received.length === 1);
+    expect(received).toEqual([{ type: 'created', post_number: 2 }]);
+    expect(client.getPosition('/topic/42')).toBe(1);
+  });
+
+  it('polls with channel positions and auth headers', async () => {
+    client.subscribe('/latest', () => {});
+    client.start();
+
+    await waitFor(() => server.polls.length >= 2);
+    const [first, second] = server.polls;
+    expect(first.clientId).toBe('test-client');
+    expect(first.positions).toEqual({ '/latest': -1 });
+    expect(second.positions).toEqual({ '/latest': 0 });
+    expect(first.headers['user-api-key']).toBe('test-key');
+    expect(first.headers['dont-chunk']).toBe('true');
+  });
+
+  it('includes channels subscribed while a poll is open', async () => {
+    client.subscribe('/latest', () => {});
+    client.start();
+    await waitFor(() => client.getPosition('/latest') === 0);
+
+    const received: any[] = [];
+    client.subscribe('/new', (data) => received.push(data));
+    await waitFor(() => client.getPosition('/new') === 0);
+    server.publish('/new', { message_type: 'new_topic', topic_id: 5 });
+
+    await waitFor(() => received.length === 1);
+    expect(received[0].topic_id).toBe(5);
+  });
+
+  it('catches up on messages published while paused', async () => {
+    const received: any[] = [];
+    client.subscribe('/topic/42', (data) => received.push(data));
+    client.start();
+    await waitFor(() => client.getPosition('/topic/42') === 0);
+
+    client.pause();
+    await client.idle();
+    // Let the aborted poll reach the server before counting
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const pollsWhilePaused = server.polls.length;
+    server.publish('/topic/42', { type: 'revised' });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(received).toHaveLength(0);
+    expect(server.polls.length).toBe(pollsWhilePaused);
+
+    client.resume();
+    await waitFor(() => received.length === 1);
+    expect(received[0]).toEqual({ type: 'revised' });
+  });
+
+  it('retries with backoff after a failed poll', async () => {
+    server.failWith(500, 503);
+    const received: any[] = [];
+    client.subscribe('/topic/42', (data) => received.push(data));
+    client.start();
+
+    await waitFor(() => client.getPosition('/topic/42') === 0);
+    expect(server.polls.length).toBeGreaterThanOrEqual(3);
+    server.publish('/topic/42', { type: 'liked' });
+    await waitFor(() => received.length === 1);
+  });
+
+  it('stops polling once nothing is subscribed', async () => {
+    const unsubscribe = client.subscribe('/latest', () => {});
+    client.start();
+    await waitFor(() => server.polls.length >= 1);
+
+    unsubscribe();
+    await client.idle();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const polls = server.polls.length;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(server.polls.length).toBe(polls);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Unit tests for private messages: the folder and conversation API calls,
+ * turning PM lists into conversation rows, and the message hooks
+ */
+
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: jest.fn(async () => null),
+  setItemAsync: jest.fn(async () => {}),
+  deleteItemAsync: jest.fn(async () => {}),
+}));
+
+jest.mock('expo-constants', () => ({
+  expoConfig: { extra: { DISCOURSE_BASE_URL: 'https://forum.example.com' } },
+}));
+
+jest.mock('../../lib/auth', () => ({
+  authHeaders: jest.fn().mockResolvedValue({ 'User-Api-Key': 'key', 'Api-Username': 'alice' }),
+}));
+
+import React from 'react';
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react-native';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { discourseApi } from '../../shared/discourseApi';
+import { topicToMessageSummary } from '../../shared/adapters/topicToMessageSummary';
+import { queryKeys } from '../../shared/query-client';
+import { useMessages } from '../../shared/useMessages';
+import { useArchiveMessage, useLeaveMessage, useSendMessage } from '../../shared/mutations/useMessageMutations';
+
+function jsonResponse(data: any, status = 200) {
+  return {
+    ok: status < 400,
+    status,
+    statusText: '',
+    json: async () => data,
+    text: async () => JSON.stringify(data),
+    headers: { get: () => 'application/json' },
+  };
+}
+
+function lastRequest(): { url: string; method: string; body: any } {
+  const [url, init] = (global.fetch as jest.Mock).mock.calls.at(-1);
+  return { url, method: init?.method || 'GET', body: init?.body ? JSON.parse(init.body) : undefined };
+}
+
+function messageTopic(id: number, overrides: Record<string, any> = {}) {
+  return {
+    id,
+    title: `Conversation ${id}`,
+    posts_count: 2,
+    last_posted_at: '2026-10-19T10:00:00.000Z',
+    last_read_post_number: 2,
+    participants: [{ user_id: 1 }, { user_id: 2 }],
+    ...overrides,
+  };
+}
+
+const users = [
+  { id: 1, username: 'alice', name: 'Alice', avatar_template: '/user_avatar/forum/alice/{size}/1.png' },
+  { id: 2, username: 'bob', avatar_template: '' },
+];
+
+function folderPage(topics: any[], hasMore: boolean) {
+  return {
+    success: true,
+    data: {
+      users,
+      topic_list: { topics, ...(hasMore ? { more_topics_url: '/topics/private-messages/alice?page=1' } : {}) },
+    },
+  };
+}
+
+function createWrapper(queryClient: QueryClient) {
+  return ({ children }: { children: React.ReactNode }) =>
+    React.createElement(QueryClientProvider, { client: queryClient }, children);
+}
+
+describe('private message API', () => {
+  beforeEach(() => {
+    global.fetch = jest.fn().mockResolvedValue(jsonResponse({})) as any;
+  });
+
+  it('loads each folder from its own list, paging after the first', async () => {
+    await discourseApi.getPrivateMessages('alice');
+    expect(lastRequest().url).toMatch(/\/topics\/private-messages\/alice\.json$/);
+
+    await discourseApi.getPrivateMessages('Alice B', 'sent', 2);
+    expect(lastRequest().url).toMatch(/\/topics\/private-messages-sent\/Alice%20B\.json\?page=2$/);
+
+    await discourseApi.getPrivateMessages('alice', 'archive');
+    expect(lastRequest().url).toMatch(/\/topics\/private-messages-archive\/alice\.json$/);
+  });
+
+  it('starts a conversation with every recipient', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(jsonResponse({ id: 5, topic_id: 77 }));
+
+    const response = await discourseApi.createPrivateMessage({
+      title: 'Meetup plans',
+      raw: 'Are we still on for Friday?',
+      recipients: ['bob', 'carol'],
+    });
+
+    expect(response.data?.topic_id).toBe(77);
+    const request = lastRequest();
+    expect(request.url).toMatch(/\/posts\.json$/);
+    expect(request.method).toBe('POST');
+    expect(request.body).toMatchObject({ archetype: 'private_message', target_recipients: 'bob,carol' });
+  });
+
+  it('refuses a conversation without recipients or content', async () => {
+    expect(
+      (await discourseApi.createPrivateMessage({ title: 'Hi', raw: 'Hello there', recipients: [] })).success
+    ).toBe(false);
+    expect((await discourseApi.createPrivateMessage({ title: '', raw: 'Hello', recipients: ['bob'] })).success).toBe(
+      false
+    );
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('archives, moves back to the inbox and leaves a conversation', async () => {
+    await discourseApi.archiveMessage(12);
+    expect(lastRequest()).toMatchObject({ method: 'PUT' });
+    expect(lastRequest().url).toMatch(/\/t\/12\/archive-message\.json$/);
+
+    await discourseApi.moveMessageToInbox(12);
+    expect(lastRequest().url).toMatch(/\/t\/12\/move-to-inbox\.json$/);
+
+    await discourseApi.leaveMessage(12, 'alice');
+    expect(lastRequest().url).toMatch(/\/t\/12\/remove-allowed-user\.json$/);
+    expect(lastRequest().body).toEqual({ username: 'alice' });
+  });
+});
+
+describe('topicToMessageSummary', () => {
+  const usersById = new Map<number, any>(users.map((user) => [user.id, user]));
+
+  it('names the participants from the list users', () => {
+    const summary = topicToMessageSummary(messageTopic(3), usersById);
+
+    expect(summary.participants.map((person) => [person.username, person.name])).toEqual([
+      ['alice', 'Alice'],
+      ['bob', 'bob'],
+    ]);
+    expect(summary.participants[0].avatar).toContain('/user_avatar/forum/alice/80/1.png');
+    expect(summary.isUnread).toBe(false);
+  });
+
+  it('falls back to posters and counts unread and new replies', () => {
+    const summary = topicToMessageSummary(
+      messageTopic(3, { participants: undefined, posters: [{ user_id: 2 }], unread_posts: 2, new_posts: 1 }),
+      usersById
+    );
+
+    expect(summary.participants.map((person) => person.username)).toEqual(['bob']);
+    expect(summary.unreadCount).toBe(3);
+    expect(summary.isUnread).toBe(true);
+  });
+
+  it('treats a conversation never opened as unread', () => {
+    expect(topicToMessageSummary(messageTopic(3, { last_read_post_number: null }), usersById).isUnread).toBe(true);
+  });
+});
+
+describe('message hooks', () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false }, mutations: { retry: false } } });
+  });
+
+  afterEach(() => {
+    // Unmount before the shared teardown flushes the fake timers
+    cleanup();
+    queryClient.clear();
+    jest.restoreAllMocks();
+  });
+
+  it('pages through a folder, listing a bumped conversation once', async () => {
+    const getPrivateMessages = jest
+      .spyOn(discourseApi, 'getPrivateMessages')
+      .mockResolvedValueOnce(folderPage([messageTopic(1), messageTopic(2)], true))
+      .mockResolvedValueOnce(folderPage([messageTopic(2), messageTopic(3)], false));
+
+    const { result } = renderHook(() => useMessages('alice', 'inbox'), { wrapper: createWrapper(queryClient) });
+
+    await waitFor(() => expect(result.current.messages).toHaveLength(2));
+    expect(result.current.hasMore).toBe(true);
+
+    await act(async () => {
+      await result.current.loadMore();
+    });
+
+    expect(getPrivateMessages).toHaveBeenLastCalledWith('alice', 'inbox', 1);
+    await waitFor(() => expect(result.current.messages.map((message) => message.id)).toEqual([1, 2, 3]));
+    expect(result.current.hasMore).toBe(false);
+  });
+
+  it('waits for a username before loading', () => {
+    const getPrivateMessages = jest.spyOn(discourseApi, 'getPrivateMessages');
+
+    const { result } = renderHook(() => useMessages(undefined), { wrapper: createWrapper(queryClient) });
+
+    expect(result.current.messages).toEqual([]);
+    expect(getPrivateMessages).not.toHaveBeenCalled();
+  });
+
+  it('reports why a folder failed to load', async () => {
+    jest.spyOn(discourseApi, 'getPrivateMessages').mockResolvedValue({ success: false, error: 'Forbidden' });
+
+    const { result } = renderHook(() => useMessages('alice', 'sent'), { wrapper: createWrapper(queryClient) });
+
+    await waitFor(() => expect(result.current.hasError).toBe(true));
+    expect(result.current.errorMessage).toBe('Forbidden');
+  });
+
+  it('returns the new conversation and reloads the folders after sending', async () => {
+    jest.spyOn(discourseApi, 'createPrivateMessage').mockResolvedValue({ success: true, data: { topic_id: 77 } });
+    const invalidate = jest.spyOn(queryClient, 'invalidateQueries');
+
+    const { result } = renderHook(() => useSendMessage(), { wrapper: createWrapper(queryClient) });
+
+    let topicId: number | undefined;
+    await act(async () => {
+      topicId = await result.current.mutateAsync({ title: 'Hi', raw: 'Hello there', recipients: ['bob'] });
+    });
+
+    expect(topicId).toBe(77);
+    expect(invalidate).toHaveBeenCalledWith({ queryKey: ['messages'] });
+  });
+
+  it('archives or moves back to the inbox', async () => {
+    const archiveMessage = jest.spyOn(discourseApi, 'archiveMessage').mockResolvedValue({ success: true });
+    const moveMessageToInbox = jest.spyOn(discourseApi, 'moveMessageToInbox').mockResolvedValue({ success: true });
+
+    const { result } = renderHook(() => useArchiveMessage(), { wrapper: createWrapper(queryClient) });
+
+    await act(async () => {
+      await result.current.mutateAsync({ topicId: 12, archive: true });
+    });
+    await act(async () => {
+      await result.current.mutateAsync({ topicId: 12, archive: false });
+    });
+
+    expect(archiveMessage).toHaveBeenCalledWith(12);
+    expect(moveMessageToInbox).toHaveBeenCalledWith(12);
+  });
+
+  it('forgets a conversation once the user leaves it', async () => {
+    jest.spyOn(discourseApi, 'leaveMessage').mockResolvedValue({ success: true });
+    queryClient.setQueryData(queryKeys.topic(12), { id: 12 });
+
+    const { result } = renderHook(() => useLeaveMessage(), { wrapper: createWrapper(queryClient) });
+
+    await act(async () => {
+      await result.current.mutateAsync({ topicId: 12, username: 'alice' });
+    });
+
+    expect(queryClient.getQueryData(queryKeys.topic(12))).toBeUndefined();
+  });
+
+  it('surfaces a refused leave', async () => {
+    jest.spyOn(discourseApi, 'leaveMessage').mockResolvedValue({ success: false, error: 'Not allowed' });
+
+    const { result } = renderHook(() => useLeaveMessage(), { wrapper: createWrapper(queryClient) });
+
+    await act(async () => {
+      await expect(result.current.mutateAsync({ topicId: 12, username: 'alice' })).rejects.toThrow('Not allowed');
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for the moderation helpers behind the staff tools on the Byte page
+ */
+
+import type { AppUser } from '../../shared/discourseApi';
+import type { TopicData } from '../../shared/useTopic';
+import {
+  MOVED_POSTS_ACTION_CODE,
+  applyTopicStatus,
+  buildSmallActionComment,
+  getSmallActionText,
+  getStatusActionCode,
+  isStaffUser,
+  parseTopicReference,
+} from '../../shared/moderation';
+
+function makeTopic(overrides: Partial<TopicData> = {}): TopicData {
+  return {
+    id: 42,
+    title: 'Hello Fomio',
+    isPinned: false,
+    isPinnedGlobally: false,
+    isClosed: false,
+    isArchived: false,
+    isVisible: true,
+    ...overrides,
+  } as TopicData;
+}
+
+const staffMember: AppUser = {
+  id: '1',
+  username: 'mod',
+  name: 'Moderator',
+  email: '',
+  avatar: '',
+  bio: '',
+  followers: 0,
+  following: 0,
+  bytes: 0,
+  comments: 0,
+  joinedDate: '',
+  moderator: true,
+};
+
+describe('isStaffUser', () => {
+  it('accepts admins and moderators only', () => {
+    expect(isStaffUser(staffMember)).toBe(true);
+    expect(isStaffUser({ admin: true })).toBe(true);
+    expect(isStaffUser({ admin: false, moderator: false })).toBe(false);
+    expect(isStaffUser({})).toBe(false);
+    expect(isStaffUser(null)).toBe(false);
+  });
+});
+
+describe('applyTopicStatus', () => {
+  it('closes, archives and unlists the byte', () => {
+    const topic = makeTopic();
+    expect(applyTopicStatus(topic, 'closed', true).isClosed).toBe(true);
+    expect(applyTopicStatus(topic, 'archived', true).isArchived).toBe(true);
+    expect(applyTopicStatus(topic, 'visible', false).isVisible).toBe(false);
+    expect(topic.isClosed).toBe(false);
+  });
+
+  it('pins in the teret or globally', () => {
+    expect(applyTopicStatus(makeTopic(), 'pinned', true)).toMatchObject({ isPinned: true, isPinnedGlobally: false });
+    expect(applyTopicStatus(makeTopic(), 'pinned_globally', true)).toMatchObject({
+      isPinned: true,
+      isPinnedGlobally: true,
+    });
+  });
+
+  it('clears a global pin when unpinning', () => {
+    const topic = makeTopic({ isPinned: true, isPinnedGlobally: true });
+    expect(applyTopicStatus(topic, 'pinned', false)).toMatchObject({ isPinned: false, isPinnedGlobally: false });
+    expect(applyTopicStatus(topic, 'pinned_globally', false)).toMatchObject({
+      isPinned: false,
+      isPinnedGlobally: false,
+    });
+  });
+});
+
+describe('small actions', () => {
+  it('uses the action codes Discourse records', () => {
+    expect(getStatusActionCode('closed', true)).toBe('closed.enabled');
+    expect(getStatusActionCode('visible', false)).toBe('visible.disabled');
+  });
+
+  it('describes known and unknown action codes', () => {
+    expect(getSmallActionText('closed.enabled')).toBe('closed this Byte');
+    expect(getSmallActionText('pinned_globally.enabled')).toBe('pinned this Byte globally');
+    expect(getSmallActionText(MOVED_POSTS_ACTION_CODE)).toBe('moved replies');
+    expect(getSmallActionText('something_new')).toBe('updated this Byte');
+  });
+
+  it('builds a placeholder post that cannot collide with a real one', () => {
+    const comment = buildSmallActionComment({
+      topicId: 42,
+      byteTitle: 'Hello Fomio',
+      actionCode: 'archived.enabled',
+      author: staffMember,
+      postNumber: 8,
+    });
+    expect(comment.id).toBeLessThan(0);
+    expect(comment).toMatchObject({
+      byteId: 42,
+      postNumber: 8,
+      actionCode: 'archived.enabled',
+      author: { username: 'mod' },
+    });
+  });
+});
+
+describe('parseTopicReference', () => {
+  it('reads bare IDs', () => {
+    expect(parseTopicReference(' 123 ')).toBe(123);
+    expect(parseTopicReference('0')).toBeNull();
+  });
+
+  it('reads Byte links', () => {
+    expect(parseTopicReference('https://meta.fomio.app/t/hello-fomio/123')).toBe(123);
+    expect(parseTopicReference('https://meta.fomio.app/t/hello-fomio/123/4')).toBe(123);
+    expect(parseTopicReference('https://meta.fomio.app/t/123')).toBe(123);
+    expect(parseTopicReference('https://meta.fomio.app/t/123/4')).toBe(123);
+    expect(parseTopicReference('fomio://byte/123')).toBe(123);
+    expect(parseTopicReference('/feed/123?postNumber=2')).toBe(123);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseTopicReference('')).toBeNull();
+    expect(parseTopicReference('hello')).toBeNull();
+    expect(parseTopicReference('https://meta.fomio.app/c/general/5')).toBeNull();
+  });
+});
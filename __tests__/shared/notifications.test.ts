@@ -0,0 +1,143 @@
+/**
+ * Unit tests for notification paging, marks kept on the device and grouping
+ * repeats about the same Byte
+ */
+
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: jest.fn(async () => null),
+  setItemAsync: jest.fn(async () => {}),
+  deleteItemAsync: jest.fn(async () => {}),
+}));
+
+jest.mock('expo-constants', () => ({
+  expoConfig: { extra: {} },
+}));
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Notification } from '../../shared/useNotifications';
+import {
+  MARKED_UNREAD_LIMIT,
+  addMarkedUnread,
+  applyMarkedUnread,
+  getMarkedUnreadStorageKey,
+  getNextNotificationsOffset,
+  loadMarkedUnread,
+  mergeNotificationPages,
+  removeMarkedUnread,
+  saveMarkedUnread,
+} from '../../shared/notifications';
+import {
+  getNotificationGroupTitle,
+  groupConsecutiveNotifications,
+  groupNotificationsByTime,
+} from '../../lib/utils/notifications';
+
+function notification(
+  id: number,
+  overrides: Partial<Notification> & { username?: string; topicTitle?: string } = {}
+): Notification {
+  const { username = 'alice', topicTitle = 'Hello', ...rest } = overrides;
+  return {
+    id,
+    type: 'liked',
+    isRead: false,
+    createdAt: new Date(Date.UTC(2026, 9, 19, 10, 60 - id)).toISOString(),
+    topicId: 7,
+    data: { display_username: username, topic_title: topicTitle },
+    ...rest,
+  };
+}
+
+describe('getNextNotificationsOffset', () => {
+  it('follows load_more_notifications', () => {
+    const data = { load_more_notifications: '/notifications?offset=60&username=alice', total_rows_notifications: 130 };
+    expect(getNextNotificationsOffset(data, 0, 60)).toBe(60);
+  });
+
+  it('stops at the end', () => {
+    expect(getNextNotificationsOffset({ load_more_notifications: '/notifications?offset=60' }, 0, 0)).toBeUndefined();
+    expect(
+      getNextNotificationsOffset({ load_more_notifications: '/notifications?username=a&offset=120', total_rows_notifications: 110 }, 60, 50)
+    ).toBeUndefined();
+    expect(getNextNotificationsOffset({ load_more_notifications: '/notifications?offset=60' }, 60, 60)).toBeUndefined();
+    expect(getNextNotificationsOffset({}, 0, 60)).toBeUndefined();
+  });
+});
+
+describe('mergeNotificationPages', () => {
+  it('lists a notification pushed onto the next page once, newest first', () => {
+    const merged = mergeNotificationPages([
+      [notification(1), notification(2)],
+      [notification(2), notification(3)],
+    ]);
+    expect(merged.map((item) => item.id)).toEqual([1, 2, 3]);
+  });
+});
+
+describe('marked unread', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('shows read notifications marked on the device as unread', () => {
+    const read = [notification(1, { isRead: true }), notification(2, { isRead: true })];
+    expect(applyMarkedUnread(read, [2]).map((item) => item.isRead)).toEqual([true, false]);
+  });
+
+  it('keeps the most recent marks, once each', () => {
+    expect(addMarkedUnread([1, 2], [2, 3])).toEqual([2, 3, 1]);
+    expect(removeMarkedUnread([1, 2, 3], [2])).toEqual([1, 3]);
+    const many = Array.from({ length: MARKED_UNREAD_LIMIT }, (_, i) => i);
+    expect(addMarkedUnread(many, [999])).toHaveLength(MARKED_UNREAD_LIMIT);
+  });
+
+  it('keeps each account apart', async () => {
+    await saveMarkedUnread('alice@forum.example.com', [4, 5]);
+    expect(await loadMarkedUnread('alice@forum.example.com')).toEqual([4, 5]);
+    expect(await loadMarkedUnread('alice@other.example.org')).toEqual([]);
+    expect(getMarkedUnreadStorageKey('alice@forum.example.com')).toBe(
+      'fomio_notifications_marked_unread.alice_forum.example.com'
+    );
+  });
+});
+
+describe('grouping notifications', () => {
+  it('collapses consecutive same-type notifications about one Byte', () => {
+    const groups = groupConsecutiveNotifications([
+      notification(1),
+      notification(2, { username: 'bob' }),
+      notification(3, { type: 'replied' }),
+      notification(4, { username: 'carol' }),
+      notification(5, { topicId: undefined, type: 'granted_badge' }),
+      notification(6, { topicId: undefined, type: 'granted_badge' }),
+    ]);
+    expect(groups.map((group) => group.notifications.map((item) => item.id))).toEqual([[1, 2], [3], [4], [5], [6]]);
+    expect(groups[0]).toMatchObject({ key: 'notification-1', type: 'liked', topicId: 7, isRead: false });
+  });
+
+  it('counts a group as read only when all of it is', () => {
+    const [group] = groupConsecutiveNotifications([notification(1, { isRead: true }), notification(2)]);
+    expect(group.isRead).toBe(false);
+  });
+
+  it('names who acted', () => {
+    const title = (items: Notification[]) => getNotificationGroupTitle(groupConsecutiveNotifications(items)[0]);
+    expect(
+      title(['alice', 'bob', 'carol', 'dan', 'erin'].map((username, i) => notification(i + 1, { username })))
+    ).toBe('alice and 4 others liked "Hello"');
+    expect(title([notification(1), notification(2, { username: 'bob' })])).toBe('alice and bob liked "Hello"');
+    expect(title([notification(1, { type: 'replied' }), notification(2, { type: 'replied' })])).toBe(
+      'alice replied to "Hello" (2)'
+    );
+    expect(title([notification(1)])).toBe('alice liked "Hello"');
+    expect(
+      title([notification(1, { type: 'moved_post' }), notification(2, { type: 'moved_post' })])
+    ).toBe('2 notifications about "Hello"');
+  });
+
+  it('sorts groups into time sections', () => {
+    const now = new Date();
+    const groups = groupConsecutiveNotifications([notification(1, { createdAt: now.toISOString() })]);
+    expect(groupNotificationsByTime(groups)).toEqual([{ title: 'Today', data: groups }]);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Unit tests for the offline outbox replay rules
+ */
+
+jest.mock('../../shared/discourseApi', () => ({
+  discourseApi: {
+    getBaseUrl: () => 'https://forum.example.com',
+    likePost: jest.fn(),
+    unlikePost: jest.fn(),
+    bookmarkPost: jest.fn(),
+    unbookmarkPost: jest.fn(),
+    createReply: jest.fn(),
+    createTopic: jest.fn(),
+    updateUserProfile: jest.fn(),
+  },
+}));
+
+import {
+  SyncResult,
+  classifyReplayResponse,
+  getActionDedupeKey,
+  isNetworkFailure,
+  offlineManager,
+} from '../../shared/offline-support';
+import { discourseApi } from '../../shared/discourseApi';
+
+const mockedApi = discourseApi as jest.Mocked<typeof discourseApi>;
+
+describe('offline outbox', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    // The forum's /srv/status answers, so connectivity checks pass
+    global.fetch = jest.fn().mockResolvedValue({ ok: true }) as any;
+    await offlineManager.clearAll();
+  });
+
+  describe('isNetworkFailure', () => {
+    it('treats only requests that never reached the server as network failures', () => {
+      expect(isNetworkFailure({ success: false, error: 'Network error', networkError: true })).toBe(true);
+      expect(isNetworkFailure({ success: false, error: 'Title and content are required' })).toBe(false);
+      expect(isNetworkFailure({ success: false, error: 'Forbidden', status: 403 })).toBe(false);
+      expect(isNetworkFailure({ success: true })).toBe(false);
+    });
+  });
+
+  describe('classifyReplayResponse', () => {
+    it('marks successful replays as done', () => {
+      expect(classifyReplayResponse('like_post', { success: true })).toBe('done');
+    });
+
+    it('treats an already-applied like as done', () => {
+      expect(
+        classifyReplayResponse('like_post', {
+          success: false,
+          status: 403,
+          errors: ['You already performed this action.'],
+        })
+      ).toBe('done');
+    });
+
+    it('treats unliking a missing like as done', () => {
+      expect(classifyReplayResponse('unlike_post', { success: false, status: 404 })).toBe('done');
+    });
+
+    it('treats a duplicate reply rejection as done', () => {
+      expect(
+        classifyReplayResponse('create_reply', {
+          success: false,
+          status: 422,
+          errors: ['Body is too similar to what you recently posted'],
+        })
+      ).toBe('done');
+    });
+
+    it('retries network, rate limit and server errors', () => {
+      expect(classifyReplayResponse('create_reply', { success: false })).toBe('retry');
+      expect(classifyReplayResponse('create_reply', { success: false, status: 429 })).toBe('retry');
+      expect(classifyReplayResponse('create_reply', { success: false, status: 502 })).toBe('retry');
+    });
+
+    it('drops validation errors', () => {
+      expect(
+        classifyReplayResponse('create_reply', {
+          success: false,
+          status: 422,
+          errors: ['Body is too short'],
+        })
+      ).toBe('drop');
+    });
+  });
+
+  describe('getActionDedupeKey', () => {
+    it('keys toggles on the target post', () => {
+      expect(getActionDedupeKey('like_post', { postId: 7 })).toBe('post:7');
+      expect(getActionDedupeKey('unlike_post', { postId: 7 })).toBe('post:7');
+    });
+
+    it('keys replies on topic, target and content', () => {
+      const a = getActionDedupeKey('create_reply', { topicId: 1, raw: 'hello there' });
+      const b = getActionDedupeKey('create_reply', { topicId: 1, raw: ' hello there ' });
+      const c = getActionDedupeKey('create_reply', { topicId: 1, raw: 'something else' });
+      expect(a).toBe(b);
+      expect(a).not.toBe(c);
+    });
+  });
+
+  describe('queueAction', () => {
+    it('replays queued replies through discourseApi', async () => {
+      mockedApi.createReply.mockResolvedValue({ success: true, data: { id: 10 } });
+
+      await offlineManager.queueAction('create_reply', { topicId: 3, raw: 'queued reply', replyToPostNumber: 2 });
+      await offlineManager.syncWhenOnline();
+
+      expect(mockedApi.createReply).toHaveBeenCalledWith(3, 'queued reply', 2);
+      expect(offlineManager.getStatus().queueStatus.count).toBe(0);
+    });
+
+    it('keeps actions that fail with a network error for the next sync', async () => {
+      mockedApi.createReply.mockResolvedValue({ success: false, error: 'Network error', networkError: true });
+
+      await offlineManager.queueAction('create_reply', { topicId: 3, raw: 'still offline' });
+      await offlineManager.syncWhenOnline();
+
+      expect(offlineManager.getStatus().queueStatus.count).toBe(1);
+    });
+
+    it('does not spend retries on network failures', async () => {
+      mockedApi.createReply.mockResolvedValue({ success: false, error: 'Network error', networkError: true });
+
+      await offlineManager.queueAction('create_reply', { topicId: 3, raw: 'offline for a while' }, { maxRetries: 2 });
+      for (let i = 0; i < 4; i++) {
+        await offlineManager.syncWhenOnline();
+      }
+
+      const [action] = offlineManager.getStatus().queueStatus.actions;
+      expect(action.retryCount).toBe(0);
+    });
+
+    it('spends retries when the server fails', async () => {
+      mockedApi.createReply.mockResolvedValue({ success: false, error: 'Bad gateway', status: 502 });
+
+      await offlineManager.queueAction('create_reply', { topicId: 3, raw: 'server down' }, { maxRetries: 2 });
+      await offlineManager.syncWhenOnline();
+      await offlineManager.syncWhenOnline();
+
+      expect(offlineManager.getStatus().queueStatus.count).toBe(0);
+    });
+
+    it('merges a second offline profile edit into the queued one', async () => {
+      mockedApi.updateUserProfile.mockResolvedValue({ success: false, error: 'Network error', networkError: true });
+
+      const first = await offlineManager.queueAction('update_profile', {
+        username: 'alice',
+        updates: { name: 'Alice', bio_raw: 'First bio' },
+      });
+      const second = await offlineManager.queueAction('update_profile', {
+        username: 'alice',
+        updates: { bio_raw: 'Second bio' },
+      });
+
+      expect(second).toBe(first);
+      const [action] = offlineManager.getStatus().queueStatus.actions;
+      expect(action.payload.updates).toEqual({ name: 'Alice', bio_raw: 'Second bio' });
+    });
+
+    it('drops a like the server refuses instead of blocking the queue behind it', async () => {
+      mockedApi.likePost.mockResolvedValue({ success: false, error: 'Forbidden', status: 403 });
+      mockedApi.createReply.mockResolvedValue({ success: true, data: { id: 10 } });
+
+      await offlineManager.queueAction('like_post', { postId: 12 });
+      await offlineManager.queueAction('create_reply', { topicId: 3, raw: 'behind the like' });
+      await offlineManager.syncWhenOnline();
+
+      expect(mockedApi.createReply).toHaveBeenCalledWith(3, 'behind the like', undefined);
+      expect(offlineManager.getStatus().queueStatus.count).toBe(0);
+    });
+
+    it('checks connectivity and tells sync listeners when a queued action replays straight away', async () => {
+      mockedApi.likePost.mockResolvedValue({ success: true });
+      const synced = new Promise<SyncResult>((resolve) => {
+        const unsubscribe = offlineManager.addSyncListener((result) => {
+          unsubscribe();
+          resolve(result);
+        });
+      });
+
+      await offlineManager.queueAction('like_post', { postId: 12 });
+
+      expect((await synced).actionsProcessed).toBe(1);
+      expect(global.fetch).toHaveBeenCalledWith('https://forum.example.com/srv/status', expect.anything());
+      expect(mockedApi.likePost).toHaveBeenCalledWith(12);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Unit tests for poll helpers
+ */
+
+import {
+  Poll,
+  buildPollMarkup,
+  canSeeResults,
+  getNextPollName,
+  getNumberPollAverage,
+  getOptionPercentage,
+  getSelectionLimits,
+  isValidSelection,
+  parsePollFromCooked,
+  parsePolls,
+  pollOptionsFromText,
+  toggleSelection,
+  validatePollInput,
+} from '../../shared/polls';
+
+const rawPoll = {
+  name: 'poll',
+  type: 'multiple',
+  status: 'open',
+  results: 'on_vote',
+  public: true,
+  min: 1,
+  max: 2,
+  options: [
+    { id: 'a1', html: 'Red &amp; <b>warm</b>', votes: 3 },
+    { id: 'b2', html: 'Blue', votes: 1 },
+    { id: 'c3', html: 'Green', votes: 0 },
+  ],
+  voters: 4,
+};
+
+function makePoll(overrides: Partial<Poll> = {}): Poll {
+  return { ...parsePolls([rawPoll])[0], ...overrides };
+}
+
+describe('parsePolls', () => {
+  it('maps polls and the current user votes', () => {
+    const [poll] = parsePolls([rawPoll], { poll: ['a1'] });
+    expect(poll).toMatchObject({
+      name: 'poll',
+      type: 'multiple',
+      status: 'open',
+      results: 'on_vote',
+      isPublic: true,
+      min: 1,
+      max: 2,
+      voters: 4,
+      userVotes: ['a1'],
+    });
+    expect(poll.options[0]).toEqual({ id: 'a1', text: 'Red & warm', votes: 3 });
+  });
+
+  it('returns nothing when the post has no polls', () => {
+    expect(parsePolls(undefined)).toEqual([]);
+  });
+
+  it('reads settings from a cooked poll block', () => {
+    const poll = parsePollFromCooked(
+      {
+        'data-poll-name': 'poll2',
+        'data-poll-type': 'regular',
+        'data-poll-status': 'closed',
+        'data-poll-results': 'on_close',
+      },
+      [{ id: 'x', text: 'Yes' }]
+    );
+    expect(poll).toMatchObject({ name: 'poll2', type: 'regular', status: 'closed', results: 'on_close' });
+    expect(poll.options).toEqual([{ id: 'x', text: 'Yes', votes: 0 }]);
+  });
+});
+
+describe('canSeeResults', () => {
+  it('hides on_vote results until the user votes', () => {
+    expect(canSeeResults(makePoll())).toBe(false);
+    expect(canSeeResults(makePoll({ userVotes: ['b2'] }))).toBe(true);
+  });
+
+  it('shows on_close results once the poll is closed', () => {
+    expect(canSeeResults(makePoll({ results: 'on_close', userVotes: ['a1'] }))).toBe(false);
+    expect(canSeeResults(makePoll({ results: 'on_close', status: 'closed' }))).toBe(true);
+  });
+
+  it('never shows staff_only results', () => {
+    expect(canSeeResults(makePoll({ results: 'staff_only', status: 'closed' }))).toBe(false);
+  });
+});
+
+describe('selection', () => {
+  it('replaces the selection in single choice polls', () => {
+    const poll = makePoll({ type: 'regular' });
+    expect(toggleSelection(poll, ['a1'], 'b2')).toEqual(['b2']);
+    expect(getSelectionLimits(poll)).toEqual({ min: 1, max: 1 });
+  });
+
+  it('stops adding options at the max in multiple choice polls', () => {
+    const poll = makePoll();
+    expect(toggleSelection(poll, ['a1'], 'b2')).toEqual(['a1', 'b2']);
+    expect(toggleSelection(poll, ['a1', 'b2'], 'c3')).toEqual(['a1', 'b2']);
+    expect(toggleSelection(poll, ['a1', 'b2'], 'a1')).toEqual(['b2']);
+  });
+
+  it('validates the number of selected options', () => {
+    const poll = makePoll({ min: 2, max: 3 });
+    expect(isValidSelection(poll, ['a1'])).toBe(false);
+    expect(isValidSelection(poll, ['a1', 'c3'])).toBe(true);
+    expect(isValidSelection(poll, ['a1', 'zz'])).toBe(false);
+  });
+});
+
+describe('results', () => {
+  it('computes the share of voters per option', () => {
+    const poll = makePoll();
+    expect(poll.options.map((option) => getOptionPercentage(poll, option))).toEqual([75, 25, 0]);
+  });
+
+  it('averages number poll votes', () => {
+    const poll = makePoll({
+      type: 'number',
+      options: [
+        { id: 'n1', text: '1', votes: 1 },
+        { id: 'n2', text: '2', votes: 0 },
+        { id: 'n3', text: '4', votes: 2 },
+      ],
+    });
+    expect(getNumberPollAverage(poll)).toBe(3);
+    expect(getNumberPollAverage(makePoll({ type: 'number', options: [] }))).toBeNull();
+  });
+});
+
+describe('buildPollMarkup', () => {
+  it('writes a single choice poll', () => {
+    expect(buildPollMarkup({ type: 'regular', title: 'Favourite?', options: ['Red', ' ', 'Blue '] })).toBe(
+      '[poll type=regular results=always]\n# Favourite?\n* Red\n* Blue\n[/poll]'
+    );
+  });
+
+  it('writes limits, visibility and name', () => {
+    expect(
+      buildPollMarkup({
+        type: 'multiple',
+        name: 'poll2',
+        options: ['A', 'B', 'C'],
+        min: 1,
+        max: 2,
+        results: 'on_vote',
+        isPublic: true,
+      })
+    ).toBe('[poll name=poll2 type=multiple min=1 max=2 results=on_vote public=true]\n* A\n* B\n* C\n[/poll]');
+  });
+
+  it('writes a number poll without options', () => {
+    expect(buildPollMarkup({ type: 'number', options: ['ignored'], min: 1, max: 10, step: 1 })).toBe(
+      '[poll type=number min=1 max=10 step=1 results=always]\n[/poll]'
+    );
+  });
+
+  it('turns selected lines into options', () => {
+    expect(pollOptionsFromText('- Tea\n\n* Coffee \n2. Water')).toEqual(['Tea', 'Coffee', 'Water']);
+  });
+
+  it('names additional polls in a post', () => {
+    expect(getNextPollName('Hello')).toBe('poll');
+    expect(getNextPollName('[poll]\n* a\n[/poll]')).toBe('poll2');
+  });
+});
+
+describe('validatePollInput', () => {
+  it('needs two distinct options', () => {
+    expect(validatePollInput({ type: 'regular', options: ['Yes', ''] })).toBe('Add at least two options.');
+    expect(validatePollInput({ type: 'regular', options: ['Yes', 'Yes '] })).toBe('Each option must be different.');
+    expect(validatePollInput({ type: 'regular', options: ['Yes', 'No'] })).toBeNull();
+  });
+
+  it('keeps multiple choice limits within the options', () => {
+    expect(validatePollInput({ type: 'multiple', options: ['A', 'B'], min: 1, max: 3 })).toBe(
+      'Choose between 1 and 2 options.'
+    );
+    expect(validatePollInput({ type: 'multiple', options: ['A', 'B', 'C'], min: 1, max: 2 })).toBeNull();
+  });
+
+  it('checks the number poll range', () => {
+    expect(validatePollInput({ type: 'number', options: [], min: 5, max: 5 })).toBe(
+      'The lowest value must be below the highest.'
+    );
+    expect(validatePollInput({ type: 'number', options: [], min: 1, max: 10, step: 20 })).toBe(
+      'The step must fit within the range.'
+    );
+    expect(validatePollInput({ type: 'number', options: [], min: 1, max: 10, step: 1 })).toBeNull();
+  });
+});
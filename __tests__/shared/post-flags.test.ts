@@ -0,0 +1,81 @@
+/**
+ * Unit tests for post flag helpers
+ */
+
+import {
+  DEFAULT_POST_FLAG_TYPES,
+  canFlagPost,
+  getAvailableFlagTypes,
+  getPostFlagState,
+  parsePostFlagTypes,
+} from '../../shared/post-flags';
+
+describe('parsePostFlagTypes', () => {
+  const postActionTypes = [
+    { id: 2, name_key: 'like', name: 'Like', is_flag: false },
+    { id: 3, name_key: 'off_topic', name: "It's Off-Topic", description: 'Not <b>relevant</b> &amp; off track', is_flag: true },
+    { id: 6, name_key: 'notify_user', name: 'Send @user a message', is_flag: true, is_custom_flag: true },
+    { id: 7, name_key: 'notify_moderators', name: 'Something Else', description: '', is_flag: true, is_custom_flag: true },
+    { id: 8, name_key: 'spam', name: "It's Spam", is_flag: true, enabled: false },
+    { id: 10, name_key: 'illegal', name: "It's Illegal", is_flag: true, require_message: true, applies_to: ['Post', 'Topic'] },
+    { id: 20, name_key: 'chat_only', name: 'Chat only', is_flag: true, applies_to: ['Chat::Message'] },
+  ];
+
+  it('keeps enabled post flags other than "message the user"', () => {
+    expect(parsePostFlagTypes(postActionTypes).map((type) => type.id)).toEqual([3, 7, 10]);
+  });
+
+  it('strips markup from descriptions', () => {
+    expect(parsePostFlagTypes(postActionTypes)[0].description).toBe('Not relevant & off track');
+  });
+
+  it('marks custom and message-required flags', () => {
+    const types = parsePostFlagTypes(postActionTypes);
+    expect(types.map((type) => type.requireMessage)).toEqual([false, true, true]);
+  });
+});
+
+describe('getPostFlagState', () => {
+  it('reads the flag the current user raised', () => {
+    const state = getPostFlagState([
+      { id: 2, count: 3, acted: true, can_undo: true },
+      { id: 4, acted: true, can_undo: true },
+    ]);
+    expect(state).toEqual({ flaggedTypeId: 4, canUndo: true, availableTypeIds: [] });
+  });
+
+  it('lists flag types the user can still raise, ignoring likes and bookmarks', () => {
+    const state = getPostFlagState([
+      { id: 2, can_act: true },
+      { id: 3, can_act: true },
+      { id: 8, can_act: true },
+      { id: 7, can_act: false },
+    ]);
+    expect(state.flaggedTypeId).toBeNull();
+    expect(state.availableTypeIds).toEqual([3, 8]);
+    expect(canFlagPost(state)).toBe(true);
+  });
+
+  it('returns an empty state without actions_summary', () => {
+    const state = getPostFlagState(undefined);
+    expect(state.flaggedTypeId).toBeNull();
+    expect(canFlagPost(state)).toBe(false);
+  });
+});
+
+describe('getAvailableFlagTypes', () => {
+  it('filters to the types the user may raise', () => {
+    const types = getAvailableFlagTypes(DEFAULT_POST_FLAG_TYPES, {
+      flaggedTypeId: null,
+      canUndo: false,
+      availableTypeIds: [8, 7],
+    });
+    expect(types.map((type) => type.nameKey)).toEqual(['spam', 'notify_moderators']);
+  });
+
+  it('offers every type when the post did not say', () => {
+    expect(getAvailableFlagTypes(DEFAULT_POST_FLAG_TYPES, getPostFlagState([]))).toHaveLength(
+      DEFAULT_POST_FLAG_TYPES.length
+    );
+  });
+});
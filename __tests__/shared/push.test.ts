@@ -0,0 +1,280 @@
+/**
+ * Unit tests for the push relay contract and the push manager, run against
+ * an in-memory fake relay
+ */
+
+jest.mock('expo-constants', () => ({
+  expoConfig: { extra: {} },
+}));
+
+jest.mock('../../shared/push-transport', () => ({
+  devicePushTransport: {},
+}));
+
+import type { NotificationPreferences } from '../../shared/useNotificationPreferences';
+import {
+  DiscoursePushPayload,
+  PushRegistration,
+  PushUnregistration,
+  buildPushMessages,
+  getPushDeliveryPreferences,
+  getPushRelayEndpoints,
+  isPushAllowed,
+  pushDataToNotification,
+  readPushMessageData,
+} from '../../shared/push';
+import { PushDeviceToken, PushManager, PushTransport } from '../../shared/push-manager';
+import { getNotificationHref, getNotificationNavigationTarget } from '../../lib/utils/notifications';
+
+const SITE = 'https://meta.fomio.app';
+const PUSH_URL = 'https://relay.example.com/push';
+
+function makePreferences(overrides: Partial<NotificationPreferences> = {}): NotificationPreferences {
+  return {
+    replies: true,
+    mentions: true,
+    likes: true,
+    privateMessages: true,
+    badges: true,
+    system: true,
+    following: true,
+    pushEnabled: true,
+    pushSound: true,
+    pushAlert: true,
+    ...overrides,
+  } as NotificationPreferences;
+}
+
+function makeRegistration(overrides: Partial<PushRegistration> = {}): PushRegistration {
+  return {
+    client_id: 'client-1',
+    site: SITE,
+    username: 'alice',
+    platform: 'ios',
+    token_type: 'expo',
+    push_token: 'ExponentPushToken[abc]',
+    preferences: getPushDeliveryPreferences(makePreferences()),
+    ...overrides,
+  };
+}
+
+function makePayload(notifications: DiscoursePushPayload['notifications']): DiscoursePushPayload {
+  return { url: SITE, title: 'Fomio', notifications };
+}
+
+/**
+ * Relay that keeps registrations in memory, like scripts/fake-push-relay.js
+ */
+function createFakeRelay(token: PushDeviceToken | null = { token: 'ExponentPushToken[abc]', platform: 'ios' }) {
+  const devices = new Map<string, PushRegistration>();
+  const requests: { url: string; body: PushRegistration | PushUnregistration }[] = [];
+  return {
+    devices,
+    requests,
+    transport: {
+      getDeviceToken: jest.fn(async (_prompt: boolean) => token),
+      post: jest.fn(async (url: string, body: PushRegistration | PushUnregistration) => {
+        requests.push({ url, body });
+        if (url.endsWith('/devices/unregister')) {
+          devices.delete(body.client_id);
+        } else {
+          devices.set(body.client_id, body as PushRegistration);
+        }
+        return { success: true };
+      }),
+    } as PushTransport & { getDeviceToken: jest.Mock; post: jest.Mock },
+  };
+}
+
+describe('getPushRelayEndpoints', () => {
+  it('serves device endpoints next to the push_url', () => {
+    expect(getPushRelayEndpoints(PUSH_URL)).toEqual({
+      register: 'https://relay.example.com/devices',
+      unregister: 'https://relay.example.com/devices/unregister',
+    });
+    expect(getPushRelayEndpoints('http://192.168.1.5:8787/relay/push?x=1')).toEqual({
+      register: 'http://192.168.1.5:8787/relay/devices',
+      unregister: 'http://192.168.1.5:8787/relay/devices/unregister',
+    });
+  });
+
+  it('rejects a push_url without a path', () => {
+    expect(getPushRelayEndpoints('https://relay.example.com')).toBeNull();
+    expect(getPushRelayEndpoints('not a url')).toBeNull();
+  });
+});
+
+describe('buildPushMessages', () => {
+  it('routes notifications to the device registered for the client_id and site', () => {
+    const messages = buildPushMessages(
+      makePayload([
+        { notification_type: 2, client_id: 'client-1', topic_id: 7, post_number: 3, username: 'bob', topic_title: 'Hello', excerpt: 'Nice' },
+        { notification_type: 2, client_id: 'someone-else', topic_id: 7 },
+      ]),
+      [makeRegistration(), makeRegistration({ client_id: 'someone-else', site: 'https://other.example.com' })]
+    );
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({
+      to: 'ExponentPushToken[abc]',
+      title: 'Hello',
+      body: 'bob replied: Nice',
+      sound: 'default',
+      data: { site: SITE, client_id: 'client-1', notification_type: 2, topic_id: 7, post_number: 3 },
+    });
+  });
+
+  it('matches the site regardless of a trailing slash or case', () => {
+    const messages = buildPushMessages(makePayload([{ notification_type: 2, client_id: 'client-1' }]), [
+      makeRegistration({ site: 'https://Meta.Fomio.app/' }),
+    ]);
+    expect(messages).toHaveLength(1);
+  });
+
+  it('drops types the user turned off and keeps uncategorised ones', () => {
+    const registration = makeRegistration({
+      preferences: getPushDeliveryPreferences(makePreferences({ likes: false, mentions: false })),
+    });
+    const messages = buildPushMessages(
+      makePayload([
+        { notification_type: 5, client_id: 'client-1' },
+        { notification_type: 25, client_id: 'client-1' },
+        { notification_type: 1, client_id: 'client-1' },
+        { notification_type: 6, client_id: 'client-1' },
+        { notification_type: 17, client_id: 'client-1' },
+      ]),
+      [registration]
+    );
+    expect(messages.map((message) => message.data.notification_type)).toEqual([6, 17]);
+  });
+
+  it('sends data-only, silent pushes when alert and sound are off', () => {
+    const registration = makeRegistration({
+      preferences: getPushDeliveryPreferences(makePreferences({ pushAlert: false, pushSound: false })),
+    });
+    const [message] = buildPushMessages(makePayload([{ notification_type: 2, client_id: 'client-1' }]), [registration]);
+    expect(message.title).toBeUndefined();
+    expect(message.body).toBeUndefined();
+    expect(message.sound).toBeNull();
+  });
+});
+
+describe('tapped pushes', () => {
+  it('reads only data that came from the relay', () => {
+    expect(readPushMessageData({ site: SITE, client_id: 'client-1', notification_type: 2 })).toMatchObject({
+      notification_type: 2,
+    });
+    expect(readPushMessageData({ foo: 'bar' })).toBeNull();
+    expect(readPushMessageData(undefined)).toBeNull();
+  });
+
+  it('opens the same screen as the notifications list', () => {
+    const notification = pushDataToNotification({
+      site: SITE,
+      client_id: 'client-1',
+      notification_type: 2,
+      topic_id: 7,
+      post_number: 3,
+    });
+    expect(notification.type).toBe('replied');
+
+    const target = getNotificationNavigationTarget(notification);
+    expect(target).not.toBeNull();
+    expect(getNotificationHref(target!)).toBe('/feed/7?postNumber=3');
+  });
+
+  it('hides pushes while the app is open when their category is off', () => {
+    const data = { site: SITE, client_id: 'client-1', notification_type: 5 };
+    expect(isPushAllowed(data, makePreferences())).toBe(true);
+    expect(isPushAllowed(data, makePreferences({ likes: false }))).toBe(false);
+    expect(isPushAllowed(data, makePreferences({ pushEnabled: false }))).toBe(false);
+  });
+});
+
+describe('PushManager', () => {
+  const account = { site: SITE, clientId: 'client-1', username: 'alice' };
+
+  it('is not configured without a usable push_url', () => {
+    const relay = createFakeRelay();
+    expect(new PushManager(relay.transport, undefined).isConfigured()).toBe(false);
+    expect(new PushManager(relay.transport, 'https://relay.example.com').isConfigured()).toBe(false);
+    expect(new PushManager(relay.transport, PUSH_URL).isConfigured()).toBe(true);
+  });
+
+  it('registers the client_id with the device token and category toggles', async () => {
+    const relay = createFakeRelay();
+    const manager = new PushManager(relay.transport, PUSH_URL);
+
+    const result = await manager.register(account, makePreferences({ badges: false }), { prompt: true });
+
+    expect(result.success).toBe(true);
+    expect(relay.transport.getDeviceToken).toHaveBeenCalledWith(true);
+    expect(relay.requests[0].url).toBe('https://relay.example.com/devices');
+    expect(relay.devices.get('client-1')).toMatchObject({
+      site: SITE,
+      push_token: 'ExponentPushToken[abc]',
+      preferences: { categories: { badges: false, replies: true } },
+    });
+  });
+
+  it('skips the relay when nothing changed', async () => {
+    const relay = createFakeRelay();
+    const manager = new PushManager(relay.transport, PUSH_URL);
+
+    await manager.register(account, makePreferences());
+    await manager.register(account, makePreferences());
+    expect(relay.requests).toHaveLength(1);
+
+    await manager.register(account, makePreferences({ likes: false }));
+    expect(relay.requests).toHaveLength(2);
+    expect(relay.devices.get('client-1')?.preferences.categories.likes).toBe(false);
+  });
+
+  it('replaces the registration when the account changes', async () => {
+    const relay = createFakeRelay();
+    const manager = new PushManager(relay.transport, PUSH_URL);
+
+    await manager.register(account, makePreferences());
+    await manager.register({ ...account, clientId: 'client-2' }, makePreferences());
+
+    expect(relay.requests.map((request) => request.url)).toEqual([
+      'https://relay.example.com/devices',
+      'https://relay.example.com/devices/unregister',
+      'https://relay.example.com/devices',
+    ]);
+    expect(Array.from(relay.devices.keys())).toEqual(['client-2']);
+  });
+
+  it('unregisters when push is turned off', async () => {
+    const relay = createFakeRelay();
+    const manager = new PushManager(relay.transport, PUSH_URL);
+
+    await manager.register(account, makePreferences());
+    const result = await manager.register(account, makePreferences({ pushEnabled: false }));
+
+    expect(result).toEqual({ success: true, data: null });
+    expect(relay.devices.size).toBe(0);
+    expect(manager.getRegistration()).toBeNull();
+  });
+
+  it('fails without registering when notifications are not allowed', async () => {
+    const relay = createFakeRelay(null);
+    const manager = new PushManager(relay.transport, PUSH_URL);
+
+    const result = await manager.register(account, makePreferences());
+
+    expect(result.success).toBe(false);
+    expect(relay.requests).toHaveLength(0);
+  });
+
+  it('keeps the old registration state when the relay rejects it', async () => {
+    const relay = createFakeRelay();
+    relay.transport.post.mockResolvedValueOnce({ success: false, error: 'Push relay returned 500', status: 500 });
+    const manager = new PushManager(relay.transport, PUSH_URL);
+
+    const result = await manager.register(account, makePreferences());
+
+    expect(result).toMatchObject({ success: false, status: 500 });
+    expect(manager.getRegistration()).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Unit tests for quote helpers
+ */
+
+import {
+  buildQuoteMarkup,
+  getQuotableText,
+  parseQuoteAttribution,
+  splitQuotes,
+} from '../../shared/quotes';
+
+const cookedQuote =
+  '<aside class="quote no-group" data-username="sam" data-post="3" data-topic="12">\n' +
+  '<div class="title">\n<div class="quote-controls"></div>\n<img alt="" width="24" height="24" src="/a.png" class="avatar"> sam:</div>\n' +
+  '<blockquote>\n<p>Tabs are better</p>\n</blockquote>\n</aside>';
+
+describe('buildQuoteMarkup', () => {
+  it('attributes the quote to the user, post and topic', () => {
+    expect(buildQuoteMarkup({ username: 'sam', postNumber: 3, topicId: 12 }, '  Tabs are better \n')).toBe(
+      '[quote="sam, post:3, topic:12"]\nTabs are better\n[/quote]\n\n'
+    );
+  });
+
+  it('leaves out the post when it is unknown and skips empty text', () => {
+    expect(buildQuoteMarkup({ username: 'sam' }, 'Hi')).toBe('[quote="sam"]\nHi\n[/quote]\n\n');
+    expect(buildQuoteMarkup({ username: 'sam', postNumber: 3, topicId: 12 }, '   ')).toBe('');
+  });
+});
+
+describe('parseQuoteAttribution', () => {
+  it('reads the user, post and topic', () => {
+    expect(parseQuoteAttribution('"sam, post:3, topic:12"')).toEqual({ username: 'sam', postNumber: 3, topicId: 12 });
+    expect(parseQuoteAttribution('sam')).toEqual({ username: 'sam' });
+  });
+
+  it('returns null without a user', () => {
+    expect(parseQuoteAttribution(undefined)).toBeNull();
+    expect(parseQuoteAttribution('post:3')).toBeNull();
+  });
+});
+
+describe('splitQuotes', () => {
+  it('splits cooked quotes from the surrounding text, dropping the quote header', () => {
+    const segments = splitQuotes(`${cookedQuote}\n<p>I disagree.</p>`);
+
+    expect(segments).toHaveLength(2);
+    expect(segments[0]).toMatchObject({ kind: 'quote', source: { username: 'sam', postNumber: 3, topicId: 12 } });
+    expect(segments[0].content).toContain('Tabs are better');
+    expect(segments[0].content).not.toContain('sam:');
+    expect(segments[1]).toEqual({ kind: 'text', content: '<p>I disagree.</p>' });
+  });
+
+  it('keeps nested quotes inside their outer quote', () => {
+    const segments = splitQuotes('[quote="a"]\nouter [quote="b"]inner[/quote] end\n[/quote]\nreply');
+
+    expect(segments).toEqual([
+      { kind: 'quote', source: { username: 'a' }, content: 'outer [quote="b"]inner[/quote] end' },
+      { kind: 'text', content: 'reply' },
+    ]);
+  });
+
+  it('treats an unclosed quote as text', () => {
+    expect(splitQuotes('[quote="a"] never closed')).toEqual([{ kind: 'text', content: '[quote="a"] never closed' }]);
+  });
+});
+
+describe('getQuotableText', () => {
+  it('returns plain text without the quotes the post contains', () => {
+    expect(getQuotableText(`${cookedQuote}\n<p>I disagree &amp; here is why:</p>\n<p>Line one<br>Line two</p>`)).toBe(
+      'I disagree & here is why:\n\nLine one\nLine two'
+    );
+  });
+});
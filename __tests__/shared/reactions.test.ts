@@ -0,0 +1,126 @@
+/**
+ * Unit tests for reaction helpers
+ */
+
+import {
+  EMPTY_POST_REACTIONS,
+  canToggleReaction,
+  getReactionOptions,
+  getReactionTotal,
+  parsePostReactions,
+  parseReactionUsers,
+  toggleReaction,
+} from '../../shared/reactions';
+import { DEFAULT_SITE_SETTINGS } from '../../shared/site-settings';
+
+describe('parsePostReactions', () => {
+  it('returns null when the plugin fields are missing', () => {
+    expect(parsePostReactions({ id: 1 })).toBeNull();
+    expect(parsePostReactions(null)).toBeNull();
+  });
+
+  it('keeps used reactions, most used first, with the current user reaction', () => {
+    const parsed = parsePostReactions({
+      reactions: [
+        { id: 'heart', type: 'emoji', count: 2 },
+        { id: 'laughing', type: 'emoji', count: 5 },
+        { id: 'cry', type: 'emoji', count: 0 },
+      ],
+      current_user_reaction: { id: 'heart', type: 'emoji', can_undo: false },
+    });
+
+    expect(parsed).toEqual({
+      reactions: [
+        { id: 'laughing', count: 5 },
+        { id: 'heart', count: 2 },
+      ],
+      currentUserReaction: 'heart',
+      canUndo: false,
+    });
+  });
+});
+
+describe('toggleReaction', () => {
+  const state = {
+    reactions: [
+      { id: 'heart', count: 2 },
+      { id: 'laughing', count: 1 },
+    ],
+    currentUserReaction: null,
+    canUndo: true,
+  };
+
+  it('adds a reaction', () => {
+    const next = toggleReaction(state, 'laughing');
+    expect(next.currentUserReaction).toBe('laughing');
+    expect(next.reactions).toEqual([
+      { id: 'heart', count: 2 },
+      { id: 'laughing', count: 2 },
+    ]);
+  });
+
+  it('removes the same reaction and drops empty counts', () => {
+    const next = toggleReaction(toggleReaction(EMPTY_POST_REACTIONS, 'hugs'), 'hugs');
+    expect(next).toEqual({ reactions: [], currentUserReaction: null, canUndo: true });
+  });
+
+  it('replaces a different reaction', () => {
+    const next = toggleReaction({ ...state, currentUserReaction: 'heart' }, 'open_mouth');
+    expect(next.currentUserReaction).toBe('open_mouth');
+    expect(next.reactions).toEqual(
+      expect.arrayContaining([
+        { id: 'heart', count: 1 },
+        { id: 'laughing', count: 1 },
+        { id: 'open_mouth', count: 1 },
+      ])
+    );
+    expect(getReactionTotal(next)).toBe(3);
+  });
+
+  it('leaves a locked reaction alone', () => {
+    const locked = { ...state, currentUserReaction: 'heart', canUndo: false };
+    expect(canToggleReaction(locked)).toBe(false);
+    expect(toggleReaction(locked, 'laughing')).toBe(locked);
+    expect(canToggleReaction({ ...state, canUndo: false })).toBe(true);
+  });
+});
+
+describe('getReactionOptions', () => {
+  it('is empty when the plugin is off and posts carry no reactions', () => {
+    expect(getReactionOptions(DEFAULT_SITE_SETTINGS)).toEqual([]);
+  });
+
+  it('puts the main reaction first without repeating it', () => {
+    const settings = {
+      ...DEFAULT_SITE_SETTINGS,
+      reactionsEnabled: true,
+      mainReaction: 'thumbsup',
+      enabledReactions: ['laughing', 'thumbsup', 'cry'],
+    };
+    expect(getReactionOptions(settings)).toEqual(['thumbsup', 'laughing', 'cry']);
+  });
+
+  it('falls back to the default reactions when posts carry reactions', () => {
+    expect(getReactionOptions(DEFAULT_SITE_SETTINGS, true)[0]).toBe('heart');
+  });
+});
+
+describe('parseReactionUsers', () => {
+  it('maps groups of users, most used first', () => {
+    const parsed = parseReactionUsers({
+      reaction_users: [
+        { id: 'cry', count: 1, users: [{ username: 'sam', name: 'Sam', avatar_template: '/a/{size}.png' }] },
+        { id: 'heart', count: 2, users: [{ username: 'alex' }, { username: 'kim' }, { name: 'no username' }] },
+        { count: 3, users: [] },
+      ],
+    });
+
+    expect(parsed.map((group) => group.id)).toEqual(['heart', 'cry']);
+    expect(parsed[0].users.map((user) => user.username)).toEqual(['alex', 'kim']);
+    expect(parsed[1].users[0]).toEqual({ username: 'sam', name: 'Sam', avatar_template: '/a/{size}.png' });
+  });
+
+  it('handles a missing payload', () => {
+    expect(parseReactionUsers(undefined)).toEqual([]);
+  });
+});
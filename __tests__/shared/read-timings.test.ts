@@ -0,0 +1,97 @@
+/**
+ * Unit tests for the read timings tracker
+ */
+
+jest.mock('../../shared/discourseApi', () => ({
+  discourseApi: {
+    getBaseUrl: () => 'https://forum.example.com',
+    sendTopicTimings: jest.fn(),
+  },
+}));
+
+import {
+  ReadTimingsTracker,
+  READ_TIMINGS_IDLE_TIMEOUT,
+  MAX_POST_READ_TIME,
+  mergeTopicTimings,
+} from '../../shared/read-timings';
+
+describe('read timings', () => {
+  let now: number;
+  let send: jest.Mock;
+  let tracker: ReadTimingsTracker;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    send = jest.fn().mockResolvedValue({ success: true });
+    tracker = new ReadTimingsTracker({ now: () => now, send });
+  });
+
+  it('credits elapsed time to the visible posts', () => {
+    tracker.start(42, [1]);
+    now += 2000;
+    tracker.setVisiblePosts([2, 3]);
+    now += 3000;
+    tracker.tick();
+
+    expect(tracker.getPending(42)).toEqual({
+      topicTime: 5000,
+      timings: { 1: 2000, 2: 3000, 3: 3000 },
+    });
+  });
+
+  it('does not count time while paused', () => {
+    tracker.start(42, [1]);
+    now += 1000;
+    tracker.pause();
+    now += 60_000;
+    tracker.resume();
+    now += 1000;
+    tracker.tick();
+
+    expect(tracker.getPending(42)?.timings[1]).toBe(2000);
+  });
+
+  it('stops counting once the reader goes idle', () => {
+    tracker.start(42, [1]);
+    now += READ_TIMINGS_IDLE_TIMEOUT + 60_000;
+    tracker.tick();
+
+    expect(tracker.getPending(42)?.timings[1]).toBe(READ_TIMINGS_IDLE_TIMEOUT);
+  });
+
+  it('caps the time credited to a single post', () => {
+    const merged = mergeTopicTimings(
+      { topicTime: MAX_POST_READ_TIME, timings: { 1: MAX_POST_READ_TIME } },
+      { topicTime: 5000, timings: { 1: 5000 } }
+    );
+    expect(merged.timings[1]).toBe(MAX_POST_READ_TIME);
+  });
+
+  it('sends and clears timings on flush', async () => {
+    tracker.start(42, [1]);
+    now += 1500;
+    await tracker.flush();
+
+    expect(send).toHaveBeenCalledWith(42, 1500, { 1: 1500 });
+    expect(tracker.getPending(42)).toBeUndefined();
+  });
+
+  it('keeps timings that fail to send because of the network', async () => {
+    send.mockResolvedValueOnce({ success: false, error: 'Network error', networkError: true });
+    tracker.start(42, [1]);
+    now += 1500;
+    await tracker.flush();
+
+    expect(tracker.getPending(42)?.timings[1]).toBe(1500);
+  });
+
+  it('drops timings the server rejects', async () => {
+    send.mockResolvedValueOnce({ success: false, error: 'Forbidden', status: 403 });
+    tracker.start(42, [1]);
+    now += 1500;
+    await tracker.flush();
+
+    expect(tracker.getPending(42)).toBeUndefined();
+  });
+});
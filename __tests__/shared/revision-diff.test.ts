@@ -0,0 +1,77 @@
+/**
+ * Unit tests for revision diff parsing
+ */
+
+import {
+  decodeHtmlEntities,
+  parseDiffSegments,
+  parseSideBySideMarkdown,
+  segmentsToText,
+} from '../../shared/revision-diff';
+
+describe('decodeHtmlEntities', () => {
+  it('decodes named and numeric entities', () => {
+    expect(decodeHtmlEntities('a &amp; b &lt;c&gt; &quot;d&quot; &#39;e&#39; &#x2014;')).toBe(
+      'a & b <c> "d" \'e\' —'
+    );
+  });
+
+  it('leaves unknown entities alone', () => {
+    expect(decodeHtmlEntities('&bogus;')).toBe('&bogus;');
+  });
+});
+
+describe('parseDiffSegments', () => {
+  it('splits text into unchanged, added and removed runs', () => {
+    expect(parseDiffSegments('Hello <del>old</del><ins>new</ins> world')).toEqual([
+      { text: 'Hello ', kind: 'same' },
+      { text: 'old', kind: 'removed' },
+      { text: 'new', kind: 'added' },
+      { text: ' world', kind: 'same' },
+    ]);
+  });
+
+  it('drops other tags and decodes text', () => {
+    expect(parseDiffSegments('<div class="inline-diff"><ins>Tom &amp; Jerry</ins></div>')).toEqual([
+      { text: 'Tom & Jerry', kind: 'added' },
+    ]);
+  });
+});
+
+describe('parseSideBySideMarkdown', () => {
+  const html = [
+    '<table class="markdown">',
+    '<tr><td>First line</td><td>First line</td></tr>',
+    '<tr><td class="diff-del">Some <del>old</del> text</td><td class="diff-ins">Some <ins>new</ins> text</td></tr>',
+    '<tr><td class="diff-del">Gone</td><td></td></tr>',
+    '<tr><td></td><td class="diff-ins">Brand &lt;new&gt;</td></tr>',
+    '<tr><td></td><td></td></tr>',
+    '</table>',
+  ].join('');
+
+  it('classifies each row', () => {
+    const rows = parseSideBySideMarkdown(html);
+    expect(rows.map((row) => row.type)).toEqual(['same', 'changed', 'removed', 'added', 'same']);
+  });
+
+  it('keeps word-level changes on each side', () => {
+    const [, changed] = parseSideBySideMarkdown(html);
+    expect(changed.before).toEqual([
+      { text: 'Some ', kind: 'same' },
+      { text: 'old', kind: 'removed' },
+      { text: ' text', kind: 'same' },
+    ]);
+    expect(segmentsToText(changed.after)).toBe('Some new text');
+  });
+
+  it('uses null for the missing side of added and removed lines', () => {
+    const rows = parseSideBySideMarkdown(html);
+    expect(rows[2].after).toBeNull();
+    expect(rows[3].before).toBeNull();
+    expect(segmentsToText(rows[3].after)).toBe('Brand <new>');
+  });
+
+  it('returns no rows for empty input', () => {
+    expect(parseSideBySideMarkdown('')).toEqual([]);
+  });
+});
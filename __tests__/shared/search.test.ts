@@ -0,0 +1,309 @@
+/**
+ * Unit tests for search history, suggestion sections, the filter query
+ * builder and merging result pages
+ */
+
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: jest.fn(async () => null),
+  setItemAsync: jest.fn(async () => {}),
+  deleteItemAsync: jest.fn(async () => {}),
+}));
+
+jest.mock('expo-constants', () => ({
+  expoConfig: { extra: {} },
+}));
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  EMPTY_SEARCH_FILTERS,
+  SEARCH_HISTORY_LIMIT,
+  SearchHistoryEntry,
+  addSearchHistoryEntry,
+  buildSearchQuery,
+  buildSearchSuggestionSections,
+  clearSearchHistoryEntries,
+  getSearchDateDaysAgo,
+  getSearchFilterChips,
+  getSearchShareLink,
+  hasSearchFilters,
+  isValidSearchDate,
+  loadSearchHistory,
+  matchSearchHistory,
+  matchTeretSuggestions,
+  mergeSearchResultPages,
+  parseSearchQuery,
+  pinSearchHistoryEntry,
+  removeSearchFilter,
+  removeSearchHistoryEntry,
+  saveSearchHistory,
+  toByteSuggestions,
+  toHistorySuggestions,
+  toTagSuggestions,
+  toUserSuggestions,
+  toggleSearchHistoryPin,
+  EMPTY_REMOTE_SUGGESTIONS,
+} from '../../shared/search';
+import { getSearchHistoryStorageKey, parseSearchHistory } from '../../shared/search/history';
+import type { SearchResult } from '../../shared/discourseApi';
+
+const at = (minutes: number) => new Date(Date.UTC(2026, 9, 19, 10, minutes));
+
+function entry(query: string, minutes: number, pinned = false): SearchHistoryEntry {
+  return { query, pinned, searchedAt: at(minutes).toISOString() };
+}
+
+describe('addSearchHistoryEntry', () => {
+  it('puts the newest search first', () => {
+    const history = addSearchHistoryEntry([entry('react', 1)], 'expo', at(2));
+    expect(history.map((item) => item.query)).toEqual(['expo', 'react']);
+  });
+
+  it('moves a repeat to the top, ignoring case and keeping its pin', () => {
+    const history = addSearchHistoryEntry(
+      [entry('expo', 3), entry('React', 1, true), entry('hooks', 2)],
+      ' react ',
+      at(4)
+    );
+    expect(history).toEqual([
+      { query: 'react', pinned: true, searchedAt: at(4).toISOString() },
+      entry('expo', 3),
+      entry('hooks', 2),
+    ]);
+  });
+
+  it('ignores blank searches', () => {
+    const history = [entry('expo', 1)];
+    expect(addSearchHistoryEntry(history, '   ', at(2))).toBe(history);
+  });
+
+  it('caps unpinned searches but never drops pinned ones', () => {
+    let history: SearchHistoryEntry[] = [entry('pinned', 0, true)];
+    for (let i = 1; i <= SEARCH_HISTORY_LIMIT + 5; i++) {
+      history = addSearchHistoryEntry(history, `query ${i}`, at(i));
+    }
+    expect(history).toHaveLength(SEARCH_HISTORY_LIMIT + 1);
+    expect(history[0].query).toBe('pinned');
+    expect(history[1].query).toBe(`query ${SEARCH_HISTORY_LIMIT + 5}`);
+    expect(history.some((item) => item.query === 'query 1')).toBe(false);
+  });
+});
+
+describe('pin, remove and clear', () => {
+  const history = [entry('expo', 3), entry('react', 2), entry('hooks', 1)];
+
+  it('pins a search to the top and unpins it again', () => {
+    const pinned = toggleSearchHistoryPin(history, 'hooks');
+    expect(pinned[0]).toEqual(entry('hooks', 1, true));
+    expect(toggleSearchHistoryPin(pinned, 'HOOKS').map((item) => item.query)).toEqual(['expo', 'react', 'hooks']);
+  });
+
+  it('removes a single search', () => {
+    expect(removeSearchHistoryEntry(history, 'React').map((item) => item.query)).toEqual(['expo', 'hooks']);
+  });
+
+  it('saves a search by recording and pinning it', () => {
+    const saved = pinSearchHistoryEntry(history, 'in:bookmarks expo', at(4));
+    expect(saved[0]).toEqual({ query: 'in:bookmarks expo', pinned: true, searchedAt: at(4).toISOString() });
+    expect(pinSearchHistoryEntry(saved, 'IN:BOOKMARKS expo', at(5))[0].pinned).toBe(true);
+  });
+
+  it('keeps pinned searches when clearing', () => {
+    expect(clearSearchHistoryEntries([entry('keep', 1, true), entry('drop', 2)])).toEqual([entry('keep', 1, true)]);
+  });
+});
+
+describe('matchSearchHistory', () => {
+  const history = [entry('react native', 4), entry('learn react', 3), entry('expo', 2), entry('react', 1)];
+
+  it('lists searches starting with the term before those containing it', () => {
+    expect(matchSearchHistory(history, 'rea', 5).map((item) => item.query)).toEqual([
+      'react native',
+      'react',
+      'learn react',
+    ]);
+  });
+
+  it('leaves out an exact repeat of what is typed', () => {
+    expect(matchSearchHistory(history, 'react', 5).map((item) => item.query)).toEqual(['react native', 'learn react']);
+  });
+
+  it('returns the most recent searches for an empty box', () => {
+    expect(matchSearchHistory(history, '', 2).map((item) => item.query)).toEqual(['react native', 'learn react']);
+  });
+});
+
+describe('stored history', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('keeps each account apart', async () => {
+    await saveSearchHistory('alice@forum.example.com', [entry('expo', 1)]);
+    expect(await loadSearchHistory('alice@forum.example.com')).toEqual([entry('expo', 1)]);
+    expect(await loadSearchHistory('alice@other.example.org')).toEqual([]);
+    expect(await loadSearchHistory(null)).toEqual([]);
+    expect(getSearchHistoryStorageKey('alice@forum.example.com')).toBe(
+      'fomio_search_history.alice_forum.example.com'
+    );
+    expect(getSearchHistoryStorageKey(null)).toBe('fomio_search_history');
+  });
+
+  it('reads a plain list of queries and skips junk', () => {
+    expect(parseSearchHistory(JSON.stringify(['expo', 'Expo', '', 5]))).toEqual([
+      { query: 'expo', pinned: false, searchedAt: '' },
+    ]);
+    expect(parseSearchHistory('not json')).toEqual([]);
+    expect(parseSearchHistory(null)).toEqual([]);
+  });
+});
+
+describe('suggestions', () => {
+  it('maps Bytes, skipping repeats and untitled ones', () => {
+    expect(
+      toByteSuggestions([
+        { id: 1, title: 'First' },
+        { id: 1, title: 'First' },
+        { id: 2, title: '' },
+        { id: 3, title: 'Third' },
+      ])
+    ).toEqual([
+      { type: 'byte', key: 'byte-1', id: 1, title: 'First' },
+      { type: 'byte', key: 'byte-3', id: 3, title: 'Third' },
+    ]);
+  });
+
+  it('maps people, showing a name only when it differs from the username', () => {
+    expect(
+      toUserSuggestions([
+        { username: 'alice', name: 'Alice Smith', avatar: 'https://a.png' },
+        { username: 'bob', name: 'bob', avatar: '' },
+      ])
+    ).toEqual([
+      { type: 'user', key: 'user-alice', username: 'alice', name: 'Alice Smith', avatar: 'https://a.png' },
+      { type: 'user', key: 'user-bob', username: 'bob', name: '', avatar: '' },
+    ]);
+  });
+
+  it('matches Terets by name or slug, names starting with the term first', () => {
+    const terets = [
+      { id: 1, name: 'Web Design', slug: 'web-design', color: '111111' },
+      { id: 2, name: 'Design Systems', slug: 'design-systems', color: '222222' },
+      { id: 3, name: 'Photography', slug: 'photo', color: '333333' },
+    ];
+    expect(matchTeretSuggestions(terets, 'design').map((item) => item.key)).toEqual(['teret-2', 'teret-1']);
+    expect(matchTeretSuggestions(terets, '')).toEqual([]);
+  });
+
+  it('builds typed sections and leaves out empty ones', () => {
+    const sections = buildSearchSuggestionSections({
+      query: 'ex',
+      history: toHistorySuggestions([entry('expo', 1, true)]),
+      remote: { ...EMPTY_REMOTE_SUGGESTIONS, tags: toTagSuggestions([{ name: 'expo', count: 3 }]) },
+      terets: [],
+    });
+    expect(sections.map((section) => [section.type, section.title])).toEqual([
+      ['history', 'Earlier searches'],
+      ['tags', 'Tags'],
+    ]);
+    expect(sections[0].data[0]).toEqual({ type: 'history', key: 'history-expo', query: 'expo', pinned: true });
+  });
+
+  it('titles the history section as recent searches for an empty box', () => {
+    const sections = buildSearchSuggestionSections({
+      query: '',
+      history: toHistorySuggestions([entry('expo', 1)]),
+      remote: EMPTY_REMOTE_SUGGESTIONS,
+      terets: [],
+    });
+    expect(sections[0].title).toBe('Recent searches');
+  });
+});
+
+describe('search query builder', () => {
+  it('splits filters from the term', () => {
+    expect(
+      parseSearchQuery('react hooks #mobile @alice tags:expo,ui in:bookmarks in:unseen status:open order:latest after:2026-01-01 before:2026-02-01 min_posts:5')
+    ).toEqual({
+      term: 'react hooks',
+      filters: {
+        category: 'mobile',
+        author: 'alice',
+        tags: ['expo', 'ui'],
+        in: ['bookmarks', 'unseen'],
+        status: 'open',
+        order: 'latest',
+        after: '2026-01-01',
+        before: '2026-02-01',
+        minPosts: 5,
+      },
+    });
+  });
+
+  it('accepts the long forms and keeps unknown filters in the term', () => {
+    expect(parseSearchQuery('category:mobile user:@bob tag:expo in:everything status:someday after:2026-13-01 min_posts:0')).toEqual({
+      term: 'in:everything status:someday after:2026-13-01 min_posts:0',
+      filters: { ...EMPTY_SEARCH_FILTERS, category: 'mobile', author: 'bob', tags: ['expo'] },
+    });
+  });
+
+  it('round-trips through the query string', () => {
+    const query = 'expo #mobile @alice tags:ui in:likes status:closed after:2026-03-01 min_posts:10 order:views';
+    const { term, filters } = parseSearchQuery(query);
+    expect(buildSearchQuery(term, filters)).toBe(query);
+    expect(buildSearchQuery('  ', { ...EMPTY_SEARCH_FILTERS, in: ['unseen'] })).toBe('in:unseen');
+  });
+
+  it('lists chips for filters in use and removes them one at a time', () => {
+    const { filters } = parseSearchQuery('#mobile tags:expo,ui in:likes min_posts:2 order:latest');
+    const chips = getSearchFilterChips(filters);
+    expect(chips).toEqual([
+      { id: 'category', label: '#mobile' },
+      { id: 'tag:expo', label: 'Tag: expo' },
+      { id: 'tag:ui', label: 'Tag: ui' },
+      { id: 'in:likes', label: 'Liked' },
+      { id: 'minPosts', label: '2+ posts' },
+      { id: 'order', label: 'Latest post' },
+    ]);
+
+    const withoutTag = removeSearchFilter(filters, 'tag:expo');
+    expect(withoutTag.tags).toEqual(['ui']);
+    expect(removeSearchFilter(withoutTag, 'in:likes').in).toEqual([]);
+    const cleared = chips.reduce((current, chip) => removeSearchFilter(current, chip.id), filters);
+    expect(hasSearchFilters(cleared)).toBe(false);
+    expect(hasSearchFilters(filters)).toBe(true);
+  });
+
+  it('validates dates and counts back from today', () => {
+    expect(isValidSearchDate('2026-02-28')).toBe(true);
+    expect(isValidSearchDate('2026-02-30')).toBe(false);
+    expect(isValidSearchDate('2026-2-3')).toBe(false);
+    expect(getSearchDateDaysAgo(7, new Date(Date.UTC(2026, 9, 19, 12)))).toBe('2026-10-12');
+  });
+
+  it('shares a search as an app link', () => {
+    expect(getSearchShareLink(' expo in:bookmarks #mobile ')).toBe('fomio://search?q=expo%20in%3Abookmarks%20%23mobile');
+  });
+});
+
+describe('mergeSearchResultPages', () => {
+  const page = (ids: number[], hasMore: boolean): SearchResult => ({
+    bytes: ids.map((id) => ({ id }) as any),
+    comments: [],
+    users: [],
+    hubs: [],
+    totalResults: ids.length,
+    hasMore,
+  });
+
+  it('joins pages, listing a result that moved between pages once', () => {
+    const merged = mergeSearchResultPages([page([1, 2, 3], true), page([3, 4], false)]);
+    expect(merged.bytes.map((byte) => byte.id)).toEqual([1, 2, 3, 4]);
+    expect(merged.totalResults).toBe(4);
+    expect(merged.hasMore).toBe(false);
+  });
+
+  it('has more while the last page says so', () => {
+    expect(mergeSearchResultPages([page([1], true)]).hasMore).toBe(true);
+    expect(mergeSearchResultPages([]).hasMore).toBe(false);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for site settings parsing and upload rules
+ */
+
+import {
+  DEFAULT_SITE_SETTINGS,
+  formatFileSize,
+  getUploadError,
+  meetsTrustGate,
+  parseAuthorizedExtensions,
+  parseSiteSettings,
+} from '../../shared/site-settings';
+
+describe('parseSiteSettings', () => {
+  it('falls back to the defaults when nothing is loaded', () => {
+    expect(parseSiteSettings()).toEqual(DEFAULT_SITE_SETTINGS);
+  });
+
+  it('reads limits from the client site settings', () => {
+    const settings = parseSiteSettings({
+      site_settings: {
+        min_topic_title_length: 8,
+        max_topic_title_length: '120',
+        min_first_post_length: 12,
+        max_post_length: 5000,
+        min_search_term_length: 2,
+        authorized_extensions: 'jpg|.PNG|pdf',
+        max_image_size_kb: 2048,
+        tagging_enabled: true,
+        max_tags_per_topic: 3,
+        min_trust_to_create_topic: 'tl2',
+      },
+      can_tag_topics: true,
+      can_create_tag: false,
+    });
+
+    expect(settings.minTopicTitleLength).toBe(8);
+    expect(settings.maxTopicTitleLength).toBe(120);
+    expect(settings.minFirstPostLength).toBe(12);
+    expect(settings.maxPostLength).toBe(5000);
+    expect(settings.minSearchTermLength).toBe(2);
+    expect(settings.authorizedExtensions).toEqual(['jpg', 'png', 'pdf']);
+    expect(settings.maxImageSizeKb).toBe(2048);
+    expect(settings.taggingEnabled).toBe(true);
+    expect(settings.canTagTopics).toBe(true);
+    expect(settings.canCreateTag).toBe(false);
+    expect(settings.maxTagsPerTopic).toBe(3);
+    expect(settings.minTrustToCreateTopic).toBe(2);
+  });
+
+  it('reads the site name and logo from basic info', () => {
+    const settings = parseSiteSettings(
+      {},
+      { title: 'Community', description: 'Talk here', logo_url: '/logo.png' }
+    );
+
+    expect(settings.title).toBe('Community');
+    expect(settings.description).toBe('Talk here');
+    expect(settings.logoUrl).toBe('/logo.png');
+    expect(settings.mobileLogoUrl).toBeNull();
+  });
+
+  it('maps flag types and trust levels from the site payload', () => {
+    const settings = parseSiteSettings({
+      post_action_types: [
+        { id: 2, name_key: 'like', name: 'Like', is_flag: false },
+        { id: 8, name_key: 'spam', name: 'Spam', description: 'Ads', is_flag: true },
+      ],
+      trust_levels: { newuser: 0, basic: 1, member: 2 },
+    });
+
+    expect(settings.flagTypes.map((type) => type.id)).toEqual([8]);
+    expect(settings.trustLevels).toEqual([
+      { level: 0, name: 'newuser' },
+      { level: 1, name: 'basic' },
+      { level: 2, name: 'member' },
+    ]);
+  });
+
+  it('keeps defaults for values it cannot read', () => {
+    const settings = parseSiteSettings({
+      site_settings: { min_topic_title_length: 'many', min_trust_to_flag_posts: 'staff' },
+    });
+
+    expect(settings.minTopicTitleLength).toBe(DEFAULT_SITE_SETTINGS.minTopicTitleLength);
+    expect(settings.minTrustToFlagPosts).toBe(DEFAULT_SITE_SETTINGS.minTrustToFlagPosts);
+    expect(settings.taggingEnabled).toBe(false);
+  });
+});
+
+describe('parseAuthorizedExtensions', () => {
+  it('returns null for empty or missing values', () => {
+    expect(parseAuthorizedExtensions(undefined)).toBeNull();
+    expect(parseAuthorizedExtensions('')).toBeNull();
+  });
+
+  it('normalizes and dedupes extensions', () => {
+    expect(parseAuthorizedExtensions(' .JPG|jpg| png ')).toEqual(['jpg', 'png']);
+    expect(parseAuthorizedExtensions(['gif', '*'])).toEqual(['gif', '*']);
+  });
+});
+
+describe('meetsTrustGate', () => {
+  it('compares against the gate level', () => {
+    expect(meetsTrustGate(DEFAULT_SITE_SETTINGS, 'flagPosts', 0)).toBe(false);
+    expect(meetsTrustGate(DEFAULT_SITE_SETTINGS, 'flagPosts', 1)).toBe(true);
+  });
+
+  it('lets unknown trust levels through', () => {
+    expect(meetsTrustGate(DEFAULT_SITE_SETTINGS, 'sendMessages', undefined)).toBe(true);
+  });
+});
+
+describe('getUploadError', () => {
+  it('accepts allowed files under the size limit', () => {
+    expect(
+      getUploadError(DEFAULT_SITE_SETTINGS, { name: 'photo.JPEG', size: 1024 })
+    ).toBeNull();
+    expect(getUploadError(DEFAULT_SITE_SETTINGS, { type: 'image/png' })).toBeNull();
+  });
+
+  it('rejects types the site does not allow', () => {
+    expect(getUploadError(DEFAULT_SITE_SETTINGS, { name: 'notes.pdf' })).toBe(
+      'Invalid file type. Allowed types: JPG, JPEG, PNG, GIF.'
+    );
+  });
+
+  it('allows any type with a wildcard', () => {
+    const settings = { ...DEFAULT_SITE_SETTINGS, authorizedExtensions: ['*'] };
+    expect(getUploadError(settings, { name: 'notes.pdf' })).toBeNull();
+  });
+
+  it('rejects files over the size limit', () => {
+    expect(
+      getUploadError(DEFAULT_SITE_SETTINGS, { name: 'photo.png', size: 6 * 1024 * 1024 })
+    ).toBe('File too large. Maximum size is 5MB.');
+  });
+});
+
+describe('formatFileSize', () => {
+  it('formats megabytes and kilobytes', () => {
+    expect(formatFileSize(5 * 1024 * 1024)).toBe('5MB');
+    expect(formatFileSize(1.5 * 1024 * 1024)).toBe('1.5MB');
+    expect(formatFileSize(512 * 1024)).toBe('512KB');
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for tag helpers
+ */
+
+import {
+  normalizeTagName,
+  parseCategoryTagRules,
+  parseTagSearch,
+  readTagNames,
+  validateTags,
+} from '../../shared/tags';
+
+describe('normalizeTagName', () => {
+  it('cleans a typed tag the way Discourse does', () => {
+    expect(normalizeTagName('  #React Native  ')).toBe('react-native');
+    expect(normalizeTagName('what?! now')).toBe('what-now');
+    expect(normalizeTagName('a  --  b')).toBe('a-b');
+  });
+
+  it('cuts the tag to the maximum length', () => {
+    expect(normalizeTagName('javascript', 4)).toBe('java');
+  });
+});
+
+describe('readTagNames', () => {
+  it('accepts names and tag objects', () => {
+    expect(readTagNames(['design', { id: 2, name: 'ux', slug: 'ux' }, { id: 3 }])).toEqual(['design', 'ux']);
+    expect(readTagNames(undefined)).toEqual([]);
+  });
+});
+
+describe('parseTagSearch', () => {
+  it('reads suggestions and the unmet required group', () => {
+    expect(
+      parseTagSearch({
+        results: [
+          { id: 'design', text: 'design', name: 'design', count: 12 },
+          { id: 'ux', text: 'ux' },
+          { count: 3 },
+        ],
+        required_tag_group: { name: 'Platforms', min_count: 2 },
+      })
+    ).toEqual({
+      results: [
+        { name: 'design', count: 12 },
+        { name: 'ux', count: 0 },
+      ],
+      requiredGroup: { name: 'Platforms', minCount: 2 },
+    });
+  });
+
+  it('has no required group when the response has none', () => {
+    expect(parseTagSearch({ results: [] }).requiredGroup).toBeNull();
+    expect(parseTagSearch(null)).toEqual({ results: [], requiredGroup: null });
+  });
+});
+
+describe('parseCategoryTagRules', () => {
+  it('reads required tag groups', () => {
+    expect(
+      parseCategoryTagRules({
+        minimum_required_tags: 1,
+        required_tag_groups: [{ name: 'Platforms', min_count: 1 }],
+      })
+    ).toEqual({ minimumTags: 1, requiredGroups: [{ name: 'Platforms', minCount: 1 }] });
+  });
+
+  it('reads the single required group of older sites', () => {
+    expect(
+      parseCategoryTagRules({ required_tag_group_name: 'Platforms', min_tags_from_required_group: 2 })
+    ).toEqual({ minimumTags: 0, requiredGroups: [{ name: 'Platforms', minCount: 2 }] });
+  });
+
+  it('has no rules for a plain category', () => {
+    expect(parseCategoryTagRules({ id: 5 })).toEqual({ minimumTags: 0, requiredGroups: [] });
+  });
+});
+
+describe('validateTags', () => {
+  const limits = { maxTags: 2, maxTagLength: 10 };
+
+  it('accepts tags within the limits', () => {
+    expect(validateTags(['design', 'ux'], limits)).toBeNull();
+    expect(validateTags([], limits)).toBeNull();
+  });
+
+  it('rejects too many or too long tags', () => {
+    expect(validateTags(['a', 'b', 'c'], limits)).toBe('You can add at most 2 tags');
+    expect(validateTags(['averyverylongtag'], limits)).toBe('Tags must be at most 10 characters');
+  });
+
+  it('asks for the Teret\'s required tags', () => {
+    expect(validateTags([], { ...limits, minimumTags: 1 })).toBe('This Teret needs at least 1 tag');
+    expect(validateTags(['design'], { ...limits, requiredGroup: { name: 'Platforms', minCount: 1 } })).toBe(
+      'Add at least 1 tag from Platforms'
+    );
+  });
+});
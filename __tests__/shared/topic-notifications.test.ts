@@ -0,0 +1,76 @@
+/**
+ * Unit tests for topic notification level helpers
+ */
+
+jest.mock('../../shared/discourseApi', () => ({
+  TOPIC_NOTIFICATION_LEVELS: {
+    muted: 0,
+    regular: 1,
+    tracking: 2,
+    watching: 3,
+  },
+}));
+
+import {
+  TOPIC_NOTIFICATION_LEVEL_OPTIONS,
+  TOPIC_NOTIFICATION_REASONS,
+  getLevelAfterReply,
+  getTopicNotificationLevelOption,
+  toTopicNotificationLevel,
+} from '../../shared/topic-notifications';
+
+describe('toTopicNotificationLevel', () => {
+  it('keeps the four topic levels', () => {
+    expect([0, 1, 2, 3].map(toTopicNotificationLevel)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('treats a missing or unknown level as Normal', () => {
+    expect(toTopicNotificationLevel(undefined)).toBe(1);
+    expect(toTopicNotificationLevel(null)).toBe(1);
+    expect(toTopicNotificationLevel(4)).toBe(1);
+    expect(toTopicNotificationLevel('3')).toBe(1);
+  });
+});
+
+describe('getTopicNotificationLevelOption', () => {
+  it('lists the levels from Watching down to Muted', () => {
+    expect(TOPIC_NOTIFICATION_LEVEL_OPTIONS.map((option) => option.label)).toEqual([
+      'Watching',
+      'Tracking',
+      'Normal',
+      'Muted',
+    ]);
+  });
+
+  it('finds the option for a level', () => {
+    expect(getTopicNotificationLevelOption(2).label).toBe('Tracking');
+    expect(getTopicNotificationLevelOption(0).label).toBe('Muted');
+  });
+
+  it('falls back to Normal', () => {
+    expect(getTopicNotificationLevelOption(9).label).toBe('Normal');
+  });
+});
+
+describe('getLevelAfterReply', () => {
+  const { userChanged, createdPost } = TOPIC_NOTIFICATION_REASONS;
+
+  it('moves a level nobody chose to the reply level', () => {
+    expect(getLevelAfterReply({ level: 1, reasonId: null }, 2)).toBe(2);
+    expect(getLevelAfterReply({ level: 1, reasonId: null }, 3)).toBe(3);
+  });
+
+  it('moves Tracking up to a higher reply level', () => {
+    expect(getLevelAfterReply({ level: 2, reasonId: createdPost }, 3)).toBe(3);
+  });
+
+  it('leaves Normal and Muted alone once the user picked them', () => {
+    expect(getLevelAfterReply({ level: 1, reasonId: userChanged }, 2)).toBe(1);
+    expect(getLevelAfterReply({ level: 0, reasonId: userChanged }, 3)).toBe(0);
+  });
+
+  it('never lowers a level', () => {
+    expect(getLevelAfterReply({ level: 3, reasonId: userChanged }, 2)).toBe(3);
+    expect(getLevelAfterReply({ level: 2, reasonId: createdPost }, 1)).toBe(2);
+  });
+});
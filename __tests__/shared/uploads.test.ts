@@ -0,0 +1,295 @@
+/**
+ * Unit tests for upload rules and the upload manager, run against a fake
+ * transport and a fake multipart API
+ */
+
+jest.mock('../../shared/discourseApi', () => ({
+  discourseApi: {
+    getSiteSettings: jest.fn(),
+    createMultipartUpload: jest.fn(),
+    presignMultipartParts: jest.fn(),
+    completeMultipartUpload: jest.fn(),
+    abortMultipartUpload: jest.fn(),
+  },
+}));
+
+jest.mock('../../shared/upload-transport', () => ({
+  fileUploadTransport: {},
+}));
+
+import { DiscourseApiResponse, DiscourseUpload, discourseApi } from '../../shared/discourseApi';
+import { DEFAULT_SITE_SETTINGS, SiteSettings } from '../../shared/site-settings';
+import { UploadManager, UploadTransport } from '../../shared/upload-manager';
+import {
+  MultipartPart,
+  PreparedUpload,
+  UploadItem,
+  allowsVideoUploads,
+  getImageOptimization,
+  getMultipartParts,
+  getUploadMarkdown,
+  getUploadRetryDelay,
+  getUploadValidationError,
+  isRetryableUploadFailure,
+  replaceExtension,
+} from '../../shared/uploads';
+
+const mockApi = discourseApi as unknown as Record<
+  'createMultipartUpload' | 'presignMultipartParts' | 'completeMultipartUpload' | 'abortMultipartUpload',
+  jest.Mock
+>;
+
+function makeUpload(overrides: Partial<DiscourseUpload> = {}): DiscourseUpload {
+  return {
+    id: 42,
+    url: '/uploads/default/original/1X/abc.jpeg',
+    original_filename: 'photo.jpeg',
+    filesize: 2048,
+    width: 800,
+    height: 600,
+    extension: 'jpeg',
+    short_url: 'upload://abc.jpeg',
+    ...overrides,
+  };
+}
+
+describe('upload rules', () => {
+  it('retries network, rate limit and server failures only', () => {
+    expect(isRetryableUploadFailure({ success: false, error: 'offline' })).toBe(true);
+    expect(isRetryableUploadFailure({ success: false, status: 429 })).toBe(true);
+    expect(isRetryableUploadFailure({ success: false, status: 502 })).toBe(true);
+    expect(isRetryableUploadFailure({ success: false, status: 422 })).toBe(false);
+    expect(isRetryableUploadFailure({ success: true })).toBe(false);
+  });
+
+  it('backs off exponentially up to the max delay', () => {
+    expect(getUploadRetryDelay(1, 1000, 5000)).toBe(1000);
+    expect(getUploadRetryDelay(2, 1000, 5000)).toBe(2000);
+    expect(getUploadRetryDelay(4, 1000, 5000)).toBe(5000);
+  });
+
+  it('splits files into numbered parts', () => {
+    expect(getMultipartParts(25, 10)).toEqual([
+      { partNumber: 1, start: 0, length: 10 },
+      { partNumber: 2, start: 10, length: 10 },
+      { partNumber: 3, start: 20, length: 5 },
+    ]);
+  });
+
+  it('converts HEIC and downscales images wider than the threshold', () => {
+    expect(getImageOptimization(DEFAULT_SITE_SETTINGS, { extension: 'heic', width: 1000 })).toEqual({
+      resizeWidth: undefined,
+      format: 'jpeg',
+      quality: 0.75,
+    });
+    expect(getImageOptimization(DEFAULT_SITE_SETTINGS, { extension: 'png', width: 4000 })).toMatchObject({
+      resizeWidth: 1920,
+      format: 'png',
+    });
+    expect(getImageOptimization(DEFAULT_SITE_SETTINGS, { extension: 'jpg', width: 1200 })).toBeNull();
+    expect(getImageOptimization(DEFAULT_SITE_SETTINGS, { extension: 'gif', width: 4000 })).toBeNull();
+    expect(
+      getImageOptimization({ ...DEFAULT_SITE_SETTINGS, optimizeImages: false }, { extension: 'jpg', width: 4000 })
+    ).toBeNull();
+  });
+
+  it('renames converted files', () => {
+    expect(replaceExtension('IMG_0001.HEIC', 'jpg')).toBe('IMG_0001.jpg');
+    expect(replaceExtension('photo', 'jpg')).toBe('photo.jpg');
+  });
+
+  it('checks post uploads against authorized extensions and profile images against image rules', () => {
+    const settings: SiteSettings = { ...DEFAULT_SITE_SETTINGS, authorizedExtensions: ['jpg', 'mp4'] };
+
+    expect(getUploadValidationError(settings, 'composer', { name: 'clip.mp4', size: 1024 })).toBeNull();
+    expect(getUploadValidationError(settings, 'composer', { name: 'notes.pdf' })).not.toBeNull();
+    expect(getUploadValidationError(settings, 'avatar', { name: 'clip.mp4' })).toBe('Please choose an image.');
+    expect(allowsVideoUploads(settings)).toBe(true);
+    expect(allowsVideoUploads({ ...settings, authorizedExtensions: ['jpg'] })).toBe(false);
+  });
+
+  it('writes uploads as Discourse markdown', () => {
+    expect(getUploadMarkdown(makeUpload())).toBe('![photo|800x600](/uploads/default/original/1X/abc.jpeg)');
+    expect(
+      getUploadMarkdown(makeUpload({ original_filename: 'clip.mp4', extension: 'mp4', short_url: 'upload://clip.mp4' }))
+    ).toBe('![clip.mp4|video](upload://clip.mp4)');
+    expect(
+      getUploadMarkdown(
+        makeUpload({ original_filename: 'notes.pdf', extension: 'pdf', short_url: 'upload://notes.pdf', human_filesize: '2 KB' })
+      )
+    ).toBe('[notes.pdf|attachment](upload://notes.pdf) (2 KB)');
+  });
+});
+
+/**
+ * Transport whose sends are answered from a queue of responses
+ */
+class FakeTransport implements UploadTransport {
+  sendResponses: DiscourseApiResponse<DiscourseUpload>[] = [];
+  partResponses: DiscourseApiResponse<string>[] = [];
+  sentParts: number[] = [];
+  discarded: string[] = [];
+  sendCount = 0;
+  hold = false;
+
+  constructor(private size = 1000) {}
+
+  async prepare(): Promise<PreparedUpload> {
+    return { uri: 'file:///tmp/prepared.jpg', name: 'photo.jpg', mimeType: 'image/jpeg', size: this.size, isTemporary: true };
+  }
+
+  send(
+    file: PreparedUpload,
+    _uploadType: string,
+    onProgress: (sent: number) => void,
+    signal: AbortSignal
+  ): Promise<DiscourseApiResponse<DiscourseUpload>> {
+    this.sendCount++;
+    onProgress(file.size / 2);
+    if (this.hold) {
+      return new Promise((resolve) => {
+        signal.addEventListener('abort', () => resolve({ success: false, error: 'Upload canceled' }));
+      });
+    }
+    return Promise.resolve(this.sendResponses.shift() ?? { success: true, data: makeUpload() });
+  }
+
+  async sendPart(_file: PreparedUpload, part: MultipartPart): Promise<DiscourseApiResponse<string>> {
+    const response = this.partResponses.shift() ?? { success: true, data: `etag-${part.partNumber}` };
+    if (response.success) this.sentParts.push(part.partNumber);
+    return response;
+  }
+
+  async discard(file: PreparedUpload): Promise<void> {
+    this.discarded.push(file.uri);
+  }
+}
+
+function waitFor(manager: UploadManager, id: string, statuses: UploadItem['status'][]): Promise<UploadItem> {
+  return new Promise((resolve) => {
+    const current = manager.get(id);
+    if (current && statuses.includes(current.status)) {
+      resolve(current);
+      return;
+    }
+    const unsubscribe = manager.subscribe((item) => {
+      if (item.id === id && statuses.includes(item.status)) {
+        unsubscribe();
+        resolve(item);
+      }
+    });
+  });
+}
+
+describe('UploadManager', () => {
+  const settings: SiteSettings = { ...DEFAULT_SITE_SETTINGS, authorizedExtensions: ['jpg'] };
+
+  beforeEach(() => {
+    jest.useRealTimers();
+    Object.values(mockApi).forEach((mock) => mock.mockReset());
+  });
+
+  function createManager(transport: UploadTransport, overrides: Partial<SiteSettings> = {}) {
+    return new UploadManager(transport, {
+      getSettings: async () => ({ ...settings, ...overrides }),
+      retryDelay: 5,
+      maxRetryDelay: 10,
+      maxAttempts: 3,
+    });
+  }
+
+  it('uploads a file and reports progress', async () => {
+    const transport = new FakeTransport();
+    const manager = createManager(transport);
+    const progress: number[] = [];
+    manager.subscribe((item) => progress.push(item.progress));
+
+    const [item] = manager.add([{ uri: 'file:///photo.jpg' }]);
+    const done = await waitFor(manager, item.id, ['done', 'failed']);
+
+    expect(done.status).toBe('done');
+    expect(done.result?.id).toBe(42);
+    expect(progress).toContain(0.5);
+    expect(progress[progress.length - 1]).toBe(1);
+    expect(transport.discarded).toEqual(['file:///tmp/prepared.jpg']);
+  });
+
+  it('retries network failures and gives up on validation errors', async () => {
+    const transport = new FakeTransport();
+    transport.sendResponses = [{ success: false, error: 'offline' }, { success: false, status: 503 }];
+    const manager = createManager(transport);
+
+    const [item] = manager.add([{ uri: 'file:///photo.jpg' }]);
+    const done = await waitFor(manager, item.id, ['done', 'failed']);
+    expect(done.status).toBe('done');
+    expect(done.attempts).toBe(3);
+
+    transport.sendResponses = [{ success: false, status: 422, error: 'Sorry, that file is too big.' }];
+    const [rejected] = manager.add([{ uri: 'file:///photo.jpg' }]);
+    const failed = await waitFor(manager, rejected.id, ['done', 'failed']);
+    expect(failed.status).toBe('failed');
+    expect(failed.error).toBe('Sorry, that file is too big.');
+    expect(transport.sendCount).toBe(4);
+  });
+
+  it('rejects files the site does not accept before sending them', async () => {
+    const transport = new FakeTransport();
+    const manager = createManager(transport, { authorizedExtensions: ['pdf'] });
+
+    const [item] = manager.add([{ uri: 'file:///photo.jpg' }]);
+    const failed = await waitFor(manager, item.id, ['done', 'failed']);
+
+    expect(failed.error).toMatch(/invalid file type/i);
+    expect(transport.sendCount).toBe(0);
+
+    // A failed upload can be retried by hand
+    manager.retry(item.id);
+    expect(manager.get(item.id)?.attempts).toBe(1);
+  });
+
+  it('cancels an upload in flight', async () => {
+    const transport = new FakeTransport();
+    transport.hold = true;
+    const manager = createManager(transport);
+
+    const [item] = manager.add([{ uri: 'file:///photo.jpg' }]);
+    await waitFor(manager, item.id, ['uploading']);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    manager.cancel(item.id);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(manager.get(item.id)?.status).toBe('canceled');
+    expect(transport.discarded).toHaveLength(1);
+  });
+
+  it('sends large files in parts and resumes after the last confirmed part', async () => {
+    const transport = new FakeTransport(25 * 1024 * 1024);
+    // Part 2 drops out on the first attempt
+    transport.partResponses = [{ success: true, data: 'etag-1' }, { success: false, error: 'offline' }];
+    mockApi.createMultipartUpload.mockResolvedValue({
+      success: true,
+      data: { key: 'k', unique_identifier: 'uid', external_upload_identifier: 'ext' },
+    });
+    mockApi.presignMultipartParts.mockImplementation(async (_id: string, partNumbers: number[]) => ({
+      success: true,
+      data: { presigned_urls: Object.fromEntries(partNumbers.map((n) => [String(n), `https://s3/${n}`])) },
+    }));
+    mockApi.completeMultipartUpload.mockResolvedValue({ success: true, data: makeUpload({ id: 7 }) });
+    const manager = createManager(transport, { directS3Uploads: true, maxImageSizeKb: 100 * 1024 });
+
+    const [item] = manager.add([{ uri: 'file:///large.jpg' }]);
+    const done = await waitFor(manager, item.id, ['done', 'failed']);
+
+    expect(done.status).toBe('done');
+    expect(done.result?.id).toBe(7);
+    expect(mockApi.createMultipartUpload).toHaveBeenCalledTimes(1);
+    expect(mockApi.presignMultipartParts).toHaveBeenLastCalledWith('uid', [2, 3]);
+    expect(transport.sentParts).toEqual([1, 2, 3]);
+    expect(mockApi.completeMultipartUpload).toHaveBeenCalledWith('uid', [
+      { part_number: 1, etag: 'etag-1' },
+      { part_number: 2, etag: 'etag-2' },
+      { part_number: 3, etag: 'etag-3' },
+    ]);
+    expect(transport.sendCount).toBe(0);
+  });
+});
@@ -2,10 +2,10 @@ import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity } from 'react-native';
 import * as Linking from 'expo-linking';
 import { router, useLocalSearchParams } from 'expo-router';
-import Constants from 'expo-constants';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTheme } from '@/components/theme';
 import { getTokens } from '@/shared/design/tokens';
+import { getActiveSiteUrl } from '@/shared/accounts';
 
 /**
  * Account Activation Screen (public)
@@ -20,8 +20,7 @@ export default function ActivateAccountScreen(): React.ReactElement {
   const [status, setStatus] = useState<'pending' | 'opened' | 'error'>('pending');
   const [error, setError] = useState<string | null>(null);
 
-  const config = Constants.expoConfig?.extra || {};
-  const baseUrl = config.DISCOURSE_BASE_URL || 'https://meta.fomio.app';
+  const baseUrl = getActiveSiteUrl();
   const token = typeof params.token === 'string' ? params.token : undefined;
 
   const colors = useMemo(() => ({
@@ -11,7 +11,6 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { router, useLocalSearchParams } from 'expo-router';
 import { X } from 'phosphor-react-native';
 import * as Haptics from 'expo-haptics';
-import Constants from 'expo-constants';
 
 import { useTheme } from '@/components/theme';
 import { getTokens } from '@/shared/design/tokens';
@@ -20,6 +19,7 @@ import { signIn } from '@/lib/auth';
 import { mapAuthError } from '@/lib/auth-errors';
 import { useAuth } from '@/shared/auth-context';
 import { discourseApi } from '@/shared/discourseApi';
+import { mapDiscourseUserToAppUser } from '@/shared/useAuth';
 
 /**
  * Auth Modal - Unified sign-in flow for iOS and Android
@@ -31,14 +31,15 @@ import { discourseApi } from '@/shared/discourseApi';
  * This follows OAuth best practices with external user-agent,
  * providing better security, password manager compatibility,
  * and a consistent experience across platforms.
+ *
+ * Pass `site` to sign in to another Discourse site (adding an account);
+ * otherwise the active account's site is used.
  */
 export default function AuthModalScreen(): React.ReactElement {
   const { isDark, isAmoled } = useTheme();
   const tokens = getTokens(isAmoled ? 'darkAmoled' : isDark ? 'dark' : 'light');
-  const params = useLocalSearchParams<{ returnTo?: string }>();
+  const params = useLocalSearchParams<{ returnTo?: string; site?: string }>();
   const { setAuthenticatedUser } = useAuth();
-  const config = Constants.expoConfig?.extra || {};
-  const baseUrl = config.DISCOURSE_BASE_URL;
 
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -70,12 +71,8 @@ export default function AuthModalScreen(): React.ReactElement {
         
         logger.info('AuthModal: Starting unified sign-in flow...', { platform: Platform.OS });
 
-        if (!baseUrl) {
-          throw new Error('Missing DISCOURSE_BASE_URL config. Please update app config.');
-        }
-
         // Unified approach: signIn() handles both iOS and Android using system browser
-        const success = await signIn();
+        const success = await signIn(params.site);
 
         if (!mounted) return;
 
@@ -87,28 +84,7 @@ export default function AuthModalScreen(): React.ReactElement {
           try {
             const userResponse = await discourseApi.getCurrentUser();
             if (userResponse.success && userResponse.data) {
-              const DISCOURSE_URL = baseUrl || 'https://meta.fomio.app';
-              const username = userResponse.data.username || 'unknown';
-              const appUser = {
-                id: userResponse.data.id?.toString() || '0',
-                username: username,
-                name: userResponse.data.name || username || 'Unknown User',
-                email: userResponse.data.email || '',
-                avatar: userResponse.data.avatar_template
-                  ? `${DISCOURSE_URL}${userResponse.data.avatar_template.replace('{size}', '120')}`
-                  : '',
-                bio: userResponse.data.bio_raw || '',
-                followers: 0,
-                following: 0,
-                bytes: userResponse.data.topic_count || 0,
-                comments: userResponse.data.post_count || 0,
-                joinedDate: userResponse.data.created_at
-                  ? new Date(userResponse.data.created_at).toLocaleDateString('en-US', {
-                      month: 'long',
-                      year: 'numeric',
-                    })
-                  : 'Unknown',
-              };
+              const appUser = mapDiscourseUserToAppUser(userResponse.data);
               
               setAuthenticatedUser(appUser);
               logger.info('AuthModal: User context updated', { username: appUser.username });
@@ -164,7 +140,7 @@ export default function AuthModalScreen(): React.ReactElement {
     return () => {
       mounted = false;
     };
-  }, [baseUrl, params.returnTo, setAuthenticatedUser]);
+  }, [params.returnTo, params.site, setAuthenticatedUser]);
 
   // Handle close button
   const handleClose = useCallback(() => {
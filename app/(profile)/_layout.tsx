@@ -22,6 +22,8 @@ export default function ProfileLayout() {
         <Stack.Screen name="edit-profile" />
         <Stack.Screen name="settings" />
         <Stack.Screen name="notification-settings" />
+        <Stack.Screen name="bookmarks" />
+        <Stack.Screen name="drafts" />
       </Stack>
     </FluidNavProvider>
   );
@@ -0,0 +1,339 @@
+/**
+ * Bookmarks - Saved Bytes and posts, with their reminders
+ *
+ * Deep link: fomio://bookmarks
+ *
+ * Maps to Discourse: /u/{username}/bookmarks.json
+ *
+ * UI Spec:
+ * - Search box filtering by bookmark name, title and post text
+ * - Rows with name, excerpt and a reminder badge (due or upcoming)
+ * - Pull-to-refresh and infinite scroll
+ * - Tap opens the bookmarked Byte; long press to edit or remove
+ */
+
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+  TouchableOpacity,
+  FlatList,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { BookmarkSimple, MagnifyingGlass, Warning, ArrowClockwise, X } from 'phosphor-react-native';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '@/components/theme';
+import { BookmarkRow } from '@/components/bookmarks/BookmarkRow';
+import { BookmarkSheet } from '@/components/bookmarks/BookmarkSheet';
+import { useScreenHeader } from '@/shared/hooks/useScreenHeader';
+import { useAuth } from '@/shared/auth-context';
+import { useBookmarks } from '@/shared/useBookmarks';
+import { useDeleteBookmark } from '@/shared/mutations';
+import type { Bookmark } from '@/shared/bookmarks';
+import { getThemeColors } from '@/shared/theme-constants';
+
+const SEARCH_DELAY_MS = 400;
+
+export default function BookmarksScreen(): React.ReactElement {
+  const { isDark, isAmoled } = useTheme();
+  const { user, isAuthenticated } = useAuth();
+  const [searchText, setSearchText] = useState('');
+  const [query, setQuery] = useState('');
+  const [editing, setEditing] = useState<Bookmark | null>(null);
+
+  const {
+    bookmarks,
+    isLoading,
+    isRefreshing,
+    hasError,
+    errorMessage,
+    isLoadingMore,
+    loadMore,
+    refresh,
+  } = useBookmarks(user?.username, query);
+  const deleteBookmark = useDeleteBookmark();
+
+  const themeColors = getThemeColors(isDark);
+  const colors = useMemo(
+    () => ({
+      background: isAmoled ? '#000000' : isDark ? '#18181b' : '#ffffff',
+      text: themeColors.foreground,
+      secondary: themeColors.secondary,
+      error: themeColors.destructive,
+      accent: themeColors.accent,
+      border: themeColors.border,
+    }),
+    [isAmoled, isDark, themeColors]
+  );
+
+  useScreenHeader({
+    title: 'Bookmarks',
+    canGoBack: true,
+    withSafeTop: false,
+    tone: 'bg',
+    compact: true,
+    titleFontSize: 20,
+  }, [isDark, isAmoled]);
+
+  // Debounced search
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(searchText.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  const handleRefresh = useCallback(async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    await refresh();
+  }, [refresh]);
+
+  const handleOpen = useCallback((bookmark: Bookmark) => {
+    if (!bookmark.topicId) return;
+    const path = `/feed/${bookmark.topicId}`;
+    router.push((bookmark.postNumber ? `${path}?postNumber=${bookmark.postNumber}` : path) as any);
+  }, []);
+
+  const handleActions = useCallback((bookmark: Bookmark) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium).catch(() => {});
+
+    Alert.alert(bookmark.name || bookmark.title || 'Bookmark', undefined, [
+      {
+        text: 'Edit',
+        onPress: () => setEditing(bookmark),
+      },
+      {
+        text: 'Remove Bookmark',
+        style: 'destructive',
+        onPress: () => {
+          deleteBookmark.mutate(
+            { bookmarkId: bookmark.id, topicId: bookmark.topicId ?? undefined },
+            { onError: (error) => Alert.alert('Error', error.message) }
+          );
+        },
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }, [deleteBookmark]);
+
+  const renderItem = useCallback(
+    ({ item }: { item: Bookmark }) => (
+      <BookmarkRow
+        bookmark={item}
+        onPress={() => handleOpen(item)}
+        onLongPress={() => handleActions(item)}
+      />
+    ),
+    [handleOpen, handleActions]
+  );
+
+  const keyExtractor = useCallback((item: Bookmark) => item.id.toString(), []);
+
+  // Signed out
+  if (!isAuthenticated) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={styles.emptyContainer}>
+          <BookmarkSimple size={48} color={colors.secondary} />
+          <Text style={[styles.emptyTitle, { color: colors.text }]}>Sign in to see your bookmarks</Text>
+          <TouchableOpacity
+            onPress={() => router.push('/(auth)/signin')}
+            style={[styles.primaryButton, { backgroundColor: colors.accent }]}
+          >
+            <Text style={styles.primaryButtonText}>Sign In</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const searchBar = (
+    <View style={[styles.searchBar, { borderColor: colors.border }]}>
+      <MagnifyingGlass size={18} color={colors.secondary} />
+      <TextInput
+        value={searchText}
+        onChangeText={setSearchText}
+        placeholder="Search bookmarks"
+        placeholderTextColor={colors.secondary}
+        autoCapitalize="none"
+        autoCorrect={false}
+        returnKeyType="search"
+        style={[styles.searchInput, { color: colors.text }]}
+        accessibilityLabel="Search bookmarks"
+      />
+      {searchText.length > 0 && (
+        <TouchableOpacity onPress={() => setSearchText('')} hitSlop={8} accessibilityLabel="Clear search">
+          <X size={16} color={colors.secondary} />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.text} />
+        </View>
+      );
+    }
+
+    if (hasError) {
+      return (
+        <View style={styles.errorContainer}>
+          <Warning size={48} color={colors.error} />
+          <Text style={[styles.errorText, { color: colors.error }]}>
+            {errorMessage || 'Failed to load bookmarks'}
+          </Text>
+          <TouchableOpacity onPress={refresh} style={styles.retryButton}>
+            <ArrowClockwise size={16} color={colors.error} />
+            <Text style={[styles.retryText, { color: colors.error }]}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <FlatList
+        data={bookmarks}
+        renderItem={renderItem}
+        keyExtractor={keyExtractor}
+        contentContainerStyle={bookmarks.length === 0 ? styles.emptyList : styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor={colors.secondary}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <BookmarkSimple size={48} color={colors.secondary} />
+            <Text style={[styles.emptyTitle, { color: colors.text }]}>
+              {query ? 'No matching bookmarks' : 'No bookmarks yet'}
+            </Text>
+            <Text style={[styles.emptyText, { color: colors.secondary }]}>
+              {query
+                ? 'Try a different name or word from the post.'
+                : 'Bytes you bookmark show up here, with any reminders you set.'}
+            </Text>
+          </View>
+        }
+        ListFooterComponent={
+          isLoadingMore ? (
+            <View style={styles.footer}>
+              <ActivityIndicator size="small" color={colors.secondary} />
+            </View>
+          ) : null
+        }
+      />
+    );
+  };
+
+  return (
+    <SafeAreaView edges={['bottom']} style={[styles.container, { backgroundColor: colors.background }]}>
+      {searchBar}
+      {renderBody()}
+      <BookmarkSheet
+        visible={!!editing}
+        onClose={() => setEditing(null)}
+        bookmark={editing}
+        topicId={editing?.topicId ?? undefined}
+        title={editing?.title}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 16,
+    marginVertical: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+    paddingVertical: 0,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  errorText: {
+    fontSize: 16,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    marginTop: 16,
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyList: {
+    flexGrow: 1,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  primaryButton: {
+    marginTop: 24,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 24,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  listContent: {
+    paddingBottom: 100,
+  },
+  footer: {
+    paddingVertical: 16,
+  },
+});
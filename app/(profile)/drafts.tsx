@@ -0,0 +1,266 @@
+/**
+ * Drafts - Everything saved but not yet posted
+ *
+ * Deep link: fomio://drafts
+ * Query param: ?from=compose - Opened from compose (a Byte draft goes back there)
+ *
+ * Maps to Discourse: /drafts.json
+ *
+ * UI Spec:
+ * - New Byte, reply and message drafts with a preview and when they were saved
+ * - Tap resumes the draft in the composer it came from
+ * - Swipe left to delete
+ * - Pull-to-refresh and infinite scroll
+ */
+
+import React, { useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+  TouchableOpacity,
+  FlatList,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { NotePencil, Warning, ArrowClockwise } from 'phosphor-react-native';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '@/components/theme';
+import { DraftRow } from '@/components/drafts/DraftRow';
+import { useScreenHeader } from '@/shared/hooks/useScreenHeader';
+import { useAuth } from '@/shared/auth-context';
+import { useUserDrafts } from '@/shared/hooks/useUserDrafts';
+import { useDeleteDraft } from '@/shared/mutations';
+import { getDraftResumeHref, type UserDraft } from '@/shared/drafts';
+import { getThemeColors } from '@/shared/theme-constants';
+
+export default function DraftsScreen(): React.ReactElement {
+  const { from } = useLocalSearchParams<{ from?: string }>();
+  const { isDark, isAmoled } = useTheme();
+  const { isAuthenticated } = useAuth();
+
+  const {
+    drafts,
+    isLoading,
+    isRefreshing,
+    hasError,
+    errorMessage,
+    isLoadingMore,
+    loadMore,
+    refresh,
+  } = useUserDrafts({ enabled: isAuthenticated });
+  const deleteDraft = useDeleteDraft();
+
+  const themeColors = getThemeColors(isDark);
+  const colors = useMemo(
+    () => ({
+      background: isAmoled ? '#000000' : isDark ? '#18181b' : '#ffffff',
+      text: themeColors.foreground,
+      secondary: themeColors.secondary,
+      error: themeColors.destructive,
+      accent: themeColors.accent,
+    }),
+    [isAmoled, isDark, themeColors]
+  );
+
+  useScreenHeader({
+    title: 'Drafts',
+    canGoBack: true,
+    withSafeTop: false,
+    tone: 'bg',
+    compact: true,
+    titleFontSize: 20,
+  }, [isDark, isAmoled]);
+
+  const handleRefresh = useCallback(async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    await refresh();
+  }, [refresh]);
+
+  const handleOpen = useCallback((draft: UserDraft) => {
+    const href = getDraftResumeHref(draft) as any;
+    // Compose is already open underneath - go back to it rather than stacking another
+    if (from === 'compose' && draft.kind === 'topic') {
+      router.dismissTo(href);
+      return;
+    }
+    router.push(href);
+  }, [from]);
+
+  const handleDelete = useCallback((draft: UserDraft) => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning).catch(() => {});
+    deleteDraft.mutate(
+      { draftKey: draft.draftKey, sequence: draft.sequence },
+      { onError: (error) => Alert.alert('Error', error.message) }
+    );
+  }, [deleteDraft]);
+
+  const renderItem = useCallback(
+    ({ item }: { item: UserDraft }) => (
+      <DraftRow
+        draft={item}
+        onPress={() => handleOpen(item)}
+        onDelete={() => handleDelete(item)}
+      />
+    ),
+    [handleOpen, handleDelete]
+  );
+
+  const keyExtractor = useCallback((item: UserDraft) => item.draftKey, []);
+
+  // Signed out
+  if (!isAuthenticated) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={styles.emptyContainer}>
+          <NotePencil size={48} color={colors.secondary} />
+          <Text style={[styles.emptyTitle, { color: colors.text }]}>Sign in to see your drafts</Text>
+          <TouchableOpacity
+            onPress={() => router.push('/(auth)/signin')}
+            style={[styles.primaryButton, { backgroundColor: colors.accent }]}
+          >
+            <Text style={styles.primaryButtonText}>Sign In</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.text} />
+        </View>
+      );
+    }
+
+    if (hasError) {
+      return (
+        <View style={styles.errorContainer}>
+          <Warning size={48} color={colors.error} />
+          <Text style={[styles.errorText, { color: colors.error }]}>
+            {errorMessage || 'Failed to load drafts'}
+          </Text>
+          <TouchableOpacity onPress={refresh} style={styles.retryButton}>
+            <ArrowClockwise size={16} color={colors.error} />
+            <Text style={[styles.retryText, { color: colors.error }]}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <FlatList
+        data={drafts}
+        renderItem={renderItem}
+        keyExtractor={keyExtractor}
+        contentContainerStyle={drafts.length === 0 ? styles.emptyList : styles.listContent}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor={colors.secondary}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <NotePencil size={48} color={colors.secondary} />
+            <Text style={[styles.emptyTitle, { color: colors.text }]}>No drafts</Text>
+            <Text style={[styles.emptyText, { color: colors.secondary }]}>
+              Bytes, replies and messages you start are saved here until you post them.
+            </Text>
+          </View>
+        }
+        ListFooterComponent={
+          isLoadingMore ? (
+            <View style={styles.footer}>
+              <ActivityIndicator size="small" color={colors.secondary} />
+            </View>
+          ) : null
+        }
+      />
+    );
+  };
+
+  return (
+    <SafeAreaView edges={['bottom']} style={[styles.container, { backgroundColor: colors.background }]}>
+      {renderBody()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  errorText: {
+    fontSize: 16,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    marginTop: 16,
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyList: {
+    flexGrow: 1,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  primaryButton: {
+    marginTop: 24,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 24,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  listContent: {
+    paddingBottom: 100,
+  },
+  footer: {
+    paddingVertical: 16,
+  },
+});
@@ -33,12 +33,14 @@ import { discourseApi } from '../../shared/discourseApi';
 import { emitAuthEvent } from '@/shared/auth-events';
 import { useToast, validationRules, formValidationManager } from '@/shared/form-validation';
 import { getTokens } from '@/shared/design/tokens';
+import { useUploads } from '@/shared/useUploads';
+import { UploadItem, UploadSource, isSettledUpload } from '@/shared/uploads';
 
 export default function EditProfileScreen(): React.ReactElement {
   const { isDark, isAmoled } = useTheme();
   const { safeBack } = useSafeNavigation();
   const { user: authUser } = useAuth();
-  const { user, settings, loading, updating, error, updateProfile, uploadAvatar, uploadProfileHeader, refreshUser } = useDiscourseUser(authUser?.username);
+  const { user, settings, loading, updating, error, updateProfile, setAvatarUpload, setProfileHeaderUpload, refreshUser } = useDiscourseUser(authUser?.username);
   const { showSuccess, showError, showInfo } = useToast();
   const { setHeader, resetHeader, setActions } = useHeader();
   
@@ -48,8 +50,9 @@ export default function EditProfileScreen(): React.ReactElement {
   const [website, setWebsite] = useState(user?.website || '');
   const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
   const [coverUrl, setCoverUrl] = useState<string | null>(null);
-  const [uploadingAvatar, setUploadingAvatar] = useState(false);
-  const [uploadingCover, setUploadingCover] = useState(false);
+  // True while the finished upload is being applied to the profile
+  const [applyingAvatar, setApplyingAvatar] = useState(false);
+  const [applyingCover, setApplyingCover] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
   const [allowBack, setAllowBack] = useState(false);
   const [originalValues, setOriginalValues] = useState({
@@ -188,134 +191,150 @@ export default function EditProfileScreen(): React.ReactElement {
     }
   }, [hasChanges]);
 
-  const handleAvatarUpload = useCallback(async () => {
-    try {
-      // Request permissions
-      if (Platform.OS !== 'web') {
-        const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
-        if (status !== 'granted') {
-          showError(
-            'Permission Required',
-            'We need access to your photos to upload an avatar.'
-          );
-          return;
-        }
+  const revertAvatar = useCallback(() => {
+    if (user?.avatar_template) {
+      setAvatarUrl(discourseApi.getAvatarUrl(user.avatar_template, 120));
+    } else {
+      setAvatarUrl(null);
+    }
+  }, [user]);
+
+  const revertCover = useCallback(() => {
+    setCoverUrl((user as any)?.profile_background || null);
+  }, [user]);
+
+  const handleUploaded = useCallback(async (item: UploadItem) => {
+    if (!item.result) return;
+
+    if (item.uploadType === 'avatar') {
+      setApplyingAvatar(true);
+      const success = await setAvatarUpload(item.result.id);
+      setApplyingAvatar(false);
+      if (success) {
+        showSuccess('Avatar updated', 'Your profile picture has been updated successfully.');
+        await refreshUser();
+      } else {
+        showError('Upload failed', 'Failed to update avatar. Please try again.');
+        revertAvatar();
+      }
+    } else if (item.uploadType === 'profile_background') {
+      setApplyingCover(true);
+      const success = await setProfileHeaderUpload(item.result.id);
+      setApplyingCover(false);
+      if (success) {
+        showSuccess('Cover updated', 'Your profile header has been updated.');
+        await refreshUser();
+      } else {
+        showError('Upload failed', 'Failed to update cover. Please try again.');
+        revertCover();
       }
+    }
+  }, [setAvatarUpload, setProfileHeaderUpload, refreshUser, showSuccess, showError, revertAvatar, revertCover]);
 
-      // Launch image picker
-      const result = await ImagePicker.launchImageLibraryAsync({
-        mediaTypes: ImagePicker.MediaTypeOptions.Images,
-        allowsEditing: true,
-        aspect: [1, 1],
-        quality: 0.8,
+  const { uploads, startUploads, retryUpload, removeUpload } = useUploads({
+    onUploaded: handleUploaded,
+    onFailed: (item) => {
+      showError('Upload failed', item.error || 'An error occurred while uploading the image.', {
+        label: 'Retry',
+        onPress: () => retryUpload(item.id),
       });
+    },
+  });
 
-      if (!result.canceled && result.assets && result.assets[0]) {
-        const asset = result.assets[0];
-        setUploadingAvatar(true);
-        setAvatarUrl(asset.uri);
-
-        // Upload avatar - use object format compatible with uploadAvatar signature
-        const imageFile = {
-          uri: asset.uri,
-          type: asset.mimeType || 'image/jpeg',
-          name: asset.fileName || 'avatar.jpg',
-          fileSize: asset.fileSize,
-        } as { uri: string; type?: string; name?: string; fileSize?: number };
-        const success = await uploadAvatar(imageFile);
+  const avatarUpload = uploads.find((upload) => upload.uploadType === 'avatar' && !isSettledUpload(upload.status));
+  const coverUpload = uploads.find((upload) => upload.uploadType === 'profile_background' && !isSettledUpload(upload.status));
+  const uploadingAvatar = !!avatarUpload || applyingAvatar;
+  const uploadingCover = !!coverUpload || applyingCover;
 
-        if (success) {
-          showSuccess('Avatar updated', 'Your profile picture has been updated successfully.');
-          await refreshUser();
-        } else {
-          // Get error message from useDiscourseUser hook
-          const errorMessage = error || 'Failed to upload avatar. Please try again.';
-          showError('Upload failed', errorMessage, {
-            label: 'Retry',
-            onPress: handleAvatarUpload,
-          });
-          // Revert to original avatar
-          if (user?.avatar_template) {
-            setAvatarUrl(discourseApi.getAvatarUrl(user.avatar_template, 120));
-          } else {
-            setAvatarUrl(null);
-          }
-        }
+  const pickImage = useCallback(async (aspect: [number, number], purpose: string): Promise<UploadSource | null> => {
+    // Request permissions
+    if (Platform.OS !== 'web') {
+      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (status !== 'granted') {
+        showError(
+          'Permission Required',
+          `We need access to your photos to ${purpose}.`
+        );
+        return null;
       }
+    }
+
+    // Launch image picker
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      aspect,
+      quality: 1,
+    });
+
+    if (result.canceled || !result.assets?.[0]) {
+      return null;
+    }
+    const asset = result.assets[0];
+    return {
+      uri: asset.uri,
+      name: asset.fileName ?? undefined,
+      mimeType: asset.mimeType,
+      size: asset.fileSize,
+      width: asset.width,
+      height: asset.height,
+    };
+  }, [showError]);
+
+  // Drop earlier (failed) uploads of the same kind before starting a new one
+  const replaceUploads = useCallback((uploadType: UploadItem['uploadType']) => {
+    uploads
+      .filter((upload) => upload.uploadType === uploadType)
+      .forEach((upload) => removeUpload(upload.id));
+  }, [uploads, removeUpload]);
+
+  const handleAvatarUpload = useCallback(async () => {
+    try {
+      const source = await pickImage([1, 1], 'upload an avatar');
+      if (!source) return;
+
+      setAvatarUrl(source.uri);
+      replaceUploads('avatar');
+      startUploads([source], 'avatar');
     } catch (error) {
       console.error('Avatar upload error:', error);
       showError('Upload failed', 'An error occurred while uploading the avatar.', {
         label: 'Retry',
         onPress: handleAvatarUpload,
       });
-      // Revert to original avatar
-      if (user?.avatar_template) {
-        setAvatarUrl(discourseApi.getAvatarUrl(user.avatar_template, 120));
-      } else {
-        setAvatarUrl(null);
-      }
-    } finally {
-      setUploadingAvatar(false);
+      revertAvatar();
     }
-  }, [uploadAvatar, refreshUser, user, showSuccess, showError]);
+  }, [pickImage, replaceUploads, startUploads, showError, revertAvatar]);
+
+  const handleCancelAvatarUpload = useCallback(() => {
+    if (!avatarUpload) return;
+    removeUpload(avatarUpload.id);
+    revertAvatar();
+  }, [avatarUpload, removeUpload, revertAvatar]);
 
   const handleCoverUpload = useCallback(async () => {
     try {
-      if (Platform.OS !== 'web') {
-        const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
-        if (status !== 'granted') {
-          showError(
-            'Permission Required',
-            'We need access to your photos to update your cover image.'
-          );
-          return;
-        }
-      }
-
-      const result = await ImagePicker.launchImageLibraryAsync({
-        mediaTypes: ImagePicker.MediaTypeOptions.Images,
-        allowsEditing: true,
-        aspect: [3, 1],
-        quality: 0.8,
-      });
-
-      if (!result.canceled && result.assets && result.assets[0]) {
-        const asset = result.assets[0];
-        setUploadingCover(true);
-        setCoverUrl(asset.uri);
-
-        const imageFile = {
-          uri: asset.uri,
-          type: asset.mimeType || 'image/jpeg',
-          name: asset.fileName || 'profile-header.jpg',
-          fileSize: asset.fileSize,
-        } as { uri: string; type?: string; name?: string; fileSize?: number };
-
-        const success = await uploadProfileHeader(imageFile);
+      const source = await pickImage([3, 1], 'update your cover image');
+      if (!source) return;
 
-        if (success) {
-          showSuccess('Cover updated', 'Your profile header has been updated.');
-          await refreshUser();
-        } else {
-          const errorMessage = error || 'Failed to update cover. Please try again.';
-          showError('Upload failed', errorMessage, {
-            label: 'Retry',
-            onPress: handleCoverUpload,
-          });
-          setCoverUrl((user as any)?.profile_background || null);
-        }
-      }
+      setCoverUrl(source.uri);
+      replaceUploads('profile_background');
+      startUploads([source], 'profile_background');
     } catch (err) {
       console.error('Cover upload error:', err);
       showError('Upload failed', 'An error occurred while uploading the cover.', {
         label: 'Retry',
         onPress: handleCoverUpload,
       });
-      setCoverUrl((user as any)?.profile_background || null);
-    } finally {
-      setUploadingCover(false);
+      revertCover();
     }
-  }, [uploadProfileHeader, refreshUser, user, showSuccess, showError, error]);
+  }, [pickImage, replaceUploads, startUploads, showError, revertCover]);
+
+  const handleCancelCoverUpload = useCallback(() => {
+    if (!coverUpload) return;
+    removeUpload(coverUpload.id);
+    revertCover();
+  }, [coverUpload, removeUpload, revertCover]);
 
   const handleSave = useCallback(async () => {
     // Mark all fields as touched/blurred to show validation errors
@@ -651,10 +670,11 @@ export default function EditProfileScreen(): React.ReactElement {
           <View style={[styles.coverSection, { backgroundColor: colors.card, borderColor: colors.border }]}>
             <Pressable
               style={styles.coverImageWrapper}
-              disabled
+              onPress={handleCoverUpload}
+              disabled={uploadingCover}
               accessibilityRole="button"
-              accessibilityLabel="Profile header image (coming soon)"
-              accessibilityHint="Header image uploads are coming soon"
+              accessibilityLabel="Change profile header image"
+              accessibilityHint="Opens your photo library"
             >
               {currentCoverUrl ? (
                 <Image
@@ -673,27 +693,30 @@ export default function EditProfileScreen(): React.ReactElement {
                   </Text>
                 </View>
               )}
-              <View style={styles.coverComingSoonPill}>
-                <Text style={styles.coverComingSoonText}>Coming soon</Text>
-              </View>
               <View style={styles.coverHintPill}>
                 <Text style={styles.coverHintText}>Tap to change</Text>
               </View>
               {uploadingCover && (
                 <View style={styles.coverUploadingOverlay}>
                   <ActivityIndicator size="small" color="#ffffff" />
-                  <Text style={styles.coverUploadingText}>Uploading...</Text>
+                  <Text style={styles.coverUploadingText}>
+                    {coverUpload?.status === 'uploading'
+                      ? `Uploading ${Math.round(coverUpload.progress * 100)}%`
+                      : coverUpload?.status === 'retrying'
+                        ? 'Retrying...'
+                        : 'Uploading...'}
+                  </Text>
                 </View>
               )}
               <TouchableOpacity 
-                style={[styles.coverButton, { backgroundColor: colors.accent }, styles.coverButtonDisabled]}
-                onPress={undefined}
-                disabled={true}
+                style={[styles.coverButton, { backgroundColor: colors.accent }, applyingCover && styles.coverButtonDisabled]}
+                onPress={coverUpload ? handleCancelCoverUpload : handleCoverUpload}
+                disabled={applyingCover}
                 accessible
                 accessibilityRole="button"
-                accessibilityLabel="Change profile header (coming soon)"
+                accessibilityLabel={coverUpload ? 'Cancel header upload' : 'Change profile header'}
               >
-                <Text style={{ color: '#fff', fontWeight: '700' }}>Change cover</Text>
+                <Text style={{ color: '#fff', fontWeight: '700' }}>{coverUpload ? 'Cancel' : 'Change cover'}</Text>
               </TouchableOpacity>
             </Pressable>
           </View>
@@ -722,17 +745,24 @@ export default function EditProfileScreen(): React.ReactElement {
               {uploadingAvatar && (
                 <View style={styles.avatarUploadingOverlay}>
                   <ActivityIndicator size="small" color="#ffffff" />
+                  {avatarUpload?.status === 'uploading' && (
+                    <Text style={styles.coverUploadingText}>
+                      {Math.round(avatarUpload.progress * 100)}%
+                    </Text>
+                  )}
                 </View>
               )}
               <TouchableOpacity 
                 style={[styles.avatarButton, { backgroundColor: colors.accent }]}
-                onPress={handleAvatarUpload}
-                disabled={uploadingAvatar}
+                onPress={avatarUpload ? handleCancelAvatarUpload : handleAvatarUpload}
+                disabled={applyingAvatar}
                 accessible
                 accessibilityRole="button"
-                accessibilityLabel="Change profile picture"
+                accessibilityLabel={avatarUpload ? 'Cancel avatar upload' : 'Change profile picture'}
               >
-                {uploadingAvatar ? (
+                {avatarUpload ? (
+                  <X size={20} color="white" weight="bold" />
+                ) : applyingAvatar ? (
                   <ActivityIndicator size="small" color="white" />
                 ) : (
                   <Camera size={20} color="white" weight="fill" />
@@ -1081,20 +1111,6 @@ const styles = StyleSheet.create({
     color: '#ffffff',
     fontWeight: '600',
   },
-  coverComingSoonPill: {
-    position: 'absolute',
-    left: 12,
-    top: 12,
-    borderRadius: 999,
-    paddingHorizontal: 10,
-    paddingVertical: 6,
-    backgroundColor: 'rgba(0,0,0,0.55)',
-  },
-  coverComingSoonText: {
-    fontSize: 12,
-    color: '#ffffff',
-    fontWeight: '700',
-  },
   coverUploadingOverlay: {
     ...StyleSheet.absoluteFillObject,
     backgroundColor: 'rgba(0,0,0,0.45)',
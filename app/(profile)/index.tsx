@@ -15,7 +15,7 @@ import { useTheme } from '@/components/theme';
 import { useHeader } from '@/components/ui/header';
 import { useDiscourseUser } from '@/shared/useDiscourseUser';
 import { useAuth } from '@/shared/auth-context';
-import { ProfileTabView, ProfileMessageCard } from '@/components/profile';
+import { ProfileTabView, ProfileMessageCard, AccountSwitcherButton } from '@/components/profile';
 import { ProfileSkeleton } from '@/components/profile/ProfileSkeleton';
 import { getTokens } from '@/shared/design/tokens';
 import { useFluidNav } from '@/shared/navigation/fluidNavContext';
@@ -80,6 +80,7 @@ export default function ProfileScreen(): React.ReactElement {
         withSafeTop: false,
         tone: "bg",
         extendToStatusBar: true,
+        rightActions: [<AccountSwitcherButton key="accounts" />],
       });
 
       return () => {
@@ -2,7 +2,7 @@ import React, { useMemo, useCallback, useState } from 'react';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { ScrollView, Switch } from 'react-native';
 import { router } from 'expo-router';
-import { Bell, Gear, PencilSimple } from 'phosphor-react-native';
+import { Bell, BookmarkSimple, Gear, NotePencil, PencilSimple } from 'phosphor-react-native';
 import { useTheme } from '@/components/theme';
 import { useScreenHeader } from '@/shared/hooks/useScreenHeader';
 import { SettingItem, SettingSection } from '@/components/settings';
@@ -38,6 +38,18 @@ export default function ManageProfileScreen(): React.ReactElement {
             icon={<PencilSimple size={20} color={colors.accent} weight="fill" />}
             onPress={() => router.push('/(profile)/edit-profile')}
           />
+          <SettingItem
+            title="Bookmarks"
+            subtitle="Saved Bytes and reminders"
+            icon={<BookmarkSimple size={20} color={colors.accent} weight="fill" />}
+            onPress={() => router.push('/(profile)/bookmarks')}
+          />
+          <SettingItem
+            title="Drafts"
+            subtitle="Bytes, replies and messages in progress"
+            icon={<NotePencil size={20} color={colors.accent} weight="fill" />}
+            onPress={() => router.push('/(profile)/drafts')}
+          />
         </SettingSection>
 
         <SettingSection title="Preferences">
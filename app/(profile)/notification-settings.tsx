@@ -23,6 +23,8 @@ import {
 import { useTheme } from '@/components/theme';
 import { useScreenHeader } from '@/shared/hooks/useScreenHeader';
 import { useNotificationPreferences } from '../../shared/useNotificationPreferences';
+import { registerPushForActiveAccount } from '../../shared/usePushNotifications';
+import { pushManager } from '../../shared/push-manager';
 
 interface SettingItemProps {
   title: string;
@@ -153,6 +155,8 @@ export default function NotificationSettingsScreen(): React.ReactElement {
   const { isDark, isAmoled } = useTheme();
   const { preferences, setPreference, isLoading, isSyncing } = useNotificationPreferences();
   const [likeFrequencyModalVisible, setLikeFrequencyModalVisible] = useState(false);
+  const [isUpdatingPush, setIsUpdatingPush] = useState(false);
+  const pushAvailable = pushManager.isConfigured();
 
   // Configure header
   useScreenHeader({
@@ -183,6 +187,22 @@ export default function NotificationSettingsScreen(): React.ReactElement {
     setLikeFrequencyModalVisible(false);
   };
 
+  // Turning push on asks for permission and registers with the relay first
+  const handlePushEnabledChange = async (value: boolean) => {
+    if (!value) {
+      await setPreference('pushEnabled', false);
+      return;
+    }
+    setIsUpdatingPush(true);
+    const result = await registerPushForActiveAccount({ ...preferences, pushEnabled: true }, { prompt: true });
+    setIsUpdatingPush(false);
+    if (!result.success) {
+      Alert.alert('Push Notifications', result.error || 'Failed to turn on push notifications');
+      return;
+    }
+    await setPreference('pushEnabled', true);
+  };
+
   if (isLoading) {
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
@@ -208,19 +228,16 @@ export default function NotificationSettingsScreen(): React.ReactElement {
         )}
 
         {/* Notification Categories */}
-        <SettingSection title="Notification Categories" description="Category toggles are coming soon; we currently respect your Discourse like notification frequency.">
+        <SettingSection title="Notification Categories" description="Choose what shows in your notifications and what reaches you as a push.">
           <SettingItem
             title="Replies & Quotes"
             subtitle="When someone responds to your Byte"
             icon={<ChatCircle size={24} color={colors.secondary} weight="fill" />}
-            comingSoon={true}
-            statusLabel="Coming soon"
             rightElement={
               <Switch
                 value={preferences.replies}
                 onValueChange={(value) => setPreference('replies', value)}
-                disabled={true}
-                trackColor={{ false: colors.border, true: colors.secondary }}
+                trackColor={{ false: colors.border, true: colors.primary }}
                 thumbColor={preferences.replies ? '#ffffff' : '#ffffff'}
               />
             }
@@ -231,14 +248,11 @@ export default function NotificationSettingsScreen(): React.ReactElement {
             title="Mentions"
             subtitle="When someone mentions your username"
             icon={<At size={24} color={colors.secondary} weight="fill" />}
-            comingSoon={true}
-            statusLabel="Coming soon"
             rightElement={
               <Switch
                 value={preferences.mentions}
                 onValueChange={(value) => setPreference('mentions', value)}
-                disabled={true}
-                trackColor={{ false: colors.border, true: colors.secondary }}
+                trackColor={{ false: colors.border, true: colors.primary }}
                 thumbColor={preferences.mentions ? '#ffffff' : '#ffffff'}
               />
             }
@@ -249,14 +263,11 @@ export default function NotificationSettingsScreen(): React.ReactElement {
             title="Likes"
             subtitle="Likes on your Bytes"
             icon={<Heart size={24} color={colors.secondary} weight="fill" />}
-            comingSoon={true}
-            statusLabel="Coming soon"
             rightElement={
               <Switch
                 value={preferences.likes}
                 onValueChange={(value) => setPreference('likes', value)}
-                disabled={true}
-                trackColor={{ false: colors.border, true: colors.secondary }}
+                trackColor={{ false: colors.border, true: colors.primary }}
                 thumbColor={preferences.likes ? '#ffffff' : '#ffffff'}
               />
             }
@@ -267,14 +278,11 @@ export default function NotificationSettingsScreen(): React.ReactElement {
             title="Private Messages"
             subtitle="Direct messages sent to you"
             icon={<Envelope size={24} color={colors.secondary} weight="fill" />}
-            comingSoon={true}
-            statusLabel="Coming soon"
             rightElement={
               <Switch
                 value={preferences.privateMessages}
                 onValueChange={(value) => setPreference('privateMessages', value)}
-                disabled={true}
-                trackColor={{ false: colors.border, true: colors.secondary }}
+                trackColor={{ false: colors.border, true: colors.primary }}
                 thumbColor={preferences.privateMessages ? '#ffffff' : '#ffffff'}
               />
             }
@@ -285,14 +293,11 @@ export default function NotificationSettingsScreen(): React.ReactElement {
             title="Badges & Achievements"
             subtitle="Badges you've earned"
             icon={<Star size={24} color={colors.secondary} weight="fill" />}
-            comingSoon={true}
-            statusLabel="Coming soon"
             rightElement={
               <Switch
                 value={preferences.badges}
                 onValueChange={(value) => setPreference('badges', value)}
-                disabled={true}
-                trackColor={{ false: colors.border, true: colors.secondary }}
+                trackColor={{ false: colors.border, true: colors.primary }}
                 thumbColor={preferences.badges ? '#ffffff' : '#ffffff'}
               />
             }
@@ -303,14 +308,11 @@ export default function NotificationSettingsScreen(): React.ReactElement {
             title="System Notifications"
             subtitle="Reminders, admin messages, and updates"
             icon={<Bell size={24} color={colors.secondary} weight="regular" />}
-            comingSoon={true}
-            statusLabel="Coming soon"
             rightElement={
               <Switch
                 value={preferences.system}
                 onValueChange={(value) => setPreference('system', value)}
-                disabled={true}
-                trackColor={{ false: colors.border, true: colors.secondary }}
+                trackColor={{ false: colors.border, true: colors.primary }}
                 thumbColor={preferences.system ? '#ffffff' : '#ffffff'}
               />
             }
@@ -319,16 +321,13 @@ export default function NotificationSettingsScreen(): React.ReactElement {
 
           <SettingItem
             title="Following Activity"
-            subtitle="Activity on Bytes you follow"
+            subtitle="Activity from people you follow"
             icon={<Users size={24} color={colors.secondary} weight="regular" />}
-            comingSoon={true}
-            statusLabel="Coming soon"
             rightElement={
               <Switch
                 value={preferences.following}
                 onValueChange={(value) => setPreference('following', value)}
-                disabled={true}
-                trackColor={{ false: colors.border, true: colors.secondary }}
+                trackColor={{ false: colors.border, true: colors.primary }}
                 thumbColor={preferences.following ? '#ffffff' : '#ffffff'}
               />
             }
@@ -355,18 +354,22 @@ export default function NotificationSettingsScreen(): React.ReactElement {
         {/* Push Notifications */}
         <SettingSection
           title="Push Notifications"
-          description="Push notifications are coming soon."
+          description={
+            pushAvailable
+              ? 'Sent for the categories above, even when Fomio is closed.'
+              : "This build of Fomio isn't set up for push notifications."
+          }
         >
           <SettingItem
             title="Enable Push"
             subtitle="Receive push notifications"
             icon={<Bell size={24} color={colors.secondary} weight="regular" />}
-            statusLabel="Coming soon"
+            statusLabel={pushAvailable ? undefined : 'Unavailable'}
             rightElement={
               <Switch
-                value={preferences.pushEnabled}
-                onValueChange={(value) => setPreference('pushEnabled', value)}
-                disabled={true}
+                value={pushAvailable && preferences.pushEnabled}
+                onValueChange={handlePushEnabledChange}
+                disabled={!pushAvailable || isUpdatingPush}
                 trackColor={{ false: colors.border, true: colors.primary }}
                 thumbColor={preferences.pushEnabled ? '#ffffff' : '#ffffff'}
               />
@@ -378,12 +381,11 @@ export default function NotificationSettingsScreen(): React.ReactElement {
             title="Sound"
             subtitle="Play sound for push notifications"
             icon={<Bell size={24} color={colors.secondary} weight="regular" />}
-            statusLabel="Coming soon"
             rightElement={
               <Switch
                 value={preferences.pushSound}
                 onValueChange={(value) => setPreference('pushSound', value)}
-                disabled={true}
+                disabled={!pushAvailable || !preferences.pushEnabled}
                 trackColor={{ false: colors.border, true: colors.primary }}
                 thumbColor={preferences.pushSound ? '#ffffff' : '#ffffff'}
               />
@@ -395,12 +397,11 @@ export default function NotificationSettingsScreen(): React.ReactElement {
             title="Alert"
             subtitle="Show alert for push notifications"
             icon={<Bell size={24} color={colors.secondary} weight="regular" />}
-            statusLabel="Coming soon"
             rightElement={
               <Switch
                 value={preferences.pushAlert}
                 onValueChange={(value) => setPreference('pushAlert', value)}
-                disabled={true}
+                disabled={!pushAvailable || !preferences.pushEnabled}
                 trackColor={{ false: colors.border, true: colors.primary }}
                 thumbColor={preferences.pushAlert ? '#ffffff' : '#ffffff'}
               />
@@ -42,7 +42,8 @@ import { useSettingsStorage } from '../../shared/useSettingsStorage';
 import { getThemeColors } from '@/shared/theme-constants';
 import { discourseApi } from '@/shared/discourseApi';
 import { offlineManager } from '@/shared/offline-support';
-import { clearQueryCache } from '@/shared/query-client';
+import { clearQueryCache, getQueryCacheStorageKey } from '@/shared/query-client';
+import { getActiveAccountId } from '@/shared/accounts';
 
 export default function SettingsScreen(): React.ReactElement {
   const { themeMode, setThemeMode, isDark } = useTheme();
@@ -144,7 +145,10 @@ export default function SettingsScreen(): React.ReactElement {
               setBusyAction('signOut');
               await signOut();
               console.log('User signed out successfully');
-              router.replace('/(auth)/signin');
+              // With other accounts still signed in, stay in the app on the next one
+              if (!getActiveAccountId()) {
+                router.replace('/(auth)/signin');
+              }
             } catch (error) {
               console.error('Sign out failed:', error);
               Alert.alert('Error', 'Failed to sign out. Please try again.');
@@ -362,7 +366,7 @@ export default function SettingsScreen(): React.ReactElement {
             clearQueryCache();
             discourseApi.clearCache();
             try {
-              await AsyncStorage.removeItem('fomio-query-cache');
+              await AsyncStorage.removeItem(getQueryCacheStorageKey(getActiveAccountId()));
               await AsyncStorage.removeItem('compose_draft_meta_v1');
             } catch (storageError) {
               console.error('Failed to clear cache storage:', storageError);
@@ -13,6 +13,9 @@ import { ArrowClockwise, Newspaper } from 'phosphor-react-native';
 import * as Haptics from 'expo-haptics';
 import Animated, { useAnimatedScrollHandler } from 'react-native-reanimated';
 import { useFluidNav } from '@/shared/navigation/fluidNavContext';
+import { useNewBytes } from '@/shared/message-bus';
+import { discourseApi } from '@/shared/discourseApi';
+import { UnreadRepliesPill } from '@/components/feed/UnreadRepliesPill';
 
 export default function HomeScreen(): React.ReactElement {
   const { isDark, isAmoled } = useTheme();
@@ -44,6 +47,21 @@ export default function HomeScreen(): React.ReactElement {
     retry 
   } = useFeed(); // No filters - always fetch latest
 
+  // Bytes created since the feed was last refreshed (from MessageBus)
+  const { count: newBytesCount, reset: resetNewBytes } = useNewBytes();
+
+  const handleRefresh = useCallback(() => {
+    resetNewBytes();
+    refresh();
+  }, [refresh, resetNewBytes]);
+
+  const handleShowNewBytes = useCallback(() => {
+    flatListRef.current?.scrollToOffset({ offset: 0, animated: true });
+    // Cached feed pages predate the new Bytes
+    discourseApi.evictCache('/latest.json', '/c/');
+    handleRefresh();
+  }, [handleRefresh]);
+
   const headerTitle = useMemo(
     () => (
       <Image
@@ -242,7 +260,7 @@ export default function HomeScreen(): React.ReactElement {
         refreshControl={
           <RefreshControl
             refreshing={isRefreshing}
-            onRefresh={refresh}
+            onRefresh={handleRefresh}
             tintColor={colors.text}
             colors={[colors.text]}
           />
@@ -259,6 +277,16 @@ export default function HomeScreen(): React.ReactElement {
         ListFooterComponent={renderFooter}
         ListEmptyComponent={hasError ? renderError : renderEmptyState}
       />
+      {newBytesCount > 0 && (
+        <View style={styles.newBytesBanner} pointerEvents="box-none">
+          <UnreadRepliesPill
+            label={newBytesCount === 1 ? '1 new Byte' : `${newBytesCount} new Bytes`}
+            onPress={handleShowNewBytes}
+            mode={isDark ? (isAmoled ? 'darkAmoled' : 'dark') : 'light'}
+            direction="up"
+          />
+        </View>
+      )}
     </SafeAreaView>
   );
 }
@@ -267,6 +295,14 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  newBytesBanner: {
+    position: 'absolute',
+    top: 12,
+    left: 0,
+    right: 0,
+    alignItems: 'center',
+    zIndex: 10,
+  },
   footer: {
     paddingVertical: 10,
     alignItems: 'center',
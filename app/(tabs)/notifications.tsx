@@ -8,48 +8,39 @@ import {
   RefreshControl,
   Alert,
   Pressable,
+  ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import {
-  Bell,
   BellSlash,
   Check,
-  Heart,
-  ChatCircle,
-  Share,
-  UserPlus,
-  At,
-  Star,
-  Bookmark,
   Gear,
-  PencilSimple,
   Envelope,
-  Calendar,
-  Clock,
-  CheckCircle,
-  Smiley,
-  Users,
 } from 'phosphor-react-native';
 import * as Haptics from 'expo-haptics';
 import { useTheme } from '@/components/theme';
 import { useScreenHeader } from '@/shared/hooks/useScreenHeader';
 import { useHeader } from '@/components/ui/header';
 import { SettingSection } from '@/components/settings';
-import { useNotifications, Notification } from '../../shared/useNotifications';
+import { useNotifications } from '../../shared/useNotifications';
 import { useAuth } from '@/shared/auth-context';
 import { useNotificationPreferences } from '../../shared/useNotificationPreferences';
+import { useSetByteNotificationLevel } from '@/shared/mutations/useByteMutations';
+import { TOPIC_NOTIFICATION_LEVELS } from '@/shared/discourseApi';
+import { useToast } from '@/shared/form-validation';
 import {
-  formatRelativeTime,
   groupNotificationsByTime,
+  groupConsecutiveNotifications,
   filterNotificationsByType,
   filterNotificationsByPreferences,
-  getNotificationTitle,
-  getNotificationSnippet,
   getNotificationTypeCategory,
   getNotificationNavigationTarget,
-  NotificationSection,
+  getNotificationHref,
+  NotificationGroup,
+  NotificationGroupSection,
 } from '../../lib/utils/notifications';
+import { NotificationRow } from '@/components/notifications/NotificationRow';
 import { Skeleton } from '@/components/shared/loading';
 import { cn } from '@/lib/utils/cn';
 import { getThemeColors } from '@/shared/theme-constants';
@@ -61,200 +52,6 @@ const AnimatedSectionList = Animated.createAnimatedComponent(SectionList) as any
 // Notification type filter
 type TypeFilter = 'all' | 'replies' | 'mentions' | 'system';
 
-// UI Spec: NotificationItem — Clean, scannable notification row
-// - Left icon (type-based, colored background)
-// - Title line (bold if unread)
-// - Snippet line (Byte title or excerpt, truncated)
-// - Right: relative time + unread dot
-// - Subtle background highlight for unread
-// - Tap to navigate + mark as read
-function NotificationItem({
-  notification,
-  onPress,
-  onMarkRead,
-}: {
-  notification: Notification;
-  onPress: () => void;
-  onMarkRead: () => void;
-}) {
-  const { themeMode, isDark } = useTheme();
-  const colors = useMemo(() => getThemeColors(themeMode, isDark), [themeMode, isDark]);
-
-  const getNotificationIcon = () => {
-    const iconSize = 20;
-    const iconColor = '#ffffff';
-    switch (notification.type) {
-      case 'liked':
-      case 'liked_consolidated':
-        return <Heart size={iconSize} color={iconColor} weight="fill" />;
-      case 'replied':
-        return <ChatCircle size={iconSize} color={iconColor} weight="fill" />;
-      case 'mentioned':
-      case 'group_mentioned':
-        return <At size={iconSize} color={iconColor} weight="fill" />;
-      case 'invited_to_private_message':
-      case 'private_message':
-        return <Envelope size={iconSize} color={iconColor} weight="fill" />;
-      case 'bookmark_reminder':
-      case 'topic_reminder':
-        return <Clock size={iconSize} color={iconColor} weight="fill" />;
-      case 'quoted':
-        return <Share size={iconSize} color={iconColor} weight="fill" />;
-      case 'granted_badge':
-        return <Star size={iconSize} color={iconColor} weight="fill" />;
-      case 'edited':
-        return <PencilSimple size={iconSize} color={iconColor} weight="fill" />;
-      case 'post_approved':
-        return <CheckCircle size={iconSize} color={iconColor} weight="fill" />;
-      case 'reaction':
-        return <Smiley size={iconSize} color={iconColor} weight="fill" />;
-      case 'event_reminder':
-      case 'event_invitation':
-        return <Calendar size={iconSize} color={iconColor} weight="fill" />;
-      case 'membership_request_accepted':
-      case 'membership_request_consolidated':
-        return <Users size={iconSize} color={iconColor} weight="fill" />;
-      default:
-        return <Bell size={iconSize} color={iconColor} weight="regular" />;
-    }
-  };
-
-  const getIconBackgroundColor = () => {
-    switch (notification.type) {
-      case 'liked':
-      case 'liked_consolidated':
-        return colors.destructive;
-      case 'replied':
-      case 'quoted':
-      case 'edited':
-        return colors.accent;
-      case 'mentioned':
-      case 'group_mentioned':
-      case 'reaction':
-        return colors.warning;
-      case 'invited_to_private_message':
-      case 'private_message':
-      case 'post_approved':
-        return colors.success;
-      case 'bookmark_reminder':
-      case 'granted_badge':
-      case 'topic_reminder':
-        return colors.accent;
-      case 'event_reminder':
-      case 'event_invitation':
-        return colors.warning;
-      case 'membership_request_accepted':
-      case 'membership_request_consolidated':
-        return colors.success;
-      default:
-        return colors.secondary;
-    }
-  };
-
-  const title = getNotificationTitle(notification);
-  const snippet = getNotificationSnippet(notification);
-  const relativeTime = formatRelativeTime(notification.createdAt);
-
-  const handlePress = () => {
-    // Mark as read immediately (optimistic update)
-    if (!notification.isRead) {
-      onMarkRead();
-    }
-
-    // Navigate to content
-    onPress();
-  };
-
-  const unreadBackground = isDark ? 'rgba(59, 130, 246, 0.1)' : 'rgba(14, 165, 233, 0.08)';
-
-  return (
-    <Pressable
-      onPress={handlePress}
-      style={{
-        flexDirection: 'row',
-        alignItems: 'center',
-        justifyContent: 'space-between',
-        paddingHorizontal: 16,
-        paddingVertical: 16,
-        borderBottomWidth: StyleSheet.hairlineWidth,
-        minHeight: 60,
-        backgroundColor: notification.isRead ? colors.card : unreadBackground,
-        borderBottomColor: colors.border,
-      }}
-      android_ripple={{
-        color: isDark ? 'rgba(255,255,255,0.12)' : 'rgba(0,0,0,0.08)',
-        borderless: true,
-        radius: 20,
-      }}
-    >
-      {/* Icon */}
-      <View
-        style={{
-          width: 40,
-          height: 40,
-          borderRadius: 20,
-          alignItems: 'center',
-          justifyContent: 'center',
-          marginRight: 12,
-          backgroundColor: getIconBackgroundColor(),
-        }}
-      >
-        {getNotificationIcon()}
-      </View>
-
-      {/* Content */}
-      <View style={{ flex: 1, marginRight: 8 }}>
-        <Text
-          style={{
-            fontSize: 16,
-            fontWeight: notification.isRead ? '500' : '600',
-            color: colors.foreground,
-            marginBottom: 2,
-          }}
-          numberOfLines={1}
-        >
-          {title}
-        </Text>
-        {snippet ? (
-          <Text
-            style={{
-              fontSize: 14,
-              fontWeight: '400',
-              color: colors.secondary,
-              marginBottom: 2,
-            }}
-            numberOfLines={2}
-          >
-            {snippet}
-          </Text>
-        ) : null}
-        <Text
-          style={{
-            fontSize: 14,
-            fontWeight: '400',
-            color: colors.secondary,
-          }}
-        >
-          {relativeTime}
-        </Text>
-      </View>
-
-      {/* Unread indicator */}
-      {!notification.isRead && (
-        <View
-          style={{
-            width: 8,
-            height: 8,
-            borderRadius: 4,
-            backgroundColor: colors.accent,
-            marginLeft: 8,
-          }}
-        />
-      )}
-    </Pressable>
-  );
-}
-
 // UI Spec: NotificationSkeleton — Loading placeholder
 function NotificationSkeleton() {
   const { themeMode, isDark } = useTheme();
@@ -366,10 +163,16 @@ export default function NotificationsScreen(): React.ReactElement {
     hasError,
     errorMessage,
     loadNotifications: fetchNotifications,
+    loadMore,
+    hasMore,
+    isLoadingMore,
     markAsRead,
+    markAsUnread,
     markAllAsRead,
     unreadCount,
   } = useNotifications();
+  const setByteNotificationLevel = useSetByteNotificationLevel();
+  const { showSuccess, showError } = useToast();
 
   const [refreshing, setRefreshing] = useState(false);
   const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
@@ -392,9 +195,9 @@ export default function NotificationsScreen(): React.ReactElement {
     [preferenceFiltered, typeFilter]
   );
 
-  // Step 3: Group by time
+  // Step 3: Collapse repeats about the same Byte, then group by time
   const processedNotifications = useMemo(
-    () => groupNotificationsByTime(typeFiltered),
+    () => groupNotificationsByTime(groupConsecutiveNotifications(typeFiltered)),
     [typeFiltered]
   );
 
@@ -430,6 +233,11 @@ export default function NotificationsScreen(): React.ReactElement {
     router.push('/(profile)/notification-settings' as any);
   }, [router]);
 
+  const handleMessagesPress = useCallback(() => {
+    Haptics.selectionAsync().catch(() => {});
+    router.push('/messages' as any);
+  }, [router]);
+
   // Use ref to track previous action keys to prevent infinite loops
   const prevActionKeysRef = useRef<string>('');
 
@@ -482,12 +290,29 @@ export default function NotificationsScreen(): React.ReactElement {
       >
         <Gear size={20} color={secondaryColor} weight="regular" />
       </Pressable>,
+      <Pressable
+        key="messages"
+        onPress={handleMessagesPress}
+        className="p-2 rounded-full"
+        style={{
+          backgroundColor: `${secondaryColor}20`,
+        }}
+        android_ripple={{
+          color: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)',
+          borderless: true,
+          radius: 20,
+        }}
+        accessibilityRole="button"
+        accessibilityLabel="Messages"
+      >
+        <Envelope size={20} color={secondaryColor} weight="regular" />
+      </Pressable>,
     ].filter(Boolean);
     
     setActions(newActions);
     // eslint-disable-next-line react-hooks/exhaustive-deps
     // setActions is stable from useHeader() and doesn't need to be in deps
-  }, [unreadCount, themeMode, isDark, handleMarkAllRead, handleSettingsPress]);
+  }, [unreadCount, themeMode, isDark, handleMarkAllRead, handleSettingsPress, handleMessagesPress]);
 
   // Load notifications on mount and when authenticated
   useEffect(() => {
@@ -505,7 +330,14 @@ export default function NotificationsScreen(): React.ReactElement {
     }
   }, [fetchNotifications]);
 
-  const handleNotificationPress = useCallback((notification: Notification) => {
+  const handleNotificationPress = useCallback((group: NotificationGroup) => {
+    // Mark as read immediately (optimistic update)
+    group.notifications
+      .filter((notification) => !notification.isRead)
+      .forEach((notification) => markAsRead(notification.id));
+
+    // A group opens its newest notification
+    const [notification] = group.notifications;
     const navigationTarget = getNotificationNavigationTarget(notification);
 
     if (!navigationTarget) {
@@ -513,26 +345,40 @@ export default function NotificationsScreen(): React.ReactElement {
       return;
     }
 
-    // Build URL with query params if needed
-    let url = navigationTarget.path;
-    if (navigationTarget.params) {
-      const queryString = Object.entries(navigationTarget.params)
-        .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
-        .join('&');
-      url = `${url}?${queryString}`;
-    }
-
-    router.push(url as any);
-  }, [router]);
+    router.push(getNotificationHref(navigationTarget) as any);
+  }, [router, markAsRead]);
 
-  const handleMarkRead = useCallback(async (notificationId: number) => {
+  const handleToggleRead = useCallback(async (group: NotificationGroup) => {
     try {
-      await markAsRead(notificationId);
+      if (group.isRead) {
+        await Promise.all(group.notifications.map((notification) => markAsUnread(notification.id)));
+      } else {
+        await Promise.all(
+          group.notifications
+            .filter((notification) => !notification.isRead)
+            .map((notification) => markAsRead(notification.id))
+        );
+      }
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
     } catch (error) {
-      console.error('Failed to mark notification as read:', error);
+      console.error('Failed to update notification read state:', error);
     }
-  }, [markAsRead]);
+  }, [markAsRead, markAsUnread]);
+
+  const handleMuteByte = useCallback((topicId: number) => {
+    setByteNotificationLevel.mutate(
+      { byteId: topicId, level: TOPIC_NOTIFICATION_LEVELS.muted },
+      {
+        onSuccess: () => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+          showSuccess('Byte muted', "You won't be notified about it anymore.");
+        },
+        onError: (error) => {
+          showError('Could not mute Byte', error instanceof Error ? error.message : undefined);
+        },
+      }
+    );
+  }, [setByteNotificationLevel, showSuccess, showError]);
 
   // Fluid nav: Scroll-to-top handler
   const handleScrollToTop = useCallback(() => {
@@ -600,7 +446,7 @@ export default function NotificationsScreen(): React.ReactElement {
   }, [typeFilter, colors]);
 
   // Render section header
-  const renderSectionHeader = useCallback(({ section }: { section: NotificationSection }) => (
+  const renderSectionHeader = useCallback(({ section }: { section: NotificationGroupSection }) => (
     <View className="px-4 py-2" style={{ backgroundColor: colors.background }}>
       <Text
         className="text-sm font-semibold uppercase tracking-wide"
@@ -611,14 +457,18 @@ export default function NotificationsScreen(): React.ReactElement {
     </View>
   ), [colors]);
 
-  // Render notification item
-  const renderItem = useCallback(({ item }: { item: Notification }) => (
-    <NotificationItem
-      notification={item}
-      onPress={() => handleNotificationPress(item)}
-      onMarkRead={() => handleMarkRead(item.id)}
-    />
-  ), [handleNotificationPress, handleMarkRead]);
+  // Render notification row
+  const renderItem = useCallback(({ item }: { item: NotificationGroup }) => {
+    const { topicId } = item;
+    return (
+      <NotificationRow
+        group={item}
+        onPress={() => handleNotificationPress(item)}
+        onToggleRead={() => handleToggleRead(item)}
+        onMute={topicId != null ? () => handleMuteByte(topicId) : undefined}
+      />
+    );
+  }, [handleNotificationPress, handleToggleRead, handleMuteByte]);
 
   // Count notifications by type for filter chips (use preferenceFiltered)
   const repliesCount = preferenceFiltered.filter(
@@ -725,13 +575,22 @@ export default function NotificationsScreen(): React.ReactElement {
         <AnimatedSectionList
           ref={sectionListRef}
           sections={processedNotifications}
-          keyExtractor={(item: Notification) => item.id.toString()}
+          keyExtractor={(item: NotificationGroup) => item.key}
           renderItem={renderItem}
           renderSectionHeader={renderSectionHeader}
           contentContainerStyle={{ paddingBottom: 32 }}
           showsVerticalScrollIndicator={false}
           onScroll={animatedScrollHandler}
           scrollEventThrottle={16}
+          onEndReached={hasMore ? loadMore : undefined}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            isLoadingMore ? (
+              <View style={{ paddingVertical: 16, alignItems: 'center' }}>
+                <ActivityIndicator size="small" color={colors.accent} />
+              </View>
+            ) : null
+          }
           refreshControl={
             <RefreshControl
               refreshing={refreshing}
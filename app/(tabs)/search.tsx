@@ -5,7 +5,7 @@ import {
   TouchableOpacity, 
   ActivityIndicator,
   ListRenderItem,
-  ScrollView,
+  Share,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { 
@@ -14,12 +14,30 @@ import {
   Hash,
   Warning,
   ArrowClockwise,
-  Rocket
+  Rocket,
+  PushPin,
+  ShareNetwork,
+  SlidersHorizontal,
 } from 'phosphor-react-native';
 import { useTheme } from '@/components/theme';
 import { useScreenHeader } from '@/shared/hooks/useScreenHeader';
 import { searchResultToByte } from '@/shared/adapters/searchResultToByte';
-import { useSearch } from '../../shared/useSearch';
+import { useSearch, useSearchHistory, useSearchSuggestions } from '../../shared/useSearch';
+import {
+  EMPTY_SEARCH_FILTERS,
+  SearchQueryFilters,
+  SearchSuggestion,
+  buildSearchQuery,
+  getSearchFilterChips,
+  getSearchShareLink,
+  hasSearchFilters,
+  parseSearchQuery,
+  removeSearchFilter,
+} from '@/shared/search';
+import { useAuth } from '@/shared/auth-context';
+import { useAccounts } from '@/shared/accounts';
+import { useTerets } from '@/shared/useTerets';
+import { goToTag } from '@/shared/navigation/tag';
 import { router, useLocalSearchParams } from 'expo-router';
 import { goToProfile } from '@/shared/navigation/profile';
 import Animated, { FadeInDown, useAnimatedScrollHandler } from 'react-native-reanimated';
@@ -33,19 +51,22 @@ import { HubResultCard } from '@/components/search/HubResultCard';
 import { PostResultCard } from '@/components/search/PostResultCard';
 import { FluidSection } from '@/shared/ui/FluidSection';
 import { getTokens } from '@/shared/design/tokens';
-import { Input } from '@/components/ui/input';
+import { SearchFilterBuilder, SearchFilterChips } from '@/components/search/SearchFilterBuilder';
+import { useToast } from '@/shared/form-validation';
 
 // UI Spec: SearchScreen
 // - Uses semantic theme tokens from getThemeColors
 // - Debounced search (500ms) for better UX
+// - Suggestions under the search box: this account's saved searches (pin/remove) and matching
+//   Bytes, people, Terets and tags from the server
+// - Filters are chips written into the query as Discourse search syntax (in:, status:, order:,
+//   after:/before:, min_posts:, #teret, @author, tags:); typed filters become chips on submit
+// - A search can be pinned to history or shared as a fomio://search?q= link
 // - Server-side type filtering via backend API
-// - FlatList for optimized rendering
+// - FlatList for optimized rendering, loading further pages at the end of the list
 // - AMOLED dark mode support with true black baseline
 
 type SearchType = 'bytes' | 'hubs' | 'users' | 'posts';
-type SearchOrder = 'relevance' | 'latest' | 'views' | 'likes' | 'created' | 'updated';
-type SearchPeriod = 'all' | 'yearly' | 'quarterly' | 'monthly' | 'weekly' | 'daily';
-type SearchStatus = 'open' | 'closed' | 'archived' | 'visible' | 'hidden';
 
 // Helper to map frontend SearchType to backend type
 function mapSearchTypeToBackendType(frontendType: SearchType): 'topic' | 'category' | 'user' | 'all' {
@@ -166,76 +187,21 @@ function SearchTypeTabs({
   );
 }
 
-function FilterChip({
-  label,
-  selected,
-  onPress,
-}: {
-  label: string;
-  selected: boolean;
-  onPress: () => void;
-}) {
-  const { isDark } = useTheme();
-  const tokens = useMemo(() => getTokens(isDark ? 'dark' : 'light'), [isDark]);
-
-  return (
-    <TouchableOpacity
-      onPress={onPress}
-      activeOpacity={0.8}
-      style={{
-        paddingHorizontal: 12,
-        paddingVertical: 6,
-        borderRadius: tokens.radii.pill,
-        backgroundColor: selected ? tokens.colors.accentSoft : tokens.colors.surfaceMuted,
-        borderWidth: 1,
-        borderColor: selected ? tokens.colors.accent : tokens.colors.border,
-      }}
-      accessibilityRole="button"
-      accessibilityLabel={label}
-    >
-      <Text
-        style={{
-          color: selected ? tokens.colors.text : tokens.colors.muted,
-          fontSize: 12,
-          fontWeight: selected ? '600' : '500',
-        }}
-      >
-        {label}
-      </Text>
-    </TouchableOpacity>
-  );
-}
-
-function FilterSection({
-  title,
-  children,
-}: {
-  title: string;
-  children: React.ReactNode;
-}) {
-  const { isDark } = useTheme();
-  const tokens = useMemo(() => getTokens(isDark ? 'dark' : 'light'), [isDark]);
-
-  return (
-    <View style={{ marginBottom: 12 }}>
-      <Text style={{ color: tokens.colors.muted, fontSize: 12, fontWeight: '600', marginBottom: 6 }}>
-        {title}
-      </Text>
-      {children}
-    </View>
-  );
-}
-
 function SearchResults({ 
   results, 
   isLoading, 
   hasError, 
   onRetry, 
   searchQuery,
+  minQueryLength,
   activeType,
   errorMessage,
   scrollHandler,
-  onRef
+  onRef,
+  onResultOpen,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
 }: {
   results: {
     bytes: any[];
@@ -248,10 +214,16 @@ function SearchResults({
   hasError: boolean;
   onRetry: () => void;
   searchQuery: string;
+  minQueryLength: number;
   activeType: SearchType;
   errorMessage?: string;
   scrollHandler?: any;
   onRef?: (ref: Animated.FlatList<any> | null) => void;
+  // Opening a result counts as a search worth remembering
+  onResultOpen?: () => void;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
 }) {
   const { themeMode, isAmoled, isDark } = useTheme();
   const colors = getThemeColors(themeMode, isAmoled);
@@ -259,8 +231,9 @@ function SearchResults({
 
   // Handle byte press navigation
   const handleBytePress = useCallback((byteId: number | string) => {
+    onResultOpen?.();
     router.push(`/feed/${byteId}` as any);
-  }, []);
+  }, [onResultOpen]);
 
   // Use results directly from backend (server-side filtering)
   const normalizedResults = useMemo(() => ({
@@ -372,8 +345,8 @@ function SearchResults({
           <FluidSection mode={isDark ? 'dark' : 'light'} style={{ alignItems: 'center', paddingVertical: 24, paddingHorizontal: 32 }}>
             <MagnifyingGlass size={48} color={colors.secondary} />
             <Text className="text-base mt-4 text-center" style={{ color: colors.secondary }}>
-              {searchQuery.length > 0 && searchQuery.length < 3 
-                ? 'Type at least 3 characters to search'
+              {searchQuery.length > 0 && searchQuery.length < minQueryLength 
+                ? `Type at least ${minQueryLength} characters to search`
                 : emptyStateByType[activeType]
               }
             </Text>
@@ -403,7 +376,10 @@ function SearchResults({
         <Animated.View entering={FadeInDown.delay(staggerDelay).duration(350).springify()}>
           <HubResultCard
             hub={item.data}
-            onPress={() => router.push(`/feed?category=${item.data.slug}`)}
+            onPress={() => {
+              onResultOpen?.();
+              router.push(`/feed?category=${item.data.slug}`);
+            }}
           />
         </Animated.View>
       );
@@ -419,6 +395,7 @@ function SearchResults({
             user={item.data}
             onPress={() => {
               if (username) {
+                onResultOpen?.();
                 Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
                 goToProfile(username);
               } else {
@@ -438,6 +415,7 @@ function SearchResults({
             comment={item.data}
             onPress={() => {
               if (byteId) {
+                onResultOpen?.();
                 router.push(`/feed/${byteId}` as any);
               }
             }}
@@ -467,6 +445,15 @@ function SearchResults({
       keyboardDismissMode="on-drag"
       keyboardShouldPersistTaps="handled"
       scrollEnabled={true}
+      onEndReached={hasMore ? onLoadMore : undefined}
+      onEndReachedThreshold={0.5}
+      ListFooterComponent={
+        isLoadingMore ? (
+          <View style={{ paddingVertical: 16, alignItems: 'center' }}>
+            <ActivityIndicator size="small" color={colors.accent} />
+          </View>
+        ) : null
+      }
       ListHeaderComponent={
         displayedTotal > 0 ? (
           <Animated.View 
@@ -478,7 +465,7 @@ function SearchResults({
                 className="text-lg font-bold"
                 style={{ color: colors.foreground }}
               >
-                {displayedTotal} result{displayedTotal !== 1 ? 's' : ''}
+                {displayedTotal}{hasMore ? '+' : ''} result{displayedTotal !== 1 ? 's' : ''}
               </Text>
             </FluidSection>
           </Animated.View>
@@ -552,29 +539,49 @@ export default function SearchScreen(): React.ReactElement {
   const { themeMode, isAmoled } = useTheme();
   const { q: initialQuery } = useLocalSearchParams<{ q?: string }>();
   const [searchQuery, setSearchQuery] = useState('');
+  const [filters, setFilters] = useState<SearchQueryFilters>(EMPTY_SEARCH_FILTERS);
   const [activeType, setActiveType] = useState<SearchType>('bytes');
   const [showFilters, setShowFilters] = useState(false);
-  const [order, setOrder] = useState<SearchOrder>('relevance');
-  const [period, setPeriod] = useState<SearchPeriod>('all');
-  const [category, setCategory] = useState('');
-  const [author, setAuthor] = useState('');
-  const [tags, setTags] = useState('');
-  const [status, setStatus] = useState<SearchStatus | null>(null);
-  const [initialQueryApplied, setInitialQueryApplied] = useState(false);
+  const appliedLinkQueryRef = useRef<string | null>(null);
   const { scrollY, setUpHandler } = useFluidNav();
   const flatListRef = useRef<Animated.FlatList<any>>(null);
-  
-  const { 
-    search, 
+  const { showSuccess } = useToast();
+
+  const {
+    search,
     searchWithDebounce,
     clearSearch,
-    results, 
-    isLoading: isSearchLoading, 
-    hasError: hasSearchError, 
+    results,
+    isLoading: isSearchLoading,
+    hasError: hasSearchError,
     error: searchError,
     retry: retrySearch,
+    minQueryLength,
+    hasMore,
+    isLoadingMore,
+    loadMore,
   } = useSearch();
-  
+  const { user } = useAuth();
+  const { activeAccountId } = useAccounts();
+  const { terets } = useTerets();
+  const {
+    history,
+    addToHistory,
+    removeFromHistory,
+    togglePin,
+    pinSearch,
+    clearHistory,
+  } = useSearchHistory(activeAccountId);
+  const { sections: suggestionSections, isLoading: isLoadingSuggestions } = useSearchSuggestions(
+    searchQuery,
+    { history, terets }
+  );
+
+  // The term with the filter chips written out, as sent to Discourse
+  const fullQuery = useMemo(() => buildSearchQuery(searchQuery, filters), [searchQuery, filters]);
+  const filterChips = useMemo(() => getSearchFilterChips(filters), [filters]);
+  const canSearch = searchQuery.trim().length >= minQueryLength || hasSearchFilters(filters);
+
   const availableTypes = useMemo<SearchType[]>(() => {
     const base: SearchType[] = ['bytes', 'hubs', 'users'];
     if (results?.comments && results.comments.length > 0) {
@@ -589,78 +596,49 @@ export default function SearchScreen(): React.ReactElement {
     }
   }, [activeType, availableTypes]);
 
-  // Handle deep link with pre-filled query (fomio://search?q=...)
+  // Splits a query into the term and filter chips
+  const applyQuery = useCallback((query: string) => {
+    const parsed = parseSearchQuery(query);
+    setSearchQuery(parsed.term);
+    setFilters(parsed.filters);
+  }, []);
+
+  // Handle deep link with pre-filled query (fomio://search?q=...), including a new link while open
   useEffect(() => {
-    if (initialQuery && !initialQueryApplied) {
-      setInitialQueryApplied(true);
-      setSearchQuery(initialQuery);
-      // Trigger search immediately if query is long enough
-      if (initialQuery.trim().length >= 3) {
-        const backendType = mapSearchTypeToBackendType(activeType);
-        search(initialQuery.trim(), { type: backendType });
-      }
+    if (initialQuery && initialQuery !== appliedLinkQueryRef.current) {
+      appliedLinkQueryRef.current = initialQuery;
+      applyQuery(initialQuery);
     }
-  }, [initialQuery, initialQueryApplied, activeType, search]);
+  }, [initialQuery, applyQuery]);
 
   const colors = useMemo(() => getThemeColors(themeMode, isAmoled), [themeMode, isAmoled]);
 
-  const parsedTags = useMemo(
-    () => tags.split(',').map((tag) => tag.trim()).filter(Boolean),
-    [tags]
-  );
-
-  const buildFilters = useCallback(() => {
-    return {
-      type: mapSearchTypeToBackendType(activeType),
-      order,
-      period,
-      category: category.trim() || undefined,
-      author: author.trim() || undefined,
-      tags: parsedTags.length > 0 ? parsedTags : undefined,
-      status: status || undefined,
-    };
-  }, [activeType, order, period, category, author, parsedTags, status]);
-
   // Configure header
   useScreenHeader({
-    title: searchQuery.trim() ? "Search Results" : "Search",
-    canGoBack: searchQuery.trim() ? true : false,
+    title: canSearch ? "Search Results" : "Search",
+    canGoBack: canSearch,
     withSafeTop: false,
     tone: "bg",
     compact: true,
     titleFontSize: 20,
-  }, [searchQuery, themeMode]);
+  }, [canSearch, themeMode]);
 
-  // Debounced search handling with type filter
-  const handleSearch = useCallback((query: string) => {
-    setSearchQuery(query);
-    const trimmed = query.trim();
-    
-    if (trimmed.length >= 3) {
-      // Use debounced search with type filter
-      searchWithDebounce(trimmed, buildFilters(), 500);
-    } else if (trimmed.length > 0) {
-      // Clear previous results for short queries
-      clearSearch();
-    } else if (trimmed.length === 0) {
-      // Clear results when query is empty
+  // Debounced search whenever the term or filters change
+  useEffect(() => {
+    if (!canSearch) {
       clearSearch();
+      return;
     }
-  }, [searchWithDebounce, buildFilters, clearSearch]);
+    searchWithDebounce(fullQuery, { type: mapSearchTypeToBackendType(activeType) }, 500);
+  }, [canSearch, fullQuery, activeType, searchWithDebounce, clearSearch]);
 
-  // Handle search type change - trigger new search with type filter
+  // Handle search type change - search straight away rather than after the debounce
   const handleTypeChange = useCallback((type: SearchType) => {
     setActiveType(type);
-    if (searchQuery.trim().length >= 3) {
-      search(searchQuery.trim(), buildFilters());
+    if (canSearch) {
+      search(fullQuery, { type: mapSearchTypeToBackendType(type) });
     }
-  }, [searchQuery, search, buildFilters]);
-
-  useEffect(() => {
-    if (searchQuery.trim().length >= 3) {
-      search(searchQuery.trim(), buildFilters());
-    }
-  }, [buildFilters, searchQuery, search]);
+  }, [canSearch, fullQuery, search]);
 
   // Fluid nav: Scroll-to-top handler
   const handleScrollToTop = useCallback(() => {
@@ -691,126 +669,161 @@ export default function SearchScreen(): React.ReactElement {
     scrollY.value = 0;
   }, [scrollY]);
 
-  // Handle search submission
+  // Handle search submission - filters typed into the box become chips
   const handleSearchSubmit = useCallback(() => {
-    const trimmed = searchQuery.trim();
-    if (trimmed.length >= 3) {
-      const backendType = mapSearchTypeToBackendType(activeType);
-      search(trimmed, { type: backendType });
+    const parsed = parseSearchQuery(fullQuery);
+    const query = buildSearchQuery(parsed.term, parsed.filters);
+    setSearchQuery(parsed.term);
+    setFilters(parsed.filters);
+    if (parsed.term.length >= minQueryLength || hasSearchFilters(parsed.filters)) {
+      search(query, { type: mapSearchTypeToBackendType(activeType) });
+      void addToHistory(query);
     }
-  }, [searchQuery, activeType, search]);
+  }, [fullQuery, activeType, search, minQueryLength, addToHistory]);
+
+  const rememberSearch = useCallback(() => {
+    void addToHistory(fullQuery);
+  }, [addToHistory, fullQuery]);
+
+  const handleSaveSearch = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    void pinSearch(fullQuery);
+    showSuccess('Search saved', 'Pinned to your recent searches');
+  }, [fullQuery, pinSearch, showSuccess]);
+
+  const handleShareSearch = useCallback(async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    const url = getSearchShareLink(fullQuery);
+    try {
+      await Share.share({ message: `Search Fomio for "${fullQuery}": ${url}`, url });
+    } catch (error) {
+      console.error('Failed to share search:', error);
+    }
+  }, [fullQuery]);
+
+  const handleSelectSuggestion = useCallback((suggestion: SearchSuggestion) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    switch (suggestion.type) {
+      case 'history':
+        // The search itself runs from the query effect above
+        applyQuery(suggestion.query);
+        void addToHistory(suggestion.query);
+        return;
+      case 'byte':
+        rememberSearch();
+        router.push(`/feed/${suggestion.id}` as any);
+        return;
+      case 'user':
+        rememberSearch();
+        goToProfile(suggestion.username);
+        return;
+      case 'teret':
+        rememberSearch();
+        router.push(`/teret/${suggestion.slug}` as any);
+        return;
+      case 'tag':
+        rememberSearch();
+        goToTag(suggestion.name);
+        return;
+    }
+  }, [addToHistory, applyQuery, rememberSearch]);
+
+  const suggestionProps = {
+    suggestions: suggestionSections,
+    isLoadingSuggestions,
+    onSelectSuggestion: handleSelectSuggestion,
+    onRemoveHistory: removeFromHistory,
+    onTogglePinHistory: togglePin,
+    onClearHistory: clearHistory,
+  };
 
-  // Show search results if there's a query
-  if (searchQuery.trim().length >= 3) {
-    return (
-      <SafeAreaView 
-        className="flex-1"
-        style={{ backgroundColor: colors.background }}
-      >
+  const toolbarButtonStyle = {
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    backgroundColor: colors.card,
+    borderColor: colors.border,
+    borderWidth: 1,
+  };
+
+  return (
+    <SafeAreaView
+      className="flex-1"
+      style={{ backgroundColor: colors.background }}
+    >
       <SearchInput
         value={searchQuery}
-        onChangeText={handleSearch}
+        onChangeText={setSearchQuery}
         onSubmitEditing={handleSearchSubmit}
+        {...suggestionProps}
       />
 
       <SearchTypeTabs
         activeType={activeType}
         onChange={handleTypeChange}
-        availableTypes={availableTypes}
+        availableTypes={canSearch ? availableTypes : undefined}
       />
 
-      <View style={{ paddingHorizontal: 12, paddingBottom: 6 }}>
+      <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8, paddingHorizontal: 12, paddingBottom: 6 }}>
         <TouchableOpacity
           onPress={() => setShowFilters((prev) => !prev)}
-          style={{
-            alignSelf: 'flex-start',
-            paddingHorizontal: 12,
-            paddingVertical: 6,
-            borderRadius: 999,
-            backgroundColor: colors.card,
-            borderColor: colors.border,
-            borderWidth: 1,
-          }}
+          style={toolbarButtonStyle}
           accessibilityRole="button"
           accessibilityLabel={showFilters ? 'Hide filters' : 'Show filters'}
         >
+          <SlidersHorizontal size={14} color={colors.foreground} />
           <Text style={{ color: colors.foreground, fontSize: 12, fontWeight: '600' }}>
-            {showFilters ? 'Hide filters' : 'Filters'}
+            {showFilters ? 'Hide filters' : filterChips.length > 0 ? `Filters (${filterChips.length})` : 'Filters'}
           </Text>
         </TouchableOpacity>
+
+        {canSearch && (
+          <>
+            <TouchableOpacity
+              onPress={handleSaveSearch}
+              style={toolbarButtonStyle}
+              accessibilityRole="button"
+              accessibilityLabel="Save search"
+            >
+              <PushPin size={14} color={colors.foreground} />
+              <Text style={{ color: colors.foreground, fontSize: 12, fontWeight: '600' }}>Save</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleShareSearch}
+              style={toolbarButtonStyle}
+              accessibilityRole="button"
+              accessibilityLabel="Share search link"
+            >
+              <ShareNetwork size={14} color={colors.foreground} />
+              <Text style={{ color: colors.foreground, fontSize: 12, fontWeight: '600' }}>Share</Text>
+            </TouchableOpacity>
+          </>
+        )}
       </View>
 
-      {showFilters && (
+      {filterChips.length > 0 && (
         <View style={{ paddingHorizontal: 12, paddingBottom: 8 }}>
-          <FilterSection title="Order">
-            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
-              {(['relevance', 'latest', 'views', 'likes', 'created', 'updated'] as SearchOrder[]).map((option) => (
-                <FilterChip
-                  key={option}
-                  label={option}
-                  selected={order === option}
-                  onPress={() => setOrder(option)}
-                />
-              ))}
-            </ScrollView>
-          </FilterSection>
-
-          <FilterSection title="Period">
-            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
-              {(['all', 'yearly', 'quarterly', 'monthly', 'weekly', 'daily'] as SearchPeriod[]).map((option) => (
-                <FilterChip
-                  key={option}
-                  label={option}
-                  selected={period === option}
-                  onPress={() => setPeriod(option)}
-                />
-              ))}
-            </ScrollView>
-          </FilterSection>
-
-          <FilterSection title="Status">
-            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
-              {(['open', 'closed', 'archived', 'visible', 'hidden'] as SearchStatus[]).map((option) => (
-                <FilterChip
-                  key={option}
-                  label={option}
-                  selected={status === option}
-                  onPress={() => setStatus(status === option ? null : option)}
-                />
-              ))}
-            </ScrollView>
-          </FilterSection>
-
-          <FilterSection title="Category">
-            <Input
-              value={category}
-              onChangeText={setCategory}
-              placeholder="Category slug"
-              accessibilityLabel="Category filter"
-            />
-          </FilterSection>
-
-          <FilterSection title="Author">
-            <Input
-              value={author}
-              onChangeText={setAuthor}
-              placeholder="Username"
-              accessibilityLabel="Author filter"
-            />
-          </FilterSection>
-
-          <FilterSection title="Tags">
-            <Input
-              value={tags}
-              onChangeText={setTags}
-              placeholder="tag1, tag2"
-              accessibilityLabel="Tags filter"
-            />
-          </FilterSection>
+          <SearchFilterChips
+            chips={filterChips}
+            onRemove={(chipId) => setFilters((current) => removeSearchFilter(current, chipId))}
+          />
         </View>
       )}
 
-        <SearchResults 
+      {showFilters && (
+        <SearchFilterBuilder
+          filters={filters}
+          onChange={setFilters}
+          terets={terets}
+          canFilterOwnActivity={!!user}
+        />
+      )}
+
+      {canSearch ? (
+        <SearchResults
           results={results ? {
             bytes: results.bytes || [],
             comments: results.comments || [],
@@ -821,34 +834,21 @@ export default function SearchScreen(): React.ReactElement {
           isLoading={isSearchLoading}
           hasError={hasSearchError}
           onRetry={retrySearch}
-          searchQuery={searchQuery}
+          searchQuery={fullQuery}
+          minQueryLength={minQueryLength}
           activeType={activeType}
           errorMessage={searchError || undefined}
           scrollHandler={animatedScrollHandler}
           onRef={(ref) => { flatListRef.current = ref; }}
+          onResultOpen={rememberSearch}
+          hasMore={hasMore}
+          isLoadingMore={isLoadingMore}
+          onLoadMore={loadMore}
         />
-      </SafeAreaView>
-    );
-  }
-
-  // Empty state with placeholder cards
-  return (
-    <SafeAreaView 
-      className="flex-1"
-      style={{ backgroundColor: colors.background }}
-    >
-      <SearchInput
-        value={searchQuery}
-        onChangeText={handleSearch}
-        onSubmitEditing={handleSearchSubmit}
-      />
-
-      <SearchTypeTabs
-        activeType={activeType}
-        onChange={handleTypeChange}
-      />
-
-      <EmptyStateCards />
+      ) : (
+        // Empty state with placeholder cards
+        <EmptyStateCards />
+      )}
     </SafeAreaView>
   );
 }
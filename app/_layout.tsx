@@ -8,8 +8,11 @@ import * as SplashScreen from 'expo-splash-screen';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { BottomSheetModalProvider } from '@gorhom/bottom-sheet';
 import { PersistQueryClientProvider } from '@tanstack/react-query-persist-client';
+import { useQueryClient } from '@tanstack/react-query';
 import { KeyboardProvider } from 'react-native-keyboard-controller';
-import { queryClient, asyncStoragePersister } from '@/shared/query-client';
+import { getAccountQueryClient, getAccountQueryPersister } from '@/shared/query-client';
+import { useAccounts, useAccountStore } from '@/shared/accounts';
+import { useBookmarkStore } from '@/shared/useBookmarkSync';
 import '../global.css';
 import { FoldingFeatureProvider } from '@logicwind/react-native-fold-detection';
 
@@ -17,7 +20,10 @@ import { ThemeProvider, useTheme } from '@/components/theme';
 import { AuthProvider, useAuth } from '@/shared/auth-context';
 import { attachIntentReplay } from '@/shared/intent-replay';
 import { useIntentReplay } from '@/shared/hooks/useIntentReplay';
+import { useMessageBus } from '@/shared/message-bus';
+import { usePushNotifications } from '@/shared/usePushNotifications';
 import { discourseApi } from '@/shared/discourseApi';
+import { offlineManager } from '@/shared/offline-support';
 import { logger } from '@/shared/logger';
 import { handleDeepLink, isFomioDeepLink } from '@/lib/deep-link-handler';
 import * as Linking from 'expo-linking';
@@ -110,18 +116,33 @@ export default function RootLayout(): React.ReactElement | null {
     }
   }, [error]);
 
+  // The active account decides which site, credentials and query cache the app uses
+  const { activeAccountId, isLoaded: accountsLoaded } = useAccounts();
+  useEffect(() => {
+    useAccountStore.getState().load();
+  }, []);
+
+  // Saved bookmarks are remembered per account
+  useEffect(() => {
+    if (accountsLoaded) {
+      useBookmarkStore.getState().load(activeAccountId);
+    }
+  }, [accountsLoaded, activeAccountId]);
+
   // Don't block rendering if fonts fail to load
-  if (!loaded && !error) {
+  if ((!loaded && !error) || !accountsLoaded) {
     return null;
   }
 
+  // Keyed by account so switching accounts remounts the app against that account's cache
   return (
     <GestureHandlerRootView style={{ flex: 1 }}>
       <KeyboardProvider>
         <PersistQueryClientProvider
-          client={queryClient}
+          key={activeAccountId ?? 'guest'}
+          client={getAccountQueryClient(activeAccountId)}
           persistOptions={{
-            persister: asyncStoragePersister,
+            persister: getAccountQueryPersister(activeAccountId),
             maxAge: 24 * 60 * 60 * 1000, // 24 hours
             buster: '1.0.0', // Increment to invalidate cache on app updates
           }}
@@ -146,6 +167,7 @@ export default function RootLayout(): React.ReactElement | null {
 function RootLayoutNav(): React.ReactElement {
   const { navigationTheme } = useTheme();
   const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const queryClient = useQueryClient();
   const insets = useSafeAreaInsets();
   const isInitializedRef = useRef(false);
   const [initialUrl, setInitialUrl] = useState<string | null>(null);
@@ -155,6 +177,12 @@ function RootLayoutNav(): React.ReactElement {
   // This listens for auth:signed-in and replays any pending navigation intent
   useIntentReplay();
 
+  // Live updates (new Bytes, replies, notifications) over Discourse MessageBus
+  useMessageBus();
+
+  // Push notifications through the relay at DISCOURSE_PUSH_URL
+  usePushNotifications();
+
   // Capture initial URL immediately on mount (before auth loads)
   // This prevents race conditions where the initial URL is missed
   useEffect(() => {
@@ -217,10 +245,30 @@ function RootLayoutNav(): React.ReactElement {
 
     return () => {
       subscription.remove();
-      // Don't reset global flag on cleanup - prevents re-initialization on foldable changes
+      // The listener is gone, so let the next run (or remount after an account switch) add it again
+      deepLinkInitialized = false;
+      isInitializedRef.current = false;
     };
   }, [authLoading, isAuthenticated, initialUrl]);
 
+  // Start the offline outbox once auth is known, and refresh cached data after it replays
+  useEffect(() => {
+    if (authLoading || !isAuthenticated) {
+      return;
+    }
+
+    offlineManager.initialize().catch((error) => {
+      logger.error('Failed to initialize offline outbox', error);
+    });
+
+    return offlineManager.addSyncListener((result) => {
+      if (result.actionsProcessed > 0) {
+        queryClient.invalidateQueries({ queryKey: ['topic'] });
+        queryClient.invalidateQueries({ queryKey: ['feed'] });
+      }
+    });
+  }, [authLoading, isAuthenticated, queryClient]);
+
   // Set up intent replay for anonymous user actions
   useEffect(() => {
     const unsubscribe = attachIntentReplay({
@@ -384,7 +432,9 @@ function RootLayoutContent({ insets }: { insets: { top: number } }): React.React
           <Stack.Screen name="(profile)" />
           <Stack.Screen name="feed" />
           <Stack.Screen name="teret" />
+          <Stack.Screen name="tag" />
           <Stack.Screen name="hub" />
+          <Stack.Screen name="messages" />
           <Stack.Screen name="(debug)" />
           <Stack.Screen name="auth/callback" />
           <Stack.Screen name="auth_redirect" />
@@ -9,11 +9,9 @@ import { UserApiKeyManager } from '../../shared/userApiKeyManager';
 import { hasUserApiKey, processAuthPayload } from '../../lib/auth';
 import { parseURLParameters } from '../../lib/auth-utils';
 import { getPendingIntent, clearPendingIntent } from '../../lib/pending-intent';
-import Constants from 'expo-constants';
+import { mapDiscourseUserToAppUser } from '../../shared/useAuth';
 import { setOnboardingCompleted } from '../../shared/onboardingStorage';
 
-const config = Constants.expoConfig?.extra || {};
-
 /**
  * Auth callback handler - FALLBACK ONLY
  * 
@@ -47,28 +45,7 @@ export default function AuthCallbackScreen() {
             logger.info('AuthCallbackScreen: Auth already complete, updating context and redirecting');
             
             // Update auth context with user data
-            const DISCOURSE_URL = config.DISCOURSE_BASE_URL || 'https://meta.fomio.app';
-            const username = userResponse.data.username || 'unknown';
-            const appUser = {
-              id: userResponse.data.id?.toString() || '0',
-              username: username,
-              name: userResponse.data.name || username || 'Unknown User',
-              email: userResponse.data.email || '',
-              avatar: userResponse.data.avatar_template
-                ? `${DISCOURSE_URL}${userResponse.data.avatar_template.replace('{size}', '120')}`
-                : '',
-              bio: userResponse.data.bio_raw || '',
-              followers: 0,
-              following: 0,
-              bytes: userResponse.data.topic_count || 0,
-              comments: userResponse.data.post_count || 0,
-              joinedDate: userResponse.data.created_at
-                ? new Date(userResponse.data.created_at).toLocaleDateString('en-US', {
-                    month: 'long',
-                    year: 'numeric',
-                  })
-                : 'Unknown',
-            };
+            const appUser = mapDiscourseUserToAppUser(userResponse.data);
             
             await setAuthenticatedUser(appUser);
             await setOnboardingCompleted();
@@ -102,28 +79,7 @@ export default function AuthCallbackScreen() {
             // Fetch and set user data
             const userResponse = await discourseApi.getCurrentUser();
             if (userResponse.success && userResponse.data) {
-              const DISCOURSE_URL = config.DISCOURSE_BASE_URL || 'https://meta.fomio.app';
-              const username = userResponse.data.username || 'unknown';
-              const appUser = {
-                id: userResponse.data.id?.toString() || '0',
-                username: username,
-                name: userResponse.data.name || username || 'Unknown User',
-                email: userResponse.data.email || '',
-                avatar: userResponse.data.avatar_template
-                  ? `${DISCOURSE_URL}${userResponse.data.avatar_template.replace('{size}', '120')}`
-                  : '',
-                bio: userResponse.data.bio_raw || '',
-                followers: 0,
-                following: 0,
-                bytes: userResponse.data.topic_count || 0,
-                comments: userResponse.data.post_count || 0,
-                joinedDate: userResponse.data.created_at
-                  ? new Date(userResponse.data.created_at).toLocaleDateString('en-US', {
-                      month: 'long',
-                      year: 'numeric',
-                    })
-                  : 'Unknown',
-              };
+              const appUser = mapDiscourseUserToAppUser(userResponse.data);
               
               await setAuthenticatedUser(appUser);
             }
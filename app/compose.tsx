@@ -2,6 +2,7 @@
 // - Frosted glass header with blur effect
 // - Premium components throughout (TeretChip, SegmentedControl, etc.)
 // - DraftStatusBadge for save feedback
+// - Drafts button to pick up another saved draft; a banner when this one was edited elsewhere
 // - PremiumPostButton with animations
 // - Clean visual hierarchy with micro-interactions
 // - Full image picker support
@@ -39,12 +40,16 @@ import { Button } from '@/components/ui/button';
 import { useTheme } from '@/components/theme';
 import { useTerets, Teret } from '@/shared/useTerets';
 import { useAuth } from '@/shared/auth-context';
-import { useDiscourseSettings } from '@/shared/useDiscourseSettings';
+import { useSiteSettings } from '@/shared/useSiteSettings';
+import { useTagSearch } from '@/shared/useTagSearch';
+import { readTagNames, validateTags } from '@/shared/tags';
+import { useUploads } from '@/shared/useUploads';
+import { UploadItem, getUploadMarkdown } from '@/shared/uploads';
 import { createTopic } from '@/lib/discourse';
 import { discourseApi } from '@/shared/discourseApi';
 import { useSettingsStorage } from '@/shared/useSettingsStorage';
 import { getTokens } from '@/shared/design/tokens';
-import { SignIn, Warning, X, Question } from 'phosphor-react-native';
+import { SignIn, Warning, X, Question, NotePencil } from 'phosphor-react-native';
 import {
   ComposeEditor,
   MediaGrid,
@@ -53,27 +58,46 @@ import {
   HelpSheet,
   DraftStatusBadge,
   PremiumPostButton,
+  TagPickerSheet,
+  TagsField,
 } from '@/components/compose';
 import { useSafeNavigation } from '@/shared/hooks/useSafeNavigation';
 import { TeretPickerSheet } from '@/components/terets/TeretPickerSheet';
 import { useToast } from '@/shared/form-validation';
+import { offlineManager } from '@/shared/offline-support';
+import { useEditByte } from '@/shared/mutations';
+import {
+  NEW_TOPIC_DRAFT_KEY,
+  DraftContent,
+  getDraftFingerprint,
+  getDraftOwner,
+  hasDraftChangedElsewhere,
+  isDraftConflict,
+  parseDraftContent,
+} from '@/shared/drafts';
+import { DraftConflictBanner } from '@/components/drafts/DraftConflictBanner';
 
 interface ValidationErrors {
   title?: string;
   content?: string;
   hub?: string;
+  tags?: string;
   general?: string;
 }
 
 const COMPOSE_DRAFT_META_KEY = 'compose_draft_meta_v1';
-const NEW_TOPIC_DRAFT_KEY = 'new_topic';
 const DEFAULT_HIT_SLOP = Platform.OS === 'ios' ? 16 : 20;
 
 export default function ComposeScreen(): React.ReactElement {
   const { isDark, isAmoled } = useTheme();
   const insets = useSafeAreaInsets();
   const { safeBack } = useSafeNavigation();
-  const params = useLocalSearchParams<{ draftKey?: string; draftSequence?: string; teret?: string }>();
+  const params = useLocalSearchParams<{
+    draftKey?: string;
+    draftSequence?: string;
+    teret?: string;
+    editTopicId?: string;
+  }>();
   const themeMode = useMemo(
     () => (isAmoled ? 'darkAmoled' : isDark ? 'dark' : 'light'),
     [isDark, isAmoled]
@@ -88,15 +112,23 @@ export default function ComposeScreen(): React.ReactElement {
     refreshTerets,
   } = useTerets();
   const { isAuthenticated, isLoading: isAuthLoading, user } = useAuth();
-  const { minTitle, minPost, loading: settingsLoading } = useDiscourseSettings();
+  const { settings: siteSettings, isLoading: settingsLoading } = useSiteSettings();
+  // A Byte is a new topic, so its body follows the first-post minimum
+  const minTitle = siteSettings.minTopicTitleLength;
+  const maxTitle = siteSettings.maxTopicTitleLength;
+  const minPost = siteSettings.minFirstPostLength;
+  const maxPost = siteSettings.maxPostLength;
+  const canTag = siteSettings.canTagTopics;
   const { pickImages, isPicking } = useImagePicker();
   const { settings, loading: settingsStorageLoading } = useSettingsStorage();
   const { showInfo } = useToast();
+  const editByte = useEditByte();
 
   // Editor state
   const [title, setTitle] = useState<string>('');
   const [body, setBody] = useState<string>('');
   const [selectedTeret, setSelectedTeret] = useState<Teret | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
   const [images, setImages] = useState<MediaItem[]>([]);
 
   // UI state
@@ -105,8 +137,8 @@ export default function ComposeScreen(): React.ReactElement {
   const [allowBack, setAllowBack] = useState(false);
   const [errors, setErrors] = useState<ValidationErrors>({});
   const [isTeretSheetOpen, setIsTeretSheetOpen] = useState(false);
+  const [isTagSheetOpen, setIsTagSheetOpen] = useState(false);
   const [isHelpSheetOpen, setIsHelpSheetOpen] = useState(false);
-  const [isUploadingImages, setIsUploadingImages] = useState(false);
   const [editorMode, setEditorMode] = useState<'write' | 'preview'>('write');
   const [draftKey, setDraftKey] = useState<string>(NEW_TOPIC_DRAFT_KEY);
   const [draftSequence, setDraftSequence] = useState<number>(0);
@@ -114,8 +146,49 @@ export default function ComposeScreen(): React.ReactElement {
   const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
   const [hasHydratedDraft, setHasHydratedDraft] = useState(false);
   const [draftError, setDraftError] = useState<string | null>(null);
+  // The version saved elsewhere while it conflicts with this one
+  const [draftConflict, setDraftConflict] = useState<{
+    content: DraftContent;
+    fingerprint: string;
+    sequence: number;
+  } | null>(null);
+  // Content last loaded or saved, to tell our own saves from someone else's
+  const baseFingerprintRef = useRef<string | null>(null);
   const autoSave = settings.autoSave;
 
+  // Uploads: finished files are listed in the media grid and written into the body
+  const insertUploadMarkdown = useCallback((markdown: string) => {
+    setBody((prev) => {
+      const sep = prev.trim().length === 0 ? '' : '\n\n';
+      return `${prev}${sep}${markdown}\n`;
+    });
+  }, []);
+
+  const handleUploaded = useCallback(
+    (item: UploadItem) => {
+      if (!item.result) return;
+      const upload = item.result;
+      setImages((prev) => [
+        ...prev,
+        {
+          uri: upload.url,
+          type: item.source.mimeType?.startsWith('video/') ? ('video' as const) : ('image' as const),
+        },
+      ]);
+      insertUploadMarkdown(getUploadMarkdown(upload));
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+    },
+    [insertUploadMarkdown]
+  );
+
+  const {
+    uploads,
+    isUploading: isUploadingImages,
+    startUploads,
+    retryUpload,
+    removeUpload,
+  } = useUploads({ onUploaded: handleUploaded });
+
   const paramDraftKey = useMemo(
     () => (typeof params?.draftKey === 'string' ? params.draftKey : undefined),
     [params]
@@ -128,6 +201,61 @@ export default function ComposeScreen(): React.ReactElement {
     return Number.isFinite(value) ? (value as number) : 0;
   }, [params]);
 
+  // Edit mode: compose is reused to edit a Byte you own
+  const editTopicId = useMemo(() => {
+    const value =
+      typeof params?.editTopicId === 'string' ? parseInt(params.editTopicId, 10) : NaN;
+    return Number.isFinite(value) ? value : undefined;
+  }, [params]);
+  const isEditing = editTopicId !== undefined;
+  const [isLoadingEdit, setIsLoadingEdit] = useState(isEditing);
+  const [editLoadError, setEditLoadError] = useState<string | null>(null);
+  const [editOriginal, setEditOriginal] = useState<{
+    postId: number;
+    title: string;
+    raw: string;
+    categoryId: number;
+    tags: string[];
+  } | null>(null);
+
+  const loadByteForEdit = useCallback(async () => {
+    if (editTopicId === undefined) return;
+    setIsLoadingEdit(true);
+    setEditLoadError(null);
+
+    const response = await discourseApi.getTopic(editTopicId, {
+      includeRaw: true,
+      trackVisit: false,
+    });
+    const firstPost = response.data?.post_stream?.posts?.[0];
+
+    if (!response.success || !response.data || !firstPost) {
+      setEditLoadError(response.error || 'Failed to load Byte');
+      setIsLoadingEdit(false);
+      return;
+    }
+
+    const original = {
+      postId: firstPost.id,
+      title: response.data.title || '',
+      raw: firstPost.raw || '',
+      categoryId: response.data.category_id || 0,
+      tags: readTagNames(response.data.tags),
+    };
+    setEditOriginal(original);
+    setTitle(original.title);
+    setBody(original.raw);
+    setTags(original.tags);
+    setSelectedTeret(terets.find((t) => t.id === original.categoryId) || null);
+    setIsLoadingEdit(false);
+  }, [editTopicId, terets]);
+
+  useEffect(() => {
+    if (!isEditing || teretsLoading || editOriginal) return;
+    if (isAuthLoading || !isAuthenticated) return;
+    void loadByteForEdit();
+  }, [isEditing, teretsLoading, editOriginal, isAuthLoading, isAuthenticated, loadByteForEdit]);
+
   // Deep link teret pre-selection
   const paramTeret = useMemo(
     () => (typeof params?.teret === 'string' ? params.teret : undefined),
@@ -150,6 +278,7 @@ export default function ComposeScreen(): React.ReactElement {
     title: '',
     body: '',
     teretId: 0,
+    tags: [] as string[],
     images: [] as MediaItem[],
     draftKey: NEW_TOPIC_DRAFT_KEY,
     draftSequence: 0,
@@ -193,15 +322,20 @@ export default function ComposeScreen(): React.ReactElement {
     }
   }, []);
 
-  const parseDraftContent = useCallback((rawDraft: any) => {
-    if (!rawDraft) return {};
-    if (typeof rawDraft === 'object') return rawDraft;
-    try {
-      return JSON.parse(rawDraft);
-    } catch {
-      return {};
-    }
-  }, []);
+  const applyDraftContent = useCallback(
+    (content: DraftContent) => {
+      if (content.title) setTitle(content.title);
+      if (content.raw) setBody(content.raw);
+      if (content.tags.length > 0) setTags(content.tags);
+      if (content.categoryId) {
+        const foundTeret = terets.find((t) => t.id === content.categoryId);
+        if (foundTeret) {
+          setSelectedTeret(foundTeret);
+        }
+      }
+    },
+    [terets]
+  );
 
   const hydrateDraft = useCallback(
     async (key: string, sequence: number) => {
@@ -230,18 +364,13 @@ export default function ComposeScreen(): React.ReactElement {
         }
 
         const payload = response.data;
-        const parsed = parseDraftContent(payload.draft || payload.data);
-
-        if (parsed.title) setTitle(parsed.title);
-        if (parsed.raw || parsed.reply) setBody(parsed.raw || parsed.reply || '');
-
-        const categoryId = parsed.category_id || payload.category_id;
-        if (categoryId) {
-          const foundTeret = terets.find((t) => t.id === categoryId);
-          if (foundTeret) {
-            setSelectedTeret(foundTeret);
-          }
-        }
+        const rawDraft = payload.draft || payload.data;
+        const parsed = parseDraftContent(rawDraft);
+        applyDraftContent({
+          ...parsed,
+          categoryId: parsed.categoryId || payload.category_id || null,
+        });
+        baseFingerprintRef.current = rawDraft ? getDraftFingerprint(rawDraft) : null;
 
         const nextKey = payload.draft_key || key;
         const nextSequence = payload.draft_sequence ?? payload.sequence ?? sequence;
@@ -256,9 +385,28 @@ export default function ComposeScreen(): React.ReactElement {
         setHasHydratedDraft(true);
       }
     },
-    [isAuthLoading, isAuthenticated, parseDraftContent, terets, persistDraftMeta]
+    [isAuthLoading, isAuthenticated, applyDraftContent, persistDraftMeta]
   );
 
+  // Picking another draft from the drafts screen returns here with new params
+  const loadedDraftParamsRef = useRef<string | null>(null);
+  useEffect(() => {
+    const nextParams = `${paramDraftKey ?? ''}:${paramDraftSequence}`;
+    const previousParams = loadedDraftParamsRef.current;
+    loadedDraftParamsRef.current = nextParams;
+    if (previousParams !== null && previousParams !== nextParams && paramDraftKey) {
+      setTitle('');
+      setBody('');
+      setTags([]);
+      setImages([]);
+      setSelectedTeret(null);
+      setDraftConflict(null);
+      setLastSavedAt(null);
+      baseFingerprintRef.current = null;
+      setHasHydratedDraft(false);
+    }
+  }, [paramDraftKey, paramDraftSequence]);
+
   useEffect(() => {
     if (paramDraftKey) {
       setDraftKey(paramDraftKey);
@@ -284,7 +432,7 @@ export default function ComposeScreen(): React.ReactElement {
   }, [paramDraftKey, paramDraftSequence]);
 
   useEffect(() => {
-    if (hasHydratedDraft) return;
+    if (hasHydratedDraft || isEditing) return;
     if (teretsLoading || isAuthLoading || !isAuthenticated) return;
 
     const keyToLoad = paramDraftKey || draftKey || NEW_TOPIC_DRAFT_KEY;
@@ -299,6 +447,7 @@ export default function ComposeScreen(): React.ReactElement {
     paramDraftSequence,
     hydrateDraft,
     hasHydratedDraft,
+    isEditing,
     teretsLoading,
     isAuthLoading,
     isAuthenticated,
@@ -319,21 +468,27 @@ export default function ComposeScreen(): React.ReactElement {
       title,
       body,
       teretId: selectedTeret?.id || 0,
+      tags,
       images,
       draftKey,
       draftSequence,
     };
-  }, [title, body, selectedTeret, images, draftKey, draftSequence]);
+  }, [title, body, selectedTeret, tags, images, draftKey, draftSequence]);
 
   const saveDraftIfNeeded = useCallback(
-    async (reason: 'blur' | 'manual' | 'cancel' | 'debounce' = 'manual') => {
+    async (reason: 'blur' | 'manual' | 'cancel' | 'debounce' = 'manual', forceSave = false) => {
       if (isAuthLoading || !isAuthenticated) return;
+      // Edits are saved straight to the post, never as drafts
+      if (isEditing) return;
       if (!autoSave && reason !== 'manual') return;
+      // Nothing is saved over a conflicting draft until the user picks a version
+      if (draftConflict && !forceSave) return;
 
       const {
         title: latestTitle,
         body: latestBody,
         teretId,
+        tags: latestTags,
         images: latestImages,
         draftKey: latestKey,
         draftSequence: latestSequence,
@@ -355,23 +510,54 @@ export default function ComposeScreen(): React.ReactElement {
           setDraftSequence(0);
           await clearDraftMeta();
         }
+        baseFingerprintRef.current = null;
         return;
       }
 
       setIsSavingDraft(true);
       setDraftError(null);
 
-      const response = await discourseApi.saveDraft({
-        draftKey: latestKey || NEW_TOPIC_DRAFT_KEY,
+      const saveKey = latestKey || NEW_TOPIC_DRAFT_KEY;
+      const draft = {
+        title: trimmedTitle,
+        raw: trimmedBody,
+        category_id: teretId || undefined,
+        tags: latestTags.length > 0 ? latestTags : undefined,
+      };
+      const owner = await getDraftOwner();
+      let response = await discourseApi.saveDraft({
+        draftKey: saveKey,
         sequence: latestSequence,
-        draft: {
-          title: trimmedTitle,
-          raw: trimmedBody,
-          category_id: teretId || undefined,
-        },
+        draft,
+        owner,
+        forceSave,
       });
 
+      if (isDraftConflict(response)) {
+        const current = await discourseApi.getDraft({ draftKey: saveKey });
+        const serverSequence =
+          current.data?.draft_sequence ?? current.data?.sequence ?? latestSequence;
+        if (current.success && hasDraftChangedElsewhere(baseFingerprintRef.current, current.data?.draft)) {
+          setDraftConflict({
+            content: parseDraftContent(current.data.draft),
+            fingerprint: getDraftFingerprint(current.data.draft),
+            sequence: serverSequence,
+          });
+          setIsSavingDraft(false);
+          return;
+        }
+        // Unchanged - it was only saved from another device or the web
+        response = await discourseApi.saveDraft({
+          draftKey: saveKey,
+          sequence: serverSequence,
+          draft,
+          owner,
+          forceSave: true,
+        });
+      }
+
       if (response.success) {
+        baseFingerprintRef.current = getDraftFingerprint(draft);
         const nextKey = response.data?.draft_key || latestKey || NEW_TOPIC_DRAFT_KEY;
         const nextSequence =
           response.data?.draft_sequence ??
@@ -390,9 +576,35 @@ export default function ComposeScreen(): React.ReactElement {
 
       setIsSavingDraft(false);
     },
-    [isAuthLoading, isAuthenticated, persistDraftMeta, clearDraftMeta, autoSave]
+    [isAuthLoading, isAuthenticated, isEditing, persistDraftMeta, clearDraftMeta, autoSave, draftConflict]
   );
 
+  const handleKeepMyDraft = useCallback(() => {
+    if (!draftConflict) return;
+    setDraftSequence(draftConflict.sequence);
+    latestDraftRef.current.draftSequence = draftConflict.sequence;
+    setDraftConflict(null);
+    void saveDraftIfNeeded('manual', true);
+  }, [draftConflict, saveDraftIfNeeded]);
+
+  const handleUseOtherDraft = useCallback(() => {
+    if (!draftConflict) return;
+    // Replace everything, including fields the other version left empty
+    setTitle(draftConflict.content.title);
+    setBody(draftConflict.content.raw);
+    setTags(draftConflict.content.tags);
+    applyDraftContent(draftConflict.content);
+    setDraftSequence(draftConflict.sequence);
+    latestDraftRef.current.draftSequence = draftConflict.sequence;
+    baseFingerprintRef.current = draftConflict.fingerprint;
+    setDraftConflict(null);
+  }, [draftConflict, applyDraftContent]);
+
+  const handleOpenDrafts = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    router.push('/(profile)/drafts?from=compose' as any);
+  }, []);
+
   // Debounced auto-save
   useEffect(() => {
     if (!autoSave || settingsStorageLoading || !hasHydratedDraft) return;
@@ -407,22 +619,88 @@ export default function ComposeScreen(): React.ReactElement {
     title,
     body,
     selectedTeret,
+    tags,
     images,
     saveDraftIfNeeded,
   ]);
 
+  const editChanges = useMemo(() => {
+    if (!isEditing || !editOriginal) return null;
+    const original = editOriginal;
+    const nextTitle = title.trim();
+    const nextRaw = body.trim();
+    const nextCategoryId = selectedTeret?.id ?? original.categoryId;
+    return {
+      title: nextTitle !== original.title.trim() ? nextTitle : undefined,
+      raw: nextRaw !== original.raw.trim() ? nextRaw : undefined,
+      categoryId: nextCategoryId !== original.categoryId ? nextCategoryId : undefined,
+      tags: tags.join(',') !== original.tags.join(',') ? tags : undefined,
+    };
+  }, [isEditing, editOriginal, title, body, selectedTeret, tags]);
+
+  const hasEditChanges =
+    !!editChanges &&
+    (editChanges.title !== undefined ||
+      editChanges.raw !== undefined ||
+      editChanges.categoryId !== undefined ||
+      editChanges.tags !== undefined);
+
+  // Tag groups are checked by the server; ask only when the Teret requires some
+  const { requiredGroup: unmetTagGroup } = useTagSearch('', {
+    categoryId: selectedTeret?.id,
+    selectedTags: tags,
+    enabled: canTag && (selectedTeret?.tagRules?.requiredGroups.length ?? 0) > 0,
+  });
+
+  const tagError = useMemo(
+    () =>
+      canTag
+        ? validateTags(tags, {
+            maxTags: siteSettings.maxTagsPerTopic,
+            maxTagLength: siteSettings.maxTagLength,
+            minimumTags: selectedTeret?.tagRules?.minimumTags,
+            requiredGroup: unmetTagGroup,
+          })
+        : null,
+    [canTag, tags, siteSettings.maxTagsPerTopic, siteSettings.maxTagLength, selectedTeret, unmetTagGroup]
+  );
+
+  useEffect(() => {
+    if (!tagError && errors.tags) {
+      setErrors((prev) => ({ ...prev, tags: undefined }));
+    }
+  }, [tagError, errors.tags]);
+
   // Post button enable logic
   const canPost = useMemo(() => {
     return (
       titleLen >= minTitle &&
+      titleLen <= maxTitle &&
       bodyLen >= minPost &&
-      selectedTeret !== null &&
+      bodyLen <= maxPost &&
+      // An edited Byte may sit in a Hub rather than a Teret - keep it there
+      (selectedTeret !== null || isEditing) &&
+      (!isEditing || hasEditChanges) &&
       isAuthenticated &&
       !isAuthLoading &&
       !isCreating &&
       !settingsLoading
     );
-  }, [titleLen, bodyLen, minTitle, minPost, selectedTeret, isAuthenticated, isAuthLoading, isCreating, settingsLoading]);
+  }, [
+    titleLen,
+    bodyLen,
+    minTitle,
+    maxTitle,
+    minPost,
+    maxPost,
+    selectedTeret,
+    isEditing,
+    hasEditChanges,
+    isAuthenticated,
+    isAuthLoading,
+    isCreating,
+    settingsLoading,
+  ]);
 
   const postDisabled = !canPost || isCreating || isUploadingImages;
   const hasStarted = titleLen > 0 || bodyLen > 0 || images.length > 0;
@@ -451,6 +729,7 @@ export default function ComposeScreen(): React.ReactElement {
     setDraftKey(NEW_TOPIC_DRAFT_KEY);
     setLastSavedAt(null);
     setHasHydratedDraft(false);
+    baseFingerprintRef.current = null;
     await clearDraftMeta();
   }, [draftKey, draftSequence, clearDraftMeta]);
 
@@ -505,6 +784,21 @@ export default function ComposeScreen(): React.ReactElement {
       return;
     }
 
+    if (bodyLen > maxPost) {
+      setErrors((prev) => ({
+        ...prev,
+        content: `Content must be at most ${maxPost} characters`,
+      }));
+      return;
+    }
+
+    if (tagError) {
+      setErrors((prev) => ({ ...prev, tags: tagError }));
+      return;
+    }
+
+    const topicTags = canTag && tags.length > 0 ? tags : undefined;
+
     try {
       await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
       setIsCreating(true);
@@ -514,6 +808,7 @@ export default function ComposeScreen(): React.ReactElement {
         title: title.trim(),
         raw: body.trim(),
         categoryId: selectedTeret.id,
+        tags: topicTags,
       });
 
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -524,12 +819,26 @@ export default function ComposeScreen(): React.ReactElement {
         setTitle('');
         setBody('');
         setSelectedTeret(null);
+        setTags([]);
         setImages([]);
         setPostSuccess(false);
         setAllowBack(true);
         requestAnimationFrame(() => safeBack());
       }, 1500);
     } catch (error: any) {
+      // fetch rejects with a TypeError when the device is offline - queue the Byte
+      // in the outbox instead of losing it
+      if (error instanceof TypeError) {
+        await offlineManager.queueAction(
+          'create_topic',
+          { title: title.trim(), raw: body.trim(), category: selectedTeret.id, tags: topicTags },
+          { priority: 'high', maxRetries: 5 }
+        );
+        showInfo('Saved offline', 'Your Byte will be posted when you reconnect.');
+        setAllowBack(true);
+        requestAnimationFrame(() => safeBack());
+        return;
+      }
       const errorMsg = error?.message || 'Failed to create post. Please try again.';
       setErrors({ general: errorMsg });
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
@@ -540,6 +849,9 @@ export default function ComposeScreen(): React.ReactElement {
     title,
     body,
     selectedTeret,
+    tags,
+    canTag,
+    tagError,
     isAuthenticated,
     isAuthLoading,
     titleLen,
@@ -548,73 +860,107 @@ export default function ComposeScreen(): React.ReactElement {
     minPost,
     safeBack,
     clearDraftAfterPost,
+    showInfo,
   ]);
 
-  const handleTeretPress = useCallback(() => {
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
-    setIsTeretSheetOpen(true);
-  }, []);
+  const handleSaveEdit = useCallback(async (): Promise<void> => {
+    if (editTopicId === undefined || !editOriginal || !editChanges) return;
 
-  const insertImageMarkdown = useCallback((urls: string[]) => {
-    if (!urls.length) return;
-
-    setBody((prev) => {
-      const sep = prev.trim().length === 0 ? '' : '\n\n';
-      const markdown = urls.map((url) => `![image](${url})`).join('\n\n');
-      return `${prev}${sep}${markdown}\n`;
-    });
-  }, []);
+    setErrors({});
+    setPostSuccess(false);
 
-  const handleAddImages = useCallback(async () => {
-    const pickedImages = await pickImages();
-    if (pickedImages.length === 0) return;
+    if (editChanges.categoryId !== undefined && !selectedTeret?.parent_category_id) {
+      setErrors((prev) => ({ ...prev, hub: 'Please select a Teret to move this Byte to' }));
+      return;
+    }
 
-    setIsUploadingImages(true);
+    if (titleLen < minTitle) {
+      setErrors((prev) => ({
+        ...prev,
+        title: `Title must be at least ${minTitle} characters`,
+      }));
+      return;
+    }
 
-    try {
-      const uploadedImages: Array<{ url: string; uri: string }> = [];
+    if (bodyLen < minPost) {
+      setErrors((prev) => ({
+        ...prev,
+        content: `Content must be at least ${minPost} characters`,
+      }));
+      return;
+    }
 
-      for (const image of pickedImages) {
-        try {
-          const mimeType = 'image/jpeg';
+    if (bodyLen > maxPost) {
+      setErrors((prev) => ({
+        ...prev,
+        content: `Content must be at most ${maxPost} characters`,
+      }));
+      return;
+    }
 
-          const result = await discourseApi.uploadImage({
-            uri: image.uri,
-            type: mimeType,
-            name: `image.jpg`,
-          });
+    if ((editChanges.tags !== undefined || editChanges.categoryId !== undefined) && tagError) {
+      setErrors((prev) => ({ ...prev, tags: tagError }));
+      return;
+    }
 
-          if (result.success && result.data?.url) {
-            uploadedImages.push({
-              url: result.data.url,
-              uri: image.uri,
-            });
-          }
-        } catch (error) {
-          console.error('Error uploading image:', error);
-        }
-      }
+    try {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      setIsCreating(true);
 
-      if (uploadedImages.length > 0) {
-        setImages((prev) => [
-          ...prev,
-          ...uploadedImages.map((img) => ({
-            uri: img.url,
-            type: 'image' as const,
-          })),
-        ]);
+      await editByte.mutateAsync({
+        topicId: editTopicId,
+        postId: editOriginal.postId,
+        ...editChanges,
+      });
 
-        const urls = uploadedImages.map((img) => img.url).filter(Boolean);
-        insertImageMarkdown(urls);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setPostSuccess(true);
 
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
-      }
-    } catch (error) {
-      console.error('Error in handleAddImages:', error);
+      setTimeout(() => {
+        setPostSuccess(false);
+        setAllowBack(true);
+        requestAnimationFrame(() => safeBack());
+      }, 1000);
+    } catch (error: any) {
+      setErrors({ general: error?.message || 'Failed to save changes. Please try again.' });
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
     } finally {
-      setIsUploadingImages(false);
+      setIsCreating(false);
     }
-  }, [pickImages, insertImageMarkdown]);
+  }, [
+    editTopicId,
+    editOriginal,
+    editChanges,
+    selectedTeret,
+    tagError,
+    titleLen,
+    bodyLen,
+    minTitle,
+    minPost,
+    editByte,
+    safeBack,
+  ]);
+
+  const handleTeretPress = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    setIsTeretSheetOpen(true);
+  }, []);
+
+  const handleTagsPress = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    setIsTagSheetOpen(true);
+  }, []);
+
+  const handleRemoveTag = useCallback((tag: string) => {
+    Haptics.selectionAsync().catch(() => {});
+    setTags((prev) => prev.filter((t) => t !== tag));
+  }, []);
+
+  const handleAddImages = useCallback(async () => {
+    const pickedImages = await pickImages();
+    if (pickedImages.length === 0) return;
+    startUploads(pickedImages, 'composer');
+  }, [pickImages, startUploads]);
 
   const handleSlashHelp = useCallback(() => {
     setIsHelpSheetOpen(true);
@@ -654,10 +1000,48 @@ export default function ComposeScreen(): React.ReactElement {
     [showInfo]
   );
 
-  const handleRemoveImage = useCallback((index: number) => {
-    setImages((prev) => prev.filter((_, i) => i !== index));
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
-  }, []);
+  // Uploads still in progress (or failed) are listed after the finished images
+  const mediaItems = useMemo<MediaItem[]>(
+    () => [
+      ...images,
+      ...uploads.map((upload) => ({
+        uri: upload.source.uri,
+        type: upload.source.mimeType?.startsWith('video/') ? ('video' as const) : ('image' as const),
+        uploadId: upload.id,
+        status: upload.status,
+        progress: upload.progress,
+        error: upload.error,
+      })),
+    ],
+    [images, uploads]
+  );
+
+  const handleRemoveImage = useCallback(
+    (index: number) => {
+      const item = mediaItems[index];
+      if (item?.uploadId) {
+        removeUpload(item.uploadId);
+      } else {
+        setImages((prev) => prev.filter((_, i) => i !== index));
+      }
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    },
+    [mediaItems, removeUpload]
+  );
+
+  const handleCancelUpload = useCallback(
+    (item: MediaItem) => {
+      if (item.uploadId) removeUpload(item.uploadId);
+    },
+    [removeUpload]
+  );
+
+  const handleRetryUpload = useCallback(
+    (item: MediaItem) => {
+      if (item.uploadId) retryUpload(item.uploadId);
+    },
+    [retryUpload]
+  );
 
   // Derive draft status
   const draftStatus = useMemo(() => {
@@ -705,7 +1089,7 @@ export default function ComposeScreen(): React.ReactElement {
           style={styles.headerButton}
           accessible
           accessibilityRole="button"
-          accessibilityLabel="Close compose"
+          accessibilityLabel={isEditing ? 'Close editor' : 'Close compose'}
         >
           <X size={22} color={iconColor} weight="bold" />
         </Pressable>
@@ -713,24 +1097,40 @@ export default function ComposeScreen(): React.ReactElement {
         {/* Title - Absolutely positioned for perfect centering */}
         <View style={styles.headerCenter}>
           <Text style={[styles.headerTitle, { color: isDark ? '#F5F5F7' : '#111111' }]}>
-            Create Byte
+            {isEditing ? 'Edit Byte' : 'Create Byte'}
           </Text>
         </View>
 
-        {/* Help button */}
-        <Pressable
-          onPress={() => {
-            setIsHelpSheetOpen(true);
-            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
-          }}
-          hitSlop={DEFAULT_HIT_SLOP}
-          style={styles.headerButton}
-          accessible
-          accessibilityRole="button"
-          accessibilityLabel="Show help"
-        >
-          <Question size={22} color={mutedColor} weight="bold" />
-        </Pressable>
+        <View style={styles.headerActions}>
+          {/* Drafts button */}
+          {!isEditing && isAuthenticated && (
+            <Pressable
+              onPress={handleOpenDrafts}
+              hitSlop={DEFAULT_HIT_SLOP}
+              style={styles.headerButton}
+              accessible
+              accessibilityRole="button"
+              accessibilityLabel="Show drafts"
+            >
+              <NotePencil size={22} color={mutedColor} weight="bold" />
+            </Pressable>
+          )}
+
+          {/* Help button */}
+          <Pressable
+            onPress={() => {
+              setIsHelpSheetOpen(true);
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+            }}
+            hitSlop={DEFAULT_HIT_SLOP}
+            style={styles.headerButton}
+            accessible
+            accessibilityRole="button"
+            accessibilityLabel="Show help"
+          >
+            <Question size={22} color={mutedColor} weight="bold" />
+          </Pressable>
+        </View>
       </View>
 
       {showDraftStatus && (
@@ -758,6 +1158,37 @@ export default function ComposeScreen(): React.ReactElement {
     );
   }
 
+  if (isEditing && isLoadingEdit && !editLoadError && isAuthenticated) {
+    return (
+      <ScreenContainer variant="card">
+        {renderFrostedHeader()}
+        <View style={styles.centerContent}>
+          <Text style={[styles.loadingText, { color: mutedColor }]}>
+            Loading Byte...
+          </Text>
+        </View>
+      </ScreenContainer>
+    );
+  }
+
+  if (editLoadError) {
+    return (
+      <ScreenContainer variant="card">
+        {renderFrostedHeader()}
+        <View style={styles.centerContent}>
+          <Warning size={48} color="#EF4444" weight="regular" />
+          <Text style={styles.errorTitle}>Failed to load Byte</Text>
+          <Text style={[styles.errorDescription, { color: mutedColor }]}>
+            {editLoadError}
+          </Text>
+          <Button onPress={loadByteForEdit} variant="default">
+            Retry
+          </Button>
+        </View>
+      </ScreenContainer>
+    );
+  }
+
   // Error state
   if (teretsError) {
     return (
@@ -819,6 +1250,17 @@ export default function ComposeScreen(): React.ReactElement {
         keyboardDismissMode="interactive"
         bottomOffset={insets.bottom + 100}
       >
+        {/* Draft edited on the web or another device */}
+        {draftConflict && (
+          <View style={styles.draftConflict}>
+            <DraftConflictBanner
+              theirs={draftConflict.content}
+              onKeepMine={handleKeepMyDraft}
+              onUseTheirs={handleUseOtherDraft}
+            />
+          </View>
+        )}
+
         {/* General Error Message */}
         {errors.general && (
           <Animated.View
@@ -851,6 +1293,7 @@ export default function ComposeScreen(): React.ReactElement {
           bodyError={bodyValidationMessage}
           selectedTeret={selectedTeret}
           onTeretPress={handleTeretPress}
+          categories={allCategories}
           onSlashHelp={handleSlashHelp}
           onSlashImage={handleSlashImage}
           onCommandExecuted={handleCommandExecuted}
@@ -858,12 +1301,29 @@ export default function ComposeScreen(): React.ReactElement {
           onModeChange={handleModeChange}
           minTitle={minTitle}
           minBody={minPost}
+          maxTitle={maxTitle}
         />
 
+        {/* Tags */}
+        {canTag && (
+          <TagsField
+            tags={tags}
+            maxTags={siteSettings.maxTagsPerTopic}
+            onPress={handleTagsPress}
+            onRemove={handleRemoveTag}
+            error={errors.tags}
+          />
+        )}
+
         {/* Media Grid */}
-        {images.length > 0 && (
+        {mediaItems.length > 0 && (
           <Animated.View entering={FadeIn.duration(200)}>
-            <MediaGrid media={images} onRemove={handleRemoveImage} />
+            <MediaGrid
+              media={mediaItems}
+              onRemove={handleRemoveImage}
+              onCancel={handleCancelUpload}
+              onRetry={handleRetryUpload}
+            />
           </Animated.View>
         )}
 
@@ -874,7 +1334,7 @@ export default function ComposeScreen(): React.ReactElement {
             style={styles.uploadingBanner}
           >
             <Text style={[styles.uploadingText, { color: mutedColor }]}>
-              Uploading images...
+              Uploading...
             </Text>
           </Animated.View>
         )}
@@ -933,7 +1393,10 @@ export default function ComposeScreen(): React.ReactElement {
             )}
           </View>
           <PremiumPostButton
-            onPress={handlePost}
+            onPress={isEditing ? handleSaveEdit : handlePost}
+            label={isEditing ? 'Save' : undefined}
+            loadingLabel={isEditing ? 'Saving...' : undefined}
+            successLabel={isEditing ? 'Saved!' : undefined}
             disabled={postDisabled}
             loading={isCreating}
             success={postSuccess}
@@ -957,6 +1420,20 @@ export default function ComposeScreen(): React.ReactElement {
         }}
       />
 
+      {/* Tag Picker Modal */}
+      {canTag && (
+        <TagPickerSheet
+          visible={isTagSheetOpen}
+          onClose={() => setIsTagSheetOpen(false)}
+          selectedTags={tags}
+          onChange={setTags}
+          categoryId={selectedTeret?.id}
+          maxTags={siteSettings.maxTagsPerTopic}
+          maxTagLength={siteSettings.maxTagLength}
+          canCreateTag={siteSettings.canCreateTag}
+        />
+      )}
+
       {/* Help Sheet Modal */}
       <HelpSheet
         visible={isHelpSheetOpen}
@@ -999,6 +1476,10 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   headerCenter: {
     position: 'absolute',
     left: 0,
@@ -1012,6 +1493,10 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     letterSpacing: -0.3,
   },
+  draftConflict: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
   statusBadgeInline: {
     left: 0,
     right: 0,
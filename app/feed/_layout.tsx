@@ -21,6 +21,14 @@ export default function FeedLayout(): React.ReactElement {
           animation: 'slide_from_right',
         }}
       />
+      <Stack.Screen
+        name="revisions/[postId]"
+        options={{
+          headerShown: false,
+          presentation: 'card',
+          animation: 'slide_from_right',
+        }}
+      />
     </Stack>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,397 @@
+/**
+ * Revision Viewer - Edit history of a post
+ *
+ * Route: /feed/revisions/{postId}
+ *
+ * Maps to Discourse: /posts/{id}/revisions/{n}.json
+ *
+ * UI Spec:
+ * - Opens on the latest revision; step back and forward through older ones
+ * - Shows who made the edit, when, and the edit reason
+ * - Raw markdown diff shown inline (removed then added lines) or side by side
+ */
+
+import React, { useState, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams } from 'expo-router';
+import { CaretLeft, CaretRight, Warning, ArrowClockwise } from 'phosphor-react-native';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '@/components/theme';
+import { useScreenHeader } from '@/shared/hooks/useScreenHeader';
+import { usePostRevision } from '@/shared/usePostRevision';
+import { DiffSegment, RevisionDiffRow } from '@/shared/revision-diff';
+import { formatRelativeTime } from '@/lib/utils/notifications';
+import { getThemeColors } from '@/shared/theme-constants';
+
+type DiffViewMode = 'inline' | 'side-by-side';
+
+const MONO_FONT = Platform.select({ ios: 'Menlo', default: 'monospace' });
+
+export default function RevisionViewerScreen(): React.ReactElement {
+  const { postId: postIdParam } = useLocalSearchParams<{ postId: string }>();
+  const postId = parseInt(postIdParam || '0', 10);
+  const { isDark, isAmoled } = useTheme();
+  const [requestedRevision, setRequestedRevision] = useState<number | 'latest'>('latest');
+  const [viewMode, setViewMode] = useState<DiffViewMode>('inline');
+
+  const { revision, isLoading, hasError, errorMessage, refetch } = usePostRevision(
+    postId || null,
+    requestedRevision
+  );
+
+  const themeColors = getThemeColors(isDark);
+  const colors = useMemo(
+    () => ({
+      background: isAmoled ? '#000000' : isDark ? '#18181b' : '#ffffff',
+      text: themeColors.foreground,
+      secondary: themeColors.secondary,
+      border: themeColors.border,
+      accent: themeColors.accent,
+      error: themeColors.destructive,
+      addedLine: isDark ? 'rgba(38, 166, 154, 0.16)' : 'rgba(0, 150, 136, 0.10)',
+      addedWord: isDark ? 'rgba(38, 166, 154, 0.40)' : 'rgba(0, 150, 136, 0.28)',
+      removedLine: isDark ? 'rgba(239, 68, 68, 0.16)' : 'rgba(239, 68, 68, 0.10)',
+      removedWord: isDark ? 'rgba(239, 68, 68, 0.40)' : 'rgba(239, 68, 68, 0.28)',
+      emptySide: isDark ? 'rgba(255, 255, 255, 0.03)' : 'rgba(0, 0, 0, 0.03)',
+    }),
+    [isAmoled, isDark, themeColors]
+  );
+
+  useScreenHeader({
+    title: 'Edit history',
+    canGoBack: true,
+    withSafeTop: false,
+    tone: 'bg',
+    compact: true,
+    titleFontSize: 18,
+  }, [isDark, isAmoled]);
+
+  const goToRevision = useCallback((next: number | null) => {
+    if (next === null) return;
+    Haptics.selectionAsync().catch(() => {});
+    setRequestedRevision(next);
+  }, []);
+
+  const renderSegments = useCallback(
+    (segments: DiffSegment[]) =>
+      segments.map((segment, index) => (
+        <Text
+          key={index}
+          style={
+            segment.kind === 'added'
+              ? { backgroundColor: colors.addedWord }
+              : segment.kind === 'removed'
+                ? { backgroundColor: colors.removedWord, textDecorationLine: 'line-through' }
+                : undefined
+          }
+        >
+          {segment.text}
+        </Text>
+      )),
+    [colors]
+  );
+
+  const renderLine = useCallback(
+    (segments: DiffSegment[] | null, side: 'before' | 'after', highlighted: boolean, key: string) => {
+      const lineBackground = !highlighted
+        ? undefined
+        : side === 'before'
+          ? colors.removedLine
+          : colors.addedLine;
+      return (
+        <Text
+          key={key}
+          style={[
+            styles.diffLine,
+            { color: colors.text, backgroundColor: segments ? lineBackground : colors.emptySide },
+          ]}
+        >
+          {/* A lone space keeps blank lines and missing sides one line tall */}
+          {segments && segments.length > 0 ? renderSegments(segments) : ' '}
+        </Text>
+      );
+    },
+    [colors, renderSegments]
+  );
+
+  const renderInlineRow = useCallback(
+    (row: RevisionDiffRow, index: number) => {
+      if (row.type === 'same') {
+        return renderLine(row.before, 'before', false, `${index}`);
+      }
+      return (
+        <View key={index}>
+          {row.before && renderLine(row.before, 'before', true, `${index}-before`)}
+          {row.after && renderLine(row.after, 'after', true, `${index}-after`)}
+        </View>
+      );
+    },
+    [renderLine]
+  );
+
+  const renderSideBySideRow = useCallback(
+    (row: RevisionDiffRow, index: number) => {
+      const highlighted = row.type !== 'same';
+      return (
+        <View key={index} style={styles.sideBySideRow}>
+          <View style={[styles.sideBySideCell, { borderRightColor: colors.border }]}>
+            {renderLine(row.before, 'before', highlighted, 'before')}
+          </View>
+          <View style={styles.sideBySideCell}>
+            {renderLine(row.after, 'after', highlighted, 'after')}
+          </View>
+        </View>
+      );
+    },
+    [colors.border, renderLine]
+  );
+
+  if (isLoading && !revision) {
+    return (
+      <SafeAreaView edges={['bottom']} style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.text} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (hasError || !revision) {
+    return (
+      <SafeAreaView edges={['bottom']} style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={styles.centered}>
+          <Warning size={48} color={colors.error} />
+          <Text style={[styles.errorText, { color: colors.error }]}>
+            {errorMessage || 'Failed to load edit history'}
+          </Text>
+          <TouchableOpacity onPress={() => refetch()} style={styles.retryButton}>
+            <ArrowClockwise size={16} color={colors.error} />
+            <Text style={[styles.retryText, { color: colors.error }]}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const canGoPrevious = revision.previousRevision !== null && revision.previousRevision !== revision.revision;
+  const canGoNext = revision.nextRevision !== null && revision.nextRevision !== revision.revision;
+
+  return (
+    <SafeAreaView edges={['bottom']} style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Revision navigation */}
+      <View style={[styles.navBar, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity
+          onPress={() => goToRevision(revision.previousRevision)}
+          disabled={!canGoPrevious}
+          style={[styles.navButton, !canGoPrevious && styles.navButtonDisabled]}
+          accessible
+          accessibilityRole="button"
+          accessibilityLabel="Previous revision"
+          accessibilityState={{ disabled: !canGoPrevious }}
+        >
+          <CaretLeft size={20} color={colors.text} weight="bold" />
+        </TouchableOpacity>
+        <View style={styles.navCenter}>
+          <Text style={[styles.navTitle, { color: colors.text }]}>
+            Version {revision.version} of {revision.versionCount}
+          </Text>
+          <Text style={[styles.navMeta, { color: colors.secondary }]} numberOfLines={1}>
+            @{revision.author.username} · {formatRelativeTime(revision.createdAt)}
+          </Text>
+        </View>
+        <TouchableOpacity
+          onPress={() => goToRevision(revision.nextRevision)}
+          disabled={!canGoNext}
+          style={[styles.navButton, !canGoNext && styles.navButtonDisabled]}
+          accessible
+          accessibilityRole="button"
+          accessibilityLabel="Next revision"
+          accessibilityState={{ disabled: !canGoNext }}
+        >
+          <CaretRight size={20} color={colors.text} weight="bold" />
+        </TouchableOpacity>
+      </View>
+
+      {/* View mode toggle */}
+      <View style={styles.modeToggle}>
+        {(['inline', 'side-by-side'] as DiffViewMode[]).map((mode) => {
+          const isActive = viewMode === mode;
+          return (
+            <TouchableOpacity
+              key={mode}
+              onPress={() => setViewMode(mode)}
+              style={[
+                styles.modeButton,
+                {
+                  borderColor: isActive ? colors.accent : colors.border,
+                  backgroundColor: isActive ? `${colors.accent}20` : 'transparent',
+                },
+              ]}
+              accessible
+              accessibilityRole="tab"
+              accessibilityState={{ selected: isActive }}
+            >
+              <Text style={[styles.modeText, { color: isActive ? colors.accent : colors.secondary }]}>
+                {mode === 'inline' ? 'Inline' : 'Side by side'}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {revision.editReason ? (
+          <Text style={[styles.editReason, { color: colors.secondary }]}>
+            “{revision.editReason}”
+          </Text>
+        ) : null}
+
+        {revision.titleDiff ? (
+          <View style={styles.section}>
+            <Text style={[styles.sectionLabel, { color: colors.secondary }]}>Title</Text>
+            <Text style={[styles.titleDiff, { color: colors.text }]}>
+              {renderSegments(revision.titleDiff)}
+            </Text>
+          </View>
+        ) : null}
+
+        <View style={styles.section}>
+          <Text style={[styles.sectionLabel, { color: colors.secondary }]}>Content</Text>
+          {revision.bodyRows.length === 0 ? (
+            <Text style={[styles.emptyText, { color: colors.secondary }]}>
+              No changes to the content in this revision
+            </Text>
+          ) : (
+            <View style={[styles.diffContainer, { borderColor: colors.border }]}>
+              {revision.bodyRows.map(viewMode === 'inline' ? renderInlineRow : renderSideBySideRow)}
+            </View>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  errorText: {
+    fontSize: 16,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    marginTop: 16,
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  navBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  navButton: {
+    padding: 10,
+  },
+  navButtonDisabled: {
+    opacity: 0.3,
+  },
+  navCenter: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  navTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  navMeta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  modeToggle: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  modeButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+  },
+  modeText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  editReason: {
+    fontSize: 14,
+    fontStyle: 'italic',
+    marginBottom: 16,
+  },
+  section: {
+    marginBottom: 20,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 8,
+  },
+  titleDiff: {
+    fontSize: 17,
+    fontWeight: '600',
+    lineHeight: 24,
+  },
+  emptyText: {
+    fontSize: 14,
+  },
+  diffContainer: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  diffLine: {
+    fontFamily: MONO_FONT,
+    fontSize: 13,
+    lineHeight: 19,
+    paddingHorizontal: 8,
+  },
+  sideBySideRow: {
+    flexDirection: 'row',
+  },
+  sideBySideCell: {
+    flex: 1,
+    borderRightWidth: StyleSheet.hairlineWidth,
+    borderRightColor: 'transparent',
+  },
+});
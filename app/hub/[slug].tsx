@@ -28,6 +28,7 @@ import { useLocalSearchParams, router, useFocusEffect } from 'expo-router';
 import { Folder, Warning, ArrowClockwise, TrendUp, Hash } from 'phosphor-react-native';
 import { useTheme } from '@/components/theme';
 import { useHeader } from '@/components/ui/header';
+import { CategoryNotificationButton } from '@/components/terets/CategoryNotificationButton';
 import { discourseApi } from '@/shared/discourseApi';
 import { logger } from '@/shared/logger';
 import { getThemeColors } from '@/shared/theme-constants';
@@ -235,6 +236,9 @@ export default function HubScreen(): React.ReactElement {
           title: hub.name,
           canGoBack: true,
           tone: 'bg',
+          rightActions: [
+            <CategoryNotificationButton key="notifications" categoryId={hub.id} categoryName={hub.name} />,
+          ],
         });
       } else {
         setHeader({
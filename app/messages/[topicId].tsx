@@ -0,0 +1,346 @@
+/**
+ * Conversation View - A single private message thread
+ *
+ * Deep link: fomio://messages/{topicId}
+ * Query param: ?folder=archive - Opened from the archive (offers "Move to Inbox")
+ *
+ * Maps to Discourse: Topic with archetype "private_message"
+ *
+ * UI Spec:
+ * - Messages in chronological order, rendered with CommentItem
+ * - Reply to the conversation or to a specific message with NewCommentInput
+ * - Header menu with archive / leave actions
+ */
+
+import React, { useState, useCallback, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+  TouchableOpacity,
+  FlatList,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, router } from 'expo-router';
+import { DotsThreeVertical, Warning, ArrowClockwise } from 'phosphor-react-native';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '@/components/theme';
+import { CommentItem, Comment } from '@/components/feed/CommentItem';
+import { NewCommentInput } from '@/components/feed/NewCommentInput';
+import { useScreenHeader } from '@/shared/hooks/useScreenHeader';
+import { useAuth } from '@/shared/auth-context';
+import { useTopic } from '@/shared/useTopic';
+import { useComments } from '@/shared/useComments';
+import { useArchiveMessage, useLeaveMessage } from '@/shared/mutations';
+import { formatRelativeTime } from '@/lib/utils/notifications';
+import { getThemeColors } from '@/shared/theme-constants';
+import { getMentionParticipants } from '@/shared/autocomplete';
+import { getReplyDraftKey } from '@/shared/drafts';
+
+interface ConversationMessage extends Comment {
+  postNumber: number;
+  username: string;
+}
+
+const stripHtml = (html: string) => html.replace(/<[^>]*>/g, '').trim();
+
+export default function ConversationScreen(): React.ReactElement {
+  const { topicId: topicIdParam, folder } = useLocalSearchParams<{ topicId: string; folder?: string }>();
+  const topicId = parseInt(topicIdParam || '0', 10);
+  const { isDark, isAmoled } = useTheme();
+  const { user } = useAuth();
+  const listRef = useRef<FlatList<ConversationMessage>>(null);
+  const [replyTo, setReplyTo] = useState<{ postNumber: number; username: string } | undefined>();
+
+  const { topic, isLoading: isTopicLoading, hasError, errorMessage, retry, refetch } = useTopic(topicId || null);
+  const {
+    comments,
+    isLoading: isCommentsLoading,
+    isRefreshing,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    refreshComments,
+    createComment,
+    likeComment,
+  } = useComments(topicId, { enabled: topicId > 0 });
+  const archiveMessage = useArchiveMessage();
+  const leaveMessage = useLeaveMessage();
+
+  const mode = isDark ? (isAmoled ? 'darkAmoled' : 'dark') : 'light';
+  const themeColors = getThemeColors(isDark);
+  const colors = useMemo(
+    () => ({
+      background: isAmoled ? '#000000' : isDark ? '#18181b' : '#ffffff',
+      text: themeColors.foreground,
+      secondary: themeColors.secondary,
+      error: themeColors.destructive,
+    }),
+    [isAmoled, isDark, themeColors]
+  );
+
+  // The opening message comes with the topic; replies come from the post stream
+  const messages = useMemo<ConversationMessage[]>(() => {
+    const firstPost = topic?.posts[0];
+    const opening: ConversationMessage[] = firstPost
+      ? [{
+          id: firstPost.id.toString(),
+          author: { name: firstPost.author.name, avatar: firstPost.author.avatar },
+          content: stripHtml(firstPost.content),
+          createdAt: formatRelativeTime(firstPost.createdAt),
+          likes: firstPost.likeCount,
+          postNumber: firstPost.number,
+          username: firstPost.author.username,
+        }]
+      : [];
+
+    const replies = comments.map((comment) => ({
+      id: comment.id.toString(),
+      author: { name: comment.author.name, avatar: comment.author.avatar },
+      content: stripHtml(comment.content),
+      createdAt: formatRelativeTime(comment.createdAt),
+      likes: comment.likeCount,
+      replyToPostNumber: comment.replyToPostNumber,
+      postNumber: comment.postNumber,
+      username: comment.author.username,
+    }));
+
+    return [...opening, ...replies];
+  }, [topic, comments]);
+
+  // Everyone who has posted, most recent first, for @mention suggestions
+  const participants = useMemo(
+    () => getMentionParticipants([topic?.posts[0]?.author, ...comments.map((comment) => comment.author)]),
+    [topic, comments]
+  );
+
+  const handleLeave = useCallback(() => {
+    if (!user?.username) return;
+    Alert.alert('Leave Conversation', 'You will no longer see new messages in this conversation.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Leave',
+        style: 'destructive',
+        onPress: () => {
+          leaveMessage.mutate(
+            { topicId, username: user.username },
+            {
+              onSuccess: () => router.back(),
+              onError: (error) => Alert.alert('Error', error.message),
+            }
+          );
+        },
+      },
+    ]);
+  }, [topicId, user?.username, leaveMessage]);
+
+  const handleArchive = useCallback(() => {
+    const archive = folder !== 'archive';
+    archiveMessage.mutate(
+      { topicId, archive },
+      {
+        onSuccess: () => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+          router.back();
+        },
+        onError: (error) => Alert.alert('Error', error.message),
+      }
+    );
+  }, [topicId, folder, archiveMessage]);
+
+  const menuButton = useMemo(() => (
+    <TouchableOpacity
+      key="conversation-menu"
+      onPress={() => {
+        Alert.alert('Conversation', undefined, [
+          {
+            text: folder === 'archive' ? 'Move to Inbox' : 'Archive',
+            onPress: handleArchive,
+          },
+          {
+            text: 'Leave Conversation',
+            style: 'destructive',
+            onPress: handleLeave,
+          },
+          { text: 'Cancel', style: 'cancel' },
+        ]);
+      }}
+      hitSlop={12}
+      className="p-2 rounded-full"
+      accessible
+      accessibilityRole="button"
+      accessibilityLabel="Conversation actions"
+    >
+      <DotsThreeVertical size={24} color={colors.text} weight="regular" />
+    </TouchableOpacity>
+  ), [folder, handleArchive, handleLeave, colors.text]);
+
+  useScreenHeader({
+    title: topic?.title || 'Message',
+    canGoBack: true,
+    withSafeTop: false,
+    tone: 'bg',
+    rightActions: [menuButton],
+    compact: true,
+    titleFontSize: 18,
+  }, [topic?.title, menuButton, isDark, isAmoled]);
+
+  const handleReply = useCallback((id: string) => {
+    const message = messages.find((m) => m.id === id);
+    if (!message) return;
+    setReplyTo({ postNumber: message.postNumber, username: message.username });
+  }, [messages]);
+
+  const handleLike = useCallback((id: string) => {
+    const commentId = parseInt(id, 10);
+    // The opening message isn't part of the comment stream
+    if (topic?.posts[0]?.id === commentId) return;
+    void likeComment(commentId);
+  }, [topic, likeComment]);
+
+  const handleSend = useCallback(async (text: string, replyToPostNumber?: number) => {
+    const result = await createComment(text, replyToPostNumber);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to send message');
+    }
+    setReplyTo(undefined);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+    setTimeout(() => listRef.current?.scrollToEnd({ animated: true }), 100);
+  }, [createComment]);
+
+  const handleRefresh = useCallback(async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    await Promise.all([refetch(), refreshComments()]);
+  }, [refetch, refreshComments]);
+
+  const renderItem = useCallback(
+    ({ item }: { item: ConversationMessage }) => (
+      <CommentItem
+        comment={item}
+        mode={mode}
+        onReply={handleReply}
+        onLike={handleLike}
+      />
+    ),
+    [mode, handleReply, handleLike]
+  );
+
+  const keyExtractor = useCallback((item: ConversationMessage) => item.id, []);
+
+  if ((isTopicLoading || isCommentsLoading) && messages.length === 0) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.text} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (hasError) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={styles.centered}>
+          <Warning size={48} color={colors.error} />
+          <Text style={[styles.errorText, { color: colors.error }]}>
+            {errorMessage || 'Failed to load conversation'}
+          </Text>
+          <TouchableOpacity onPress={retry} style={styles.retryButton}>
+            <ArrowClockwise size={16} color={colors.error} />
+            <Text style={[styles.retryText, { color: colors.error }]}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView edges={['bottom']} style={[styles.container, { backgroundColor: colors.background }]}>
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 0}
+      >
+        <FlatList
+          ref={listRef}
+          data={messages}
+          renderItem={renderItem}
+          keyExtractor={keyExtractor}
+          contentContainerStyle={styles.listContent}
+          onEndReached={hasMore ? loadMore : undefined}
+          onEndReachedThreshold={0.5}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={handleRefresh}
+              tintColor={colors.secondary}
+            />
+          }
+          ListFooterComponent={
+            isLoadingMore ? (
+              <View style={styles.footer}>
+                <ActivityIndicator size="small" color={colors.secondary} />
+              </View>
+            ) : null
+          }
+        />
+        <View style={styles.inputContainer}>
+          <NewCommentInput
+            inSheet={false}
+            placeholder="Write a message..."
+            replyTo={replyTo}
+            onSend={handleSend}
+            topicId={topicId}
+            participants={participants}
+            draftKey={topicId > 0 ? getReplyDraftKey(topicId) : undefined}
+          />
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  errorText: {
+    fontSize: 16,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    marginTop: 16,
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  footer: {
+    paddingVertical: 16,
+  },
+  inputContainer: {
+    paddingHorizontal: 12,
+    paddingTop: 8,
+    paddingBottom: 8,
+  },
+});
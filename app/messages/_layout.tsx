@@ -0,0 +1,31 @@
+/**
+ * Messages Layout - Stack navigation for private message routes
+ * 
+ * Deep link: fomio://messages/{topicId}
+ * Maps to Discourse: Topic with archetype "private_message"
+ */
+
+import { Stack } from 'expo-router';
+import { useTheme } from '@/components/theme';
+
+export default function MessagesLayout(): React.ReactElement {
+  const { isDark, isAmoled } = useTheme();
+
+  const colors = {
+    background: isAmoled ? '#000000' : isDark ? '#18181b' : '#ffffff',
+  };
+
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+        contentStyle: { backgroundColor: colors.background },
+        animation: 'slide_from_right',
+      }}
+    >
+      <Stack.Screen name="index" />
+      <Stack.Screen name="new" />
+      <Stack.Screen name="[topicId]" />
+    </Stack>
+  );
+}
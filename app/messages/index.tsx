@@ -0,0 +1,364 @@
+/**
+ * Messages Inbox - Private message conversations
+ *
+ * Deep link: fomio://messages
+ *
+ * Maps to Discourse: /topics/private-messages{,-sent,-archive}/{username}.json
+ *
+ * UI Spec:
+ * - Inbox / Sent / Archive segments
+ * - Conversation rows with participants, last activity and unread dot
+ * - Pull-to-refresh and infinite scroll
+ * - Long press for archive / leave actions
+ * - Compose button in the header
+ */
+
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+  TouchableOpacity,
+  FlatList,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { EnvelopeSimple, NotePencil, Warning, ArrowClockwise } from 'phosphor-react-native';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '@/components/theme';
+import { MessageRow } from '@/components/messages/MessageRow';
+import { useScreenHeader } from '@/shared/hooks/useScreenHeader';
+import { useAuth } from '@/shared/auth-context';
+import { useMessages } from '@/shared/useMessages';
+import { useArchiveMessage, useLeaveMessage } from '@/shared/mutations';
+import type { PrivateMessageFolder } from '@/shared/discourseApi';
+import type { MessageSummary } from '@/shared/adapters/topicToMessageSummary';
+import { getThemeColors } from '@/shared/theme-constants';
+
+const FOLDERS: { value: PrivateMessageFolder; label: string }[] = [
+  { value: 'inbox', label: 'Inbox' },
+  { value: 'sent', label: 'Sent' },
+  { value: 'archive', label: 'Archive' },
+];
+
+const EMPTY_TEXT: Record<PrivateMessageFolder, string> = {
+  inbox: 'Conversations you start or are invited to show up here.',
+  sent: 'Messages you send show up here.',
+  archive: 'Archived conversations show up here.',
+};
+
+export default function MessagesScreen(): React.ReactElement {
+  const { isDark, isAmoled } = useTheme();
+  const { user, isAuthenticated } = useAuth();
+  const [folder, setFolder] = useState<PrivateMessageFolder>('inbox');
+
+  const {
+    messages,
+    isLoading,
+    isRefreshing,
+    hasError,
+    errorMessage,
+    isLoadingMore,
+    loadMore,
+    refresh,
+  } = useMessages(user?.username, folder);
+  const archiveMessage = useArchiveMessage();
+  const leaveMessage = useLeaveMessage();
+
+  const themeColors = getThemeColors(isDark);
+  const colors = useMemo(
+    () => ({
+      background: isAmoled ? '#000000' : isDark ? '#18181b' : '#ffffff',
+      text: themeColors.foreground,
+      secondary: themeColors.secondary,
+      error: themeColors.destructive,
+      accent: themeColors.accent,
+      border: themeColors.border,
+    }),
+    [isAmoled, isDark, themeColors]
+  );
+
+  const handleCompose = useCallback(() => {
+    Haptics.selectionAsync().catch(() => {});
+    router.push('/messages/new' as any);
+  }, []);
+
+  const composeButton = useMemo(() => (
+    <TouchableOpacity
+      key="compose-message"
+      onPress={handleCompose}
+      hitSlop={12}
+      className="p-2 rounded-full"
+      accessible
+      accessibilityRole="button"
+      accessibilityLabel="New message"
+    >
+      <NotePencil size={22} color={colors.text} weight="regular" />
+    </TouchableOpacity>
+  ), [handleCompose, colors.text]);
+
+  useScreenHeader({
+    title: 'Messages',
+    canGoBack: true,
+    withSafeTop: false,
+    tone: 'bg',
+    rightActions: isAuthenticated ? [composeButton] : [],
+    compact: true,
+    titleFontSize: 20,
+  }, [isAuthenticated, isDark, isAmoled]);
+
+  const handleRefresh = useCallback(async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    await refresh();
+  }, [refresh]);
+
+  const handleFolderChange = useCallback((next: PrivateMessageFolder) => {
+    Haptics.selectionAsync().catch(() => {});
+    setFolder(next);
+  }, []);
+
+  const handleOpen = useCallback((message: MessageSummary) => {
+    router.push(`/messages/${message.id}?folder=${folder}` as any);
+  }, [folder]);
+
+  const handleActions = useCallback((message: MessageSummary) => {
+    if (!user?.username) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium).catch(() => {});
+
+    const isArchived = folder === 'archive';
+    Alert.alert(message.title, undefined, [
+      {
+        text: isArchived ? 'Move to Inbox' : 'Archive',
+        onPress: () => {
+          archiveMessage.mutate(
+            { topicId: message.id, archive: !isArchived },
+            { onError: (error) => Alert.alert('Error', error.message) }
+          );
+        },
+      },
+      {
+        text: 'Leave Conversation',
+        style: 'destructive',
+        onPress: () => {
+          leaveMessage.mutate(
+            { topicId: message.id, username: user.username },
+            { onError: (error) => Alert.alert('Error', error.message) }
+          );
+        },
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }, [folder, user?.username, archiveMessage, leaveMessage]);
+
+  const renderItem = useCallback(
+    ({ item }: { item: MessageSummary }) => (
+      <MessageRow
+        message={item}
+        currentUsername={user?.username}
+        onPress={() => handleOpen(item)}
+        onLongPress={() => handleActions(item)}
+      />
+    ),
+    [user?.username, handleOpen, handleActions]
+  );
+
+  const keyExtractor = useCallback((item: MessageSummary) => item.id.toString(), []);
+
+  const folderTabs = (
+    <View style={styles.folderRow}>
+      {FOLDERS.map(({ value, label }) => {
+        const isActive = folder === value;
+        return (
+          <TouchableOpacity
+            key={value}
+            onPress={() => handleFolderChange(value)}
+            style={[
+              styles.folderTab,
+              {
+                backgroundColor: isActive ? colors.accent : 'transparent',
+                borderColor: isActive ? colors.accent : colors.border,
+              },
+            ]}
+            accessibilityRole="tab"
+            accessibilityState={{ selected: isActive }}
+          >
+            <Text style={[styles.folderTabText, { color: isActive ? '#ffffff' : colors.secondary }]}>
+              {label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  // Signed out
+  if (!isAuthenticated) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={styles.emptyContainer}>
+          <EnvelopeSimple size={48} color={colors.secondary} />
+          <Text style={[styles.emptyTitle, { color: colors.text }]}>Sign in to see your messages</Text>
+          <TouchableOpacity
+            onPress={() => router.push('/(auth)/signin')}
+            style={[styles.primaryButton, { backgroundColor: colors.accent }]}
+          >
+            <Text style={styles.primaryButtonText}>Sign In</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.text} />
+        </View>
+      );
+    }
+
+    if (hasError) {
+      return (
+        <View style={styles.errorContainer}>
+          <Warning size={48} color={colors.error} />
+          <Text style={[styles.errorText, { color: colors.error }]}>
+            {errorMessage || 'Failed to load messages'}
+          </Text>
+          <TouchableOpacity onPress={refresh} style={styles.retryButton}>
+            <ArrowClockwise size={16} color={colors.error} />
+            <Text style={[styles.retryText, { color: colors.error }]}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <FlatList
+        data={messages}
+        renderItem={renderItem}
+        keyExtractor={keyExtractor}
+        contentContainerStyle={messages.length === 0 ? styles.emptyList : styles.listContent}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor={colors.secondary}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <EnvelopeSimple size={48} color={colors.secondary} />
+            <Text style={[styles.emptyTitle, { color: colors.text }]}>No messages</Text>
+            <Text style={[styles.emptyText, { color: colors.secondary }]}>{EMPTY_TEXT[folder]}</Text>
+          </View>
+        }
+        ListFooterComponent={
+          isLoadingMore ? (
+            <View style={styles.footer}>
+              <ActivityIndicator size="small" color={colors.secondary} />
+            </View>
+          ) : null
+        }
+      />
+    );
+  };
+
+  return (
+    <SafeAreaView edges={['bottom']} style={[styles.container, { backgroundColor: colors.background }]}>
+      {folderTabs}
+      {renderBody()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  folderRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  folderTab: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  folderTabText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  errorText: {
+    fontSize: 16,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    marginTop: 16,
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyList: {
+    flexGrow: 1,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  primaryButton: {
+    marginTop: 24,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 24,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  listContent: {
+    paddingBottom: 100,
+  },
+  footer: {
+    paddingVertical: 16,
+  },
+});
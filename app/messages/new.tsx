@@ -0,0 +1,355 @@
+/**
+ * New Message - Start a private conversation
+ *
+ * Query param: ?to={username} - Pre-fill the first recipient (e.g. from a profile)
+ * Query param: ?draftKey={key} - Resume a saved message draft (from the drafts screen)
+ *
+ * Maps to Discourse: POST /posts.json with archetype "private_message"
+ *
+ * UI Spec:
+ * - Recipient picker: search users, selected users shown as removable chips
+ * - Subject and message fields
+ * - Send button in the header; opens the new conversation on success
+ * - Kept in a Discourse draft while writing; the draft is deleted once sent
+ */
+
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+  ScrollView,
+  Image,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, router } from 'expo-router';
+import { PaperPlaneRight, X } from 'phosphor-react-native';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '@/components/theme';
+import { useScreenHeader } from '@/shared/hooks/useScreenHeader';
+import { useAuth } from '@/shared/auth-context';
+import { discourseApi, AppUser } from '@/shared/discourseApi';
+import { useSendMessage } from '@/shared/mutations';
+import { getTokens } from '@/shared/design/tokens';
+import { logger } from '@/shared/logger';
+import { useServerDraft } from '@/shared/useServerDraft';
+import { NEW_PRIVATE_MESSAGE_DRAFT_KEY } from '@/shared/drafts';
+import { DraftConflictBanner } from '@/components/drafts/DraftConflictBanner';
+
+const SEARCH_DELAY_MS = 300;
+const MIN_SEARCH_LENGTH = 2;
+
+export default function NewMessageScreen(): React.ReactElement {
+  const { to, draftKey } = useLocalSearchParams<{ to?: string; draftKey?: string }>();
+  const { isDark, isAmoled } = useTheme();
+  const { user } = useAuth();
+  const tokens = useMemo(
+    () => getTokens(isAmoled ? 'darkAmoled' : isDark ? 'dark' : 'light'),
+    [isAmoled, isDark]
+  );
+
+  const [recipients, setRecipients] = useState<string[]>(to ? [to] : []);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<AppUser[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const sendMessage = useSendMessage();
+
+  const hasContent = title.trim().length > 0 || body.trim().length > 0;
+  const messageDraft = useServerDraft({
+    draftKey: user ? draftKey || NEW_PRIVATE_MESSAGE_DRAFT_KEY : null,
+    draft: hasContent
+      ? { title, reply: body, recipients: recipients.join(','), action: 'privateMessage', archetypeId: 'private_message' }
+      : null,
+    onLoad: (content) => {
+      setTitle(content.title);
+      setBody(content.raw);
+      if (content.recipients.length > 0) {
+        // Keep a recipient passed in with ?to=
+        setRecipients((current) => Array.from(new Set([...current, ...content.recipients])));
+      }
+    },
+  });
+
+  // Debounced user search
+  useEffect(() => {
+    const term = query.trim().replace(/^@/, '');
+    if (term.length < MIN_SEARCH_LENGTH) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const response = await discourseApi.searchUsers(term, { limit: 10 });
+        if (cancelled) return;
+        setResults(response.success && response.data ? response.data.users : []);
+      } catch (error) {
+        logger.error('Recipient search failed', error);
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  // Hide yourself and people who are already added
+  const suggestions = useMemo(
+    () => results.filter((result) => result.username !== user?.username && !recipients.includes(result.username)),
+    [results, recipients, user?.username]
+  );
+
+  const addRecipient = useCallback((username: string) => {
+    Haptics.selectionAsync().catch(() => {});
+    setRecipients((current) => (current.includes(username) ? current : [...current, username]));
+    setQuery('');
+    setResults([]);
+  }, []);
+
+  const removeRecipient = useCallback((username: string) => {
+    setRecipients((current) => current.filter((name) => name !== username));
+  }, []);
+
+  const canSend = recipients.length > 0 && title.trim().length > 0 && body.trim().length > 0 && !sendMessage.isPending;
+
+  const handleSend = useCallback(() => {
+    if (!canSend) return;
+    sendMessage.mutate(
+      { title: title.trim(), raw: body.trim(), recipients },
+      {
+        onSuccess: (topicId) => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+          void messageDraft.discard();
+          router.replace(`/messages/${topicId}` as any);
+        },
+        onError: (error) => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
+          Alert.alert('Message not sent', error.message);
+        },
+      }
+    );
+  }, [canSend, title, body, recipients, sendMessage, messageDraft]);
+
+  const sendButton = useMemo(() => (
+    <TouchableOpacity
+      key="send-message"
+      onPress={handleSend}
+      disabled={!canSend}
+      hitSlop={12}
+      className="p-2 rounded-full"
+      accessible
+      accessibilityRole="button"
+      accessibilityLabel="Send message"
+      accessibilityState={{ disabled: !canSend }}
+    >
+      {sendMessage.isPending ? (
+        <ActivityIndicator size="small" color={tokens.colors.accent} />
+      ) : (
+        <PaperPlaneRight
+          size={22}
+          weight="fill"
+          color={canSend ? tokens.colors.accent : tokens.colors.muted}
+        />
+      )}
+    </TouchableOpacity>
+  ), [handleSend, canSend, sendMessage.isPending, tokens]);
+
+  useScreenHeader({
+    title: 'New Message',
+    canGoBack: true,
+    withSafeTop: false,
+    tone: 'bg',
+    rightActions: [sendButton],
+    compact: true,
+    titleFontSize: 20,
+  }, [canSend, sendMessage.isPending, isDark, isAmoled]);
+
+  const inputStyle = [styles.input, { color: tokens.colors.text, borderBottomColor: tokens.colors.border }];
+
+  return (
+    <SafeAreaView edges={['bottom']} style={[styles.container, { backgroundColor: tokens.colors.background }]}>
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView keyboardShouldPersistTaps="handled" contentContainerStyle={styles.content}>
+          {messageDraft.conflict && (
+            <DraftConflictBanner
+              theirs={messageDraft.conflict}
+              onKeepMine={() => void messageDraft.keepMine()}
+              onUseTheirs={messageDraft.takeTheirs}
+            />
+          )}
+          <View style={[styles.recipientRow, { borderBottomColor: tokens.colors.border }]}>
+            <Text style={[styles.label, { color: tokens.colors.muted }]}>To</Text>
+            {recipients.map((username) => (
+              <TouchableOpacity
+                key={username}
+                onPress={() => removeRecipient(username)}
+                style={[styles.chip, { backgroundColor: tokens.colors.accentSoft }]}
+                accessibilityRole="button"
+                accessibilityLabel={`Remove ${username}`}
+              >
+                <Text style={[styles.chipText, { color: tokens.colors.text }]}>@{username}</Text>
+                <X size={12} weight="bold" color={tokens.colors.muted} />
+              </TouchableOpacity>
+            ))}
+            <TextInput
+              value={query}
+              onChangeText={setQuery}
+              placeholder={recipients.length === 0 ? 'Search people' : 'Add more'}
+              placeholderTextColor={tokens.colors.muted}
+              autoCapitalize="none"
+              autoCorrect={false}
+              style={[styles.recipientInput, { color: tokens.colors.text }]}
+              accessibilityLabel="Search recipients"
+            />
+          </View>
+
+          {(isSearching || suggestions.length > 0) && (
+            <View style={[styles.suggestions, { borderColor: tokens.colors.border }]}>
+              {isSearching && suggestions.length === 0 ? (
+                <ActivityIndicator size="small" color={tokens.colors.muted} style={styles.searching} />
+              ) : (
+                suggestions.map((result) => (
+                  <TouchableOpacity
+                    key={result.username}
+                    onPress={() => addRecipient(result.username)}
+                    style={styles.suggestion}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Add ${result.name || result.username}`}
+                  >
+                    {result.avatar ? (
+                      <Image source={{ uri: result.avatar }} style={styles.suggestionAvatar} />
+                    ) : (
+                      <View style={[styles.suggestionAvatar, { backgroundColor: tokens.colors.accentSoft }]} />
+                    )}
+                    <View style={{ flex: 1, minWidth: 0 }}>
+                      <Text style={[styles.suggestionName, { color: tokens.colors.text }]} numberOfLines={1}>
+                        {result.name || result.username}
+                      </Text>
+                      <Text style={[styles.suggestionUsername, { color: tokens.colors.muted }]} numberOfLines={1}>
+                        @{result.username}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                ))
+              )}
+            </View>
+          )}
+
+          <TextInput
+            value={title}
+            onChangeText={setTitle}
+            placeholder="Subject"
+            placeholderTextColor={tokens.colors.muted}
+            style={inputStyle}
+            accessibilityLabel="Subject"
+          />
+          <TextInput
+            value={body}
+            onChangeText={setBody}
+            placeholder="Write your message..."
+            placeholderTextColor={tokens.colors.muted}
+            multiline
+            textAlignVertical="top"
+            style={[styles.input, styles.bodyInput, { color: tokens.colors.text }]}
+            accessibilityLabel="Message"
+          />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  recipientRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  label: {
+    fontSize: 15,
+    marginRight: 4,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 14,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  recipientInput: {
+    flex: 1,
+    minWidth: 100,
+    fontSize: 15,
+    paddingVertical: 4,
+  },
+  suggestions: {
+    borderWidth: 1,
+    borderRadius: 12,
+    marginTop: 8,
+    paddingVertical: 4,
+  },
+  searching: {
+    paddingVertical: 12,
+  },
+  suggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  suggestionAvatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+  },
+  suggestionName: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  suggestionUsername: {
+    fontSize: 12,
+  },
+  input: {
+    fontSize: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  bodyInput: {
+    minHeight: 200,
+    borderBottomWidth: 0,
+  },
+});
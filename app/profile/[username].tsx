@@ -17,7 +17,7 @@ import { useDiscourseUser } from '@/shared/useDiscourseUser';
 import { useAuth } from '@/shared/auth-context';
 import { discourseApi } from '@/shared/discourseApi';
 import { ProfileTabView } from '@/components/profile';
-import { useLocalSearchParams } from 'expo-router';
+import { useLocalSearchParams, router } from 'expo-router';
 import { ProfileSkeleton } from '@/components/profile/ProfileSkeleton';
 import { useToast } from '@/shared/form-validation';
 
@@ -158,10 +158,12 @@ export default function PublicProfileScreen(): React.ReactElement {
           'Actions',
           undefined,
           [
-            {
-              text: 'Message (coming soon)',
-              onPress: () => {},
-            },
+            ...(isAuthenticated && !isOwnProfile && user?.username
+              ? [{
+                  text: 'Message',
+                  onPress: () => router.push(`/messages/new?to=${encodeURIComponent(user.username)}` as any),
+                }]
+              : []),
             {
               text: 'Share (coming soon)',
               onPress: () => {},
@@ -188,7 +190,7 @@ export default function PublicProfileScreen(): React.ReactElement {
     >
       <DotsThreeVertical size={24} color={isDark ? '#f9fafb' : '#111827'} weight="regular" />
     </TouchableOpacity>
-  ), [user?.username, handleReport, handleBlock, isDark, safeBack]);
+  ), [user?.username, isAuthenticated, isOwnProfile, handleReport, handleBlock, isDark, safeBack]);
 
   // Configure header with dynamic title
   const displayName = user ? (user.name || user.username || 'Profile') : 'Profile';
@@ -0,0 +1,255 @@
+/**
+ * Tag View - Shows bytes with a tag
+ *
+ * Deep link: fomio://tag/{name}
+ *
+ * Maps to Discourse: Tag (/tag/{name}.json)
+ *
+ * UI Spec:
+ * - Header with #tag name
+ * - Feed of ByteCards, loading more as you scroll
+ * - Pull-to-refresh
+ * - Empty state when no bytes
+ */
+
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, router, useFocusEffect } from 'expo-router';
+import { Tag, Warning, ArrowClockwise } from 'phosphor-react-native';
+import Animated, { useAnimatedScrollHandler } from 'react-native-reanimated';
+import { useTheme } from '@/components/theme';
+import { useHeader } from '@/components/ui/header';
+import { ByteCard } from '@/components/bytes/ByteCard';
+import type { Byte } from '@/types/byte';
+import { useTagTopics } from '@/shared/useTagTopics';
+import { getThemeColors } from '@/shared/theme-constants';
+import { useAdaptiveContentLayout } from '@/shared/hooks/useAdaptiveContentLayout';
+import { useFluidNav } from '@/shared/navigation/fluidNavContext';
+import * as Haptics from 'expo-haptics';
+
+export default function TagScreen(): React.ReactElement {
+  const { name } = useLocalSearchParams<{ name: string }>();
+  const tagName = typeof name === 'string' ? name : undefined;
+  const { isDark, isAmoled } = useTheme();
+  const { setHeader, resetHeader, registerScrollHandler } = useHeader();
+  const { scrollY, setUpHandler } = useFluidNav();
+  const flatListRef = useRef<Animated.FlatList<any>>(null);
+
+  const { bytes, isLoading, isLoadingMore, hasError, errorMessage, hasMore, loadMore, refresh } =
+    useTagTopics(tagName);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const themeColors = getThemeColors(isDark);
+  const colors = useMemo(
+    () => ({
+      background: isAmoled ? '#000000' : isDark ? '#18181b' : '#ffffff',
+      text: themeColors.foreground,
+      secondary: themeColors.secondary,
+      error: themeColors.destructive,
+      accent: themeColors.accent,
+    }),
+    [isAmoled, isDark, themeColors]
+  );
+  const adaptiveLayout = useAdaptiveContentLayout();
+
+  // Header-aware scroll handler
+  const { onScroll: headerScrollHandler, unregister: unregisterHeaderScroll } = useMemo(
+    () => registerScrollHandler(() => {}),
+    [registerScrollHandler]
+  );
+
+  useEffect(() => unregisterHeaderScroll, [unregisterHeaderScroll]);
+
+  // Scroll handler for fluid nav
+  const scrollHandler = useAnimatedScrollHandler({
+    onScroll: (event) => {
+      scrollY.value = event.contentOffset.y;
+    },
+  });
+
+  // Register scroll-to-top handler
+  useEffect(() => {
+    const handleScrollUp = () => {
+      flatListRef.current?.scrollToOffset({ offset: 0, animated: true });
+    };
+    setUpHandler(handleScrollUp);
+    return () => setUpHandler(() => {});
+  }, [setUpHandler]);
+
+  // Configure header
+  useFocusEffect(
+    useCallback(() => {
+      setHeader({
+        title: tagName ? `#${tagName}` : 'Tag',
+        canGoBack: true,
+        tone: 'bg',
+      });
+      return () => resetHeader();
+    }, [tagName, setHeader, resetHeader])
+  );
+
+  // Handle refresh
+  const handleRefresh = useCallback(async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    setIsRefreshing(true);
+    await refresh();
+    setIsRefreshing(false);
+  }, [refresh]);
+
+  // Handle byte press
+  const handleBytePress = useCallback((byte: Byte) => {
+    router.push(`/feed/${byte.id}`);
+  }, []);
+
+  // Render byte item
+  const renderItem = useCallback(
+    ({ item }: { item: Byte }) => <ByteCard byte={item} onPress={() => handleBytePress(item)} />,
+    [handleBytePress]
+  );
+
+  const keyExtractor = useCallback((item: Byte) => item.id.toString(), []);
+
+  // Loading state
+  if (isLoading && !isRefreshing) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.text} />
+          <Text style={[styles.loadingText, { color: colors.secondary }]}>
+            Loading #{tagName}...
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  // Error state
+  if (hasError && bytes.length === 0) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={styles.errorContainer}>
+          <Warning size={48} color={colors.error} />
+          <Text style={[styles.errorText, { color: colors.error }]}>{errorMessage}</Text>
+          <TouchableOpacity onPress={refresh} style={styles.retryButton}>
+            <ArrowClockwise size={16} color={colors.error} />
+            <Text style={[styles.retryText, { color: colors.error }]}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  // Empty state
+  if (bytes.length === 0) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={styles.emptyContainer}>
+          <Tag size={48} color={colors.secondary} />
+          <Text style={[styles.emptyTitle, { color: colors.text }]}>No bytes yet</Text>
+          <Text style={[styles.emptyText, { color: colors.secondary }]}>
+            Nothing has been tagged #{tagName} yet
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <Animated.FlatList
+        ref={flatListRef}
+        data={bytes}
+        renderItem={renderItem}
+        keyExtractor={keyExtractor}
+        contentContainerStyle={[styles.listContent, adaptiveLayout.contentContainerStyle]}
+        showsVerticalScrollIndicator={false}
+        onScroll={scrollHandler}
+        scrollEventThrottle={16}
+        onEndReached={hasMore ? loadMore : undefined}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor={colors.secondary}
+          />
+        }
+        ListFooterComponent={
+          isLoadingMore ? (
+            <View style={styles.footer}>
+              <ActivityIndicator size="small" color={colors.secondary} />
+            </View>
+          ) : null
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  errorText: {
+    fontSize: 16,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    marginTop: 16,
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  listContent: {
+    paddingBottom: 100,
+  },
+  footer: {
+    paddingVertical: 24,
+    alignItems: 'center',
+  },
+});
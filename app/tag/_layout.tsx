@@ -0,0 +1,29 @@
+/**
+ * Tag Layout - Stack navigation for Tag routes
+ * 
+ * Deep link: fomio://tag/{name}
+ * Maps to Discourse: Tag
+ */
+
+import { Stack } from 'expo-router';
+import { useTheme } from '@/components/theme';
+
+export default function TagLayout(): React.ReactElement {
+  const { isDark, isAmoled } = useTheme();
+
+  const colors = {
+    background: isAmoled ? '#000000' : isDark ? '#18181b' : '#ffffff',
+  };
+
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+        contentStyle: { backgroundColor: colors.background },
+        animation: 'slide_from_right',
+      }}
+    >
+      <Stack.Screen name="[name]" />
+    </Stack>
+  );
+}
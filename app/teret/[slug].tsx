@@ -28,6 +28,7 @@ import { Hash, Warning, ArrowClockwise } from 'phosphor-react-native';
 import Animated, { useAnimatedScrollHandler } from 'react-native-reanimated';
 import { useTheme } from '@/components/theme';
 import { useHeader } from '@/components/ui/header';
+import { CategoryNotificationButton } from '@/components/terets/CategoryNotificationButton';
 import { ByteCard } from '@/components/bytes/ByteCard';
 import { ByteCardSkeleton } from '@/components/bytes/ByteCardSkeleton';
 import { topicSummaryToByte } from '@/shared/adapters/topicSummaryToByte';
@@ -228,6 +229,9 @@ export default function TeretScreen(): React.ReactElement {
           subtitle: teret.parentHub ? `in ${teret.parentHub.name}` : undefined,
           canGoBack: true,
           tone: 'bg',
+          rightActions: [
+            <CategoryNotificationButton key="notifications" categoryId={teret.id} categoryName={`#${teret.name}`} />,
+          ],
         });
       } else {
         setHeader({
@@ -0,0 +1,108 @@
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { Alarm, BookmarkSimple } from 'phosphor-react-native';
+import { useTheme } from '@/components/theme';
+import { getTokens } from '@/shared/design/tokens';
+import { formatReminderTime, getReminderStatus, type Bookmark } from '@/shared/bookmarks';
+
+// UI Spec: BookmarkRow — One saved bookmark: Byte title, bookmark name, excerpt and a reminder badge (due or upcoming).
+interface BookmarkRowProps {
+  bookmark: Bookmark;
+  onPress?: () => void;
+  onLongPress?: () => void;
+}
+
+export function BookmarkRow({ bookmark, onPress, onLongPress }: BookmarkRowProps) {
+  const { isDark, isAmoled } = useTheme();
+  const tokens = useMemo(
+    () => getTokens(isAmoled ? 'darkAmoled' : isDark ? 'dark' : 'light'),
+    [isAmoled, isDark]
+  );
+
+  const reminderStatus = getReminderStatus(bookmark);
+  const reminderText = reminderStatus === 'due'
+    ? 'Reminder due'
+    : bookmark.reminderAt
+      ? formatReminderTime(bookmark.reminderAt)
+      : null;
+  const title = bookmark.title || 'Untitled';
+
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      onLongPress={onLongPress}
+      activeOpacity={0.8}
+      style={{
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        gap: 12,
+        paddingVertical: 14,
+        paddingHorizontal: 16,
+        borderBottomWidth: 1,
+        borderBottomColor: tokens.colors.border,
+      }}
+      accessibilityRole="button"
+      accessibilityLabel={`Bookmark: ${bookmark.name ? `${bookmark.name}, ` : ''}${title}${reminderText ? `, ${reminderText}` : ''}`}
+      accessibilityHint="Long press for more actions"
+    >
+      <View
+        style={{
+          width: 36,
+          height: 36,
+          borderRadius: 18,
+          backgroundColor: tokens.colors.accentSoft,
+          alignItems: 'center',
+          justifyContent: 'center',
+        }}
+      >
+        <BookmarkSimple size={18} color={tokens.colors.accent} weight="fill" />
+      </View>
+
+      <View style={{ flex: 1, minWidth: 0 }}>
+        {bookmark.name ? (
+          <Text style={{ color: tokens.colors.accent, fontSize: 13, fontWeight: '600' }} numberOfLines={1}>
+            {bookmark.name}
+          </Text>
+        ) : null}
+        <Text style={{ color: tokens.colors.text, fontSize: 15, fontWeight: '600' }} numberOfLines={2}>
+          {title}
+        </Text>
+        {bookmark.excerpt ? (
+          <Text style={{ color: tokens.colors.muted, fontSize: 13, marginTop: 4 }} numberOfLines={2}>
+            {bookmark.excerpt}
+          </Text>
+        ) : null}
+        {reminderText ? (
+          <View
+            style={{
+              flexDirection: 'row',
+              alignItems: 'center',
+              alignSelf: 'flex-start',
+              gap: 4,
+              marginTop: 8,
+              paddingHorizontal: 8,
+              paddingVertical: 3,
+              borderRadius: 10,
+              backgroundColor: reminderStatus === 'due' ? tokens.colors.dangerSoft : tokens.colors.accentSoft,
+            }}
+          >
+            <Alarm
+              size={12}
+              color={reminderStatus === 'due' ? tokens.colors.danger : tokens.colors.accent}
+              weight="bold"
+            />
+            <Text
+              style={{
+                color: reminderStatus === 'due' ? tokens.colors.danger : tokens.colors.accent,
+                fontSize: 12,
+                fontWeight: '600',
+              }}
+            >
+              {reminderText}
+            </Text>
+          </View>
+        ) : null}
+      </View>
+    </TouchableOpacity>
+  );
+}
@@ -0,0 +1,378 @@
+// UI Spec: BookmarkSheet
+// - Bottom modal for saving a bookmark: optional name, reminder and what happens after it
+// - Reminder chips: None, Later today (hidden in the evening), Tomorrow, Next week, Custom
+// - Custom picks a day and an hour with steppers; times in the past can't be saved
+// - Editing an existing bookmark adds a Remove button
+// - Uses React Native Modal like FlagSheet; saving closes right away and rolls back on error
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  Pressable,
+  ScrollView,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { CaretLeft, CaretRight, Check, X } from 'phosphor-react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '@/components/theme';
+import {
+  BOOKMARK_AUTO_DELETE_OPTIONS,
+  BookmarkAutoDeletePreference,
+  BookmarkableType,
+  REMINDER_PRESET_LABELS,
+  ReminderPreset,
+  buildCustomReminder,
+  formatReminderTime,
+  getAvailableReminderPresets,
+  getReminderPreset,
+  getReminderPresetTime,
+} from '@/shared/bookmarks';
+import { SavedBookmark, useBookmarkStore } from '@/shared/useBookmarkSync';
+import { useDeleteBookmark, useSaveBookmark } from '@/shared/mutations';
+
+const MAX_CUSTOM_DAYS = 60;
+const DEFAULT_CUSTOM_HOUR = 9;
+
+interface BookmarkSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  // Existing bookmark being edited; null to create one on `target`
+  bookmark: SavedBookmark | null;
+  target?: { id: number; type: BookmarkableType };
+  // Byte the bookmark is on, kept in sync with the bookmark buttons
+  topicId?: number;
+  title?: string;
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function getDayOffset(date: Date, now: Date): number {
+  return Math.round((startOfDay(date).getTime() - startOfDay(now).getTime()) / (24 * 60 * 60 * 1000));
+}
+
+function formatHour(hour: number): string {
+  const date = new Date();
+  date.setHours(hour, 0, 0, 0);
+  return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+}
+
+function formatDay(dayOffset: number, now: Date): string {
+  if (dayOffset === 0) return 'Today';
+  if (dayOffset === 1) return 'Tomorrow';
+  const day = new Date(now);
+  day.setDate(day.getDate() + dayOffset);
+  return day.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+export function BookmarkSheet({ visible, onClose, bookmark, target, topicId, title }: BookmarkSheetProps) {
+  const { isDark } = useTheme();
+  const insets = useSafeAreaInsets();
+  const saveBookmark = useSaveBookmark();
+  const deleteBookmark = useDeleteBookmark();
+  const [now, setNow] = useState(() => new Date());
+  const [name, setName] = useState('');
+  const [preset, setPreset] = useState<ReminderPreset>('none');
+  const [customDayOffset, setCustomDayOffset] = useState(1);
+  const [customHour, setCustomHour] = useState(DEFAULT_CUSTOM_HOUR);
+  const [autoDeletePreference, setAutoDeletePreference] = useState<BookmarkAutoDeletePreference>(
+    useBookmarkStore.getState().defaultAutoDeletePreference
+  );
+
+  const mutedColor = isDark ? '#A1A1AA' : '#6B6B72';
+  const accentColor = isDark ? '#26A69A' : '#009688';
+  const textColor = isDark ? '#F5F5F7' : '#111111';
+  const chipBackground = isDark ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.03)';
+
+  // Start from the bookmark being edited each time the sheet opens
+  useEffect(() => {
+    if (!visible) return;
+    const openedAt = new Date();
+    const reminderAt = bookmark?.reminderAt ?? null;
+    const nextPreset = getReminderPreset(reminderAt, openedAt);
+    setNow(openedAt);
+    setName(bookmark?.name ?? '');
+    setPreset(nextPreset);
+    if (nextPreset === 'custom' && reminderAt) {
+      const reminder = new Date(reminderAt);
+      setCustomDayOffset(Math.max(0, getDayOffset(reminder, openedAt)));
+      setCustomHour(reminder.getHours());
+    } else {
+      setCustomDayOffset(1);
+      setCustomHour(DEFAULT_CUSTOM_HOUR);
+    }
+    setAutoDeletePreference(
+      bookmark?.autoDeletePreference ?? useBookmarkStore.getState().defaultAutoDeletePreference
+    );
+  }, [visible, bookmark]);
+
+  const presets = useMemo(() => {
+    const available = getAvailableReminderPresets(now);
+    // Keep an existing "later today" reminder selectable
+    return preset === 'later_today' && !available.includes(preset) ? [...available, preset] : available;
+  }, [now, preset]);
+
+  const reminder = preset === 'custom'
+    ? buildCustomReminder(now, customDayOffset, customHour)
+    : getReminderPresetTime(preset, now);
+  const isReminderInvalid = preset !== 'none' && !reminder;
+  const canSave = !isReminderInvalid;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    saveBookmark.mutate(
+      {
+        topicId,
+        bookmarkId: bookmark?.id,
+        target: bookmark ? undefined : target,
+        input: {
+          name,
+          reminderAt: reminder ? reminder.toISOString() : null,
+          autoDeletePreference,
+        },
+      },
+      {
+        onSuccess: () => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+        },
+        onError: (error) => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
+          Alert.alert('Error', error.message);
+        },
+      }
+    );
+    onClose();
+  };
+
+  const handleRemove = () => {
+    deleteBookmark.mutate(
+      { topicId, bookmarkId: bookmark?.id },
+      {
+        onError: (error) => {
+          Alert.alert('Error', error.message);
+        },
+      }
+    );
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    onClose();
+  };
+
+  const handleSelectPreset = (next: ReminderPreset) => {
+    Haptics.selectionAsync().catch(() => {});
+    setPreset(next);
+  };
+
+  const renderStepper = (label: string, value: string, onPrevious: () => void, onNext: () => void) => (
+    <View className="flex-row items-center justify-between py-2">
+      <Text className="text-body text-fomio-muted dark:text-fomio-muted-dark" style={{ fontSize: 14 }}>
+        {label}
+      </Text>
+      <View className="flex-row items-center">
+        <TouchableOpacity
+          onPress={onPrevious}
+          className="p-2"
+          accessible
+          accessibilityRole="button"
+          accessibilityLabel={`Earlier ${label.toLowerCase()}`}
+        >
+          <CaretLeft size={16} color={mutedColor} weight="bold" />
+        </TouchableOpacity>
+        <Text style={{ color: textColor, fontSize: 15, fontWeight: '600', minWidth: 110, textAlign: 'center' }}>
+          {value}
+        </Text>
+        <TouchableOpacity
+          onPress={onNext}
+          className="p-2"
+          accessible
+          accessibilityRole="button"
+          accessibilityLabel={`Later ${label.toLowerCase()}`}
+        >
+          <CaretRight size={16} color={mutedColor} weight="bold" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView className="flex-1" behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <Pressable
+          className="flex-1 justify-end"
+          onPress={onClose}
+          style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}
+        >
+          <Pressable onPress={(e) => e.stopPropagation()}>
+            <View
+              className="bg-fomio-bg dark:bg-fomio-bg-dark rounded-t-3xl"
+              style={{ paddingBottom: insets.bottom + 8, paddingTop: 12, maxHeight: '90%' }}
+            >
+              {/* Header */}
+              <View className="flex-row items-center justify-between px-4 pb-3 border-b border-fomio-border-soft dark:border-fomio-border-soft-dark">
+                <View className="flex-1">
+                  <Text className="text-title font-semibold text-fomio-foreground dark:text-fomio-foreground-dark">
+                    {bookmark ? 'Edit bookmark' : 'Bookmark'}
+                  </Text>
+                  {title ? (
+                    <Text
+                      className="text-body text-fomio-muted dark:text-fomio-muted-dark"
+                      style={{ fontSize: 13 }}
+                      numberOfLines={1}
+                    >
+                      {title}
+                    </Text>
+                  ) : null}
+                </View>
+                <TouchableOpacity
+                  onPress={onClose}
+                  className="p-2"
+                  accessible
+                  accessibilityRole="button"
+                  accessibilityLabel="Close bookmark"
+                >
+                  <X size={20} color={mutedColor} weight="regular" />
+                </TouchableOpacity>
+              </View>
+
+              <ScrollView contentContainerStyle={{ paddingHorizontal: 16, paddingTop: 12 }} keyboardShouldPersistTaps="handled">
+                <TextInput
+                  value={name}
+                  onChangeText={setName}
+                  placeholder="Name (optional)"
+                  placeholderTextColor={mutedColor}
+                  maxLength={100}
+                  className="px-3 py-2 rounded-xl border border-fomio-border-soft dark:border-fomio-border-soft-dark"
+                  style={{ color: textColor, fontSize: 15 }}
+                  accessibilityLabel="Bookmark name"
+                />
+
+                {/* Reminder */}
+                <Text
+                  className="text-body font-semibold text-fomio-foreground dark:text-fomio-foreground-dark"
+                  style={{ fontSize: 15, marginTop: 16, marginBottom: 8 }}
+                >
+                  Remind me
+                </Text>
+                <View className="flex-row flex-wrap" style={{ gap: 8 }}>
+                  {presets.map((option) => {
+                    const isSelected = option === preset;
+                    const time = getReminderPresetTime(option, now);
+                    return (
+                      <TouchableOpacity
+                        key={option}
+                        onPress={() => handleSelectPreset(option)}
+                        className="px-3 py-2 rounded-xl"
+                        style={{
+                          backgroundColor: isSelected ? accentColor : chipBackground,
+                        }}
+                        accessible
+                        accessibilityRole="radio"
+                        accessibilityState={{ selected: isSelected }}
+                        accessibilityLabel={
+                          time ? `${REMINDER_PRESET_LABELS[option]}, ${formatReminderTime(time, now)}` : REMINDER_PRESET_LABELS[option]
+                        }
+                      >
+                        <Text style={{ color: isSelected ? '#FFFFFF' : textColor, fontSize: 14, fontWeight: '600' }}>
+                          {REMINDER_PRESET_LABELS[option]}
+                        </Text>
+                        {time ? (
+                          <Text style={{ color: isSelected ? '#FFFFFF' : mutedColor, fontSize: 12, marginTop: 2 }}>
+                            {formatReminderTime(time, now)}
+                          </Text>
+                        ) : null}
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                {preset === 'custom' ? (
+                  <View className="mt-2">
+                    {renderStepper(
+                      'Day',
+                      formatDay(customDayOffset, now),
+                      () => setCustomDayOffset((offset) => Math.max(0, offset - 1)),
+                      () => setCustomDayOffset((offset) => Math.min(MAX_CUSTOM_DAYS, offset + 1))
+                    )}
+                    {renderStepper(
+                      'Time',
+                      formatHour(customHour),
+                      () => setCustomHour((hour) => (hour + 23) % 24),
+                      () => setCustomHour((hour) => (hour + 1) % 24)
+                    )}
+                    {isReminderInvalid ? (
+                      <Text style={{ color: '#EF4444', fontSize: 13 }}>Pick a time in the future</Text>
+                    ) : null}
+                  </View>
+                ) : null}
+
+                {/* After the reminder */}
+                <Text
+                  className="text-body font-semibold text-fomio-foreground dark:text-fomio-foreground-dark"
+                  style={{ fontSize: 15, marginTop: 16, marginBottom: 4 }}
+                >
+                  Afterwards
+                </Text>
+                {BOOKMARK_AUTO_DELETE_OPTIONS.map((option) => {
+                  const isSelected = option.value === autoDeletePreference;
+                  return (
+                    <TouchableOpacity
+                      key={option.value}
+                      className="flex-row items-center py-2 active:opacity-70"
+                      onPress={() => setAutoDeletePreference(option.value)}
+                      accessible
+                      accessibilityRole="radio"
+                      accessibilityState={{ selected: isSelected }}
+                      accessibilityLabel={option.label}
+                    >
+                      <Text
+                        className="flex-1 text-body text-fomio-foreground dark:text-fomio-foreground-dark"
+                        style={{ fontSize: 14 }}
+                      >
+                        {option.label}
+                      </Text>
+                      {isSelected ? <Check size={18} color={accentColor} weight="bold" /> : null}
+                    </TouchableOpacity>
+                  );
+                })}
+
+                <TouchableOpacity
+                  onPress={handleSave}
+                  disabled={!canSave}
+                  className="mt-4 py-3 rounded-xl items-center"
+                  style={{ backgroundColor: accentColor, opacity: canSave ? 1 : 0.4 }}
+                  accessible
+                  accessibilityRole="button"
+                  accessibilityLabel="Save bookmark"
+                  accessibilityState={{ disabled: !canSave }}
+                >
+                  <Text style={{ color: '#FFFFFF', fontSize: 15, fontWeight: '600' }}>Save</Text>
+                </TouchableOpacity>
+
+                {bookmark ? (
+                  <TouchableOpacity
+                    onPress={handleRemove}
+                    className="mt-2 py-3 rounded-xl items-center"
+                    accessible
+                    accessibilityRole="button"
+                    accessibilityLabel="Remove bookmark"
+                  >
+                    <Text style={{ color: '#EF4444', fontSize: 15, fontWeight: '600' }}>Remove bookmark</Text>
+                  </TouchableOpacity>
+                ) : null}
+              </ScrollView>
+            </View>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
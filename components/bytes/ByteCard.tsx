@@ -5,6 +5,7 @@ import { ByteCardHeader } from './ByteCardHeader';
 import { ByteCardContent } from './ByteCardContent';
 import { ByteCardMedia } from './ByteCardMedia';
 import { ByteCardActionTray } from './ByteCardActionTray';
+import { TagChips } from '@/components/tags/TagChips';
 import { useByteCardActions } from './useByteCardActions';
 import { useByteCardTokens } from './useByteCardTokens';
 import { createTextStyle } from '@/shared/design-system';
@@ -27,6 +28,7 @@ export interface ByteCardProps {
  * - Content-first: cooked HTML rendered as markdown
  * - Media-aware: images, link previews, future video support
  * - Teret badge: colored pill for category context
+ * - Tag chips: open the tag's feed
  * - Footer actions: like, comment, bookmark, share
  * - Separator: subtle divider between cards
  * - Themed: uses Fomio semantic tokens (Light + AMOLED Dark)
@@ -239,6 +241,7 @@ function ByteCardComponent({
         <View>
           <ByteCardContent byte={byte} />
           <ByteCardMedia byte={byte} />
+          <TagChips tags={byte.tags} onTagPress={handleHeaderPress} style={{ marginTop: spacing.sm }} />
 
           {/* Inline metrics + tray toggle (arrow inline with icons) */}
           <Animated.View 
@@ -330,6 +333,7 @@ const arePropsEqual = (prev: ByteCardProps, next: ByteCardProps) => {
   // Compare teret/hub (category badges)
   if (prev.byte.teret?.id !== next.byte.teret?.id) return false;
   if (prev.byte.hub?.id !== next.byte.hub?.id) return false;
+  if (prev.byte.tags?.join(',') !== next.byte.tags?.join(',')) return false;
   
   // Compare callbacks (reference equality)
   if (prev.onPress !== next.onPress) return false;
@@ -3,6 +3,8 @@ import { View, Text, Pressable, ActivityIndicator } from 'react-native';
 import { Heart, ChatCircle, BookmarkSimple } from 'phosphor-react-native';
 import { useByteCardTokens } from './useByteCardTokens';
 import { createTextStyle } from '@/shared/design-system';
+import { EmojiGlyph } from '@/components/feed/EmojiGlyph';
+import { ReactionPicker } from '@/components/feed/ReactionPicker';
 import type { UseByteCardActionsReturn } from './useByteCardActions';
 
 export interface ByteCardActionTrayProps {
@@ -28,66 +30,89 @@ function ByteCardActionTrayComponent({ isOpen, actions }: ByteCardActionTrayProp
 
   if (!isOpen) return null;
 
+  // A reaction other than the main one (which counts as a like) shows instead of the heart
+  const otherReaction =
+    actions.currentReaction && actions.currentReaction !== actions.reactionOptions[0]
+      ? actions.currentReaction
+      : null;
+
   return (
-    <View style={trayStyle}>
-      <Pressable
-        onPress={actions.toggleLike}
-        disabled={actions.loadingLike}
-        style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm }}
-        hitSlop={8}
-        accessibilityRole="button"
-        accessibilityLabel="Like"
-        accessibilityState={{ disabled: actions.loadingLike, selected: actions.isLiked }}
-      >
-        {actions.loadingLike ? (
-          <ActivityIndicator size="small" color={colors.like} />
-        ) : (
-          <Heart
-            size={20}
-            weight={actions.isLiked ? 'fill' : 'regular'}
-            color={actions.isLiked ? colors.like : colors.comment}
-          />
-        )}
-        <Text style={createTextStyle('caption', colors.foreground)}>
-          {actions.isLiked ? 'Liked' : 'Like'}
-        </Text>
-      </Pressable>
+    <View>
+      <View style={trayStyle}>
+        <Pressable
+          onPress={otherReaction ? () => actions.react(otherReaction) : actions.toggleLike}
+          onLongPress={actions.toggleReactionPicker}
+          delayLongPress={300}
+          disabled={actions.loadingLike}
+          style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm }}
+          hitSlop={8}
+          accessibilityRole="button"
+          accessibilityLabel={otherReaction ? `Remove your ${otherReaction.replace(/_/g, ' ')} reaction` : 'Like'}
+          accessibilityHint="Long press for more reactions"
+          accessibilityState={{ disabled: actions.loadingLike, selected: actions.isLiked || !!otherReaction }}
+        >
+          {actions.loadingLike ? (
+            <ActivityIndicator size="small" color={colors.like} />
+          ) : otherReaction ? (
+            <EmojiGlyph name={otherReaction} size={20} color={colors.comment} />
+          ) : (
+            <Heart
+              size={20}
+              weight={actions.isLiked ? 'fill' : 'regular'}
+              color={actions.isLiked ? colors.like : colors.comment}
+            />
+          )}
+          <Text style={createTextStyle('caption', colors.foreground)}>
+            {otherReaction ? 'Reacted' : actions.isLiked ? 'Liked' : 'Like'}
+          </Text>
+        </Pressable>
 
-      <Pressable
-        onPress={actions.onCommentPress}
-        style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm }}
-        hitSlop={8}
-        accessibilityRole="button"
-        accessibilityLabel="Reply"
-      >
-        <ChatCircle size={20} weight="regular" color={colors.comment} />
-        <Text style={createTextStyle('caption', colors.foreground)}>
-          Reply
-        </Text>
-      </Pressable>
+        <Pressable
+          onPress={actions.onCommentPress}
+          style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm }}
+          hitSlop={8}
+          accessibilityRole="button"
+          accessibilityLabel="Reply"
+        >
+          <ChatCircle size={20} weight="regular" color={colors.comment} />
+          <Text style={createTextStyle('caption', colors.foreground)}>
+            Reply
+          </Text>
+        </Pressable>
 
-      <Pressable
-        onPress={actions.toggleBookmark}
-        disabled={actions.loadingBookmark}
-        style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm }}
-        hitSlop={8}
-        accessibilityRole="button"
-        accessibilityLabel="Bookmark"
-        accessibilityState={{ disabled: actions.loadingBookmark, selected: actions.isBookmarked }}
-      >
-        {actions.loadingBookmark ? (
-          <ActivityIndicator size="small" color={colors.bookmark} />
-        ) : (
-          <BookmarkSimple
-            size={20}
-            weight={actions.isBookmarked ? 'fill' : 'regular'}
-            color={actions.isBookmarked ? colors.bookmark : colors.comment}
+        <Pressable
+          onPress={actions.toggleBookmark}
+          disabled={actions.loadingBookmark}
+          style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm }}
+          hitSlop={8}
+          accessibilityRole="button"
+          accessibilityLabel="Bookmark"
+          accessibilityState={{ disabled: actions.loadingBookmark, selected: actions.isBookmarked }}
+        >
+          {actions.loadingBookmark ? (
+            <ActivityIndicator size="small" color={colors.bookmark} />
+          ) : (
+            <BookmarkSimple
+              size={20}
+              weight={actions.isBookmarked ? 'fill' : 'regular'}
+              color={actions.isBookmarked ? colors.bookmark : colors.comment}
+            />
+          )}
+          <Text style={createTextStyle('caption', colors.foreground)}>
+            {actions.isBookmarked ? 'Saved' : 'Save'}
+          </Text>
+        </Pressable>
+      </View>
+      {actions.isReactionPickerOpen && actions.reactionOptions.length > 0 && (
+        <View style={{ marginTop: spacing.sm }}>
+          <ReactionPicker
+            options={actions.reactionOptions}
+            current={actions.currentReaction}
+            canChange={actions.canChangeReaction}
+            onPick={actions.react}
           />
-        )}
-        <Text style={createTextStyle('caption', colors.foreground)}>
-          {actions.isBookmarked ? 'Saved' : 'Save'}
-        </Text>
-      </Pressable>
+        </View>
+      )}
     </View>
   );
 }
@@ -99,7 +124,13 @@ const areTrayPropsEqual = (prev: ByteCardActionTrayProps, next: ByteCardActionTr
     prev.actions.isBookmarked === next.actions.isBookmarked &&
     prev.actions.loadingLike === next.actions.loadingLike &&
     prev.actions.loadingBookmark === next.actions.loadingBookmark &&
+    prev.actions.reactionOptions === next.actions.reactionOptions &&
+    prev.actions.currentReaction === next.actions.currentReaction &&
+    prev.actions.canChangeReaction === next.actions.canChangeReaction &&
+    prev.actions.isReactionPickerOpen === next.actions.isReactionPickerOpen &&
     prev.actions.toggleLike === next.actions.toggleLike &&
+    prev.actions.react === next.actions.react &&
+    prev.actions.toggleReactionPicker === next.actions.toggleReactionPicker &&
     prev.actions.toggleBookmark === next.actions.toggleBookmark &&
     prev.actions.onCommentPress === next.actions.onCommentPress
   );
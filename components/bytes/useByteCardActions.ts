@@ -7,7 +7,18 @@ import { useAuth } from '@/shared/auth-context';
 import { useBookmarkStore } from '@/shared/useBookmarkSync';
 import { optimisticEngagementStore } from '@/shared/stores/optimisticEngagementStore';
 import { useToast } from '@/shared/form-validation';
+import { offlineManager, isNetworkFailure } from '@/shared/offline-support';
 import { logger } from '@/shared/logger';
+import { useSiteSettings } from '@/shared/useSiteSettings';
+import {
+  EMPTY_POST_REACTIONS,
+  PostReactions,
+  canToggleReaction,
+  getReactionOptions,
+  parsePostReactions,
+  toggleReaction,
+} from '@/shared/reactions';
+import { findByteBookmark, parseTopicBookmarks } from '@/shared/bookmarks';
 import type { Byte } from '@/types/byte';
 
 export interface UseByteCardActionsReturn {
@@ -18,9 +29,16 @@ export interface UseByteCardActionsReturn {
   replyCount: number;
   loadingLike: boolean;
   loadingBookmark: boolean;
+  // discourse-reactions: the site's reactions (main first, empty without the plugin)
+  reactionOptions: string[];
+  currentReaction: string | null;
+  canChangeReaction: boolean;
+  isReactionPickerOpen: boolean;
   
   // Actions
   toggleLike: () => Promise<void>;
+  react: (reactionId: string) => Promise<void>;
+  toggleReactionPicker: () => Promise<void>;
   toggleBookmark: () => Promise<void>;
   onCommentPress: () => void;
   onCardPress: () => void;
@@ -32,6 +50,7 @@ export interface UseByteCardActionsReturn {
  * 
  * Handles:
  * - Like/unlike with optimistic updates (uses post-level API)
+ * - Reactions (discourse-reactions) on the first post, picked from a long-press tray
  * - Bookmark/unbookmark with store sync (uses topic-level API)
  * - Share via React Native Share API
  * - Comment navigation
@@ -44,7 +63,8 @@ export interface UseByteCardActionsReturn {
 export function useByteCardActions(byte: Byte): UseByteCardActionsReturn {
   const router = useRouter();
   const { isAuthenticated } = useAuth();
-  const { showError } = useToast();
+  const { showError, showInfo } = useToast();
+  const { settings } = useSiteSettings();
 
   const getRateLimitMessage = useCallback((error: unknown, fallback: string): string => {
     const message = error instanceof Error ? error.message : String(error);
@@ -63,6 +83,11 @@ export function useByteCardActions(byte: Byte): UseByteCardActionsReturn {
   const [likeCount, setLikeCount] = useState(byte.stats.likes);
   const [loadingLike, setLoadingLike] = useState(false);
   const [loadingBookmark, setLoadingBookmark] = useState(false);
+  // First post reactions, known once the initial states have loaded
+  const [reactions, setReactions] = useState<PostReactions | null>(null);
+  const reactionsRef = useRef<PostReactions | null>(null);
+  const [isReactionPickerOpen, setIsReactionPickerOpen] = useState(false);
+  const reactionOptions = useMemo(() => getReactionOptions(settings, !!reactions), [settings, reactions]);
   
   // Track if we've loaded initial states to avoid unnecessary API calls
   const hasLoadedInitialState = useRef(false);
@@ -104,9 +129,14 @@ export function useByteCardActions(byte: Byte): UseByteCardActionsReturn {
           }
         }
         
+        // Reactions on the first post (null without discourse-reactions)
+        reactionsRef.current = parsePostReactions(topic.post_stream?.posts?.[0]);
+        setReactions(reactionsRef.current);
+        
         // Sync bookmark state to store
-        if (topic.details?.bookmarked) {
-          toggleBookmarkInStore(Number(byte.id), true);
+        const bookmark = findByteBookmark(parseTopicBookmarks(topic), topic.post_stream?.posts?.[0]?.id);
+        if (bookmark || topic.details?.bookmarked) {
+          toggleBookmarkInStore(Number(byte.id), true, bookmark);
         }
       }
       
@@ -205,6 +235,13 @@ export function useByteCardActions(byte: Byte): UseByteCardActionsReturn {
         ? await discourseApi.unlikePost(postId)
         : await discourseApi.likePost(postId);
       
+      // Offline - keep the optimistic state and let the outbox replay it
+      if (isNetworkFailure(response)) {
+        await offlineManager.queueAction(previousLiked ? 'unlike_post' : 'like_post', { postId });
+        showInfo('Saved offline', 'Your like will sync when you reconnect.');
+        return;
+      }
+      
       if (!response.success) {
         // Rollback optimistic update
         optimisticEngagementStore.setLocalLike(Number(byte.id), previousLiked);
@@ -230,7 +267,87 @@ export function useByteCardActions(byte: Byte): UseByteCardActionsReturn {
     } finally {
       setLoadingLike(false);
     }
-  }, [byte.id, isLiked, likeCount, loadingLike, requireAuth, getFirstPostId, showError, loadInitialStates, getRateLimitMessage]);
+  }, [byte.id, isLiked, likeCount, loadingLike, requireAuth, getFirstPostId, showError, showInfo, loadInitialStates, getRateLimitMessage]);
+  
+  /**
+   * React to the first post, or take the reaction back when it's the
+   * current one. The main reaction is stored as a like, so the like state
+   * follows it.
+   */
+  const react = useCallback(async (reactionId: string) => {
+    setIsReactionPickerOpen(false);
+    if (!requireAuth()) return;
+    if (loadingLike) return;
+    
+    const previous = reactions ?? EMPTY_POST_REACTIONS;
+    if (!canToggleReaction(previous)) {
+      showError('Reaction locked', 'It is too late to change your reaction.');
+      return;
+    }
+    
+    setLoadingLike(true);
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium).catch(() => {});
+    
+    // Optimistic update
+    const previousLiked = isLiked;
+    const previousCount = likeCount;
+    const applyLiked = (liked: boolean) => {
+      optimisticEngagementStore.setLocalLike(Number(byte.id), liked);
+      setLikeCount(previousCount + (liked === previousLiked ? 0 : liked ? 1 : -1));
+    };
+    const next = toggleReaction(previous, reactionId);
+    setReactions(next);
+    applyLiked(next.currentUserReaction === settings.mainReaction);
+    
+    try {
+      const postId = await getFirstPostId();
+      if (!postId) {
+        throw new Error('Failed to find post');
+      }
+      
+      const response = await discourseApi.toggleReaction(postId, reactionId);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to react');
+      }
+      
+      reactionsRef.current = response.data;
+      setReactions(response.data);
+      applyLiked(response.data.currentUserReaction === settings.mainReaction);
+    } catch (error) {
+      // Rollback optimistic update
+      setReactions(previous);
+      optimisticEngagementStore.setLocalLike(Number(byte.id), previousLiked);
+      setLikeCount(previousCount);
+      
+      logger.error('Failed to react', error);
+      showError(
+        'Failed to react',
+        getRateLimitMessage(error, 'Please try again later.')
+      );
+    } finally {
+      setLoadingLike(false);
+    }
+  }, [byte.id, reactions, isLiked, likeCount, loadingLike, settings.mainReaction, requireAuth, getFirstPostId, showError, getRateLimitMessage]);
+  
+  /**
+   * Open or close the reaction tray (long-press on Like). Loads the first
+   * post's reactions first; stays closed when the site has no reactions.
+   */
+  const toggleReactionPicker = useCallback(async () => {
+    if (isReactionPickerOpen) {
+      setIsReactionPickerOpen(false);
+      return;
+    }
+    if (!requireAuth()) return;
+    
+    if (!hasLoadedInitialState.current) {
+      await loadInitialStates();
+    }
+    if (getReactionOptions(settings, !!reactionsRef.current).length === 0) return;
+    
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    setIsReactionPickerOpen(true);
+  }, [isReactionPickerOpen, settings, requireAuth, loadInitialStates]);
   
   /**
    * Toggle bookmark with store sync
@@ -257,7 +374,7 @@ export function useByteCardActions(byte: Byte): UseByteCardActionsReturn {
     
     try {
       // Use topic-level API: toggleTopicBookmark handles both bookmark/unbookmark
-      // Discourse API: PUT /t/{topicId}/bookmark.json (bookmark) or DELETE (unbookmark)
+      // Discourse API: POST /bookmarks.json (bookmark) or DELETE /bookmarks/{id}.json (unbookmark)
       const response = await discourseApi.toggleTopicBookmark(Number(byte.id));
       
       if (!response.success) {
@@ -268,7 +385,10 @@ export function useByteCardActions(byte: Byte): UseByteCardActionsReturn {
         throw new Error(response.error || 'Failed to update bookmark status');
       }
       
-      // Success - state already updated optimistically
+      // Success - remember the new bookmark's ID so it can be edited later
+      if (response.data) {
+        toggleBookmarkInStore(Number(byte.id), true, response.data);
+      }
       logger.info(
         `Byte ${byte.id} ${previousBookmarked ? 'unbookmarked' : 'bookmarked'} successfully`
       );
@@ -346,9 +466,15 @@ export function useByteCardActions(byte: Byte): UseByteCardActionsReturn {
     replyCount: byte.stats.replies,
     loadingLike,
     loadingBookmark,
+    reactionOptions,
+    currentReaction: reactions?.currentUserReaction ?? null,
+    canChangeReaction: !reactions || canToggleReaction(reactions),
+    isReactionPickerOpen,
     
     // Actions
     toggleLike,
+    react,
+    toggleReactionPicker,
     toggleBookmark,
     onCommentPress,
     onCardPress,
@@ -360,7 +486,12 @@ export function useByteCardActions(byte: Byte): UseByteCardActionsReturn {
     byte.stats.replies,
     loadingLike,
     loadingBookmark,
+    reactionOptions,
+    reactions,
+    isReactionPickerOpen,
     toggleLike,
+    react,
+    toggleReactionPicker,
     toggleBookmark,
     onCommentPress,
     onCardPress,
@@ -0,0 +1,54 @@
+import React from 'react';
+import { ActivityIndicator, Text, TouchableOpacity, View } from 'react-native';
+import { getTokens } from '@/shared/design/tokens';
+
+type Mode = 'light' | 'dark' | 'darkAmoled';
+
+export interface EarlierRepliesButtonProps {
+  onPress?: () => void;
+  isLoading?: boolean;
+  mode: Mode;
+}
+
+/**
+ * EarlierRepliesButton — "Show earlier replies" above a comment list that
+ * starts partway through the post stream
+ *
+ * UI Spec: EarlierRepliesButton
+ * - Accent-colored text button, centered
+ * - Swaps to a spinner (and reports busy) while the previous batch loads
+ */
+export function EarlierRepliesButton({ onPress, isLoading, mode }: EarlierRepliesButtonProps) {
+  const tokens = getTokens(mode);
+
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      disabled={isLoading}
+      className="py-3 items-center"
+      accessible
+      accessibilityRole="button"
+      accessibilityLabel="Show earlier replies"
+      accessibilityState={{ busy: !!isLoading }}
+    >
+      {isLoading ? (
+        <ActivityIndicator size="small" color={tokens.colors.accent} />
+      ) : (
+        <Text style={{ fontSize: 14, fontWeight: '600', color: tokens.colors.accent }}>Show earlier replies</Text>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+/**
+ * MoreRepliesSpinner — Footer shown while the next batch of replies loads
+ */
+export function MoreRepliesSpinner({ mode }: { mode: Mode }) {
+  const tokens = getTokens(mode);
+
+  return (
+    <View className="py-4 items-center">
+      <ActivityIndicator size="small" color={tokens.colors.accent} />
+    </View>
+  );
+}
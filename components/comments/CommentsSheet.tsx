@@ -1,28 +1,55 @@
 import React, { useCallback, useRef, useEffect, forwardRef, useImperativeHandle, useState } from 'react';
-import { View, Text, Platform, BackHandler, RefreshControl } from 'react-native';
+import { View, Text, Platform, BackHandler, RefreshControl, ViewToken } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { BottomSheetFooter } from '@gorhom/bottom-sheet';
 import { ThemedBottomSheet, BottomSheetModalRef, BottomSheetFlatList } from '@/components/ui/bottom-sheet';
 import { CommentItem } from '@/components/feed/CommentItem';
 import { NewCommentInput, NewCommentInputRef } from '@/components/feed/NewCommentInput';
+import { UnreadRepliesPill } from '@/components/feed/UnreadRepliesPill';
+import { EarlierRepliesButton, MoreRepliesSpinner } from '@/components/comments/CommentStreamPager';
 import { useTheme } from '@/components/theme';
 import { getTokens } from '@/shared/design/tokens';
 import type { Comment } from '@/components/feed/CommentItem';
+import type { MentionParticipant } from '@/shared/autocomplete';
+import { getReplyDraftKey } from '@/shared/drafts';
 
 interface CommentsSheetProps {
   byteId: number; // Byte/topic ID (for potential future use: analytics, context, etc.)
   comments: Comment[];
   onLike?: (id: string) => void;
   onReply?: (id: string) => void;
+  onFlag?: (id: string) => void;
+  // discourse-reactions: the site's reactions (main first), reacting and "who reacted"
+  reactionOptions?: string[];
+  onReact?: (id: string, reactionId: string) => void;
+  onShowReactions?: (id: string, reactionId?: string) => void;
+  onQuote?: (id: string) => void; // Long-press a comment to quote it
+  onDelete?: (id: string) => void; // Staff only
+  onRecover?: (id: string) => void; // Staff only
   onSend?: (text: string, replyToPostNumber?: number) => void;
   replyTo?: {
     postNumber: number;
     username: string;
   } | null;
+  participants?: MentionParticipant[]; // Ranked first in @mention suggestions
+  // [quote] block waiting to be added to the reply, and the callback once it's in
+  pendingQuote?: string | null;
+  onQuoteInserted?: () => void;
   isAuthenticated?: boolean; // Pass through for NewCommentInput when used in BottomSheetModal
   inputRef?: React.RefObject<NewCommentInputRef | null>; // Ref for programmatic focus control
   onRefresh?: () => Promise<void>; // Pull-to-refresh callback
   onClose?: () => void; // Callback when sheet is dismissed/closed
+  // Read position: divider above the first reply since the last visit
+  unreadDivider?: { commentId: string; count: number } | null;
+  // Post stream paging
+  hasMore?: boolean;
+  hasPrevious?: boolean;
+  isLoadingMore?: boolean;
+  isLoadingPrevious?: boolean;
+  onLoadMore?: () => void;
+  onLoadPrevious?: () => void;
+  // Reports the comments on screen (empty when the sheet closes), e.g. for read timings
+  onVisibleCommentsChange?: (commentIds: string[]) => void;
 }
 
 export interface CommentsSheetRef {
@@ -39,6 +66,8 @@ const HORIZONTAL_PADDING_IOS = 12;
 const HORIZONTAL_PADDING_ANDROID = 16;
 const CONTENT_PADDING_TOP_IOS = 8;
 const CONTENT_PADDING_TOP_ANDROID = 4;
+const UNREAD_JUMP_DELAY = 350; // Let the present animation settle before scrolling
+const VIEWABILITY_CONFIG = { itemVisiblePercentThreshold: 50 };
 
 /**
  * CommentsSheet - Premium bottom sheet for viewing and writing comments
@@ -53,8 +82,43 @@ const CONTENT_PADDING_TOP_ANDROID = 4;
  * - Features: detached mode, pull-to-refresh, enhanced gestures, dynamic sizing
  */
 export const CommentsSheet = forwardRef<CommentsSheetRef, CommentsSheetProps>(
-  ({ byteId, comments, onLike, onReply, onSend, replyTo, isAuthenticated, inputRef, onRefresh, onClose }, ref) => {
+  (
+    {
+      byteId,
+      comments,
+      onLike,
+      onReply,
+      onFlag,
+      reactionOptions,
+      onReact,
+      onShowReactions,
+      onQuote,
+      onDelete,
+      onRecover,
+      onSend,
+      replyTo,
+      participants,
+      pendingQuote,
+      onQuoteInserted,
+      isAuthenticated,
+      inputRef,
+      onRefresh,
+      onClose,
+      unreadDivider,
+      hasMore,
+      hasPrevious,
+      isLoadingMore,
+      isLoadingPrevious,
+      onLoadMore,
+      onLoadPrevious,
+      onVisibleCommentsChange,
+    },
+    ref
+  ) => {
     const sheetRef = useRef<BottomSheetModalRef>(null);
+    const listRef = useRef<React.ElementRef<typeof BottomSheetFlatList>>(null);
+    const pendingUnreadJumpRef = useRef(false);
+    const [hasSeenUnread, setHasSeenUnread] = useState(false);
     const currentSnapIndexRef = useRef<number>(-1); // Track current snap index
     const { isDark, isAmoled } = useTheme();
     const mode = isDark ? (isAmoled ? 'darkAmoled' : 'dark') : 'light';
@@ -62,6 +126,61 @@ export const CommentsSheet = forwardRef<CommentsSheetRef, CommentsSheetProps>(
     const insets = useSafeAreaInsets();
     const [isRefreshing, setIsRefreshing] = useState(false);
 
+    const unreadIndex = React.useMemo(
+      () => (unreadDivider ? comments.findIndex((comment) => comment.id === unreadDivider.commentId) : -1),
+      [comments, unreadDivider]
+    );
+
+    const jumpToFirstUnread = useCallback(() => {
+      if (unreadIndex < 0) return;
+      listRef.current?.scrollToIndex({ index: unreadIndex, animated: true, viewPosition: 0 });
+      setHasSeenUnread(true);
+    }, [unreadIndex]);
+
+    // Jump once the sheet is open and the unread reply has loaded
+    useEffect(() => {
+      if (!pendingUnreadJumpRef.current || unreadIndex < 0 || currentSnapIndexRef.current === -1) {
+        return;
+      }
+      pendingUnreadJumpRef.current = false;
+      const timeout = setTimeout(jumpToFirstUnread, UNREAD_JUMP_DELAY);
+      return () => clearTimeout(timeout);
+    }, [unreadIndex, jumpToFirstUnread]);
+
+    // Items that haven't been measured yet can't be scrolled to directly
+    const handleScrollToIndexFailed = useCallback(
+      (info: { index: number; averageItemLength: number }) => {
+        listRef.current?.scrollToOffset({ offset: info.index * info.averageItemLength, animated: false });
+        setTimeout(() => {
+          listRef.current?.scrollToIndex({ index: info.index, animated: true, viewPosition: 0 });
+        }, 100);
+      },
+      []
+    );
+
+    // Hide the jump pill once the divider has been on screen
+    // (FlatList requires a stable viewability callback, so read the latest props through refs)
+    const unreadCommentIdRef = useRef<string | undefined>(undefined);
+    unreadCommentIdRef.current = unreadDivider?.commentId;
+    const onVisibleCommentsChangeRef = useRef(onVisibleCommentsChange);
+    onVisibleCommentsChangeRef.current = onVisibleCommentsChange;
+    const handleViewableItemsChanged = useRef(({ viewableItems }: { viewableItems: ViewToken[] }) => {
+      if (viewableItems.some((token) => token.key === unreadCommentIdRef.current)) {
+        setHasSeenUnread(true);
+      }
+      if (currentSnapIndexRef.current !== -1) {
+        onVisibleCommentsChangeRef.current?.(
+          viewableItems.filter((token) => token.isViewable).map((token) => String(token.key))
+        );
+      }
+    }).current;
+
+    const handleEndReached = useCallback(() => {
+      if (hasMore && !isLoadingMore) {
+        onLoadMore?.();
+      }
+    }, [hasMore, isLoadingMore, onLoadMore]);
+
     // Expose methods via ref
     useImperativeHandle(ref, () => ({
       present: () => {
@@ -69,6 +188,14 @@ export const CommentsSheet = forwardRef<CommentsSheetRef, CommentsSheetProps>(
         // Start at medium snap point (index 0)
         currentSnapIndexRef.current = 0;
         sheetRef.current?.snapToIndex(0);
+        // Reopen where the user left off
+        if (!hasSeenUnread) {
+          if (unreadIndex >= 0) {
+            setTimeout(jumpToFirstUnread, UNREAD_JUMP_DELAY);
+          } else {
+            pendingUnreadJumpRef.current = true;
+          }
+        }
       },
       dismiss: () => {
         sheetRef.current?.dismiss();
@@ -85,9 +212,10 @@ export const CommentsSheet = forwardRef<CommentsSheetRef, CommentsSheetProps>(
       currentSnapIndexRef.current = index;
       // Notify parent when sheet closes
       if (index === -1) {
+        onVisibleCommentsChange?.([]);
         onClose?.();
       }
-    }, [onClose]);
+    }, [onClose, onVisibleCommentsChange]);
 
     // Handle input focus - expand to full screen
     // This ensures the sheet expands when user taps input to add a new comment
@@ -164,19 +292,52 @@ export const CommentsSheet = forwardRef<CommentsSheetRef, CommentsSheetProps>(
 
     const renderCommentItem = useCallback(
       ({ item }: { item: Comment }) => (
-        <CommentItem
-          comment={item}
-          isReply={item.isReply}
-          shouldAnimate={item.isNew}
-          onLike={onLike}
-          onReply={onReply}
-          isDark={isDark}
-          mode={mode}
-        />
+        <>
+          {unreadDivider?.commentId === item.id && (
+            <View
+              className="flex-row items-center my-3"
+              accessible
+              accessibilityRole="text"
+              accessibilityLabel={`${unreadDivider.count} new ${unreadDivider.count === 1 ? 'reply' : 'replies'} since your last visit`}
+            >
+              <View style={{ flex: 1, height: 1, backgroundColor: tokens.colors.accent }} />
+              <Text style={{ marginHorizontal: 8, fontSize: 12, fontWeight: '600', color: tokens.colors.accent }}>
+                {unreadDivider.count} new {unreadDivider.count === 1 ? 'reply' : 'replies'} since your last visit
+              </Text>
+              <View style={{ flex: 1, height: 1, backgroundColor: tokens.colors.accent }} />
+            </View>
+          )}
+          <CommentItem
+            comment={item}
+            isReply={item.isReply}
+            shouldAnimate={item.isNew}
+            onLike={onLike}
+            onReply={onReply}
+            onFlag={onFlag}
+            reactionOptions={reactionOptions}
+            onReact={onReact}
+            onShowReactions={onShowReactions}
+            onQuote={onQuote}
+            onDelete={onDelete}
+            onRecover={onRecover}
+            isDark={isDark}
+            mode={mode}
+          />
+        </>
       ),
-      [onLike, onReply, isDark, mode]
+      [onLike, onReply, onFlag, reactionOptions, onReact, onShowReactions, onQuote, onDelete, onRecover, isDark, mode, unreadDivider, tokens.colors.accent]
     );
 
+    const renderListHeader = useCallback(() => {
+      if (!hasPrevious) return null;
+      return <EarlierRepliesButton onPress={onLoadPrevious} isLoading={isLoadingPrevious} mode={mode} />;
+    }, [hasPrevious, isLoadingPrevious, onLoadPrevious, mode]);
+
+    const renderListFooter = useCallback(() => {
+      if (!isLoadingMore) return null;
+      return <MoreRepliesSpinner mode={mode} />;
+    }, [isLoadingMore, mode]);
+
     const renderEmptyState = useCallback(
       () => (
         <View className="py-12 px-5 items-center">
@@ -202,11 +363,16 @@ export const CommentsSheet = forwardRef<CommentsSheetRef, CommentsSheetProps>(
               replyTo={replyTo || undefined}
               onFocus={handleInputFocus}
               isAuthenticated={isAuthenticated}
+              topicId={byteId}
+              participants={participants}
+              pendingQuote={pendingQuote}
+              onQuoteInserted={onQuoteInserted}
+              draftKey={byteId ? getReplyDraftKey(byteId) : undefined}
             />
           </View>
         </BottomSheetFooter>
       ),
-      [footerStyle, inputRef, onSend, replyTo, handleInputFocus, isAuthenticated]
+      [footerStyle, inputRef, onSend, replyTo, handleInputFocus, isAuthenticated, byteId, participants, pendingQuote, onQuoteInserted]
     );
 
     return (
@@ -231,6 +397,7 @@ export const CommentsSheet = forwardRef<CommentsSheetRef, CommentsSheetProps>(
         accessibilityLabel="Comments sheet"
       >
         <BottomSheetFlatList
+          ref={listRef}
           data={comments}
           keyExtractor={(item: Comment) => item.id}
           renderItem={renderCommentItem}
@@ -253,7 +420,24 @@ export const CommentsSheet = forwardRef<CommentsSheetRef, CommentsSheetProps>(
             ) : undefined
           }
           ListEmptyComponent={renderEmptyState}
+          ListHeaderComponent={renderListHeader}
+          ListFooterComponent={renderListFooter}
+          onEndReached={handleEndReached}
+          onEndReachedThreshold={0.5}
+          onScrollToIndexFailed={handleScrollToIndexFailed}
+          onViewableItemsChanged={handleViewableItemsChanged}
+          viewabilityConfig={VIEWABILITY_CONFIG}
+          // Keep the reader in place when earlier replies are prepended
+          maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
         />
+        {unreadIndex >= 0 && !hasSeenUnread && (
+          <View
+            pointerEvents="box-none"
+            style={{ position: 'absolute', left: 0, right: 0, bottom: CONTENT_PADDING_BOTTOM }}
+          >
+            <UnreadRepliesPill label="Jump to first unread" onPress={jumpToFirstUnread} mode={mode} />
+          </View>
+        )}
       </ThemedBottomSheet>
     );
   }
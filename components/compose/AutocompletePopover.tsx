@@ -0,0 +1,147 @@
+// UI Spec: AutocompletePopover
+// - Suggestion list for the @mention or #hashtag being typed (see useAutocomplete)
+// - Users show avatar, name and @username; hashtags show the category color and its hub
+// - Highlighted row follows arrow keys on hardware keyboards; tap picks a row
+// - Keeps taps from dismissing the keyboard
+
+import React, { useMemo } from 'react';
+import { View, Text, Pressable, ScrollView, ActivityIndicator, StyleSheet } from 'react-native';
+import { Image } from 'expo-image';
+import { useTheme } from '@/components/theme';
+import { getTokens } from '@/shared/design/tokens';
+import { discourseApi } from '@/shared/discourseApi';
+import { AutocompleteSuggestion } from '@/shared/autocomplete';
+
+interface AutocompletePopoverProps {
+  suggestions: AutocompleteSuggestion[];
+  highlightedIndex: number;
+  onSelect: (suggestion: AutocompleteSuggestion) => void;
+  onHighlight?: (index: number) => void;
+  isSearching?: boolean;
+  maxHeight?: number;
+}
+
+export function AutocompletePopover({
+  suggestions,
+  highlightedIndex,
+  onSelect,
+  onHighlight,
+  isSearching = false,
+  maxHeight = 220,
+}: AutocompletePopoverProps) {
+  const { isDark, isAmoled } = useTheme();
+  const themeMode = isAmoled ? 'darkAmoled' : isDark ? 'dark' : 'light';
+  const tokens = useMemo(() => getTokens(themeMode), [themeMode]);
+
+  if (suggestions.length === 0 && !isSearching) {
+    return null;
+  }
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { backgroundColor: tokens.colors.background, borderColor: tokens.colors.border, maxHeight },
+      ]}
+      accessibilityRole="menu"
+      accessibilityLabel="Suggestions"
+    >
+      {suggestions.length === 0 ? (
+        <View style={styles.searching}>
+          <ActivityIndicator size="small" color={tokens.colors.muted} />
+        </View>
+      ) : (
+        <ScrollView keyboardShouldPersistTaps="always" nestedScrollEnabled>
+          {suggestions.map((suggestion, index) => {
+            const highlighted = index === highlightedIndex;
+            const label =
+              suggestion.type === 'user' ? `@${suggestion.username}` : `#${suggestion.ref}`;
+
+            return (
+              <Pressable
+                key={suggestion.key}
+                onPress={() => onSelect(suggestion)}
+                onHoverIn={() => onHighlight?.(index)}
+                style={[styles.row, highlighted && { backgroundColor: tokens.colors.accentSoft }]}
+                accessibilityRole="menuitem"
+                accessibilityLabel={
+                  suggestion.type === 'user'
+                    ? `Mention ${suggestion.name || suggestion.username}`
+                    : `Link ${suggestion.name}`
+                }
+                accessibilityState={{ selected: highlighted }}
+              >
+                {suggestion.type === 'user' ? (
+                  suggestion.avatarUrl || suggestion.avatarTemplate ? (
+                    <Image
+                      source={{
+                        uri: suggestion.avatarUrl || discourseApi.getAvatarUrl(suggestion.avatarTemplate!, 48),
+                      }}
+                      style={styles.avatar}
+                      cachePolicy="memory-disk"
+                    />
+                  ) : (
+                    <View style={[styles.avatar, { backgroundColor: tokens.colors.accentSoft }]} />
+                  )
+                ) : (
+                  <View style={[styles.swatch, { backgroundColor: `#${suggestion.color.replace('#', '')}` }]} />
+                )}
+                <View style={styles.text}>
+                  <Text style={[styles.primary, { color: tokens.colors.text }]} numberOfLines={1}>
+                    {suggestion.type === 'user' ? suggestion.name || suggestion.username : suggestion.name}
+                  </Text>
+                  <Text style={[styles.secondary, { color: tokens.colors.muted }]} numberOfLines={1}>
+                    {suggestion.type === 'hashtag' && suggestion.parentName
+                      ? `${label} · ${suggestion.parentName}`
+                      : label}
+                  </Text>
+                </View>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 4,
+    overflow: 'hidden',
+  },
+  searching: {
+    paddingVertical: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  avatar: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+  },
+  swatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 3,
+    marginHorizontal: 8,
+  },
+  text: {
+    flex: 1,
+    minWidth: 0,
+  },
+  primary: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  secondary: {
+    fontSize: 12,
+  },
+});
@@ -4,6 +4,9 @@
 // - TeretChip for category selection with color indicator
 // - SegmentedControl for Write/Preview toggle
 // - FloatingToolbar appears on text selection
+// - Poll builder (from the toolbar) inserts [poll] BBCode
+// - /emoji opens the emoji picker, which inserts a :name: code
+// - @mention and #hashtag autocomplete below the body
 // - Character count indicators
 // - Focus animations and micro-interactions
 // - Clean visual hierarchy with subtle dividers
@@ -43,14 +46,21 @@ import { getTokens } from '@/shared/design/tokens';
 import { SegmentedControl } from './SegmentedControl';
 import { FloatingToolbar } from './FloatingToolbar';
 import { TeretChip } from './TeretChip';
+import { PollBuilderSheet } from './PollBuilderSheet';
+import { EmojiPickerSheet } from './EmojiPickerSheet';
+import { AutocompletePopover } from './AutocompletePopover';
+import { getNextPollName, pollOptionsFromText } from '@/shared/polls';
+import { insertEmojiCode } from '@/shared/emoji';
+import { HashtagCategory } from '@/shared/autocomplete';
+import { useAutocomplete } from '@/shared/useAutocomplete';
 import { PencilSimple, Eye } from 'phosphor-react-native';
 
 type EditorMode = 'write' | 'preview';
-type FormatAction = 'bold' | 'italic' | 'link' | 'code' | 'quote' | 'list' | 'heading';
+type FormatAction = 'bold' | 'italic' | 'link' | 'code' | 'quote' | 'list' | 'heading' | 'poll';
 
 // All supported slash commands (lowercase for matching)
 const SUPPORTED_COMMANDS = [
-  '/help', '/image', '/b', '/bold', '/i', '/italic', '/link',
+  '/help', '/image', '/emoji', '/b', '/bold', '/i', '/italic', '/link',
   '/code', '/fence', '/h1', '/h2', '/h3', '/quote', '/list', '/todo', '/task',
 ] as const;
 
@@ -77,6 +87,9 @@ interface ComposeEditorProps {
   onModeChange: (mode: EditorMode) => void;
   minTitle?: number;
   minBody?: number;
+  maxTitle?: number;
+  // Categories offered for #hashtags
+  categories?: HashtagCategory[];
 }
 
 // Animated TextInput wrapper for focus effects
@@ -98,6 +111,8 @@ export function ComposeEditor({
   onModeChange,
   minTitle = 15,
   minBody = 20,
+  maxTitle = 255,
+  categories,
 }: ComposeEditorProps) {
   const { isDark, isAmoled } = useTheme();
   const insets = useSafeAreaInsets();
@@ -116,6 +131,10 @@ export function ComposeEditor({
   const [titleFocused, setTitleFocused] = useState(false);
   const [bodyFocused, setBodyFocused] = useState(false);
   const [showToolbar, setShowToolbar] = useState(false);
+  // Where the poll builder inserts its [poll] block, and the options taken from the selection
+  const [pollTarget, setPollTarget] = useState<{ start: number; end: number; options: string[] } | null>(null);
+  // Where the emoji picker inserts its :name: code
+  const [emojiTarget, setEmojiTarget] = useState<{ start: number; end: number } | null>(null);
   const [bodyInputLayout, setBodyInputLayout] = useState({ x: 0, y: 0, width: 0, height: 0 });
 
   // Refs
@@ -330,6 +349,32 @@ export function ComposeEditor({
     [onChangeBody]
   );
 
+  const insertPoll = useCallback(
+    (markup: string) => {
+      if (!pollTarget) return;
+      const before = body.slice(0, pollTarget.start);
+      const after = body.slice(pollTarget.end);
+      // The block must sit on its own lines to be cooked as a poll
+      const leading = before && !before.endsWith('\n') ? '\n\n' : '';
+      const trailing = after.startsWith('\n') ? '\n' : '\n\n';
+      const block = `${leading}${markup}${trailing}`;
+      const cursor = before.length + block.length;
+      onChangeBody(before + block + after);
+      setSelection({ start: cursor, end: cursor });
+    },
+    [body, pollTarget, onChangeBody]
+  );
+
+  const insertEmoji = useCallback(
+    (name: string) => {
+      if (!emojiTarget) return;
+      const { text, cursor } = insertEmojiCode(body, emojiTarget, name);
+      onChangeBody(text);
+      setSelection({ start: cursor, end: cursor });
+    },
+    [body, emojiTarget, onChangeBody]
+  );
+
   // Floating toolbar action handler
   const handleToolbarAction = useCallback(
     (action: FormatAction) => {
@@ -356,6 +401,10 @@ export function ComposeEditor({
         case 'heading':
           applyH2(body, sel);
           break;
+        case 'poll':
+          // Selected lines become the poll's options
+          setPollTarget({ ...sel, options: pollOptionsFromText(body.slice(sel.start, sel.end)) });
+          break;
       }
       setShowToolbar(false);
       triggerCommandHaptic(true);
@@ -433,6 +482,12 @@ export function ComposeEditor({
             }
             break;
 
+          case '/emoji':
+            onChangeBody(cleanText);
+            setSelection(adjustedSel);
+            setEmojiTarget(adjustedSel);
+            break;
+
           case '/b':
           case '/bold':
             applyBold(cleanText, adjustedSel);
@@ -512,10 +567,28 @@ export function ComposeEditor({
     ]
   );
 
+  const handleAutocompleteChange = useCallback(
+    (text: string, cursor: number) => {
+      lastProcessedBody.current = text;
+      onChangeBody(text);
+      setSelection({ start: cursor, end: cursor });
+    },
+    [onChangeBody]
+  );
+
+  const autocomplete = useAutocomplete({
+    text: body,
+    selection,
+    onChange: handleAutocompleteChange,
+    categoryId: selectedTeret?.id,
+    categories,
+    enabled: mode === 'write',
+  });
+
   // Body change handler
   const handleBodyChange = useCallback(
     (text: string) => {
-      if (isProcessingCommand.current) return;
+      if (isProcessingCommand.current || autocomplete.shouldIgnoreChange()) return;
 
       const estimatedCursorPos = text.length;
       isProcessingCommand.current = true;
@@ -527,7 +600,7 @@ export function ComposeEditor({
         onChangeBody(text);
       }
     },
-    [processCommand, onChangeBody]
+    [processCommand, onChangeBody, autocomplete.shouldIgnoreChange]
   );
 
   // Selection change handler - show toolbar on selection
@@ -630,7 +703,7 @@ export function ComposeEditor({
             scrollEnabled
             placeholder="Your title here..."
             placeholderTextColor={placeholderColor}
-            maxLength={255}
+            maxLength={maxTitle}
             style={[styles.titleInput, { color: textColor }]}
             accessible
             accessibilityLabel="Post title"
@@ -690,6 +763,7 @@ export function ComposeEditor({
               onFocus={() => setBodyFocused(true)}
               onBlur={() => setBodyFocused(false)}
               onSelectionChange={handleSelectionChange}
+              onKeyPress={autocomplete.handleKeyPress}
               onLayout={(e) => {
                 const { x, y, width, height } = e.nativeEvent.layout;
                 setBodyInputLayout({ x, y, width, height });
@@ -709,6 +783,18 @@ export function ComposeEditor({
               accessibilityHint="Write your post content. Use slash commands for formatting."
             />
 
+            {autocomplete.isOpen && (
+              <Animated.View entering={FadeIn.duration(120)} style={styles.autocomplete}>
+                <AutocompletePopover
+                  suggestions={autocomplete.suggestions}
+                  highlightedIndex={autocomplete.highlightedIndex}
+                  onHighlight={autocomplete.setHighlightedIndex}
+                  onSelect={autocomplete.select}
+                  isSearching={autocomplete.isSearching}
+                />
+              </Animated.View>
+            )}
+
             {/* Floating Toolbar - positioned above body input */}
             <FloatingToolbar
               visible={showToolbar}
@@ -740,11 +826,29 @@ export function ComposeEditor({
           <Text style={styles.errorText}>{bodyError}</Text>
         </Animated.View>
       )}
+
+      <PollBuilderSheet
+        visible={pollTarget !== null}
+        onClose={() => setPollTarget(null)}
+        onInsert={insertPoll}
+        pollName={getNextPollName(body)}
+        initialOptions={pollTarget?.options}
+      />
+
+      <EmojiPickerSheet
+        visible={emojiTarget !== null}
+        onClose={() => setEmojiTarget(null)}
+        onPick={insertEmoji}
+      />
     </View>
   );
 }
 
 const styles = StyleSheet.create({
+  autocomplete: {
+    marginTop: 4,
+    marginBottom: 8,
+  },
   container: {
     flex: 1,
     flexGrow: 1,
@@ -0,0 +1,184 @@
+// UI Spec: EmojiPickerSheet
+// - Bottom modal opened with the /emoji slash command
+// - Search by name; otherwise browse by group (standard groups, then the site's custom emoji)
+// - Custom emoji come from /emojis.json and are shown from their image
+// - Picking inserts the :name: code at the cursor; Discourse cooks it into the emoji
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  Pressable,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { MagnifyingGlass, X } from 'phosphor-react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '@/components/theme';
+import { getTokens } from '@/shared/design/tokens';
+import { EmojiItem, getEmojiGroups, searchEmoji } from '@/shared/emoji';
+import { useCustomEmojis } from '@/shared/useCustomEmojis';
+import { EmojiGlyph } from '../feed/EmojiGlyph';
+
+interface EmojiPickerSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  onPick: (name: string) => void;
+}
+
+const CELL_SIZE = 44;
+
+export function EmojiPickerSheet({ visible, onClose, onPick }: EmojiPickerSheetProps) {
+  const { isDark, isAmoled } = useTheme();
+  const mode = isDark ? (isAmoled ? 'darkAmoled' : 'dark') : 'light';
+  const tokens = useMemo(() => getTokens(mode), [mode]);
+  const insets = useSafeAreaInsets();
+  const { customEmojis, isLoading } = useCustomEmojis(visible);
+  const [query, setQuery] = useState('');
+  const [groupId, setGroupId] = useState<string | null>(null);
+
+  // Start fresh each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setQuery('');
+      setGroupId(null);
+    }
+  }, [visible]);
+
+  const groups = useMemo(() => getEmojiGroups(customEmojis), [customEmojis]);
+  const activeGroup = groups.find((group) => group.id === groupId) ?? groups[0];
+  const results = useMemo(
+    () => (query.trim() ? searchEmoji(query, customEmojis) : null),
+    [query, customEmojis]
+  );
+  const emoji: EmojiItem[] = results ?? activeGroup?.emoji ?? [];
+
+  const handlePick = (name: string) => {
+    Haptics.selectionAsync().catch(() => {});
+    onPick(name);
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView className="flex-1" behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <Pressable
+          className="flex-1 justify-end"
+          onPress={onClose}
+          style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}
+        >
+          <Pressable onPress={(e) => e.stopPropagation()}>
+            <View
+              className="bg-fomio-bg dark:bg-fomio-bg-dark rounded-t-3xl"
+              style={{ paddingBottom: insets.bottom + 8, paddingTop: 12, height: 460 }}
+            >
+              {/* Header */}
+              <View className="flex-row items-center justify-between px-4 pb-3 border-b border-fomio-border-soft dark:border-fomio-border-soft-dark">
+                <Text className="flex-1 text-title font-semibold text-fomio-foreground dark:text-fomio-foreground-dark">
+                  Emoji
+                </Text>
+                <TouchableOpacity
+                  onPress={onClose}
+                  className="p-2"
+                  accessible
+                  accessibilityRole="button"
+                  accessibilityLabel="Close emoji picker"
+                >
+                  <X size={20} color={tokens.colors.muted} weight="regular" />
+                </TouchableOpacity>
+              </View>
+
+              {/* Search */}
+              <View
+                className="flex-row items-center mx-4 mt-3 px-3 rounded-xl border"
+                style={{ borderColor: tokens.colors.border }}
+              >
+                <MagnifyingGlass size={16} color={tokens.colors.muted} weight="regular" />
+                <TextInput
+                  value={query}
+                  onChangeText={setQuery}
+                  placeholder="Search emoji"
+                  placeholderTextColor={tokens.colors.muted}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  className="flex-1 ml-2 py-2"
+                  style={{ color: tokens.colors.text, fontSize: 15 }}
+                  accessibilityLabel="Search emoji"
+                />
+              </View>
+
+              {/* Groups */}
+              {!results && (
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  style={{ flexGrow: 0 }}
+                  contentContainerStyle={{ paddingHorizontal: 16, paddingTop: 12, gap: 8 }}
+                >
+                  {groups.map((group) => {
+                    const selected = group.id === activeGroup?.id;
+                    return (
+                      <TouchableOpacity
+                        key={group.id}
+                        onPress={() => setGroupId(group.id)}
+                        className="px-3 py-1.5 rounded-full border"
+                        style={{
+                          borderColor: selected ? tokens.colors.accent : tokens.colors.border,
+                          backgroundColor: selected ? tokens.colors.accentSoft : 'transparent',
+                        }}
+                        accessible
+                        accessibilityRole="tab"
+                        accessibilityState={{ selected }}
+                        accessibilityLabel={group.name}
+                      >
+                        <Text
+                          style={{
+                            fontSize: 13,
+                            fontWeight: '600',
+                            color: selected ? tokens.colors.accent : tokens.colors.muted,
+                            textTransform: 'capitalize',
+                          }}
+                        >
+                          {group.name}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              )}
+
+              {/* Grid */}
+              <ScrollView
+                keyboardShouldPersistTaps="handled"
+                contentContainerStyle={{ flexDirection: 'row', flexWrap: 'wrap', paddingHorizontal: 12, paddingVertical: 8 }}
+              >
+                {emoji.map((item) => (
+                  <TouchableOpacity
+                    key={`${item.group}:${item.name}`}
+                    onPress={() => handlePick(item.name)}
+                    style={{ width: CELL_SIZE, height: CELL_SIZE, alignItems: 'center', justifyContent: 'center' }}
+                    accessible
+                    accessibilityRole="button"
+                    accessibilityLabel={item.name.replace(/_/g, ' ')}
+                  >
+                    <EmojiGlyph name={item.name} size={28} customEmojis={customEmojis} color={tokens.colors.muted} />
+                  </TouchableOpacity>
+                ))}
+                {emoji.length === 0 && (
+                  <Text className="w-full text-center py-6" style={{ color: tokens.colors.muted, fontSize: 14 }}>
+                    {isLoading ? 'Loading emoji…' : `No emoji match "${query.trim()}".`}
+                  </Text>
+                )}
+              </ScrollView>
+            </View>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
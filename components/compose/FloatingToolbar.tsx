@@ -28,6 +28,7 @@ import {
   Quotes,
   ListBullets,
   Hash,
+  ChartBar,
 } from 'phosphor-react-native';
 
 type FormatAction =
@@ -37,7 +38,8 @@ type FormatAction =
   | 'code'
   | 'quote'
   | 'list'
-  | 'heading';
+  | 'heading'
+  | 'poll';
 
 interface FloatingToolbarProps {
   visible: boolean;
@@ -58,6 +60,7 @@ const TOOLBAR_ACTIONS: Array<{
   { action: 'quote', icon: Quotes, label: 'Quote' },
   { action: 'list', icon: ListBullets, label: 'List' },
   { action: 'heading', icon: Hash, label: 'Heading' },
+  { action: 'poll', icon: ChartBar, label: 'Poll' },
 ];
 
 const SPRING_CONFIG = { damping: 16, stiffness: 260 };
@@ -35,6 +35,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { 
   X, 
   ImageSquare, 
+  Smiley,
   Hash, 
   TextItalic, 
   Quotes, 
@@ -223,6 +224,13 @@ export function HelpSheet({ visible, onClose, onInsertCommand }: HelpSheetProps)
             preview: '![image](url)',
             icon: ImageSquare,
           },
+          {
+            cmd: '/emoji',
+            aliases: [],
+            description: 'Pick an emoji, including the community\'s custom ones.',
+            preview: ':smile:',
+            icon: Smiley,
+          },
         ],
       },
       {
@@ -3,26 +3,46 @@
 // - Implement remove functionality (X button)
 // - Support 1-5 images with responsive layout
 // - Use expo-image for optimized image rendering
-// - Prepare structure for future video/GIF support
+// - Show upload progress over items still uploading; X cancels them
+// - Failed uploads show the error and a retry button
+// - Videos show a placeholder tile
 
 import React from 'react';
 import { View, Text, TouchableOpacity, ScrollView } from 'react-native';
 import { Image } from 'expo-image';
-import { X } from 'phosphor-react-native';
+import { ArrowClockwise, VideoCamera, X } from 'phosphor-react-native';
 import { cn } from '@/lib/utils/cn';
+import type { UploadStatus } from '@/shared/uploads';
 
 export interface MediaItem {
   uri: string;
   type?: 'image' | 'video' | 'gif';
+  // Set while the item is going through the upload manager
+  uploadId?: string;
+  status?: UploadStatus;
+  // 0-1
+  progress?: number;
+  error?: string;
 }
 
 interface MediaGridProps {
   media: MediaItem[];
   onRemove: (index: number) => void;
+  onCancel?: (item: MediaItem) => void;
+  onRetry?: (item: MediaItem) => void;
   maxItems?: number;
 }
 
-export function MediaGrid({ media, onRemove, maxItems = 5 }: MediaGridProps) {
+function isInFlight(item: MediaItem): boolean {
+  return (
+    item.status === 'queued' ||
+    item.status === 'preparing' ||
+    item.status === 'uploading' ||
+    item.status === 'retrying'
+  );
+}
+
+export function MediaGrid({ media, onRemove, onCancel, onRetry, maxItems = 5 }: MediaGridProps) {
   if (media.length === 0) {
     return null;
   }
@@ -34,29 +54,80 @@ export function MediaGrid({ media, onRemove, maxItems = 5 }: MediaGridProps) {
         showsHorizontalScrollIndicator={false}
         contentContainerStyle={{ gap: 12 }}
       >
-        {media.slice(0, maxItems).map((item, index) => (
-          <View
-            key={`${item.uri}-${index}`}
-            className="relative w-24 h-24 rounded-fomio-card overflow-hidden bg-fomio-card dark:bg-fomio-card-dark border border-fomio-border-soft dark:border-fomio-border-soft-dark"
-          >
-            <Image
-              source={{ uri: item.uri }}
-              style={{ width: '100%', height: '100%' }}
-              contentFit="cover"
-              transition={120}
-              cachePolicy="memory-disk"
-            />
-            <TouchableOpacity
-              onPress={() => onRemove(index)}
-              className="absolute top-1 right-1 w-6 h-6 rounded-full bg-black/50 items-center justify-center"
-              accessible
-              accessibilityRole="button"
-              accessibilityLabel="Remove image"
+        {media.slice(0, maxItems).map((item, index) => {
+          const inFlight = isInFlight(item);
+          const failed = item.status === 'failed';
+          const percent = Math.round((item.progress ?? 0) * 100);
+
+          return (
+            <View
+              key={item.uploadId ?? `${item.uri}-${index}`}
+              className={cn(
+                'relative w-24 h-24 rounded-fomio-card overflow-hidden bg-fomio-card dark:bg-fomio-card-dark border',
+                failed
+                  ? 'border-fomio-danger dark:border-fomio-danger-dark'
+                  : 'border-fomio-border-soft dark:border-fomio-border-soft-dark'
+              )}
             >
-              <X size={14} color="#FFFFFF" weight="bold" />
-            </TouchableOpacity>
-          </View>
-        ))}
+              {item.type === 'video' ? (
+                <View className="flex-1 items-center justify-center">
+                  <VideoCamera size={28} color="#8E8E93" weight="regular" />
+                </View>
+              ) : (
+                <Image
+                  source={{ uri: item.uri }}
+                  style={{ width: '100%', height: '100%', opacity: inFlight || failed ? 0.6 : 1 }}
+                  contentFit="cover"
+                  transition={120}
+                  cachePolicy="memory-disk"
+                />
+              )}
+
+              {inFlight && (
+                <View
+                  className="absolute inset-x-0 bottom-0 px-1.5 pb-1.5"
+                  accessible
+                  accessibilityRole="progressbar"
+                  accessibilityLabel={item.status === 'retrying' ? 'Waiting to retry upload' : 'Uploading'}
+                  accessibilityValue={{ min: 0, max: 100, now: percent }}
+                >
+                  <Text className="text-caption text-white mb-1" numberOfLines={1}>
+                    {item.status === 'retrying' ? 'Retrying…' : item.status === 'uploading' ? `${percent}%` : 'Preparing…'}
+                  </Text>
+                  <View className="h-1 rounded-full bg-black/40 overflow-hidden">
+                    <View className="h-1 bg-white" style={{ width: `${percent}%` }} />
+                  </View>
+                </View>
+              )}
+
+              {failed && onRetry && (
+                <TouchableOpacity
+                  onPress={() => onRetry(item)}
+                  className="absolute inset-0 items-center justify-center bg-black/40"
+                  accessible
+                  accessibilityRole="button"
+                  accessibilityLabel="Retry upload"
+                  accessibilityHint={item.error}
+                >
+                  <ArrowClockwise size={22} color="#FFFFFF" weight="bold" />
+                  <Text className="text-caption text-white mt-1 px-1 text-center" numberOfLines={2}>
+                    {item.error || 'Upload failed'}
+                  </Text>
+                </TouchableOpacity>
+              )}
+
+              <TouchableOpacity
+                onPress={() => (inFlight && onCancel ? onCancel(item) : onRemove(index))}
+                className="absolute top-1 right-1 w-6 h-6 rounded-full bg-black/50 items-center justify-center"
+                accessible
+                accessibilityRole="button"
+                accessibilityLabel={inFlight ? 'Cancel upload' : item.type === 'video' ? 'Remove video' : 'Remove image'}
+              >
+                <X size={14} color="#FFFFFF" weight="bold" />
+              </TouchableOpacity>
+            </View>
+          );
+        })}
       </ScrollView>
       {media.length > maxItems && (
         <Text className="text-caption text-fomio-muted dark:text-fomio-muted-dark mt-2 text-center">
@@ -0,0 +1,395 @@
+// UI Spec: PollBuilderSheet
+// - Bottom modal opened from the FloatingToolbar poll action; selected lines become options
+// - Single choice, multiple choice (min/max) and number (range/step) polls
+// - Optional title, results visibility and public votes
+// - Inserts the [poll] BBCode at the cursor; Discourse cooks it into a poll block
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  Pressable,
+  ScrollView,
+  Switch,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Plus, Minus, Trash, X } from 'phosphor-react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '@/components/theme';
+import { getTokens } from '@/shared/design/tokens';
+import {
+  PollBuilderInput,
+  PollResultsVisibility,
+  PollType,
+  buildPollMarkup,
+  validatePollInput,
+} from '@/shared/polls';
+import { SegmentedControl } from './SegmentedControl';
+
+interface PollBuilderSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  onInsert: (markup: string) => void;
+  // Name for the new poll; must be unique within the post
+  pollName?: string;
+  // Prefilled options, e.g. from the lines selected in the editor
+  initialOptions?: string[];
+}
+
+const TYPE_SEGMENTS: Array<{ value: PollType; label: string }> = [
+  { value: 'regular', label: 'Single' },
+  { value: 'multiple', label: 'Multiple' },
+  { value: 'number', label: 'Number' },
+];
+
+const RESULTS_OPTIONS: Array<{ value: PollResultsVisibility; label: string }> = [
+  { value: 'always', label: 'Always' },
+  { value: 'on_vote', label: 'After voting' },
+  { value: 'on_close', label: 'When closed' },
+  { value: 'staff_only', label: 'Staff only' },
+];
+
+function Stepper({
+  label,
+  value,
+  onChange,
+  min,
+  max,
+  tokens,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  min: number;
+  max: number;
+  tokens: ReturnType<typeof getTokens>;
+}) {
+  const change = (next: number) => {
+    if (next < min || next > max) return;
+    Haptics.selectionAsync().catch(() => {});
+    onChange(next);
+  };
+
+  return (
+    <View style={{ flexDirection: 'row', alignItems: 'center', paddingVertical: 6 }}>
+      <Text style={{ flex: 1, fontSize: 15, color: tokens.colors.text }}>{label}</Text>
+      <TouchableOpacity
+        onPress={() => change(value - 1)}
+        disabled={value <= min}
+        style={{ padding: 8, opacity: value <= min ? 0.3 : 1 }}
+        accessible
+        accessibilityRole="button"
+        accessibilityLabel={`Decrease ${label.toLowerCase()}`}
+      >
+        <Minus size={16} color={tokens.colors.text} weight="bold" />
+      </TouchableOpacity>
+      <Text style={{ minWidth: 32, textAlign: 'center', fontSize: 15, fontWeight: '600', color: tokens.colors.text }}>
+        {value}
+      </Text>
+      <TouchableOpacity
+        onPress={() => change(value + 1)}
+        disabled={value >= max}
+        style={{ padding: 8, opacity: value >= max ? 0.3 : 1 }}
+        accessible
+        accessibilityRole="button"
+        accessibilityLabel={`Increase ${label.toLowerCase()}`}
+      >
+        <Plus size={16} color={tokens.colors.text} weight="bold" />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+export function PollBuilderSheet({
+  visible,
+  onClose,
+  onInsert,
+  pollName,
+  initialOptions,
+}: PollBuilderSheetProps) {
+  const { isDark, isAmoled } = useTheme();
+  const mode = isDark ? (isAmoled ? 'darkAmoled' : 'dark') : 'light';
+  const tokens = useMemo(() => getTokens(mode), [mode]);
+  const insets = useSafeAreaInsets();
+
+  const [type, setType] = useState<PollType>('regular');
+  const [title, setTitle] = useState('');
+  const [options, setOptions] = useState<string[]>(['', '']);
+  const [minChoices, setMinChoices] = useState(1);
+  const [maxChoices, setMaxChoices] = useState(2);
+  const [rangeMin, setRangeMin] = useState(1);
+  const [rangeMax, setRangeMax] = useState(10);
+  const [step, setStep] = useState(1);
+  const [results, setResults] = useState<PollResultsVisibility>('always');
+  const [isPublic, setIsPublic] = useState(false);
+
+  // Start fresh each time the sheet opens
+  useEffect(() => {
+    if (!visible) return;
+    setType('regular');
+    setTitle('');
+    const prefilled = initialOptions?.filter((option) => option.trim()) || [];
+    setOptions([...prefilled, '', ''].slice(0, Math.max(2, prefilled.length)));
+    setMinChoices(1);
+    setMaxChoices(Math.max(2, prefilled.length));
+    setRangeMin(1);
+    setRangeMax(10);
+    setStep(1);
+    setResults('always');
+    setIsPublic(false);
+  }, [visible, initialOptions]);
+
+  const filledOptionCount = options.filter((option) => option.trim()).length;
+
+  // Keep multiple choice limits within the options entered so far
+  useEffect(() => {
+    const limit = Math.max(1, filledOptionCount);
+    setMaxChoices((prev) => Math.min(prev, limit));
+    setMinChoices((prev) => Math.min(prev, limit));
+  }, [filledOptionCount]);
+
+  const input: PollBuilderInput = {
+    type,
+    name: pollName,
+    title,
+    options,
+    results,
+    isPublic,
+    ...(type === 'multiple' ? { min: minChoices, max: maxChoices } : {}),
+    ...(type === 'number' ? { min: rangeMin, max: rangeMax, step } : {}),
+  };
+  const validationError = validatePollInput(input);
+
+  const handleTypeChange = (nextType: PollType) => {
+    // Default to allowing every option when switching to multiple choice
+    if (nextType === 'multiple') {
+      setMinChoices(1);
+      setMaxChoices(Math.max(1, filledOptionCount));
+    }
+    setType(nextType);
+  };
+
+  const updateOption = (index: number, text: string) => {
+    setOptions((prev) => prev.map((option, i) => (i === index ? text : option)));
+  };
+
+  const removeOption = (index: number) => {
+    setOptions((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleInsert = () => {
+    if (validationError) return;
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+    onInsert(buildPollMarkup(input));
+    onClose();
+  };
+
+  const inputStyle = {
+    flex: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: tokens.colors.border,
+    color: tokens.colors.text,
+    fontSize: 15,
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView className="flex-1" behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <Pressable
+          className="flex-1 justify-end"
+          onPress={onClose}
+          style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}
+        >
+          <Pressable onPress={(e) => e.stopPropagation()}>
+            <View
+              className="bg-fomio-bg dark:bg-fomio-bg-dark rounded-t-3xl"
+              style={{ paddingBottom: insets.bottom + 8, paddingTop: 12, maxHeight: '90%' }}
+            >
+              {/* Header */}
+              <View className="flex-row items-center justify-between px-4 pb-3 border-b border-fomio-border-soft dark:border-fomio-border-soft-dark">
+                <Text className="flex-1 text-title font-semibold text-fomio-foreground dark:text-fomio-foreground-dark">
+                  Add poll
+                </Text>
+                <TouchableOpacity
+                  onPress={onClose}
+                  className="p-2"
+                  accessible
+                  accessibilityRole="button"
+                  accessibilityLabel="Close poll builder"
+                >
+                  <X size={20} color={tokens.colors.muted} weight="regular" />
+                </TouchableOpacity>
+              </View>
+
+              <ScrollView
+                contentContainerStyle={{ padding: 16 }}
+                keyboardShouldPersistTaps="handled"
+              >
+                <SegmentedControl segments={TYPE_SEGMENTS} selectedValue={type} onValueChange={handleTypeChange} size="sm" />
+
+                <TextInput
+                  value={title}
+                  onChangeText={setTitle}
+                  placeholder="Question (optional)"
+                  placeholderTextColor={tokens.colors.muted}
+                  style={[inputStyle, { marginTop: 16, flex: undefined }]}
+                  accessibilityLabel="Poll question"
+                />
+
+                {type === 'number' ? (
+                  <View style={{ marginTop: 12 }}>
+                    <Stepper label="Lowest" value={rangeMin} onChange={setRangeMin} min={0} max={rangeMax - 1} tokens={tokens} />
+                    <Stepper label="Highest" value={rangeMax} onChange={setRangeMax} min={rangeMin + 1} max={100} tokens={tokens} />
+                    <Stepper label="Step" value={step} onChange={setStep} min={1} max={Math.max(1, rangeMax - rangeMin)} tokens={tokens} />
+                  </View>
+                ) : (
+                  <View style={{ marginTop: 12 }}>
+                    {options.map((option, index) => (
+                      <View key={index} style={{ flexDirection: 'row', alignItems: 'center', marginTop: 8 }}>
+                        <TextInput
+                          value={option}
+                          onChangeText={(text) => updateOption(index, text)}
+                          placeholder={`Option ${index + 1}`}
+                          placeholderTextColor={tokens.colors.muted}
+                          style={inputStyle}
+                          accessibilityLabel={`Option ${index + 1}`}
+                        />
+                        {options.length > 2 && (
+                          <TouchableOpacity
+                            onPress={() => removeOption(index)}
+                            style={{ padding: 8, marginLeft: 4 }}
+                            accessible
+                            accessibilityRole="button"
+                            accessibilityLabel={`Remove option ${index + 1}`}
+                          >
+                            <Trash size={18} color={tokens.colors.muted} weight="regular" />
+                          </TouchableOpacity>
+                        )}
+                      </View>
+                    ))}
+                    <TouchableOpacity
+                      onPress={() => setOptions((prev) => [...prev, ''])}
+                      style={{ flexDirection: 'row', alignItems: 'center', paddingVertical: 10 }}
+                      accessible
+                      accessibilityRole="button"
+                      accessibilityLabel="Add option"
+                    >
+                      <Plus size={16} color={tokens.colors.accent} weight="bold" />
+                      <Text style={{ marginLeft: 6, fontSize: 15, fontWeight: '600', color: tokens.colors.accent }}>
+                        Add option
+                      </Text>
+                    </TouchableOpacity>
+
+                    {type === 'multiple' && (
+                      <>
+                        <Stepper
+                          label="At least"
+                          value={minChoices}
+                          onChange={setMinChoices}
+                          min={1}
+                          max={maxChoices}
+                          tokens={tokens}
+                        />
+                        <Stepper
+                          label="At most"
+                          value={maxChoices}
+                          onChange={setMaxChoices}
+                          min={minChoices}
+                          max={Math.max(1, filledOptionCount)}
+                          tokens={tokens}
+                        />
+                      </>
+                    )}
+                  </View>
+                )}
+
+                {/* Results visibility */}
+                <Text style={{ marginTop: 16, fontSize: 13, fontWeight: '600', color: tokens.colors.muted }}>
+                  Show results
+                </Text>
+                <View style={{ flexDirection: 'row', flexWrap: 'wrap', marginTop: 8, gap: 8 }}>
+                  {RESULTS_OPTIONS.map((option) => {
+                    const isSelected = option.value === results;
+                    return (
+                      <TouchableOpacity
+                        key={option.value}
+                        onPress={() => setResults(option.value)}
+                        style={{
+                          paddingVertical: 6,
+                          paddingHorizontal: 12,
+                          borderRadius: 16,
+                          borderWidth: 1,
+                          borderColor: isSelected ? tokens.colors.accent : tokens.colors.border,
+                          backgroundColor: isSelected ? tokens.colors.accent : 'transparent',
+                        }}
+                        accessible
+                        accessibilityRole="radio"
+                        accessibilityState={{ selected: isSelected }}
+                        accessibilityLabel={`Show results: ${option.label}`}
+                      >
+                        <Text
+                          style={{
+                            fontSize: 13,
+                            fontWeight: '600',
+                            color: isSelected ? tokens.colors.onAccent : tokens.colors.text,
+                          }}
+                        >
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                <View style={{ flexDirection: 'row', alignItems: 'center', marginTop: 16 }}>
+                  <Text style={{ flex: 1, fontSize: 15, color: tokens.colors.text }}>Show who voted</Text>
+                  <Switch
+                    value={isPublic}
+                    onValueChange={setIsPublic}
+                    trackColor={{ true: tokens.colors.accent, false: tokens.colors.border }}
+                    accessibilityLabel="Show who voted"
+                  />
+                </View>
+
+                {validationError && (type === 'number' || filledOptionCount > 0) ? (
+                  <Text style={{ marginTop: 12, fontSize: 13, color: tokens.colors.danger }}>
+                    {validationError}
+                  </Text>
+                ) : null}
+
+                <TouchableOpacity
+                  onPress={handleInsert}
+                  disabled={!!validationError}
+                  style={{
+                    marginTop: 16,
+                    paddingVertical: 12,
+                    borderRadius: 12,
+                    alignItems: 'center',
+                    backgroundColor: tokens.colors.accent,
+                    opacity: validationError ? 0.4 : 1,
+                  }}
+                  accessible
+                  accessibilityRole="button"
+                  accessibilityLabel="Insert poll"
+                  accessibilityState={{ disabled: !!validationError }}
+                >
+                  <Text style={{ fontSize: 15, fontWeight: '600', color: tokens.colors.onAccent }}>
+                    Insert poll
+                  </Text>
+                </TouchableOpacity>
+              </ScrollView>
+            </View>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
@@ -36,6 +36,9 @@ interface PremiumPostButtonProps {
   success?: boolean;
   characterCount?: { current: number; min: number };
   hint?: string;
+  label?: string;
+  loadingLabel?: string;
+  successLabel?: string;
 }
 
 const SPRING_CONFIG = { damping: 14, stiffness: 280 };
@@ -47,6 +50,9 @@ export function PremiumPostButton({
   success = false,
   characterCount,
   hint,
+  label = 'Post',
+  loadingLabel = 'Posting...',
+  successLabel = 'Posted!',
 }: PremiumPostButtonProps) {
   const { isDark, isAmoled } = useTheme();
   const themeMode = useMemo(
@@ -182,7 +188,7 @@ export function PremiumPostButton({
         disabled={disabled || loading || success}
         accessible
         accessibilityRole="button"
-        accessibilityLabel={loading ? 'Posting...' : success ? 'Posted!' : 'Post'}
+        accessibilityLabel={loading ? loadingLabel : success ? successLabel : label}
         accessibilityState={{ disabled: disabled || loading }}
       >
         <Animated.View style={[styles.container, buttonAnimatedStyle]}>
@@ -223,7 +229,7 @@ export function PremiumPostButton({
                   weight="fill"
                   style={styles.icon}
                 />
-                <Text style={styles.text}>Post</Text>
+                <Text style={styles.text}>{label}</Text>
               </View>
             )}
           </LinearGradient>
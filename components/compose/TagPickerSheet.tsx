@@ -0,0 +1,219 @@
+// UI Spec: TagPickerSheet
+// - Bottom modal for choosing a Byte's tags
+// - Chosen tags on top (tap to remove), with a count against the site's limit
+// - Search suggests tags allowed in the Teret, most used first
+// - When the Teret requires tags from a group, says so and suggests from that group
+// - "Create #tag" when the user may create tags and none match
+// - Uses React Native Modal like FlagSheet
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { MagnifyingGlass, Plus, X } from 'phosphor-react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '@/components/theme';
+import { getTokens } from '@/shared/design/tokens';
+import { normalizeTagName } from '@/shared/tags';
+import { useTagSearch } from '@/shared/useTagSearch';
+
+interface TagPickerSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  selectedTags: string[];
+  onChange: (tags: string[]) => void;
+  // Teret the Byte is posted in; its tag groups decide what's offered
+  categoryId?: number;
+  maxTags: number;
+  maxTagLength: number;
+  canCreateTag: boolean;
+}
+
+export function TagPickerSheet({
+  visible,
+  onClose,
+  selectedTags,
+  onChange,
+  categoryId,
+  maxTags,
+  maxTagLength,
+  canCreateTag,
+}: TagPickerSheetProps) {
+  const { isDark, isAmoled } = useTheme();
+  const mode = isDark ? (isAmoled ? 'darkAmoled' : 'dark') : 'light';
+  const tokens = useMemo(() => getTokens(mode), [mode]);
+  const insets = useSafeAreaInsets();
+  const [query, setQuery] = useState('');
+
+  // Start fresh each time the sheet opens
+  useEffect(() => {
+    if (visible) setQuery('');
+  }, [visible]);
+
+  const { suggestions, requiredGroup, isLoading, hasError, errorMessage } = useTagSearch(query, {
+    categoryId,
+    selectedTags,
+    enabled: visible,
+  });
+
+  const isFull = selectedTags.length >= maxTags;
+  const typedTag = normalizeTagName(query, maxTagLength);
+  const canCreateTyped =
+    canCreateTag &&
+    typedTag.length > 0 &&
+    !selectedTags.includes(typedTag) &&
+    !suggestions.some((suggestion) => suggestion.name === typedTag);
+
+  const addTag = (name: string) => {
+    if (isFull || selectedTags.includes(name)) return;
+    Haptics.selectionAsync().catch(() => {});
+    onChange([...selectedTags, name]);
+    setQuery('');
+  };
+
+  const removeTag = (name: string) => {
+    Haptics.selectionAsync().catch(() => {});
+    onChange(selectedTags.filter((tag) => tag !== name));
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView className="flex-1" behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <Pressable
+          className="flex-1 justify-end"
+          onPress={onClose}
+          style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}
+        >
+          <Pressable onPress={(e) => e.stopPropagation()}>
+            <View
+              className="bg-fomio-bg dark:bg-fomio-bg-dark rounded-t-3xl"
+              style={{ paddingBottom: insets.bottom + 8, paddingTop: 12, height: 460 }}
+            >
+              {/* Header */}
+              <View className="flex-row items-center justify-between px-4 pb-3 border-b border-fomio-border-soft dark:border-fomio-border-soft-dark">
+                <Text className="flex-1 text-title font-semibold text-fomio-foreground dark:text-fomio-foreground-dark">
+                  Tags
+                </Text>
+                <Text style={{ color: tokens.colors.muted, fontSize: 13, marginRight: 4 }}>
+                  {selectedTags.length}/{maxTags}
+                </Text>
+                <TouchableOpacity
+                  onPress={onClose}
+                  className="p-2"
+                  accessible
+                  accessibilityRole="button"
+                  accessibilityLabel="Close tag picker"
+                >
+                  <X size={20} color={tokens.colors.muted} weight="regular" />
+                </TouchableOpacity>
+              </View>
+
+              {/* Chosen tags */}
+              {selectedTags.length > 0 && (
+                <View className="flex-row flex-wrap px-4 pt-3" style={{ gap: 8 }}>
+                  {selectedTags.map((tag) => (
+                    <TouchableOpacity
+                      key={tag}
+                      onPress={() => removeTag(tag)}
+                      className="flex-row items-center px-3 py-1.5 rounded-full"
+                      style={{ backgroundColor: tokens.colors.accentSoft }}
+                      accessible
+                      accessibilityRole="button"
+                      accessibilityLabel={`Remove tag ${tag}`}
+                    >
+                      <Text style={{ color: tokens.colors.accent, fontSize: 13, fontWeight: '600' }}>#{tag}</Text>
+                      <X size={12} color={tokens.colors.accent} weight="bold" style={{ marginLeft: 6 }} />
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
+              {/* Search */}
+              <View
+                className="flex-row items-center mx-4 mt-3 px-3 rounded-xl border"
+                style={{ borderColor: tokens.colors.border, opacity: isFull ? 0.5 : 1 }}
+              >
+                <MagnifyingGlass size={16} color={tokens.colors.muted} weight="regular" />
+                <TextInput
+                  value={query}
+                  onChangeText={setQuery}
+                  placeholder={isFull ? `Up to ${maxTags} tags` : 'Search tags'}
+                  placeholderTextColor={tokens.colors.muted}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  editable={!isFull}
+                  returnKeyType="done"
+                  onSubmitEditing={() => canCreateTyped && addTag(typedTag)}
+                  className="flex-1 ml-2 py-2"
+                  style={{ color: tokens.colors.text, fontSize: 15 }}
+                  accessibilityLabel="Search tags"
+                />
+                {isLoading && <ActivityIndicator size="small" color={tokens.colors.muted} />}
+              </View>
+
+              {requiredGroup && (
+                <Text className="px-4 pt-2" style={{ color: tokens.colors.accent, fontSize: 13 }}>
+                  This Teret needs {requiredGroup.minCount} {requiredGroup.minCount === 1 ? 'tag' : 'tags'} from{' '}
+                  {requiredGroup.name}
+                </Text>
+              )}
+
+              {/* Suggestions */}
+              <ScrollView keyboardShouldPersistTaps="handled" contentContainerStyle={{ paddingVertical: 8 }}>
+                {!isFull && canCreateTyped && (
+                  <TouchableOpacity
+                    onPress={() => addTag(typedTag)}
+                    className="flex-row items-center px-4 py-3"
+                    accessible
+                    accessibilityRole="button"
+                    accessibilityLabel={`Create tag ${typedTag}`}
+                  >
+                    <Plus size={16} color={tokens.colors.accent} weight="bold" />
+                    <Text style={{ color: tokens.colors.accent, fontSize: 15, fontWeight: '600', marginLeft: 8 }}>
+                      Create #{typedTag}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+                {!isFull &&
+                  suggestions.map((suggestion) => (
+                    <TouchableOpacity
+                      key={suggestion.name}
+                      onPress={() => addTag(suggestion.name)}
+                      className="flex-row items-center justify-between px-4 py-3"
+                      accessible
+                      accessibilityRole="button"
+                      accessibilityLabel={`Add tag ${suggestion.name}`}
+                    >
+                      <Text style={{ color: tokens.colors.text, fontSize: 15 }}>#{suggestion.name}</Text>
+                      {suggestion.count > 0 && (
+                        <Text style={{ color: tokens.colors.muted, fontSize: 13 }}>×{suggestion.count}</Text>
+                      )}
+                    </TouchableOpacity>
+                  ))}
+                {!isFull && !isLoading && suggestions.length === 0 && !canCreateTyped && (
+                  <Text className="text-center py-6" style={{ color: tokens.colors.muted, fontSize: 14 }}>
+                    {hasError
+                      ? errorMessage || 'Failed to load tags'
+                      : query.trim()
+                        ? `No tags match "${query.trim()}".`
+                        : 'No tags to suggest.'}
+                  </Text>
+                )}
+              </ScrollView>
+            </View>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
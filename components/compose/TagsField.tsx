@@ -0,0 +1,104 @@
+// UI Spec: TagsField — The composer's tag row
+// - Chosen tags as "#name" pills; the × removes one
+// - "Add tags" opens the TagPickerSheet (hidden once the site's limit is reached)
+// - Red hint under the row when the tags don't meet the Teret's requirements
+
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Plus, Tag, X } from 'phosphor-react-native';
+import { useTheme } from '@/components/theme';
+import { getTokens } from '@/shared/design/tokens';
+
+interface TagsFieldProps {
+  tags: string[];
+  maxTags: number;
+  onPress: () => void;
+  onRemove: (tag: string) => void;
+  error?: string | null;
+}
+
+export function TagsField({ tags, maxTags, onPress, onRemove, error }: TagsFieldProps) {
+  const { isDark, isAmoled } = useTheme();
+  const mode = isDark ? (isAmoled ? 'darkAmoled' : 'dark') : 'light';
+  const tokens = useMemo(() => getTokens(mode), [mode]);
+  const errorColor = isDark ? '#F97373' : '#EF4444';
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Tag size={16} color={tokens.colors.muted} weight="regular" />
+        {tags.map((tag) => (
+          <View key={tag} style={[styles.chip, { backgroundColor: tokens.colors.accentSoft }]}>
+            <Text style={[styles.chipText, { color: tokens.colors.accent }]}>#{tag}</Text>
+            <TouchableOpacity
+              onPress={() => onRemove(tag)}
+              hitSlop={8}
+              accessible
+              accessibilityRole="button"
+              accessibilityLabel={`Remove tag ${tag}`}
+            >
+              <X size={12} color={tokens.colors.accent} weight="bold" />
+            </TouchableOpacity>
+          </View>
+        ))}
+        {tags.length < maxTags && (
+          <TouchableOpacity
+            onPress={onPress}
+            style={[styles.addButton, { borderColor: error ? errorColor : tokens.colors.border }]}
+            accessible
+            accessibilityRole="button"
+            accessibilityLabel={tags.length > 0 ? 'Add more tags' : 'Add tags'}
+          >
+            <Plus size={12} color={tokens.colors.muted} weight="bold" />
+            <Text style={[styles.addText, { color: tokens.colors.muted }]}>
+              {tags.length > 0 ? 'Add' : 'Add tags'}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {!!error && <Text style={[styles.error, { color: errorColor }]}>{error}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 999,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+  },
+  addText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  error: {
+    fontSize: 12,
+    marginTop: 6,
+  },
+});
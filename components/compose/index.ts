@@ -6,6 +6,11 @@ export { MediaGrid } from './MediaGrid';
 export { useImagePicker } from './useImagePicker';
 export type { MediaItem } from './MediaGrid';
 export { HelpSheet } from './HelpSheet';
+export { PollBuilderSheet } from './PollBuilderSheet';
+export { EmojiPickerSheet } from './EmojiPickerSheet';
+export { TagPickerSheet } from './TagPickerSheet';
+export { TagsField } from './TagsField';
+export { AutocompletePopover } from './AutocompletePopover';
 
 // Premium UI components
 export { SegmentedControl } from './SegmentedControl';
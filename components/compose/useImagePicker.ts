@@ -2,20 +2,30 @@
 // - Hook for image picker functionality using expo-image-picker
 // - Request media library permissions
 // - Support multiple image selection
-// - Return image URIs for MediaGrid component
+// - Offer videos when the site accepts any video type
+// - Return picked files (with name, type, size and dimensions) for the upload manager
 
 import { useState, useCallback } from 'react';
 import * as ImagePicker from 'expo-image-picker';
 import { Platform, Alert } from 'react-native';
 import * as Haptics from 'expo-haptics';
+import { useSiteSettings } from '@/shared/useSiteSettings';
+import { allowsVideoUploads } from '@/shared/uploads';
 
 export interface ImagePickerResult {
   uri: string;
-  type: 'image';
+  type: 'image' | 'video';
+  name?: string;
+  mimeType?: string;
+  size?: number;
+  width?: number;
+  height?: number;
 }
 
 export function useImagePicker() {
   const [isPicking, setIsPicking] = useState(false);
+  const { settings } = useSiteSettings();
+  const allowVideos = allowsVideoUploads(settings);
 
   const requestPermissions = useCallback(async (): Promise<boolean> => {
     if (Platform.OS === 'web') {
@@ -44,9 +54,10 @@ export function useImagePicker() {
       }
 
       const result = await ImagePicker.launchImageLibraryAsync({
-        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        mediaTypes: allowVideos ? ['images', 'videos'] : ['images'],
         allowsMultipleSelection: true,
-        quality: 0.8,
+        // Images are optimized by the upload manager using the site's settings
+        quality: 1,
         allowsEditing: false,
       });
 
@@ -63,7 +74,12 @@ export function useImagePicker() {
 
       return result.assets.map((asset) => ({
         uri: asset.uri,
-        type: 'image' as const,
+        type: asset.type === 'video' ? ('video' as const) : ('image' as const),
+        name: asset.fileName ?? undefined,
+        mimeType: asset.mimeType,
+        size: asset.fileSize,
+        width: asset.width,
+        height: asset.height,
       }));
     } catch (error) {
       console.error('Image picker error:', error);
@@ -72,7 +88,7 @@ export function useImagePicker() {
     } finally {
       setIsPicking(false);
     }
-  }, [requestPermissions]);
+  }, [requestPermissions, allowVideos]);
 
   return {
     pickImages,
@@ -0,0 +1,55 @@
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { Warning } from 'phosphor-react-native';
+import { useTheme } from '@/components/theme';
+import { getTokens } from '@/shared/design/tokens';
+import { getDraftPreview, type DraftContent } from '@/shared/drafts';
+
+// UI Spec: DraftConflictBanner — Shown above a composer when its draft was changed on the web or another device.
+// Previews the other version and lets the user keep theirs (overwrite) or switch to the other one.
+interface DraftConflictBannerProps {
+  theirs: DraftContent;
+  onKeepMine: () => void;
+  onUseTheirs: () => void;
+}
+
+export function DraftConflictBanner({ theirs, onKeepMine, onUseTheirs }: DraftConflictBannerProps) {
+  const { isDark, isAmoled } = useTheme();
+  const tokens = useMemo(
+    () => getTokens(isAmoled ? 'darkAmoled' : isDark ? 'dark' : 'light'),
+    [isAmoled, isDark]
+  );
+  const preview = getDraftPreview(theirs.title ? `${theirs.title} — ${theirs.raw}` : theirs.raw);
+
+  return (
+    <View
+      style={{
+        gap: 8,
+        padding: 12,
+        borderRadius: 12,
+        backgroundColor: tokens.colors.dangerSoft,
+      }}
+      accessibilityRole="alert"
+    >
+      <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+        <Warning size={16} color={tokens.colors.danger} weight="fill" />
+        <Text style={{ flex: 1, color: tokens.colors.text, fontSize: 14, fontWeight: '600' }}>
+          This draft was changed somewhere else
+        </Text>
+      </View>
+      {preview ? (
+        <Text style={{ color: tokens.colors.muted, fontSize: 13 }} numberOfLines={2}>
+          {preview}
+        </Text>
+      ) : null}
+      <View style={{ flexDirection: 'row', justifyContent: 'flex-end', gap: 16 }}>
+        <TouchableOpacity onPress={onUseTheirs} hitSlop={8} accessibilityRole="button" accessibilityLabel="Use the other version">
+          <Text style={{ color: tokens.colors.accent, fontSize: 14, fontWeight: '600' }}>Use other version</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onKeepMine} hitSlop={8} accessibilityRole="button" accessibilityLabel="Keep my version">
+          <Text style={{ color: tokens.colors.accent, fontSize: 14, fontWeight: '600' }}>Keep mine</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
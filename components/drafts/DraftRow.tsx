@@ -0,0 +1,119 @@
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import ReanimatedSwipeable from 'react-native-gesture-handler/ReanimatedSwipeable';
+import { ChatCircle, EnvelopeSimple, NotePencil, Trash } from 'phosphor-react-native';
+import { useTheme } from '@/components/theme';
+import { getTokens } from '@/shared/design/tokens';
+import { formatRelativeTime } from '@/lib/utils/notifications';
+import { DRAFT_KIND_LABELS, type DraftKind, type UserDraft } from '@/shared/drafts';
+
+// UI Spec: DraftRow — One saved draft: kind, title, text preview and when it was saved. Swipe left to delete.
+interface DraftRowProps {
+  draft: UserDraft;
+  onPress?: () => void;
+  onDelete?: () => void;
+}
+
+const DELETE_ACTION_WIDTH = 88;
+
+const KIND_ICONS: Record<DraftKind, typeof NotePencil> = {
+  topic: NotePencil,
+  reply: ChatCircle,
+  private_message: EnvelopeSimple,
+  private_message_reply: EnvelopeSimple,
+};
+
+export function DraftRow({ draft, onPress, onDelete }: DraftRowProps) {
+  const { isDark, isAmoled } = useTheme();
+  const tokens = useMemo(
+    () => getTokens(isAmoled ? 'darkAmoled' : isDark ? 'dark' : 'light'),
+    [isAmoled, isDark]
+  );
+
+  const Icon = KIND_ICONS[draft.kind];
+  const label = DRAFT_KIND_LABELS[draft.kind];
+  const title = draft.title || (draft.kind === 'topic' ? 'Untitled Byte' : label);
+
+  const renderDeleteAction = () => (
+    <TouchableOpacity
+      onPress={onDelete}
+      style={{
+        width: DELETE_ACTION_WIDTH,
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 4,
+        backgroundColor: tokens.colors.danger,
+      }}
+      accessibilityRole="button"
+      accessibilityLabel="Delete draft"
+    >
+      <Trash size={20} color="#ffffff" weight="bold" />
+      <Text style={{ color: '#ffffff', fontSize: 12, fontWeight: '600' }}>Delete</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ReanimatedSwipeable
+      friction={2}
+      rightThreshold={DELETE_ACTION_WIDTH / 2}
+      overshootRight={false}
+      renderRightActions={renderDeleteAction}
+    >
+      <TouchableOpacity
+        onPress={onPress}
+        activeOpacity={0.8}
+        style={{
+          flexDirection: 'row',
+          alignItems: 'flex-start',
+          gap: 12,
+          paddingVertical: 14,
+          paddingHorizontal: 16,
+          borderBottomWidth: 1,
+          borderBottomColor: tokens.colors.border,
+          backgroundColor: tokens.colors.background,
+        }}
+        accessibilityRole="button"
+        accessibilityLabel={`${label} draft: ${title}`}
+        accessibilityHint="Opens the draft. Swipe left to delete."
+        accessibilityActions={[{ name: 'delete', label: 'Delete draft' }]}
+        onAccessibilityAction={(event) => {
+          if (event.nativeEvent.actionName === 'delete') onDelete?.();
+        }}
+      >
+        <View
+          style={{
+            width: 36,
+            height: 36,
+            borderRadius: 18,
+            backgroundColor: tokens.colors.accentSoft,
+            alignItems: 'center',
+            justifyContent: 'center',
+          }}
+        >
+          <Icon size={18} color={tokens.colors.accent} weight="fill" />
+        </View>
+
+        <View style={{ flex: 1, minWidth: 0 }}>
+          <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+            <Text style={{ flex: 1, color: tokens.colors.accent, fontSize: 12, fontWeight: '600' }} numberOfLines={1}>
+              {label}
+            </Text>
+            {draft.updatedAt ? (
+              <Text style={{ color: tokens.colors.muted, fontSize: 12 }}>
+                {formatRelativeTime(draft.updatedAt)}
+              </Text>
+            ) : null}
+          </View>
+          <Text style={{ color: tokens.colors.text, fontSize: 15, fontWeight: '600', marginTop: 2 }} numberOfLines={1}>
+            {title}
+          </Text>
+          {draft.preview ? (
+            <Text style={{ color: tokens.colors.muted, fontSize: 13, marginTop: 4 }} numberOfLines={2}>
+              {draft.preview}
+            </Text>
+          ) : null}
+        </View>
+      </TouchableOpacity>
+    </ReanimatedSwipeable>
+  );
+}
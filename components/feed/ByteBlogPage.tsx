@@ -11,15 +11,23 @@ import * as Haptics from 'expo-haptics';
 import { useTopic, TopicData } from '../../shared/useTopic';
 import { usePostActions } from '../../shared/usePostActions';
 import { useScreenBackBehavior } from '@/shared/hooks/useScreenBackBehavior';
+import { useReadTimings } from '@/shared/read-timings';
+import { useTopicRealtime } from '@/shared/message-bus';
 import { useByteBlogHeader } from './hooks/useByteBlogHeader';
 import { useByteBlogComments } from './hooks/useByteBlogComments';
 import { StickyActionBar } from './StickyActionBar';
 import { ByteBlogPageHeader } from './ByteBlogPageHeader';
 import { ByteBlogPageLoading, ByteBlogPageError, ByteBlogPageNotFound } from './ByteBlogPageStates';
 import { ReadingProgressBar } from './ReadingProgressBar';
+import { UnreadRepliesPill } from './UnreadRepliesPill';
 import { useAuth } from '@/shared/auth-context';
 import { useBookmarkStore } from '@/shared/useBookmarkSync';
+import { isStaffUser } from '@/shared/moderation';
 import { CommentsSheet } from '../comments/CommentsSheet';
+import { FlagSheet } from './FlagSheet';
+import { ReactionUsersSheet } from './ReactionUsersSheet';
+import { QuoteSelectionSheet } from './QuoteSelectionSheet';
+import { BookmarkSheet } from '../bookmarks/BookmarkSheet';
 
 export interface ByteBlogPageProps {
   topicId: number;
@@ -41,6 +49,7 @@ export function ByteBlogPage({
 }: ByteBlogPageProps) {
   const { isDark, isAmoled } = useTheme();
   const { user, isAuthenticated } = useAuth();
+  const isStaff = isStaffUser(user);
   const { topic, isLoading, hasError, errorMessage, retry, refetch } = useTopic(topicId);
   const mode = isDark ? (isAmoled ? 'darkAmoled' : 'dark') : 'light';
   const tokens = useMemo(() => getTokens(mode), [mode]);
@@ -64,12 +73,10 @@ export function ByteBlogPage({
   // Use the post actions hook for the first post (main topic)
   const {
     isLiked: currentIsLiked,
-    isBookmarked: currentIsBookmarked,
     likeCount: currentLikeCount,
     isLoading: actionsLoading,
     error: actionsError,
     toggleLike,
-    toggleBookmark,
     createComment,
     updateState,
   } = usePostActions(
@@ -79,20 +86,52 @@ export function ByteBlogPage({
     firstPost?.isLiked || false,
     false
   );
+
+  // Bookmark state is shared with ByteCard through the bookmark store
+  const storedBookmark = useBookmarkStore((state) => state.bookmarks[topicId]);
+  const currentIsBookmarked = !!storedBookmark;
+  const [isBookmarkSheetVisible, setIsBookmarkSheetVisible] = useState(false);
   
   // Comments handling hook
   const {
     commentList,
+    unreadDivider,
+    newReplyCount,
+    hasMoreComments,
+    hasPreviousComments,
+    isLoadingMoreComments,
+    isLoadingPreviousComments,
+    loadMoreComments,
+    loadPreviousComments,
+    refreshComments,
+    postNumberById,
+    participants,
     replyTo,
     setReplyTo,
     handleSendComment,
     handleLikeComment,
     handleReplyToComment,
+    reactionOptions,
+    handleReactToComment,
+    reactionUsersTarget,
+    handleShowReactions,
+    closeReactionUsers,
+    quoteTarget,
+    handleQuoteComment,
+    handleQuoteByte,
+    closeQuoteSheet,
+    handleInsertQuote,
+    pendingQuote,
+    clearPendingQuote,
+    flagTarget,
+    handleFlagComment,
+    closeFlagSheet,
+    handleDeleteComment,
+    handleRecoverComment,
     commentSheetRef,
     commentInputRef,
   } = useByteBlogComments({
     topicId,
-    topic,
     refetch,
     user,
     isAuthenticated,
@@ -101,8 +140,32 @@ export function ByteBlogPage({
     scrollOffsetRef,
     scrollViewRef,
     initialCommentsVisible,
+    topicAuthor: topic?.author,
+    topicContent: topic?.content,
   });
   
+  // Report reading time to Discourse: the Byte itself while the page is showing,
+  // the visible replies while the comments sheet is open
+  const { setVisiblePosts: setVisibleReadPosts, noteActivity: noteReadActivity } = useReadTimings(
+    topicId,
+    !!topic && isAuthenticated
+  );
+
+  // New replies, likes and edits refetch the Byte while it's open
+  useTopicRealtime(topicId, !!topic);
+
+  const handleVisibleCommentsChange = useCallback((commentIds: string[]) => {
+    if (commentIds.length === 0) {
+      setVisibleReadPosts([1]);
+      return;
+    }
+    setVisibleReadPosts(
+      commentIds
+        .map((id) => postNumberById.get(id))
+        .filter((postNumber): postNumber is number => postNumber !== undefined)
+    );
+  }, [postNumberById, setVisibleReadPosts]);
+
   // Sync state when topic loads
   useEffect(() => {
     if (topic && firstPost) {
@@ -114,7 +177,7 @@ export function ByteBlogPage({
       // Sync bookmark state to global store
       // FIXED: Handle undefined bookmarked value safely
       if (topic.bookmarked !== undefined) {
-        useBookmarkStore.getState().toggleBookmark(topic.id, topic.bookmarked);
+        useBookmarkStore.getState().toggleBookmark(topic.id, topic.bookmarked, topic.bookmark);
       }
     }
   }, [topic, firstPost, updateState]);
@@ -161,24 +224,19 @@ export function ByteBlogPage({
     commentSheetRef.current?.present();
   }, [commentSheetRef]);
 
-  const handleBookmark = useCallback(async () => {
-    try {
-      await toggleBookmark();
-      
-      // Sync bookmark state to global store
-      if (topic) {
-        useBookmarkStore.getState().toggleBookmark(topic.id, !currentIsBookmarked);
-      }
-      
-      // Provide haptic feedback for bookmark success
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
-      
-      if (onBookmark) onBookmark();
-    } catch (error) {
-      Alert.alert('Error', 'Failed to update bookmark status');
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
-    }
-  }, [toggleBookmark, onBookmark, topic, currentIsBookmarked]);
+  // "N new replies" pill opens the comments at the first unread reply
+  const [isUnreadPillDismissed, setIsUnreadPillDismissed] = useState(false);
+  const handleJumpToUnread = useCallback(() => {
+    setIsUnreadPillDismissed(true);
+    commentSheetRef.current?.present();
+  }, [commentSheetRef]);
+
+  // Bookmarking opens the sheet for a name, reminder and auto-delete choice
+  const handleBookmark = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    setIsBookmarkSheetVisible(true);
+    if (onBookmark) onBookmark();
+  }, [onBookmark]);
 
   // Default share handler
   const handleShare = useCallback(async () => {
@@ -206,7 +264,7 @@ export function ByteBlogPage({
   }, [topic, topicId, onShare]);
 
   // Configure header and get scroll handler for automatic scroll-aware behavior
-  const { onScroll: headerAwareScroll } = useByteBlogHeader(topic, isDark, handleShare, retry);
+  const { onScroll: headerAwareScroll } = useByteBlogHeader(topic, isDark, handleShare);
 
   // Reading progress state (0 to 1)
   const [readingProgress, setReadingProgress] = useState(0);
@@ -258,10 +316,11 @@ export function ByteBlogPage({
         const progress = maxScroll > 0 ? Math.min(1, Math.max(0, offsetY / maxScroll)) : 0;
         setReadingProgress(progress);
       }
+      noteReadActivity();
       // Call header-aware scroll handler (handles scroll state automatically)
       headerAwareScroll(event);
     },
-    [headerAwareScroll, scrollY]
+    [headerAwareScroll, scrollY, noteReadActivity]
   );
 
   useScreenBackBehavior({}, []);
@@ -297,9 +356,10 @@ export function ByteBlogPage({
         isAmoled={isAmoled}
         formatTimeAgo={formatTimeAgo}
         scrollY={scrollY}
+        onQuote={handleQuoteByte}
       />
     );
-  }, [topic, avatarSource, isDark, isAmoled, formatTimeAgo, scrollY]);
+  }, [topic, avatarSource, isDark, isAmoled, formatTimeAgo, scrollY, handleQuoteByte]);
 
   // Simplified footer - just the action bar
   const renderFooter = useMemo(() => {
@@ -378,6 +438,16 @@ export function ByteBlogPage({
             </ScrollView>
           </Animated.View>
         </KeyboardAvoidingView>
+        {/* Jump to first unread reply */}
+        {unreadDivider && !isUnreadPillDismissed && (
+          <View pointerEvents="box-none" style={{ alignItems: 'center', paddingVertical: 8 }}>
+            <UnreadRepliesPill
+              label={`${newReplyCount} new ${newReplyCount === 1 ? 'reply' : 'replies'}`}
+              onPress={handleJumpToUnread}
+              mode={mode}
+            />
+          </View>
+        )}
         {/* Sticky Action Bar - Now truly sticky at bottom */}
         {renderFooter}
       </View>
@@ -389,10 +459,68 @@ export function ByteBlogPage({
         comments={commentList}
         onLike={handleLikeComment}
         onReply={handleReplyToComment}
+        onFlag={handleFlagComment}
+        reactionOptions={reactionOptions}
+        onReact={handleReactToComment}
+        onShowReactions={handleShowReactions}
+        onQuote={handleQuoteComment}
+        onDelete={isStaff ? handleDeleteComment : undefined}
+        onRecover={isStaff ? handleRecoverComment : undefined}
         onSend={handleSendComment}
         replyTo={replyTo}
+        participants={participants}
+        pendingQuote={pendingQuote}
+        onQuoteInserted={clearPendingQuote}
         isAuthenticated={isAuthenticated}
         inputRef={commentInputRef}
+        onRefresh={refreshComments}
+        unreadDivider={unreadDivider}
+        hasMore={hasMoreComments}
+        hasPrevious={hasPreviousComments}
+        isLoadingMore={isLoadingMoreComments}
+        isLoadingPrevious={isLoadingPreviousComments}
+        onLoadMore={loadMoreComments}
+        onLoadPrevious={loadPreviousComments}
+        onVisibleCommentsChange={handleVisibleCommentsChange}
+      />
+
+      {reactionUsersTarget && (
+        <ReactionUsersSheet
+          visible
+          onClose={closeReactionUsers}
+          postId={reactionUsersTarget.postId}
+          initialReaction={reactionUsersTarget.reactionId}
+        />
+      )}
+
+      {quoteTarget && (
+        <QuoteSelectionSheet
+          visible
+          onClose={closeQuoteSheet}
+          username={quoteTarget.username}
+          text={quoteTarget.text}
+          onQuote={handleInsertQuote}
+        />
+      )}
+
+      {flagTarget && (
+        <FlagSheet
+          visible
+          onClose={closeFlagSheet}
+          topicId={topicId}
+          postId={flagTarget.postId}
+          flagState={flagTarget.flagState}
+          targetLabel="comment"
+        />
+      )}
+
+      <BookmarkSheet
+        visible={isBookmarkSheetVisible}
+        onClose={() => setIsBookmarkSheetVisible(false)}
+        bookmark={storedBookmark ?? null}
+        target={{ id: topicId, type: 'Topic' }}
+        topicId={topicId}
+        title={topic.title}
       />
     </>
   );
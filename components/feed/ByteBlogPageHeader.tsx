@@ -8,6 +8,8 @@ import { router } from 'expo-router';
 import { TopicData } from '@/shared/useTopic';
 import { MarkdownContent } from './MarkdownContent';
 import { GradientAvatar } from '@/components/ui/GradientAvatar';
+import { TagChips } from '@/components/tags/TagChips';
+import { TopicNotificationButton } from './TopicNotificationButton';
 import { useTheme } from '@/components/theme';
 import { getTokens, withAlpha } from '@/shared/design/tokens';
 
@@ -18,6 +20,7 @@ interface ByteBlogPageHeaderProps {
   isAmoled: boolean;
   formatTimeAgo: (dateString: string) => string;
   scrollY?: SharedValue<number>; // For parallax effect
+  onQuote?: () => void; // Long-press the body to quote it into a reply
 }
 
 const HERO_HEIGHT = 400; // Hero section height
@@ -33,6 +36,8 @@ const HERO_HEIGHT = 400; // Hero section height
  *   - Premium typography with white text on gradient
  * - Standard Layout (no cover image):
  *   - Title, author, meta, stats in standard layout
+ * - Tag chips above the stats, opening each tag's feed
+ * - Stats row ends with the Byte's notification level bell
  * - Content: MarkdownContent with premium spacing
  * - Uses semantic tokens throughout
  * - Theme-aware: All colors via semantic tokens
@@ -44,6 +49,7 @@ export function ByteBlogPageHeader({
   isAmoled,
   formatTimeAgo,
   scrollY,
+  onQuote,
 }: ByteBlogPageHeaderProps) {
   const mode = isDark ? (isAmoled ? 'darkAmoled' : 'dark') : 'light';
   const tokens = useMemo(() => getTokens(mode), [mode]);
@@ -271,6 +277,8 @@ export function ByteBlogPageHeader({
               paddingHorizontal: 20,
             }}
           >
+            <TagChips tags={topic.tags} mode={mode} style={{ marginBottom: 16 }} />
+
             {/* Stats Row */}
             <View
               style={{
@@ -303,6 +311,12 @@ export function ByteBlogPageHeader({
                 </Text>
                 <Text style={{ fontSize: 14, color: tokens.colors.muted }}>views</Text>
               </View>
+              <TopicNotificationButton
+                topicId={topic.id}
+                topicTitle={topic.title}
+                level={topic.notificationLevel}
+                mode={mode}
+              />
             </View>
             
             {/* Body Content - Premium Reading Typography */}
@@ -311,6 +325,10 @@ export function ByteBlogPageHeader({
               linkMetadata={topic.linkMetadata}
               isRawMarkdown={false}
               readingMode={true}
+              polls={topic.polls}
+              postId={topic.firstPostId}
+              topicId={topic.id}
+              onQuote={onQuote}
             />
           </View>
         </View>
@@ -421,6 +439,8 @@ export function ByteBlogPageHeader({
             )}
           </View>
 
+          <TagChips tags={topic.tags} mode={mode} style={{ marginBottom: 16 }} />
+
           {/* Stats Row */}
           <View
             style={{
@@ -453,6 +473,12 @@ export function ByteBlogPageHeader({
               </Text>
               <Text style={{ fontSize: 14, color: tokens.colors.muted }}>views</Text>
             </View>
+            <TopicNotificationButton
+              topicId={topic.id}
+              topicTitle={topic.title}
+              level={topic.notificationLevel}
+              mode={mode}
+            />
           </View>
 
           {/* Body Content - Premium Reading Typography */}
@@ -461,6 +487,10 @@ export function ByteBlogPageHeader({
             linkMetadata={topic.linkMetadata}
             isRawMarkdown={false}
             readingMode={true}
+            polls={topic.polls}
+            postId={topic.firstPostId}
+            topicId={topic.id}
+            onQuote={onQuote}
           />
         </View>
       </View>
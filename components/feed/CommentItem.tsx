@@ -1,11 +1,24 @@
-import React, { useRef, useEffect, useMemo } from 'react';
-import { View, Text, TouchableOpacity, Animated } from 'react-native';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, Pressable, Animated } from 'react-native';
 import { Image } from 'expo-image';
 import { useTheme } from '@/components/theme';
-import { Heart, ChatCircle } from 'phosphor-react-native';
+import { Heart, ChatCircle, Flag, Trash, ArrowCounterClockwise } from 'phosphor-react-native';
 import { getTokens } from '@/shared/design/tokens';
+import { PostFlagState, canFlagPost } from '@/shared/post-flags';
+import { PostReactions, canToggleReaction } from '@/shared/reactions';
+import { EmojiGlyph } from './EmojiGlyph';
+import { ReactionPicker } from './ReactionPicker';
+import { ReactionSummary } from './ReactionSummary';
+import { QuoteAside } from './QuoteAside';
+import { splitQuotes } from '@/shared/quotes';
+import { getSmallActionText } from '@/shared/moderation';
 
-// UI Spec: CommentItem — Renders a comment or reply with avatar, name, time, text, like/reply actions, and theming.
+// UI Spec: CommentItem — Renders a comment or reply with avatar, name, time, text, like/reply/flag actions, and theming.
+// With discourse-reactions: Like reacts with the main reaction, long-press opens the reaction
+// tray, and the counts per reaction show above the actions (tap for who reacted).
+// [quote] blocks show as collapsible asides; long-press the text to quote it (onQuote).
+// Small-action posts ("closed this Byte") render as a single muted line; deleted posts are
+// dimmed, and staff get Delete/Recover when onDelete/onRecover are passed.
 export interface Comment {
   id: string;
   author: {
@@ -19,6 +32,12 @@ export interface Comment {
   replyToPostNumber?: number;
   isReply?: boolean;
   isNew?: boolean;
+  flagState?: PostFlagState;
+  reactions?: PostReactions | null;
+  actionCode?: string;
+  isDeleted?: boolean;
+  canDelete?: boolean;
+  canRecover?: boolean;
 }
 
 interface CommentItemProps {
@@ -26,12 +45,35 @@ interface CommentItemProps {
   isReply?: boolean;
   onLike?: (id: string) => void;
   onReply?: (id: string) => void;
+  onFlag?: (id: string) => void;
+  // Site's reactions, main reaction first (empty without discourse-reactions)
+  reactionOptions?: string[];
+  onReact?: (id: string, reactionId: string) => void;
+  onShowReactions?: (id: string, reactionId?: string) => void;
+  onQuote?: (id: string) => void;
+  onDelete?: (id: string) => void;
+  onRecover?: (id: string) => void;
   isDark?: boolean; // Pass theme from parent when used in portal (e.g., bottom sheet)
   mode?: 'light' | 'dark' | 'darkAmoled'; // Pass mode from parent when used in portal
   shouldAnimate?: boolean;
 }
 
-export function CommentItem({ comment, isReply, onLike, onReply, isDark: isDarkProp, mode: modeProp, shouldAnimate }: CommentItemProps) {
+export function CommentItem({
+  comment,
+  isReply,
+  onLike,
+  onReply,
+  onFlag,
+  reactionOptions,
+  onReact,
+  onShowReactions,
+  onQuote,
+  onDelete,
+  onRecover,
+  isDark: isDarkProp,
+  mode: modeProp,
+  shouldAnimate,
+}: CommentItemProps) {
   // Use props if provided (for portal contexts), otherwise fall back to theme context
   const themeContext = useTheme();
   const isDark = isDarkProp !== undefined ? isDarkProp : themeContext.isDark;
@@ -41,7 +83,31 @@ export function CommentItem({ comment, isReply, onLike, onReply, isDark: isDarkP
   const shouldRunAnimation = shouldAnimate ?? comment.isNew ?? false;
   const fadeAnim = useRef(new Animated.Value(shouldRunAnimation ? 0 : 1)).current;
   const translateY = useRef(new Animated.Value(shouldRunAnimation ? -10 : 0)).current;
-  const plainContent = useMemo(() => toPlainText(comment.content), [comment.content]);
+  const segments = useMemo(
+    () =>
+      splitQuotes(comment.content).map((segment) => ({ ...segment, content: toPlainText(segment.content) })),
+    [comment.content]
+  );
+  const isFlagged = comment.flagState?.flaggedTypeId != null;
+  const showFlag = !!onFlag && !!comment.flagState && canFlagPost(comment.flagState);
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const reactions = comment.reactions;
+  const canReact = !!reactions && !!onReact && !!reactionOptions && reactionOptions.length > 0;
+  const currentReaction = reactions?.currentUserReaction ?? null;
+
+  const handleLikePress = () => {
+    setIsPickerOpen(false);
+    if (canReact) {
+      onReact?.(comment.id, currentReaction ?? reactionOptions![0]);
+    } else {
+      onLike?.(comment.id);
+    }
+  };
+
+  const handlePickReaction = (reactionId: string) => {
+    setIsPickerOpen(false);
+    onReact?.(comment.id, reactionId);
+  };
   
   // Animate only for newly added comments to avoid heavy list mounts
   useEffect(() => {
@@ -64,6 +130,25 @@ export function CommentItem({ comment, isReply, onLike, onReply, isDark: isDarkP
     ]).start();
   }, [fadeAnim, translateY, shouldRunAnimation]);
   
+  if (comment.actionCode) {
+    return (
+      <View
+        className="flex-row items-center py-2 border-b"
+        style={{ paddingHorizontal: 16, borderBottomColor: tokens.colors.border }}
+        accessible
+        accessibilityLabel={`${comment.author.name} ${getSmallActionText(comment.actionCode)}`}
+      >
+        <Text className="text-[13px] flex-1" style={{ color: tokens.colors.muted }}>
+          <Text className="font-semibold">{comment.author.name}</Text> {getSmallActionText(comment.actionCode)} ·{' '}
+          {comment.createdAt}
+        </Text>
+      </View>
+    );
+  }
+
+  const showDelete = !!onDelete && !!comment.canDelete && !comment.isDeleted;
+  const showRecover = !!onRecover && !!comment.canRecover && !!comment.isDeleted;
+
   // Handle empty avatar URLs
   const avatarSource = comment.author.avatar && comment.author.avatar.trim() !== '' 
     ? { uri: comment.author.avatar } 
@@ -74,7 +159,7 @@ export function CommentItem({ comment, isReply, onLike, onReply, isDark: isDarkP
       className={`flex-row items-start py-3 border-b ${isReply ? 'ml-11' : ''}`}
       style={[
         {
-          opacity: fadeAnim,
+          opacity: comment.isDeleted ? Animated.multiply(fadeAnim, 0.5) : fadeAnim,
           transform: [{ translateY }],
           borderBottomColor: tokens.colors.border,
         },
@@ -105,28 +190,68 @@ export function CommentItem({ comment, isReply, onLike, onReply, isDark: isDarkP
           <Text className="text-xs font-normal" style={{ color: tokens.colors.muted }}>
             {comment.createdAt}
           </Text>
+          {comment.isDeleted && (
+            <Text className="text-xs font-semibold ml-2" style={{ color: tokens.colors.danger }}>
+              Deleted
+            </Text>
+          )}
         </View>
-        <View className="mb-1.5">
-          <Text style={{ color: primaryTextColor, lineHeight: 22, fontSize: 15 }}>
-            {plainContent}
-          </Text>
-        </View>
+        <Pressable
+          className="mb-1.5"
+          onLongPress={onQuote ? () => onQuote(comment.id) : undefined}
+          delayLongPress={400}
+          accessibilityHint={onQuote ? 'Long press to quote in a reply' : undefined}
+        >
+          {segments.map((segment, index) =>
+            segment.kind === 'quote' ? (
+              <QuoteAside key={index} source={segment.source} mode={mode} style={{ marginTop: 4, marginBottom: 8 }}>
+                <Text style={{ color: primaryTextColor, lineHeight: 20, fontSize: 14 }}>{segment.content}</Text>
+              </QuoteAside>
+            ) : (
+              <Text key={index} style={{ color: primaryTextColor, lineHeight: 22, fontSize: 15 }}>
+                {segment.content}
+              </Text>
+            )
+          )}
+        </Pressable>
+        {reactions && reactions.reactions.length > 0 && (
+          <View className="mb-1.5">
+            <ReactionSummary
+              reactions={reactions}
+              mode={mode}
+              onPress={onShowReactions ? (reactionId) => onShowReactions(comment.id, reactionId) : undefined}
+            />
+          </View>
+        )}
         <View className="flex-row items-center gap-3">
           <TouchableOpacity
             className="flex-row items-center p-1 rounded-md"
-            onPress={() => onLike?.(comment.id)}
+            onPress={handleLikePress}
+            onLongPress={canReact ? () => setIsPickerOpen((open) => !open) : undefined}
+            delayLongPress={300}
             accessible
             accessibilityRole="button"
-            accessibilityLabel="Like comment"
+            accessibilityLabel={
+              canReact && currentReaction
+                ? `Remove your ${currentReaction.replace(/_/g, ' ')} reaction`
+                : 'Like comment'
+            }
+            accessibilityHint={canReact ? 'Long press for more reactions' : undefined}
           >
-            <Heart 
-              size={18} 
-              weight={comment.likes > 0 ? 'fill' : 'regular'} 
-              color={primaryTextColor} 
-            />
-            <Text className="text-[13px] ml-1 font-medium" style={{ color: primaryTextColor }}>
-              {comment.likes}
-            </Text>
+            {canReact && currentReaction ? (
+              <EmojiGlyph name={currentReaction} size={18} color={primaryTextColor} />
+            ) : (
+              <Heart 
+                size={18} 
+                weight={comment.likes > 0 && !canReact ? 'fill' : 'regular'} 
+                color={primaryTextColor} 
+              />
+            )}
+            {!canReact && (
+              <Text className="text-[13px] ml-1 font-medium" style={{ color: primaryTextColor }}>
+                {comment.likes}
+              </Text>
+            )}
           </TouchableOpacity>
           <TouchableOpacity
             className="flex-row items-center p-1 rounded-md"
@@ -140,7 +265,58 @@ export function CommentItem({ comment, isReply, onLike, onReply, isDark: isDarkP
               Reply
             </Text>
           </TouchableOpacity>
+          {showFlag && (
+            <TouchableOpacity
+              className="flex-row items-center p-1 rounded-md"
+              onPress={() => onFlag?.(comment.id)}
+              accessible
+              accessibilityRole="button"
+              accessibilityLabel={isFlagged ? 'Comment flagged' : 'Flag comment'}
+            >
+              <Flag
+                size={16}
+                weight={isFlagged ? 'fill' : 'regular'}
+                color={isFlagged ? tokens.colors.danger : tokens.colors.muted}
+              />
+            </TouchableOpacity>
+          )}
+          {showDelete && (
+            <TouchableOpacity
+              className="flex-row items-center p-1 rounded-md"
+              onPress={() => onDelete?.(comment.id)}
+              accessible
+              accessibilityRole="button"
+              accessibilityLabel="Delete comment"
+            >
+              <Trash size={16} weight="regular" color={tokens.colors.muted} />
+            </TouchableOpacity>
+          )}
+          {showRecover && (
+            <TouchableOpacity
+              className="flex-row items-center p-1 rounded-md"
+              onPress={() => onRecover?.(comment.id)}
+              accessible
+              accessibilityRole="button"
+              accessibilityLabel="Recover comment"
+            >
+              <ArrowCounterClockwise size={16} weight="regular" color={tokens.colors.muted} />
+              <Text className="text-[13px] ml-1 font-medium" style={{ color: tokens.colors.muted }}>
+                Recover
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
+        {isPickerOpen && canReact && (
+          <View className="mt-2">
+            <ReactionPicker
+              options={reactionOptions!}
+              current={currentReaction}
+              canChange={canToggleReaction(reactions!)}
+              onPick={handlePickReaction}
+              mode={mode}
+            />
+          </View>
+        )}
       </View>
     </Animated.View>
   );
@@ -0,0 +1,43 @@
+// UI Spec: EmojiGlyph — One emoji by its Discourse name: standard emoji as text,
+// the site's custom emoji as an image, unknown names as their :code:.
+
+import React, { memo, useMemo } from 'react';
+import { Text } from 'react-native';
+import { Image } from 'expo-image';
+import { CustomEmoji, findEmoji } from '@/shared/emoji';
+
+interface EmojiGlyphProps {
+  name: string;
+  size?: number;
+  customEmojis?: CustomEmoji[];
+  color?: string;
+}
+
+function EmojiGlyphComponent({ name, size = 20, customEmojis, color }: EmojiGlyphProps) {
+  const emoji = useMemo(() => findEmoji(name, customEmojis), [name, customEmojis]);
+
+  if (emoji?.url) {
+    return (
+      <Image
+        source={{ uri: emoji.url }}
+        style={{ width: size, height: size }}
+        contentFit="contain"
+        cachePolicy="memory-disk"
+        accessibilityLabel={name.replace(/_/g, ' ')}
+      />
+    );
+  }
+
+  if (emoji?.char) {
+    return (
+      <Text style={{ fontSize: size * 0.9, lineHeight: size * 1.15 }} accessibilityLabel={name.replace(/_/g, ' ')}>
+        {emoji.char}
+      </Text>
+    );
+  }
+
+  return <Text style={{ fontSize: size * 0.55, color }}>:{name}:</Text>;
+}
+
+export const EmojiGlyph = memo(EmojiGlyphComponent);
+EmojiGlyph.displayName = 'EmojiGlyph';
@@ -0,0 +1,265 @@
+// UI Spec: FlagSheet
+// - Bottom modal for flagging a Byte or a comment through Discourse post actions
+// - Lists the site's flag types; "Something else" (and other message flags) asks for a note
+// - Already flagged: shows which flag was raised and offers Undo while Discourse allows it
+// - Uses React Native Modal like CategoryNotificationLevelSheet, so it can open above other sheets
+
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Flag, Check, X } from 'phosphor-react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '@/components/theme';
+import { useFlagTypes } from '@/shared/useFlagTypes';
+import { useFlagPost, useUndoFlag } from '@/shared/mutations';
+import { PostFlagState, getAvailableFlagTypes } from '@/shared/post-flags';
+
+interface FlagSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  topicId: number;
+  postId: number;
+  flagState: PostFlagState;
+  targetLabel?: 'Byte' | 'comment';
+  onFlagged?: () => void;
+}
+
+export function FlagSheet({
+  visible,
+  onClose,
+  topicId,
+  postId,
+  flagState,
+  targetLabel = 'Byte',
+  onFlagged,
+}: FlagSheetProps) {
+  const { isDark } = useTheme();
+  const insets = useSafeAreaInsets();
+  const { flagTypes } = useFlagTypes(visible);
+  const flagPost = useFlagPost();
+  const undoFlag = useUndoFlag();
+  const [selectedTypeId, setSelectedTypeId] = useState<number | null>(null);
+  const [message, setMessage] = useState('');
+
+  const mutedColor = isDark ? '#A1A1AA' : '#6B6B72';
+  const accentColor = isDark ? '#26A69A' : '#009688';
+  const textColor = isDark ? '#F5F5F7' : '#111111';
+  const dangerColor = '#EF4444';
+
+  // Start fresh each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setSelectedTypeId(null);
+      setMessage('');
+    }
+  }, [visible]);
+
+  const availableTypes = useMemo(
+    () => getAvailableFlagTypes(flagTypes, flagState),
+    [flagTypes, flagState]
+  );
+  const selectedType = availableTypes.find((type) => type.id === selectedTypeId);
+  const flaggedType = flagTypes.find((type) => type.id === flagState.flaggedTypeId);
+  const isBusy = flagPost.isPending || undoFlag.isPending;
+  const canSubmit =
+    !!selectedType && (!selectedType.requireMessage || message.trim().length > 0) && !isBusy;
+
+  const handleSubmit = () => {
+    if (!selectedType || !canSubmit) return;
+    flagPost.mutate(
+      {
+        topicId,
+        postId,
+        flagTypeId: selectedType.id,
+        message: selectedType.requireMessage ? message : undefined,
+      },
+      {
+        onSuccess: () => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+          onClose();
+          onFlagged?.();
+          Alert.alert('Thanks for letting us know', 'Moderators will take a look.');
+        },
+        onError: (error) => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
+          Alert.alert('Error', error.message);
+        },
+      }
+    );
+  };
+
+  const handleUndo = () => {
+    if (flagState.flaggedTypeId === null) return;
+    undoFlag.mutate(
+      { topicId, postId, flagTypeId: flagState.flaggedTypeId },
+      {
+        onSuccess: () => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+          onClose();
+        },
+        onError: (error) => Alert.alert('Error', error.message),
+      }
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        className="flex-1"
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <Pressable
+          className="flex-1 justify-end"
+          onPress={onClose}
+          style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}
+        >
+          <Pressable onPress={(e) => e.stopPropagation()}>
+            <View
+              className="bg-fomio-bg dark:bg-fomio-bg-dark rounded-t-3xl"
+              style={{ paddingBottom: insets.bottom + 8, paddingTop: 12 }}
+            >
+              {/* Header */}
+              <View className="flex-row items-center justify-between px-4 pb-3 border-b border-fomio-border-soft dark:border-fomio-border-soft-dark">
+                <Text className="flex-1 text-title font-semibold text-fomio-foreground dark:text-fomio-foreground-dark">
+                  {flaggedType ? 'Flagged' : `Flag ${targetLabel}`}
+                </Text>
+                {isBusy ? <ActivityIndicator size="small" color={mutedColor} /> : null}
+                <TouchableOpacity
+                  onPress={onClose}
+                  className="p-2"
+                  accessible
+                  accessibilityRole="button"
+                  accessibilityLabel="Close flag options"
+                >
+                  <X size={20} color={mutedColor} weight="regular" />
+                </TouchableOpacity>
+              </View>
+
+              {flagState.flaggedTypeId !== null ? (
+                <View className="px-4 py-4">
+                  <View className="flex-row items-center">
+                    <Flag size={20} color={dangerColor} weight="fill" />
+                    <Text
+                      className="text-body font-semibold text-fomio-foreground dark:text-fomio-foreground-dark"
+                      style={{ fontSize: 15, marginLeft: 12 }}
+                    >
+                      You flagged this {targetLabel}
+                      {flaggedType ? `: ${flaggedType.name}` : ''}
+                    </Text>
+                  </View>
+                  <Text
+                    className="text-body text-fomio-muted dark:text-fomio-muted-dark"
+                    style={{ fontSize: 13, marginTop: 8 }}
+                  >
+                    {flagState.canUndo
+                      ? 'Changed your mind? You can still take the flag back.'
+                      : 'Moderators are reviewing this flag, so it can no longer be undone.'}
+                  </Text>
+                  {flagState.canUndo && (
+                    <TouchableOpacity
+                      onPress={handleUndo}
+                      disabled={isBusy}
+                      className="mt-4 py-3 rounded-xl items-center border"
+                      style={{ borderColor: dangerColor, opacity: isBusy ? 0.5 : 1 }}
+                      accessible
+                      accessibilityRole="button"
+                      accessibilityLabel="Undo flag"
+                    >
+                      <Text style={{ color: dangerColor, fontSize: 15, fontWeight: '600' }}>
+                        Undo flag
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ) : (
+                <>
+                  {availableTypes.map((type) => {
+                    const isSelected = type.id === selectedTypeId;
+                    return (
+                      <TouchableOpacity
+                        key={type.id}
+                        className="flex-row items-center px-4 py-3 active:opacity-70"
+                        onPress={() => {
+                          Haptics.selectionAsync().catch(() => {});
+                          setSelectedTypeId(type.id);
+                        }}
+                        disabled={isBusy}
+                        accessible
+                        accessibilityRole="radio"
+                        accessibilityState={{ selected: isSelected, disabled: isBusy }}
+                        accessibilityLabel={`${type.name}. ${type.description}`}
+                      >
+                        <View className="flex-1">
+                          <Text
+                            className="text-body font-semibold text-fomio-foreground dark:text-fomio-foreground-dark"
+                            style={{ fontSize: 15 }}
+                          >
+                            {type.name}
+                          </Text>
+                          <Text
+                            className="text-body text-fomio-muted dark:text-fomio-muted-dark"
+                            style={{ fontSize: 13, marginTop: 2 }}
+                          >
+                            {type.description}
+                          </Text>
+                        </View>
+                        {isSelected && (
+                          <Check size={18} color={accentColor} weight="bold" style={{ marginLeft: 8 }} />
+                        )}
+                      </TouchableOpacity>
+                    );
+                  })}
+
+                  {selectedType?.requireMessage && (
+                    <TextInput
+                      value={message}
+                      onChangeText={setMessage}
+                      placeholder="Let the moderators know what's wrong"
+                      placeholderTextColor={mutedColor}
+                      multiline
+                      autoFocus
+                      className="mx-4 mt-1 px-3 py-2 rounded-xl border border-fomio-border-soft dark:border-fomio-border-soft-dark"
+                      style={{ color: textColor, fontSize: 15, minHeight: 72, textAlignVertical: 'top' }}
+                      accessibilityLabel="Message for moderators"
+                    />
+                  )}
+
+                  <TouchableOpacity
+                    onPress={handleSubmit}
+                    disabled={!canSubmit}
+                    className="mx-4 mt-4 py-3 rounded-xl items-center"
+                    style={{ backgroundColor: dangerColor, opacity: canSubmit ? 1 : 0.4 }}
+                    accessible
+                    accessibilityRole="button"
+                    accessibilityLabel={`Flag ${targetLabel}`}
+                    accessibilityState={{ disabled: !canSubmit }}
+                  >
+                    <Text style={{ color: '#FFFFFF', fontSize: 15, fontWeight: '600' }}>
+                      Flag {targetLabel}
+                    </Text>
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
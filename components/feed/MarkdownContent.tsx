@@ -1,5 +1,5 @@
 import React, { useMemo, memo, useState } from 'react';
-import { View, Text, TouchableOpacity, Linking, ScrollView, useWindowDimensions, Platform } from 'react-native';
+import { View, Text, TouchableOpacity, Pressable, Linking, ScrollView, useWindowDimensions, Platform } from 'react-native';
 import Markdown from 'react-native-markdown-display';
 import RenderHTML, { HTMLContentModel, HTMLElementModel } from 'react-native-render-html';
 import { Image } from 'expo-image';
@@ -11,6 +11,9 @@ import { getTokens } from '@/shared/design/tokens';
 import { LinkPreviewCard } from '@/components/shared/link-preview';
 import { extractLinkPreview } from '@/lib/utils/linkPreview';
 import type { LinkPreview } from '@/components/shared/link-preview';
+import { PollBlock } from './PollBlock';
+import { QuoteAside } from './QuoteAside';
+import { Poll, parsePollFromCooked } from '@/shared/polls';
 
 export interface MarkdownContentProps {
   content: string; // HTML from Discourse `cooked` field
@@ -29,6 +32,10 @@ export interface MarkdownContentProps {
   >;
   lazyLoadVideos?: boolean; // If true, videos are only rendered when in viewport
   readingMode?: boolean; // If true, applies premium reading typography (larger font, better spacing, drop cap)
+  polls?: Poll[]; // Vote counts and the user's votes for [poll] blocks, from the post
+  postId?: number; // Post the content belongs to (needed to vote in polls)
+  topicId?: number;
+  onQuote?: () => void; // Long-press starts quoting the content into a reply
 }
 
 // Lazy-loaded video embed component to avoid rendering heavy WebViews until needed
@@ -298,12 +305,17 @@ function DetailsRenderer({
 // - Themed with Fomio semantic tokens
 // - Links open in in-app browser
 // - Images use expo-image and are tappable (lightbox-ready)
+// - Quotes render as collapsible asides linking to the quoted post; long-press to quote (onQuote)
 function MarkdownContentComponent({
   content,
   isRawMarkdown = false,
   linkMetadata,
   lazyLoadVideos = true,
   readingMode = false,
+  polls,
+  postId,
+  topicId,
+  onQuote,
 }: MarkdownContentProps) {
   const { isDark, isAmoled } = useTheme();
   const mode = isDark ? (isAmoled ? 'darkAmoled' : 'dark') : 'light';
@@ -437,59 +449,30 @@ function MarkdownContentComponent({
           );
         }
         
-        // Handle Discourse quote blocks [quote="user"] or [quote]
+        // Handle Discourse quote blocks [quote="user, post:N, topic:T"] or [quote]
         if (isQuote) {
-          const dataUsername = tnode?.attributes?.['data-username'];
-          const dataPost = tnode?.attributes?.['data-post'];
-          const dataTopic = tnode?.attributes?.['data-topic'];
-          const title = tnode?.attributes?.title;
-          
-          // Extract quote title from title attribute or data attributes
-          let quoteTitle: string | null = null;
-          if (dataUsername) {
-            quoteTitle = `@${dataUsername}`;
-            if (dataPost) {
-              quoteTitle += ` (post ${dataPost})`;
-            } else if (dataTopic) {
-              quoteTitle += ` (topic ${dataTopic})`;
-            }
-          } else if (title) {
-            quoteTitle = title;
-          }
-          
+          const attributes = tnode?.attributes || {};
+          const username = attributes['data-username'];
+          const postNumber = parseInt(attributes['data-post'], 10);
+          const quotedTopicId = parseInt(attributes['data-topic'], 10);
+          const source = username
+            ? {
+                username,
+                postNumber: Number.isFinite(postNumber) ? postNumber : null,
+                topicId: Number.isFinite(quotedTopicId) ? quotedTopicId : null,
+              }
+            : null;
+
           return (
-            <View
-              style={[
-                {
-                  backgroundColor: tokens.colors.surfaceMuted,
-                  borderLeftWidth: 4,
-                  borderLeftColor: tokens.colors.accent,
-                  paddingLeft: 16,
-                  paddingRight: 16,
-                  paddingTop: 12,
-                  paddingBottom: 12,
-                  marginTop: 12,
-                  marginBottom: 16,
-                  borderRadius: 8,
-                },
-                props.style,
-              ]}
-            >
-              {quoteTitle && (
-                <View style={{ marginBottom: 8 }}>
-                  <Text
-                    style={{
-                      fontSize: 14,
-                      fontWeight: '600',
-                      color: tokens.colors.accent,
-                    }}
-                  >
-                    {quoteTitle}
-                  </Text>
-                </View>
-              )}
-              <TNodeChildrenRenderer tnode={tnode} />
-            </View>
+            <QuoteAside source={source} title={attributes.title} mode={mode} style={props.style}>
+              <TNodeChildrenRenderer
+                tnode={tnode}
+                // The cooked header (avatar and "user:") is replaced by the aside's own
+                renderChild={({ childElement, childTnode }: any) =>
+                  childTnode?.classes?.includes('title') ? null : childElement
+                }
+              />
+            </QuoteAside>
           );
         }
         
@@ -574,6 +557,16 @@ function MarkdownContentComponent({
         const { tnode, TDefaultRenderer } = props;
         const className = tnode?.attributes?.class || '';
         const classList = className.split(' ');
+
+        // Discourse polls ([poll] BBCode)
+        if (classList.includes('poll')) {
+          const pollName = tnode?.attributes?.['data-poll-name'] || 'poll';
+          const poll =
+            polls?.find((item) => item.name === pollName) ||
+            parsePollFromCooked(tnode?.attributes || {}, findPollOptions(tnode));
+          return <PollBlock key={pollName} poll={poll} postId={postId} topicId={topicId} />;
+        }
+
         const isVideoOnebox =
           classList.includes('lazy-video-container') ||
           classList.includes('youtube-onebox') ||
@@ -714,7 +707,7 @@ function MarkdownContentComponent({
         return null;
       },
     }),
-    [baseTextColor, codeFont, isDark, oneboxContainerStyle, renderLink, tokens, linkMetadata]
+    [baseTextColor, codeFont, isDark, mode, oneboxContainerStyle, renderLink, tokens, linkMetadata, polls, postId, topicId]
   );
 
   // Styles for HTML tags (cooked content)
@@ -860,7 +853,7 @@ function MarkdownContentComponent({
   }
 
   // Cooked HTML path: render directly without brittle conversion
-  return (
+  const html = (
     <RenderHTML
       contentWidth={contentWidth}
       source={{ html: content || '' }}
@@ -916,6 +909,18 @@ function MarkdownContentComponent({
       }}
     />
   );
+
+  if (!onQuote) return html;
+
+  return (
+    <Pressable
+      onLongPress={onQuote}
+      delayLongPress={400}
+      accessibilityHint="Long press to quote in a reply"
+    >
+      {html}
+    </Pressable>
+  );
 }
 
 // Memoize MarkdownContent to prevent unnecessary re-renders
@@ -923,7 +928,10 @@ export const MarkdownContent = memo(MarkdownContentComponent, (prevProps, nextPr
   return (
     prevProps.content === nextProps.content &&
     prevProps.isRawMarkdown === nextProps.isRawMarkdown &&
-    prevProps.lazyLoadVideos === nextProps.lazyLoadVideos
+    prevProps.lazyLoadVideos === nextProps.lazyLoadVideos &&
+    prevProps.polls === nextProps.polls &&
+    prevProps.postId === nextProps.postId &&
+    prevProps.onQuote === nextProps.onQuote
   );
 });
 MarkdownContent.displayName = 'MarkdownContent';
@@ -1027,6 +1035,24 @@ function findFirstHref(tnode: any): string | null {
   return null;
 }
 
+/**
+ * Collect the options of a cooked poll block (li[data-poll-option-id])
+ */
+function findPollOptions(tnode: any): Array<{ id: string; text: string }> {
+  if (!tnode || !Array.isArray(tnode.children)) return [];
+
+  const options: Array<{ id: string; text: string }> = [];
+  for (const child of tnode.children) {
+    const optionId = child.attributes?.['data-poll-option-id'];
+    if (optionId) {
+      options.push({ id: String(optionId), text: extractTextContent(child).trim() });
+    } else {
+      options.push(...findPollOptions(child));
+    }
+  }
+  return options;
+}
+
 /**
  * Helper to extract summary text from details element
  * Used for rendering Discourse spoilers and details blocks
@@ -0,0 +1,340 @@
+// UI Spec: MoveRepliesSheet
+// - Staff tool: pick replies of a Byte and split them into a new Byte or merge them into another
+// - New Byte: title and teret (defaults to this Byte's teret); Existing Byte: paste its link or ID
+// - Replies are removed from the stream right away; Discourse adds a "moved replies" small action
+// - Offers to open the destination once the move goes through
+// - Uses React Native Modal like FlagSheet, so the teret picker can open above it
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Check, X, CaretRight } from 'phosphor-react-native';
+import { router } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '@/components/theme';
+import { SegmentedControl } from '@/components/compose/SegmentedControl';
+import { TeretPickerSheet } from '@/components/terets/TeretPickerSheet';
+import { useAuth } from '@/shared/auth-context';
+import { useComments } from '@/shared/useComments';
+import { Teret, useTerets } from '@/shared/useTerets';
+import { TopicData } from '@/shared/useTopic';
+import { useMovePosts } from '@/shared/mutations';
+import { parseTopicReference } from '@/shared/moderation';
+import { getQuotableText } from '@/shared/quotes';
+
+type Destination = 'new' | 'existing';
+
+interface MoveRepliesSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  topic: TopicData;
+}
+
+export function MoveRepliesSheet({ visible, onClose, topic }: MoveRepliesSheetProps) {
+  const { isDark } = useTheme();
+  const insets = useSafeAreaInsets();
+  const { user } = useAuth();
+  const { comments, hasMore, isLoadingMore, loadMore } = useComments(topic.id, { enabled: visible });
+  const movePosts = useMovePosts();
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [destination, setDestination] = useState<Destination>('new');
+  const [title, setTitle] = useState('');
+  const [teret, setTeret] = useState<{ id: number; name: string } | null>(null);
+  const [reference, setReference] = useState('');
+  const [isTeretPickerOpen, setIsTeretPickerOpen] = useState(false);
+
+  const mutedColor = isDark ? '#A1A1AA' : '#6B6B72';
+  const accentColor = isDark ? '#26A69A' : '#009688';
+  const textColor = isDark ? '#F5F5F7' : '#111111';
+
+  // Start fresh each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setSelectedIds(new Set());
+      setDestination('new');
+      setTitle('');
+      setTeret(null);
+      setReference('');
+    }
+  }, [visible]);
+
+  // Small actions and deleted posts can't be moved
+  const replies = useMemo(
+    () => comments.filter((comment) => !comment.actionCode && !comment.isDeleted),
+    [comments]
+  );
+  const destinationId = parseTopicReference(reference);
+  const isReferenceInvalid = reference.trim().length > 0 && (!destinationId || destinationId === topic.id);
+  const canSubmit =
+    selectedIds.size > 0 &&
+    !movePosts.isPending &&
+    (destination === 'new' ? title.trim().length > 0 : !!destinationId && destinationId !== topic.id);
+
+  const toggleReply = (id: number) => {
+    Haptics.selectionAsync().catch(() => {});
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    const postIds = replies.filter((reply) => selectedIds.has(reply.id)).map((reply) => reply.id);
+    movePosts.mutate(
+      {
+        topicId: topic.id,
+        postIds,
+        destination:
+          destination === 'new'
+            ? { title: title.trim(), categoryId: (teret ?? topic.category).id }
+            : { topicId: destinationId! },
+        author: user ?? undefined,
+      },
+      {
+        onSuccess: (result) => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+          onClose();
+          const movedTo = destination === 'existing' ? destinationId : result.topicId;
+          const count = `${postIds.length} ${postIds.length === 1 ? 'reply' : 'replies'}`;
+          Alert.alert(
+            'Replies moved',
+            destination === 'new' ? `${count} moved to a new Byte.` : `${count} moved to the other Byte.`,
+            movedTo
+              ? [
+                  { text: 'Stay here', style: 'cancel' },
+                  { text: 'Open Byte', onPress: () => router.push(`/feed/${movedTo}` as any) },
+                ]
+              : undefined
+          );
+        },
+        onError: (error) => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
+          Alert.alert('Error', error.message);
+        },
+      }
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView className="flex-1" behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <Pressable
+          className="flex-1 justify-end"
+          onPress={onClose}
+          style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}
+        >
+          <Pressable onPress={(e) => e.stopPropagation()}>
+            <View
+              className="bg-fomio-bg dark:bg-fomio-bg-dark rounded-t-3xl"
+              style={{ paddingBottom: insets.bottom + 8, paddingTop: 12, maxHeight: '90%' }}
+            >
+              {/* Header */}
+              <View className="flex-row items-center justify-between px-4 pb-3 border-b border-fomio-border-soft dark:border-fomio-border-soft-dark">
+                <View className="flex-1">
+                  <Text className="text-title font-semibold text-fomio-foreground dark:text-fomio-foreground-dark">
+                    Move replies
+                  </Text>
+                  <Text className="text-body text-fomio-muted dark:text-fomio-muted-dark" style={{ fontSize: 13 }}>
+                    {selectedIds.size === 0 ? 'Select the replies to move' : `${selectedIds.size} selected`}
+                  </Text>
+                </View>
+                {movePosts.isPending ? <ActivityIndicator size="small" color={mutedColor} /> : null}
+                <TouchableOpacity
+                  onPress={onClose}
+                  className="p-2"
+                  accessible
+                  accessibilityRole="button"
+                  accessibilityLabel="Close move replies"
+                >
+                  <X size={20} color={mutedColor} weight="regular" />
+                </TouchableOpacity>
+              </View>
+
+              <FlatList
+                data={replies}
+                keyExtractor={(item) => item.id.toString()}
+                style={{ maxHeight: 280 }}
+                onEndReached={hasMore ? loadMore : undefined}
+                onEndReachedThreshold={0.5}
+                ListEmptyComponent={
+                  <Text className="text-body text-fomio-muted dark:text-fomio-muted-dark px-4 py-4" style={{ fontSize: 14 }}>
+                    This Byte has no replies to move.
+                  </Text>
+                }
+                ListFooterComponent={
+                  isLoadingMore ? <ActivityIndicator size="small" color={accentColor} style={{ marginVertical: 8 }} /> : null
+                }
+                renderItem={({ item }) => {
+                  const isSelected = selectedIds.has(item.id);
+                  return (
+                    <TouchableOpacity
+                      className="flex-row items-center px-4 py-3 active:opacity-70"
+                      onPress={() => toggleReply(item.id)}
+                      accessible
+                      accessibilityRole="checkbox"
+                      accessibilityState={{ checked: isSelected }}
+                      accessibilityLabel={`Reply ${item.postNumber} by ${item.author.name}`}
+                    >
+                      <View
+                        className="w-5 h-5 rounded-md items-center justify-center mr-3 border"
+                        style={{
+                          borderColor: isSelected ? accentColor : mutedColor,
+                          backgroundColor: isSelected ? accentColor : 'transparent',
+                        }}
+                      >
+                        {isSelected ? <Check size={12} color="#FFFFFF" weight="bold" /> : null}
+                      </View>
+                      <View className="flex-1">
+                        <Text
+                          className="text-body font-semibold text-fomio-foreground dark:text-fomio-foreground-dark"
+                          style={{ fontSize: 14 }}
+                        >
+                          #{item.postNumber} · {item.author.name}
+                        </Text>
+                        <Text
+                          className="text-body text-fomio-muted dark:text-fomio-muted-dark"
+                          style={{ fontSize: 13, marginTop: 2 }}
+                          numberOfLines={2}
+                        >
+                          {getQuotableText(item.content)}
+                        </Text>
+                      </View>
+                    </TouchableOpacity>
+                  );
+                }}
+              />
+
+              {/* Destination */}
+              <View className="px-4 pt-3 border-t border-fomio-border-soft dark:border-fomio-border-soft-dark">
+                <SegmentedControl<Destination>
+                  segments={[
+                    { value: 'new', label: 'New Byte' },
+                    { value: 'existing', label: 'Existing Byte' },
+                  ]}
+                  selectedValue={destination}
+                  onValueChange={setDestination}
+                  size="sm"
+                />
+
+                {destination === 'new' ? (
+                  <>
+                    <TextInput
+                      value={title}
+                      onChangeText={setTitle}
+                      placeholder="Title of the new Byte"
+                      placeholderTextColor={mutedColor}
+                      className="mt-3 px-3 py-2 rounded-xl border border-fomio-border-soft dark:border-fomio-border-soft-dark"
+                      style={{ color: textColor, fontSize: 15 }}
+                      accessibilityLabel="Title of the new Byte"
+                    />
+                    <TouchableOpacity
+                      onPress={() => setIsTeretPickerOpen(true)}
+                      className="flex-row items-center mt-2 px-3 py-3 rounded-xl border border-fomio-border-soft dark:border-fomio-border-soft-dark"
+                      accessible
+                      accessibilityRole="button"
+                      accessibilityLabel={`Teret: ${(teret ?? topic.category).name}`}
+                    >
+                      <Text className="flex-1 text-body text-fomio-foreground dark:text-fomio-foreground-dark" style={{ fontSize: 15 }}>
+                        {(teret ?? topic.category).name}
+                      </Text>
+                      <CaretRight size={16} color={mutedColor} weight="regular" />
+                    </TouchableOpacity>
+                  </>
+                ) : (
+                  <>
+                    <TextInput
+                      value={reference}
+                      onChangeText={setReference}
+                      placeholder="Link or ID of the other Byte"
+                      placeholderTextColor={mutedColor}
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      className="mt-3 px-3 py-2 rounded-xl border border-fomio-border-soft dark:border-fomio-border-soft-dark"
+                      style={{ color: textColor, fontSize: 15 }}
+                      accessibilityLabel="Link or ID of the other Byte"
+                    />
+                    {isReferenceInvalid ? (
+                      <Text style={{ color: '#EF4444', fontSize: 13, marginTop: 4 }}>
+                        Paste the link of another Byte
+                      </Text>
+                    ) : null}
+                  </>
+                )}
+
+                <TouchableOpacity
+                  onPress={handleSubmit}
+                  disabled={!canSubmit}
+                  className="mt-4 py-3 rounded-xl items-center"
+                  style={{ backgroundColor: accentColor, opacity: canSubmit ? 1 : 0.4 }}
+                  accessible
+                  accessibilityRole="button"
+                  accessibilityLabel="Move replies"
+                  accessibilityState={{ disabled: !canSubmit }}
+                >
+                  <Text style={{ color: '#FFFFFF', fontSize: 15, fontWeight: '600' }}>
+                    Move {selectedIds.size > 0 ? selectedIds.size : ''} {selectedIds.size === 1 ? 'reply' : 'replies'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+
+      {isTeretPickerOpen ? (
+        <DestinationTeretPicker
+          selectedId={(teret ?? topic.category).id}
+          onClose={() => setIsTeretPickerOpen(false)}
+          onSelect={(picked) => {
+            setTeret({ id: picked.id, name: picked.name });
+            setIsTeretPickerOpen(false);
+          }}
+        />
+      ) : null}
+    </Modal>
+  );
+}
+
+// Mounted only while open, so terets load on demand
+function DestinationTeretPicker({
+  selectedId,
+  onClose,
+  onSelect,
+}: {
+  selectedId: number;
+  onClose: () => void;
+  onSelect: (teret: Teret) => void;
+}) {
+  const { terets, allCategories, isLoading, errorMessage } = useTerets();
+  const selectedTeret = terets.find((teret) => teret.id === selectedId) ?? null;
+
+  return (
+    <TeretPickerSheet
+      visible
+      onClose={onClose}
+      onSelect={onSelect}
+      selectedTeret={selectedTeret}
+      allCategories={allCategories}
+      isLoading={isLoading}
+      error={errorMessage || null}
+    />
+  );
+}
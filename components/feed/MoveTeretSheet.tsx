@@ -0,0 +1,60 @@
+// UI Spec: MoveTeretSheet
+// - Staff tool: move a Byte to another teret with the TeretPickerSheet
+// - Mount only while open, so terets load on demand
+// - The Byte shows its new teret right away and rolls back if Discourse refuses
+
+import React from 'react';
+import { Alert } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { TeretPickerSheet } from '@/components/terets/TeretPickerSheet';
+import { Teret, useTerets } from '@/shared/useTerets';
+import { TopicData } from '@/shared/useTopic';
+import { useMoveByteToTeret } from '@/shared/mutations';
+
+interface MoveTeretSheetProps {
+  topic: TopicData;
+  onClose: () => void;
+}
+
+export function MoveTeretSheet({ topic, onClose }: MoveTeretSheetProps) {
+  const { terets, allCategories, isLoading, errorMessage } = useTerets();
+  const moveByte = useMoveByteToTeret();
+  const selectedTeret = terets.find((teret) => teret.id === topic.category.id) ?? null;
+
+  const handleSelect = (teret: Teret) => {
+    onClose();
+    if (teret.id === topic.category.id) return;
+    moveByte.mutate(
+      {
+        topicId: topic.id,
+        category: {
+          id: teret.id,
+          name: teret.name,
+          color: teret.color.startsWith('#') ? teret.color : `#${teret.color}`,
+          slug: teret.slug,
+        },
+      },
+      {
+        onSuccess: () => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+        },
+        onError: (error) => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
+          Alert.alert('Error', error.message);
+        },
+      }
+    );
+  };
+
+  return (
+    <TeretPickerSheet
+      visible
+      onClose={onClose}
+      onSelect={handleSelect}
+      selectedTeret={selectedTeret}
+      allCategories={allCategories}
+      isLoading={isLoading}
+      error={errorMessage || null}
+    />
+  );
+}
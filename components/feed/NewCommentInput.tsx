@@ -1,13 +1,21 @@
 import React, { useState, useRef, useEffect, forwardRef, useImperativeHandle, useMemo } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Keyboard } from 'react-native';
+import { View, Text, TextInput, StyleSheet, TouchableOpacity, ActivityIndicator, Keyboard } from 'react-native';
 import { BottomSheetTextInput } from '@gorhom/bottom-sheet';
 import { useTheme } from '@/components/theme';
 import { PaperPlaneRight } from 'phosphor-react-native';
 import { useAuth } from '@/shared/auth-context';
 import { router } from 'expo-router';
 import { getTokens } from '@/shared/design/tokens';
+import { AutocompletePopover } from '@/components/compose/AutocompletePopover';
+import { MentionParticipant } from '@/shared/autocomplete';
+import { useAutocomplete } from '@/shared/useAutocomplete';
+import { useTerets } from '@/shared/useTerets';
+import { useServerDraft } from '@/shared/useServerDraft';
+import { DraftConflictBanner } from '@/components/drafts/DraftConflictBanner';
 
 // UI Spec: NewCommentInput — Input for adding a new comment or reply, with send button, theming, and accessibility.
+// @mention and #hashtag suggestions open above the input. A pending [quote] block is appended on its own lines.
+// With a draftKey the text is kept in a Discourse draft, restored on open and deleted once sent.
 interface NewCommentInputProps {
   onSend?: (text: string, replyToPostNumber?: number) => void;
   replyTo?: {
@@ -16,6 +24,16 @@ interface NewCommentInputProps {
   };
   onFocus?: () => void;
   isAuthenticated?: boolean; // Optional prop for when used in contexts without AuthProvider (e.g., BottomSheetModal)
+  inSheet?: boolean; // Set to false when rendered on a regular screen (BottomSheetTextInput needs a sheet)
+  placeholder?: string;
+  // Topic being replied to; its participants are suggested first for @mentions
+  topicId?: number;
+  participants?: MentionParticipant[];
+  // [quote] block to add to the text; onQuoteInserted fires once it's in
+  pendingQuote?: string | null;
+  onQuoteInserted?: () => void;
+  // Discourse draft the text is saved to (`topic_{id}` for replies)
+  draftKey?: string;
 }
 
 export interface NewCommentInputRef {
@@ -24,7 +42,19 @@ export interface NewCommentInputRef {
 }
 
 export const NewCommentInput = forwardRef<NewCommentInputRef, NewCommentInputProps>(
-  ({ onSend, replyTo, onFocus, isAuthenticated: isAuthenticatedProp }, ref) => {
+  ({
+    onSend,
+    replyTo,
+    onFocus,
+    isAuthenticated: isAuthenticatedProp,
+    inSheet = true,
+    placeholder = 'Add a comment...',
+    topicId,
+    participants,
+    pendingQuote,
+    onQuoteInserted,
+    draftKey,
+  }, ref) => {
   const { isDark, isAmoled } = useTheme();
   // useAuth now returns safe defaults if context is missing (e.g., in BottomSheetModal portals)
   // If prop is provided, it takes precedence
@@ -33,7 +63,17 @@ export const NewCommentInput = forwardRef<NewCommentInputRef, NewCommentInputPro
   const [text, setText] = useState('');
   const [isSending, setIsSending] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const inputRef = useRef<BottomSheetTextInput>(null);
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
+  // Cursor to move to after a suggestion is inserted; uncontrolled otherwise
+  const [forcedSelection, setForcedSelection] = useState<{ start: number; end: number } | undefined>();
+  const { allCategories } = useTerets();
+  const inputRef = useRef<TextInput>(null);
+  const InputComponent = inSheet ? BottomSheetTextInput : TextInput;
+  const replyDraft = useServerDraft({
+    draftKey: isAuthenticated && draftKey ? draftKey : null,
+    draft: text.trim() ? { reply: text, action: 'reply' } : null,
+    onLoad: (content) => setText(content.raw),
+  });
   const wasFocusedRef = useRef<boolean>(false); // Track if input was focused
 
   // Expose focus/blur methods via ref
@@ -48,6 +88,25 @@ export const NewCommentInput = forwardRef<NewCommentInputRef, NewCommentInputPro
   
   const mode = isDark ? (isAmoled ? 'darkAmoled' : 'dark') : 'light';
   const tokens = useMemo(() => getTokens(mode), [mode]);
+
+  const exclude = useMemo(
+    () => (authContext.user?.username ? [authContext.user.username] : []),
+    [authContext.user?.username]
+  );
+  const autocomplete = useAutocomplete({
+    text,
+    selection,
+    onChange: (nextText, cursor) => {
+      setText(nextText);
+      setSelection({ start: cursor, end: cursor });
+      setForcedSelection({ start: cursor, end: cursor });
+    },
+    topicId,
+    participants,
+    categories: allCategories,
+    exclude,
+    enabled: isAuthenticated && !isSending,
+  });
   
   const colors = {
     background: tokens.colors.background,
@@ -65,6 +124,20 @@ export const NewCommentInput = forwardRef<NewCommentInputRef, NewCommentInputPro
     }
   }, [replyTo, isAuthenticated]);
 
+  // Add a quote picked from a post, then put the cursor after it
+  useEffect(() => {
+    if (!pendingQuote || !isAuthenticated) return;
+    setText((current) => {
+      const existing = current.replace(/\s+$/, '');
+      const next = existing ? `${existing}\n\n${pendingQuote}` : pendingQuote;
+      setSelection({ start: next.length, end: next.length });
+      setForcedSelection({ start: next.length, end: next.length });
+      return next;
+    });
+    onQuoteInserted?.();
+    setTimeout(() => inputRef.current?.focus(), 100);
+  }, [pendingQuote, isAuthenticated, onQuoteInserted]);
+
   // FIXED: Maintain focus when keyboard appears to prevent it from disappearing
   useEffect(() => {
     const showSubscription = Keyboard.addListener('keyboardDidShow', () => {
@@ -130,6 +203,7 @@ export const NewCommentInput = forwardRef<NewCommentInputRef, NewCommentInputPro
       await onSend?.(text.trim(), replyToPostNumber);
       setText('');
       setError(null);
+      void replyDraft.discard();
     } catch (err) {
       console.error('❌ NewCommentInput send error:', err);
       const errorMessage = err instanceof Error ? err.message : 'Failed to send comment';
@@ -160,63 +234,95 @@ export const NewCommentInput = forwardRef<NewCommentInputRef, NewCommentInputPro
   }
 
   return (
-    <View style={[styles.inputRow, { backgroundColor: colors.background, borderColor: colors.border }]}> 
-      {error && (
-        <TouchableOpacity
-          onPress={handleSend}
-          style={styles.errorContainer}
-        >
-          <Text style={[styles.errorText, { color: colors.error }]}>
-            {error}
-          </Text>
-        </TouchableOpacity>
+    <View>
+      {replyDraft.conflict && (
+        <View style={styles.autocomplete}>
+          <DraftConflictBanner
+            theirs={replyDraft.conflict}
+            onKeepMine={() => void replyDraft.keepMine()}
+            onUseTheirs={replyDraft.takeTheirs}
+          />
+        </View>
       )}
-      {replyTo && (
-        <View style={styles.replyIndicator}>
-          <Text style={[styles.replyText, { color: colors.accent }]}>
-            Replying to @{replyTo.username}
-          </Text>
+      {autocomplete.isOpen && (
+        <View style={styles.autocomplete}>
+          <AutocompletePopover
+            suggestions={autocomplete.suggestions}
+            highlightedIndex={autocomplete.highlightedIndex}
+            onHighlight={autocomplete.setHighlightedIndex}
+            onSelect={autocomplete.select}
+            isSearching={autocomplete.isSearching}
+            maxHeight={180}
+          />
         </View>
       )}
-      <BottomSheetTextInput
-        ref={inputRef}
-        style={[styles.input, { color: colors.text }]}
-        placeholder={replyTo ? `Reply to @${replyTo.username}...` : "Add a comment..."}
-        placeholderTextColor={colors.placeholder}
-        value={text}
-        onChangeText={setText}
-        multiline
-        editable={!isSending}
-        onFocus={() => {
-          wasFocusedRef.current = true; // Mark as focused
-          onFocus?.();
-        }}
-        onBlur={() => {
-          // Don't reset wasFocusedRef immediately on blur
-          // Wait a bit in case it's a temporary blur due to layout shift
-          setTimeout(() => {
-            if (!inputRef.current?.isFocused()) {
-              wasFocusedRef.current = false;
-            }
-          }, 100);
-        }}
-        accessibilityLabel={replyTo ? `Reply to ${replyTo.username}` : "Add a comment"}
-        accessible
-      />
-      <TouchableOpacity
-        style={[styles.sendBtn, isSending && styles.sendBtnDisabled]}
-        onPress={handleSend}
-        disabled={text.trim().length === 0 || isSending}
-        accessibilityRole="button"
-        accessibilityLabel="Send comment"
-        accessible
-      >
-        {isSending ? (
-          <ActivityIndicator size="small" color={colors.accent} />
-        ) : (
-          <PaperPlaneRight size={22} weight="fill" color={colors.accent} />
+      <View style={[styles.inputRow, { backgroundColor: colors.background, borderColor: colors.border }]}> 
+        {error && (
+          <TouchableOpacity
+            onPress={handleSend}
+            style={styles.errorContainer}
+          >
+            <Text style={[styles.errorText, { color: colors.error }]}>
+              {error}
+            </Text>
+          </TouchableOpacity>
         )}
-      </TouchableOpacity>
+        {replyTo && (
+          <View style={styles.replyIndicator}>
+            <Text style={[styles.replyText, { color: colors.accent }]}>
+              Replying to @{replyTo.username}
+            </Text>
+          </View>
+        )}
+        <InputComponent
+          ref={inputRef}
+          style={[styles.input, { color: colors.text }]}
+          placeholder={replyTo ? `Reply to @${replyTo.username}...` : placeholder}
+          placeholderTextColor={colors.placeholder}
+          value={text}
+          onChangeText={(nextText: string) => {
+            if (autocomplete.shouldIgnoreChange()) return;
+            setText(nextText);
+          }}
+          selection={forcedSelection}
+          onSelectionChange={(event: { nativeEvent: { selection: { start: number; end: number } } }) => {
+            setSelection(event.nativeEvent.selection);
+            setForcedSelection(undefined);
+          }}
+          onKeyPress={autocomplete.handleKeyPress}
+          multiline
+          editable={!isSending}
+          onFocus={() => {
+            wasFocusedRef.current = true; // Mark as focused
+            onFocus?.();
+          }}
+          onBlur={() => {
+            // Don't reset wasFocusedRef immediately on blur
+            // Wait a bit in case it's a temporary blur due to layout shift
+            setTimeout(() => {
+              if (!inputRef.current?.isFocused()) {
+                wasFocusedRef.current = false;
+              }
+            }, 100);
+          }}
+          accessibilityLabel={replyTo ? `Reply to ${replyTo.username}` : "Add a comment"}
+          accessible
+        />
+        <TouchableOpacity
+          style={[styles.sendBtn, isSending && styles.sendBtnDisabled]}
+          onPress={handleSend}
+          disabled={text.trim().length === 0 || isSending}
+          accessibilityRole="button"
+          accessibilityLabel="Send comment"
+          accessible
+        >
+          {isSending ? (
+            <ActivityIndicator size="small" color={colors.accent} />
+          ) : (
+            <PaperPlaneRight size={22} weight="fill" color={colors.accent} />
+          )}
+        </TouchableOpacity>
+      </View>
     </View>
   );
 });
@@ -224,6 +330,9 @@ export const NewCommentInput = forwardRef<NewCommentInputRef, NewCommentInputPro
 NewCommentInput.displayName = 'NewCommentInput';
 
 const styles = StyleSheet.create({
+  autocomplete: {
+    marginBottom: 6,
+  },
   inputRow: {
     flexDirection: 'row',
     alignItems: 'flex-end',
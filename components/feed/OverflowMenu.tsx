@@ -1,77 +1,105 @@
 import 'react-native-reanimated';
-import React, { useRef, useCallback, useMemo } from 'react';
+import React, { useRef, useCallback, useMemo, useState } from 'react';
 import { View, Text, TouchableOpacity, Pressable, Alert, Platform } from 'react-native';
-import { ThemedBottomSheet, BottomSheetModalRef, BottomSheetView } from '@/components/ui/bottom-sheet';
-import { DotsThreeVertical, Bell, BellSlash, PushPin, Lock, Archive, Flag, Link, Share as ShareIcon } from 'phosphor-react-native';
+import { ThemedBottomSheet, BottomSheetModalRef, BottomSheetScrollView } from '@/components/ui/bottom-sheet';
+import {
+  DotsThreeVertical,
+  PushPin,
+  PushPinSlash,
+  Globe,
+  Lock,
+  LockOpen,
+  Archive,
+  Eye,
+  EyeSlash,
+  FolderSimple,
+  Scissors,
+  Flag,
+  Link,
+  Share as ShareIcon,
+  PencilSimple,
+  ClockCounterClockwise,
+} from 'phosphor-react-native';
+import { router } from 'expo-router';
 import { useTheme } from '@/components/theme';
 import { getThemeColors } from '@/shared/theme-constants';
 import { TopicData } from '../../shared/useTopic';
-import { discourseApi } from '../../shared/discourseApi';
+import { TopicNotificationLevel, TopicStatus } from '../../shared/discourseApi';
+import { useAuth } from '../../shared/auth-context';
+import { useSetByteNotificationLevel, useUpdateTopicStatus } from '../../shared/mutations';
+import { getTopicNotificationLevelOption } from '../../shared/topic-notifications';
+import { isStaffUser } from '../../shared/moderation';
+import { FlagSheet } from './FlagSheet';
+import { MoveTeretSheet } from './MoveTeretSheet';
+import { MoveRepliesSheet } from './MoveRepliesSheet';
+import { TopicNotificationLevelIcon, TopicNotificationLevelSheet } from './TopicNotificationLevelSheet';
 import * as Haptics from 'expo-haptics';
 import { Clipboard, Linking, Share } from 'react-native';
 
 // Accessibility: Larger hitSlop for better touch targets
 const DEFAULT_HIT_SLOP = Platform.OS === 'ios' ? 16 : 20;
 
-const notificationLabels: Record<number, string> = {
-  0: 'Muted',
-  1: 'Normal',
-  2: 'Tracking',
-  3: 'Watching',
-  4: 'Watching First Post',
-};
-
 export interface OverflowMenuProps {
   topic: TopicData | null;
-  onWatch?: () => void;
-  onMute?: () => void;
-  onPin?: () => void;
-  onClose?: () => void;
-  onArchive?: () => void;
   onFlag?: () => void;
   onShare?: () => void;
-  onRefresh?: () => void; // Callback to refresh topic data after changes
 }
 
 // UI Spec: OverflowMenu — Bottom sheet menu for topic actions
-// - Watch/Mute options (based on notificationLevel)
-// - Pin/Unpin (if canPin)
-// - Close/Open (if canClose)
-// - Archive (if canArchive)
-// - Flag (if canFlag)
+// - Notifications: current level; opens TopicNotificationLevelSheet to pick any of the four
+// - Edit (own Bytes with canEdit) and Edit history (once revised)
+// - Staff section (admins and moderators; close/archive also for anyone Discourse allows):
+//   - Pin in teret / Pin globally, or Unpin
+//   - Close/Open, Archive/Unarchive, Unlist/List
+//   - Move to another teret (MoveTeretSheet), Move replies (MoveRepliesSheet)
+//   - Status changes show right away and add a small-action post to the replies
+// - Flag / Flagged (if canFlag) - opens FlagSheet for the first post
 // - Copy link
 // - Share
-// - Uses @gorhom/bottom-sheet
+// - Uses @gorhom/bottom-sheet; scrolls when the staff section makes it tall
 // - Themed with Fomio semantic tokens
 export function OverflowMenu({
   topic,
-  onWatch,
-  onMute,
-  onPin,
-  onClose,
-  onArchive,
   onFlag,
   onShare,
-  onRefresh,
 }: OverflowMenuProps) {
   const { isDark } = useTheme();
   const colors = getThemeColors(isDark);
   const bottomSheetRef = useRef<BottomSheetModalRef>(null);
+  const { user } = useAuth();
+  const canEditOwn = !!topic?.canEdit && !!user && user.username === topic.author.username;
+  const hasRevisions = !!topic?.firstPostId && (topic?.version ?? 1) > 1;
+  const isFlagged = topic?.flagState.flaggedTypeId != null;
+  const showFlag = !!topic?.firstPostId && (!!topic?.canFlag || isFlagged);
+  const [isFlagSheetVisible, setIsFlagSheetVisible] = useState(false);
+  const [isNotificationSheetVisible, setIsNotificationSheetVisible] = useState(false);
+  const [isMoveTeretOpen, setIsMoveTeretOpen] = useState(false);
+  const [isMoveRepliesVisible, setIsMoveRepliesVisible] = useState(false);
+  const setNotificationLevel = useSetByteNotificationLevel();
+  const updateTopicStatus = useUpdateTopicStatus();
+  const isStaff = isStaffUser(user);
+  const canPin = isStaff || !!topic?.canPin;
+  const canClose = isStaff || !!topic?.canClose;
+  const canArchive = isStaff || !!topic?.canArchive;
   // Dynamic sizing based on available menu items
   const menuItemCount = useMemo(() => {
-    let count = 2; // Notification toggle + Share section (Copy Link + Share)
-    if (topic?.canPin) count++;
-    if (topic?.canClose) count++;
-    if (topic?.canArchive) count++;
-    if (topic?.canFlag) count++;
+    let count = 2; // Notification level + Share section (Copy Link + Share)
+    if (canEditOwn) count++;
+    if (hasRevisions) count++;
+    if (canPin) count += isStaff && !topic?.isPinned ? 2 : 1;
+    if (canClose) count++;
+    if (canArchive) count++;
+    if (isStaff) count += 3; // Unlist, Move to teret, Move replies
+    if (showFlag) count++;
     // Adjust snap point based on item count (smaller for fewer items)
     return count;
-  }, [topic]);
+  }, [topic, canEditOwn, hasRevisions, showFlag, canPin, canClose, canArchive, isStaff]);
   const snapPoints = useMemo(() => {
-    // Adaptive height: 35% for small menus, 45% for medium, 50% for large
+    // Adaptive height: 35% for small menus, 45% for medium, 75% for the staff toolkit
     if (menuItemCount <= 3) return ['35%'];
     if (menuItemCount <= 5) return ['40%'];
-    return ['45%'];
+    if (menuItemCount <= 7) return ['45%'];
+    return ['75%'];
   }, [menuItemCount]);
 
   const handleOpen = useCallback(() => {
@@ -84,72 +112,76 @@ export function OverflowMenu({
     bottomSheetRef.current?.dismiss();
   }, []);
 
-  const handleWatch = useCallback(async () => {
-    if (!topic) return;
-    try {
-      await discourseApi.setNotificationLevel(topic.id, 3); // Watching
-      handleClose();
-      onWatch?.();
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
-    } catch (error) {
-      Alert.alert('Error', 'Failed to set notification level');
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
-    }
-  }, [topic, handleClose, onWatch]);
+  const handleOpenNotifications = useCallback(() => {
+    handleClose();
+    setIsNotificationSheetVisible(true);
+  }, [handleClose]);
 
-  const handleToggleNotification = useCallback(async () => {
-    if (!topic) return;
-    const newLevel = topic.notificationLevel === 0 ? 1 : 0; // Toggle between Muted and Normal
-    try {
-      const response = await discourseApi.setNotificationLevel(topic.id, newLevel);
-      if (response.success) {
-        handleClose();
-        onMute?.();
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
-        // Refresh topic data to reflect the change
-        onRefresh?.();
-      } else {
-        throw new Error(response.error || 'Failed to update notification level');
-      }
-    } catch (error) {
-      Alert.alert('Error', 'Failed to update notification level');
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
-    }
-  }, [topic, handleClose, onMute, onRefresh]);
+  const handleSelectNotificationLevel = useCallback(
+    (level: TopicNotificationLevel) => {
+      if (!topic || level === topic.notificationLevel) return;
+      setNotificationLevel.mutate(
+        { byteId: topic.id, level },
+        {
+          onSuccess: () => {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+          },
+          onError: () => {
+            Alert.alert('Error', 'Failed to update notification level');
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
+          },
+        }
+      );
+    },
+    [topic, setNotificationLevel]
+  );
 
-  const handlePin = useCallback(async () => {
+  const handleEdit = useCallback(() => {
     if (!topic) return;
-    try {
-      if (topic.isPinned) {
-        await discourseApi.unpinTopic(topic.id);
-      } else {
-        await discourseApi.pinTopic(topic.id);
-      }
-      handleClose();
-      onPin?.();
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
-    } catch (error) {
-      Alert.alert('Error', 'Failed to toggle pin status');
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
-    }
-  }, [topic, handleClose, onPin]);
+    handleClose();
+    router.push(`/compose?editTopicId=${topic.id}` as any);
+  }, [topic, handleClose]);
 
-  const handleCloseTopic = useCallback(async () => {
-    if (!topic) return;
-    try {
-      if (topic.isClosed) {
-        await discourseApi.openTopic(topic.id);
-      } else {
-        await discourseApi.closeTopic(topic.id);
-      }
+  const handleEditHistory = useCallback(() => {
+    if (!topic?.firstPostId) return;
+    handleClose();
+    router.push(`/feed/revisions/${topic.firstPostId}` as any);
+  }, [topic, handleClose]);
+
+  const handleFlag = useCallback(() => {
+    handleClose();
+    setIsFlagSheetVisible(true);
+  }, [handleClose]);
+
+  const handleUpdateStatus = useCallback(
+    (status: TopicStatus, enabled: boolean) => {
+      if (!topic) return;
       handleClose();
-      onClose?.();
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
-    } catch (error) {
-      Alert.alert('Error', 'Failed to toggle topic status');
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
-    }
-  }, [topic, handleClose, onClose]);
+      updateTopicStatus.mutate(
+        { topicId: topic.id, status, enabled, author: user ?? undefined },
+        {
+          onSuccess: () => {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+          },
+          onError: (error) => {
+            Alert.alert('Error', error.message);
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
+          },
+        }
+      );
+    },
+    [topic, user, handleClose, updateTopicStatus]
+  );
+
+  const handleMoveTeret = useCallback(() => {
+    handleClose();
+    setIsMoveTeretOpen(true);
+  }, [handleClose]);
+
+  const handleMoveReplies = useCallback(() => {
+    handleClose();
+    setIsMoveRepliesVisible(true);
+  }, [handleClose]);
 
   const handleCopyLink = useCallback(async () => {
     if (!topic) return;
@@ -180,9 +212,7 @@ export function OverflowMenu({
     }
   }, [topic, handleClose, onShare]);
 
-  const notificationLevel = topic?.notificationLevel ?? 1;
-  const isWatching = notificationLevel === 3 || notificationLevel === 4;
-  const isMuted = notificationLevel === 0;
+  const notificationOption = getTopicNotificationLevelOption(topic?.notificationLevel ?? 1);
 
   return (
     <>
@@ -212,7 +242,7 @@ export function OverflowMenu({
         accessibilityLabel="Topic options menu"
         accessibilityHint="Swipe down to close"
       >
-        <BottomSheetView className="px-4 pb-6">
+        <BottomSheetScrollView contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 24 }}>
           <Text className="text-lg font-bold mb-4 text-fomio-foreground dark:text-fomio-foreground-dark">
             Topic Options
           </Text>
@@ -220,80 +250,150 @@ export function OverflowMenu({
           {/* Notification options */}
           <View className="mb-4">
             <TouchableOpacity
-              onPress={handleToggleNotification}
+              onPress={handleOpenNotifications}
               className="flex-row items-center py-3 px-2 rounded-lg active:opacity-70"
               style={{
                 backgroundColor: isDark ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.03)',
               }}
+              accessible
+              accessibilityRole="button"
+              accessibilityLabel={`Notifications: ${notificationOption.label}`}
+              accessibilityHint="Choose how you're notified about replies to this Byte"
             >
-              {topic?.notificationLevel === 0 ? (
-                <BellSlash size={20} color={colors.foreground} weight="regular" />
-              ) : (
-                <Bell size={20} color={colors.foreground} weight="regular" />
-              )}
-              <Text className="ml-3 text-base font-medium text-fomio-foreground dark:text-fomio-foreground-dark">
-                {notificationLabels[topic?.notificationLevel || 1]} notifications
-              </Text>
+              <TopicNotificationLevelIcon level={notificationOption.level} color={colors.foreground} />
+              <View className="ml-3 flex-1">
+                <Text className="text-base font-medium text-fomio-foreground dark:text-fomio-foreground-dark">
+                  {notificationOption.label}
+                </Text>
+                <Text className="text-sm text-fomio-muted dark:text-fomio-muted-dark" numberOfLines={1}>
+                  {notificationOption.description}
+                </Text>
+              </View>
             </TouchableOpacity>
           </View>
 
-          {/* Moderation options */}
-          {topic?.canPin && (
+          {/* Author options */}
+          {canEditOwn && (
             <TouchableOpacity
-              onPress={handlePin}
+              onPress={handleEdit}
               className="flex-row items-center py-3 px-2 rounded-lg active:opacity-70 mb-2"
               style={{
                 backgroundColor: isDark ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.03)',
               }}
             >
-              <PushPin size={20} color={colors.foreground} weight="regular" />
+              <PencilSimple size={20} color={colors.foreground} weight="regular" />
               <Text className="ml-3 text-base font-medium text-fomio-foreground dark:text-fomio-foreground-dark">
-                {topic.isPinned ? 'Unpin' : 'Pin'}
+                Edit Byte
               </Text>
             </TouchableOpacity>
           )}
 
-          {topic?.canClose && (
+          {hasRevisions && (
             <TouchableOpacity
-              onPress={handleCloseTopic}
+              onPress={handleEditHistory}
               className="flex-row items-center py-3 px-2 rounded-lg active:opacity-70 mb-2"
               style={{
                 backgroundColor: isDark ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.03)',
               }}
             >
-              <Lock size={20} color={colors.foreground} weight="regular" />
+              <ClockCounterClockwise size={20} color={colors.foreground} weight="regular" />
               <Text className="ml-3 text-base font-medium text-fomio-foreground dark:text-fomio-foreground-dark">
-                {topic.isClosed ? 'Open' : 'Close'}
+                Edit history
               </Text>
             </TouchableOpacity>
           )}
 
-          {topic?.canArchive && (
-            <TouchableOpacity
-              onPress={onArchive}
-              className="flex-row items-center py-3 px-2 rounded-lg active:opacity-70 mb-2"
-              style={{
-                backgroundColor: isDark ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.03)',
-              }}
-            >
-              <Archive size={20} color={colors.foreground} weight="regular" />
-              <Text className="ml-3 text-base font-medium text-fomio-foreground dark:text-fomio-foreground-dark">
-                Archive
+          {/* Staff options */}
+          {topic && (canPin || canClose || canArchive) && (
+            <View className="border-t mt-2 pt-4 mb-2 border-fomio-border-soft dark:border-fomio-border-soft-dark">
+              <Text className="text-sm font-semibold mb-2 text-fomio-muted dark:text-fomio-muted-dark">
+                Staff
               </Text>
-            </TouchableOpacity>
+
+              {canPin && topic.isPinned && (
+                <StaffAction
+                  icon={<PushPinSlash size={20} color={colors.foreground} weight="regular" />}
+                  label="Unpin"
+                  onPress={() => handleUpdateStatus(topic.isPinnedGlobally ? 'pinned_globally' : 'pinned', false)}
+                />
+              )}
+              {canPin && !topic.isPinned && (
+                <StaffAction
+                  icon={<PushPin size={20} color={colors.foreground} weight="regular" />}
+                  label="Pin in teret"
+                  onPress={() => handleUpdateStatus('pinned', true)}
+                />
+              )}
+              {isStaff && !topic.isPinned && (
+                <StaffAction
+                  icon={<Globe size={20} color={colors.foreground} weight="regular" />}
+                  label="Pin globally"
+                  onPress={() => handleUpdateStatus('pinned_globally', true)}
+                />
+              )}
+              {canClose && (
+                <StaffAction
+                  icon={
+                    topic.isClosed ? (
+                      <LockOpen size={20} color={colors.foreground} weight="regular" />
+                    ) : (
+                      <Lock size={20} color={colors.foreground} weight="regular" />
+                    )
+                  }
+                  label={topic.isClosed ? 'Open' : 'Close'}
+                  onPress={() => handleUpdateStatus('closed', !topic.isClosed)}
+                />
+              )}
+              {canArchive && (
+                <StaffAction
+                  icon={<Archive size={20} color={colors.foreground} weight="regular" />}
+                  label={topic.isArchived ? 'Unarchive' : 'Archive'}
+                  onPress={() => handleUpdateStatus('archived', !topic.isArchived)}
+                />
+              )}
+              {isStaff && (
+                <>
+                  <StaffAction
+                    icon={
+                      topic.isVisible ? (
+                        <EyeSlash size={20} color={colors.foreground} weight="regular" />
+                      ) : (
+                        <Eye size={20} color={colors.foreground} weight="regular" />
+                      )
+                    }
+                    label={topic.isVisible ? 'Unlist' : 'List'}
+                    onPress={() => handleUpdateStatus('visible', !topic.isVisible)}
+                  />
+                  <StaffAction
+                    icon={<FolderSimple size={20} color={colors.foreground} weight="regular" />}
+                    label="Move to another teret"
+                    onPress={handleMoveTeret}
+                  />
+                  <StaffAction
+                    icon={<Scissors size={20} color={colors.foreground} weight="regular" />}
+                    label="Move replies…"
+                    onPress={handleMoveReplies}
+                  />
+                </>
+              )}
+            </View>
           )}
 
-          {topic?.canFlag && (
+          {showFlag && (
             <TouchableOpacity
-              onPress={onFlag}
+              onPress={handleFlag}
               className="flex-row items-center py-3 px-2 rounded-lg active:opacity-70 mb-2"
               style={{
                 backgroundColor: isDark ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.03)',
               }}
             >
-              <Flag size={20} color={colors.foreground} weight="regular" />
+              <Flag
+                size={20}
+                color={isFlagged ? colors.destructive : colors.foreground}
+                weight={isFlagged ? 'fill' : 'regular'}
+              />
               <Text className="ml-3 text-base font-medium text-fomio-foreground dark:text-fomio-foreground-dark">
-                Flag
+                {isFlagged ? 'Flagged' : 'Flag'}
               </Text>
             </TouchableOpacity>
           )}
@@ -326,9 +426,65 @@ export function OverflowMenu({
               </Text>
             </TouchableOpacity>
           </View>
-        </BottomSheetView>
+        </BottomSheetScrollView>
       </ThemedBottomSheet>
+
+      {topic ? (
+        <TopicNotificationLevelSheet
+          visible={isNotificationSheetVisible}
+          onClose={() => setIsNotificationSheetVisible(false)}
+          onSelect={handleSelectNotificationLevel}
+          level={topic.notificationLevel}
+          topicTitle={topic.title}
+          isUpdating={setNotificationLevel.isPending}
+        />
+      ) : null}
+
+      {topic?.firstPostId ? (
+        <FlagSheet
+          visible={isFlagSheetVisible}
+          onClose={() => setIsFlagSheetVisible(false)}
+          topicId={topic.id}
+          postId={topic.firstPostId}
+          flagState={topic.flagState}
+          onFlagged={onFlag}
+        />
+      ) : null}
+
+      {topic && isMoveTeretOpen ? (
+        <MoveTeretSheet topic={topic} onClose={() => setIsMoveTeretOpen(false)} />
+      ) : null}
+
+      {topic && isStaff ? (
+        <MoveRepliesSheet
+          visible={isMoveRepliesVisible}
+          onClose={() => setIsMoveRepliesVisible(false)}
+          topic={topic}
+        />
+      ) : null}
     </>
   );
 }
 
+function StaffAction({ icon, label, onPress }: { icon: React.ReactNode; label: string; onPress: () => void }) {
+  const { isDark } = useTheme();
+
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      className="flex-row items-center py-3 px-2 rounded-lg active:opacity-70 mb-2"
+      style={{
+        backgroundColor: isDark ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.03)',
+      }}
+      accessible
+      accessibilityRole="button"
+      accessibilityLabel={label}
+    >
+      {icon}
+      <Text className="ml-3 text-base font-medium text-fomio-foreground dark:text-fomio-foreground-dark">
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
@@ -0,0 +1,408 @@
+// UI Spec: PollBlock
+// - Native renderer for Discourse [poll] blocks inside MarkdownContent
+// - Single choice (radio), multiple choice (checkboxes, min/max) and number polls
+// - Vote / change vote / remove vote through /polls/vote
+// - Results as horizontal bars with percentages; the user's picks are highlighted
+// - Closed polls and hidden results (on_vote, on_close, staff_only) get a short note instead of bars
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import {
+  ChartBar,
+  CheckCircle,
+  CheckSquare,
+  Square,
+  Lock,
+} from 'phosphor-react-native';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '@/components/theme';
+import { getTokens } from '@/shared/design/tokens';
+import { useAuth } from '@/shared/auth-context';
+import { useVotePoll, useRemovePollVote } from '@/shared/mutations';
+import {
+  Poll,
+  canSeeResults,
+  getNumberPollAverage,
+  getOptionPercentage,
+  getSelectionLimits,
+  hasVoted,
+  isValidSelection,
+  toggleSelection,
+} from '@/shared/polls';
+
+interface PollBlockProps {
+  poll: Poll;
+  // Needed to vote; without them the poll is shown read-only
+  postId?: number;
+  topicId?: number;
+}
+
+// Unselected radio: a plain ring matching the size of the phosphor icons
+function EmptyRadio({ size, color }: { size: number; color: string }) {
+  const ring = size * 0.8;
+  return (
+    <View style={{ width: size, height: size, alignItems: 'center', justifyContent: 'center' }}>
+      <View style={{ width: ring, height: ring, borderRadius: ring / 2, borderWidth: 1.5, borderColor: color }} />
+    </View>
+  );
+}
+
+function getInstructions(poll: Poll): string {
+  if (poll.type === 'number') return 'Pick a number';
+  if (poll.type === 'regular') return 'Choose one';
+
+  const { min, max } = getSelectionLimits(poll);
+  if (min === max) return `Choose ${min}`;
+  if (min <= 1) return `Choose up to ${max}`;
+  return `Choose ${min} to ${max}`;
+}
+
+function getHiddenResultsNote(poll: Poll): string {
+  switch (poll.results) {
+    case 'on_vote':
+      return 'Vote to see the results.';
+    case 'on_close':
+      return 'Results will be shown when the poll closes.';
+    default:
+      return 'Results are only visible to staff.';
+  }
+}
+
+function formatCloseDate(closesAt: string): string {
+  return new Date(closesAt).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+export function PollBlock({ poll: pollProp, postId, topicId }: PollBlockProps) {
+  const { isDark, isAmoled } = useTheme();
+  const mode = isDark ? (isAmoled ? 'darkAmoled' : 'dark') : 'light';
+  const tokens = useMemo(() => getTokens(mode), [mode]);
+  const { isAuthenticated } = useAuth();
+  const votePoll = useVotePoll();
+  const removeVote = useRemovePollVote();
+
+  // The vote endpoints return the updated poll; keep it until the Byte refetches
+  const [poll, setPoll] = useState(pollProp);
+  const [selected, setSelected] = useState<string[]>(pollProp.userVotes);
+  const [isChangingVote, setIsChangingVote] = useState(false);
+  const [showResultsEarly, setShowResultsEarly] = useState(false);
+
+  useEffect(() => {
+    setPoll(pollProp);
+    setSelected(pollProp.userVotes);
+    setIsChangingVote(false);
+  }, [pollProp]);
+
+  const isClosed = poll.status === 'closed';
+  const voted = hasVoted(poll);
+  const canVote = !isClosed && isAuthenticated && !!postId && !!topicId;
+  const resultsVisible = canSeeResults(poll);
+  const isBusy = votePoll.isPending || removeVote.isPending;
+  const isVoting = canVote && (!voted || isChangingVote) && !showResultsEarly;
+  const showResults = resultsVisible && !isVoting;
+  const canSubmit = isValidSelection(poll, selected) && !isBusy;
+  const isMultiple = poll.type === 'multiple';
+  const average = poll.type === 'number' ? getNumberPollAverage(poll) : null;
+
+  const handleToggle = (optionId: string) => {
+    Haptics.selectionAsync().catch(() => {});
+    setSelected((prev) => toggleSelection(poll, prev, optionId));
+  };
+
+  const handleVote = () => {
+    if (!canSubmit || !postId || !topicId) return;
+    votePoll.mutate(
+      { topicId, postId, pollName: poll.name, optionIds: selected },
+      {
+        onSuccess: (updated) => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+          setPoll(updated);
+          setSelected(updated.userVotes);
+          setIsChangingVote(false);
+        },
+        onError: (error) => Alert.alert('Error', error.message),
+      }
+    );
+  };
+
+  const handleRemoveVote = () => {
+    if (!postId || !topicId) return;
+    removeVote.mutate(
+      { topicId, postId, pollName: poll.name },
+      {
+        onSuccess: (updated) => {
+          setPoll(updated);
+          setSelected([]);
+          setIsChangingVote(false);
+        },
+        onError: (error) => Alert.alert('Error', error.message),
+      }
+    );
+  };
+
+  const renderVotingOption = (option: Poll['options'][number]) => {
+    const isSelected = selected.includes(option.id);
+    const iconColor = isSelected ? tokens.colors.accent : tokens.colors.muted;
+    let icon: React.ReactNode;
+    if (isSelected) {
+      icon = isMultiple
+        ? <CheckSquare size={20} color={iconColor} weight="fill" />
+        : <CheckCircle size={20} color={iconColor} weight="fill" />;
+    } else {
+      icon = isMultiple
+        ? <Square size={20} color={iconColor} weight="regular" />
+        : <EmptyRadio size={20} color={iconColor} />;
+    }
+
+    return (
+      <TouchableOpacity
+        key={option.id}
+        onPress={() => handleToggle(option.id)}
+        disabled={isBusy}
+        activeOpacity={0.7}
+        style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          paddingVertical: 10,
+          paddingHorizontal: 12,
+          marginTop: 8,
+          borderRadius: 10,
+          borderWidth: 1,
+          borderColor: isSelected ? tokens.colors.accent : tokens.colors.border,
+        }}
+        accessible
+        accessibilityRole={isMultiple ? 'checkbox' : 'radio'}
+        accessibilityState={{ checked: isSelected, disabled: isBusy }}
+        accessibilityLabel={option.text}
+      >
+        {icon}
+        <Text style={{ flex: 1, marginLeft: 10, fontSize: 15, color: tokens.colors.text }}>
+          {option.text}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderResultOption = (option: Poll['options'][number]) => {
+    const percentage = getOptionPercentage(poll, option);
+    const isOwnVote = poll.userVotes.includes(option.id);
+
+    return (
+      <View
+        key={option.id}
+        style={{ marginTop: 10 }}
+        accessible
+        accessibilityLabel={`${option.text}: ${percentage} percent${isOwnVote ? ', your vote' : ''}`}
+      >
+        <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 4 }}>
+          {isOwnVote && (
+            <CheckCircle size={14} color={tokens.colors.accent} weight="fill" style={{ marginRight: 6 }} />
+          )}
+          <Text
+            style={{
+              flex: 1,
+              fontSize: 14,
+              fontWeight: isOwnVote ? '600' : '400',
+              color: tokens.colors.text,
+            }}
+          >
+            {option.text}
+          </Text>
+          <Text style={{ fontSize: 13, fontWeight: '600', color: tokens.colors.muted, marginLeft: 8 }}>
+            {percentage}%
+          </Text>
+        </View>
+        <View
+          style={{
+            height: 8,
+            borderRadius: 4,
+            overflow: 'hidden',
+            backgroundColor: tokens.colors.border,
+          }}
+        >
+          <View
+            style={{
+              width: `${Math.min(percentage, 100)}%`,
+              height: '100%',
+              borderRadius: 4,
+              backgroundColor: isOwnVote ? tokens.colors.accent : tokens.colors.muted,
+            }}
+          />
+        </View>
+      </View>
+    );
+  };
+
+  const voterLabel = poll.voters === 1 ? '1 voter' : `${poll.voters} voters`;
+
+  return (
+    <View
+      style={{
+        marginVertical: 12,
+        padding: 14,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: tokens.colors.border,
+        backgroundColor: tokens.colors.surfaceMuted,
+      }}
+    >
+      {/* Header */}
+      <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+        <ChartBar size={18} color={tokens.colors.accent} weight="bold" />
+        <Text
+          style={{ flex: 1, marginLeft: 8, fontSize: 15, fontWeight: '600', color: tokens.colors.text }}
+          numberOfLines={2}
+        >
+          {poll.title || 'Poll'}
+        </Text>
+        {isClosed && (
+          <View style={{ flexDirection: 'row', alignItems: 'center', marginLeft: 8 }}>
+            <Lock size={14} color={tokens.colors.muted} weight="bold" />
+            <Text style={{ marginLeft: 4, fontSize: 12, fontWeight: '600', color: tokens.colors.muted }}>
+              Closed
+            </Text>
+          </View>
+        )}
+      </View>
+      {isVoting && (
+        <Text style={{ marginTop: 4, fontSize: 13, color: tokens.colors.muted }}>
+          {getInstructions(poll)}
+        </Text>
+      )}
+
+      {/* Options */}
+      {isVoting
+        ? poll.options.map(renderVotingOption)
+        : showResults
+          ? poll.options.map(renderResultOption)
+          : (
+            <>
+              {poll.options.map((option) => (
+                <View key={option.id} style={{ flexDirection: 'row', alignItems: 'center', marginTop: 8 }}>
+                  {poll.userVotes.includes(option.id) ? (
+                    <CheckCircle size={16} color={tokens.colors.accent} weight="fill" />
+                  ) : (
+                    <EmptyRadio size={16} color={tokens.colors.muted} />
+                  )}
+                  <Text style={{ flex: 1, marginLeft: 8, fontSize: 14, color: tokens.colors.text }}>
+                    {option.text}
+                  </Text>
+                </View>
+              ))}
+              <Text style={{ marginTop: 10, fontSize: 13, color: tokens.colors.muted }}>
+                {voted ? `Thanks for voting! ${getHiddenResultsNote(poll)}` : getHiddenResultsNote(poll)}
+              </Text>
+            </>
+          )}
+
+      {showResults && average !== null && (
+        <Text style={{ marginTop: 10, fontSize: 13, color: tokens.colors.muted }}>
+          Average: {average}
+        </Text>
+      )}
+
+      {/* Footer */}
+      <View style={{ flexDirection: 'row', alignItems: 'center', marginTop: 14, flexWrap: 'wrap' }}>
+        <Text style={{ fontSize: 12, color: tokens.colors.muted }}>
+          {voterLabel}
+          {poll.closesAt && !isClosed ? ` · Closes ${formatCloseDate(poll.closesAt)}` : ''}
+          {poll.isPublic ? ' · Votes are public' : ''}
+        </Text>
+        <View style={{ flex: 1 }} />
+        {isBusy && <ActivityIndicator size="small" color={tokens.colors.muted} style={{ marginRight: 8 }} />}
+
+        {canVote && !voted && poll.results === 'always' && (
+          <TouchableOpacity
+            onPress={() => setShowResultsEarly((prev) => !prev)}
+            style={{ paddingVertical: 6, paddingHorizontal: 8 }}
+            accessible
+            accessibilityRole="button"
+            accessibilityLabel={showResultsEarly ? 'Hide results' : 'Show results'}
+          >
+            <Text style={{ fontSize: 13, fontWeight: '600', color: tokens.colors.accent }}>
+              {showResultsEarly ? 'Hide results' : 'Show results'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {canVote && voted && !isVoting && (
+          <>
+            <TouchableOpacity
+              onPress={handleRemoveVote}
+              disabled={isBusy}
+              style={{ paddingVertical: 6, paddingHorizontal: 8 }}
+              accessible
+              accessibilityRole="button"
+              accessibilityLabel="Remove vote"
+            >
+              <Text style={{ fontSize: 13, fontWeight: '600', color: tokens.colors.muted }}>
+                Remove vote
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setIsChangingVote(true)}
+              disabled={isBusy}
+              style={{ paddingVertical: 6, paddingHorizontal: 8 }}
+              accessible
+              accessibilityRole="button"
+              accessibilityLabel="Change vote"
+            >
+              <Text style={{ fontSize: 13, fontWeight: '600', color: tokens.colors.accent }}>
+                Change vote
+              </Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {isVoting && isChangingVote && (
+          <TouchableOpacity
+            onPress={() => {
+              setSelected(poll.userVotes);
+              setIsChangingVote(false);
+            }}
+            disabled={isBusy}
+            style={{ paddingVertical: 6, paddingHorizontal: 8, marginRight: 4 }}
+            accessible
+            accessibilityRole="button"
+            accessibilityLabel="Cancel changing vote"
+          >
+            <Text style={{ fontSize: 13, fontWeight: '600', color: tokens.colors.muted }}>
+              Cancel
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {isVoting && (
+          <TouchableOpacity
+            onPress={handleVote}
+            disabled={!canSubmit}
+            style={{
+              paddingVertical: 8,
+              paddingHorizontal: 18,
+              borderRadius: 18,
+              backgroundColor: tokens.colors.accent,
+              opacity: canSubmit ? 1 : 0.4,
+            }}
+            accessible
+            accessibilityRole="button"
+            accessibilityLabel="Vote"
+            accessibilityState={{ disabled: !canSubmit }}
+          >
+            <Text style={{ fontSize: 14, fontWeight: '600', color: tokens.colors.onAccent }}>
+              Vote
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {!isClosed && !isAuthenticated && (
+        <Text style={{ marginTop: 6, fontSize: 12, color: tokens.colors.muted }}>
+          Sign in to vote.
+        </Text>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,98 @@
+// UI Spec: QuoteAside — A Discourse quote ([quote="user, post:N, topic:T"]) inside a post.
+// - Accent bar, "@user said" header linking to the quoted post
+// - Chevron collapses the quoted text to keep long replies readable
+// - Used by MarkdownContent (cooked aside.quote) and CommentItem (plain text)
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { CaretDown, CaretUp } from 'phosphor-react-native';
+import { useTheme } from '@/components/theme';
+import { getTokens } from '@/shared/design/tokens';
+import { QuoteSource } from '@/shared/quotes';
+import { goToPost } from '@/shared/navigation/post';
+
+interface QuoteAsideProps {
+  source: QuoteSource | null;
+  // Fallback header when the quote doesn't name anyone (e.g. its title attribute)
+  title?: string | null;
+  children: React.ReactNode;
+  mode?: 'light' | 'dark' | 'darkAmoled'; // Pass mode from parent when used in portal
+  style?: any;
+}
+
+export function QuoteAside({ source, title, children, mode: modeProp, style }: QuoteAsideProps) {
+  const themeContext = useTheme();
+  const mode = modeProp || (themeContext.isAmoled ? 'darkAmoled' : themeContext.isDark ? 'dark' : 'light');
+  const tokens = useMemo(() => getTokens(mode), [mode]);
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  const heading = source ? `@${source.username} said` : title || 'Quote';
+  const canOpenSource = !!source?.topicId;
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { backgroundColor: tokens.colors.surfaceMuted, borderLeftColor: tokens.colors.accent },
+        style,
+      ]}
+    >
+      <View style={[styles.header, isExpanded && styles.headerExpanded]}>
+        <TouchableOpacity
+          onPress={canOpenSource ? () => goToPost(source!.topicId, source!.postNumber) : undefined}
+          disabled={!canOpenSource}
+          style={styles.headingButton}
+          accessible
+          accessibilityRole={canOpenSource ? 'link' : 'text'}
+          accessibilityLabel={canOpenSource ? `${heading}. Open the quoted post` : heading}
+        >
+          <Text style={[styles.heading, { color: tokens.colors.accent }]} numberOfLines={1}>
+            {heading}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => setIsExpanded((expanded) => !expanded)}
+          hitSlop={8}
+          accessible
+          accessibilityRole="button"
+          accessibilityLabel={isExpanded ? 'Collapse quote' : 'Expand quote'}
+          accessibilityState={{ expanded: isExpanded }}
+        >
+          {isExpanded ? (
+            <CaretUp size={16} color={tokens.colors.muted} weight="bold" />
+          ) : (
+            <CaretDown size={16} color={tokens.colors.muted} weight="bold" />
+          )}
+        </TouchableOpacity>
+      </View>
+      {isExpanded && children}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderLeftWidth: 4,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginTop: 12,
+    marginBottom: 16,
+    borderRadius: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  headerExpanded: {
+    marginBottom: 8,
+  },
+  headingButton: {
+    flex: 1,
+  },
+  heading: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
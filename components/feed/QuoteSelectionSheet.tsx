@@ -0,0 +1,113 @@
+// UI Spec: QuoteSelectionSheet
+// - Bottom modal opened by long-pressing a Byte or a comment
+// - Shows the post's text; select the part to quote (nothing selected quotes all of it)
+// - "Quote" hands the text back to open the reply with [quote="user, post:N, topic:T"]
+// - Uses React Native Modal like FlagSheet, so it can open above the comments sheet
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, Pressable } from 'react-native';
+import { Quotes, X } from 'phosphor-react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '@/components/theme';
+
+interface QuoteSelectionSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  // Author of the post being quoted
+  username: string;
+  // The post's plain text, without quotes it already contains
+  text: string;
+  onQuote: (text: string) => void;
+}
+
+export function QuoteSelectionSheet({ visible, onClose, username, text, onQuote }: QuoteSelectionSheetProps) {
+  const { isDark } = useTheme();
+  const insets = useSafeAreaInsets();
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
+
+  const mutedColor = isDark ? '#A1A1AA' : '#6B6B72';
+  const accentColor = isDark ? '#26A69A' : '#009688';
+  const textColor = isDark ? '#F5F5F7' : '#111111';
+
+  // Start fresh each time the sheet opens
+  useEffect(() => {
+    if (visible) setSelection({ start: 0, end: 0 });
+  }, [visible]);
+
+  const selectedText = text.slice(selection.start, selection.end).trim();
+  const hasText = text.trim().length > 0;
+
+  const handleQuote = () => {
+    if (!hasText) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    onQuote(selectedText || text);
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable className="flex-1 justify-end" onPress={onClose} style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}>
+        <Pressable onPress={(e) => e.stopPropagation()}>
+          <View
+            className="bg-fomio-bg dark:bg-fomio-bg-dark rounded-t-3xl"
+            style={{ paddingBottom: insets.bottom + 8, paddingTop: 12 }}
+          >
+            {/* Header */}
+            <View className="flex-row items-center justify-between px-4 pb-3 border-b border-fomio-border-soft dark:border-fomio-border-soft-dark">
+              <Text className="flex-1 text-title font-semibold text-fomio-foreground dark:text-fomio-foreground-dark">
+                Quote @{username}
+              </Text>
+              <TouchableOpacity
+                onPress={onClose}
+                className="p-2"
+                accessible
+                accessibilityRole="button"
+                accessibilityLabel="Close quote"
+              >
+                <X size={20} color={mutedColor} weight="regular" />
+              </TouchableOpacity>
+            </View>
+
+            <Text
+              className="text-body text-fomio-muted dark:text-fomio-muted-dark px-4 pt-3"
+              style={{ fontSize: 13 }}
+            >
+              Select the part you want to quote, or quote the whole post.
+            </Text>
+
+            {/* Read-only input: Text can't report what's selected, TextInput can */}
+            <TextInput
+              value={text}
+              onChangeText={() => {}}
+              onSelectionChange={(event) => setSelection(event.nativeEvent.selection)}
+              showSoftInputOnFocus={false}
+              caretHidden
+              multiline
+              scrollEnabled
+              className="mx-4 mt-3 px-3 py-2 rounded-xl border border-fomio-border-soft dark:border-fomio-border-soft-dark"
+              style={{ color: textColor, fontSize: 15, lineHeight: 22, maxHeight: 320, textAlignVertical: 'top' }}
+              accessibilityLabel={`Text of @${username}'s post`}
+            />
+
+            <TouchableOpacity
+              onPress={handleQuote}
+              disabled={!hasText}
+              className="flex-row mx-4 mt-4 py-3 rounded-xl items-center justify-center"
+              style={{ backgroundColor: accentColor, opacity: hasText ? 1 : 0.4 }}
+              accessible
+              accessibilityRole="button"
+              accessibilityLabel={selectedText ? 'Quote selection' : 'Quote whole post'}
+              accessibilityState={{ disabled: !hasText }}
+            >
+              <Quotes size={18} color="#FFFFFF" weight="fill" />
+              <Text style={{ color: '#FFFFFF', fontSize: 15, fontWeight: '600', marginLeft: 8 }}>
+                {selectedText ? 'Quote selection' : 'Quote whole post'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
@@ -0,0 +1,91 @@
+// UI Spec: ReactionPicker — Tray of the site's reactions, opened by long-pressing Like.
+// - Main reaction first; the current user's reaction is highlighted
+// - Tapping the current reaction takes it back (while Discourse allows it)
+// - Pops in with a spring; used in ByteCardActionTray and CommentItem
+
+import React, { useMemo } from 'react';
+import { Pressable, StyleSheet } from 'react-native';
+import Animated, { ZoomIn } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '@/components/theme';
+import { getTokens } from '@/shared/design/tokens';
+import { useCustomEmojis } from '@/shared/useCustomEmojis';
+import { EmojiGlyph } from './EmojiGlyph';
+
+interface ReactionPickerProps {
+  options: string[];
+  current?: string | null;
+  // False once the reaction can no longer be changed
+  canChange?: boolean;
+  onPick: (reactionId: string) => void;
+  mode?: 'light' | 'dark' | 'darkAmoled'; // Pass mode from parent when used in portal
+}
+
+export function ReactionPicker({ options, current, canChange = true, onPick, mode: modeProp }: ReactionPickerProps) {
+  const themeContext = useTheme();
+  const mode = modeProp || (themeContext.isAmoled ? 'darkAmoled' : themeContext.isDark ? 'dark' : 'light');
+  const tokens = useMemo(() => getTokens(mode), [mode]);
+  const { customEmojis } = useCustomEmojis(options.length > 0);
+
+  return (
+    <Animated.View
+      entering={ZoomIn.springify().damping(16)}
+      style={[
+        styles.tray,
+        { backgroundColor: tokens.colors.background, borderColor: tokens.colors.border, shadowColor: tokens.colors.shadow },
+      ]}
+      accessibilityRole="menu"
+      accessibilityLabel="Reactions"
+    >
+      {options.map((reactionId) => {
+        const selected = reactionId === current;
+        const disabled = !canChange && !!current;
+        return (
+          <Pressable
+            key={reactionId}
+            onPress={() => {
+              Haptics.selectionAsync().catch(() => {});
+              onPick(reactionId);
+            }}
+            disabled={disabled}
+            hitSlop={4}
+            style={({ pressed }) => [
+              styles.option,
+              selected && { backgroundColor: tokens.colors.accentSoft },
+              { opacity: disabled && !selected ? 0.4 : 1, transform: [{ scale: pressed ? 1.25 : 1 }] },
+            ]}
+            accessibilityRole="menuitem"
+            accessibilityLabel={`React with ${reactionId.replace(/_/g, ' ')}`}
+            accessibilityState={{ selected, disabled }}
+          >
+            <EmojiGlyph name={reactionId} size={26} customEmojis={customEmojis} color={tokens.colors.muted} />
+          </Pressable>
+        );
+      })}
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  tray: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 2,
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+    borderRadius: 999,
+    borderWidth: 1,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.12,
+    shadowRadius: 12,
+    elevation: 4,
+  },
+  option: {
+    width: 38,
+    height: 38,
+    borderRadius: 19,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
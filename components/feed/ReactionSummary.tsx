@@ -0,0 +1,78 @@
+// UI Spec: ReactionSummary — Counts per reaction under a post.
+// - One chip per reaction, most used first; the current user's reaction is highlighted
+// - Tapping a chip opens the "who reacted" sheet (ReactionUsersSheet)
+
+import React, { useMemo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { useTheme } from '@/components/theme';
+import { getTokens } from '@/shared/design/tokens';
+import { PostReactions } from '@/shared/reactions';
+import { useCustomEmojis } from '@/shared/useCustomEmojis';
+import { EmojiGlyph } from './EmojiGlyph';
+
+interface ReactionSummaryProps {
+  reactions: PostReactions;
+  onPress?: (reactionId: string) => void;
+  mode?: 'light' | 'dark' | 'darkAmoled'; // Pass mode from parent when used in portal
+}
+
+export function ReactionSummary({ reactions, onPress, mode: modeProp }: ReactionSummaryProps) {
+  const themeContext = useTheme();
+  const mode = modeProp || (themeContext.isAmoled ? 'darkAmoled' : themeContext.isDark ? 'dark' : 'light');
+  const tokens = useMemo(() => getTokens(mode), [mode]);
+  const { customEmojis } = useCustomEmojis(reactions.reactions.length > 0);
+
+  if (reactions.reactions.length === 0) return null;
+
+  return (
+    <View style={styles.row}>
+      {reactions.reactions.map((reaction) => {
+        const mine = reaction.id === reactions.currentUserReaction;
+        return (
+          <Pressable
+            key={reaction.id}
+            onPress={() => onPress?.(reaction.id)}
+            disabled={!onPress}
+            style={[
+              styles.chip,
+              {
+                borderColor: mine ? tokens.colors.accent : tokens.colors.border,
+                backgroundColor: mine ? tokens.colors.accentSoft : 'transparent',
+              },
+            ]}
+            accessibilityRole="button"
+            accessibilityLabel={`${reaction.count} ${reaction.id.replace(/_/g, ' ')} ${
+              reaction.count === 1 ? 'reaction' : 'reactions'
+            }${mine ? ', including yours' : ''}. Show who reacted`}
+          >
+            <EmojiGlyph name={reaction.id} size={16} customEmojis={customEmojis} color={tokens.colors.muted} />
+            <Text style={[styles.count, { color: mine ? tokens.colors.accent : tokens.colors.muted }]}>
+              {reaction.count}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 999,
+    borderWidth: 1,
+  },
+  count: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
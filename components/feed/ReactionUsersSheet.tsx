@@ -0,0 +1,183 @@
+// UI Spec: ReactionUsersSheet
+// - Bottom modal listing who reacted to a post, one tab per reaction plus "All"
+// - Opens on the reaction that was tapped; tapping a person opens their profile
+// - Uses React Native Modal like FlagSheet, so it can open above the comments sheet
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, Modal, Pressable, ScrollView, ActivityIndicator } from 'react-native';
+import { X } from 'phosphor-react-native';
+import { Image } from 'expo-image';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTheme } from '@/components/theme';
+import { discourseApi } from '@/shared/discourseApi';
+import { goToProfile } from '@/shared/navigation/profile';
+import { useReactionUsers } from '@/shared/useReactionUsers';
+import { useCustomEmojis } from '@/shared/useCustomEmojis';
+import { EmojiGlyph } from './EmojiGlyph';
+
+interface ReactionUsersSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  postId: number;
+  // Tab to open on; "All" when not set
+  initialReaction?: string | null;
+}
+
+const ALL_TAB = '__all__';
+
+export function ReactionUsersSheet({ visible, onClose, postId, initialReaction }: ReactionUsersSheetProps) {
+  const { isDark } = useTheme();
+  const insets = useSafeAreaInsets();
+  const { reactionUsers, isLoading, hasError, errorMessage } = useReactionUsers(visible ? postId : null);
+  const { customEmojis } = useCustomEmojis(visible);
+  const [tab, setTab] = useState<string>(ALL_TAB);
+
+  const mutedColor = isDark ? '#A1A1AA' : '#6B6B72';
+  const accentColor = isDark ? '#26A69A' : '#009688';
+
+  useEffect(() => {
+    if (visible) setTab(initialReaction || ALL_TAB);
+  }, [visible, initialReaction]);
+
+  // People in the selected tab, each with the reaction they used
+  const rows = useMemo(() => {
+    const groups = tab === ALL_TAB ? reactionUsers : reactionUsers.filter((group) => group.id === tab);
+    return groups.flatMap((group) => group.users.map((user) => ({ ...user, reaction: group.id })));
+  }, [reactionUsers, tab]);
+  const total = reactionUsers.reduce((sum, group) => sum + group.count, 0);
+
+  const openProfile = (username: string) => {
+    onClose();
+    goToProfile(username);
+  };
+
+  const renderTab = (id: string, label: React.ReactNode, count: number, accessibilityLabel: string) => {
+    const selected = tab === id;
+    return (
+      <TouchableOpacity
+        key={id}
+        onPress={() => setTab(id)}
+        className="flex-row items-center px-3 py-1.5 mr-2 rounded-full border"
+        style={{
+          borderColor: selected ? accentColor : isDark ? '#3F3F46' : '#E4E4E7',
+          backgroundColor: selected ? `${accentColor}1F` : 'transparent',
+        }}
+        accessible
+        accessibilityRole="tab"
+        accessibilityState={{ selected }}
+        accessibilityLabel={accessibilityLabel}
+      >
+        {label}
+        <Text style={{ marginLeft: 6, fontSize: 13, fontWeight: '600', color: selected ? accentColor : mutedColor }}>
+          {count}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable className="flex-1 justify-end" onPress={onClose} style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}>
+        <Pressable onPress={(e) => e.stopPropagation()}>
+          <View
+            className="bg-fomio-bg dark:bg-fomio-bg-dark rounded-t-3xl"
+            style={{ paddingBottom: insets.bottom + 8, paddingTop: 12, maxHeight: 520 }}
+          >
+            {/* Header */}
+            <View className="flex-row items-center justify-between px-4 pb-3 border-b border-fomio-border-soft dark:border-fomio-border-soft-dark">
+              <Text className="flex-1 text-title font-semibold text-fomio-foreground dark:text-fomio-foreground-dark">
+                Reactions
+              </Text>
+              <TouchableOpacity
+                onPress={onClose}
+                className="p-2"
+                accessible
+                accessibilityRole="button"
+                accessibilityLabel="Close reactions"
+              >
+                <X size={20} color={mutedColor} weight="regular" />
+              </TouchableOpacity>
+            </View>
+
+            {isLoading ? (
+              <View className="py-8 items-center">
+                <ActivityIndicator size="small" color={mutedColor} />
+              </View>
+            ) : hasError ? (
+              <Text className="px-4 py-6 text-center" style={{ color: mutedColor, fontSize: 14 }}>
+                {errorMessage || 'Could not load reactions.'}
+              </Text>
+            ) : (
+              <>
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  contentContainerStyle={{ paddingHorizontal: 16, paddingVertical: 12 }}
+                  style={{ flexGrow: 0 }}
+                >
+                  {renderTab(
+                    ALL_TAB,
+                    <Text style={{ fontSize: 13, fontWeight: '600', color: tab === ALL_TAB ? accentColor : mutedColor }}>
+                      All
+                    </Text>,
+                    total,
+                    `All reactions, ${total}`
+                  )}
+                  {reactionUsers.map((group) =>
+                    renderTab(
+                      group.id,
+                      <EmojiGlyph name={group.id} size={18} customEmojis={customEmojis} color={mutedColor} />,
+                      group.count,
+                      `${group.id.replace(/_/g, ' ')}, ${group.count}`
+                    )
+                  )}
+                </ScrollView>
+
+                <ScrollView>
+                  {rows.map((user) => (
+                    <TouchableOpacity
+                      key={`${user.reaction}:${user.username}`}
+                      onPress={() => openProfile(user.username)}
+                      className="flex-row items-center px-4 py-2.5"
+                      accessible
+                      accessibilityRole="button"
+                      accessibilityLabel={`${user.name || user.username} reacted with ${user.reaction.replace(/_/g, ' ')}`}
+                    >
+                      {user.avatar_template ? (
+                        <Image
+                          source={{ uri: discourseApi.getAvatarUrl(user.avatar_template, 64) }}
+                          style={{ width: 32, height: 32, borderRadius: 16 }}
+                          cachePolicy="memory-disk"
+                        />
+                      ) : (
+                        <View style={{ width: 32, height: 32, borderRadius: 16, backgroundColor: `${accentColor}33` }} />
+                      )}
+                      <View className="flex-1 ml-3">
+                        <Text
+                          className="text-body font-semibold text-fomio-foreground dark:text-fomio-foreground-dark"
+                          style={{ fontSize: 15 }}
+                          numberOfLines={1}
+                        >
+                          {user.name || user.username}
+                        </Text>
+                        <Text style={{ color: mutedColor, fontSize: 13 }} numberOfLines={1}>
+                          @{user.username}
+                        </Text>
+                      </View>
+                      <EmojiGlyph name={user.reaction} size={20} customEmojis={customEmojis} color={mutedColor} />
+                    </TouchableOpacity>
+                  ))}
+                  {rows.length === 0 && (
+                    <Text className="px-4 py-6 text-center" style={{ color: mutedColor, fontSize: 14 }}>
+                      No reactions yet.
+                    </Text>
+                  )}
+                </ScrollView>
+              </>
+            )}
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
@@ -1,6 +1,6 @@
 import React from 'react';
 import { View, Text, TouchableOpacity } from 'react-native';
-import { PushPin, Lock, Archive, ShieldCheck } from 'phosphor-react-native';
+import { PushPin, Lock, Archive, EyeSlash, ShieldCheck } from 'phosphor-react-native';
 import { useTheme } from '@/components/theme';
 import { getThemeColors } from '@/shared/theme-constants';
 
@@ -8,11 +8,12 @@ export interface StatusChipsRowProps {
   isPinned?: boolean;
   isLocked?: boolean;
   isArchived?: boolean;
+  isUnlisted?: boolean;
   isStaff?: boolean;
 }
 
 // UI Spec: StatusChipsRow — Displays status chips for topic states
-// - Shows Pinned, Locked, Archived, Staff badges
+// - Shows Pinned, Locked, Archived, Unlisted, Staff badges
 // - Uses small chips with appropriate colors
 // - Only displays if status is true
 // - Uses Phosphor icons
@@ -21,6 +22,7 @@ export function StatusChipsRow({
   isPinned,
   isLocked,
   isArchived,
+  isUnlisted,
   isStaff,
 }: StatusChipsRowProps) {
   const { isDark, isAmoled } = useTheme();
@@ -52,6 +54,14 @@ export function StatusChipsRow({
     });
   }
 
+  if (isUnlisted) {
+    chips.push({
+      label: 'Unlisted',
+      icon: <EyeSlash size={12} weight="fill" />,
+      color: isDark ? '#6b7280' : '#4b5563',
+    });
+  }
+
   if (isStaff) {
     chips.push({
       label: 'Staff',
@@ -0,0 +1,83 @@
+// UI Spec: TopicNotificationButton
+// - Bell in the Byte's stats row showing the current topic notification level
+// - Accent when Tracking or Watching, muted otherwise
+// - Opens TopicNotificationLevelSheet; level changes apply optimistically
+// - Hidden for signed-out users (levels are per user)
+
+import React, { useState, useCallback, useMemo } from 'react';
+import { Pressable, Alert } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '@/components/theme';
+import { useAuth } from '@/shared/auth-context';
+import { getTokens } from '@/shared/design/tokens';
+import { TOPIC_NOTIFICATION_LEVELS, TopicNotificationLevel } from '@/shared/discourseApi';
+import { getTopicNotificationLevelOption } from '@/shared/topic-notifications';
+import { useSetByteNotificationLevel } from '@/shared/mutations';
+import { TopicNotificationLevelIcon, TopicNotificationLevelSheet } from './TopicNotificationLevelSheet';
+
+interface TopicNotificationButtonProps {
+  topicId: number;
+  topicTitle?: string;
+  level: TopicNotificationLevel;
+  mode?: 'light' | 'dark' | 'darkAmoled';
+}
+
+export function TopicNotificationButton({ topicId, topicTitle, level, mode: modeProp }: TopicNotificationButtonProps) {
+  const themeContext = useTheme();
+  const mode = modeProp || (themeContext.isAmoled ? 'darkAmoled' : themeContext.isDark ? 'dark' : 'light');
+  const tokens = useMemo(() => getTokens(mode), [mode]);
+  const { isAuthenticated } = useAuth();
+  const setLevel = useSetByteNotificationLevel();
+  const [isSheetVisible, setIsSheetVisible] = useState(false);
+
+  const iconColor = level >= TOPIC_NOTIFICATION_LEVELS.tracking ? tokens.colors.accent : tokens.colors.muted;
+
+  const handleOpen = useCallback(() => {
+    Haptics.selectionAsync().catch(() => {});
+    setIsSheetVisible(true);
+  }, []);
+
+  const handleSelect = useCallback(
+    (nextLevel: TopicNotificationLevel) => {
+      if (nextLevel === level) return;
+      setLevel.mutate(
+        { byteId: topicId, level: nextLevel },
+        {
+          onError: (error) => {
+            Alert.alert('Error', error.message || 'Failed to update notifications');
+          },
+        }
+      );
+    },
+    [level, setLevel, topicId]
+  );
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <>
+      <Pressable
+        onPress={handleOpen}
+        hitSlop={8}
+        className="p-1.5 rounded-full"
+        style={{ marginLeft: 'auto', backgroundColor: `${iconColor}20` }}
+        accessible
+        accessibilityRole="button"
+        accessibilityLabel={`Notifications: ${getTopicNotificationLevelOption(level).label}`}
+        accessibilityHint="Choose how you're notified about replies to this Byte"
+      >
+        <TopicNotificationLevelIcon level={level} size={18} color={iconColor} />
+      </Pressable>
+      <TopicNotificationLevelSheet
+        visible={isSheetVisible}
+        onClose={() => setIsSheetVisible(false)}
+        onSelect={handleSelect}
+        level={level}
+        topicTitle={topicTitle}
+        isUpdating={setLevel.isPending}
+      />
+    </>
+  );
+}
@@ -0,0 +1,152 @@
+// UI Spec: TopicNotificationLevelSheet
+// - Bottom modal listing the four Discourse topic notification levels for a Byte
+// - Each row shows an icon, label and one-line description; current level is checked
+// - Uses React Native Modal like CategoryNotificationLevelSheet, so it can open from the overflow menu
+// - Selecting a level closes the sheet
+
+import React from 'react';
+import { View, Text, TouchableOpacity, Modal, Pressable, ActivityIndicator } from 'react-native';
+import { Bell, BellRinging, BellSlash, Check, X } from 'phosphor-react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '@/components/theme';
+import { TOPIC_NOTIFICATION_LEVELS, TopicNotificationLevel } from '@/shared/discourseApi';
+import { TOPIC_NOTIFICATION_LEVEL_OPTIONS } from '@/shared/topic-notifications';
+
+interface TopicNotificationLevelSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  onSelect: (level: TopicNotificationLevel) => void;
+  level: TopicNotificationLevel;
+  topicTitle?: string;
+  isUpdating?: boolean;
+}
+
+export function TopicNotificationLevelIcon({
+  level,
+  size = 20,
+  color,
+}: {
+  level: TopicNotificationLevel;
+  size?: number;
+  color: string;
+}) {
+  switch (level) {
+    case TOPIC_NOTIFICATION_LEVELS.watching:
+      return <BellRinging size={size} color={color} weight="fill" />;
+    case TOPIC_NOTIFICATION_LEVELS.tracking:
+      return <Bell size={size} color={color} weight="fill" />;
+    case TOPIC_NOTIFICATION_LEVELS.muted:
+      return <BellSlash size={size} color={color} weight="regular" />;
+    default:
+      return <Bell size={size} color={color} weight="regular" />;
+  }
+}
+
+export function TopicNotificationLevelSheet({
+  visible,
+  onClose,
+  onSelect,
+  level,
+  topicTitle,
+  isUpdating = false,
+}: TopicNotificationLevelSheetProps) {
+  const { isDark } = useTheme();
+  const insets = useSafeAreaInsets();
+  const mutedColor = isDark ? '#A1A1AA' : '#6B6B72';
+  const accentColor = isDark ? '#26A69A' : '#009688';
+
+  const handleSelect = (nextLevel: TopicNotificationLevel) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    onSelect(nextLevel);
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <Pressable
+        className="flex-1 justify-end"
+        onPress={onClose}
+        style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}
+      >
+        <Pressable onPress={(e) => e.stopPropagation()}>
+          <View
+            className="bg-fomio-bg dark:bg-fomio-bg-dark rounded-t-3xl"
+            style={{ paddingBottom: insets.bottom + 8, paddingTop: 12 }}
+          >
+            {/* Header */}
+            <View className="flex-row items-center justify-between px-4 pb-3 border-b border-fomio-border-soft dark:border-fomio-border-soft-dark">
+              <View className="flex-1">
+                <Text className="text-title font-semibold text-fomio-foreground dark:text-fomio-foreground-dark">
+                  Notifications
+                </Text>
+                {topicTitle ? (
+                  <Text
+                    className="text-body text-fomio-muted dark:text-fomio-muted-dark"
+                    style={{ fontSize: 13 }}
+                    numberOfLines={1}
+                  >
+                    {topicTitle}
+                  </Text>
+                ) : null}
+              </View>
+              {isUpdating ? <ActivityIndicator size="small" color={mutedColor} /> : null}
+              <TouchableOpacity
+                onPress={onClose}
+                className="p-2"
+                accessible
+                accessibilityRole="button"
+                accessibilityLabel="Close notification settings"
+              >
+                <X size={20} color={mutedColor} weight="regular" />
+              </TouchableOpacity>
+            </View>
+
+            {TOPIC_NOTIFICATION_LEVEL_OPTIONS.map((option) => {
+              const isSelected = option.level === level;
+              return (
+                <TouchableOpacity
+                  key={option.level}
+                  className="flex-row items-center px-4 py-3 active:opacity-70"
+                  onPress={() => handleSelect(option.level)}
+                  disabled={isUpdating}
+                  accessible
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected: isSelected, disabled: isUpdating }}
+                  accessibilityLabel={`${option.label}. ${option.description}`}
+                >
+                  <TopicNotificationLevelIcon
+                    level={option.level}
+                    color={isSelected ? accentColor : mutedColor}
+                  />
+                  <View className="flex-1" style={{ marginLeft: 12 }}>
+                    <Text
+                      className="text-body font-semibold text-fomio-foreground dark:text-fomio-foreground-dark"
+                      style={{ fontSize: 15 }}
+                    >
+                      {option.label}
+                    </Text>
+                    <Text
+                      className="text-body text-fomio-muted dark:text-fomio-muted-dark"
+                      style={{ fontSize: 13, marginTop: 2 }}
+                    >
+                      {option.description}
+                    </Text>
+                  </View>
+                  {isSelected && (
+                    <Check size={18} color={accentColor} weight="bold" style={{ marginLeft: 8 }} />
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
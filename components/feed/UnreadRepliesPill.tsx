@@ -0,0 +1,55 @@
+import React from 'react';
+import { Text, TouchableOpacity } from 'react-native';
+import { ArrowDown, ArrowUp } from 'phosphor-react-native';
+import * as Haptics from 'expo-haptics';
+import { getTokens } from '@/shared/design/tokens';
+
+export interface UnreadRepliesPillProps {
+  label: string;
+  onPress: () => void;
+  mode: 'light' | 'dark' | 'darkAmoled';
+  // Which way the content the pill jumps to lies
+  direction?: 'up' | 'down';
+}
+
+/**
+ * UnreadRepliesPill — Floating "jump to first unread" button
+ * (also used for the "N new Bytes" banner above the feed)
+ *
+ * UI Spec: UnreadRepliesPill
+ * - Centered, rounded pill using the accent color
+ * - Positioned by the parent (absolute, above the action bar or input)
+ * - Light haptic on press
+ */
+export function UnreadRepliesPill({ label, onPress, mode, direction = 'down' }: UnreadRepliesPillProps) {
+  const tokens = getTokens(mode);
+  const Arrow = direction === 'up' ? ArrowUp : ArrowDown;
+
+  const handlePress = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    onPress();
+  };
+
+  return (
+    <TouchableOpacity
+      onPress={handlePress}
+      className="flex-row items-center self-center rounded-full px-4 py-2"
+      style={{
+        backgroundColor: tokens.colors.accent,
+        shadowColor: tokens.colors.shadow,
+        shadowOpacity: 0.2,
+        shadowRadius: 8,
+        shadowOffset: { width: 0, height: 2 },
+        elevation: 4,
+      }}
+      accessible
+      accessibilityRole="button"
+      accessibilityLabel={label}
+    >
+      <Arrow size={14} weight="bold" color={tokens.colors.onAccent} />
+      <Text style={{ marginLeft: 6, fontSize: 13, fontWeight: '600', color: tokens.colors.onAccent }}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+}
@@ -2,33 +2,62 @@ import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
 import { Alert, ScrollView } from 'react-native';
 import { router } from 'expo-router';
 import * as Haptics from 'expo-haptics';
+import { useQueryClient } from '@tanstack/react-query';
 import { Comment } from '../CommentItem';
-import { TopicData } from '@/shared/useTopic';
-import { discourseApi } from '@/shared/discourseApi';
+import { discourseApi, Comment as StreamComment } from '@/shared/discourseApi';
+import { useComments } from '@/shared/useComments';
+import { useReadPosition } from '@/shared/useReadPosition';
 import { getCommentErrorMessage, isConsecutiveReplyError } from '@/shared/utils/comment-errors';
 import { CommentsSheetRef } from '@/components/comments/CommentsSheet';
 import { NewCommentInputRef } from '@/components/feed/NewCommentInput';
+import { offlineManager } from '@/shared/offline-support';
+import { PostFlagState } from '@/shared/post-flags';
+import { getMentionParticipants } from '@/shared/autocomplete';
+import { PostReactions, canToggleReaction, getReactionOptions, toggleReaction } from '@/shared/reactions';
+import { useSiteSettings } from '@/shared/useSiteSettings';
+import { useDeletePost, useRecoverPost, useToggleReaction } from '@/shared/mutations';
+import { buildQuoteMarkup, getQuotableText } from '@/shared/quotes';
+import { queryKeys } from '@/shared/query-client';
+import { TopicData } from '@/shared/useTopic';
+import { useReplyNotificationLevel } from '@/shared/useReplyNotificationLevel';
+import { TOPIC_NOTIFICATION_REASONS, getLevelAfterReply } from '@/shared/topic-notifications';
+
+// Timestamp shown on optimistic comments that are waiting in the offline outbox
+const QUEUED_COMMENT_LABEL = 'Waiting to send';
 
 interface UseByteBlogCommentsParams {
   topicId: number;
-  topic: TopicData | null;
   refetch: () => Promise<void>;
   user: { name: string; avatar: string } | null;
   isAuthenticated: boolean;
-  createComment: (content: string, replyToPostNumber?: number) => Promise<boolean>;
+  createComment: (content: string, replyToPostNumber?: number) => Promise<boolean | 'queued'>;
   actionsError: string | undefined;
   scrollOffsetRef: React.MutableRefObject<number>;
   scrollViewRef: React.RefObject<ScrollView | null>;
   initialCommentsVisible?: boolean;
+  // Byte author, offered for @mentions along with the repliers
+  topicAuthor?: { username: string; name: string; avatar: string };
+  // Byte body (cooked), for quoting it into a reply
+  topicContent?: string;
+}
+
+// Post being quoted into a reply
+export interface QuoteTarget {
+  username: string;
+  postNumber: number;
+  text: string;
+  // Set when the quoted comment can also be the reply target
+  replyTo?: { postNumber: number; username: string };
 }
 
 /**
  * Hook for managing comments in ByteBlogPage
- * Handles comment transformation, optimistic updates, and comment actions
+ * Handles comment transformation, optimistic updates, and comment actions.
+ * Comments are paged from the post stream, starting at the first unread
+ * reply when the user has read part of the byte before.
  */
 export function useByteBlogComments({
   topicId,
-  topic,
   refetch,
   user,
   isAuthenticated,
@@ -37,36 +66,73 @@ export function useByteBlogComments({
   scrollOffsetRef,
   scrollViewRef,
   initialCommentsVisible = false,
+  topicAuthor,
+  topicContent,
 }: UseByteBlogCommentsParams) {
   const [replyTo, setReplyTo] = useState<{ postNumber: number; username: string } | null>(null);
   const [optimisticComments, setOptimisticComments] = useState<Comment[]>([]);
+  const [flagTarget, setFlagTarget] = useState<{ postId: number; flagState: PostFlagState } | null>(null);
+  // Reactions picked this session win over the stream, which may be cached
+  const [reactionOverrides, setReactionOverrides] = useState<Record<string, PostReactions>>({});
+  const [reactionUsersTarget, setReactionUsersTarget] = useState<{ postId: number; reactionId?: string } | null>(null);
+  const [quoteTarget, setQuoteTarget] = useState<QuoteTarget | null>(null);
+  // [quote] block handed to the reply input once the comments sheet shows it
+  const [pendingQuote, setPendingQuote] = useState<string | null>(null);
+  const { settings } = useSiteSettings();
+  const toggleReactionMutation = useToggleReaction();
+  const deletePostMutation = useDeletePost();
+  const recoverPostMutation = useRecoverPost();
+  const queryClient = useQueryClient();
+  const replyNotificationLevel = useReplyNotificationLevel();
   const commentSheetRef = useRef<CommentsSheetRef>(null);
   const commentInputRef = useRef<NewCommentInputRef>(null);
 
-  // Transform topic posts to comments with proper reply structure
-  const transformPostsToComments = useCallback((posts: TopicData['posts']): Comment[] => {
+  // Start the comment stream at the first unread reply
+  const readPosition = useReadPosition(topicId);
+  const {
+    comments: streamComments,
+    refreshComments,
+    hasMore,
+    hasPrevious,
+    isLoadingMore,
+    isLoadingPrevious,
+    loadMore,
+    loadPrevious,
+  } = useComments(topicId, {
+    nearPostNumber: readPosition.firstUnreadPostNumber,
+    enabled: !readPosition.isLoading,
+  });
+
+  // Transform stream comments to sheet comments with proper reply structure
+  const transformStreamComments = useCallback((posts: StreamComment[]): Comment[] => {
     // Create a map of post numbers to post IDs for quick lookup
     const postNumberToIdMap = new Map<number, string>();
     posts.forEach(post => {
-      postNumberToIdMap.set(post.number, post.id.toString());
+      postNumberToIdMap.set(post.postNumber, post.id.toString());
     });
 
-    return posts.slice(1).map((post) => {
+    return posts.map((post) => {
       const comment: Comment = {
         id: post.id.toString(),
         author: {
           name: post.author.name,
           avatar: post.author.avatar,
         },
-        content: post.content.replace(/<[^>]*>/g, ''), // Strip HTML tags
+        content: post.content, // Cooked HTML; CommentItem shows it as text with quote asides
         createdAt: new Date(post.createdAt).toLocaleDateString(),
         likes: post.likeCount,
-        replyToPostNumber: post.reply_to_post_number,
+        replyToPostNumber: post.replyToPostNumber,
+        flagState: post.flagState,
+        reactions: reactionOverrides[post.id.toString()] ?? post.reactions,
+        actionCode: post.actionCode,
+        isDeleted: post.isDeleted,
+        canDelete: post.canDelete,
+        canRecover: post.canRecover,
       };
 
       // Set parentId based on reply_to_post_number
-      if (post.reply_to_post_number) {
-        const parentId = postNumberToIdMap.get(post.reply_to_post_number);
+      if (post.replyToPostNumber) {
+        const parentId = postNumberToIdMap.get(post.replyToPostNumber);
         if (parentId) {
           comment.parentId = parentId;
         }
@@ -74,13 +140,11 @@ export function useByteBlogComments({
 
       return comment;
     });
-  }, []);
+  }, [reactionOverrides]);
 
   // Memoize comment list computation (merge real comments with optimistic ones)
   const commentList = useMemo(() => {
-    if (!topic) return [];
-
-    const comments = transformPostsToComments(topic.posts);
+    const comments = transformStreamComments(streamComments);
     const parents: Comment[] = [];
     const replyMap = new Map<string, Comment[]>();
 
@@ -108,7 +172,33 @@ export function useByteBlogComments({
 
     // Merge with optimistic comments
     return [...realComments, ...optimisticComments];
-  }, [topic, transformPostsToComments, optimisticComments]);
+  }, [streamComments, transformStreamComments, optimisticComments]);
+
+  // People in the conversation, most recent replier first, for @mention suggestions
+  const participants = useMemo(
+    () => getMentionParticipants([topicAuthor, ...streamComments.map((comment) => comment.author)]),
+    [topicAuthor, streamComments]
+  );
+
+  // Sheet comment IDs back to post numbers (for read timings)
+  const postNumberById = useMemo(
+    () => new Map(streamComments.map((comment) => [comment.id.toString(), comment.postNumber])),
+    [streamComments]
+  );
+
+  // "N new replies since your last visit" goes above the first reply posted after lastRead
+  const unreadDivider = useMemo(() => {
+    const { firstUnreadPostNumber, newReplyCount } = readPosition;
+    if (!firstUnreadPostNumber) return null;
+
+    const unreadIds = new Set(
+      streamComments
+        .filter((comment) => comment.postNumber >= firstUnreadPostNumber)
+        .map((comment) => comment.id.toString())
+    );
+    const firstUnread = commentList.find((comment) => unreadIds.has(comment.id));
+    return firstUnread ? { commentId: firstUnread.id, count: newReplyCount } : null;
+  }, [readPosition, streamComments, commentList]);
 
   // Open comments sheet on mount if initialCommentsVisible is true
   useEffect(() => {
@@ -119,6 +209,16 @@ export function useByteBlogComments({
     }
   }, [initialCommentsVisible]);
 
+  // Once the outbox has replayed queued replies, swap the placeholders for the real posts
+  useEffect(() => {
+    return offlineManager.addSyncListener((result) => {
+      if (result.actionsProcessed === 0) return;
+      setOptimisticComments(prev => prev.filter(c => c.createdAt !== QUEUED_COMMENT_LABEL));
+      void refetch();
+      void refreshComments();
+    });
+  }, [refetch, refreshComments]);
+
   // Handle sending comments with optimistic updates
   const handleSendComment = useCallback(async (content: string, replyToPostNumber?: number) => {
     // Create optimistic comment
@@ -145,12 +245,32 @@ export function useByteBlogComments({
     
     try {
       const success = await createComment(content, replyToPostNumber);
-      if (success) {
+      if (success === 'queued') {
+        // Offline - keep the optimistic comment visible until the outbox posts it
+        setOptimisticComments(prev =>
+          prev.map(c => (c.id === tempId ? { ...c, createdAt: QUEUED_COMMENT_LABEL } : c))
+        );
+        if (replyToPostNumber) {
+          setReplyTo(null);
+        }
+      } else if (success) {
         // Remove optimistic comment
         setOptimisticComments(prev => prev.filter(c => c.id !== tempId));
+
+        // Discourse auto-tracks Bytes the user replies to; show that before the refetch lands
+        queryClient.setQueryData<TopicData>(queryKeys.topic(topicId), (old) => {
+          if (!old) return old;
+          const level = getLevelAfterReply(
+            { level: old.notificationLevel, reasonId: old.notificationsReasonId },
+            replyNotificationLevel
+          );
+          return level === old.notificationLevel
+            ? old
+            : { ...old, notificationLevel: level, notificationsReasonId: TOPIC_NOTIFICATION_REASONS.createdPost };
+        });
         
         // ✅ FIXED: Use refetch to always reload topic data (not retry, which only works on errors)
-        await refetch();
+        await Promise.all([refetch(), refreshComments()]);
         
         // Restore scroll position after a brief delay to let the content update
         setTimeout(() => {
@@ -243,7 +363,50 @@ export function useByteBlogComments({
       }
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
     }
-  }, [createComment, refetch, user, actionsError, scrollOffsetRef, scrollViewRef]);
+  }, [createComment, refetch, refreshComments, user, actionsError, scrollOffsetRef, scrollViewRef, queryClient, topicId, replyNotificationLevel]);
+
+  // Reactions offered on comments; empty when the site doesn't run discourse-reactions
+  const hasReactionData = useMemo(() => streamComments.some((comment) => !!comment.reactions), [streamComments]);
+  const reactionOptions = useMemo(
+    () => getReactionOptions(settings, hasReactionData),
+    [settings, hasReactionData]
+  );
+
+  // React to a comment (or take the reaction back), updating the counts right away
+  const handleReactToComment = useCallback((commentId: string, reactionId: string) => {
+    if (!isAuthenticated) {
+      router.push('/(auth)/signin' as any);
+      return;
+    }
+
+    const previous = commentList.find((comment) => comment.id === commentId)?.reactions;
+    if (!previous) return;
+    if (!canToggleReaction(previous)) {
+      Alert.alert('Reaction locked', 'It is too late to change your reaction to this comment.');
+      return;
+    }
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    setReactionOverrides((overrides) => ({ ...overrides, [commentId]: toggleReaction(previous, reactionId) }));
+    toggleReactionMutation.mutate(
+      { topicId, postId: parseInt(commentId, 10), reactionId },
+      {
+        onSuccess: (reactions) => {
+          setReactionOverrides((overrides) => ({ ...overrides, [commentId]: reactions }));
+        },
+        onError: (error) => {
+          setReactionOverrides((overrides) => ({ ...overrides, [commentId]: previous }));
+          Alert.alert('Error', error.message);
+        },
+      }
+    );
+  }, [commentList, isAuthenticated, toggleReactionMutation, topicId]);
+
+  const handleShowReactions = useCallback((commentId: string, reactionId?: string) => {
+    setReactionUsersTarget({ postId: parseInt(commentId, 10), reactionId });
+  }, []);
+
+  const closeReactionUsers = useCallback(() => setReactionUsersTarget(null), []);
 
   // Handle liking individual comments
   const handleLikeComment = useCallback(async (commentId: string) => {
@@ -257,15 +420,123 @@ export function useByteBlogComments({
       // Use discourseApi directly for individual comment likes
       const response = await discourseApi.likeComment(postId);
       if (response.success) {
-        // ✅ FIXED: Use refetch to always reload topic data
-        await refetch();
+        await refreshComments();
       } else {
         Alert.alert('Error', response.error || 'Failed to like comment');
       }
     } catch (error) {
       Alert.alert('Error', 'Failed to like comment');
     }
-  }, [refetch]);
+  }, [refreshComments]);
+
+  // Open the flag sheet for a comment
+  const handleFlagComment = useCallback((commentId: string) => {
+    if (!isAuthenticated) {
+      router.push('/(auth)/signin' as any);
+      return;
+    }
+
+    const comment = commentList.find(c => c.id === commentId);
+    if (!comment?.flagState) return;
+    setFlagTarget({ postId: parseInt(commentId, 10), flagState: comment.flagState });
+  }, [commentList, isAuthenticated]);
+
+  const closeFlagSheet = useCallback(() => setFlagTarget(null), []);
+
+  // Staff: delete a comment; it stays in the stream, dimmed, until recovered
+  const handleDeleteComment = useCallback((commentId: string) => {
+    const postId = parseInt(commentId, 10);
+    if (isNaN(postId)) return;
+
+    Alert.alert('Delete comment?', 'Staff can still see it and recover it later.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          deletePostMutation.mutate(
+            { topicId, postId },
+            {
+              onSuccess: () => {
+                Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+              },
+              onError: (error) => {
+                Alert.alert('Error', error.message);
+              },
+            }
+          );
+        },
+      },
+    ]);
+  }, [deletePostMutation, topicId]);
+
+  const handleRecoverComment = useCallback((commentId: string) => {
+    const postId = parseInt(commentId, 10);
+    if (isNaN(postId)) return;
+
+    recoverPostMutation.mutate(
+      { topicId, postId },
+      {
+        onSuccess: () => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
+        },
+        onError: (error) => {
+          Alert.alert('Error', error.message);
+        },
+      }
+    );
+  }, [recoverPostMutation, topicId]);
+
+  // Long-press a comment: pick the text to quote from it
+  const handleQuoteComment = useCallback((commentId: string) => {
+    if (!isAuthenticated) {
+      router.push('/(auth)/signin' as any);
+      return;
+    }
+
+    const post = streamComments.find(p => p.id.toString() === commentId);
+    const comment = commentList.find(c => c.id === commentId);
+    if (!post || !comment) return;
+
+    setQuoteTarget({
+      username: post.author.username,
+      postNumber: post.postNumber,
+      text: getQuotableText(post.content),
+      // Same rule as Reply: only top-level comments take replies for now
+      replyTo: comment.parentId || comment.replyToPostNumber
+        ? undefined
+        : { postNumber: post.postNumber, username: comment.author.name },
+    });
+  }, [commentList, isAuthenticated, streamComments]);
+
+  // Long-press the Byte body: quote from the first post
+  const handleQuoteByte = useCallback(() => {
+    if (!isAuthenticated) {
+      router.push('/(auth)/signin' as any);
+      return;
+    }
+    if (!topicAuthor || !topicContent) return;
+
+    setQuoteTarget({ username: topicAuthor.username, postNumber: 1, text: getQuotableText(topicContent) });
+  }, [isAuthenticated, topicAuthor, topicContent]);
+
+  const closeQuoteSheet = useCallback(() => setQuoteTarget(null), []);
+
+  // Open the reply with the quote in it
+  const handleInsertQuote = useCallback((text: string) => {
+    if (!quoteTarget) return;
+    const markup = buildQuoteMarkup({ username: quoteTarget.username, postNumber: quoteTarget.postNumber, topicId }, text);
+    if (!markup) return;
+
+    if (quoteTarget.replyTo) {
+      setReplyTo(quoteTarget.replyTo);
+    }
+    setPendingQuote(markup);
+    commentSheetRef.current?.present();
+    commentSheetRef.current?.snapToIndex(1);
+  }, [quoteTarget, topicId]);
+
+  const clearPendingQuote = useCallback(() => setPendingQuote(null), []);
 
   // Handle replying to comments - BARE BONES: Only top-level comments
   const handleReplyToComment = useCallback((commentId: string) => {
@@ -292,39 +563,39 @@ export function useByteBlogComments({
       return;
     }
     
-    // Find the post from topic posts
-    const post = topic?.posts?.find(p => p.id.toString() === commentId);
+    // Find the post from the loaded comment stream
+    const post = streamComments.find(p => p.id.toString() === commentId);
     if (!post) {
       console.error('❌ Post not found for comment:', { 
         commentId, 
         comment, 
-        postsCount: topic?.posts?.length,
-        availablePostIds: topic?.posts?.slice(0, 5).map(p => p.id.toString())
+        postsCount: streamComments.length,
+        availablePostIds: streamComments.slice(0, 5).map(p => p.id.toString())
       });
       Alert.alert('Error', 'Could not find the comment to reply to.');
       return;
     }
     
-    // CRITICAL: Validate post.number exists and is a valid number
-    if (!post.number || typeof post.number !== 'number' || post.number <= 0) {
+    // CRITICAL: Validate post.postNumber exists and is a valid number
+    if (!post.postNumber || typeof post.postNumber !== 'number' || post.postNumber <= 0) {
       console.error('❌ Invalid post number:', { 
         post, 
         commentId, 
-        postNumber: post.number,
-        postNumberType: typeof post.number
+        postNumber: post.postNumber,
+        postNumberType: typeof post.postNumber
       });
       Alert.alert('Error', 'Invalid comment structure. Please refresh and try again.');
       return;
     }
     
     console.log('✅ Setting reply state:', { 
-      postNumber: post.number, 
+      postNumber: post.postNumber, 
       username: comment.author.name 
     });
     
     // Set reply state
     setReplyTo({
-      postNumber: post.number,
+      postNumber: post.postNumber,
       username: comment.author.name,
     });
     
@@ -335,15 +606,43 @@ export function useByteBlogComments({
     setTimeout(() => {
       commentInputRef.current?.focus();
     }, 120);
-  }, [commentList, topic]);
+  }, [commentList, streamComments]);
 
   return {
     commentList,
+    unreadDivider,
+    newReplyCount: readPosition.newReplyCount,
+    hasMoreComments: hasMore,
+    hasPreviousComments: hasPrevious,
+    isLoadingMoreComments: isLoadingMore,
+    isLoadingPreviousComments: isLoadingPrevious,
+    loadMoreComments: loadMore,
+    loadPreviousComments: loadPrevious,
+    refreshComments,
+    postNumberById,
+    participants,
     replyTo,
     setReplyTo,
     handleSendComment,
     handleLikeComment,
     handleReplyToComment,
+    reactionOptions,
+    handleReactToComment,
+    reactionUsersTarget,
+    handleShowReactions,
+    closeReactionUsers,
+    quoteTarget,
+    handleQuoteComment,
+    handleQuoteByte,
+    closeQuoteSheet,
+    handleInsertQuote,
+    pendingQuote,
+    clearPendingQuote,
+    flagTarget,
+    handleFlagComment,
+    closeFlagSheet,
+    handleDeleteComment,
+    handleRecoverComment,
     commentSheetRef,
     commentInputRef,
   };
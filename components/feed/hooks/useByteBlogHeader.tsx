@@ -16,8 +16,7 @@ import { getTokens } from '@/shared/design/tokens';
 export function useByteBlogHeader(
   topic: TopicData | null,
   _isDark: boolean,
-  onShare?: () => void,
-  retry?: () => void
+  onShare?: () => void
 ): {
   onScroll: (event: NativeSyntheticEvent<NativeScrollEvent>) => void;
 } {
@@ -41,6 +40,7 @@ export function useByteBlogHeader(
         isPinned={topic.isPinned}
         isLocked={topic.isClosed}
         isArchived={topic.isArchived}
+        isUnlisted={!topic.isVisible}
         isStaff={isStaff}
       />
     );
@@ -57,25 +57,23 @@ export function useByteBlogHeader(
       <OverflowMenu
         key="menu"
         topic={topic}
-        onWatch={onShare}
-        onMute={onShare}
-        onPin={onShare}
-        onClose={onShare}
         onShare={onShare}
-        onRefresh={retry}
       />
     );
     return actions;
-  }, [topic, statusChips, onShare, retry]);
+  }, [topic, statusChips, onShare]);
 
   // Derive a stable key for header updates without putting React nodes in deps
   const headerStatusKey = useMemo(() => {
     if (!topic) return 'no-topic';
     return [
       topic.id,
-      topic.isPinned ? 'p1' : 'p0',
+      topic.isPinned ? (topic.isPinnedGlobally ? 'pg' : 'p1') : 'p0',
       topic.isClosed ? 'c1' : 'c0',
       topic.isArchived ? 'a1' : 'a0',
+      topic.isVisible ? 'v1' : 'v0',
+      `t${topic.category.id}`,
+      `n${topic.notificationLevel}`,
       isStaff ? 's1' : 's0',
       onShare ? 'share' : 'no-share',
     ].join('-');
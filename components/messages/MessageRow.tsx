@@ -0,0 +1,142 @@
+import React, { useMemo } from 'react';
+import { View, Text, Image, TouchableOpacity } from 'react-native';
+import { useTheme } from '@/components/theme';
+import { getTokens } from '@/shared/design/tokens';
+import { formatRelativeTime } from '@/lib/utils/notifications';
+import type { MessageSummary } from '@/shared/adapters/topicToMessageSummary';
+
+// UI Spec: MessageRow — One conversation in the inbox: stacked avatars, title, participants, time and unread dot.
+interface MessageRowProps {
+  message: MessageSummary;
+  currentUsername?: string;
+  onPress?: () => void;
+  onLongPress?: () => void;
+}
+
+const MAX_AVATARS = 3;
+
+export function MessageRow({ message, currentUsername, onPress, onLongPress }: MessageRowProps) {
+  const { isDark, isAmoled } = useTheme();
+  const tokens = useMemo(
+    () => getTokens(isAmoled ? 'darkAmoled' : isDark ? 'dark' : 'light'),
+    [isAmoled, isDark]
+  );
+
+  // Show the other people in the conversation; a note to self shows the current user
+  const others = message.participants.filter((p) => p.username !== currentUsername);
+  const people = others.length > 0 ? others : message.participants;
+  const participantNames = people.map((p) => p.name).join(', ');
+  const avatars = people.slice(0, MAX_AVATARS);
+
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      onLongPress={onLongPress}
+      activeOpacity={0.8}
+      style={{
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingVertical: 14,
+        paddingHorizontal: 16,
+        borderBottomWidth: 1,
+        borderBottomColor: tokens.colors.border,
+      }}
+      accessibilityRole="button"
+      accessibilityLabel={`${message.isUnread ? 'Unread conversation' : 'Conversation'}: ${message.title}, with ${participantNames}`}
+      accessibilityHint="Long press for more actions"
+    >
+      <View style={{ width: 44, height: 44 }}>
+        {avatars.length === 0 ? (
+          <View
+            style={{
+              width: 44,
+              height: 44,
+              borderRadius: 22,
+              backgroundColor: tokens.colors.accentSoft,
+            }}
+          />
+        ) : (
+          avatars.map((person, index) => {
+            const size = avatars.length === 1 ? 44 : 30;
+            const offset = index * 7;
+            return person.avatar ? (
+              <Image
+                key={person.id}
+                source={{ uri: person.avatar }}
+                style={{
+                  position: 'absolute',
+                  top: offset,
+                  left: offset,
+                  width: size,
+                  height: size,
+                  borderRadius: size / 2,
+                  borderWidth: 1,
+                  borderColor: tokens.colors.border,
+                }}
+              />
+            ) : (
+              <View
+                key={person.id}
+                style={{
+                  position: 'absolute',
+                  top: offset,
+                  left: offset,
+                  width: size,
+                  height: size,
+                  borderRadius: size / 2,
+                  backgroundColor: tokens.colors.accentSoft,
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  borderWidth: 1,
+                  borderColor: tokens.colors.border,
+                }}
+              >
+                <Text style={{ color: tokens.colors.text, fontWeight: '600', fontSize: 12 }}>
+                  {person.name.charAt(0).toUpperCase()}
+                </Text>
+              </View>
+            );
+          })
+        )}
+      </View>
+
+      <View style={{ flex: 1, minWidth: 0 }}>
+        <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+          <Text
+            style={{
+              flex: 1,
+              color: tokens.colors.text,
+              fontSize: 15,
+              fontWeight: message.isUnread ? '700' : '500',
+            }}
+            numberOfLines={1}
+          >
+            {message.title}
+          </Text>
+          <Text style={{ color: tokens.colors.muted, fontSize: 12 }}>
+            {formatRelativeTime(message.lastPostedAt)}
+          </Text>
+        </View>
+        <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8, marginTop: 4 }}>
+          <Text
+            style={{ flex: 1, color: tokens.colors.muted, fontSize: 13 }}
+            numberOfLines={1}
+          >
+            {participantNames || 'Only you'}
+          </Text>
+          {message.isUnread && (
+            <View
+              style={{
+                width: 8,
+                height: 8,
+                borderRadius: 4,
+                backgroundColor: tokens.colors.accent,
+              }}
+            />
+          )}
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+}
@@ -0,0 +1,315 @@
+import React, { useMemo, useRef } from 'react';
+import { View, Text, StyleSheet, Pressable, TouchableOpacity } from 'react-native';
+import ReanimatedSwipeable, { type SwipeableMethods } from 'react-native-gesture-handler/ReanimatedSwipeable';
+import {
+  Bell,
+  BellSlash,
+  Heart,
+  ChatCircle,
+  Share,
+  At,
+  Star,
+  PencilSimple,
+  Envelope,
+  EnvelopeOpen,
+  EnvelopeSimple,
+  Calendar,
+  Clock,
+  CheckCircle,
+  Smiley,
+  Users,
+} from 'phosphor-react-native';
+import { useTheme } from '@/components/theme';
+import { getThemeColors } from '@/shared/theme-constants';
+import {
+  formatRelativeTime,
+  getNotificationGroupTitle,
+  getNotificationSnippet,
+  NotificationGroup,
+} from '@/lib/utils/notifications';
+
+// UI Spec: NotificationRow — Clean, scannable notification row
+// - Left icon (type-based, colored background)
+// - Title line (bold if unread); a group names who acted ("alice and 4 others liked …")
+// - Snippet line (Byte title or excerpt, truncated)
+// - Right: relative time + unread dot
+// - Subtle background highlight for unread
+// - Tap to navigate + mark as read
+// - Swipe right to mark read/unread; swipe left to mute the Byte
+interface NotificationRowProps {
+  group: NotificationGroup;
+  onPress: () => void;
+  onToggleRead: () => void;
+  // Left out for notifications that aren't about a Byte
+  onMute?: () => void;
+}
+
+const ACTION_WIDTH = 88;
+
+function NotificationIcon({ type }: { type: string }) {
+  const iconSize = 20;
+  const iconColor = '#ffffff';
+  switch (type) {
+    case 'liked':
+    case 'liked_consolidated':
+      return <Heart size={iconSize} color={iconColor} weight="fill" />;
+    case 'replied':
+      return <ChatCircle size={iconSize} color={iconColor} weight="fill" />;
+    case 'mentioned':
+    case 'group_mentioned':
+      return <At size={iconSize} color={iconColor} weight="fill" />;
+    case 'invited_to_private_message':
+    case 'private_message':
+      return <Envelope size={iconSize} color={iconColor} weight="fill" />;
+    case 'bookmark_reminder':
+    case 'topic_reminder':
+      return <Clock size={iconSize} color={iconColor} weight="fill" />;
+    case 'quoted':
+      return <Share size={iconSize} color={iconColor} weight="fill" />;
+    case 'granted_badge':
+      return <Star size={iconSize} color={iconColor} weight="fill" />;
+    case 'edited':
+      return <PencilSimple size={iconSize} color={iconColor} weight="fill" />;
+    case 'post_approved':
+      return <CheckCircle size={iconSize} color={iconColor} weight="fill" />;
+    case 'reaction':
+      return <Smiley size={iconSize} color={iconColor} weight="fill" />;
+    case 'event_reminder':
+    case 'event_invitation':
+      return <Calendar size={iconSize} color={iconColor} weight="fill" />;
+    case 'membership_request_accepted':
+    case 'membership_request_consolidated':
+      return <Users size={iconSize} color={iconColor} weight="fill" />;
+    default:
+      return <Bell size={iconSize} color={iconColor} weight="regular" />;
+  }
+}
+
+export function NotificationRow({ group, onPress, onToggleRead, onMute }: NotificationRowProps) {
+  const { themeMode, isDark } = useTheme();
+  const colors = useMemo(() => getThemeColors(themeMode, isDark), [themeMode, isDark]);
+  const swipeableRef = useRef<SwipeableMethods>(null);
+
+  const getIconBackgroundColor = () => {
+    switch (group.type) {
+      case 'liked':
+      case 'liked_consolidated':
+        return colors.destructive;
+      case 'replied':
+      case 'quoted':
+      case 'edited':
+        return colors.accent;
+      case 'mentioned':
+      case 'group_mentioned':
+      case 'reaction':
+        return colors.warning;
+      case 'invited_to_private_message':
+      case 'private_message':
+      case 'post_approved':
+        return colors.success;
+      case 'bookmark_reminder':
+      case 'granted_badge':
+      case 'topic_reminder':
+        return colors.accent;
+      case 'event_reminder':
+      case 'event_invitation':
+        return colors.warning;
+      case 'membership_request_accepted':
+      case 'membership_request_consolidated':
+        return colors.success;
+      default:
+        return colors.secondary;
+    }
+  };
+
+  const [newest] = group.notifications;
+  const title = getNotificationGroupTitle(group);
+  const snippet = getNotificationSnippet(newest);
+  const relativeTime = formatRelativeTime(group.createdAt);
+  const readLabel = group.isRead ? 'Mark unread' : 'Mark read';
+
+  const runAction = (action?: () => void) => {
+    swipeableRef.current?.close();
+    action?.();
+  };
+
+  const renderReadAction = () => (
+    <TouchableOpacity
+      onPress={() => runAction(onToggleRead)}
+      style={{
+        width: ACTION_WIDTH,
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 4,
+        backgroundColor: colors.accent,
+      }}
+      accessibilityRole="button"
+      accessibilityLabel={readLabel}
+    >
+      {group.isRead ? (
+        <EnvelopeSimple size={20} color="#ffffff" weight="bold" />
+      ) : (
+        <EnvelopeOpen size={20} color="#ffffff" weight="bold" />
+      )}
+      <Text style={{ color: '#ffffff', fontSize: 12, fontWeight: '600' }}>
+        {group.isRead ? 'Unread' : 'Read'}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderMuteAction = () => (
+    <TouchableOpacity
+      onPress={() => runAction(onMute)}
+      style={{
+        width: ACTION_WIDTH,
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 4,
+        backgroundColor: colors.secondary,
+      }}
+      accessibilityRole="button"
+      accessibilityLabel="Mute this Byte"
+    >
+      <BellSlash size={20} color="#ffffff" weight="bold" />
+      <Text style={{ color: '#ffffff', fontSize: 12, fontWeight: '600' }}>Mute</Text>
+    </TouchableOpacity>
+  );
+
+  const accessibilityActions = [
+    { name: 'toggleRead', label: readLabel },
+    ...(onMute ? [{ name: 'mute', label: 'Mute this Byte' }] : []),
+  ];
+
+  const unreadBackground = isDark ? 'rgba(59, 130, 246, 0.1)' : 'rgba(14, 165, 233, 0.08)';
+
+  return (
+    <ReanimatedSwipeable
+      ref={swipeableRef}
+      friction={2}
+      leftThreshold={ACTION_WIDTH / 2}
+      rightThreshold={ACTION_WIDTH / 2}
+      overshootLeft={false}
+      overshootRight={false}
+      renderLeftActions={renderReadAction}
+      renderRightActions={onMute ? renderMuteAction : undefined}
+    >
+      <Pressable
+        onPress={onPress}
+        style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          paddingHorizontal: 16,
+          paddingVertical: 16,
+          borderBottomWidth: StyleSheet.hairlineWidth,
+          minHeight: 60,
+          // Opaque under the swipe actions
+          backgroundColor: colors.card,
+          borderBottomColor: colors.border,
+        }}
+        android_ripple={{
+          color: isDark ? 'rgba(255,255,255,0.12)' : 'rgba(0,0,0,0.08)',
+          borderless: true,
+          radius: 20,
+        }}
+        accessibilityRole="button"
+        accessibilityLabel={title}
+        accessibilityHint={onMute ? 'Swipe right to mark read or unread, left to mute this Byte.' : 'Swipe right to mark read or unread.'}
+        accessibilityActions={accessibilityActions}
+        onAccessibilityAction={(event) => {
+          if (event.nativeEvent.actionName === 'toggleRead') onToggleRead();
+          if (event.nativeEvent.actionName === 'mute') onMute?.();
+        }}
+      >
+        {!group.isRead && (
+          <View pointerEvents="none" style={[StyleSheet.absoluteFill, { backgroundColor: unreadBackground }]} />
+        )}
+
+        {/* Icon */}
+        <View
+          style={{
+            width: 40,
+            height: 40,
+            borderRadius: 20,
+            alignItems: 'center',
+            justifyContent: 'center',
+            marginRight: 12,
+            backgroundColor: getIconBackgroundColor(),
+          }}
+        >
+          <NotificationIcon type={group.type} />
+          {group.notifications.length > 1 && (
+            <View
+              style={{
+                position: 'absolute',
+                right: -4,
+                bottom: -4,
+                minWidth: 18,
+                height: 18,
+                borderRadius: 9,
+                paddingHorizontal: 4,
+                alignItems: 'center',
+                justifyContent: 'center',
+                backgroundColor: colors.foreground,
+              }}
+            >
+              <Text style={{ color: colors.card, fontSize: 10, fontWeight: '700' }}>
+                {group.notifications.length}
+              </Text>
+            </View>
+          )}
+        </View>
+
+        {/* Content */}
+        <View style={{ flex: 1, marginRight: 8 }}>
+          <Text
+            style={{
+              fontSize: 16,
+              fontWeight: group.isRead ? '500' : '600',
+              color: colors.foreground,
+              marginBottom: 2,
+            }}
+            numberOfLines={1}
+          >
+            {title}
+          </Text>
+          {snippet ? (
+            <Text
+              style={{
+                fontSize: 14,
+                fontWeight: '400',
+                color: colors.secondary,
+                marginBottom: 2,
+              }}
+              numberOfLines={2}
+            >
+              {snippet}
+            </Text>
+          ) : null}
+          <Text
+            style={{
+              fontSize: 14,
+              fontWeight: '400',
+              color: colors.secondary,
+            }}
+          >
+            {relativeTime}
+          </Text>
+        </View>
+
+        {/* Unread indicator */}
+        {!group.isRead && (
+          <View
+            style={{
+              width: 8,
+              height: 8,
+              borderRadius: 4,
+              backgroundColor: colors.accent,
+              marginLeft: 8,
+            }}
+          />
+        )}
+      </Pressable>
+    </ReanimatedSwipeable>
+  );
+}
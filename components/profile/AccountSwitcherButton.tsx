@@ -0,0 +1,54 @@
+// UI Spec: AccountSwitcherButton
+// - Header action for the Profile tab
+// - Opens AccountSwitcherSheet to switch between or add accounts
+// - Hidden until there is at least one account
+
+import React, { useState, useCallback } from 'react';
+import { Pressable } from 'react-native';
+import { UserSwitch } from 'phosphor-react-native';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '@/components/theme';
+import { useAccounts } from '@/shared/accounts';
+import { getThemeColors } from '@/shared/theme-constants';
+import { AccountSwitcherSheet } from './AccountSwitcherSheet';
+
+export function AccountSwitcherButton() {
+  const { themeMode, isDark } = useTheme();
+  const { accounts } = useAccounts();
+  const [isSheetVisible, setIsSheetVisible] = useState(false);
+
+  const themeColors = getThemeColors(themeMode, isDark);
+
+  const handleOpen = useCallback(() => {
+    Haptics.selectionAsync().catch(() => {});
+    setIsSheetVisible(true);
+  }, []);
+
+  if (accounts.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <Pressable
+        onPress={handleOpen}
+        className="p-2 rounded-full"
+        android_ripple={{
+          color: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)',
+          borderless: true,
+          radius: 20,
+        }}
+        accessible
+        accessibilityRole="button"
+        accessibilityLabel="Switch account"
+        accessibilityHint="Switch between your accounts or add another"
+      >
+        <UserSwitch size={22} color={themeColors.foreground} weight="regular" />
+      </Pressable>
+      <AccountSwitcherSheet
+        visible={isSheetVisible}
+        onClose={() => setIsSheetVisible(false)}
+      />
+    </>
+  );
+}
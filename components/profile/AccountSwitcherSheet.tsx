@@ -0,0 +1,231 @@
+// UI Spec: AccountSwitcherSheet
+// - Bottom modal listing every signed-in account (avatar, name, @username, site)
+// - The active account has a check; tapping another switches to it
+// - An account whose key Discourse rejected reads "Signed out"; tapping it signs in there again
+// - "Add account" asks for a site URL (prefilled with the current site) and opens sign-in there
+// - Uses React Native Modal like FlagSheet
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  Pressable,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { router } from 'expo-router';
+import { Check, Plus, UserCircle, X } from 'phosphor-react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '@/components/theme';
+import {
+  Account,
+  getActiveSiteUrl,
+  getSiteHost,
+  normalizeSiteUrl,
+  useAccounts,
+} from '@/shared/accounts';
+
+interface AccountSwitcherSheetProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export function AccountSwitcherSheet({ visible, onClose }: AccountSwitcherSheetProps) {
+  const { isDark } = useTheme();
+  const insets = useSafeAreaInsets();
+  const { accounts, activeAccountId, switchAccount } = useAccounts();
+  const [isAdding, setIsAdding] = useState(false);
+  const [siteInput, setSiteInput] = useState('');
+
+  const mutedColor = isDark ? '#A1A1AA' : '#6B6B72';
+  const accentColor = isDark ? '#26A69A' : '#009688';
+  const textColor = isDark ? '#F5F5F7' : '#111111';
+
+  // Start fresh each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setIsAdding(false);
+      setSiteInput(getSiteHost(getActiveSiteUrl()));
+    }
+  }, [visible]);
+
+  const sortedAccounts = [...accounts].sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+
+  const handleSwitch = (account: Account) => {
+    Haptics.selectionAsync().catch(() => {});
+    onClose();
+    const switched = account.id !== activeAccountId ? switchAccount(account.id) : Promise.resolve();
+    switched
+      .then(() => {
+        if (account.signedOut) {
+          router.push(`/(auth)/auth-modal?site=${encodeURIComponent(account.siteUrl)}` as any);
+        }
+      })
+      .catch(() => {
+        Alert.alert('Error', 'Failed to switch accounts. Please try again.');
+      });
+  };
+
+  const handleAddAccount = () => {
+    const site = normalizeSiteUrl(siteInput);
+    if (!site) {
+      Alert.alert('Invalid site', 'Enter the address of a Discourse site, like forum.example.com.');
+      return;
+    }
+    onClose();
+    router.push(`/(auth)/auth-modal?site=${encodeURIComponent(site)}` as any);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        className="flex-1"
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <Pressable
+          className="flex-1 justify-end"
+          onPress={onClose}
+          style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}
+        >
+          <Pressable onPress={(e) => e.stopPropagation()}>
+            <View
+              className="bg-fomio-bg dark:bg-fomio-bg-dark rounded-t-3xl"
+              style={{ paddingBottom: insets.bottom + 8, paddingTop: 12 }}
+            >
+              {/* Header */}
+              <View className="flex-row items-center justify-between px-4 pb-3 border-b border-fomio-border-soft dark:border-fomio-border-soft-dark">
+                <Text className="flex-1 text-title font-semibold text-fomio-foreground dark:text-fomio-foreground-dark">
+                  Accounts
+                </Text>
+                <TouchableOpacity
+                  onPress={onClose}
+                  className="p-2"
+                  accessible
+                  accessibilityRole="button"
+                  accessibilityLabel="Close accounts"
+                >
+                  <X size={20} color={mutedColor} weight="regular" />
+                </TouchableOpacity>
+              </View>
+
+              {sortedAccounts.map((account) => {
+                const isActive = account.id === activeAccountId;
+                const host = getSiteHost(account.siteUrl);
+                return (
+                  <TouchableOpacity
+                    key={account.id}
+                    className="flex-row items-center px-4 py-3 active:opacity-70"
+                    onPress={() => handleSwitch(account)}
+                    accessible
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected: isActive }}
+                    accessibilityLabel={`${account.name || account.username}, @${account.username} on ${host}${
+                      account.signedOut ? ', signed out' : ''
+                    }`}
+                  >
+                    {account.avatarUrl ? (
+                      <Image
+                        source={{ uri: account.avatarUrl }}
+                        style={{ width: 40, height: 40, borderRadius: 20 }}
+                        contentFit="cover"
+                      />
+                    ) : (
+                      <UserCircle size={40} color={mutedColor} weight="fill" />
+                    )}
+                    <View className="flex-1" style={{ marginLeft: 12 }}>
+                      <Text
+                        className="text-body font-semibold text-fomio-foreground dark:text-fomio-foreground-dark"
+                        style={{ fontSize: 15 }}
+                        numberOfLines={1}
+                      >
+                        {account.name || account.username}
+                      </Text>
+                      <Text
+                        className="text-body text-fomio-muted dark:text-fomio-muted-dark"
+                        style={{ fontSize: 13, marginTop: 2 }}
+                        numberOfLines={1}
+                      >
+                        @{account.username} · {account.siteTitle || host}
+                        {account.signedOut ? ' · Signed out' : ''}
+                      </Text>
+                    </View>
+                    {isActive && (
+                      <Check size={18} color={accentColor} weight="bold" style={{ marginLeft: 8 }} />
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+
+              {isAdding ? (
+                <View className="px-4 pt-2">
+                  <TextInput
+                    value={siteInput}
+                    onChangeText={setSiteInput}
+                    placeholder="forum.example.com"
+                    placeholderTextColor={mutedColor}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    keyboardType="url"
+                    autoFocus
+                    returnKeyType="go"
+                    onSubmitEditing={handleAddAccount}
+                    className="px-3 py-2 rounded-xl border border-fomio-border-soft dark:border-fomio-border-soft-dark"
+                    style={{ color: textColor, fontSize: 15 }}
+                    accessibilityLabel="Site address"
+                  />
+                  <TouchableOpacity
+                    onPress={handleAddAccount}
+                    className="mt-3 py-3 rounded-xl items-center"
+                    style={{ backgroundColor: accentColor }}
+                    accessible
+                    accessibilityRole="button"
+                    accessibilityLabel="Sign in to this site"
+                  >
+                    <Text style={{ color: '#FFFFFF', fontSize: 15, fontWeight: '600' }}>
+                      Sign in
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <TouchableOpacity
+                  className="flex-row items-center px-4 py-3 active:opacity-70"
+                  onPress={() => {
+                    Haptics.selectionAsync().catch(() => {});
+                    setIsAdding(true);
+                  }}
+                  accessible
+                  accessibilityRole="button"
+                  accessibilityLabel="Add account"
+                >
+                  <View
+                    className="items-center justify-center"
+                    style={{ width: 40, height: 40 }}
+                  >
+                    <Plus size={22} color={accentColor} weight="bold" />
+                  </View>
+                  <Text
+                    className="text-body font-semibold"
+                    style={{ fontSize: 15, marginLeft: 12, color: accentColor }}
+                  >
+                    Add account
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
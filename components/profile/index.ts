@@ -18,3 +18,5 @@ export { ProfileTabView } from './ProfileTabView';
 export type { ProfileTabViewProps, TabItem } from './ProfileTabView';
 export { ProfileMessageCard } from './ProfileMessageCard';
 export type { ProfileMessageCardProps } from './ProfileMessageCard';
+export { AccountSwitcherButton } from './AccountSwitcherButton';
+export { AccountSwitcherSheet } from './AccountSwitcherSheet';
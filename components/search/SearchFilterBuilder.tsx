@@ -0,0 +1,349 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView } from 'react-native';
+import { X } from 'phosphor-react-native';
+import { useTheme } from '@/components/theme';
+import { getTokens } from '@/shared/design/tokens';
+import { Input } from '@/components/ui/input';
+import {
+  SEARCH_DATE_PRESETS,
+  SEARCH_IN_OPTIONS,
+  SEARCH_MIN_POSTS_OPTIONS,
+  SEARCH_ORDER_OPTIONS,
+  SEARCH_STATUS_OPTIONS,
+  SearchFilterChip,
+  SearchQueryFilters,
+  getSearchDateDaysAgo,
+  isValidSearchDate,
+} from '@/shared/search';
+
+// UI Spec: SearchFilterBuilder — Chip-based advanced search filters that map to Discourse search syntax:
+// in: (bookmarks, likes, unseen), status, sort order, posted date range, minimum posts, Teret, author and tags.
+// SearchFilterChips — The filters in use as removable chips.
+interface SearchFilterBuilderProps {
+  filters: SearchQueryFilters;
+  onChange: (filters: SearchQueryFilters) => void;
+  terets: { id: number; name: string; slug: string }[];
+  // in:bookmarks and the like only mean something when signed in
+  canFilterOwnActivity: boolean;
+}
+
+const PANEL_MAX_HEIGHT = 360;
+
+function FilterChip({
+  label,
+  selected,
+  onPress,
+}: {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}) {
+  const { isDark } = useTheme();
+  const tokens = useMemo(() => getTokens(isDark ? 'dark' : 'light'), [isDark]);
+
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      activeOpacity={0.8}
+      style={{
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: tokens.radii.pill,
+        backgroundColor: selected ? tokens.colors.accentSoft : tokens.colors.surfaceMuted,
+        borderWidth: 1,
+        borderColor: selected ? tokens.colors.accent : tokens.colors.border,
+      }}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+      accessibilityLabel={label}
+    >
+      <Text
+        style={{
+          color: selected ? tokens.colors.text : tokens.colors.muted,
+          fontSize: 12,
+          fontWeight: selected ? '600' : '500',
+        }}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+function FilterSection({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  const { isDark } = useTheme();
+  const tokens = useMemo(() => getTokens(isDark ? 'dark' : 'light'), [isDark]);
+
+  return (
+    <View style={{ marginBottom: 12 }}>
+      <Text style={{ color: tokens.colors.muted, fontSize: 12, fontWeight: '600', marginBottom: 6 }}>
+        {title}
+      </Text>
+      {children}
+    </View>
+  );
+}
+
+function ChipRow({ children }: { children: React.ReactNode }) {
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      keyboardShouldPersistTaps="handled"
+      contentContainerStyle={{ gap: 8 }}
+    >
+      {children}
+    </ScrollView>
+  );
+}
+
+// A YYYY-MM-DD field that only reports complete, valid dates (or clearing)
+function DateField({
+  value,
+  placeholder,
+  accessibilityLabel,
+  onChange,
+}: {
+  value?: string;
+  placeholder: string;
+  accessibilityLabel: string;
+  onChange: (value: string | undefined) => void;
+}) {
+  const [text, setText] = useState(value ?? '');
+
+  useEffect(() => {
+    setText(value ?? '');
+  }, [value]);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    const trimmed = next.trim();
+    if (!trimmed) onChange(undefined);
+    else if (isValidSearchDate(trimmed)) onChange(trimmed);
+  };
+
+  return (
+    <View style={{ flex: 1 }}>
+      <Input
+        value={text}
+        onChangeText={handleChange}
+        placeholder={placeholder}
+        keyboardType="numbers-and-punctuation"
+        autoCapitalize="none"
+        accessibilityLabel={accessibilityLabel}
+      />
+    </View>
+  );
+}
+
+export function SearchFilterBuilder({ filters, onChange, terets, canFilterOwnActivity }: SearchFilterBuilderProps) {
+  const [authorText, setAuthorText] = useState(filters.author ?? '');
+  const [tagText, setTagText] = useState('');
+
+  useEffect(() => {
+    setAuthorText(filters.author ?? '');
+  }, [filters.author]);
+
+  const update = (change: Partial<SearchQueryFilters>) => onChange({ ...filters, ...change });
+
+  const toggleIn = (value: SearchQueryFilters['in'][number]) => {
+    update({
+      in: filters.in.includes(value) ? filters.in.filter((item) => item !== value) : [...filters.in, value],
+    });
+  };
+
+  const addTags = () => {
+    const added = tagText
+      .split(',')
+      .map((tag) => tag.trim().replace(/^#/, ''))
+      .filter((tag) => tag && !filters.tags.includes(tag));
+    setTagText('');
+    if (added.length > 0) update({ tags: [...filters.tags, ...added] });
+  };
+
+  const activePreset = SEARCH_DATE_PRESETS.find(
+    (preset) => !filters.before && filters.after === getSearchDateDaysAgo(preset.days)
+  );
+
+  return (
+    <ScrollView style={{ maxHeight: PANEL_MAX_HEIGHT }} keyboardShouldPersistTaps="handled">
+      <View style={{ paddingHorizontal: 12, paddingBottom: 8 }}>
+        {canFilterOwnActivity && (
+          <FilterSection title="Show only">
+            <ChipRow>
+              {SEARCH_IN_OPTIONS.map((option) => (
+                <FilterChip
+                  key={option.value}
+                  label={option.label}
+                  selected={filters.in.includes(option.value)}
+                  onPress={() => toggleIn(option.value)}
+                />
+              ))}
+            </ChipRow>
+          </FilterSection>
+        )}
+
+        <FilterSection title="Sort by">
+          <ChipRow>
+            {SEARCH_ORDER_OPTIONS.map((option) => (
+              <FilterChip
+                key={option.label}
+                label={option.label}
+                selected={filters.order === option.value}
+                onPress={() => update({ order: option.value })}
+              />
+            ))}
+          </ChipRow>
+        </FilterSection>
+
+        <FilterSection title="Status">
+          <ChipRow>
+            {SEARCH_STATUS_OPTIONS.map((option) => (
+              <FilterChip
+                key={option.value}
+                label={option.label}
+                selected={filters.status === option.value}
+                onPress={() => update({ status: filters.status === option.value ? undefined : option.value })}
+              />
+            ))}
+          </ChipRow>
+        </FilterSection>
+
+        <FilterSection title="Posted">
+          <ChipRow>
+            <FilterChip
+              label="Any time"
+              selected={!filters.after && !filters.before}
+              onPress={() => update({ after: undefined, before: undefined })}
+            />
+            {SEARCH_DATE_PRESETS.map((preset) => (
+              <FilterChip
+                key={preset.key}
+                label={preset.label}
+                selected={activePreset?.key === preset.key}
+                onPress={() => update({ after: getSearchDateDaysAgo(preset.days), before: undefined })}
+              />
+            ))}
+          </ChipRow>
+          <View style={{ flexDirection: 'row', gap: 8, marginTop: 8 }}>
+            <DateField
+              value={filters.after}
+              placeholder="After YYYY-MM-DD"
+              accessibilityLabel="Posted after date"
+              onChange={(after) => update({ after })}
+            />
+            <DateField
+              value={filters.before}
+              placeholder="Before YYYY-MM-DD"
+              accessibilityLabel="Posted before date"
+              onChange={(before) => update({ before })}
+            />
+          </View>
+        </FilterSection>
+
+        <FilterSection title="Posts in the Byte">
+          <ChipRow>
+            <FilterChip label="Any" selected={!filters.minPosts} onPress={() => update({ minPosts: undefined })} />
+            {SEARCH_MIN_POSTS_OPTIONS.map((count) => (
+              <FilterChip
+                key={count}
+                label={`${count}+`}
+                selected={filters.minPosts === count}
+                onPress={() => update({ minPosts: count })}
+              />
+            ))}
+          </ChipRow>
+        </FilterSection>
+
+        {terets.length > 0 && (
+          <FilterSection title="Teret">
+            <ChipRow>
+              {terets.map((teret) => (
+                <FilterChip
+                  key={teret.id}
+                  label={teret.name}
+                  selected={filters.category === teret.slug}
+                  onPress={() => update({ category: filters.category === teret.slug ? undefined : teret.slug })}
+                />
+              ))}
+            </ChipRow>
+          </FilterSection>
+        )}
+
+        <FilterSection title="Author">
+          <Input
+            value={authorText}
+            onChangeText={setAuthorText}
+            onBlur={() => update({ author: authorText.trim().replace(/^@/, '') || undefined })}
+            onSubmitEditing={() => update({ author: authorText.trim().replace(/^@/, '') || undefined })}
+            placeholder="Username"
+            autoCapitalize="none"
+            returnKeyType="done"
+            accessibilityLabel="Author filter"
+          />
+        </FilterSection>
+
+        <FilterSection title="Tags">
+          <Input
+            value={tagText}
+            onChangeText={setTagText}
+            onSubmitEditing={addTags}
+            onBlur={addTags}
+            placeholder="Add tags, separated by commas"
+            autoCapitalize="none"
+            returnKeyType="done"
+            accessibilityLabel="Tags filter"
+          />
+        </FilterSection>
+      </View>
+    </ScrollView>
+  );
+}
+
+export function SearchFilterChips({
+  chips,
+  onRemove,
+}: {
+  chips: SearchFilterChip[];
+  onRemove: (chipId: string) => void;
+}) {
+  const { isDark } = useTheme();
+  const tokens = useMemo(() => getTokens(isDark ? 'dark' : 'light'), [isDark]);
+
+  if (chips.length === 0) return null;
+
+  return (
+    <ChipRow>
+      {chips.map((chip) => (
+        <TouchableOpacity
+          key={chip.id}
+          onPress={() => onRemove(chip.id)}
+          activeOpacity={0.8}
+          style={{
+            flexDirection: 'row',
+            alignItems: 'center',
+            gap: 4,
+            paddingLeft: 10,
+            paddingRight: 8,
+            paddingVertical: 5,
+            borderRadius: tokens.radii.pill,
+            backgroundColor: tokens.colors.accentSoft,
+            borderWidth: 1,
+            borderColor: tokens.colors.accent,
+          }}
+          accessibilityRole="button"
+          accessibilityLabel={`Remove filter ${chip.label}`}
+        >
+          <Text style={{ color: tokens.colors.text, fontSize: 12, fontWeight: '600' }}>{chip.label}</Text>
+          <X size={12} color={tokens.colors.muted} weight="bold" />
+        </TouchableOpacity>
+      ))}
+    </ChipRow>
+  );
+}
@@ -1,11 +1,13 @@
 import React, { useState, useMemo } from 'react';
-import { View } from 'react-native';
+import { View, Keyboard } from 'react-native';
 import { MagnifyingGlass } from 'phosphor-react-native';
 import { Input } from '@/components/ui/input';
 import { useTheme } from '@/components/theme';
 import { getThemeColors } from '@/shared/theme-constants';
 import { getTokens } from '@/shared/design/tokens';
 import Animated, { useSharedValue, useAnimatedStyle, withSpring, interpolateColor } from 'react-native-reanimated';
+import type { SearchSuggestion, SearchSuggestionSection } from '@/shared/search';
+import { SearchSuggestions } from './SearchSuggestions';
 
 interface SearchInputProps {
   value: string;
@@ -13,6 +15,13 @@ interface SearchInputProps {
   onSubmitEditing?: () => void;
   placeholder?: string;
   accessibilityLabel?: string;
+  // Shown under the input while it has focus (see useSearchSuggestions)
+  suggestions?: SearchSuggestionSection[];
+  isLoadingSuggestions?: boolean;
+  onSelectSuggestion?: (suggestion: SearchSuggestion) => void;
+  onRemoveHistory?: (query: string) => void;
+  onTogglePinHistory?: (query: string) => void;
+  onClearHistory?: () => void;
 }
 
 /**
@@ -25,6 +34,7 @@ interface SearchInputProps {
  * - Search icon on the left with color transition on focus
  * - Subtle scale animation on focus
  * - Proper theme-aware background and text colors
+ * - Optional suggestions dropdown while focused: earlier searches (pin/remove), Bytes, people, Terets, tags
  */
 export function SearchInput({
   value,
@@ -32,6 +42,12 @@ export function SearchInput({
   onSubmitEditing,
   placeholder = 'Search topics, categories, or users...',
   accessibilityLabel = 'Search input',
+  suggestions = [],
+  isLoadingSuggestions = false,
+  onSelectSuggestion,
+  onRemoveHistory,
+  onTogglePinHistory,
+  onClearHistory,
 }: SearchInputProps) {
   const { themeMode, isAmoled, isDark } = useTheme();
   const colors = getThemeColors(themeMode, isAmoled);
@@ -60,47 +76,71 @@ export function SearchInput({
   // Icon color transitions from secondary to accent on focus
   const iconColor = isFocused ? colors.accent : colors.secondary;
 
+  const showSuggestions =
+    isFocused && !!onSelectSuggestion && (suggestions.length > 0 || (isLoadingSuggestions && !!value.trim()));
+
+  const handleSelectSuggestion = (suggestion: SearchSuggestion) => {
+    Keyboard.dismiss();
+    onSelectSuggestion?.(suggestion);
+  };
+
   return (
-    <Animated.View 
-      className="flex-row items-center mx-4 my-4 px-4 py-3 rounded-xl"
-      style={[
-        {
-          backgroundColor: tokens.colors.surfaceFrost,
-          borderWidth: 1,
-          borderColor: isFocused ? colors.accent : tokens.colors.border,
-          borderRadius: tokens.radii.lg,
-        },
-        tokens.shadows.soft,
-        containerAnimatedStyle,
-      ]}
-    >
-      <MagnifyingGlass 
-        size={20} 
-        color={iconColor} 
-        weight={isFocused ? 'bold' : 'regular'} 
-      />
-      <Input
-        style={{ 
-          flex: 1, 
-          marginLeft: 12,
-          backgroundColor: 'transparent',
-          borderWidth: 0,
-          paddingHorizontal: 0,
-          paddingVertical: 0,
-        }}
-        inputStyle={{ 
-          fontSize: 16, 
-          color: colors.foreground 
-        }}
-        placeholder={placeholder}
-        value={value}
-        onChangeText={onChangeText}
-        accessibilityLabel={accessibilityLabel}
-        returnKeyType="search"
-        onSubmitEditing={onSubmitEditing}
-        onFocus={handleFocus}
-        onBlur={handleBlur}
-      />
-    </Animated.View>
+    <View style={{ zIndex: 20 }}>
+      <Animated.View 
+        className="flex-row items-center mx-4 my-4 px-4 py-3 rounded-xl"
+        style={[
+          {
+            backgroundColor: tokens.colors.surfaceFrost,
+            borderWidth: 1,
+            borderColor: isFocused ? colors.accent : tokens.colors.border,
+            borderRadius: tokens.radii.lg,
+          },
+          tokens.shadows.soft,
+          containerAnimatedStyle,
+        ]}
+      >
+        <MagnifyingGlass 
+          size={20} 
+          color={iconColor} 
+          weight={isFocused ? 'bold' : 'regular'} 
+        />
+        <Input
+          style={{ 
+            flex: 1, 
+            marginLeft: 12,
+            backgroundColor: 'transparent',
+            borderWidth: 0,
+            paddingHorizontal: 0,
+            paddingVertical: 0,
+          }}
+          inputStyle={{ 
+            fontSize: 16, 
+            color: colors.foreground 
+          }}
+          placeholder={placeholder}
+          value={value}
+          onChangeText={onChangeText}
+          accessibilityLabel={accessibilityLabel}
+          returnKeyType="search"
+          onSubmitEditing={onSubmitEditing}
+          onFocus={handleFocus}
+          onBlur={handleBlur}
+        />
+      </Animated.View>
+
+      {showSuggestions && (
+        <View style={{ position: 'absolute', top: '100%', left: 16, right: 16, marginTop: -8 }}>
+          <SearchSuggestions
+            query={value}
+            sections={suggestions}
+            isLoading={isLoadingSuggestions}
+            onSelect={handleSelectSuggestion}
+            onRemoveHistory={onRemoveHistory}
+            onTogglePinHistory={onTogglePinHistory}
+            onClearHistory={onClearHistory}
+          />
+        </View>
+      )}
+    </View>
   );
 }
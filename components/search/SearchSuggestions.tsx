@@ -0,0 +1,181 @@
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, Image, ActivityIndicator } from 'react-native';
+import { Article, ClockCounterClockwise, Hash, PushPin, PushPinSlash, UserCircle, X } from 'phosphor-react-native';
+import { useTheme } from '@/components/theme';
+import { getThemeColors } from '@/shared/theme-constants';
+import { getTokens } from '@/shared/design/tokens';
+import type { SearchSuggestion, SearchSuggestionSection } from '@/shared/search';
+
+// UI Spec: SearchSuggestions — Dropdown under the search box. Typed sections (earlier searches, Bytes,
+// people, Terets, tags); earlier searches can be pinned or removed, and the recent list cleared.
+interface SearchSuggestionsProps {
+  // What's typed; the recent list (empty box) can be cleared
+  query: string;
+  sections: SearchSuggestionSection[];
+  isLoading?: boolean;
+  onSelect: (suggestion: SearchSuggestion) => void;
+  onRemoveHistory?: (query: string) => void;
+  onTogglePinHistory?: (query: string) => void;
+  onClearHistory?: () => void;
+}
+
+const MAX_HEIGHT = 360;
+
+export function SearchSuggestions({
+  query,
+  sections,
+  isLoading = false,
+  onSelect,
+  onRemoveHistory,
+  onTogglePinHistory,
+  onClearHistory,
+}: SearchSuggestionsProps) {
+  const { themeMode, isAmoled, isDark } = useTheme();
+  const colors = getThemeColors(themeMode, isAmoled);
+  const tokens = useMemo(() => getTokens(isDark ? 'dark' : 'light'), [isDark]);
+
+  const renderLeading = (suggestion: SearchSuggestion) => {
+    switch (suggestion.type) {
+      case 'history':
+        return suggestion.pinned ? (
+          <PushPin size={16} color={colors.accent} weight="fill" />
+        ) : (
+          <ClockCounterClockwise size={16} color={colors.secondary} />
+        );
+      case 'byte':
+        return <Article size={16} color={colors.secondary} />;
+      case 'user':
+        return suggestion.avatar ? (
+          <Image source={{ uri: suggestion.avatar }} style={{ width: 20, height: 20, borderRadius: 10 }} />
+        ) : (
+          <UserCircle size={18} color={colors.secondary} />
+        );
+      case 'teret':
+        return (
+          <View
+            style={{
+              width: 10,
+              height: 10,
+              marginHorizontal: 3,
+              borderRadius: 5,
+              backgroundColor: suggestion.color ? `#${suggestion.color}` : colors.secondary,
+            }}
+          />
+        );
+      case 'tag':
+        return <Hash size={16} color={colors.secondary} />;
+    }
+  };
+
+  const getLabel = (suggestion: SearchSuggestion): { text: string; detail?: string } => {
+    switch (suggestion.type) {
+      case 'history':
+        return { text: suggestion.query };
+      case 'byte':
+        return { text: suggestion.title };
+      case 'user':
+        return { text: suggestion.name || `@${suggestion.username}`, detail: suggestion.name ? `@${suggestion.username}` : undefined };
+      case 'teret':
+        return { text: suggestion.name };
+      case 'tag':
+        return { text: suggestion.name, detail: suggestion.count > 0 ? `${suggestion.count}` : undefined };
+    }
+  };
+
+  const renderRow = (suggestion: SearchSuggestion) => {
+    const { text, detail } = getLabel(suggestion);
+    const history = suggestion.type === 'history' ? suggestion : null;
+
+    return (
+      <View key={suggestion.key} style={{ flexDirection: 'row', alignItems: 'center' }}>
+        <TouchableOpacity
+          onPress={() => onSelect(suggestion)}
+          activeOpacity={0.7}
+          style={{ flex: 1, flexDirection: 'row', alignItems: 'center', gap: 10, paddingVertical: 10, paddingHorizontal: 14 }}
+          accessibilityRole="button"
+          accessibilityLabel={history ? `Search again for ${text}` : text}
+        >
+          <View style={{ width: 20, alignItems: 'center' }}>{renderLeading(suggestion)}</View>
+          <Text style={{ flex: 1, color: colors.foreground, fontSize: 15 }} numberOfLines={1}>
+            {text}
+          </Text>
+          {detail ? <Text style={{ color: colors.secondary, fontSize: 12 }}>{detail}</Text> : null}
+        </TouchableOpacity>
+
+        {history && onTogglePinHistory && (
+          <TouchableOpacity
+            onPress={() => onTogglePinHistory(history.query)}
+            hitSlop={8}
+            style={{ padding: 8 }}
+            accessibilityRole="button"
+            accessibilityLabel={history.pinned ? `Unpin ${history.query}` : `Pin ${history.query}`}
+          >
+            {history.pinned ? (
+              <PushPinSlash size={16} color={colors.secondary} />
+            ) : (
+              <PushPin size={16} color={colors.secondary} />
+            )}
+          </TouchableOpacity>
+        )}
+        {history && onRemoveHistory && (
+          <TouchableOpacity
+            onPress={() => onRemoveHistory(history.query)}
+            hitSlop={8}
+            style={{ padding: 8, marginRight: 6 }}
+            accessibilityRole="button"
+            accessibilityLabel={`Remove ${history.query} from history`}
+          >
+            <X size={16} color={colors.secondary} />
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View
+      style={[
+        {
+          maxHeight: MAX_HEIGHT,
+          backgroundColor: colors.card,
+          borderWidth: 1,
+          borderColor: tokens.colors.border,
+          borderRadius: tokens.radii.lg,
+          overflow: 'hidden',
+        },
+        tokens.shadows.soft,
+      ]}
+    >
+      <ScrollView keyboardShouldPersistTaps="handled" contentContainerStyle={{ paddingVertical: 6 }}>
+        {sections.map((section) => {
+          const canClear =
+            section.type === 'history' &&
+            !query.trim() &&
+            !!onClearHistory &&
+            section.data.some((item) => item.type === 'history' && !item.pinned);
+
+          return (
+            <View key={section.type} accessibilityRole="list">
+              <View style={{ flexDirection: 'row', alignItems: 'center', paddingHorizontal: 14, paddingTop: 8, paddingBottom: 2 }}>
+                <Text style={{ flex: 1, color: tokens.colors.muted, fontSize: 12, fontWeight: '600' }}>
+                  {section.title}
+                </Text>
+                {canClear && (
+                  <TouchableOpacity onPress={onClearHistory} hitSlop={8} accessibilityRole="button" accessibilityLabel="Clear recent searches">
+                    <Text style={{ color: colors.accent, fontSize: 12, fontWeight: '600' }}>Clear</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+              {section.data.map(renderRow)}
+            </View>
+          );
+        })}
+        {isLoading && (
+          <View style={{ paddingVertical: 8 }}>
+            <ActivityIndicator size="small" color={colors.secondary} />
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
@@ -0,0 +1,67 @@
+// UI Spec: TagChips — A Byte's Discourse tags as a wrapping row of pills
+// - "#name" pills in the accent color on a soft accent background
+// - Tapping a pill opens the tag's feed (/tag/{name})
+// - Renders nothing when the Byte has no tags
+// - Used by ByteCard and ByteBlogPageHeader
+
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from '@/components/theme';
+import { getTokens } from '@/shared/design/tokens';
+import { goToTag } from '@/shared/navigation/tag';
+
+interface TagChipsProps {
+  tags: string[] | null | undefined;
+  mode?: 'light' | 'dark' | 'darkAmoled'; // Pass mode from parent when used in portal
+  // Called before navigating, e.g. so a card doesn't also handle the press
+  onTagPress?: (tagName: string) => void;
+  style?: any;
+}
+
+export function TagChips({ tags, mode: modeProp, onTagPress, style }: TagChipsProps) {
+  const themeContext = useTheme();
+  const mode = modeProp || (themeContext.isAmoled ? 'darkAmoled' : themeContext.isDark ? 'dark' : 'light');
+  const tokens = useMemo(() => getTokens(mode), [mode]);
+
+  if (!tags || tags.length === 0) return null;
+
+  return (
+    <View style={[styles.row, style]}>
+      {tags.map((tag) => (
+        <TouchableOpacity
+          key={tag}
+          onPress={() => {
+            onTagPress?.(tag);
+            goToTag(tag);
+          }}
+          hitSlop={4}
+          style={[styles.chip, { backgroundColor: tokens.colors.accentSoft }]}
+          accessible
+          accessibilityRole="link"
+          accessibilityLabel={`Tag ${tag}. Open Bytes tagged ${tag}`}
+        >
+          <Text style={[styles.label, { color: tokens.colors.accent }]} numberOfLines={1}>
+            #{tag}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 999,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,84 @@
+// UI Spec: CategoryNotificationButton
+// - Header action for Hub and Teret screens
+// - Bell icon reflects the current category notification level
+// - Opens CategoryNotificationLevelSheet; level changes apply optimistically
+// - Hidden for signed-out users (levels are per user)
+
+import React, { useState, useCallback } from 'react';
+import { Pressable, Alert } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '@/components/theme';
+import { useAuth } from '@/shared/auth-context';
+import { useHubSubscription } from '@/shared/useHubs';
+import { getCategoryNotificationLevelOption, isSubscribedLevel } from '@/shared/category-notifications';
+import { CategoryNotificationLevel } from '@/shared/discourseApi';
+import { getThemeColors } from '@/shared/theme-constants';
+import {
+  CategoryNotificationLevelIcon,
+  CategoryNotificationLevelSheet,
+} from './CategoryNotificationLevelSheet';
+
+interface CategoryNotificationButtonProps {
+  categoryId: number;
+  categoryName?: string;
+}
+
+export function CategoryNotificationButton({ categoryId, categoryName }: CategoryNotificationButtonProps) {
+  const { themeMode, isDark } = useTheme();
+  const { isAuthenticated } = useAuth();
+  const { getLevel, setLevel, isUpdating } = useHubSubscription();
+  const [isSheetVisible, setIsSheetVisible] = useState(false);
+
+  const level = getLevel(categoryId);
+  const themeColors = getThemeColors(themeMode, isDark);
+  const iconColor = isSubscribedLevel(level) ? themeColors.accent : themeColors.secondary;
+
+  const handleOpen = useCallback(() => {
+    Haptics.selectionAsync().catch(() => {});
+    setIsSheetVisible(true);
+  }, []);
+
+  const handleSelect = useCallback(
+    async (nextLevel: CategoryNotificationLevel) => {
+      if (nextLevel === level) return;
+      const result = await setLevel(categoryId, nextLevel);
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to update notifications');
+      }
+    },
+    [categoryId, level, setLevel]
+  );
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <>
+      <Pressable
+        onPress={handleOpen}
+        className="p-2 rounded-full"
+        style={{ backgroundColor: `${iconColor}20` }}
+        android_ripple={{
+          color: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)',
+          borderless: true,
+          radius: 20,
+        }}
+        accessible
+        accessibilityRole="button"
+        accessibilityLabel={`Notifications: ${getCategoryNotificationLevelOption(level).label}`}
+        accessibilityHint="Choose how you're notified about new Bytes here"
+      >
+        <CategoryNotificationLevelIcon level={level} color={iconColor} />
+      </Pressable>
+      <CategoryNotificationLevelSheet
+        visible={isSheetVisible}
+        onClose={() => setIsSheetVisible(false)}
+        onSelect={handleSelect}
+        level={level}
+        categoryName={categoryName}
+        isUpdating={isUpdating}
+      />
+    </>
+  );
+}
@@ -129,6 +129,7 @@ export function TeretPickerSheet({
       },
       read_restricted: teret.read_restricted,
       permission: teret.permission,
+      tagRules: teret.tagRules,
     };
 
     // Haptic feedback on selection
@@ -5,6 +5,7 @@ import Constants from 'expo-constants';
 import { makeRedirectUri } from 'expo-auth-session';
 import { Platform } from 'react-native';
 import { UserApiKeyManager } from '../shared/userApiKeyManager';
+import { getActiveSiteUrl, normalizeSiteUrl } from '../shared/accounts';
 import { emitAuthEvent } from '../shared/auth-events';
 import { logger } from '../shared/logger';
 import { parseURLParameters } from './auth-utils';
@@ -14,7 +15,6 @@ import { setOnboardingCompleted } from '../shared/onboardingStorage';
 WebBrowser.maybeCompleteAuthSession();
 
 const config = Constants.expoConfig?.extra || {};
-const SITE = config.DISCOURSE_BASE_URL || process.env.EXPO_PUBLIC_DISCOURSE_URL || 'https://meta.fomio.app';
 const PUSH_URL = config.DISCOURSE_PUSH_URL || process.env.EXPO_PUBLIC_DISCOURSE_PUSH_URL;
 
 /**
@@ -81,10 +81,38 @@ async function decryptPayload(encryptedPayload: string, privateKey: string): Pro
   }
 }
 
+/**
+ * Look up the username a freshly issued key belongs to. The key isn't
+ * stored yet, so this can't go through discourseApi.
+ */
+async function fetchUsernameForKey(site: string, key: string, clientId: string): Promise<string | undefined> {
+  try {
+    const response = await fetch(`${site}/session/current.json`, {
+      headers: {
+        'User-Api-Key': key,
+        'User-Api-Client-Id': clientId,
+        'Accept': 'application/json',
+      },
+    });
+    if (!response.ok) {
+      logger.warn('Failed to look up username for new key', { status: response.status });
+      return undefined;
+    }
+    const data = await response.json();
+    return data?.current_user?.username || undefined;
+  } catch (error) {
+    logger.warn('Failed to look up username for new key (non-critical)', error);
+    return undefined;
+  }
+}
+
 /**
  * Sign in using Discourse delegated authentication
  * Follows Discourse User API Keys specification
  * 
+ * Signing in while another account is active adds an account; pass
+ * `siteUrl` to sign in to a different community.
+ * 
  * Uses WebBrowser.openAuthSessionAsync for BOTH platforms:
  * - iOS: ASWebAuthenticationSession
  * - Android: Chrome Custom Tabs
@@ -94,9 +122,10 @@ async function decryptPayload(encryptedPayload: string, privateKey: string): Pro
  * - Password manager / passkeys compatibility
  * - Consistent experience across platforms
  */
-export async function signIn(): Promise<boolean> {
+export async function signIn(siteUrl?: string): Promise<boolean> {
   try {
-    logger.info('Starting Discourse delegated authentication...', { platform: Platform.OS });
+    const site = normalizeSiteUrl(siteUrl) || getActiveSiteUrl();
+    logger.info('Starting Discourse delegated authentication...', { platform: Platform.OS, site });
     
     // ALWAYS generate fresh RSA keypair for each auth attempt
     // This prevents key mismatch issues from stale/corrupted stored keys
@@ -108,8 +137,9 @@ export async function signIn(): Promise<boolean> {
     await UserApiKeyManager.storePrivateKey(privateKey);
     await UserApiKeyManager.storePublicKey(publicKey);
     
-    // Generate or get client ID
-    const clientId = await UserApiKeyManager.getOrGenerateClientId();
+    // Fresh client ID per sign-in: Discourse replaces keys that share one
+    const clientId = await UserApiKeyManager.generateClientId();
+    await UserApiKeyManager.storePendingSite(site);
     
     // Create redirect URI
     const redirectUri = getRedirectUri();
@@ -120,7 +150,8 @@ export async function signIn(): Promise<boolean> {
     });
     
     // Build authorization URL
-    const scopes = 'read,write,notifications,session_info,one_time_password';
+    // Discourse only sends notifications to push_url for keys with the push scope
+    const scopes = `read,write,notifications,session_info,one_time_password${PUSH_URL ? ',push' : ''}`;
     
     // ALWAYS generate fresh nonce for each auth attempt
     const nonce = await UserApiKeyManager.generateNonce();
@@ -139,7 +170,7 @@ export async function signIn(): Promise<boolean> {
       params.append('push_url', PUSH_URL);
     }
     
-    const authUrl = `${SITE}/user-api-key/new?${params.toString()}`;
+    const authUrl = `${site}/user-api-key/new?${params.toString()}`;
     
     logger.info('Opening authorization URL via system browser...', {
       platform: Platform.OS,
@@ -214,24 +245,14 @@ export async function signIn(): Promise<boolean> {
     // Clear nonce after successful verification (prevents reuse)
     await UserApiKeyManager.clearNonce();
     
-    // Get username from API after storing the key temporarily
-    let username: string | undefined;
-    try {
-      // Temporarily store key so API call works
-      await SecureStore.setItemAsync("fomio_user_api_key", key);
-      
-      const discourseApi = require('../shared/discourseApi').discourseApi;
-      const userResponse = await discourseApi.getCurrentUser();
-      if (userResponse.success && userResponse.data?.username) {
-        username = userResponse.data.username;
-        logger.info('Username retrieved during sign in', { username });
-      }
-    } catch (error) {
-      logger.warn('Failed to get username during sign in (non-critical)', error);
+    // Get username for the Api-Username header and the account registry
+    const username = await fetchUsernameForKey(site, key, clientId);
+    if (username) {
+      logger.info('Username retrieved during sign in', { username });
     }
 
-    // Store complete auth using unified storage
-    await UserApiKeyManager.storeCompleteAuth(key, username, clientId, one_time_password);
+    // Store complete auth using unified storage (adds the account and makes it active)
+    await UserApiKeyManager.storeCompleteAuth(key, username, clientId, one_time_password, site);
     
     logger.info('API key stored successfully');
     
@@ -239,7 +260,7 @@ export async function signIn(): Promise<boolean> {
     if (one_time_password) {
       try {
         logger.info('Warming browser cookies with OTP...');
-        const otpUrl = `${SITE}/session/otp/${one_time_password}`;
+        const otpUrl = `${site}/session/otp/${one_time_password}`;
         await WebBrowser.openBrowserAsync(otpUrl);
         logger.info('OTP cookie warming completed');
       } catch (otpError) {
@@ -379,31 +400,24 @@ export async function processAuthPayload(encryptedPayload: string): Promise<{
       await UserApiKeyManager.storeOneTimePassword(decrypted.one_time_password);
     }
     
-    // Temporarily store key so API call works
-    await SecureStore.setItemAsync("fomio_user_api_key", decrypted.key);
+    // The key belongs to the site the sign-in was started for
+    const site = normalizeSiteUrl(await UserApiKeyManager.getPendingSite()) || getActiveSiteUrl();
+    const clientId = await UserApiKeyManager.getOrGenerateClientId();
     
     // Fetch username for API operations that require it
-    let username: string | undefined;
-    try {
-      // Dynamic import to avoid circular dependency
-      const { discourseApi } = await import('../shared/discourseApi');
-      const userResponse = await discourseApi.getCurrentUser();
-      if (userResponse.success && userResponse.data?.username) {
-        username = userResponse.data.username;
-        logger.info('processAuthPayload: Username retrieved', { username });
-      }
-    } catch (error) {
-      logger.warn('processAuthPayload: Failed to fetch username (non-critical)', error);
-      // Don't fail auth if username fetch fails - we can get it later
+    // Don't fail auth if username fetch fails - we can get it later
+    const username = await fetchUsernameForKey(site, decrypted.key, clientId);
+    if (username) {
+      logger.info('processAuthPayload: Username retrieved', { username });
     }
     
-    // Store complete auth using unified storage
-    const clientId = await UserApiKeyManager.getOrGenerateClientId();
+    // Store complete auth using unified storage (adds the account and makes it active)
     await UserApiKeyManager.storeCompleteAuth(
       decrypted.key,
       username,
       clientId,
-      decrypted.one_time_password
+      decrypted.one_time_password,
+      site
     );
     
     // CRITICAL: Add a small delay to ensure SecureStore has flushed on Android
@@ -444,20 +458,21 @@ export async function processAuthPayload(encryptedPayload: string): Promise<{
 }
 
 /**
- * Sign out and revoke API key
- * Clears all authentication state from storage
+ * Sign out of the active account and revoke its API key
+ * Other accounts stay signed in; the most recently used one becomes active
  */
 export async function signOut(): Promise<void> {
   try {
     logger.info('Signing out...');
     
     // Get API key for server revocation
+    const site = getActiveSiteUrl();
     const credentials = await UserApiKeyManager.getAuthCredentials();
     
     if (credentials?.key) {
       try {
         // Revoke API key on server (best effort)
-        const response = await fetch(`${SITE}/user-api-key/revoke`, {
+        const response = await fetch(`${site}/user-api-key/revoke`, {
           method: 'POST',
           headers: {
             'User-Api-Key': credentials.key,
@@ -510,9 +525,9 @@ export async function signOut(): Promise<void> {
  * Check API version from Discourse instance
  * HEAD request to /user-api-key/new returns Auth-Api-Version header
  */
-export async function checkApiVersion(): Promise<number | null> {
+export async function checkApiVersion(siteUrl: string = getActiveSiteUrl()): Promise<number | null> {
   try {
-    const response = await fetch(`${SITE}/user-api-key/new`, {
+    const response = await fetch(`${siteUrl}/user-api-key/new`, {
       method: 'HEAD',
     });
     
@@ -8,6 +8,7 @@
  * - Safely parses query params (handles numbers, booleans, arrays)
  * - Uses replace() for cold start, push() for warm start
  * - Carves out auth callbacks before normal routing
+ * - Opens web links from any signed-in site in the account for that site
  */
 
 import * as Linking from 'expo-linking';
@@ -15,6 +16,12 @@ import { router } from 'expo-router';
 import { FOMIO_SCHEME, DEEP_LINK_ROUTES, AUTH_PATHS, requiresAuth } from './deep-linking';
 import { storePendingIntent } from './pending-intent';
 import { logger } from '@/shared/logger';
+import {
+  findAccountForHost,
+  getActiveAccountId,
+  getKnownSiteHosts,
+  useAccountStore,
+} from '@/shared/accounts';
 
 /**
  * Result of resolving a deep link URL.
@@ -28,6 +35,8 @@ export interface DeepLinkResult {
   requiresAuth: boolean;
   /** The original effective path (for intent replay) */
   effectivePath: string;
+  /** Host of the site an https:// link came from */
+  siteHost?: string;
 }
 
 /**
@@ -110,18 +119,30 @@ function isAuthPath(effectivePath: string): boolean {
 }
 
 /**
- * Convert https://meta.fomio.app URLs to fomio:// URLs
+ * Check if a parsed URL is a web link to the default site or a site with
+ * a signed-in account.
+ */
+function isKnownSiteUrl(parsed: Linking.ParsedURL): boolean {
+  return (
+    parsed.scheme === 'https' &&
+    !!parsed.hostname &&
+    getKnownSiteHosts().includes(parsed.hostname.toLowerCase())
+  );
+}
+
+/**
+ * Convert https:// URLs from known sites to fomio:// URLs
  * Maps Discourse URL patterns to Fomio URL patterns
  * 
- * @param url - The HTTPS URL from meta.fomio.app
+ * @param url - The HTTPS URL from a known site
  * @returns The converted fomio:// URL, or null if not a recognized pattern
  */
 function convertHttpsUrlToFomioUrl(url: string): string | null {
   try {
     const parsed = Linking.parse(url);
     
-    // Only handle https://meta.fomio.app URLs
-    if (parsed.scheme !== 'https' || parsed.hostname !== 'meta.fomio.app') {
+    // Only handle URLs from known sites
+    if (!isKnownSiteUrl(parsed)) {
       return null;
     }
 
@@ -183,6 +204,12 @@ function convertHttpsUrlToFomioUrl(url: string): string | null {
       return `fomio://teret/${categorySlugMatch[1]}`;
     }
     
+    // Tag: /tag/{name}
+    const tagMatch = path.match(/^\/tag\/([^/?]+)(?:\/|\?|$)/);
+    if (tagMatch) {
+      return `fomio://tag/${tagMatch[1]}`;
+    }
+
     // Search: /search
     if (path === '/search' || path.startsWith('/search?')) {
       const query = parsed.queryParams?.q;
@@ -202,7 +229,7 @@ function convertHttpsUrlToFomioUrl(url: string): string | null {
 /**
  * Resolve a deep link URL to an Expo Router path.
  * 
- * @param url - The full deep link URL (can be fomio:// or https://meta.fomio.app)
+ * @param url - The full deep link URL (fomio:// or https:// on a known site)
  * @returns DeepLinkResult with path and isAuth flag, or null if not a recognized URL
  */
 export function resolveDeepLink(url: string): DeepLinkResult | null {
@@ -215,8 +242,8 @@ export function resolveDeepLink(url: string): DeepLinkResult | null {
     return null;
   }
 
-  // Convert https://meta.fomio.app URLs to fomio:// URLs
-  if (parsed.scheme === 'https' && parsed.hostname === 'meta.fomio.app') {
+  // Convert https:// URLs from known sites to fomio:// URLs
+  if (isKnownSiteUrl(parsed)) {
     const convertedUrl = convertHttpsUrlToFomioUrl(url);
     if (convertedUrl) {
       logger.info('Converted HTTPS URL to Fomio URL', { 
@@ -224,8 +251,9 @@ export function resolveDeepLink(url: string): DeepLinkResult | null {
         converted: convertedUrl,
         parsedPath: parsed.path,
       });
-      // Recursively process the converted URL
-      return resolveDeepLink(convertedUrl);
+      // Recursively process the converted URL, remembering which site it came from
+      const result = resolveDeepLink(convertedUrl);
+      return result ? { ...result, siteHost: parsed.hostname!.toLowerCase() } : null;
     }
     // If conversion failed, it's not a recognized URL pattern
     logger.warn('HTTPS URL could not be converted to Fomio URL', { 
@@ -307,11 +335,69 @@ export function resolveDeepLink(url: string): DeepLinkResult | null {
   };
 }
 
+/**
+ * Navigate to a resolved deep link, gating auth-required routes.
+ */
+function navigateToDeepLink(
+  url: string,
+  result: DeepLinkResult,
+  isColdStart: boolean,
+  isAuthenticated: boolean
+): void {
+  // Auth carve-out: never store auth paths as pending intent, just navigate
+  if (result.isAuth) {
+    if (isColdStart) {
+      router.replace(result.path as any);
+    } else {
+      router.push(result.path as any);
+    }
+    return;
+  }
+
+  // Gate: if route requires auth and user is not authenticated
+  if (result.requiresAuth && !isAuthenticated) {
+    logger.info('Deep link requires auth, storing intent and redirecting to login', {
+      url,
+      resolvedPath: result.path,
+    });
+
+    // Store intent for replay after auth (fire and forget, don't await)
+    storePendingIntent({
+      url,
+      resolvedPath: result.path,
+      createdAt: Date.now(),
+    });
+
+    // Redirect to auth entry
+    router.replace('/(auth)/signin' as any);
+    return;
+  }
+
+  // Normal navigation
+  if (isColdStart) {
+    router.replace(result.path as any);
+  } else {
+    // For warm start, use replace() for certain routes to prevent navigation stack issues:
+    // - Feed routes: nested stacks, push() can cause "screen doesn't exist" on back navigation
+    // - Auth routes: signup-complete should replace the signup screen to clear stale state
+    //   (user was on "Almost There!" screen when Ricochet triggers after email verification)
+    // Using replace() maintains a clean navigation state
+    if (result.path.startsWith('/feed') || result.path.startsWith('/(auth)')) {
+      router.replace(result.path as any);
+    } else {
+      // For other routes, use push() to maintain navigation stack
+      router.push(result.path as any);
+    }
+  }
+}
+
 /**
  * Handle a deep link URL by navigating to the resolved path.
  * 
  * If the route requires authentication and the user is not authenticated,
- * the intent is stored for replay after successful auth.
+ * the intent is stored for replay after successful auth. Web links from a
+ * site with a signed-in account that isn't active switch to that account
+ * first.
  * 
  * @param url - The deep link URL to handle
  * @param isColdStart - Whether this is a cold start (app was killed).
@@ -336,52 +422,24 @@ export function handleDeepLink(
       return false;
     }
 
-    // Auth carve-out: never store auth paths as pending intent, just navigate
-    if (result.isAuth) {
-      if (isColdStart) {
-        router.replace(result.path as any);
-      } else {
-        router.push(result.path as any);
-      }
-      return true;
-    }
-
-    // Gate: if route requires auth and user is not authenticated
-    if (result.requiresAuth && !isAuthenticated) {
-      logger.info('Deep link requires auth, storing intent and redirecting to login', {
-        url,
-        resolvedPath: result.path,
-      });
-
-      // Store intent for replay after auth (fire and forget, don't await)
-      storePendingIntent({
-        url,
-        resolvedPath: result.path,
-        createdAt: Date.now(),
-      });
-
-      // Redirect to auth entry
-      router.replace('/(auth)/signin' as any);
-      return true;
-    }
-
-    // Normal navigation
-    if (isColdStart) {
-      router.replace(result.path as any);
-    } else {
-      // For warm start, use replace() for certain routes to prevent navigation stack issues:
-      // - Feed routes: nested stacks, push() can cause "screen doesn't exist" on back navigation
-      // - Auth routes: signup-complete should replace the signup screen to clear stale state
-      //   (user was on "Almost There!" screen when Ricochet triggers after email verification)
-      // Using replace() maintains a clean navigation state
-      if (result.path.startsWith('/feed') || result.path.startsWith('/(auth)')) {
-        router.replace(result.path as any);
-      } else {
-        // For other routes, use push() to maintain navigation stack
-        router.push(result.path as any);
+    if (result.siteHost) {
+      const { accounts, activeAccountId } = useAccountStore.getState();
+      const account = findAccountForHost(accounts, result.siteHost, activeAccountId);
+      if (account && account.id !== getActiveAccountId()) {
+        logger.info('Deep link is for another account, switching', { url, accountId: account.id });
+        // Switching remounts the app; navigate once the new tree is up.
+        // The account is signed in, so auth-gated routes can open directly.
+        useAccountStore
+          .getState()
+          .switchAccount(account.id)
+          .then(() => {
+            setTimeout(() => navigateToDeepLink(url, result, true, true), 150);
+          });
+        return true;
       }
     }
 
+    navigateToDeepLink(url, result, isColdStart, isAuthenticated);
     return true;
   } catch (error) {
     logger.error('Failed to handle deep link', error, { url });
@@ -393,14 +451,13 @@ export function handleDeepLink(
  * Check if a URL is a valid Fomio deep link.
  * 
  * @param url - The URL to check
- * @returns true if the URL uses the fomio:// scheme or https://meta.fomio.app
+ * @returns true if the URL uses the fomio:// scheme or is an https:// link to a known site
  */
 export function isFomioDeepLink(url: string): boolean {
   try {
     const parsed = Linking.parse(url);
-    // Accept both fomio:// and https://meta.fomio.app URLs
-    return parsed.scheme === FOMIO_SCHEME || 
-           (parsed.scheme === 'https' && parsed.hostname === 'meta.fomio.app');
+    // Accept both fomio:// and https:// URLs from known sites
+    return parsed.scheme === FOMIO_SCHEME || isKnownSiteUrl(parsed);
   } catch {
     return false;
   }
@@ -24,6 +24,7 @@ export const AUTH_PATHS = ['auth/callback', 'auth_redirect'];
 export const AUTH_REQUIRED_PATTERNS: RegExp[] = [
   /^me$/,                      // Current user profile
   /^notifications$/,           // Notifications
+  /^messages/,                 // Private messages (inbox and conversations)
   /^compose/,                  // Create byte (with or without params)
   /^settings/,                 // Settings (all sub-routes)
 ];
@@ -43,7 +44,7 @@ export interface DeepLinkRoute {
   /** Function to convert match + params to Expo Router path */
   toPath: (match: RegExpMatchArray, params: URLSearchParams) => string;
   /** Internal Discourse concept this maps to (for documentation/debugging) */
-  discourseType?: 'topic' | 'category' | 'user' | 'parent_category';
+  discourseType?: 'topic' | 'category' | 'user' | 'parent_category' | 'tag';
 }
 
 /**
@@ -57,11 +58,14 @@ export interface DeepLinkRoute {
  * - fomio://teret/id/{id} → Category by numeric ID (internal/fallback)
  * - fomio://hub/{slug} → Parent category view
  * - fomio://hub/id/{id} → Parent category by numeric ID (internal/fallback)
+ * - fomio://tag/{name} → Tag feed
  * - fomio://profile/{username} → User profile
  * - fomio://me → Current user's profile
  * - fomio://search → Search screen
  * - fomio://search?q={query} → Search with pre-filled query
  * - fomio://notifications → Notifications
+ * - fomio://messages → Private message inbox
+ * - fomio://messages/{id} → Private message conversation
  * - fomio://compose → Create new byte
  * - fomio://compose?teret={slug} → Create byte in specific teret
  * - fomio://settings → Settings
@@ -129,6 +133,15 @@ export const DEEP_LINK_ROUTES: DeepLinkRoute[] = [
     discourseType: 'parent_category',
   },
 
+  // ============================================================================
+  // TAGS (Discourse: Tags)
+  // ============================================================================
+  {
+    pattern: /^tag\/([^/]+)$/,
+    toPath: (m) => `/tag/${m[1]}`,
+    discourseType: 'tag',
+  },
+
   // ============================================================================
   // PROFILES (Discourse: Users)
   // ============================================================================
@@ -184,6 +197,19 @@ export const DEEP_LINK_ROUTES: DeepLinkRoute[] = [
     toPath: () => '/(tabs)/notifications',
   },
 
+  // ============================================================================
+  // MESSAGES (Discourse: Private message topics)
+  // ============================================================================
+  {
+    pattern: /^messages\/(\d+)$/,
+    toPath: (m) => `/messages/${m[1]}`,
+    discourseType: 'topic',
+  },
+  {
+    pattern: /^messages$/,
+    toPath: () => '/messages',
+  },
+
   // ============================================================================
   // COMPOSE
   // ============================================================================
@@ -5,12 +5,12 @@ import { v4 as uuidv4 } from 'uuid';
 import { generateRsaKeypair, decryptPayloadBase64ToUtf8, derivePublicKeyFromPrivate } from './crypto';
 import { savePrivateKey, loadPrivateKey, saveUserApiKey, loadUserApiKey, saveClientId, loadClientId, clearAll } from './store';
 import { authHeaders, signOut as authSignOut } from './auth';
+import { getActiveSiteUrl } from '../shared/accounts';
 
 // Complete web browser auth session
 WebBrowser.maybeCompleteAuthSession();
 
 const config = Constants.expoConfig?.extra || {};
-const BASE_URL = config.DISCOURSE_BASE_URL || 'https://meta.fomio.app';
 const APPLICATION_NAME = config.APPLICATION_NAME || 'Fomio';
 const SCOPES = config.SCOPES || 'read,write,session,notifications';
 
@@ -128,7 +128,7 @@ export async function apiFetch(path: string, init?: RequestInit): Promise<Respon
     ...(init?.headers || {}),
   };
   
-  const url = `${BASE_URL}${path}`;
+  const url = `${getActiveSiteUrl()}${path}`;
   console.log(`🌐 API Request: ${init?.method || 'GET'} ${url}`);
   
   const response = await fetch(url, {
@@ -198,6 +198,7 @@ export async function createTopic(data: {
   title: string;
   raw: string;
   categoryId?: number;
+  tags?: string[];
 }): Promise<any> {
   const response = await apiFetch('/posts.json', {
     method: 'POST',
@@ -205,6 +206,7 @@ export async function createTopic(data: {
       title: data.title,
       raw: data.raw,
       ...(data.categoryId ? { category: data.categoryId } : {}),
+      ...(data.tags && data.tags.length > 0 ? { tags: data.tags } : {}),
       archetype: 'regular',
     }),
   });
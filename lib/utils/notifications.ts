@@ -6,6 +6,26 @@ export interface NotificationSection {
   data: Notification[];
 }
 
+/**
+ * Consecutive notifications of one type about one Byte, shown as one row
+ * ("alice and 4 others liked …"). Newest first.
+ */
+export interface NotificationGroup {
+  key: string;
+  type: string;
+  topicId?: number;
+  notifications: Notification[];
+  // The newest notification's
+  createdAt: string;
+  // Every notification in the group is read
+  isRead: boolean;
+}
+
+export interface NotificationGroupSection {
+  title: string;
+  data: NotificationGroup[];
+}
+
 /**
  * Format relative time (e.g., "Just now", "3m", "2h", "Yesterday", "3d", "2w", "Nov 20")
  */
@@ -44,11 +64,11 @@ export function formatRelativeTime(dateString: string): string {
 }
 
 /**
- * Group notifications by time period (Today, Yesterday, This week, Earlier)
+ * Group notifications (or notification groups) by time period (Today, Yesterday, This week, Earlier)
  */
-export function groupNotificationsByTime(
-  notifications: Notification[] | undefined
-): NotificationSection[] {
+export function groupNotificationsByTime<T extends { createdAt: string }>(
+  notifications: T[] | undefined
+): { title: string; data: T[] }[] {
   if (!notifications || notifications.length === 0) {
     return [];
   }
@@ -60,7 +80,7 @@ export function groupNotificationsByTime(
   const thisWeek = new Date(today);
   thisWeek.setDate(thisWeek.getDate() - 7);
 
-  const sections: NotificationSection[] = [
+  const sections: { title: string; data: T[] }[] = [
     { title: 'Today', data: [] },
     { title: 'Yesterday', data: [] },
     { title: 'This week', data: [] },
@@ -90,6 +110,129 @@ export function groupNotificationsByTime(
   return sections.filter((section) => section.data.length > 0);
 }
 
+function toNotificationGroup(notifications: Notification[]): NotificationGroup {
+  const [newest] = notifications;
+  return {
+    key: `notification-${newest.id}`,
+    type: newest.type,
+    topicId: newest.topicId,
+    notifications,
+    createdAt: newest.createdAt,
+    isRead: notifications.every((notification) => notification.isRead),
+  };
+}
+
+/**
+ * Collapse runs of same-type notifications about the same Byte in a
+ * newest-first list. Notifications without a Byte are never grouped.
+ */
+export function groupConsecutiveNotifications(notifications: Notification[]): NotificationGroup[] {
+  const runs: Notification[][] = [];
+  notifications.forEach((notification) => {
+    const run = runs[runs.length - 1];
+    const previous = run?.[run.length - 1];
+    if (
+      previous &&
+      notification.topicId != null &&
+      previous.topicId === notification.topicId &&
+      previous.type === notification.type
+    ) {
+      run.push(notification);
+    } else {
+      runs.push([notification]);
+    }
+  });
+  return runs.map(toNotificationGroup);
+}
+
+// What the people in a group did, for types that read well with several people
+const GROUP_VERBS: Record<string, string> = {
+  liked: 'liked',
+  liked_consolidated: 'liked',
+  reaction: 'reacted to',
+  replied: 'replied to',
+  mentioned: 'mentioned you in',
+  quoted: 'quoted you in',
+  posted: 'posted in',
+  linked: 'linked to',
+  edited: 'edited',
+  private_message: 'messaged you in',
+};
+
+/**
+ * Title for a notification row; a group names who acted
+ * ("alice and 4 others liked …")
+ */
+export function getNotificationGroupTitle(group: NotificationGroup): string {
+  const [newest] = group.notifications;
+  const count = group.notifications.length;
+  if (count === 1) return getNotificationTitle(newest);
+
+  const topic = newest.data?.topic_title ? `"${newest.data.topic_title}"` : 'a Byte';
+  const actors: string[] = [];
+  group.notifications.forEach((notification) => {
+    const username = notification.data?.display_username;
+    if (username && !actors.includes(username)) actors.push(username);
+  });
+  const verb = GROUP_VERBS[group.type];
+
+  if (!verb || actors.length === 0) return `${count} notifications about ${topic}`;
+  if (actors.length === 1) return `${actors[0]} ${verb} ${topic} (${count})`;
+  if (actors.length === 2) return `${actors[0]} and ${actors[1]} ${verb} ${topic}`;
+  return `${actors[0]} and ${actors.length - 1} others ${verb} ${topic}`;
+}
+
+/**
+ * Normalize Discourse notification_type to string type
+ */
+export function normalizeNotificationType(notificationType: number | string | undefined): string {
+  if (typeof notificationType === 'string') {
+    return notificationType;
+  }
+
+  if (typeof notificationType !== 'number') {
+    return 'unknown';
+  }
+
+  const typeMap: Record<number, string> = {
+    1: 'mentioned',
+    2: 'replied',
+    3: 'quoted',
+    4: 'edited',
+    5: 'liked',
+    6: 'private_message',
+    7: 'invited_to_private_message',
+    8: 'invitee_accepted',
+    9: 'posted',
+    10: 'moved_post',
+    11: 'linked',
+    12: 'granted_badge',
+    13: 'invited_to_topic',
+    14: 'custom',
+    15: 'group_mentioned',
+    16: 'group_message_summary',
+    17: 'watching_first_post',
+    18: 'topic_reminder',
+    19: 'liked_consolidated',
+    20: 'post_approved',
+    21: 'code_review_commit_approved',
+    22: 'membership_request_accepted',
+    23: 'membership_request_consolidated',
+    24: 'bookmark_reminder',
+    25: 'reaction',
+    26: 'votes_released',
+    27: 'event_reminder',
+    28: 'event_invitation',
+    29: 'new_features',
+    // discourse-follow plugin
+    800: 'following',
+    801: 'following_created_topic',
+    802: 'following_replied',
+  };
+
+  return typeMap[notificationType] || 'unknown';
+}
+
 /**
  * Filter notifications by type
  */
@@ -143,6 +286,70 @@ export function getNotificationTypeCategory(
   return 'other';
 }
 
+/**
+ * The preference toggle that covers a notification type, or null for
+ * types no toggle covers
+ */
+export function getNotificationPreferenceKey(
+  type: string
+): 'replies' | 'mentions' | 'likes' | 'privateMessages' | 'badges' | 'system' | 'following' | null {
+  // Replies & Quotes
+  if (['replied', 'quoted'].includes(type)) {
+    return 'replies';
+  }
+
+  // Mentions
+  if (['mentioned', 'group_mentioned'].includes(type)) {
+    return 'mentions';
+  }
+
+  // Private Messages
+  if (['private_message', 'invited_to_private_message'].includes(type)) {
+    return 'privateMessages';
+  }
+
+  // Likes (reactions are likes with an emoji)
+  if (['liked', 'liked_consolidated', 'reaction'].includes(type)) {
+    return 'likes';
+  }
+
+  // Badges
+  if (type === 'granted_badge') {
+    return 'badges';
+  }
+
+  // System notifications
+  if (
+    [
+      'bookmark_reminder',
+      'group_message_summary',
+      'admin_message',
+      'post_approved',
+    ].includes(type)
+  ) {
+    return 'system';
+  }
+
+  // People you follow
+  if (['following', 'following_created_topic', 'following_replied'].includes(type)) {
+    return 'following';
+  }
+
+  return null;
+}
+
+/**
+ * Whether the user's toggles allow a notification type
+ * Unknown types are always allowed (never hidden)
+ */
+export function isNotificationTypeEnabled(
+  type: string,
+  preferences: NotificationPreferences
+): boolean {
+  const key = getNotificationPreferenceKey(type);
+  return key ? preferences[key] : true;
+}
+
 /**
  * Filter notifications based on user preferences
  * Returns only notifications that match enabled categories
@@ -152,47 +359,7 @@ export function filterNotificationsByPreferences(
   notifications: Notification[],
   preferences: NotificationPreferences
 ): Notification[] {
-  return notifications.filter(({ type }) => {
-    // Replies & Quotes
-    if (['replied', 'quoted'].includes(type)) {
-      return preferences.replies;
-    }
-
-    // Mentions
-    if (['mentioned', 'group_mentioned'].includes(type)) {
-      return preferences.mentions;
-    }
-
-    // Private Messages
-    if (['private_message', 'invited_to_private_message'].includes(type)) {
-      return preferences.privateMessages;
-    }
-
-    // Likes
-    if (['liked', 'liked_consolidated'].includes(type)) {
-      return preferences.likes;
-    }
-
-    // Badges
-    if (type === 'granted_badge') {
-      return preferences.badges;
-    }
-
-    // System notifications
-    if (
-      [
-        'bookmark_reminder',
-        'group_message_summary',
-        'admin_message',
-        'post_approved',
-      ].includes(type)
-    ) {
-      return preferences.system;
-    }
-
-    // Unknown notification types: Always allowed
-    return true;
-  });
+  return notifications.filter(({ type }) => isNotificationTypeEnabled(type, preferences));
 }
 
 /**
@@ -242,8 +409,11 @@ export function getNotificationTitle(notification: Notification): string {
     case 'private_message':
       return topicTitle ? `New message: "${topicTitle}"` : 'New private message';
 
-    case 'bookmark_reminder':
-      return topicTitle ? `Reminder: "${topicTitle}"` : 'Bookmark reminder';
+    case 'bookmark_reminder': {
+      // Discourse sends the bookmark's name when it has one
+      const reminderTitle = data?.bookmark_name || topicTitle;
+      return reminderTitle ? `Reminder: "${reminderTitle}"` : 'Bookmark reminder';
+    }
 
     case 'granted_badge':
       const badgeName = data?.badge_name || 'a badge';
@@ -396,11 +566,11 @@ export function getNotificationNavigationTarget(
       }
       return null;
 
-    // Private messages → navigate to message/Byte
+    // Private messages → navigate to the conversation
     case 'private_message':
     case 'invited_to_private_message':
       if (topicId) {
-        return { path: `/feed/${topicId}` };
+        return { path: `/messages/${topicId}` };
       }
       return null;
 
@@ -441,12 +611,15 @@ export function getNotificationNavigationTarget(
       // Fallback to settings if no topic
       return { path: '/(profile)/settings' };
 
-    // Topic/Byte reminders → navigate to Byte
+    // Bookmark reminders → navigate to the bookmarked post, else the bookmarks list
     case 'bookmark_reminder':
       if (topicId) {
-        return { path: `/feed/${topicId}` };
+        return {
+          path: `/feed/${topicId}`,
+          params: postNumber ? { postNumber: postNumber.toString() } : undefined,
+        };
       }
-      return null;
+      return { path: '/(profile)/bookmarks' };
 
     // Event notifications → navigate to Byte (event topic)
     case 'event_reminder':
@@ -522,3 +695,18 @@ export function getNotificationNavigationTarget(
   }
 }
 
+/**
+ * Route path for a navigation target, with its params as a query string
+ */
+export function getNotificationHref(target: {
+  path: string;
+  params?: Record<string, string | number>;
+}): string {
+  if (!target.params) {
+    return target.path;
+  }
+  const queryString = Object.entries(target.params)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join('&');
+  return `${target.path}?${queryString}`;
+}
@@ -0,0 +1,254 @@
+#!/usr/bin/env node
+
+/**
+ * Fake Push Relay
+ * A local stand-in for the relay behind EXPO_PUBLIC_DISCOURSE_PUSH_URL.
+ * Follows the contract in shared/push.ts; see docs/guides/push-notifications.md
+ *
+ *   POST /devices             register a device (PushRegistration)
+ *   POST /devices/unregister  drop a device (PushUnregistration)
+ *   GET  /devices             list registered devices
+ *   POST /push                the push_url Discourse calls (DiscoursePushPayload)
+ *
+ * Usage: node scripts/fake-push-relay.js [--port 8787] [--dry-run] [--secret KEY]
+ */
+
+const http = require('http');
+const https = require('https');
+
+const args = process.argv.slice(2);
+const getArg = (name, fallback) => {
+  const index = args.indexOf(name);
+  return index >= 0 && args[index + 1] ? args[index + 1] : fallback;
+};
+
+const PORT = Number(getArg('--port', process.env.PORT || 8787));
+const DRY_RUN = args.includes('--dry-run');
+const SECRET = getArg('--secret', process.env.PUSH_API_SECRET_KEY);
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+const CHANNEL_ID = 'default';
+
+// Colors for console output
+const colors = {
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  reset: '\x1b[0m',
+  bold: '\x1b[1m',
+};
+
+function log(message, color = 'reset') {
+  console.log(`${colors[color]}${message}${colors.reset}`);
+}
+
+// Keyed by site + client_id; a client_id has one device
+const devices = new Map();
+const deviceKey = (site, clientId) => `${normalizeSite(site)}|${clientId}`;
+
+function normalizeSite(url) {
+  return String(url || '').trim().replace(/\/+$/, '').toLowerCase();
+}
+
+// Mirrors getNotificationPreferenceKey in lib/utils/notifications.ts
+const CATEGORY_BY_TYPE = {
+  1: 'mentions', // mentioned
+  2: 'replies', // replied
+  3: 'replies', // quoted
+  5: 'likes', // liked
+  6: 'privateMessages', // private_message
+  7: 'privateMessages', // invited_to_private_message
+  12: 'badges', // granted_badge
+  15: 'mentions', // group_mentioned
+  16: 'system', // group_message_summary
+  19: 'likes', // liked_consolidated
+  20: 'system', // post_approved
+  24: 'system', // bookmark_reminder
+  25: 'likes', // reaction
+  800: 'following', // following
+  801: 'following', // following_created_topic
+  802: 'following', // following_replied
+};
+
+function shouldDeliver(type, preferences) {
+  const category = CATEGORY_BY_TYPE[type];
+  return category ? preferences.categories[category] !== false : true;
+}
+
+function getBody(notification) {
+  const username = notification.username || 'Someone';
+  const excerpt = notification.excerpt || '';
+  switch (notification.notification_type) {
+    case 2:
+      return `${username} replied: ${excerpt}`.trim();
+    case 1:
+    case 15:
+      return `${username} mentioned you: ${excerpt}`.trim();
+    case 3:
+      return `${username} quoted you: ${excerpt}`.trim();
+    case 5:
+    case 19:
+    case 25:
+      return `${username} liked your post`;
+    case 6:
+      return `${username} sent you a message: ${excerpt}`.trim();
+    default:
+      return excerpt || `${username} notified you`;
+  }
+}
+
+// Mirrors buildPushMessages in shared/push.ts
+function buildMessages(payload) {
+  const messages = [];
+  (payload.notifications || []).forEach((notification) => {
+    const device = devices.get(deviceKey(payload.url, notification.client_id));
+    if (!device) {
+      log(`  - no device for client_id ${notification.client_id}`, 'yellow');
+      return;
+    }
+    if (!shouldDeliver(notification.notification_type, device.preferences)) {
+      log(`  - type ${notification.notification_type} is turned off for ${device.username || device.client_id}`, 'yellow');
+      return;
+    }
+    const { alert, sound } = device.preferences;
+    messages.push({
+      to: device.push_token,
+      ...(alert
+        ? { title: notification.topic_title || payload.title || 'Fomio', body: getBody(notification) }
+        : {}),
+      sound: sound ? 'default' : null,
+      channelId: CHANNEL_ID,
+      data: {
+        site: payload.url,
+        client_id: notification.client_id,
+        notification_type: notification.notification_type,
+        topic_id: notification.topic_id,
+        post_number: notification.post_number,
+        username: notification.username,
+        topic_title: notification.topic_title,
+        excerpt: notification.excerpt,
+        url: notification.url,
+      },
+    });
+  });
+  return messages;
+}
+
+function sendToExpo(messages) {
+  return new Promise((resolve, reject) => {
+    const body = JSON.stringify(messages);
+    const request = https.request(
+      EXPO_PUSH_URL,
+      {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(body),
+        },
+        timeout: 10000,
+      },
+      (response) => {
+        let data = '';
+        response.on('data', (chunk) => (data += chunk));
+        response.on('end', () => resolve({ status: response.statusCode, body: data }));
+      }
+    );
+    request.on('error', reject);
+    request.on('timeout', () => request.destroy(new Error('Request timeout')));
+    request.end(body);
+  });
+}
+
+function readJson(request) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    request.on('data', (chunk) => (data += chunk));
+    request.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+function send(response, status, body) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+async function handle(request, response) {
+  const path = request.url.split('?')[0].replace(/\/+$/, '');
+
+  if (request.method === 'GET' && path === '/devices') {
+    return send(response, 200, { devices: Array.from(devices.values()) });
+  }
+
+  if (request.method !== 'POST') {
+    return send(response, 404, { error: 'Not found' });
+  }
+
+  let body;
+  try {
+    body = await readJson(request);
+  } catch {
+    return send(response, 400, { error: 'Invalid JSON' });
+  }
+
+  if (path === '/devices') {
+    if (!body.client_id || !body.site || !body.push_token || !body.preferences) {
+      return send(response, 422, { error: 'client_id, site, push_token and preferences are required' });
+    }
+    devices.set(deviceKey(body.site, body.client_id), body);
+    log(`✓ Registered ${body.platform} device for ${body.username || body.client_id} on ${body.site}`, 'green');
+    return send(response, 200, { success: true });
+  }
+
+  if (path === '/devices/unregister') {
+    const key = deviceKey(body.site, body.client_id);
+    const device = devices.get(key);
+    if (device && (!body.push_token || device.push_token === body.push_token)) {
+      devices.delete(key);
+      log(`✓ Unregistered device for ${device.username || device.client_id}`, 'green');
+    }
+    return send(response, 200, { success: true });
+  }
+
+  if (path === '/push') {
+    if (SECRET && body.secret_key !== SECRET) {
+      log('✗ Rejected push with a wrong secret_key', 'red');
+      return send(response, 403, { error: 'Invalid secret_key' });
+    }
+    log(`→ ${(body.notifications || []).length} notification(s) from ${body.url}`, 'blue');
+    const messages = buildMessages(body);
+    if (messages.length === 0) {
+      return send(response, 200, { sent: 0 });
+    }
+    if (DRY_RUN) {
+      messages.forEach((message) => log(`  • ${message.title || '(silent)'}: ${message.body || ''}`, 'blue'));
+      return send(response, 200, { sent: messages.length, messages });
+    }
+    try {
+      const result = await sendToExpo(messages);
+      log(`✓ Sent ${messages.length} push(es), Expo returned ${result.status}`, result.status === 200 ? 'green' : 'red');
+      return send(response, 200, { sent: messages.length });
+    } catch (error) {
+      log(`✗ Expo push failed: ${error.message}`, 'red');
+      return send(response, 502, { error: error.message });
+    }
+  }
+
+  return send(response, 404, { error: 'Not found' });
+}
+
+http
+  .createServer((request, response) => {
+    handle(request, response).catch((error) => send(response, 500, { error: error.message }));
+  })
+  .listen(PORT, () => {
+    log(`${colors.bold}Fake push relay on http://localhost:${PORT}${DRY_RUN ? ' (dry run)' : ''}`, 'blue');
+    log(`Set EXPO_PUBLIC_DISCOURSE_PUSH_URL=http://<your-ip>:${PORT}/push`);
+  });
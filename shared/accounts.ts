@@ -0,0 +1,303 @@
+/**
+ * Accounts
+ *
+ * The registry of signed-in accounts. Each account is one user on one
+ * Discourse site and owns its own User API Key (stored by
+ * UserApiKeyManager), query cache and stored profile. The active account
+ * decides which site the app talks to; with no account the app browses the
+ * default site anonymously.
+ */
+
+import * as SecureStore from 'expo-secure-store';
+import Constants from 'expo-constants';
+import { create } from 'zustand';
+import { logger } from './logger';
+
+const config = Constants.expoConfig?.extra || {};
+
+export const DEFAULT_SITE_URL: string =
+  normalizeSiteUrl(config.DISCOURSE_BASE_URL || process.env.EXPO_PUBLIC_DISCOURSE_URL || '') ||
+  'https://meta.fomio.app';
+
+const ACCOUNTS_STORAGE_KEY = 'fomio_accounts';
+
+export interface Account {
+  // "username@host", stable for the life of the account
+  id: string;
+  siteUrl: string;
+  username: string;
+  name?: string;
+  avatarUrl?: string;
+  siteTitle?: string;
+  addedAt: number;
+  lastUsedAt: number;
+  // Discourse rejected the account's key; it stays listed until signed in again
+  signedOut?: boolean;
+}
+
+export interface AccountInput {
+  siteUrl: string;
+  username: string;
+  name?: string;
+  avatarUrl?: string;
+  siteTitle?: string;
+}
+
+interface AccountsSnapshot {
+  accounts: Account[];
+  activeAccountId: string | null;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Reduce user input ("forum.example.com/latest", "HTTPS://Forum.example.com/")
+ * to a site origin, or null when it isn't a usable URL
+ */
+export function normalizeSiteUrl(input: string | null | undefined): string | null {
+  const trimmed = input?.trim();
+  if (!trimmed) return null;
+
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  const match = /^(https?):\/\/([^/?#\s]+)/i.exec(withScheme);
+  if (!match || (!match[2].includes('.') && !match[2].startsWith('localhost'))) {
+    return null;
+  }
+  return `${match[1].toLowerCase()}://${match[2].toLowerCase()}`;
+}
+
+export function getSiteHost(siteUrl: string): string {
+  return siteUrl.replace(/^https?:\/\//i, '').replace(/[/?#].*$/, '').toLowerCase();
+}
+
+export function getAccountId(siteUrl: string, username: string): string {
+  return `${username.toLowerCase()}@${getSiteHost(siteUrl)}`;
+}
+
+/**
+ * Scope a storage key to an account. SecureStore keys only allow
+ * letters, digits, ".", "-" and "_". Without an account the key is
+ * returned unchanged, which keeps data stored before accounts existed.
+ */
+export function getAccountStorageKey(baseKey: string, accountId: string | null): string {
+  if (!accountId) return baseKey;
+  return `${baseKey}.${accountId.replace(/[^A-Za-z0-9._-]/g, '_')}`;
+}
+
+/**
+ * Pick the account a link on `host` should open in: the active account
+ * when it is on that site, otherwise the most recently used one there
+ */
+export function findAccountForHost(
+  accounts: Account[],
+  host: string,
+  activeAccountId: string | null
+): Account | null {
+  const onHost = accounts.filter((account) => getSiteHost(account.siteUrl) === host.toLowerCase());
+  if (onHost.length === 0) return null;
+  return (
+    onHost.find((account) => account.id === activeAccountId) ||
+    [...onHost].sort((a, b) => b.lastUsedAt - a.lastUsedAt)[0]
+  );
+}
+
+/**
+ * The most recently used account, other than the one being left
+ */
+function getFallbackAccount(accounts: Account[], excludeId: string): Account | null {
+  return (
+    accounts
+      .filter((account) => account.id !== excludeId)
+      .sort((a, b) => b.lastUsedAt - a.lastUsedAt)[0] || null
+  );
+}
+
+// =============================================================================
+// STORE
+// =============================================================================
+
+interface AccountStore extends AccountsSnapshot {
+  isLoaded: boolean;
+  load: () => Promise<void>;
+  addAccount: (input: AccountInput) => Promise<Account>;
+  updateAccount: (accountId: string, updates: Partial<Omit<AccountInput, 'siteUrl' | 'username'>>) => Promise<void>;
+  switchAccount: (accountId: string) => Promise<void>;
+  markSignedOut: (accountId: string) => Promise<void>;
+  removeAccount: (accountId: string) => Promise<Account | null>;
+}
+
+async function persist(snapshot: AccountsSnapshot): Promise<void> {
+  try {
+    await SecureStore.setItemAsync(ACCOUNTS_STORAGE_KEY, JSON.stringify(snapshot));
+  } catch (error) {
+    logger.error('Accounts: Failed to save account registry', error);
+  }
+}
+
+export const useAccountStore = create<AccountStore>((set, get) => {
+  const commit = async (snapshot: AccountsSnapshot) => {
+    set(snapshot);
+    await persist(snapshot);
+  };
+
+  return {
+    accounts: [],
+    activeAccountId: null,
+    isLoaded: false,
+
+    load: async () => {
+      if (get().isLoaded) return;
+      try {
+        const stored = await SecureStore.getItemAsync(ACCOUNTS_STORAGE_KEY);
+        const parsed: Partial<AccountsSnapshot> = stored ? JSON.parse(stored) : {};
+        const accounts = Array.isArray(parsed.accounts) ? parsed.accounts : [];
+        const activeAccountId = accounts.some((account) => account.id === parsed.activeAccountId)
+          ? parsed.activeAccountId ?? null
+          : null;
+        set({ accounts, activeAccountId, isLoaded: true });
+      } catch (error) {
+        logger.error('Accounts: Failed to load account registry', error);
+        set({ isLoaded: true });
+      }
+    },
+
+    // Adds (or refreshes) the account for this site and user and makes it active
+    addAccount: async (input) => {
+      const siteUrl = normalizeSiteUrl(input.siteUrl) || DEFAULT_SITE_URL;
+      const id = getAccountId(siteUrl, input.username);
+      const now = Date.now();
+      const { accounts } = get();
+      const existing = accounts.find((account) => account.id === id);
+      const account: Account = {
+        ...existing,
+        ...input,
+        id,
+        siteUrl,
+        addedAt: existing?.addedAt ?? now,
+        lastUsedAt: now,
+        signedOut: undefined,
+      };
+
+      await commit({
+        accounts: existing
+          ? accounts.map((candidate) => (candidate.id === id ? account : candidate))
+          : [...accounts, account],
+        activeAccountId: id,
+      });
+      logger.info('Accounts: Account added', { accountId: id, isNew: !existing });
+      return account;
+    },
+
+    updateAccount: async (accountId, updates) => {
+      const { accounts, activeAccountId } = get();
+      if (!accounts.some((account) => account.id === accountId)) return;
+      await commit({
+        accounts: accounts.map((account) =>
+          account.id === accountId ? { ...account, ...updates } : account
+        ),
+        activeAccountId,
+      });
+    },
+
+    switchAccount: async (accountId) => {
+      const { accounts, activeAccountId } = get();
+      if (accountId === activeAccountId || !accounts.some((account) => account.id === accountId)) {
+        return;
+      }
+      await commit({
+        accounts: accounts.map((account) =>
+          account.id === accountId ? { ...account, lastUsedAt: Date.now() } : account
+        ),
+        activeAccountId: accountId,
+      });
+      logger.info('Accounts: Switched account', { accountId });
+    },
+
+    // Keeps the account (and which account is active) so the user can sign in to it again
+    markSignedOut: async (accountId) => {
+      const { accounts, activeAccountId } = get();
+      const account = accounts.find((candidate) => candidate.id === accountId);
+      if (!account || account.signedOut) return;
+      await commit({
+        accounts: accounts.map((candidate) =>
+          candidate.id === accountId ? { ...candidate, signedOut: true } : candidate
+        ),
+        activeAccountId,
+      });
+      logger.info('Accounts: Account signed out', { accountId });
+    },
+
+    // Returns the account that becomes active, if any
+    removeAccount: async (accountId) => {
+      const { accounts, activeAccountId } = get();
+      const remaining = accounts.filter((account) => account.id !== accountId);
+      const nextActive =
+        activeAccountId === accountId
+          ? getFallbackAccount(accounts, accountId)
+          : remaining.find((account) => account.id === activeAccountId) || null;
+
+      await commit({ accounts: remaining, activeAccountId: nextActive?.id ?? null });
+      logger.info('Accounts: Account removed', { accountId, nextAccountId: nextActive?.id ?? null });
+      return nextActive;
+    },
+  };
+});
+
+// =============================================================================
+// ACCESSORS (for code outside React)
+// =============================================================================
+
+export function getActiveAccount(): Account | null {
+  const { accounts, activeAccountId } = useAccountStore.getState();
+  return accounts.find((account) => account.id === activeAccountId) || null;
+}
+
+export function getActiveAccountId(): string | null {
+  return useAccountStore.getState().activeAccountId;
+}
+
+export function getActiveSiteUrl(): string {
+  return getActiveAccount()?.siteUrl || DEFAULT_SITE_URL;
+}
+
+/**
+ * Hosts whose web links the app can open: the default site and every
+ * site with a signed-in account
+ */
+export function getKnownSiteHosts(): string[] {
+  const hosts = useAccountStore.getState().accounts.map((account) => getSiteHost(account.siteUrl));
+  return Array.from(new Set([getSiteHost(DEFAULT_SITE_URL), ...hosts]));
+}
+
+/**
+ * Call `listener` whenever the active account changes (switch, sign in,
+ * sign out)
+ */
+export function onActiveAccountChange(listener: (accountId: string | null) => void): () => void {
+  return useAccountStore.subscribe((state, previous) => {
+    if (state.activeAccountId !== previous.activeAccountId) {
+      listener(state.activeAccountId);
+    }
+  });
+}
+
+// =============================================================================
+// HOOKS
+// =============================================================================
+
+export function useAccounts() {
+  const accounts = useAccountStore((state) => state.accounts);
+  const activeAccountId = useAccountStore((state) => state.activeAccountId);
+  const isLoaded = useAccountStore((state) => state.isLoaded);
+  const switchAccount = useAccountStore((state) => state.switchAccount);
+
+  return {
+    accounts,
+    activeAccountId,
+    activeAccount: accounts.find((account) => account.id === activeAccountId) || null,
+    isLoaded,
+    switchAccount,
+  };
+}
@@ -1,6 +1,7 @@
 import type { Byte } from '@/types/byte';
 import { discourseApi } from '../discourseApi';
 import { extractMedia } from '@/lib/utils/media';
+import { readTagNames } from '../tags';
 
 /**
  * Adapter to transform Topic summary (from /latest.json) → Byte
@@ -287,6 +288,7 @@ export function topicSummaryToByte(topic: any): Byte {
     },
     hub: hub || parentHub, // Show hub if direct hub, or parent hub if teret
     teret, // Show teret if subcategory
+    tags: readTagNames(topic.tags),
     raw: '', // Summaries don't have raw markdown
     cooked, // Use excerpt as cooked content for summaries (rendered as HTML/markdown)
     excerpt,
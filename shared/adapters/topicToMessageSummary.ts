@@ -0,0 +1,59 @@
+import { discourseApi } from '../discourseApi';
+
+export interface MessageParticipant {
+  id: number;
+  username: string;
+  name: string;
+  avatar: string;
+}
+
+export interface MessageSummary {
+  id: number;
+  title: string;
+  excerpt?: string;
+  lastPostedAt: string;
+  postsCount: number;
+  unreadCount: number;
+  // Never opened, or has replies since the last visit
+  isUnread: boolean;
+  participants: MessageParticipant[];
+  lastPosterUsername?: string;
+}
+
+/**
+ * Adapter to transform a private message topic (from /topics/private-messages*.json) → MessageSummary
+ *
+ * Pure function - no async calls, no side effects
+ *
+ * @param topic - Topic object from the topic_list
+ * @param usersById - The response's `users` array, keyed by id
+ */
+export function topicToMessageSummary(topic: any, usersById: Map<number, any>): MessageSummary {
+  // PM lists carry `participants`; fall back to `posters` for older servers
+  const people: any[] = topic.participants?.length ? topic.participants : topic.posters || [];
+
+  const participants: MessageParticipant[] = people
+    .map((person: any) => usersById.get(person.user_id))
+    .filter(Boolean)
+    .map((user: any) => ({
+      id: user.id,
+      username: user.username,
+      name: user.name || user.username,
+      avatar: user.avatar_template ? discourseApi.getAvatarUrl(user.avatar_template, 80) : '',
+    }));
+
+  const unreadCount = (topic.unread_posts || topic.unread || 0) + (topic.new_posts || 0);
+  const neverOpened = topic.last_read_post_number === undefined || topic.last_read_post_number === null;
+
+  return {
+    id: topic.id,
+    title: topic.title || topic.fancy_title || 'Untitled',
+    excerpt: topic.excerpt,
+    lastPostedAt: topic.last_posted_at || topic.bumped_at || topic.created_at,
+    postsCount: topic.posts_count || 0,
+    unreadCount,
+    isUnread: neverOpened || unreadCount > 0,
+    participants,
+    lastPosterUsername: topic.last_poster_username,
+  };
+}
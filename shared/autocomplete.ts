@@ -0,0 +1,230 @@
+/**
+ * Autocomplete
+ *
+ * Finds the `@mention` or `#hashtag` being typed at the cursor, ranks
+ * suggestions for it and writes the chosen one back into the markdown.
+ * Mentions come from /u/search/users.json with the topic's participants
+ * ranked first; hashtags come from the site's categories (hubs and terets).
+ */
+
+export type AutocompleteTrigger = '@' | '#';
+
+export interface AutocompleteQuery {
+  trigger: AutocompleteTrigger;
+  // What has been typed after the trigger
+  term: string;
+  // Range to replace, from the trigger to the end of the word at the cursor
+  start: number;
+  end: number;
+}
+
+// A user as returned by /u/search/users.json
+export interface MentionUser {
+  username: string;
+  name?: string | null;
+  avatar_template?: string;
+}
+
+// Someone already in the conversation (from the app's own post data)
+export interface MentionParticipant {
+  username: string;
+  name?: string | null;
+  avatarUrl?: string;
+}
+
+// Enough of a Teret or CategoryItem to build a hashtag
+export interface HashtagCategory {
+  id: number;
+  name: string;
+  slug: string;
+  color: string;
+  parent_category?: { slug: string; name: string } | null;
+}
+
+export type AutocompleteSuggestion =
+  | {
+      type: 'user';
+      key: string;
+      username: string;
+      name?: string | null;
+      avatarUrl?: string;
+      avatarTemplate?: string;
+    }
+  | { type: 'hashtag'; key: string; ref: string; name: string; color: string; parentName?: string };
+
+export const MAX_AUTOCOMPLETE_SUGGESTIONS = 8;
+
+const MENTION_CHARACTERS = /^[\w.-]*$/;
+const HASHTAG_CHARACTERS = /^[\w:-]*$/;
+// Triggers only count at the start of a word
+const TRIGGER_BOUNDARY = /[\s([>]/;
+const MAX_TERM_LENGTH = 40;
+
+/**
+ * Whether `index` is inside a fenced code block or inline code, where
+ * mentions and hashtags aren't cooked
+ */
+export function isInsideCode(text: string, index: number): boolean {
+  const before = text.slice(0, index);
+  const fences = before.match(/^\s*(```|~~~)/gm);
+  if (fences && fences.length % 2 === 1) return true;
+
+  const line = before.slice(before.lastIndexOf('\n') + 1);
+  const ticks = line.match(/`/g);
+  return !!ticks && ticks.length % 2 === 1;
+}
+
+/**
+ * The mention or hashtag being typed at `cursor`, or null when there is none
+ */
+export function getAutocompleteQuery(text: string, cursor: number): AutocompleteQuery | null {
+  const position = Math.min(Math.max(0, cursor), text.length);
+
+  for (let index = position - 1; index >= 0 && position - index <= MAX_TERM_LENGTH + 1; index--) {
+    const character = text[index];
+    if (character === '@' || character === '#') {
+      if (index > 0 && !TRIGGER_BOUNDARY.test(text[index - 1])) return null;
+
+      const trigger = character as AutocompleteTrigger;
+      const pattern = trigger === '@' ? MENTION_CHARACTERS : HASHTAG_CHARACTERS;
+      const term = text.slice(index + 1, position);
+      if (!pattern.test(term)) return null;
+      // "# " at the start of a line is a heading, not a hashtag
+      if (trigger === '#' && term === '' && (index === 0 || text[index - 1] === '\n') && text[position] === ' ') {
+        return null;
+      }
+      if (isInsideCode(text, index)) return null;
+
+      // Replace the rest of the word too when the cursor is in the middle of it
+      let end = position;
+      while (end < text.length && pattern.test(text[end]) && !/\s/.test(text[end])) end++;
+
+      return { trigger, term, start: index, end };
+    }
+    if (/\s/.test(character)) return null;
+  }
+  return null;
+}
+
+/**
+ * Replace the query with the chosen suggestion, followed by a space
+ */
+export function applyAutocompleteSuggestion(
+  text: string,
+  query: AutocompleteQuery,
+  suggestion: AutocompleteSuggestion
+): { text: string; cursor: number } {
+  const insert = suggestion.type === 'user' ? `@${suggestion.username}` : `#${suggestion.ref}`;
+  const after = text.slice(query.end);
+  const spacer = after.startsWith(' ') ? '' : ' ';
+  const next = `${text.slice(0, query.start)}${insert}${spacer}${after}`;
+  return { text: next, cursor: query.start + insert.length + 1 };
+}
+
+/**
+ * Authors of a conversation's posts (oldest first) as participants, most
+ * recent poster first
+ */
+export function getMentionParticipants(
+  authors: Array<{ username?: string; name?: string | null; avatar?: string } | null | undefined>
+): MentionParticipant[] {
+  const seen = new Set<string>();
+  const participants: MentionParticipant[] = [];
+  for (let index = authors.length - 1; index >= 0; index--) {
+    const author = authors[index];
+    const key = author?.username?.toLowerCase();
+    if (!author?.username || !key || seen.has(key)) continue;
+    seen.add(key);
+    participants.push({ username: author.username, name: author.name, avatarUrl: author.avatar || undefined });
+  }
+  return participants;
+}
+
+function matchesUser(user: { username: string; name?: string | null }, term: string): boolean {
+  const needle = term.toLowerCase();
+  return (
+    user.username.toLowerCase().startsWith(needle) ||
+    (!!user.name && user.name.toLowerCase().split(/\s+/).some((part) => part.startsWith(needle)))
+  );
+}
+
+/**
+ * Topic participants that match come first, then the server's results
+ */
+export function rankMentionSuggestions(
+  term: string,
+  participants: MentionParticipant[],
+  results: MentionUser[],
+  options: { exclude?: string[]; limit?: number } = {}
+): AutocompleteSuggestion[] {
+  const { exclude = [], limit = MAX_AUTOCOMPLETE_SUGGESTIONS } = options;
+  const seen = new Set(exclude.map((username) => username.toLowerCase()));
+  const suggestions: AutocompleteSuggestion[] = [];
+
+  const add = (
+    user: { username: string; name?: string | null },
+    avatar: { avatarUrl?: string; avatarTemplate?: string }
+  ) => {
+    const key = user.username.toLowerCase();
+    if (seen.has(key) || suggestions.length >= limit) return;
+    seen.add(key);
+    suggestions.push({ type: 'user', key: `user:${key}`, username: user.username, name: user.name, ...avatar });
+  };
+
+  participants
+    .filter((user) => matchesUser(user, term))
+    .forEach((user) => add(user, { avatarUrl: user.avatarUrl }));
+  results.forEach((user) => add(user, { avatarTemplate: user.avatar_template }));
+  return suggestions;
+}
+
+export function getHashtagRef(category: HashtagCategory): string {
+  return category.parent_category?.slug ? `${category.parent_category.slug}:${category.slug}` : category.slug;
+}
+
+/**
+ * Categories whose slug or name matches, prefix matches first
+ */
+export function filterHashtagSuggestions(
+  term: string,
+  categories: HashtagCategory[],
+  limit: number = MAX_AUTOCOMPLETE_SUGGESTIONS
+): AutocompleteSuggestion[] {
+  const needle = term.toLowerCase();
+  const scored = categories
+    .map((category) => {
+      const slug = category.slug.toLowerCase();
+      const name = category.name.toLowerCase();
+      const ref = getHashtagRef(category).toLowerCase();
+      const score =
+        !needle || slug.startsWith(needle) || ref.startsWith(needle)
+          ? 0
+          : name.startsWith(needle)
+            ? 1
+            : slug.includes(needle) || name.includes(needle)
+              ? 2
+              : -1;
+      return { category, score };
+    })
+    .filter(({ score }) => score >= 0);
+
+  // Stable sort keeps the caller's order (most active first) within a score
+  scored.sort((a, b) => a.score - b.score);
+
+  return scored.slice(0, limit).map(({ category }) => ({
+    type: 'hashtag' as const,
+    key: `hashtag:${category.id}`,
+    ref: getHashtagRef(category),
+    name: category.name,
+    color: category.color,
+    parentName: category.parent_category?.name,
+  }));
+}
+
+/**
+ * Move the highlighted row, wrapping around at either end
+ */
+export function moveHighlight(index: number, delta: number, count: number): number {
+  if (count <= 0) return 0;
+  return (((index + delta) % count) + count) % count;
+}
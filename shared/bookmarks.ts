@@ -0,0 +1,247 @@
+/**
+ * Bookmarks
+ *
+ * Maps Discourse's bookmark payloads (`/u/{username}/bookmarks.json` and the
+ * `bookmarks` a topic carries for the current user) and works out reminder
+ * times the way Discourse's bookmark modal offers them: later today,
+ * tomorrow morning, next week, or a day and hour picked by hand.
+ */
+
+// Discourse Bookmark.auto_delete_preferences
+export const BOOKMARK_AUTO_DELETE = {
+  never: 0,
+  whenReminderSent: 1,
+  onOwnerReply: 2,
+  clearReminder: 3,
+} as const;
+
+export type BookmarkAutoDeletePreference = (typeof BOOKMARK_AUTO_DELETE)[keyof typeof BOOKMARK_AUTO_DELETE];
+
+export const BOOKMARK_AUTO_DELETE_OPTIONS: { value: BookmarkAutoDeletePreference; label: string }[] = [
+  { value: BOOKMARK_AUTO_DELETE.clearReminder, label: 'Keep bookmark and clear reminder' },
+  { value: BOOKMARK_AUTO_DELETE.never, label: 'Keep bookmark and reminder' },
+  { value: BOOKMARK_AUTO_DELETE.whenReminderSent, label: 'Delete once the reminder is sent' },
+  { value: BOOKMARK_AUTO_DELETE.onOwnerReply, label: 'Delete once I reply' },
+];
+
+export type BookmarkableType = 'Post' | 'Topic';
+
+export interface Bookmark {
+  id: number;
+  name: string;
+  // ISO time; null without a reminder
+  reminderAt: string | null;
+  reminderLastSentAt: string | null;
+  autoDeletePreference: BookmarkAutoDeletePreference;
+  bookmarkableType: BookmarkableType;
+  bookmarkableId: number;
+  topicId: number | null;
+  // Post bookmarks only, when Discourse sends it
+  postNumber: number | null;
+  title: string;
+  excerpt: string;
+  createdAt: string;
+}
+
+// What can be set when creating or editing a bookmark
+export interface BookmarkInput {
+  name?: string;
+  reminderAt?: string | null;
+  autoDeletePreference?: BookmarkAutoDeletePreference;
+}
+
+export type ReminderPreset = 'none' | 'later_today' | 'tomorrow' | 'next_week' | 'custom';
+
+export const REMINDER_PRESET_LABELS: Record<ReminderPreset, string> = {
+  none: 'No reminder',
+  later_today: 'Later today',
+  tomorrow: 'Tomorrow',
+  next_week: 'Next week',
+  custom: 'Custom',
+};
+
+// Discourse's "morning" for tomorrow and next week reminders
+const START_OF_DAY_HOUR = 8;
+const LATER_TODAY_HOURS = 3;
+
+function readAutoDeletePreference(value: unknown): BookmarkAutoDeletePreference {
+  const preference = Number(value);
+  return (Object.values(BOOKMARK_AUTO_DELETE) as number[]).includes(preference)
+    ? (preference as BookmarkAutoDeletePreference)
+    : BOOKMARK_AUTO_DELETE.clearReminder;
+}
+
+function stripTags(value: string): string {
+  return value
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .trim();
+}
+
+/**
+ * A bookmark from Discourse, or null when the payload isn't one
+ */
+export function parseBookmark(raw: any): Bookmark | null {
+  if (!raw || typeof raw.id !== 'number') return null;
+
+  const bookmarkableType: BookmarkableType = raw.bookmarkable_type === 'Topic' ? 'Topic' : 'Post';
+  const topicId = raw.topic_id ?? (bookmarkableType === 'Topic' ? raw.bookmarkable_id : null);
+
+  return {
+    id: raw.id,
+    name: raw.name || '',
+    reminderAt: raw.reminder_at || null,
+    reminderLastSentAt: raw.reminder_last_sent_at || null,
+    autoDeletePreference: readAutoDeletePreference(raw.auto_delete_preference),
+    bookmarkableType,
+    bookmarkableId: Number(raw.bookmarkable_id) || 0,
+    topicId: typeof topicId === 'number' ? topicId : null,
+    postNumber: typeof raw.linked_post_number === 'number' ? raw.linked_post_number : null,
+    title: stripTags(raw.fancy_title || raw.title || ''),
+    excerpt: stripTags(raw.excerpt || ''),
+    createdAt: raw.created_at || '',
+  };
+}
+
+/**
+ * The current user's bookmarks on a topic payload (`bookmarks` on /t/{id}.json).
+ * They come without the topic, so its ID and title are filled in.
+ */
+export function parseTopicBookmarks(topic: any): Bookmark[] {
+  if (!topic || !Array.isArray(topic.bookmarks)) return [];
+
+  return (topic.bookmarks as any[])
+    .map((raw) => parseBookmark({ topic_id: topic.id, title: topic.fancy_title || topic.title, ...raw }))
+    .filter((bookmark): bookmark is Bookmark => !!bookmark);
+}
+
+/**
+ * The bookmark that marks a Byte as saved: the topic bookmark, else one on its
+ * first post
+ */
+export function findByteBookmark(bookmarks: Bookmark[], firstPostId?: number): Bookmark | null {
+  return (
+    bookmarks.find((bookmark) => bookmark.bookmarkableType === 'Topic') ||
+    bookmarks.find((bookmark) => bookmark.bookmarkableType === 'Post' && bookmark.bookmarkableId === firstPostId) ||
+    null
+  );
+}
+
+function atHour(date: Date, hour: number): Date {
+  const next = new Date(date);
+  next.setHours(hour, 0, 0, 0);
+  return next;
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
+
+/**
+ * When a reminder preset goes off; null for no reminder, a custom time,
+ * or "later today" once it would run into tomorrow
+ */
+export function getReminderPresetTime(preset: ReminderPreset, now: Date = new Date()): Date | null {
+  switch (preset) {
+    case 'later_today': {
+      const later = new Date(now.getTime() + LATER_TODAY_HOURS * 60 * 60 * 1000);
+      // Round up to the hour
+      if (later.getMinutes() > 0 || later.getSeconds() > 0 || later.getMilliseconds() > 0) {
+        later.setHours(later.getHours() + 1, 0, 0, 0);
+      }
+      return isSameDay(later, now) ? later : null;
+    }
+    case 'tomorrow':
+      return atHour(addDays(now, 1), START_OF_DAY_HOUR);
+    case 'next_week': {
+      // Next Monday, or a week from today when today is Monday
+      const daysUntilMonday = ((8 - now.getDay()) % 7) || 7;
+      return atHour(addDays(now, daysUntilMonday), START_OF_DAY_HOUR);
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Presets that make sense right now ("later today" drops out in the evening)
+ */
+export function getAvailableReminderPresets(now: Date = new Date()): ReminderPreset[] {
+  return (['none', 'later_today', 'tomorrow', 'next_week', 'custom'] as ReminderPreset[]).filter(
+    (preset) => preset !== 'later_today' || !!getReminderPresetTime(preset, now)
+  );
+}
+
+/**
+ * A custom reminder `dayOffset` days from today at `hour`:00; null when that
+ * is not in the future
+ */
+export function buildCustomReminder(now: Date, dayOffset: number, hour: number): Date | null {
+  const reminder = atHour(addDays(now, dayOffset), hour);
+  return reminder.getTime() > now.getTime() ? reminder : null;
+}
+
+/**
+ * The preset an existing reminder matches, so the sheet can show it selected
+ */
+export function getReminderPreset(reminderAt: string | null, now: Date = new Date()): ReminderPreset {
+  if (!reminderAt) return 'none';
+  const time = new Date(reminderAt).getTime();
+  const match = (['later_today', 'tomorrow', 'next_week'] as ReminderPreset[]).find(
+    (preset) => getReminderPresetTime(preset, now)?.getTime() === time
+  );
+  return match ?? 'custom';
+}
+
+/**
+ * "due" once the reminder time has passed, "upcoming" before, null without one
+ */
+export function getReminderStatus(
+  bookmark: Pick<Bookmark, 'reminderAt'>,
+  now: Date = new Date()
+): 'due' | 'upcoming' | null {
+  if (!bookmark.reminderAt) return null;
+  return new Date(bookmark.reminderAt).getTime() <= now.getTime() ? 'due' : 'upcoming';
+}
+
+/**
+ * "Today at 3:00 PM", "Tomorrow at 8:00 AM", "Mon, Oct 20 at 8:00 AM"
+ */
+export function formatReminderTime(value: string | Date, now: Date = new Date()): string {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  const time = date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+  if (isSameDay(date, now)) return `Today at ${time}`;
+  if (isSameDay(date, addDays(now, 1))) return `Tomorrow at ${time}`;
+
+  const day = date.toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: date.getFullYear() !== now.getFullYear() ? 'numeric' : undefined,
+  });
+  return `${day} at ${time}`;
+}
+
+/**
+ * Request body for POST /bookmarks.json and PUT /bookmarks/{id}.json.
+ * An empty reminder is sent as "" so Discourse clears it.
+ */
+export function toBookmarkParams(input: BookmarkInput): Record<string, string | number> {
+  const params: Record<string, string | number> = {};
+  if (input.name !== undefined) params.name = input.name.trim();
+  if (input.reminderAt !== undefined) params.reminder_at = input.reminderAt ?? '';
+  if (input.autoDeletePreference !== undefined) params.auto_delete_preference = input.autoDeletePreference;
+  return params;
+}
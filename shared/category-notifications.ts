@@ -0,0 +1,77 @@
+/**
+ * Category notification levels
+ *
+ * Hub and Teret subscriptions are Discourse category notification levels.
+ * Anything above "regular" counts as subscribed.
+ */
+
+import { CATEGORY_NOTIFICATION_LEVELS, CategoryNotificationLevel } from './discourseApi';
+
+export interface CategoryNotificationLevelOption {
+  level: CategoryNotificationLevel;
+  label: string;
+  description: string;
+}
+
+// Same order and wording as the Discourse web picker
+export const CATEGORY_NOTIFICATION_LEVEL_OPTIONS: CategoryNotificationLevelOption[] = [
+  {
+    level: CATEGORY_NOTIFICATION_LEVELS.watching,
+    label: 'Watching',
+    description: 'Get notified of every new Byte and reply.',
+  },
+  {
+    level: CATEGORY_NOTIFICATION_LEVELS.tracking,
+    label: 'Tracking',
+    description: 'Show a count of new replies; notify on mentions and replies to you.',
+  },
+  {
+    level: CATEGORY_NOTIFICATION_LEVELS.watchingFirstPost,
+    label: 'Watching First Post',
+    description: 'Get notified of every new Byte, but not its replies.',
+  },
+  {
+    level: CATEGORY_NOTIFICATION_LEVELS.regular,
+    label: 'Normal',
+    description: 'Only notify when someone mentions or replies to you.',
+  },
+  {
+    level: CATEGORY_NOTIFICATION_LEVELS.muted,
+    label: 'Muted',
+    description: 'Never notify, and hide its Bytes from Latest.',
+  },
+];
+
+export function isSubscribedLevel(level: CategoryNotificationLevel): boolean {
+  return level >= CATEGORY_NOTIFICATION_LEVELS.tracking;
+}
+
+export function getCategoryNotificationLevelOption(
+  level: CategoryNotificationLevel
+): CategoryNotificationLevelOption {
+  return (
+    CATEGORY_NOTIFICATION_LEVEL_OPTIONS.find((option) => option.level === level) ??
+    CATEGORY_NOTIFICATION_LEVEL_OPTIONS[3]
+  );
+}
+
+/**
+ * Collect notification levels from a /categories.json category list,
+ * including nested subcategories (Terets)
+ */
+export function extractCategoryNotificationLevels(
+  categories: any[]
+): Record<number, CategoryNotificationLevel> {
+  const levels: Record<number, CategoryNotificationLevel> = {};
+
+  const visit = (category: any) => {
+    if (typeof category?.id !== 'number') return;
+    if (typeof category.notification_level === 'number') {
+      levels[category.id] = category.notification_level;
+    }
+    (category.subcategory_list || []).forEach(visit);
+  };
+
+  categories.forEach(visit);
+  return levels;
+}
@@ -0,0 +1,148 @@
+/**
+ * Comment stream paging helpers
+ *
+ * Discourse returns the full list of post IDs for a topic in
+ * `post_stream.stream` but only embeds the first chunk of posts. These
+ * helpers describe which slice of that stream a page holds and which
+ * slice to fetch next, in either direction.
+ */
+
+import type { InfiniteData } from '@tanstack/react-query';
+import type { Comment } from './discourseApi';
+
+// Matches Discourse's default chunk size for /t/{id}/posts.json
+export const COMMENT_STREAM_CHUNK_SIZE = 20;
+
+export interface CommentStreamPage {
+  comments: Comment[];
+  // Every comment post ID in the byte, shared by all pages
+  stream: number[];
+  // Slice of `stream` this page covers: [start, end)
+  start: number;
+  end: number;
+  byteTitle: string;
+}
+
+export interface CommentStreamWindow {
+  start: number;
+  end: number;
+  postIds: number[];
+  byteTitle: string;
+}
+
+/**
+ * Locate the loaded comments within the stream. Falls back to the head of
+ * the stream when none of the comments are found (e.g. a byte with no replies).
+ */
+export function getLoadedRange(stream: number[], comments: Comment[]): { start: number; end: number } {
+  const indexes = comments
+    .map((comment) => stream.indexOf(comment.id))
+    .filter((index) => index >= 0);
+
+  if (indexes.length === 0) {
+    return { start: 0, end: Math.min(comments.length, stream.length) };
+  }
+
+  return { start: Math.min(...indexes), end: Math.max(...indexes) + 1 };
+}
+
+/**
+ * Next window after the last loaded page, or undefined at the end of the stream
+ */
+export function getNextCommentWindow(
+  lastPage: CommentStreamPage,
+  chunkSize: number = COMMENT_STREAM_CHUNK_SIZE
+): CommentStreamWindow | undefined {
+  const { stream, end, byteTitle } = lastPage;
+  if (end >= stream.length) {
+    return undefined;
+  }
+
+  const nextEnd = Math.min(end + chunkSize, stream.length);
+  return { start: end, end: nextEnd, postIds: stream.slice(end, nextEnd), byteTitle };
+}
+
+/**
+ * Window before the first loaded page, or undefined at the start of the stream
+ */
+export function getPreviousCommentWindow(
+  firstPage: CommentStreamPage,
+  chunkSize: number = COMMENT_STREAM_CHUNK_SIZE
+): CommentStreamWindow | undefined {
+  const { stream, start, byteTitle } = firstPage;
+  if (start <= 0) {
+    return undefined;
+  }
+
+  const previousStart = Math.max(start - chunkSize, 0);
+  return { start: previousStart, end: start, postIds: stream.slice(previousStart, start), byteTitle };
+}
+
+/**
+ * Flatten loaded pages into a single list, dropping any duplicates that
+ * appear when the stream shifts between fetches
+ */
+export function flattenCommentPages(data: InfiniteData<CommentStreamPage> | undefined): Comment[] {
+  if (!data) {
+    return [];
+  }
+
+  const seen = new Set<number>();
+  const comments: Comment[] = [];
+  data.pages.forEach((page) => {
+    page.comments.forEach((comment) => {
+      if (!seen.has(comment.id)) {
+        seen.add(comment.id);
+        comments.push(comment);
+      }
+    });
+  });
+  return comments;
+}
+
+/**
+ * Apply an update to the comments of every loaded page
+ */
+export function updateCommentPages(
+  data: InfiniteData<CommentStreamPage> | undefined,
+  update: (comments: Comment[]) => Comment[]
+): InfiniteData<CommentStreamPage> | undefined {
+  if (!data) {
+    return data;
+  }
+
+  return {
+    ...data,
+    pages: data.pages.map((page) => ({ ...page, comments: update(page.comments) })),
+  };
+}
+
+/**
+ * Add a newly created comment to the end of the stream. It is shown right
+ * away when the last page is loaded; otherwise it arrives when paging forward.
+ */
+export function appendCommentToPages(
+  data: InfiniteData<CommentStreamPage> | undefined,
+  comment: Comment
+): InfiniteData<CommentStreamPage> | undefined {
+  if (!data || data.pages.length === 0) {
+    return data;
+  }
+
+  const lastIndex = data.pages.length - 1;
+  const lastPage = data.pages[lastIndex];
+  if (lastPage.stream.includes(comment.id)) {
+    return data;
+  }
+
+  const atEnd = lastPage.end >= lastPage.stream.length;
+  const stream = [...lastPage.stream, comment.id];
+  return {
+    ...data,
+    pages: data.pages.map((page, index) =>
+      index === lastIndex && atEnd
+        ? { ...page, stream, end: stream.length, comments: [...page.comments, comment] }
+        : { ...page, stream }
+    ),
+  };
+}
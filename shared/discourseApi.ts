@@ -1,7 +1,15 @@
-// Import Constants for Expo config
-import Constants from 'expo-constants';
 import { authHeaders } from '../lib/auth';
-const config = Constants.expoConfig?.extra || {};
+import { getActiveAccountId, getActiveSiteUrl, onActiveAccountChange } from './accounts';
+import { PostFlagState, getPostFlagState } from './post-flags';
+import { SiteSettings, parseSiteSettings } from './site-settings';
+import { Poll, parsePoll } from './polls';
+import { MentionUser } from './autocomplete';
+import { PostReactions, ReactionUsers, parsePostReactions, parseReactionUsers } from './reactions';
+import { CustomEmoji, parseCustomEmojis } from './emoji';
+import { TagSearchResult, parseTagSearch, readTagNames } from './tags';
+import { SMALL_ACTION_POST_TYPE } from './moderation';
+import { Bookmark, BookmarkInput, BookmarkableType, parseBookmark, parseTopicBookmarks, toBookmarkParams } from './bookmarks';
+import { UserDraft, parseUserDraft } from './drafts';
 
 // Environment-aware storage import
 let AsyncStorage: any;
@@ -59,6 +67,9 @@ const RATE_LIMIT_CONFIG = {
   MAX_RETRIES: 3,
 };
 
+// Drafts per page of /drafts.json
+const DRAFTS_PAGE_SIZE = 30;
+
 // Input validation patterns
 const VALIDATION_PATTERNS = {
   USERNAME: /^[a-zA-Z0-9_-]{3,20}$/,
@@ -85,10 +96,35 @@ export interface Hub {
   topicsCount: number;
   postsCount: number;
   isSubscribed: boolean;
+  notificationLevel: CategoryNotificationLevel;
   // Mapped from Discourse Category
   discourseId: number;
 }
 
+// Discourse category notification levels (NotificationLevels in Discourse core)
+export type CategoryNotificationLevel = 0 | 1 | 2 | 3 | 4;
+
+export const CATEGORY_NOTIFICATION_LEVELS = {
+  muted: 0,
+  regular: 1,
+  tracking: 2,
+  watching: 3,
+  watchingFirstPost: 4,
+} as const;
+
+// Discourse topic notification levels (TopicUser.notification_levels)
+export type TopicNotificationLevel = 0 | 1 | 2 | 3;
+
+export const TOPIC_NOTIFICATION_LEVELS = {
+  muted: 0,
+  regular: 1,
+  tracking: 2,
+  watching: 3,
+} as const;
+
+// Staff states toggled through PUT /t/{id}/status
+export type TopicStatus = 'closed' | 'archived' | 'visible' | 'pinned' | 'pinned_globally';
+
 export interface Byte {
   id: number;
   title: string;
@@ -133,10 +169,29 @@ export interface Comment {
   updatedAt: string;
   likeCount: number;
   isLiked: boolean;
+  // Current user's flag on this comment, from actions_summary
+  flagState?: PostFlagState;
+  // discourse-reactions data; null when the plugin isn't running
+  reactions?: PostReactions | null;
+  // Small-action posts (closed, pinned, moved replies…) carry the action instead of text
+  actionCode?: string;
+  // Deleted posts stay in the stream for staff, who can recover them
+  isDeleted?: boolean;
+  canDelete?: boolean;
+  canRecover?: boolean;
   // Mapped from Discourse Post
   discourseId: number;
 }
 
+export type PrivateMessageFolder = 'inbox' | 'sent' | 'archive';
+
+export interface CommentStream {
+  comments: Comment[];
+  // Post IDs of every comment in the byte, in display order
+  stream: number[];
+  byteTitle: string;
+}
+
 export interface AppUser {
   id: string;
   username: string;
@@ -149,12 +204,17 @@ export interface AppUser {
   bytes: number;
   comments: number;
   joinedDate: string;
+  // Staff roles, from /session/current.json for the signed-in user
+  admin?: boolean;
+  moderator?: boolean;
 }
 
 // User Profile Types
 export interface DiscourseUser {
   id: number;
   username: string;
+  admin?: boolean;
+  moderator?: boolean;
   name?: string;
   email?: string;
   avatar_template: string;
@@ -235,6 +295,32 @@ export interface DiscourseApiResponse<T> {
   error?: string;
   errors?: string[];
   status?: number; // HTTP status code for error handling
+  networkError?: boolean; // The request never reached the server (offline, DNS failure, timeout)
+}
+
+// Purpose of an upload, sent as `type` / `upload_type`
+export type UploadType = 'composer' | 'avatar' | 'profile_background' | 'card_background';
+
+// An upload as returned by /uploads.json and complete-multipart
+export interface DiscourseUpload {
+  id: number;
+  url: string;
+  original_filename: string;
+  filesize: number;
+  width?: number | null;
+  height?: number | null;
+  thumbnail_width?: number | null;
+  thumbnail_height?: number | null;
+  extension: string;
+  short_url: string;
+  short_path?: string;
+  human_filesize?: string;
+}
+
+export interface MultipartUploadSession {
+  key: string;
+  unique_identifier: string;
+  external_upload_identifier: string;
 }
 
 export interface LoginResponse {
@@ -249,6 +335,8 @@ export interface SearchResult {
   users: AppUser[];
   hubs: Hub[];
   totalResults: number;
+  // Discourse has another page of full results (`more_full_page_results`)
+  hasMore?: boolean;
 }
 
 // Security validation functions
@@ -341,6 +429,8 @@ class DiscourseApiService {
     options: RequestInit = {},
     retries: number = 3
   ): Promise<DiscourseApiResponse<T>> {
+    // Set when fetch itself threw, as opposed to a failure handling the response
+    let fetchFailed = false;
     try {
       // Rate limiting check
       if (!this.rateLimiter.canMakeRequest(endpoint)) {
@@ -402,8 +492,12 @@ class DiscourseApiService {
         }
       };
 
+      // The account whose key this request carries; the active account can
+      // change before the response comes back
+      let requestAccountId = getActiveAccountId();
       try {
         const authHeadersData = await authHeaders();
+        requestAccountId = getActiveAccountId();
         
         if (authHeadersData['User-Api-Key']) {
           mergeAuthHeaders(authHeadersData);
@@ -443,6 +537,7 @@ class DiscourseApiService {
             // Try getting auth headers again
             try {
               const retryHeaders = await authHeaders();
+              requestAccountId = getActiveAccountId();
               if (retryHeaders['User-Api-Key']) {
                 mergeAuthHeaders(retryHeaders);
                 console.log('🔑 API key found on retry');
@@ -491,9 +586,16 @@ class DiscourseApiService {
         }
       }
 
-      // Create abort controller for timeout
+      // Create abort controller for timeout; a caller's signal (a superseded
+      // search, say) aborts the request too
+      const callerSignal = options.signal;
+      if (callerSignal?.aborted) {
+        return { success: false, error: 'Request cancelled' };
+      }
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), timeout);
+      const abortFromCaller = () => controller.abort();
+      callerSignal?.addEventListener('abort', abortFromCaller);
 
       try {
         const response = await fetch(url, {
@@ -504,6 +606,7 @@ class DiscourseApiService {
         });
 
         clearTimeout(timeoutId);
+        callerSignal?.removeEventListener('abort', abortFromCaller);
         console.log(`📡 Response status: ${response.status} ${response.statusText}`);
 
         // Handle HTTP errors securely
@@ -606,11 +709,11 @@ class DiscourseApiService {
             
             // Clear User API Key only if it's a real authentication failure (not CSRF or permission error on GET)
             // Also don't clear if auth is currently in progress (to prevent race condition)
-            if (shouldClearKeys && !isAuthInProgress) {
+            if (shouldClearKeys && !isAuthInProgress && headers['User-Api-Key']) {
               try {
                 const UserApiKeyManager = require('./userApiKeyManager').UserApiKeyManager;
-                await UserApiKeyManager.clearApiKey();
-                console.log('🔑 User API Key cleared due to 401/403');
+                await UserApiKeyManager.expireApiKey(requestAccountId);
+                console.log('🔑 User API Key cleared due to 401/403', { accountId: requestAccountId });
               } catch (error) {
                 console.warn('Failed to clear User API Key', error);
               }
@@ -714,9 +817,14 @@ class DiscourseApiService {
         };
       } catch (fetchError) {
         clearTimeout(timeoutId);
+        callerSignal?.removeEventListener('abort', abortFromCaller);
         
         // Handle timeout and network errors
         if (fetchError instanceof Error) {
+          // Cancelled by the caller - nobody is waiting for a retry
+          if (callerSignal?.aborted) {
+            return { success: false, error: 'Request cancelled' };
+          }
           if (fetchError.name === 'AbortError') {
             console.error('⏰ Request timeout');
             if (retries > 0) {
@@ -727,10 +835,12 @@ class DiscourseApiService {
             return {
               success: false,
               error: 'Request timeout - please check your connection and try again',
+              networkError: true,
             };
           }
         }
         
+        fetchFailed = true;
         throw fetchError;
       }
     } catch (error) {
@@ -751,6 +861,7 @@ class DiscourseApiService {
       return {
         success: false,
         error: errorMessage,
+        networkError: fetchFailed,
       };
     }
   }
@@ -826,6 +937,7 @@ class DiscourseApiService {
       // Existing endpoints
       '/categories.json',
       '/site.json',
+      '/site/basic-info.json',
       '/session/current.json',
       '/notifications.json',
       
@@ -856,7 +968,8 @@ class DiscourseApiService {
   private getCacheDuration(endpoint: string): number {
     // Long cache for stable data
     if (endpoint.includes('/categories.json') || 
-        endpoint.includes('/site.json')) {
+        endpoint.includes('/site.json') ||
+        endpoint.includes('/site/basic-info.json')) {
       return 30 * 60 * 1000; // 30 minutes
     }
     
@@ -1100,7 +1213,7 @@ class DiscourseApiService {
     updates: Partial<DiscourseUser>
   ): Promise<DiscourseApiResponse<DiscourseUser>> {
     if (!SecurityValidator.validateUsername(username)) {
-      return { success: false, error: 'Invalid username format' };
+      return { success: false, error: 'Invalid username format', status: 400 };
     }
     
     // Sanitize updates
@@ -1114,259 +1227,71 @@ class DiscourseApiService {
     });
   }
 
-  async uploadAvatar(username: string, imageFile: File | { uri: string; type?: string; name?: string; fileSize?: number }): Promise<DiscourseApiResponse<any>> {
+  // Use an uploaded image (type "avatar") as the user's avatar
+  async pickUploadedAvatar(username: string, uploadId: number): Promise<DiscourseApiResponse<any>> {
     if (!SecurityValidator.validateUsername(username)) {
       return { success: false, error: 'Invalid username format' };
     }
-
-    // Handle React Native file format (from expo-image-picker)
-    let fileType: string;
-    let fileSize: number | undefined;
-    
-    if ('uri' in imageFile) {
-      // React Native format
-      fileType = imageFile.type || 'image/jpeg';
-      fileSize = imageFile.fileSize;
-    } else {
-      // Browser File format
-      fileType = imageFile.type;
-      fileSize = imageFile.size;
-    }
-
-    // Validate file type and size
-    const allowedTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/jpg'];
-    if (!allowedTypes.some(type => fileType.includes(type))) {
-      return { success: false, error: 'Invalid file type. Only JPEG, PNG, and GIF are allowed.' };
-    }
-
-    const maxSize = 5 * 1024 * 1024; // 5MB
-    if (fileSize && fileSize > maxSize) {
-      return { success: false, error: 'File too large. Maximum size is 5MB.' };
-    }
-
-    try {
-      // Step 1: Upload the image to /uploads.json
-      const uploadFormData = new FormData();
-      
-      if ('uri' in imageFile) {
-        // React Native: append as object with uri, type, name
-        uploadFormData.append('file', {
-          uri: imageFile.uri,
-          type: fileType,
-          name: imageFile.name || 'avatar.jpg',
-        } as any);
-      } else {
-        // Browser: append File object directly
-        uploadFormData.append('file', imageFile);
-      }
-      
-      uploadFormData.append('type', 'avatar');
-      
-      // Get user ID for the upload
-      const userResponse = await this.getUserProfile(username);
-      if (!userResponse.success || !userResponse.data) {
-        console.error('❌ uploadAvatar: Failed to get user information', {
-          success: userResponse.success,
-          error: userResponse.error,
-          hasData: !!userResponse.data,
-        });
-        return { success: false, error: 'Failed to get user information' };
-      }
-      
-      const userId = userResponse.data.id;
-      if (!userId) {
-        console.error('❌ uploadAvatar: User ID is missing', {
-          hasData: !!userResponse.data,
-          dataKeys: userResponse.data ? Object.keys(userResponse.data) : [],
-          username: userResponse.data.username,
-        });
-        return { success: false, error: 'User ID is missing from user data' };
-      }
-      
-      uploadFormData.append('user_id', userId.toString());
-
-      console.log('📤 Step 1: Uploading avatar image to /uploads.json');
-      const uploadResponse = await this.makeRequest<any>('/uploads.json', {
-        method: 'POST',
-        body: uploadFormData,
-        headers: {
-          // Don't set Content-Type for FormData, let React Native/browser set it
-        },
-      });
-
-      if (!uploadResponse.success || !uploadResponse.data) {
-        console.error('❌ Avatar upload failed:', uploadResponse.error);
-        return { 
-          success: false, 
-          error: uploadResponse.error || 'Failed to upload avatar image' 
-        };
-      }
-
-      const uploadId = uploadResponse.data.id || uploadResponse.data.upload_id;
-      if (!uploadId) {
-        console.error('❌ No upload_id returned from upload:', uploadResponse.data);
-        return { 
-          success: false, 
-          error: 'Upload succeeded but no upload ID returned' 
-        };
-      }
-
-      console.log('✅ Step 1 complete, upload_id:', uploadId);
-
-      // Step 2: Set the uploaded image as the avatar
-      console.log('📤 Step 2: Setting uploaded image as avatar');
-      const pickResponse = await this.makeRequest<any>(`/u/${encodeURIComponent(username)}/preferences/avatar/pick.json`, {
-        method: 'PUT',
-        body: JSON.stringify({
-          upload_id: uploadId,
-          type: 'uploaded',
-        }),
-      });
-
-      if (!pickResponse.success) {
-        console.error('❌ Failed to set avatar:', pickResponse.error);
-        return { 
-          success: false, 
-          error: pickResponse.error || 'Failed to set uploaded image as avatar' 
-        };
-      }
-
-      console.log('✅ Avatar upload and set complete');
-      return {
-        success: true,
-        data: pickResponse.data,
-      };
-    } catch (error) {
-      console.error('❌ Avatar upload exception:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error during avatar upload',
-      };
-    }
+    return this.makeRequest<any>(`/u/${encodeURIComponent(username)}/preferences/avatar/pick.json`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        upload_id: uploadId,
+        type: 'uploaded',
+      }),
+    });
   }
 
-  // Upload profile/hero background image
-  async uploadProfileHeader(
-    username: string,
-    imageFile: { uri: string; type?: string; name?: string; fileSize?: number }
-  ): Promise<DiscourseApiResponse<any>> {
-    if (!SecurityValidator.validateUsername(username)) {
-      return { success: false, error: 'Invalid username format' };
-    }
-
-    // Validate file type and size (reuse avatar constraints)
-    const fileType = imageFile.type || 'image/jpeg';
-    const fileSize = imageFile.fileSize;
-    const allowedTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/jpg'];
-    if (!allowedTypes.some(type => fileType.includes(type))) {
-      return { success: false, error: 'Invalid file type. Only JPEG, PNG, and GIF are allowed.' };
-    }
-    const maxSize = 5 * 1024 * 1024; // 5MB
-    if (fileSize && fileSize > maxSize) {
-      return { success: false, error: 'File too large. Maximum size is 5MB.' };
-    }
+  // Use an uploaded image (type "profile_background") as the profile and card background
+  async setProfileBackground(username: string, uploadId: number): Promise<DiscourseApiResponse<DiscourseUser>> {
+    return this.updateUserProfile(username, {
+      profile_background_upload_id: uploadId,
+      card_background_upload_id: uploadId,
+    } as any);
+  }
 
-    try {
-      // Step 1: Upload the image
-      const uploadFormData = new FormData();
-      uploadFormData.append('file', {
-        uri: imageFile.uri,
-        type: fileType,
-        name: imageFile.name || 'profile-header.jpg',
-      } as any);
-      uploadFormData.append('type', 'profile_background');
-
-      // Get user ID for the upload
-      const userResponse = await this.getUserProfile(username);
-      if (!userResponse.success || !userResponse.data?.id) {
-        return { success: false, error: 'Failed to get user information' };
-      }
-      uploadFormData.append('user_id', userResponse.data.id.toString());
+  // Direct-to-S3 multipart uploads (sites with enable_direct_s3_uploads)
+  async createMultipartUpload(params: {
+    fileName: string;
+    fileSize: number;
+    uploadType: UploadType;
+  }): Promise<DiscourseApiResponse<MultipartUploadSession>> {
+    return this.makeRequest<MultipartUploadSession>('/uploads/create-multipart.json', {
+      method: 'POST',
+      body: JSON.stringify({
+        file_name: params.fileName,
+        file_size: params.fileSize,
+        upload_type: params.uploadType,
+      }),
+    });
+  }
 
-      const uploadResponse = await this.makeRequest<any>('/uploads.json', {
+  async presignMultipartParts(
+    uniqueIdentifier: string,
+    partNumbers: number[]
+  ): Promise<DiscourseApiResponse<{ presigned_urls: Record<string, string> }>> {
+    return this.makeRequest<{ presigned_urls: Record<string, string> }>(
+      '/uploads/batch-presign-multipart-parts.json',
+      {
         method: 'POST',
-        body: uploadFormData,
-      });
-
-      if (!uploadResponse.success || !uploadResponse.data) {
-        return { success: false, error: uploadResponse.error || 'Failed to upload image' };
-      }
-
-      const uploadId = uploadResponse.data.id || uploadResponse.data.upload_id;
-      if (!uploadId) {
-        return { success: false, error: 'Upload succeeded but no upload ID returned' };
+        body: JSON.stringify({ unique_identifier: uniqueIdentifier, part_numbers: partNumbers }),
       }
-
-      // Step 2: Set as profile/card background
-      const applyResponse = await this.updateUserProfile(username, {
-        profile_background_upload_id: uploadId,
-        card_background_upload_id: uploadId,
-      } as any);
-
-      if (!applyResponse.success) {
-        return { success: false, error: applyResponse.error || 'Failed to set profile header' };
-      }
-
-      return { success: true, data: applyResponse.data };
-    } catch (error) {
-      console.error('❌ uploadProfileHeader exception:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error during profile header upload',
-      };
-    }
+    );
   }
 
-  // Upload image for composer/post content
-  async uploadImage(imageFile: { uri: string; type?: string; name?: string; fileSize?: number }): Promise<DiscourseApiResponse<{ url: string; id: number }>> {
-    // Handle React Native file format (from expo-image-picker)
-    let fileType: string;
-    let fileSize: number | undefined;
-    
-    if ('uri' in imageFile) {
-      // React Native format
-      fileType = imageFile.type || 'image/jpeg';
-      fileSize = imageFile.fileSize;
-    } else {
-      // Browser File format (fallback, though we primarily use React Native)
-      fileType = (imageFile as File).type || 'image/jpeg';
-      fileSize = (imageFile as File).size;
-    }
-
-    // Validate file type and size (same as uploadAvatar)
-    const allowedTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/jpg'];
-    if (!allowedTypes.some(type => fileType.includes(type))) {
-      return { success: false, error: 'Invalid file type. Only JPEG, PNG, and GIF are allowed.' };
-    }
-
-    const maxSize = 5 * 1024 * 1024; // 5MB
-    if (fileSize && fileSize > maxSize) {
-      return { success: false, error: 'File too large. Maximum size is 5MB.' };
-    }
-
-    const formData = new FormData();
-    
-    if ('uri' in imageFile) {
-      // React Native: append as object with uri, type, name
-      formData.append('file', {
-        uri: imageFile.uri,
-        type: fileType,
-        name: imageFile.name || `image.${fileType.split('/')[1] || 'jpg'}`,
-      } as any);
-    } else {
-      // Browser: append File object directly
-      formData.append('file', imageFile as File);
-    }
-    
-    // Include type field for composer uploads (most Discourse setups require this)
-    formData.append('type', 'composer');
+  async completeMultipartUpload(
+    uniqueIdentifier: string,
+    parts: { part_number: number; etag: string }[]
+  ): Promise<DiscourseApiResponse<DiscourseUpload>> {
+    return this.makeRequest<DiscourseUpload>('/uploads/complete-multipart.json', {
+      method: 'POST',
+      body: JSON.stringify({ unique_identifier: uniqueIdentifier, parts }),
+    });
+  }
 
-    return this.makeRequest<{ url: string; id: number }>('/uploads.json', {
+  async abortMultipartUpload(externalUploadIdentifier: string): Promise<DiscourseApiResponse<void>> {
+    return this.makeRequest<void>('/uploads/abort-multipart.json', {
       method: 'POST',
-      body: formData,
-      headers: {
-        // Don't set Content-Type for FormData, let React Native/browser set it
-      },
+      body: JSON.stringify({ external_upload_identifier: externalUploadIdentifier }),
     });
   }
 
@@ -1396,7 +1321,11 @@ class DiscourseApiService {
 
   // Notification Preferences API
   // Get user preferences (like_notification_frequency) from Discourse
-  async getUserPreferences(username: string): Promise<DiscourseApiResponse<{ likeFrequency: 'always' | 'daily' | 'weekly' | 'never' }>> {
+  async getUserPreferences(username: string): Promise<DiscourseApiResponse<{
+    likeFrequency: 'always' | 'daily' | 'weekly' | 'never';
+    // Level a topic moves to once the user replies (notification_level_when_replying)
+    replyNotificationLevel: TopicNotificationLevel;
+  }>> {
     if (!SecurityValidator.validateUsername(username)) {
       return { success: false, error: 'Invalid username format' };
     }
@@ -1407,12 +1336,19 @@ class DiscourseApiService {
       if (response.success && response.data) {
         const userData = response.data.user || response.data;
         const likeNotificationFrequency = userData?.user_option?.like_notification_frequency;
+        const whenReplying = userData?.user_option?.notification_level_when_replying;
+        // Discourse tracks a topic after replying unless the user chose otherwise
+        const replyNotificationLevel: TopicNotificationLevel =
+          typeof whenReplying === 'number' && whenReplying >= 0 && whenReplying <= 3
+            ? (whenReplying as TopicNotificationLevel)
+            : TOPIC_NOTIFICATION_LEVELS.tracking;
         
         if (typeof likeNotificationFrequency === 'number' && likeNotificationFrequency >= 0 && likeNotificationFrequency <= 3) {
           return {
             success: true,
             data: {
               likeFrequency: DISCOURSE_TO_LOCAL_FREQUENCY[likeNotificationFrequency] || 'always',
+              replyNotificationLevel,
             },
           };
         }
@@ -1422,6 +1358,7 @@ class DiscourseApiService {
           success: true,
           data: {
             likeFrequency: 'always',
+            replyNotificationLevel,
           },
         };
       }
@@ -1626,6 +1563,14 @@ class DiscourseApiService {
     };
   }
 
+  // Point the client at another site (on account switch)
+  setBaseUrl(baseUrl: string): void {
+    if (baseUrl === this.config.baseUrl) return;
+    const config = { ...this.config, baseUrl };
+    SecurityValidator.validateConfig(config);
+    this.config = config;
+  }
+
   // Cache management public methods
   public clearCache(): void {
     this.cache.clear();
@@ -1651,6 +1596,47 @@ class DiscourseApiService {
     console.log(`🔄 Cache refreshed for: ${endpoint}`);
   }
 
+  // Drop every cached response whose path starts with one of the prefixes,
+  // whatever its query string or auth state (e.g. '/t/42.json', '/t/42/')
+  evictCache(...pathPrefixes: string[]): void {
+    Array.from(this.cache.keys()).forEach((cacheKey) => {
+      // Keys are `${endpoint}_${bodyHash}_${auth|public}`
+      const endpoint = cacheKey.slice(0, cacheKey.lastIndexOf('_', cacheKey.lastIndexOf('_') - 1));
+      const path = endpoint.split('?')[0];
+      if (pathPrefixes.some((prefix) => path.startsWith(prefix))) {
+        this.cache.delete(cacheKey);
+      }
+    });
+  }
+
+  // Site
+  async getSite(): Promise<DiscourseApiResponse<any>> {
+    return this.makeRequest<any>('/site.json');
+  }
+
+  async getSiteBasicInfo(): Promise<DiscourseApiResponse<any>> {
+    return this.makeRequest<any>('/site/basic-info.json');
+  }
+
+  // Limits and rules from /site.json, plus the site's name and logo from basic-info
+  async getSiteSettings(): Promise<DiscourseApiResponse<SiteSettings>> {
+    const [siteResponse, basicInfoResponse] = await Promise.all([
+      this.getSite(),
+      this.getSiteBasicInfo(),
+    ]);
+    if (!siteResponse.success || !siteResponse.data) {
+      return { success: false, error: siteResponse.error || 'Failed to load site settings', status: siteResponse.status };
+    }
+
+    return {
+      success: true,
+      data: parseSiteSettings(
+        siteResponse.data,
+        basicInfoResponse.success ? basicInfoResponse.data : undefined
+      ),
+    };
+  }
+
   // Feed and Topics
   async getTopics(queryParams: string = ''): Promise<DiscourseApiResponse<any>> {
     const endpoint = `/latest.json${queryParams ? `?${queryParams}` : ''}`;
@@ -1722,13 +1708,13 @@ class DiscourseApiService {
   }): Promise<DiscourseApiResponse<any>> {
     // Validate required fields
     if (!topicData.title || !topicData.raw) {
-      return { success: false, error: 'Title and content are required' };
+      return { success: false, error: 'Title and content are required', status: 400 };
     }
 
     // Check authentication
     const isAuth = await this.isAuthenticated();
     if (!isAuth) {
-      return { success: false, error: 'Authentication required to create topics' };
+      return { success: false, error: 'Authentication required to create topics', status: 401 };
     }
 
     // Sanitize input
@@ -1792,8 +1778,10 @@ class DiscourseApiService {
   }
 
   // Notifications
-  async getNotifications(): Promise<DiscourseApiResponse<any>> {
-    return this.makeRequest<any>('/notifications.json');
+  // Discourse pages notifications by offset; each page links the next in load_more_notifications
+  async getNotifications(options: { offset?: number } = {}): Promise<DiscourseApiResponse<any>> {
+    const { offset = 0 } = options;
+    return this.makeRequest<any>(offset > 0 ? `/notifications.json?offset=${offset}` : '/notifications.json');
   }
 
   async markNotificationAsRead(notificationId: number): Promise<DiscourseApiResponse<void>> {
@@ -1827,6 +1815,22 @@ class DiscourseApiService {
     return this.makeRequest<any>(endpoint);
   }
 
+  async setCategoryNotificationLevel(
+    categoryId: number,
+    level: CategoryNotificationLevel
+  ): Promise<DiscourseApiResponse<void>> {
+    try {
+      return await this.makeRequest<void>(`/category/${categoryId}/notifications`, {
+        method: 'POST',
+        body: JSON.stringify({
+          notification_level: level,
+        }),
+      });
+    } catch (error) {
+      return { success: false, error: 'Network error setting category notification level' };
+    }
+  }
+
   // Like/Bookmark Actions
   async unlikePost(postId: number): Promise<DiscourseApiResponse<any>> {
     // Official Discourse API: DELETE /post_actions/{postId}.json?post_action_type_id=2
@@ -1835,39 +1839,120 @@ class DiscourseApiService {
     });
   }
 
-  async bookmarkPost(postId: number): Promise<DiscourseApiResponse<void>> {
-    try {
-      const response = await this.makeRequest<any>(`/post_actions`, {
-        method: 'POST',
-        body: JSON.stringify({
-          id: postId,
-          post_action_type_id: 1, // Bookmark action type
-        }),
-      });
+  // Bookmark a post without a name or reminder (also replays queued offline bookmarks)
+  async bookmarkPost(postId: number): Promise<DiscourseApiResponse<{ id: number }>> {
+    return this.createBookmark(postId, 'Post');
+  }
+
+  async unbookmarkPost(postId: number): Promise<DiscourseApiResponse<void>> {
+    // Bookmarks are deleted by their own ID, which the post carries for the current user
+    const postResponse = await this.getPost(postId);
+    if (!postResponse.success) {
       return {
-        success: response.success,
-        error: response.error,
+        success: false,
+        error: postResponse.error || 'Failed to find bookmark',
+        status: postResponse.status,
+        networkError: postResponse.networkError,
       };
-    } catch (error) {
-      return { success: false, error: 'Network error bookmarking post' };
     }
+    const bookmarkId = postResponse.data?.bookmark_id;
+    if (!bookmarkId) {
+      return { success: true };
+    }
+    return this.deleteBookmark(bookmarkId);
   }
 
-  async unbookmarkPost(postId: number): Promise<DiscourseApiResponse<void>> {
-    try {
-      const response = await this.makeRequest<any>(`/post_actions/${postId}`, {
-        method: 'DELETE',
-        body: JSON.stringify({
-          post_action_type_id: 1, // Bookmark action type
-        }),
-      });
+  // Bookmarks: POST /bookmarks.json, PUT/DELETE /bookmarks/{id}.json
+  async createBookmark(
+    bookmarkableId: number,
+    bookmarkableType: BookmarkableType,
+    input: BookmarkInput = {}
+  ): Promise<DiscourseApiResponse<{ id: number }>> {
+    const response = await this.makeRequest<any>('/bookmarks.json', {
+      method: 'POST',
+      body: JSON.stringify({
+        bookmarkable_id: bookmarkableId,
+        bookmarkable_type: bookmarkableType,
+        ...toBookmarkParams(input),
+      }),
+    });
+    if (!response.success || typeof response.data?.id !== 'number') {
       return {
-        success: response.success,
-        error: response.error,
+        success: false,
+        error: response.error || 'Failed to save bookmark',
+        errors: response.errors,
+        status: response.status,
+        networkError: response.networkError,
       };
-    } catch (error) {
-      return { success: false, error: 'Network error unbookmarking post' };
     }
+
+    return { success: true, data: { id: response.data.id } };
+  }
+
+  async updateBookmark(bookmarkId: number, input: BookmarkInput): Promise<DiscourseApiResponse<void>> {
+    const response = await this.makeRequest<any>(`/bookmarks/${bookmarkId}.json`, {
+      method: 'PUT',
+      body: JSON.stringify(toBookmarkParams(input)),
+    });
+    return {
+      success: response.success,
+      error: response.error,
+      errors: response.errors,
+      status: response.status,
+      networkError: response.networkError,
+    };
+  }
+
+  async deleteBookmark(bookmarkId: number): Promise<DiscourseApiResponse<void>> {
+    const response = await this.makeRequest<any>(`/bookmarks/${bookmarkId}.json`, {
+      method: 'DELETE',
+    });
+    return {
+      success: response.success,
+      error: response.error,
+      errors: response.errors,
+      status: response.status,
+      networkError: response.networkError,
+    };
+  }
+
+  // The current user's bookmarks, newest first; `query` searches names, titles and posts
+  async getBookmarks(
+    username: string,
+    options: { query?: string; page?: number } = {}
+  ): Promise<DiscourseApiResponse<{ bookmarks: Bookmark[]; hasMore: boolean }>> {
+    const params = new URLSearchParams();
+    if (options.query?.trim()) params.append('q', options.query.trim());
+    if (options.page) params.append('page', options.page.toString());
+    const queryString = params.toString();
+    const path = `/u/${encodeURIComponent(username)}/bookmarks.json`;
+
+    // Bookmarks change from this device; a cached list would bring back deleted ones
+    this.evictCache(path);
+    const response = await this.makeRequest<any>(`${path}${queryString ? `?${queryString}` : ''}`);
+    if (!response.success) {
+      return { success: false, error: response.error || 'Failed to load bookmarks', status: response.status };
+    }
+
+    // Discourse answers an empty list without the user_bookmark_list wrapper
+    const list = response.data?.user_bookmark_list ?? response.data ?? {};
+    const bookmarks = (Array.isArray(list.bookmarks) ? list.bookmarks : [])
+      .map(parseBookmark)
+      .filter((bookmark: Bookmark | null): bookmark is Bookmark => !!bookmark);
+
+    return { success: true, data: { bookmarks, hasMore: !!list.more_bookmarks_url } };
+  }
+
+  // The current user's bookmarks on a topic and its posts
+  async getTopicBookmarks(topicId: number): Promise<DiscourseApiResponse<Bookmark[]>> {
+    // Read past the cache: a bookmark saved a moment ago must be found to be removed
+    this.evictCache(`/t/${topicId}.json`);
+    const response = await this.getTopic(topicId);
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error || 'Failed to load bookmarks', status: response.status };
+    }
+
+    return { success: true, data: parseTopicBookmarks(response.data) };
   }
 
   // Comment/Reply Actions
@@ -1905,10 +1990,26 @@ class DiscourseApiService {
   async searchUsers(query: string, options: {
     limit?: number;
     order?: 'latest' | 'created' | 'updated' | 'views' | 'likes' | 'relevance';
+    signal?: AbortSignal;
   } = {}): Promise<DiscourseApiResponse<any>> {
     return this.search(query, { ...options, type: 'user' });
   }
 
+  // Users for @mention autocomplete; with a topic, its participants are ranked first
+  async searchUsersForMention(term: string, options: {
+    topicId?: number;
+    categoryId?: number;
+    limit?: number;
+  } = {}): Promise<DiscourseApiResponse<{ users: MentionUser[] }>> {
+    const params = new URLSearchParams({ term, include_groups: 'false' });
+    if (options.topicId) params.set('topic_id', String(options.topicId));
+    if (options.categoryId) params.set('category_id', String(options.categoryId));
+    if (options.limit) params.set('limit', String(options.limit));
+    return this.makeRequest<{ users: MentionUser[] }>(`/u/search/users.json?${params.toString()}`, {
+      method: 'GET',
+    }, 0);
+  }
+
   // Enhanced search method that can search across topics, categories, and users
   async search(query: string, options: {
     type?: 'topic' | 'category' | 'user' | 'all';
@@ -1920,6 +2021,10 @@ class DiscourseApiService {
     tags?: string[];
     author?: string;
     status?: 'open' | 'closed' | 'archived' | 'visible' | 'hidden';
+    // Aborts the request when the search is superseded
+    signal?: AbortSignal;
+    // 1-based page of full results
+    page?: number;
   } = {}): Promise<DiscourseApiResponse<SearchResult>> {
     const { 
       type = 'all', 
@@ -1930,7 +2035,9 @@ class DiscourseApiService {
       category,
       tags,
       author,
-      status
+      status,
+      signal,
+      page = 1,
     } = options;
     
     // Build search query with advanced parameters
@@ -1983,8 +2090,13 @@ class DiscourseApiService {
     if (period && period !== 'all') {
       endpoint += `&period=${period}`;
     }
+
+    // Add page
+    if (page > 1) {
+      endpoint += `&page=${page}`;
+    }
     
-    const response = await this.makeRequest<any>(endpoint);
+    const response = await this.makeRequest<any>(endpoint, { signal });
     
     // Log raw response for debugging
     console.log('🔍 Raw Discourse Search Response:', {
@@ -2352,7 +2464,8 @@ class DiscourseApiService {
       comments,
       users: appUsers,
       hubs,
-      totalResults
+      totalResults,
+      hasMore: !!discourseResponse.grouped_search_result?.more_full_page_results,
     };
   }
 
@@ -2405,7 +2518,9 @@ class DiscourseApiService {
       parentId: category.parent_category_id,
       topicsCount: category.topic_count || 0,
       postsCount: category.post_count || 0,
-      isSubscribed: false, // TODO: Determine from user preferences
+      // Anonymous sessions don't get a notification_level; treat them as regular
+      isSubscribed: (category.notification_level ?? 1) >= CATEGORY_NOTIFICATION_LEVELS.tracking,
+      notificationLevel: category.notification_level ?? CATEGORY_NOTIFICATION_LEVELS.regular,
       discourseId: category.id
     };
   }
@@ -2498,7 +2613,7 @@ class DiscourseApiService {
                (topic.details?.actions_summary?.some((a: any) => a.id === 2 && a.acted) || false),
       likeCount: topic.like_count || 0,
       viewCount: topic.views || 0,
-      tags: topic.tags || [],
+      tags: readTagNames(topic.tags),
       discourseId: topic.id,
       // Add bookmark state if available
       isBookmarked: topic.details?.bookmarked || false,
@@ -2510,18 +2625,30 @@ class DiscourseApiService {
       id: post.id,
       content: post.cooked, // HTML content
       rawContent: post.raw || '', // Raw markdown content
-      author: this.mapDiscourseUserToAppUser(post.user),
+      // Post payloads carry the author fields inline rather than in a nested user object
+      author: this.mapDiscourseUserToAppUser(post.user || {
+        id: post.user_id,
+        username: post.username,
+        name: post.name,
+        avatar_template: post.avatar_template,
+      }),
       byteId: post.topic_id,
       byteTitle: topic.title,
       createdAt: post.created_at,
       updatedAt: post.updated_at,
       likeCount: post.like_count || 0,
       isLiked: post.liked || false,
+      flagState: getPostFlagState(post.actions_summary),
+      reactions: parsePostReactions(post),
       replyToPostNumber: post.reply_to_post_number,
       replyToId: post.reply_to_post_number ? 
         this.getPostIdByNumber(post.topic_id, post.reply_to_post_number) : 
         undefined,
       postNumber: post.post_number,
+      actionCode: post.post_type === SMALL_ACTION_POST_TYPE ? post.action_code || undefined : undefined,
+      isDeleted: !!post.deleted_at,
+      canDelete: !!post.can_delete,
+      canRecover: !!post.can_recover,
       discourseId: post.id
     };
   }
@@ -2784,6 +2911,84 @@ class DiscourseApiService {
     }
   }
 
+  /**
+   * Load the first chunk of comments together with the full post stream.
+   * Discourse only embeds ~20 posts in /t/{id}.json; the remaining IDs in
+   * `post_stream.stream` can be fetched with getCommentsByIds.
+   * Pass `nearPostNumber` to load the chunk around a specific post instead.
+   */
+  async getCommentStream(
+    byteId: number,
+    options?: { nearPostNumber?: number }
+  ): Promise<DiscourseApiResponse<CommentStream>> {
+    try {
+      const endpoint = options?.nearPostNumber && options.nearPostNumber > 1
+        ? `/t/${byteId}/${options.nearPostNumber}.json`
+        : `/t/${byteId}.json`;
+      const response = await this.makeRequest<any>(endpoint);
+      if (response.success && response.data?.post_stream?.posts) {
+        const posts: any[] = response.data.post_stream.posts;
+        const fullStream: number[] = response.data.post_stream.stream || posts.map((post: any) => post.id);
+        const firstPost = posts.find((post: any) => post.post_number === 1);
+        // The first post is the byte itself, so it is not part of the comment stream
+        const firstPostId = firstPost?.id ?? fullStream[0];
+
+        return {
+          success: true,
+          data: {
+            comments: posts
+              .filter((post: any) => post.post_number !== 1)
+              .map((post: any) => this.mapPostToComment(post, response.data)),
+            stream: fullStream.filter((id) => id !== firstPostId),
+            byteTitle: response.data.title || '',
+          },
+        };
+      }
+      return {
+        success: false,
+        error: response.error || 'Failed to load comments',
+        errors: response.errors,
+        status: response.status,
+      };
+    } catch (error) {
+      return { success: false, error: 'Network error loading comments' };
+    }
+  }
+
+  /**
+   * Load specific comments from a byte's post stream, in stream order.
+   */
+  async getCommentsByIds(
+    byteId: number,
+    postIds: number[],
+    byteTitle: string = ''
+  ): Promise<DiscourseApiResponse<Comment[]>> {
+    if (postIds.length === 0) {
+      return { success: true, data: [] };
+    }
+
+    try {
+      const response = await this.getTopicPosts(byteId, postIds);
+      if (response.success && response.data?.post_stream?.posts) {
+        const order = new Map(postIds.map((id, index) => [id, index]));
+        const comments = (response.data.post_stream.posts as any[])
+          .filter((post) => post.post_number !== 1)
+          .sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0))
+          .map((post) => this.mapPostToComment(post, { title: byteTitle }));
+
+        return { success: true, data: comments };
+      }
+      return {
+        success: false,
+        error: response.error || 'Failed to load comments',
+        errors: response.errors,
+        status: response.status,
+      };
+    } catch (error) {
+      return { success: false, error: 'Network error loading comments' };
+    }
+  }
+
   async createComment(data: {
     content: string;
     byteId: number;
@@ -2823,7 +3028,8 @@ class DiscourseApiService {
           success: false, 
           error: errorMessage,
           errors: response.errors,
-          status: response.status
+          status: response.status,
+          networkError: response.networkError
         };
       }
 
@@ -2967,15 +3173,88 @@ class DiscourseApiService {
 
       return {
         success: response.success,
-        error: response.error
+        error: response.error,
+        errors: response.errors,
+        status: response.status,
+        networkError: response.networkError,
       };
     } catch (error) {
       return { success: false, error: 'Network error liking post' };
     }
   }
 
+  // Editing Bytes
+  async getPost(postId: number): Promise<DiscourseApiResponse<any>> {
+    return this.makeRequest<any>(`/posts/${postId}.json`);
+  }
+
+  // Title, teret (category) and/or tags of a topic
+  async updateTopic(
+    topicId: number,
+    data: { title?: string; categoryId?: number; tags?: string[] }
+  ): Promise<DiscourseApiResponse<any>> {
+    if (data.title === undefined && data.categoryId === undefined && data.tags === undefined) {
+      return { success: false, error: 'Nothing to update' };
+    }
+
+    try {
+      return await this.makeRequest<any>(`/t/${topicId}.json`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          ...(data.title !== undefined ? { title: data.title } : {}),
+          ...(data.categoryId !== undefined ? { category_id: data.categoryId } : {}),
+          ...(data.tags !== undefined ? { tags: data.tags } : {}),
+        }),
+      });
+    } catch (error) {
+      return { success: false, error: 'Network error updating topic' };
+    } finally {
+      // Reopening the editor must not load the text from before the edit
+      this.evictCache(`/t/${topicId}.json`, `/t/${topicId}/`);
+    }
+  }
+
+  async updatePost(
+    postId: number,
+    raw: string,
+    editReason?: string
+  ): Promise<DiscourseApiResponse<any>> {
+    if (!raw || raw.trim().length === 0) {
+      return { success: false, error: 'Content cannot be empty' };
+    }
+
+    try {
+      const response = await this.makeRequest<any>(`/posts/${postId}.json`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          post: {
+            raw,
+            ...(editReason ? { edit_reason: editReason } : {}),
+          },
+        }),
+      });
+      this.evictCache(`/posts/${postId}.json`, `/posts/${postId}/`);
+      const topicId = response.data?.post?.topic_id;
+      if (topicId) {
+        // Reopening the editor must not load the text from before the edit
+        this.evictCache(`/t/${topicId}.json`, `/t/${topicId}/`);
+      }
+      return response;
+    } catch (error) {
+      return { success: false, error: 'Network error updating post' };
+    }
+  }
+
+  // A single revision of a post, or 'latest'
+  async getPostRevision(
+    postId: number,
+    revision: number | 'latest'
+  ): Promise<DiscourseApiResponse<any>> {
+    return this.makeRequest<any>(`/posts/${postId}/revisions/${revision}.json`);
+  }
+
   // Topic management methods
-  async setNotificationLevel(topicId: number, level: number): Promise<DiscourseApiResponse<void>> {
+  async setNotificationLevel(topicId: number, level: TopicNotificationLevel): Promise<DiscourseApiResponse<void>> {
     try {
       const response = await this.makeRequest<void>(`/t/${topicId}/notifications.json`, {
         method: 'POST',
@@ -2989,112 +3268,232 @@ class DiscourseApiService {
     }
   }
 
-  async getTopicBookmarkStatus(topicId: number): Promise<DiscourseApiResponse<boolean>> {
-    try {
-      // Get topic and extract bookmark status from details
-      const response = await this.getTopic(topicId);
-      if (response.success && response.data) {
-        return {
-          success: true,
-          data: response.data.details?.bookmarked || false,
-        };
-      }
-      return { success: false, error: 'Failed to get bookmark status' };
-    } catch (error) {
-      return { success: false, error: 'Network error getting bookmark status' };
+  // Bookmark a Byte, or remove every bookmark the user has on it; returns the new bookmark
+  async toggleTopicBookmark(topicId: number): Promise<DiscourseApiResponse<{ id: number } | null>> {
+    const existing = await this.getTopicBookmarks(topicId);
+    if (!existing.success) {
+      return { success: false, error: existing.error || 'Failed to get bookmark status', status: existing.status };
     }
-  }
 
-  async toggleTopicBookmark(topicId: number): Promise<DiscourseApiResponse<void>> {
+    const bookmarks = existing.data || [];
     try {
-      // Get current status
-      const statusResponse = await this.getTopicBookmarkStatus(topicId);
-      if (!statusResponse.success) {
-        return { success: false, error: statusResponse.error || 'Failed to get bookmark status' };
+      if (bookmarks.length === 0) {
+        return await this.createBookmark(topicId, 'Topic');
       }
 
-      const isBookmarked = statusResponse.data || false;
-
-      if (isBookmarked) {
-        // Unbookmark
-        const response = await this.makeRequest<void>(`/t/${topicId}/bookmark.json`, {
-          method: 'DELETE',
-        });
-        return response;
-      } else {
-        // Bookmark
-        const response = await this.makeRequest<void>(`/t/${topicId}/bookmark.json`, {
-          method: 'PUT',
-        });
-        return response;
+      for (const bookmark of bookmarks) {
+        const response = await this.deleteBookmark(bookmark.id);
+        if (!response.success) {
+          return { success: false, error: response.error || 'Failed to remove bookmark', status: response.status };
+        }
       }
-    } catch (error) {
-      return { success: false, error: 'Network error toggling bookmark' };
+      return { success: true, data: null };
+    } finally {
+      // The Byte's cached responses still carry the old bookmark state
+      this.evictCache(`/t/${topicId}.json`, `/t/${topicId}/`);
     }
   }
 
   async getReadPosition(topicId: number): Promise<DiscourseApiResponse<{ lastRead: number; highest: number }>> {
     try {
-      const response = await this.getTopic(topicId);
+      // The read position moves as timings are sent; a cached topic would resume too early
+      this.evictCache(`/t/${topicId}.json`);
+      // Don't count this lookup as another visit
+      const response = await this.getTopic(topicId, { trackVisit: false });
       if (response.success && response.data) {
         return {
           success: true,
           data: {
-            lastRead: response.data.details?.last_read_post_number || 0,
+            lastRead: response.data.last_read_post_number || response.data.details?.last_read_post_number || 0,
             highest: response.data.highest_post_number || response.data.posts_count || 0,
           },
         };
       }
-      return { success: false, error: 'Failed to get read position' };
+      return { success: false, error: response.error || 'Failed to get read position', status: response.status };
     } catch (error) {
       return { success: false, error: 'Network error getting read position' };
     }
   }
 
-  async pinTopic(topicId: number): Promise<DiscourseApiResponse<void>> {
+  /**
+   * Report how long each post was on screen (milliseconds keyed by post number).
+   * This is what moves the read position forward and clears "unread" on Discourse.
+   */
+  async sendTopicTimings(
+    topicId: number,
+    topicTime: number,
+    timings: Record<number, number>
+  ): Promise<DiscourseApiResponse<void>> {
     try {
-      const response = await this.makeRequest<void>(`/t/${topicId}/pin.json`, {
+      return await this.makeRequest<void>('/topics/timings', {
+        method: 'POST',
+        body: JSON.stringify({
+          topic_id: topicId,
+          topic_time: Math.round(topicTime),
+          timings,
+        }),
+      }, 0);
+    } catch (error) {
+      return { success: false, error: 'Network error sending read timings' };
+    }
+  }
+
+  // Private Messages
+  async getPrivateMessages(
+    username: string,
+    folder: PrivateMessageFolder = 'inbox',
+    page: number = 0
+  ): Promise<DiscourseApiResponse<any>> {
+    const path = {
+      inbox: 'private-messages',
+      sent: 'private-messages-sent',
+      archive: 'private-messages-archive',
+    }[folder];
+    const pageParam = page > 0 ? `?page=${page}` : '';
+    return this.makeRequest<any>(`/topics/${path}/${encodeURIComponent(username)}.json${pageParam}`);
+  }
+
+  async createPrivateMessage(data: {
+    title: string;
+    raw: string;
+    recipients: string[];
+  }): Promise<DiscourseApiResponse<any>> {
+    if (!data.title || !data.raw) {
+      return { success: false, error: 'Title and content are required' };
+    }
+    if (data.recipients.length === 0) {
+      return { success: false, error: 'Add at least one recipient' };
+    }
+
+    try {
+      return await this.makeRequest<any>('/posts.json', {
+        method: 'POST',
+        body: JSON.stringify({
+          title: SecurityValidator.sanitizeInput(data.title),
+          raw: SecurityValidator.sanitizeInput(data.raw),
+          archetype: 'private_message',
+          target_recipients: data.recipients.join(','),
+        }),
+      });
+    } catch (error) {
+      return { success: false, error: 'Network error sending message' };
+    }
+  }
+
+  async archiveMessage(topicId: number): Promise<DiscourseApiResponse<void>> {
+    try {
+      return await this.makeRequest<void>(`/t/${topicId}/archive-message.json`, {
         method: 'PUT',
       });
-      return response;
     } catch (error) {
-      return { success: false, error: 'Network error pinning topic' };
+      return { success: false, error: 'Network error archiving message' };
     }
   }
 
-  async unpinTopic(topicId: number): Promise<DiscourseApiResponse<void>> {
+  async moveMessageToInbox(topicId: number): Promise<DiscourseApiResponse<void>> {
     try {
-      const response = await this.makeRequest<void>(`/t/${topicId}/pin.json`, {
+      return await this.makeRequest<void>(`/t/${topicId}/move-to-inbox.json`, {
         method: 'PUT',
-        body: JSON.stringify({ pinned: false }),
       });
-      return response;
     } catch (error) {
-      return { success: false, error: 'Network error unpinning topic' };
+      return { success: false, error: 'Network error moving message to inbox' };
     }
   }
 
-  async closeTopic(topicId: number): Promise<DiscourseApiResponse<void>> {
+  // Leaving a conversation removes the user from its allowed participants
+  async leaveMessage(topicId: number, username: string): Promise<DiscourseApiResponse<void>> {
     try {
-      const response = await this.makeRequest<void>(`/t/${topicId}/status.json`, {
+      return await this.makeRequest<void>(`/t/${topicId}/remove-allowed-user.json`, {
         method: 'PUT',
-        body: JSON.stringify({ status: 'closed', enabled: true }),
+        body: JSON.stringify({ username }),
       });
-      return response;
     } catch (error) {
-      return { success: false, error: 'Network error closing topic' };
+      return { success: false, error: 'Network error leaving conversation' };
     }
   }
 
+  /**
+   * Toggle one of a topic's staff states. Discourse posts a small-action
+   * post for each change (e.g. "closed.enabled").
+   */
+  async updateTopicStatus(
+    topicId: number,
+    status: TopicStatus,
+    enabled: boolean,
+    until?: string
+  ): Promise<DiscourseApiResponse<void>> {
+    try {
+      return await this.makeRequest<void>(`/t/${topicId}/status.json`, {
+        method: 'PUT',
+        body: JSON.stringify({ status, enabled, ...(until ? { until } : {}) }),
+      });
+    } catch (error) {
+      return { success: false, error: 'Network error updating topic status' };
+    }
+  }
+
+  async pinTopic(topicId: number, options: { global?: boolean; until?: string } = {}): Promise<DiscourseApiResponse<void>> {
+    return this.updateTopicStatus(topicId, options.global ? 'pinned_globally' : 'pinned', true, options.until);
+  }
+
+  async unpinTopic(topicId: number, options: { global?: boolean } = {}): Promise<DiscourseApiResponse<void>> {
+    return this.updateTopicStatus(topicId, options.global ? 'pinned_globally' : 'pinned', false);
+  }
+
+  async closeTopic(topicId: number): Promise<DiscourseApiResponse<void>> {
+    return this.updateTopicStatus(topicId, 'closed', true);
+  }
+
   async openTopic(topicId: number): Promise<DiscourseApiResponse<void>> {
+    return this.updateTopicStatus(topicId, 'closed', false);
+  }
+
+  /**
+   * Move replies out of a topic: into a new topic (title, optional teret)
+   * or onto the end of an existing one. Returns the destination URL.
+   */
+  async movePosts(
+    topicId: number,
+    data: { postIds: number[] } & (
+      | { destinationTopicId: number }
+      | { title: string; categoryId?: number }
+    )
+  ): Promise<DiscourseApiResponse<{ url: string; topicId?: number }>> {
+    if (data.postIds.length === 0) {
+      return { success: false, error: 'Select at least one reply to move' };
+    }
+
+    try {
+      const response = await this.makeRequest<any>(`/t/${topicId}/move-posts.json`, {
+        method: 'POST',
+        body: JSON.stringify({
+          post_ids: data.postIds,
+          ...('destinationTopicId' in data
+            ? { destination_topic_id: data.destinationTopicId }
+            : {
+                title: SecurityValidator.sanitizeInput(data.title),
+                ...(data.categoryId ? { category_id: data.categoryId } : {}),
+              }),
+        }),
+      });
+      if (!response.success) {
+        return response;
+      }
+      const url: string = response.data?.url || '';
+      const idMatch = /\/t\/(?:[^/]+\/)?(\d+)/.exec(url);
+      return { success: true, data: { url, topicId: idMatch ? parseInt(idMatch[1], 10) : undefined } };
+    } catch (error) {
+      return { success: false, error: 'Network error moving replies' };
+    }
+  }
+
+  async recoverPost(postId: number): Promise<DiscourseApiResponse<void>> {
     try {
-      const response = await this.makeRequest<void>(`/t/${topicId}/status.json`, {
+      return await this.makeRequest<void>(`/posts/${postId}/recover.json`, {
         method: 'PUT',
-        body: JSON.stringify({ status: 'closed', enabled: false }),
       });
-      return response;
     } catch (error) {
-      return { success: false, error: 'Network error opening topic' };
+      return { success: false, error: 'Network error recovering post' };
     }
   }
 
@@ -3273,8 +3672,8 @@ class DiscourseApiService {
 
   async getUserDrafts(page: number = 0): Promise<DiscourseApiResponse<any>> {
     try {
-      const offset = page * 30;
-      const queryParams = `?offset=${offset}&limit=30`;
+      const offset = page * DRAFTS_PAGE_SIZE;
+      const queryParams = `?offset=${offset}&limit=${DRAFTS_PAGE_SIZE}`;
       return await this.makeRequest<any>(`/drafts.json${queryParams}`);
     } catch (error) {
       return { 
@@ -3284,6 +3683,25 @@ class DiscourseApiService {
     }
   }
 
+  /**
+   * One page of the current user's drafts, newest first
+   */
+  async getDrafts(page: number = 0): Promise<DiscourseApiResponse<{ drafts: UserDraft[]; hasMore: boolean }>> {
+    const response = await this.getUserDrafts(page);
+    if (!response.success) {
+      return { success: false, error: response.error || 'Failed to load drafts', status: response.status };
+    }
+
+    const rawDrafts: any[] = Array.isArray(response.data?.drafts) ? response.data.drafts : [];
+    return {
+      success: true,
+      data: {
+        drafts: rawDrafts.map(parseUserDraft).filter((draft): draft is UserDraft => !!draft),
+        hasMore: rawDrafts.length >= DRAFTS_PAGE_SIZE,
+      },
+    };
+  }
+
   async getDraft(params: { draftKey: string; sequence?: number }): Promise<DiscourseApiResponse<any>> {
     const { draftKey, sequence = 0 } = params;
     try {
@@ -3297,13 +3715,26 @@ class DiscourseApiService {
     }
   }
 
-  async saveDraft(params: { draftKey: string; draft: Record<string, any>; sequence?: number }): Promise<DiscourseApiResponse<any>> {
-    const { draftKey, draft, sequence = 0 } = params;
+  /**
+   * Save a draft. With an `owner`, Discourse answers 409 when someone else
+   * (the web composer, another device) saved this draft since; `forceSave`
+   * overwrites their version anyway.
+   */
+  async saveDraft(params: {
+    draftKey: string;
+    draft: Record<string, any>;
+    sequence?: number;
+    owner?: string;
+    forceSave?: boolean;
+  }): Promise<DiscourseApiResponse<any>> {
+    const { draftKey, draft, sequence = 0, owner, forceSave } = params;
     try {
       const body = new URLSearchParams();
       body.append('draft', JSON.stringify(draft));
       body.append('draft_key', draftKey);
       body.append('sequence', String(sequence));
+      if (owner) body.append('owner', owner);
+      if (forceSave) body.append('force_save', 'true');
 
       return await this.makeRequest<any>(`/drafts/${encodeURIComponent(draftKey)}.json`, {
         method: 'PUT',
@@ -3388,6 +3819,138 @@ class DiscourseApiService {
     return this.getUserActivity(username, 'votes', page);
   }
 
+  // Flags (flag types come with the site settings)
+  async flagPost(
+    postId: number,
+    flagTypeId: number,
+    message?: string
+  ): Promise<DiscourseApiResponse<any>> {
+    return this.makeRequest<any>('/post_actions.json', {
+      method: 'POST',
+      body: JSON.stringify({
+        id: postId,
+        post_action_type_id: flagTypeId,
+        flag_topic: false,
+        ...(message?.trim() ? { message: message.trim() } : {}),
+      }),
+    });
+  }
+
+  async undoFlag(postId: number, flagTypeId: number): Promise<DiscourseApiResponse<any>> {
+    return this.makeRequest<any>(`/post_actions/${postId}.json?post_action_type_id=${flagTypeId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Polls
+  async votePoll(
+    postId: number,
+    pollName: string,
+    optionIds: string[]
+  ): Promise<DiscourseApiResponse<Poll>> {
+    const response = await this.makeRequest<any>('/polls/vote', {
+      method: 'PUT',
+      body: JSON.stringify({
+        post_id: postId,
+        poll_name: pollName,
+        options: optionIds,
+      }),
+    });
+    if (!response.success || !response.data?.poll) {
+      return { success: false, error: response.error || 'Failed to vote', errors: response.errors, status: response.status };
+    }
+
+    return { success: true, data: parsePoll(response.data.poll, response.data.vote || optionIds) };
+  }
+
+  async removePollVote(postId: number, pollName: string): Promise<DiscourseApiResponse<Poll>> {
+    const response = await this.makeRequest<any>(
+      `/polls/vote?post_id=${postId}&poll_name=${encodeURIComponent(pollName)}`,
+      { method: 'DELETE' }
+    );
+    if (!response.success || !response.data?.poll) {
+      return { success: false, error: response.error || 'Failed to remove vote', errors: response.errors, status: response.status };
+    }
+
+    return { success: true, data: parsePoll(response.data.poll, []) };
+  }
+
+  // Reactions (discourse-reactions plugin). Toggling the same reaction
+  // removes it; the response is the updated post.
+  async toggleReaction(postId: number, reactionId: string): Promise<DiscourseApiResponse<PostReactions>> {
+    const response = await this.makeRequest<any>(
+      `/discourse-reactions/posts/${postId}/custom-reactions/${encodeURIComponent(reactionId)}/toggle.json`,
+      { method: 'PUT' }
+    );
+    const reactions = response.success ? parsePostReactions(response.data) : null;
+    if (!reactions) {
+      return { success: false, error: response.error || 'Failed to react', errors: response.errors, status: response.status };
+    }
+
+    return { success: true, data: reactions };
+  }
+
+  async getReactionUsers(postId: number, reactionId?: string): Promise<DiscourseApiResponse<ReactionUsers[]>> {
+    const query = reactionId ? `?reaction_value=${encodeURIComponent(reactionId)}` : '';
+    const response = await this.makeRequest<any>(`/discourse-reactions/posts/${postId}/reactions-users.json${query}`);
+    if (!response.success) {
+      return { success: false, error: response.error || 'Failed to load reactions', errors: response.errors, status: response.status };
+    }
+
+    return { success: true, data: parseReactionUsers(response.data) };
+  }
+
+  // The site's custom emoji
+  async getCustomEmojis(): Promise<DiscourseApiResponse<CustomEmoji[]>> {
+    const response = await this.makeRequest<any>('/emojis.json');
+    if (!response.success) {
+      return { success: false, error: response.error || 'Failed to load emoji', status: response.status };
+    }
+
+    // Emoji stored on the site come with relative (or protocol-relative CDN) URLs
+    const emojis = parseCustomEmojis(response.data).map((emoji) => ({
+      ...emoji,
+      url: emoji.url.startsWith('//')
+        ? `https:${emoji.url}`
+        : emoji.url.startsWith('/')
+          ? `${this.config.baseUrl}${emoji.url}`
+          : emoji.url,
+    }));
+    return { success: true, data: emojis };
+  }
+
+  // Tags
+  async getTagTopics(tagName: string, page: number = 0): Promise<DiscourseApiResponse<any>> {
+    const name = tagName.trim();
+    if (!name) {
+      return { success: false, error: 'Tag name is required' };
+    }
+    return this.makeRequest<any>(`/tag/${encodeURIComponent(name)}.json${page > 0 ? `?page=${page}` : ''}`);
+  }
+
+  // Tags offered for a Byte: respects the Teret's tag groups and leaves out those already chosen
+  async searchTags(
+    query: string,
+    options: { categoryId?: number; selectedTags?: string[]; limit?: number; signal?: AbortSignal } = {}
+  ): Promise<DiscourseApiResponse<TagSearchResult>> {
+    const params = new URLSearchParams();
+    params.append('q', query.trim());
+    params.append('limit', String(options.limit ?? 20));
+    params.append('filterForInput', 'true');
+    if (options.categoryId) {
+      params.append('categoryId', String(options.categoryId));
+    }
+    (options.selectedTags || []).forEach((tag) => params.append('selected_tags[]', tag));
+
+    const response = await this.makeRequest<any>(`/tags/filter/search.json?${params.toString()}`, {
+      signal: options.signal,
+    });
+    if (!response.success) {
+      return { success: false, error: response.error || 'Failed to search tags', status: response.status };
+    }
+    return { success: true, data: parseTagSearch(response.data) };
+  }
+
   // Moderation Actions
   async reportUser(username: string, reason: string): Promise<DiscourseApiResponse<void>> {
     if (!SecurityValidator.validateUsername(username)) {
@@ -3443,8 +4006,9 @@ class DiscourseApiService {
 }
 
 // Default configuration with security validation
+// The site comes from the active account (the configured site when signed out)
 const defaultConfig: DiscourseConfig = {
-  baseUrl: config.DISCOURSE_BASE_URL || process.env.EXPO_PUBLIC_DISCOURSE_URL || 'https://meta.fomio.app', // Use Fomio as default
+  baseUrl: getActiveSiteUrl(),
 };
 
 // Log configuration status for debugging
@@ -3456,6 +4020,13 @@ console.log('🔧 Discourse API Configuration:', {
 // Export singleton instance
 export const discourseApi = new DiscourseApiService(defaultConfig);
 
+// Follow the active account to its site. Cached responses belong to the
+// previous account even when both sign in to the same site, so they are dropped.
+onActiveAccountChange(() => {
+  discourseApi.setBaseUrl(getActiveSiteUrl());
+  discourseApi.clearCache();
+});
+
 // Export types and service class
 export { DiscourseApiService };
 export default discourseApi;
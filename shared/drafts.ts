@@ -0,0 +1,212 @@
+/**
+ * Drafts
+ *
+ * Maps Discourse's server-side drafts (`/drafts.json` and `/drafts/{key}.json`)
+ * to what the drafts screen and composers need. Discourse keys drafts by what
+ * is being written: `new_topic` for a Byte, `new_private_message` for a
+ * message and `topic_{id}` for a reply, which belongs to a conversation when
+ * the topic is a private message.
+ *
+ * Drafts are saved with an `owner` that identifies this install. When the
+ * same draft was saved from somewhere else in the meantime (Discourse on the
+ * web, another device), Discourse answers 409 and nothing is overwritten
+ * until the user picks a version.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export const NEW_TOPIC_DRAFT_KEY = 'new_topic';
+export const NEW_PRIVATE_MESSAGE_DRAFT_KEY = 'new_private_message';
+
+const DRAFT_OWNER_STORAGE_KEY = 'fomio_draft_owner';
+const PREVIEW_LENGTH = 140;
+
+export type DraftKind = 'topic' | 'reply' | 'private_message' | 'private_message_reply';
+
+export const DRAFT_KIND_LABELS: Record<DraftKind, string> = {
+  topic: 'New Byte',
+  reply: 'Reply',
+  private_message: 'New message',
+  private_message_reply: 'Message reply',
+};
+
+// What a draft holds, whichever composer (or Discourse on the web) saved it
+export interface DraftContent {
+  title: string;
+  raw: string;
+  categoryId: number | null;
+  tags: string[];
+  recipients: string[];
+}
+
+export interface UserDraft {
+  draftKey: string;
+  sequence: number;
+  kind: DraftKind;
+  // The topic being replied to; null for new Bytes and messages
+  topicId: number | null;
+  title: string;
+  preview: string;
+  updatedAt: string;
+  content: DraftContent;
+}
+
+export function getReplyDraftKey(topicId: number): string {
+  return `topic_${topicId}`;
+}
+
+function readStringList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map((item) => (typeof item === 'string' ? item : item?.name)).filter(Boolean);
+  }
+  if (typeof value === 'string') {
+    return value.split(',').map((item) => item.trim()).filter(Boolean);
+  }
+  return [];
+}
+
+/**
+ * A draft's content. The app saves `raw` and `category_id`; the web composer
+ * saves `reply`, `categoryId` and `recipients`.
+ */
+export function parseDraftContent(rawDraft: unknown): DraftContent {
+  let data: any = {};
+  if (typeof rawDraft === 'string') {
+    try {
+      data = JSON.parse(rawDraft) || {};
+    } catch {
+      data = {};
+    }
+  } else if (rawDraft && typeof rawDraft === 'object') {
+    data = rawDraft;
+  }
+
+  const categoryId = Number(data.category_id ?? data.categoryId);
+
+  return {
+    title: typeof data.title === 'string' ? data.title : '',
+    raw: typeof data.raw === 'string' ? data.raw : typeof data.reply === 'string' ? data.reply : '',
+    categoryId: categoryId > 0 ? categoryId : null,
+    tags: readStringList(data.tags),
+    recipients: readStringList(data.recipients ?? data.target_recipients ?? data.usernames),
+  };
+}
+
+/**
+ * Compares drafts by content, so the same text saved by the app and by the
+ * web composer counts as unchanged
+ */
+export function getDraftFingerprint(rawDraft: unknown): string {
+  const content = parseDraftContent(rawDraft);
+  return JSON.stringify([
+    content.title.trim(),
+    content.raw.trim(),
+    content.categoryId,
+    content.tags,
+    content.recipients,
+  ]);
+}
+
+export function getDraftKind(draftKey: string, archetype?: string): DraftKind {
+  if (draftKey.startsWith(NEW_PRIVATE_MESSAGE_DRAFT_KEY)) return 'private_message';
+  if (draftKey.startsWith('topic_')) {
+    return archetype === 'private_message' ? 'private_message_reply' : 'reply';
+  }
+  return 'topic';
+}
+
+/**
+ * Plain text for a draft row: markdown and quotes stripped, one line
+ */
+export function getDraftPreview(raw: string): string {
+  const text = raw
+    .replace(/\[quote[^\]]*\][\s\S]*?\[\/quote\]/gi, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[#>*_`~]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 1).trimEnd()}…` : text;
+}
+
+/**
+ * A draft from `/drafts.json`, or null when the payload isn't one
+ */
+export function parseUserDraft(raw: any): UserDraft | null {
+  const draftKey = raw?.draft_key || raw?.draftKey;
+  if (!draftKey || typeof draftKey !== 'string') return null;
+
+  const content = parseDraftContent(raw.draft ?? raw.data);
+  const kind = getDraftKind(draftKey, raw.archetype);
+  const topicId = Number(raw.topic_id) || Number(draftKey.match(/^topic_(\d+)$/)?.[1]) || null;
+
+  return {
+    draftKey,
+    sequence: Number(raw.sequence ?? raw.draft_sequence) || 0,
+    kind,
+    topicId: kind === 'reply' || kind === 'private_message_reply' ? topicId : null,
+    title: content.title || raw.title || '',
+    preview: getDraftPreview(content.raw || raw.excerpt || ''),
+    updatedAt: raw.updated_at || raw.created_at || '',
+    content,
+  };
+}
+
+/**
+ * Where a draft is picked up again, with its key and sequence so the
+ * composer saves over it
+ */
+export function getDraftResumeHref(draft: Pick<UserDraft, 'draftKey' | 'sequence' | 'kind' | 'topicId'>): string {
+  const draftParams = `draftKey=${encodeURIComponent(draft.draftKey)}&draftSequence=${draft.sequence}`;
+  switch (draft.kind) {
+    case 'private_message':
+      return `/messages/new?${draftParams}`;
+    case 'private_message_reply':
+      return draft.topicId ? `/messages/${draft.topicId}?${draftParams}` : '/messages';
+    case 'reply':
+      return draft.topicId ? `/feed/${draft.topicId}?showComments=true&${draftParams}` : '/feed';
+    default:
+      return `/compose?${draftParams}`;
+  }
+}
+
+/**
+ * Discourse refuses a draft save with 409 when the draft was saved by another
+ * owner (or published) since this one was loaded
+ */
+export function isDraftConflict(response: { success: boolean; status?: number }): boolean {
+  return !response.success && response.status === 409;
+}
+
+/**
+ * After a 409: only a real conflict when the server's draft differs from the
+ * one this composer started from. An untouched draft is safe to overwrite.
+ */
+export function hasDraftChangedElsewhere(baseFingerprint: string | null, serverDraft: unknown): boolean {
+  if (serverDraft === null || serverDraft === undefined || serverDraft === '') return false;
+  return getDraftFingerprint(serverDraft) !== (baseFingerprint ?? getDraftFingerprint(null));
+}
+
+let draftOwner: string | null = null;
+
+/**
+ * This install's draft owner, kept across restarts so our own earlier saves
+ * never look like someone else's
+ */
+export async function getDraftOwner(): Promise<string> {
+  if (draftOwner) return draftOwner;
+  try {
+    const stored = await AsyncStorage.getItem(DRAFT_OWNER_STORAGE_KEY);
+    if (stored) {
+      draftOwner = stored;
+      return stored;
+    }
+  } catch {
+    // Fall through to a fresh owner
+  }
+
+  const owner = Array.from({ length: 32 }, () => Math.floor(Math.random() * 16).toString(16)).join('');
+  draftOwner = owner;
+  AsyncStorage.setItem(DRAFT_OWNER_STORAGE_KEY, owner).catch(() => {});
+  return owner;
+}
@@ -0,0 +1,224 @@
+/**
+ * Emoji
+ *
+ * Discourse writes emoji as `:name:` codes and cooks them into images. The
+ * app keeps a table of the common standard emoji (by their Discourse names)
+ * so pickers and reactions can show them as text, and adds the site's
+ * custom emoji from /emojis.json, which are shown from their image URL.
+ */
+
+export interface CustomEmoji {
+  name: string;
+  url: string;
+  group: string;
+}
+
+export interface EmojiItem {
+  name: string;
+  group: string;
+  // Standard emoji are drawn as text
+  char?: string;
+  // Custom emoji are drawn from the site's image
+  url?: string;
+}
+
+export interface EmojiGroup {
+  id: string;
+  name: string;
+  emoji: EmojiItem[];
+}
+
+// Custom emoji without a group go here
+export const CUSTOM_EMOJI_GROUP = 'custom';
+
+const STANDARD_EMOJI: Array<{ id: string; name: string; emoji: Record<string, string> }> = [
+  {
+    id: 'smileys',
+    name: 'Smileys',
+    emoji: {
+      grinning: '😀', smile: '😄', laughing: '😆', sweat_smile: '😅', joy: '😂', rofl: '🤣',
+      slight_smile: '🙂', upside_down_face: '🙃', wink: '😉', blush: '😊', innocent: '😇',
+      heart_eyes: '😍', star_struck: '🤩', kissing_heart: '😘', yum: '😋', stuck_out_tongue: '😛',
+      money_mouth_face: '🤑', hugs: '🤗', shushing_face: '🤫', thinking: '🤔', zipper_mouth_face: '🤐',
+      neutral_face: '😐', expressionless: '😑', smirk: '😏', roll_eyes: '🙄', relieved: '😌',
+      sleeping: '😴', nerd_face: '🤓', sunglasses: '😎', face_with_monocle: '🧐', partying_face: '🥳',
+      confused: '😕', worried: '😟', open_mouth: '😮', flushed: '😳', exploding_head: '🤯',
+      cry: '😢', sob: '😭', scream: '😱', angry: '😠', rage: '😡', skull: '💀', clown_face: '🤡',
+      ghost: '👻', robot: '🤖', poop: '💩', see_no_evil: '🙈',
+    },
+  },
+  {
+    id: 'people',
+    name: 'People',
+    emoji: {
+      '+1': '👍', '-1': '👎', ok_hand: '👌', clap: '👏', raised_hands: '🙌', pray: '🙏',
+      handshake: '🤝', wave: '👋', muscle: '💪', v: '✌️', crossed_fingers: '🤞', point_up: '☝️',
+      eyes: '👀', facepalm: '🤦', shrug: '🤷',
+    },
+  },
+  {
+    id: 'nature',
+    name: 'Nature',
+    emoji: {
+      dog: '🐶', cat: '🐱', fox_face: '🦊', unicorn: '🦄', bee: '🐝', bug: '🐛', turtle: '🐢',
+      seedling: '🌱', sunflower: '🌻', rainbow: '🌈', sunny: '☀️', cloud: '☁️', snowflake: '❄️',
+      zap: '⚡', fire: '🔥', earth_africa: '🌍',
+    },
+  },
+  {
+    id: 'food',
+    name: 'Food',
+    emoji: {
+      apple: '🍎', avocado: '🥑', pizza: '🍕', hamburger: '🍔', cake: '🍰', coffee: '☕',
+      tea: '🍵', beers: '🍻',
+    },
+  },
+  {
+    id: 'activities',
+    name: 'Activities',
+    emoji: {
+      tada: '🎉', gift: '🎁', trophy: '🏆', dart: '🎯', soccer: '⚽', basketball: '🏀',
+      video_game: '🎮', art: '🎨', musical_note: '🎵',
+    },
+  },
+  {
+    id: 'objects',
+    name: 'Objects',
+    emoji: {
+      rocket: '🚀', airplane: '✈️', car: '🚗', house: '🏠', computer: '💻', iphone: '📱',
+      camera: '📷', bulb: '💡', books: '📚', memo: '📝', calendar: '📅', pushpin: '📌',
+      link: '🔗', mag: '🔍', bell: '🔔', lock: '🔒', key: '🔑', gear: '⚙️', wrench: '🔧',
+      hammer: '🔨', moneybag: '💰', speech_balloon: '💬',
+    },
+  },
+  {
+    id: 'symbols',
+    name: 'Symbols',
+    emoji: {
+      '100': '💯', heart: '❤️', yellow_heart: '💛', green_heart: '💚', blue_heart: '💙', purple_heart: '💜',
+      sparkling_heart: '💖', broken_heart: '💔', star: '⭐', sparkles: '✨', boom: '💥',
+      white_check_mark: '✅', x: '❌', warning: '⚠️', question: '❓',
+      exclamation: '❗', heavy_plus_sign: '➕',
+    },
+  },
+];
+
+// Other names Discourse accepts for the same emoji
+const EMOJI_ALIASES: Record<string, string> = {
+  thumbsup: '+1',
+  thumbsdown: '-1',
+  slightly_smiling_face: 'slight_smile',
+  hugging_face: 'hugs',
+  face_with_rolling_eyes: 'roll_eyes',
+  rolling_on_the_floor_laughing: 'rofl',
+  thinking_face: 'thinking',
+  red_heart: 'heart',
+};
+
+export const STANDARD_EMOJI_GROUPS: EmojiGroup[] = STANDARD_EMOJI.map((group) => ({
+  id: group.id,
+  name: group.name,
+  emoji: Object.entries(group.emoji).map(([name, char]) => ({ name, char, group: group.id })),
+}));
+
+const STANDARD_BY_NAME = new Map(
+  STANDARD_EMOJI_GROUPS.flatMap((group) => group.emoji.map((emoji) => [emoji.name, emoji] as const))
+);
+
+/**
+ * Custom emoji from /emojis.json, which lists them by group
+ * (`{ "default": [{ name, url, group }] }`); older sites return a flat list
+ */
+export function parseCustomEmojis(payload: unknown): CustomEmoji[] {
+  const list: any[] = Array.isArray(payload)
+    ? payload
+    : payload && typeof payload === 'object'
+      ? Object.values(payload as Record<string, unknown>).flatMap((group) => (Array.isArray(group) ? group : []))
+      : [];
+
+  return list
+    .filter((emoji) => typeof emoji?.name === 'string' && typeof emoji?.url === 'string')
+    .map((emoji) => ({
+      name: emoji.name,
+      url: emoji.url,
+      group: typeof emoji.group === 'string' && emoji.group !== 'default' ? emoji.group : CUSTOM_EMOJI_GROUP,
+    }));
+}
+
+/**
+ * Standard groups followed by the site's custom emoji, one group per
+ * custom emoji group
+ */
+export function getEmojiGroups(customEmojis: CustomEmoji[]): EmojiGroup[] {
+  const custom = new Map<string, EmojiItem[]>();
+  customEmojis.forEach((emoji) => {
+    const items = custom.get(emoji.group) || [];
+    items.push({ name: emoji.name, url: emoji.url, group: emoji.group });
+    custom.set(emoji.group, items);
+  });
+
+  const customGroups = Array.from(custom.entries()).map(([id, emoji]) => ({
+    id: `custom:${id}`,
+    name: id === CUSTOM_EMOJI_GROUP ? 'Custom' : id.replace(/[_-]/g, ' '),
+    emoji,
+  }));
+  return [...STANDARD_EMOJI_GROUPS, ...customGroups];
+}
+
+/**
+ * The emoji for a Discourse name (`heart`, `thumbsup`, or a custom
+ * emoji), or null when the app doesn't know it
+ */
+export function findEmoji(name: string, customEmojis: CustomEmoji[] = []): EmojiItem | null {
+  const key = name.replace(/^:|:$/g, '');
+  const custom = customEmojis.find((emoji) => emoji.name === key);
+  if (custom) return { name: custom.name, url: custom.url, group: custom.group };
+  return STANDARD_BY_NAME.get(EMOJI_ALIASES[key] || key) || null;
+}
+
+/**
+ * Emoji whose name (or an alias) matches, prefix matches first
+ */
+export function searchEmoji(term: string, customEmojis: CustomEmoji[] = [], limit: number = 60): EmojiItem[] {
+  const needle = term.trim().toLowerCase().replace(/^:|:$/g, '');
+  const all = getEmojiGroups(customEmojis).flatMap((group) => group.emoji);
+  if (!needle) return all.slice(0, limit);
+
+  const aliasesByName = new Map<string, string[]>();
+  Object.entries(EMOJI_ALIASES).forEach(([alias, name]) => {
+    aliasesByName.set(name, [...(aliasesByName.get(name) || []), alias]);
+  });
+
+  const scored = all
+    .map((emoji) => {
+      const names = [emoji.name, ...(aliasesByName.get(emoji.name) || [])].map((name) => name.toLowerCase());
+      const score = names.some((name) => name.startsWith(needle))
+        ? 0
+        : names.some((name) => name.split('_').some((word) => word.startsWith(needle)))
+          ? 1
+          : names.some((name) => name.includes(needle))
+            ? 2
+            : -1;
+      return { emoji, score };
+    })
+    .filter(({ score }) => score >= 0);
+
+  scored.sort((a, b) => a.score - b.score);
+  return scored.slice(0, limit).map(({ emoji }) => emoji);
+}
+
+/**
+ * Insert `:name:` at the selection. Discourse only cooks emoji codes that
+ * aren't glued to the word before them, so a space is added when needed.
+ */
+export function insertEmojiCode(
+  text: string,
+  selection: { start: number; end: number },
+  name: string
+): { text: string; cursor: number } {
+  const before = text.slice(0, selection.start);
+  const after = text.slice(selection.end);
+  const leading = before && !/\s$/.test(before) ? ' ' : '';
+  const code = `${leading}:${name}:`;
+  return { text: `${before}${code}${after}`, cursor: before.length + code.length };
+}
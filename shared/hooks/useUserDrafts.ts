@@ -1,106 +1,97 @@
 // Hook to fetch user's drafts
 // Only available for own profile (no username parameter, uses current user)
+// Uses useInfiniteQuery so the drafts screen pages and the delete mutation
+// can update the cached list
 
-import { useState, useEffect, useCallback } from 'react';
+import { useCallback, useMemo } from 'react';
+import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
 import { discourseApi } from '../discourseApi';
-import { PostItem } from '@/components/profile/ProfilePostList';
+import { UserDraft } from '../drafts';
+import { queryKeys } from '../query-client';
 
 export interface UseUserDraftsReturn {
-  drafts: PostItem[];
+  drafts: UserDraft[];
   isLoading: boolean;
+  isRefreshing: boolean;
   hasError: boolean;
   errorMessage?: string;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  loadMore: () => Promise<void>;
   refresh: () => Promise<void>;
 }
 
-export function useUserDrafts(): UseUserDraftsReturn {
-  const [drafts, setDrafts] = useState<PostItem[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [hasError, setHasError] = useState(false);
-  const [errorMessage, setErrorMessage] = useState<string | undefined>();
-
-  const loadDrafts = useCallback(async () => {
-    setIsLoading(true);
-    setHasError(false);
-    setErrorMessage(undefined);
+export interface DraftsPageData {
+  drafts: UserDraft[];
+  page: number;
+  hasMore: boolean;
+}
 
-    try {
-      const response = await discourseApi.getUserDrafts();
+async function fetchDraftsPage(page: number): Promise<DraftsPageData> {
+  const response = await discourseApi.getDrafts(page);
 
-      if (!response.success || !response.data) {
-        throw new Error(response.error || 'Failed to load drafts');
-      }
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to load drafts');
+  }
 
-      // Transform drafts to PostItem format
-      const draftsList = response.data.drafts || [];
-      const mappedDrafts: PostItem[] = draftsList.map((draft: any) => {
-        const rawDraft = draft.draft || draft.data;
-        let parsedDraft: any = {};
+  return {
+    drafts: response.data.drafts,
+    page,
+    hasMore: response.data.hasMore,
+  };
+}
 
-        try {
-          parsedDraft =
-            typeof rawDraft === 'string'
-              ? JSON.parse(rawDraft)
-              : rawDraft && typeof rawDraft === 'object'
-                ? rawDraft
-                : {};
-        } catch {
-          parsedDraft = {};
-        }
+export function useUserDrafts(options: { enabled?: boolean } = {}): UseUserDraftsReturn {
+  const { enabled = true } = options;
+  const queryClient = useQueryClient();
 
-        const title = draft.title || parsedDraft.title || parsedDraft.raw || 'Untitled Draft';
-        const rawContent = parsedDraft.raw || parsedDraft.reply || '';
-        const categoryId = parsedDraft.category_id || draft.category_id;
+  const {
+    data,
+    isLoading: isQueryLoading,
+    isFetching,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+    error,
+  } = useInfiniteQuery({
+    queryKey: queryKeys.drafts(),
+    queryFn: ({ pageParam = 0 }) => fetchDraftsPage(pageParam),
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.page + 1 : undefined),
+    initialPageParam: 0,
+    enabled,
+    staleTime: 30 * 1000, // 30 seconds - drafts change from other devices
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
 
-        return {
-          id: draft.id || 0,
-          title,
-          hubName: draft.category?.name || 'Uncategorized',
-          teretName: draft.category?.slug,
-          author: {
-            name: draft.user?.name || draft.user?.username || 'You',
-            avatar: draft.user?.avatar_template
-              ? discourseApi.getAvatarUrl(draft.user.avatar_template, 120)
-              : '',
-          },
-          replyCount: 0,
-          likeCount: 0,
-          createdAt: draft.created_at || new Date().toISOString(),
-          lastPostedAt: draft.updated_at || draft.created_at,
-          isBookmarked: false,
-          hasMedia: false,
-          slug: `draft/${draft.id}`,
-          draftKey: draft.draft_key || draft.draftKey,
-          draftSequence: draft.sequence ?? draft.draft_sequence ?? 0,
-          rawContent,
-          categoryId,
-        };
-      });
+  // One row per draft key, even if pages overlap after a delete
+  const drafts = useMemo(() => {
+    const seen = new Set<string>();
+    return (data?.pages.flatMap((page) => page.drafts) ?? []).filter((draft) => {
+      if (seen.has(draft.draftKey)) return false;
+      seen.add(draft.draftKey);
+      return true;
+    });
+  }, [data]);
 
-      setDrafts(mappedDrafts);
-    } catch (error) {
-      setHasError(true);
-      setErrorMessage(
-        error instanceof Error ? error.message : 'Failed to load drafts'
-      );
-    } finally {
-      setIsLoading(false);
+  const loadMore = useCallback(async () => {
+    if (hasNextPage && !isFetchingNextPage) {
+      await fetchNextPage();
     }
-  }, []);
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   const refresh = useCallback(async () => {
-    await loadDrafts();
-  }, [loadDrafts]);
-
-  useEffect(() => {
-    loadDrafts();
-  }, [loadDrafts]);
+    await queryClient.invalidateQueries({ queryKey: queryKeys.drafts() });
+  }, [queryClient]);
 
   return {
     drafts,
-    isLoading,
-    hasError,
-    errorMessage,
+    isLoading: isQueryLoading && drafts.length === 0,
+    isRefreshing: isFetching && !isFetchingNextPage && drafts.length > 0,
+    hasError: !!error,
+    errorMessage: error instanceof Error ? error.message : error ? String(error) : undefined,
+    hasMore: hasNextPage ?? false,
+    isLoadingMore: isFetchingNextPage,
+    loadMore,
     refresh,
   };
 }
@@ -17,7 +17,7 @@ export { logger, logError, withLogging } from './logger';
 
 // TanStack Query exports
 export {
-  queryClient,
+  getAccountQueryClient,
   queryKeys,
   invalidateQueriesByPrefix,
   prefetchQuery,
@@ -0,0 +1,373 @@
+/**
+ * MessageBus - Live updates from Discourse
+ *
+ * Discourse publishes changes (new Bytes, replies, edits, likes,
+ * notifications) on MessageBus channels. The client long-polls
+ * /message-bus/{clientId}/poll with the last message id it has seen on each
+ * channel, hands new messages to the channel's subscribers and turns them
+ * into TanStack Query invalidations. Polling pauses while the app is in the
+ * background and resumes where it left off.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { useQueryClient } from '@tanstack/react-query';
+import { discourseApi } from './discourseApi';
+import { authHeaders } from '../lib/auth';
+import { useAuth } from './auth-context';
+import { queryKeys } from './query-client';
+import { logger } from './logger';
+
+// First retry after a failed poll; doubles up to the max
+export const MESSAGE_BUS_RETRY_DELAY = 3 * 1000;
+export const MESSAGE_BUS_MAX_RETRY_DELAY = 60 * 1000;
+// Discourse releases a long poll after ~25s; give up on a stuck one well after that
+export const MESSAGE_BUS_POLL_TIMEOUT = 60 * 1000;
+
+// "Only messages published from now on"
+const FROM_NOW = -1;
+const STATUS_CHANNEL = '/__status';
+
+export const MESSAGE_BUS_CHANNELS = {
+  newTopics: '/new',
+  latest: '/latest',
+  topic: (topicId: number) => `/topic/${topicId}`,
+  notification: (userId: string | number) => `/notification/${userId}`,
+};
+
+export interface MessageBusMessage<T = any> {
+  globalId: number;
+  messageId: number;
+  channel: string;
+  data: T;
+}
+
+export type MessageBusCallback<T = any> = (data: T, message: MessageBusMessage<T>) => void;
+
+type MessageBusFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+interface ChannelSubscription {
+  lastId: number;
+  callbacks: Set<MessageBusCallback>;
+}
+
+export interface MessageBusClientOptions {
+  getBaseUrl?: () => string;
+  getHeaders?: () => Promise<Record<string, string>>;
+  fetch?: MessageBusFetch;
+  clientId?: string;
+  retryDelay?: number;
+  maxRetryDelay?: number;
+}
+
+function createClientId(): string {
+  return Array.from({ length: 32 }, () => Math.floor(Math.random() * 16).toString(16)).join('');
+}
+
+// =============================================================================
+// CLIENT
+// =============================================================================
+
+export class MessageBusClient {
+  readonly clientId: string;
+  private subscriptions = new Map<string, ChannelSubscription>();
+  private state: 'stopped' | 'running' | 'paused' = 'stopped';
+  private loop: Promise<void> | null = null;
+  private abortController: AbortController | null = null;
+  private wake: (() => void) | null = null;
+  private failures = 0;
+  private seq = 0;
+  private getBaseUrl: () => string;
+  private getHeaders: () => Promise<Record<string, string>>;
+  private fetchImpl: MessageBusFetch;
+  private retryDelay: number;
+  private maxRetryDelay: number;
+
+  constructor(options: MessageBusClientOptions = {}) {
+    this.clientId = options.clientId || createClientId();
+    this.getBaseUrl = options.getBaseUrl || (() => discourseApi.getBaseUrl());
+    this.getHeaders = options.getHeaders || authHeaders;
+    this.fetchImpl = options.fetch || ((url, init) => fetch(url, init));
+    this.retryDelay = options.retryDelay ?? MESSAGE_BUS_RETRY_DELAY;
+    this.maxRetryDelay = options.maxRetryDelay ?? MESSAGE_BUS_MAX_RETRY_DELAY;
+  }
+
+  /**
+   * Listen on a channel. Returns a function that removes the listener.
+   */
+  subscribe<T = any>(
+    channel: string,
+    callback: MessageBusCallback<T>,
+    lastId: number = FROM_NOW
+  ): () => void {
+    const existing = this.subscriptions.get(channel);
+    if (existing) {
+      existing.callbacks.add(callback as MessageBusCallback);
+    } else {
+      this.subscriptions.set(channel, { lastId, callbacks: new Set([callback as MessageBusCallback]) });
+      // Re-poll so the new channel is included
+      this.interrupt();
+    }
+    this.ensureLoop();
+
+    return () => this.unsubscribe(channel, callback as MessageBusCallback);
+  }
+
+  unsubscribe(channel: string, callback: MessageBusCallback): void {
+    const subscription = this.subscriptions.get(channel);
+    if (!subscription) return;
+
+    subscription.callbacks.delete(callback);
+    if (subscription.callbacks.size === 0) {
+      this.subscriptions.delete(channel);
+      this.interrupt();
+    }
+  }
+
+  start(): void {
+    if (this.state === 'running') return;
+    this.state = 'running';
+    this.ensureLoop();
+  }
+
+  // Channel positions are kept, so resuming picks up anything missed
+  pause(): void {
+    if (this.state !== 'running') return;
+    this.state = 'paused';
+    this.interrupt();
+  }
+
+  resume(): void {
+    if (this.state !== 'paused') return;
+    this.start();
+  }
+
+  stop(): void {
+    this.state = 'stopped';
+    this.interrupt();
+  }
+
+  isRunning(): boolean {
+    return this.state === 'running';
+  }
+
+  getPosition(channel: string): number | undefined {
+    return this.subscriptions.get(channel)?.lastId;
+  }
+
+  // Resolves once the poll loop has exited (e.g. after stop())
+  async idle(): Promise<void> {
+    await this.loop;
+  }
+
+  /**
+   * Make a single poll request. Returns false when it failed and should be retried later.
+   */
+  async poll(): Promise<boolean> {
+    const channels = Array.from(this.subscriptions.entries());
+    if (channels.length === 0) return true;
+
+    const body = channels
+      .map(([channel, subscription]) => `${encodeURIComponent(channel)}=${subscription.lastId}`)
+      .concat(`__seq=${this.seq++}`)
+      .join('&');
+
+    const controller = new AbortController();
+    this.abortController = controller;
+    const timeout = setTimeout(() => controller.abort(), MESSAGE_BUS_POLL_TIMEOUT);
+
+    try {
+      const headers = await this.getHeaders();
+      const response = await this.fetchImpl(
+        `${this.getBaseUrl()}/message-bus/${this.clientId}/poll`,
+        {
+          method: 'POST',
+          headers: {
+            ...headers,
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'X-SILENCE-LOGGER': 'true',
+            // Ask for a single JSON array instead of a chunked stream
+            'Dont-Chunk': 'true',
+          },
+          body,
+          signal: controller.signal,
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`MessageBus poll failed with status ${response.status}`);
+      }
+
+      const messages = await response.json();
+      this.handleMessages(Array.isArray(messages) ? messages : []);
+      this.failures = 0;
+      return true;
+    } catch (error) {
+      // Interrupted on purpose (pause, stop, channel change) or timed out - just poll again
+      if (controller.signal.aborted) return true;
+      this.failures++;
+      logger.warn('MessageBus poll failed:', error);
+      return false;
+    } finally {
+      clearTimeout(timeout);
+      if (this.abortController === controller) {
+        this.abortController = null;
+      }
+    }
+  }
+
+  private handleMessages(messages: any[]): void {
+    messages.forEach((raw) => {
+      if (!raw || typeof raw.channel !== 'string') return;
+
+      // Server-side positions for our channels, e.g. after subscribing from "now"
+      if (raw.channel === STATUS_CHANNEL) {
+        Object.entries(raw.data || {}).forEach(([channel, lastId]) => {
+          const subscription = this.subscriptions.get(channel);
+          if (subscription && typeof lastId === 'number') {
+            subscription.lastId = lastId;
+          }
+        });
+        return;
+      }
+
+      const subscription = this.subscriptions.get(raw.channel);
+      if (!subscription) return;
+      subscription.lastId = raw.message_id;
+
+      const message: MessageBusMessage = {
+        globalId: raw.global_id,
+        messageId: raw.message_id,
+        channel: raw.channel,
+        data: raw.data,
+      };
+      subscription.callbacks.forEach((callback) => {
+        try {
+          callback(message.data, message);
+        } catch (error) {
+          logger.error(`MessageBus subscriber for ${raw.channel} failed:`, error);
+        }
+      });
+    });
+  }
+
+  private ensureLoop(): void {
+    if (this.loop || this.state !== 'running' || this.subscriptions.size === 0) return;
+    this.loop = this.run().finally(() => {
+      this.loop = null;
+      // Something may have been subscribed while the loop was winding down
+      this.ensureLoop();
+    });
+  }
+
+  private async run(): Promise<void> {
+    while (this.state === 'running' && this.subscriptions.size > 0) {
+      const ok = await this.poll();
+      if (!ok && this.state === 'running') {
+        await this.sleep(Math.min(this.retryDelay * 2 ** (this.failures - 1), this.maxRetryDelay));
+      }
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => this.wake?.(), ms);
+      this.wake = () => {
+        clearTimeout(timer);
+        this.wake = null;
+        resolve();
+      };
+    });
+  }
+
+  private interrupt(): void {
+    this.abortController?.abort();
+    this.wake?.();
+  }
+}
+
+export const messageBus = new MessageBusClient();
+
+// =============================================================================
+// REACT HOOKS
+// =============================================================================
+
+/**
+ * Run the MessageBus client for the whole app: pause it in the background
+ * and keep the feed and notifications in sync with live changes.
+ */
+export function useMessageBus() {
+  const queryClient = useQueryClient();
+  const { isAuthenticated, user } = useAuth();
+
+  useEffect(() => {
+    messageBus.start();
+
+    const subscription = AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
+      if (nextAppState === 'active') {
+        messageBus.resume();
+      } else {
+        messageBus.pause();
+      }
+    });
+
+    // Bumped Bytes: mark the feed stale without yanking it from under the reader.
+    // Cached feed pages are dropped too, or the refetch would be served from them.
+    const unsubscribeLatest = messageBus.subscribe(MESSAGE_BUS_CHANNELS.latest, () => {
+      discourseApi.evictCache('/latest.json', '/c/');
+      queryClient.invalidateQueries({ queryKey: queryKeys.feed(), refetchType: 'none' });
+    });
+
+    return () => {
+      subscription.remove();
+      unsubscribeLatest();
+      messageBus.stop();
+    };
+  }, [queryClient]);
+
+  useEffect(() => {
+    if (!isAuthenticated || !user?.id) return;
+
+    return messageBus.subscribe(MESSAGE_BUS_CHANNELS.notification(user.id), (data: any) => {
+      discourseApi.evictCache('/notifications.json');
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications() });
+      if (data?.unread_private_messages !== undefined) {
+        queryClient.invalidateQueries({ queryKey: ['messages'] });
+      }
+    });
+  }, [isAuthenticated, user?.id, queryClient]);
+}
+
+/**
+ * Refetch a Byte and its comments when replies, likes or edits come in
+ */
+export function useTopicRealtime(topicId: number, enabled: boolean = true) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled || topicId <= 0) return;
+
+    return messageBus.subscribe(MESSAGE_BUS_CHANNELS.topic(topicId), () => {
+      discourseApi.evictCache(`/t/${topicId}.json`, `/t/${topicId}/`);
+      queryClient.invalidateQueries({ queryKey: queryKeys.topic(topicId) });
+    });
+  }, [topicId, enabled, queryClient]);
+}
+
+/**
+ * Count Bytes created since the feed was last refreshed
+ */
+export function useNewBytes() {
+  const [topicIds, setTopicIds] = useState<number[]>([]);
+
+  useEffect(() => {
+    return messageBus.subscribe(MESSAGE_BUS_CHANNELS.newTopics, (data: any) => {
+      if (data?.message_type !== 'new_topic' || typeof data.topic_id !== 'number') return;
+      setTopicIds((prev) => (prev.includes(data.topic_id) ? prev : [...prev, data.topic_id]));
+    });
+  }, []);
+
+  const reset = useCallback(() => setTopicIds([]), []);
+
+  return { count: topicIds.length, reset };
+}
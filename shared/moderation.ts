@@ -0,0 +1,127 @@
+/**
+ * Moderation helpers
+ *
+ * Rules behind the staff tools on the Byte page: who sees them, how a
+ * status change shows on the Byte before Discourse confirms it, and how the
+ * small-action posts Discourse adds to the stream ("closed this Byte") read.
+ */
+
+import type { AppUser, Comment, TopicStatus } from './discourseApi';
+import type { TopicData } from './useTopic';
+
+// Discourse Post.types.small_action
+export const SMALL_ACTION_POST_TYPE = 3;
+
+// Discourse's action_code for replies moved into or out of a topic
+export const MOVED_POSTS_ACTION_CODE = 'split_topic';
+
+const SMALL_ACTION_TEXT: Record<string, string> = {
+  'closed.enabled': 'closed this Byte',
+  'closed.disabled': 'opened this Byte',
+  'autoclosed.enabled': 'closed this Byte automatically',
+  'autoclosed.disabled': 'opened this Byte automatically',
+  'archived.enabled': 'archived this Byte',
+  'archived.disabled': 'unarchived this Byte',
+  'pinned.enabled': 'pinned this Byte',
+  'pinned.disabled': 'unpinned this Byte',
+  'pinned_globally.enabled': 'pinned this Byte globally',
+  'pinned_globally.disabled': 'unpinned this Byte',
+  'visible.enabled': 'listed this Byte',
+  'visible.disabled': 'unlisted this Byte',
+  'banner.enabled': 'made this Byte a banner',
+  'banner.disabled': 'removed the banner',
+  [MOVED_POSTS_ACTION_CODE]: 'moved replies',
+  invited_user: 'invited someone',
+  invited_group: 'invited a group',
+  removed_user: 'removed someone',
+  removed_group: 'removed a group',
+  user_left: 'left the conversation',
+  public_topic: 'made this Byte public',
+  private_topic: 'made this Byte a message',
+};
+
+export function isStaffUser(user: Pick<AppUser, 'admin' | 'moderator'> | null | undefined): boolean {
+  return !!user && (!!user.admin || !!user.moderator);
+}
+
+/**
+ * The action_code Discourse records for a status change
+ */
+export function getStatusActionCode(status: TopicStatus, enabled: boolean): string {
+  return `${status}.${enabled ? 'enabled' : 'disabled'}`;
+}
+
+/**
+ * What a small-action post says after its author's name
+ */
+export function getSmallActionText(actionCode: string): string {
+  return SMALL_ACTION_TEXT[actionCode] ?? 'updated this Byte';
+}
+
+/**
+ * The Byte as it looks once a status change goes through
+ */
+export function applyTopicStatus(topic: TopicData, status: TopicStatus, enabled: boolean): TopicData {
+  switch (status) {
+    case 'closed':
+      return { ...topic, isClosed: enabled };
+    case 'archived':
+      return { ...topic, isArchived: enabled };
+    case 'visible':
+      return { ...topic, isVisible: enabled };
+    case 'pinned':
+      // Unpinning clears a global pin too
+      return { ...topic, isPinned: enabled, isPinnedGlobally: false };
+    case 'pinned_globally':
+      return { ...topic, isPinned: enabled, isPinnedGlobally: enabled };
+    default:
+      return topic;
+  }
+}
+
+/**
+ * A placeholder small-action post, shown until the stream reloads.
+ * Uses a negative id so it can't collide with a real post.
+ */
+export function buildSmallActionComment(params: {
+  topicId: number;
+  byteTitle: string;
+  actionCode: string;
+  author: AppUser;
+  postNumber: number;
+}): Comment {
+  const now = new Date().toISOString();
+  return {
+    id: -Date.now(),
+    content: '',
+    rawContent: '',
+    author: params.author,
+    byteId: params.topicId,
+    byteTitle: params.byteTitle,
+    postNumber: params.postNumber,
+    createdAt: now,
+    updatedAt: now,
+    likeCount: 0,
+    isLiked: false,
+    actionCode: params.actionCode,
+    discourseId: -1,
+  };
+}
+
+/**
+ * Topic ID from a Byte link ("…/t/slug/123", "…/t/123/4", fomio://byte/123)
+ * or a bare ID
+ */
+export function parseTopicReference(value: string): number | null {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    const id = parseInt(trimmed, 10);
+    return id > 0 ? id : null;
+  }
+
+  const match =
+    /\/t\/(\d+)(?:[/?#]|$)/.exec(trimmed) ||
+    /\/t\/[^/?#]+\/(\d+)/.exec(trimmed) ||
+    /(?:byte|feed)\/(\d+)(?:[/?#]|$)/.exec(trimmed);
+  return match ? parseInt(match[1], 10) : null;
+}
@@ -8,6 +8,7 @@
 // Byte mutations
 export {
   useCreateByte,
+  useEditByte,
   useLikeByte,
   useUnlikeByte,
   useBookmarkByte,
@@ -25,3 +26,47 @@ export {
   useReplyToComment,
 } from './useCommentMutations';
 
+
+// Message mutations
+export {
+  useSendMessage,
+  useArchiveMessage,
+  useLeaveMessage,
+} from './useMessageMutations';
+
+// Flag mutations
+export {
+  useFlagPost,
+  useUndoFlag,
+} from './useFlagMutations';
+
+// Poll mutations
+export {
+  useVotePoll,
+  useRemovePollVote,
+} from './usePollMutations';
+
+// Reaction mutations
+export {
+  useToggleReaction,
+} from './useReactionMutations';
+
+// Moderation mutations
+export {
+  useUpdateTopicStatus,
+  useMoveByteToTeret,
+  useMovePosts,
+  useDeletePost,
+  useRecoverPost,
+} from './useModerationMutations';
+
+// Bookmark mutations
+export {
+  useSaveBookmark,
+  useDeleteBookmark,
+} from './useBookmarkMutations';
+
+// Draft mutations
+export {
+  useDeleteDraft,
+} from './useDraftMutations';
@@ -0,0 +1,167 @@
+/**
+ * Bookmark Mutations - TanStack Query mutation hooks for bookmarks
+ *
+ * Saving (with a name, reminder and auto-delete choice) and removing
+ * bookmarks through /bookmarks.json. The bookmark store updates right away
+ * so every bookmark button agrees, and rolls back if Discourse refuses.
+ */
+
+import { InfiniteData, useMutation, useQueryClient } from '@tanstack/react-query';
+import { discourseApi } from '../discourseApi';
+import { Bookmark, BookmarkInput, BookmarkableType, findByteBookmark } from '../bookmarks';
+import { queryKeys } from '../query-client';
+import { SavedBookmark, useBookmarkStore } from '../useBookmarkSync';
+
+interface BookmarkListPage {
+  bookmarks: Bookmark[];
+  page: number;
+  hasMore: boolean;
+}
+
+// A Byte known to be bookmarked, without the bookmark's ID yet
+async function findByteBookmarkId(topicId: number): Promise<number | null> {
+  const response = await discourseApi.getTopicBookmarks(topicId);
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to find bookmark');
+  }
+  return findByteBookmark(response.data || [])?.id ?? null;
+}
+
+// The Byte's cached responses still carry the old bookmark state
+function evictCachedByte(topicId: number) {
+  discourseApi.evictCache(`/t/${topicId}.json`, `/t/${topicId}/`);
+}
+
+function restoreStoredBookmark(topicId: number | undefined, previous: SavedBookmark | undefined) {
+  if (!topicId) return;
+  useBookmarkStore.getState().toggleBookmark(topicId, !!previous, previous);
+}
+
+/**
+ * Create or edit a bookmark. Without a bookmark ID it creates one on
+ * `target`; with neither it edits the bookmark already on the Byte.
+ */
+export function useSaveBookmark() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      topicId,
+      bookmarkId,
+      target,
+      input,
+    }: {
+      // Byte the bookmark belongs to, kept in sync in the bookmark store
+      topicId?: number;
+      bookmarkId?: number;
+      target?: { id: number; type: BookmarkableType };
+      input: BookmarkInput;
+    }) => {
+      const existingId = bookmarkId ?? (!target && topicId ? await findByteBookmarkId(topicId) : null);
+
+      if (existingId) {
+        const response = await discourseApi.updateBookmark(existingId, input);
+        if (!response.success) {
+          throw new Error(response.errors?.join(', ') || response.error || 'Failed to save bookmark');
+        }
+        return existingId;
+      }
+
+      if (!target) {
+        throw new Error('Nothing to bookmark');
+      }
+      const response = await discourseApi.createBookmark(target.id, target.type, input);
+      if (!response.success || !response.data) {
+        throw new Error(response.errors?.join(', ') || response.error || 'Failed to save bookmark');
+      }
+      return response.data.id;
+    },
+    onMutate: ({ topicId, bookmarkId, input }) => {
+      if (!topicId) return undefined;
+      const store = useBookmarkStore.getState();
+      const previous = store.getBookmark(topicId);
+      store.toggleBookmark(topicId, true, { ...previous, ...input, id: bookmarkId ?? previous?.id });
+      return { previous };
+    },
+    onSuccess: (id, { topicId, input }) => {
+      const store = useBookmarkStore.getState();
+      if (topicId) {
+        store.toggleBookmark(topicId, true, { ...store.getBookmark(topicId), id });
+      }
+      if (input.autoDeletePreference !== undefined) {
+        store.setDefaultAutoDeletePreference(input.autoDeletePreference);
+      }
+    },
+    onError: (_error, { topicId }, context) => {
+      restoreStoredBookmark(topicId, context?.previous);
+    },
+    onSettled: (_data, _error, { topicId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookmarks() });
+      if (topicId) {
+        evictCachedByte(topicId);
+        queryClient.invalidateQueries({ queryKey: queryKeys.topic(topicId), exact: true });
+      }
+    },
+  });
+}
+
+/**
+ * Remove a bookmark, by its ID or the Byte it's on
+ */
+export function useDeleteBookmark() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ topicId, bookmarkId }: { topicId?: number; bookmarkId?: number }) => {
+      const id = bookmarkId ?? (topicId ? await findByteBookmarkId(topicId) : null);
+      if (!id) {
+        // Already gone
+        return null;
+      }
+
+      const response = await discourseApi.deleteBookmark(id);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to remove bookmark');
+      }
+      return id;
+    },
+    onMutate: async ({ topicId, bookmarkId }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.bookmarks() });
+      const previousLists = queryClient.getQueriesData<InfiniteData<BookmarkListPage>>({
+        queryKey: queryKeys.bookmarks(),
+      });
+      if (bookmarkId) {
+        queryClient.setQueriesData<InfiniteData<BookmarkListPage>>({ queryKey: queryKeys.bookmarks() }, (old) =>
+          old
+            ? {
+                ...old,
+                pages: old.pages.map((page) => ({
+                  ...page,
+                  bookmarks: page.bookmarks.filter((bookmark) => bookmark.id !== bookmarkId),
+                })),
+              }
+            : old
+        );
+      }
+
+      const previous = topicId ? useBookmarkStore.getState().getBookmark(topicId) : undefined;
+      if (topicId) {
+        useBookmarkStore.getState().toggleBookmark(topicId, false);
+      }
+      return { previous, previousLists };
+    },
+    onError: (_error, { topicId }, context) => {
+      context?.previousLists.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+      restoreStoredBookmark(topicId, context?.previous);
+    },
+    onSettled: (_data, _error, { topicId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookmarks() });
+      if (topicId) {
+        evictCachedByte(topicId);
+        queryClient.invalidateQueries({ queryKey: queryKeys.topic(topicId), exact: true });
+      }
+    },
+  });
+}
@@ -6,8 +6,10 @@
  */
 
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { discourseApi } from '../discourseApi';
+import { discourseApi, TopicNotificationLevel } from '../discourseApi';
 import { queryKeys } from '../query-client';
+import { TopicData } from '../useTopic';
+import { TOPIC_NOTIFICATION_REASONS } from '../topic-notifications';
 
 /**
  * Create a new byte (topic)
@@ -36,6 +38,52 @@ export function useCreateByte() {
   });
 }
 
+/**
+ * Edit a byte you own
+ *
+ * Title and teret live on the topic, the body on its first post, so only
+ * the parts that actually changed are sent.
+ */
+export function useEditByte() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: {
+      topicId: number;
+      postId: number;
+      title?: string;
+      categoryId?: number;
+      tags?: string[];
+      raw?: string;
+      editReason?: string;
+    }) => {
+      if (data.title !== undefined || data.categoryId !== undefined || data.tags !== undefined) {
+        const topicResponse = await discourseApi.updateTopic(data.topicId, {
+          title: data.title,
+          categoryId: data.categoryId,
+          tags: data.tags,
+        });
+        if (!topicResponse.success) {
+          throw new Error(topicResponse.error || 'Failed to update byte');
+        }
+      }
+
+      if (data.raw !== undefined) {
+        const postResponse = await discourseApi.updatePost(data.postId, data.raw, data.editReason);
+        if (!postResponse.success) {
+          throw new Error(postResponse.error || 'Failed to update byte');
+        }
+      }
+
+      return data.topicId;
+    },
+    onSuccess: (topicId) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.topic(topicId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.feed() });
+    },
+  });
+}
+
 /**
  * Like/unlike a byte (topic)
  */
@@ -148,15 +196,35 @@ export function useSetByteNotificationLevel() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ byteId, level }: { byteId: number; level: number }) => {
+    mutationFn: async ({ byteId, level }: { byteId: number; level: TopicNotificationLevel }) => {
       const response = await discourseApi.setNotificationLevel(byteId, level);
       if (!response.success) {
         throw new Error(response.error || 'Failed to set notification level');
       }
       return { byteId, level };
     },
-    onSuccess: ({ byteId }) => {
-      queryClient.invalidateQueries({ queryKey: queryKeys.topic(byteId) });
+    onMutate: async ({ byteId, level }) => {
+      const topicQueryKey = queryKeys.topic(byteId);
+      await queryClient.cancelQueries({ queryKey: topicQueryKey, exact: true });
+
+      const previousTopic = queryClient.getQueryData<TopicData>(topicQueryKey);
+
+      // Show the new level right away; Discourse records it as the user's choice
+      queryClient.setQueryData<TopicData>(topicQueryKey, (old) =>
+        old
+          ? { ...old, notificationLevel: level, notificationsReasonId: TOPIC_NOTIFICATION_REASONS.userChanged }
+          : old
+      );
+
+      return { previousTopic };
+    },
+    onError: (_error, { byteId }, context) => {
+      if (context?.previousTopic) {
+        queryClient.setQueryData(queryKeys.topic(byteId), context.previousTopic);
+      }
+    },
+    onSettled: (_data, _error, { byteId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.topic(byteId), exact: true });
     },
   });
 }
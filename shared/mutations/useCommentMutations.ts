@@ -5,9 +5,14 @@
  * with automatic cache invalidation.
  */
 
-import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { discourseApi, Comment } from '../discourseApi';
+import { useMutation, useQueryClient, InfiniteData } from '@tanstack/react-query';
+import { discourseApi } from '../discourseApi';
 import { queryKeys } from '../query-client';
+import {
+  CommentStreamPage,
+  updateCommentPages,
+  appendCommentToPages,
+} from '../comment-stream';
 
 /**
  * Create a new comment
@@ -37,9 +42,10 @@ export function useCreateComment(byteId: number) {
       return response.data;
     },
     onSuccess: (newComment) => {
-      // Add the new comment to the cache
-      queryClient.setQueryData<Comment[]>(commentsQueryKey, (old) =>
-        old ? [...old, newComment] : [newComment]
+      // Add the new comment to every cached view of the stream
+      queryClient.setQueriesData<InfiniteData<CommentStreamPage>>(
+        { queryKey: commentsQueryKey },
+        (old) => appendCommentToPages(old, newComment)
       );
       // Also invalidate the topic to update comment count
       queryClient.invalidateQueries({ queryKey: queryKeys.topic(byteId) });
@@ -72,10 +78,14 @@ export function useUpdateComment(byteId: number) {
     },
     onSuccess: (updatedComment) => {
       // Update the comment in cache
-      queryClient.setQueryData<Comment[]>(commentsQueryKey, (old) =>
-        old?.map((comment) =>
-          comment.id === updatedComment.id ? updatedComment : comment
-        ) ?? []
+      queryClient.setQueriesData<InfiniteData<CommentStreamPage>>(
+        { queryKey: commentsQueryKey },
+        (old) =>
+          updateCommentPages(old, (comments) =>
+            comments.map((comment) =>
+              comment.id === updatedComment.id ? updatedComment : comment
+            )
+          )
       );
     },
   });
@@ -100,8 +110,12 @@ export function useDeleteComment(byteId: number) {
     },
     onSuccess: (deletedId) => {
       // Remove the comment from cache
-      queryClient.setQueryData<Comment[]>(commentsQueryKey, (old) =>
-        old?.filter((comment) => comment.id !== deletedId) ?? []
+      queryClient.setQueriesData<InfiniteData<CommentStreamPage>>(
+        { queryKey: commentsQueryKey },
+        (old) =>
+          updateCommentPages(old, (comments) =>
+            comments.filter((comment) => comment.id !== deletedId)
+          )
       );
       // Also invalidate the topic to update comment count
       queryClient.invalidateQueries({ queryKey: queryKeys.topic(byteId) });
@@ -130,22 +144,28 @@ export function useLikeComment(byteId: number) {
       // Cancel any outgoing refetches
       await queryClient.cancelQueries({ queryKey: commentsQueryKey });
 
-      // Snapshot the previous value
-      const previousComments = queryClient.getQueryData<Comment[]>(commentsQueryKey);
+      // Snapshot the previous values
+      const previousComments = queryClient.getQueriesData<InfiniteData<CommentStreamPage>>({
+        queryKey: commentsQueryKey,
+      });
 
       // Optimistically update the cache
-      queryClient.setQueryData<Comment[]>(commentsQueryKey, (old) =>
-        old?.map((comment) =>
-          comment.id === commentId
-            ? {
-                ...comment,
-                isLiked: !comment.isLiked,
-                likeCount: comment.isLiked
-                  ? comment.likeCount - 1
-                  : comment.likeCount + 1,
-              }
-            : comment
-        ) ?? []
+      queryClient.setQueriesData<InfiniteData<CommentStreamPage>>(
+        { queryKey: commentsQueryKey },
+        (old) =>
+          updateCommentPages(old, (comments) =>
+            comments.map((comment) =>
+              comment.id === commentId
+                ? {
+                    ...comment,
+                    isLiked: !comment.isLiked,
+                    likeCount: comment.isLiked
+                      ? comment.likeCount - 1
+                      : comment.likeCount + 1,
+                  }
+                : comment
+            )
+          )
       );
 
       // Return a context object with the snapshotted value
@@ -153,9 +173,9 @@ export function useLikeComment(byteId: number) {
     },
     onError: (_err, _commentId, context) => {
       // If the mutation fails, use the context to roll back
-      if (context?.previousComments) {
-        queryClient.setQueryData(commentsQueryKey, context.previousComments);
-      }
+      context?.previousComments.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
     },
     onSettled: () => {
       // Always refetch after error or success
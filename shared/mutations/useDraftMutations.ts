@@ -0,0 +1,54 @@
+/**
+ * Draft Mutations - TanStack Query mutation hooks for server-side drafts
+ *
+ * Deleting a draft takes it off the drafts screen right away and puts it
+ * back if Discourse refuses.
+ */
+
+import { InfiniteData, useMutation, useQueryClient } from '@tanstack/react-query';
+import { discourseApi } from '../discourseApi';
+import { queryKeys } from '../query-client';
+import type { DraftsPageData } from '../hooks/useUserDrafts';
+
+/**
+ * Delete a draft by its key and sequence
+ */
+export function useDeleteDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ draftKey, sequence }: { draftKey: string; sequence: number }) => {
+      const response = await discourseApi.deleteDraft({ draftKey, sequence });
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to delete draft');
+      }
+
+      return draftKey;
+    },
+    onMutate: async ({ draftKey }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.drafts() });
+      const previous = queryClient.getQueryData<InfiniteData<DraftsPageData>>(queryKeys.drafts());
+      queryClient.setQueryData<InfiniteData<DraftsPageData>>(queryKeys.drafts(), (old) =>
+        old
+          ? {
+              ...old,
+              pages: old.pages.map((page) => ({
+                ...page,
+                drafts: page.drafts.filter((draft) => draft.draftKey !== draftKey),
+              })),
+            }
+          : old
+      );
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.drafts(), context.previous);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.drafts() });
+    },
+  });
+}
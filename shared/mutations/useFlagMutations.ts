@@ -0,0 +1,80 @@
+/**
+ * Flag Mutations - TanStack Query mutation hooks for flagging posts
+ * 
+ * Provides mutation hooks for flagging Bytes and comments and undoing
+ * a flag, with automatic cache invalidation.
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { discourseApi } from '../discourseApi';
+import { queryKeys } from '../query-client';
+
+// The Byte's cached responses still carry the old flag state
+function evictCachedByte(topicId: number) {
+  discourseApi.evictCache(`/t/${topicId}.json`, `/t/${topicId}/`);
+}
+
+/**
+ * Flag a post (a Byte's first post or a comment)
+ */
+export function useFlagPost() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      postId,
+      flagTypeId,
+      message,
+    }: {
+      topicId: number;
+      postId: number;
+      flagTypeId: number;
+      message?: string;
+    }) => {
+      const response = await discourseApi.flagPost(postId, flagTypeId, message);
+
+      if (!response.success) {
+        throw new Error(
+          response.errors?.join(', ') || response.error || 'Failed to flag post'
+        );
+      }
+
+      return postId;
+    },
+    onSuccess: (_postId, { topicId }) => {
+      evictCachedByte(topicId);
+      // Refreshes the Byte and its comment stream with the new flag state
+      queryClient.invalidateQueries({ queryKey: queryKeys.topic(topicId) });
+    },
+  });
+}
+
+/**
+ * Undo a flag while Discourse still allows it
+ */
+export function useUndoFlag() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      postId,
+      flagTypeId,
+    }: {
+      topicId: number;
+      postId: number;
+      flagTypeId: number;
+    }) => {
+      const response = await discourseApi.undoFlag(postId, flagTypeId);
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to undo flag');
+      }
+
+      return postId;
+    },
+    onSuccess: (_postId, { topicId }) => {
+      evictCachedByte(topicId);
+      queryClient.invalidateQueries({ queryKey: queryKeys.topic(topicId) });
+    },
+  });
+}
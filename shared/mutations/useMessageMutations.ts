@@ -0,0 +1,90 @@
+/**
+ * Message Mutations - TanStack Query mutation hooks for private messages
+ * 
+ * Provides mutation hooks for starting, archiving and leaving conversations
+ * with automatic cache invalidation.
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { discourseApi } from '../discourseApi';
+import { queryKeys } from '../query-client';
+
+/**
+ * Start a new conversation
+ */
+export function useSendMessage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      title,
+      raw,
+      recipients,
+    }: {
+      title: string;
+      raw: string;
+      recipients: string[];
+    }) => {
+      const response = await discourseApi.createPrivateMessage({ title, raw, recipients });
+
+      if (!response.success || !response.data) {
+        throw new Error(
+          response.errors?.join(', ') || response.error || 'Failed to send message'
+        );
+      }
+
+      return response.data.topic_id as number;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['messages'] });
+    },
+  });
+}
+
+/**
+ * Archive a conversation, or move it back to the inbox
+ */
+export function useArchiveMessage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ topicId, archive }: { topicId: number; archive: boolean }) => {
+      const response = archive
+        ? await discourseApi.archiveMessage(topicId)
+        : await discourseApi.moveMessageToInbox(topicId);
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to update conversation');
+      }
+
+      return topicId;
+    },
+    onSuccess: () => {
+      // The conversation moves between the inbox and archive folders
+      queryClient.invalidateQueries({ queryKey: ['messages'] });
+    },
+  });
+}
+
+/**
+ * Leave a conversation (removes the user from its participants)
+ */
+export function useLeaveMessage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ topicId, username }: { topicId: number; username: string }) => {
+      const response = await discourseApi.leaveMessage(topicId, username);
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to leave conversation');
+      }
+
+      return topicId;
+    },
+    onSuccess: (topicId) => {
+      queryClient.invalidateQueries({ queryKey: ['messages'] });
+      queryClient.removeQueries({ queryKey: queryKeys.topic(topicId) });
+    },
+  });
+}
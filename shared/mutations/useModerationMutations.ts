@@ -0,0 +1,266 @@
+/**
+ * Moderation Mutations - TanStack Query mutation hooks for staff actions
+ *
+ * Status changes, moving a Byte or its replies, and deleting or recovering
+ * posts. Each updates the cached Byte and comment stream right away, rolls
+ * back if Discourse refuses, and reloads both once it answers, which also
+ * brings in the small-action post Discourse adds to the stream.
+ */
+
+import { InfiniteData, QueryClient, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AppUser, Comment, discourseApi, TopicStatus } from '../discourseApi';
+import { queryKeys } from '../query-client';
+import { TopicData } from '../useTopic';
+import { CommentStreamPage, appendCommentToPages, updateCommentPages } from '../comment-stream';
+import {
+  MOVED_POSTS_ACTION_CODE,
+  applyTopicStatus,
+  buildSmallActionComment,
+  getStatusActionCode,
+} from '../moderation';
+
+interface TopicSnapshot {
+  previousTopic?: TopicData;
+  previousComments: [readonly unknown[], InfiniteData<CommentStreamPage> | undefined][];
+}
+
+async function snapshotTopic(queryClient: QueryClient, topicId: number): Promise<TopicSnapshot> {
+  // The topic key prefixes the comment keys, so this holds back both
+  await queryClient.cancelQueries({ queryKey: queryKeys.topic(topicId) });
+  return {
+    previousTopic: queryClient.getQueryData<TopicData>(queryKeys.topic(topicId)),
+    previousComments: queryClient.getQueriesData<InfiniteData<CommentStreamPage>>({
+      queryKey: queryKeys.topicComments(topicId),
+    }),
+  };
+}
+
+function restoreTopic(queryClient: QueryClient, topicId: number, snapshot?: TopicSnapshot) {
+  if (!snapshot) return;
+  if (snapshot.previousTopic) {
+    queryClient.setQueryData(queryKeys.topic(topicId), snapshot.previousTopic);
+  }
+  snapshot.previousComments.forEach(([queryKey, data]) => {
+    queryClient.setQueryData(queryKey, data);
+  });
+}
+
+function updateComments(queryClient: QueryClient, topicId: number, update: (comments: Comment[]) => Comment[]) {
+  queryClient.setQueriesData<InfiniteData<CommentStreamPage>>(
+    { queryKey: queryKeys.topicComments(topicId) },
+    (old) => updateCommentPages(old, update)
+  );
+}
+
+// Drop the Byte's cached responses, or the reload is served from them without
+// the change or its small-action post
+function evictCachedTopic(topicId: number) {
+  discourseApi.evictCache(`/t/${topicId}.json`, `/t/${topicId}/`);
+}
+
+// Show the small-action post until the reload brings in the real one
+function appendSmallAction(queryClient: QueryClient, topicId: number, actionCode: string, author?: AppUser) {
+  if (!author) return;
+  const topic = queryClient.getQueryData<TopicData>(queryKeys.topic(topicId));
+  const comment = buildSmallActionComment({
+    topicId,
+    byteTitle: topic?.title ?? '',
+    actionCode,
+    author,
+    postNumber: (topic?.highestPostNumber ?? 0) + 1,
+  });
+  queryClient.setQueriesData<InfiniteData<CommentStreamPage>>(
+    { queryKey: queryKeys.topicComments(topicId) },
+    (old) => appendCommentToPages(old, comment)
+  );
+}
+
+/**
+ * Pin/unpin, close/open, archive/unarchive, list/unlist a byte
+ */
+export function useUpdateTopicStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      topicId,
+      status,
+      enabled,
+    }: {
+      topicId: number;
+      status: TopicStatus;
+      enabled: boolean;
+      // Staff member making the change, for the placeholder small action
+      author?: AppUser;
+    }) => {
+      const response = await discourseApi.updateTopicStatus(topicId, status, enabled);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to update byte');
+      }
+      return topicId;
+    },
+    onMutate: async ({ topicId, status, enabled, author }) => {
+      const snapshot = await snapshotTopic(queryClient, topicId);
+      queryClient.setQueryData<TopicData>(queryKeys.topic(topicId), (old) =>
+        old ? applyTopicStatus(old, status, enabled) : old
+      );
+      appendSmallAction(queryClient, topicId, getStatusActionCode(status, enabled), author);
+      return snapshot;
+    },
+    onError: (_error, { topicId }, context) => {
+      restoreTopic(queryClient, topicId, context);
+    },
+    onSettled: (_data, _error, { topicId }) => {
+      evictCachedTopic(topicId);
+      queryClient.invalidateQueries({ queryKey: queryKeys.topic(topicId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.feed() });
+    },
+  });
+}
+
+/**
+ * Move a byte to another teret
+ */
+export function useMoveByteToTeret() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ topicId, category }: { topicId: number; category: TopicData['category'] }) => {
+      const response = await discourseApi.updateTopic(topicId, { categoryId: category.id });
+      if (!response.success) {
+        throw new Error(response.errors?.join(', ') || response.error || 'Failed to move byte');
+      }
+      return topicId;
+    },
+    onMutate: async ({ topicId, category }) => {
+      const snapshot = await snapshotTopic(queryClient, topicId);
+      queryClient.setQueryData<TopicData>(queryKeys.topic(topicId), (old) => (old ? { ...old, category } : old));
+      return snapshot;
+    },
+    onError: (_error, { topicId }, context) => {
+      restoreTopic(queryClient, topicId, context);
+    },
+    onSettled: (_data, _error, { topicId }) => {
+      evictCachedTopic(topicId);
+      queryClient.invalidateQueries({ queryKey: queryKeys.topic(topicId), exact: true });
+      queryClient.invalidateQueries({ queryKey: queryKeys.feed() });
+    },
+  });
+}
+
+/**
+ * Split replies into a new byte or merge them into an existing one
+ */
+export function useMovePosts() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      topicId,
+      postIds,
+      destination,
+    }: {
+      topicId: number;
+      postIds: number[];
+      destination: { topicId: number } | { title: string; categoryId?: number };
+      author?: AppUser;
+    }) => {
+      const response = await discourseApi.movePosts(
+        topicId,
+        'topicId' in destination
+          ? { postIds, destinationTopicId: destination.topicId }
+          : { postIds, title: destination.title, categoryId: destination.categoryId }
+      );
+      if (!response.success || !response.data) {
+        throw new Error(response.errors?.join(', ') || response.error || 'Failed to move replies');
+      }
+      return response.data;
+    },
+    onMutate: async ({ topicId, postIds, author }) => {
+      const snapshot = await snapshotTopic(queryClient, topicId);
+      const moved = new Set(postIds);
+      updateComments(queryClient, topicId, (comments) => comments.filter((comment) => !moved.has(comment.id)));
+      appendSmallAction(queryClient, topicId, MOVED_POSTS_ACTION_CODE, author);
+      return snapshot;
+    },
+    onError: (_error, { topicId }, context) => {
+      restoreTopic(queryClient, topicId, context);
+    },
+    onSettled: (data, _error, { topicId, destination }) => {
+      evictCachedTopic(topicId);
+      queryClient.invalidateQueries({ queryKey: queryKeys.topic(topicId) });
+      const destinationId = 'topicId' in destination ? destination.topicId : data?.topicId;
+      if (destinationId) {
+        evictCachedTopic(destinationId);
+        queryClient.invalidateQueries({ queryKey: queryKeys.topic(destinationId) });
+      }
+      queryClient.invalidateQueries({ queryKey: queryKeys.feed() });
+    },
+  });
+}
+
+/**
+ * Delete a post as staff; it stays in the stream, marked deleted
+ */
+export function useDeletePost() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ postId }: { topicId: number; postId: number }) => {
+      const response = await discourseApi.deleteComment(postId);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to delete post');
+      }
+      return postId;
+    },
+    onMutate: async ({ topicId, postId }) => {
+      const snapshot = await snapshotTopic(queryClient, topicId);
+      updateComments(queryClient, topicId, (comments) =>
+        comments.map((comment) =>
+          comment.id === postId ? { ...comment, isDeleted: true, canDelete: false, canRecover: true } : comment
+        )
+      );
+      return snapshot;
+    },
+    onError: (_error, { topicId }, context) => {
+      restoreTopic(queryClient, topicId, context);
+    },
+    onSettled: (_data, _error, { topicId }) => {
+      evictCachedTopic(topicId);
+      queryClient.invalidateQueries({ queryKey: queryKeys.topic(topicId) });
+    },
+  });
+}
+
+/**
+ * Recover a deleted post
+ */
+export function useRecoverPost() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ postId }: { topicId: number; postId: number }) => {
+      const response = await discourseApi.recoverPost(postId);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to recover post');
+      }
+      return postId;
+    },
+    onMutate: async ({ topicId, postId }) => {
+      const snapshot = await snapshotTopic(queryClient, topicId);
+      updateComments(queryClient, topicId, (comments) =>
+        comments.map((comment) =>
+          comment.id === postId ? { ...comment, isDeleted: false, canDelete: true, canRecover: false } : comment
+        )
+      );
+      return snapshot;
+    },
+    onError: (_error, { topicId }, context) => {
+      restoreTopic(queryClient, topicId, context);
+    },
+    onSettled: (_data, _error, { topicId }) => {
+      evictCachedTopic(topicId);
+      queryClient.invalidateQueries({ queryKey: queryKeys.topic(topicId) });
+    },
+  });
+}
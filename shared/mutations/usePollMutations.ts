@@ -0,0 +1,74 @@
+/**
+ * Poll Mutations - TanStack Query mutation hooks for poll votes
+ *
+ * Provides mutation hooks for voting in a post's poll and removing a
+ * vote, with automatic cache invalidation.
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { discourseApi } from '../discourseApi';
+import { queryKeys } from '../query-client';
+
+/**
+ * Vote in a poll, replacing any earlier vote. Resolves with the updated poll.
+ */
+export function useVotePoll() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      postId,
+      pollName,
+      optionIds,
+    }: {
+      topicId: number;
+      postId: number;
+      pollName: string;
+      optionIds: string[];
+    }) => {
+      const response = await discourseApi.votePoll(postId, pollName, optionIds);
+
+      if (!response.success || !response.data) {
+        throw new Error(
+          response.errors?.join(', ') || response.error || 'Failed to vote'
+        );
+      }
+
+      return response.data;
+    },
+    onSuccess: (_poll, { topicId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.topic(topicId) });
+    },
+  });
+}
+
+/**
+ * Take back a vote while the poll is open. Resolves with the updated poll.
+ */
+export function useRemovePollVote() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      postId,
+      pollName,
+    }: {
+      topicId: number;
+      postId: number;
+      pollName: string;
+    }) => {
+      const response = await discourseApi.removePollVote(postId, pollName);
+
+      if (!response.success || !response.data) {
+        throw new Error(
+          response.errors?.join(', ') || response.error || 'Failed to remove vote'
+        );
+      }
+
+      return response.data;
+    },
+    onSuccess: (_poll, { topicId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.topic(topicId) });
+    },
+  });
+}
@@ -0,0 +1,43 @@
+/**
+ * Reaction Mutations - TanStack Query mutation hook for post reactions
+ *
+ * Toggles a discourse-reactions reaction on a post, with automatic cache
+ * invalidation of the topic, its comments and the post's "who reacted" list.
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { discourseApi } from '../discourseApi';
+import { queryKeys } from '../query-client';
+
+/**
+ * React to a post, or take the reaction back when it's the current one.
+ * Resolves with the post's updated reactions.
+ */
+export function useToggleReaction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      postId,
+      reactionId,
+    }: {
+      topicId: number;
+      postId: number;
+      reactionId: string;
+    }) => {
+      const response = await discourseApi.toggleReaction(postId, reactionId);
+
+      if (!response.success || !response.data) {
+        throw new Error(
+          response.errors?.join(', ') || response.error || 'Failed to react'
+        );
+      }
+
+      return response.data;
+    },
+    onSuccess: (_reactions, { topicId, postId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.topic(topicId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.postReactionUsers(postId) });
+    },
+  });
+}
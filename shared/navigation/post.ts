@@ -0,0 +1,18 @@
+import { router } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+
+/**
+ * Navigate to a post with haptic feedback: the Byte itself for its first
+ * post, otherwise the Byte with its comments open
+ * @param topicId - The Byte (topic) the post belongs to (required)
+ * @param postNumber - The post's number in the Byte
+ */
+export function goToPost(topicId: number | null | undefined, postNumber?: number | null): void {
+  if (!topicId) {
+    console.warn('goToPost: topicId is required');
+    return;
+  }
+
+  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+  router.push((postNumber && postNumber > 1 ? `/feed/${topicId}?showComments=true` : `/feed/${topicId}`) as any);
+}
@@ -0,0 +1,16 @@
+import { router } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+
+/**
+ * Navigate to the feed of Bytes with a tag, with haptic feedback
+ * @param tagName - The tag to navigate to (required)
+ */
+export function goToTag(tagName: string | null | undefined): void {
+  if (!tagName) {
+    console.warn('goToTag: tagName is required');
+    return;
+  }
+
+  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+  router.push(`/tag/${encodeURIComponent(tagName)}` as any);
+}
@@ -0,0 +1,90 @@
+/**
+ * Notification pages and device-side unread marks
+ *
+ * /notifications.json is paged by offset, and each page links the next one in
+ * `load_more_notifications` (`/notifications?offset=60&username=…`). Paging
+ * stops once a page comes back empty or `total_rows_notifications` is reached.
+ *
+ * Discourse only lets staff mark a notification unread again, so "Mark
+ * unread" is kept on the device, per account, until the notification is read.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getAccountStorageKey } from './accounts';
+import type { Notification } from './useNotifications';
+
+export const MARKED_UNREAD_LIMIT = 100;
+
+const MARKED_UNREAD_STORAGE_PREFIX = 'fomio_notifications_marked_unread';
+
+/**
+ * The offset of the page after one fetched at `offset`, or undefined at the end
+ */
+export function getNextNotificationsOffset(data: any, offset: number, received: number): number | undefined {
+  if (received === 0) return undefined;
+
+  const link = typeof data?.load_more_notifications === 'string' ? data.load_more_notifications : '';
+  const match = link.match(/[?&]offset=(\d+)/);
+  if (!match) return undefined;
+
+  const next = parseInt(match[1], 10);
+  if (next <= offset) return undefined;
+
+  const total = data?.total_rows_notifications;
+  if (typeof total === 'number' && next >= total) return undefined;
+  return next;
+}
+
+/**
+ * Pages as one newest-first list. A notification pushed onto the next page by
+ * newer ones while paging is only listed once.
+ */
+export function mergeNotificationPages(pages: Notification[][]): Notification[] {
+  const seen = new Set<number>();
+  const merged: Notification[] = [];
+  pages.forEach((page) => {
+    page.forEach((notification) => {
+      if (seen.has(notification.id)) return;
+      seen.add(notification.id);
+      merged.push(notification);
+    });
+  });
+  return merged.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+export function applyMarkedUnread(notifications: Notification[], markedUnread: number[]): Notification[] {
+  if (markedUnread.length === 0) return notifications;
+  const ids = new Set(markedUnread);
+  return notifications.map((notification) =>
+    ids.has(notification.id) && notification.isRead ? { ...notification, isRead: false } : notification
+  );
+}
+
+// Most recently marked first, capped at MARKED_UNREAD_LIMIT
+export function addMarkedUnread(markedUnread: number[], ids: number[]): number[] {
+  const rest = markedUnread.filter((id) => !ids.includes(id));
+  return [...ids, ...rest].slice(0, MARKED_UNREAD_LIMIT);
+}
+
+export function removeMarkedUnread(markedUnread: number[], ids: number[]): number[] {
+  return markedUnread.filter((id) => !ids.includes(id));
+}
+
+export function getMarkedUnreadStorageKey(accountId: string | null): string {
+  return getAccountStorageKey(MARKED_UNREAD_STORAGE_PREFIX, accountId);
+}
+
+export async function loadMarkedUnread(accountId: string | null): Promise<number[]> {
+  const stored = await AsyncStorage.getItem(getMarkedUnreadStorageKey(accountId));
+  if (!stored) return [];
+  try {
+    const data = JSON.parse(stored);
+    return Array.isArray(data) ? data.filter((id): id is number => typeof id === 'number') : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function saveMarkedUnread(accountId: string | null, markedUnread: number[]): Promise<void> {
+  await AsyncStorage.setItem(getMarkedUnreadStorageKey(accountId), JSON.stringify(markedUnread));
+}
@@ -6,6 +6,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { logger } from './logger';
 import { errorManager } from './error-handling';
+import { discourseApi, DiscourseApiResponse } from './discourseApi';
 
 // =============================================================================
 // TYPES AND INTERFACES
@@ -36,8 +37,29 @@ export interface QueuedAction {
   priority: 'low' | 'medium' | 'high';
   endpoint?: string;
   method?: string;
+  // Stable key identifying the server-side effect (e.g. "like_post:123"),
+  // used to collapse duplicates and cancel out opposite toggles
+  dedupeKey?: string;
 }
 
+/**
+ * Actions the outbox knows how to replay against Discourse.
+ * Every handler goes through discourseApi so requests carry the User-Api-Key headers.
+ */
+export interface OfflineActionPayloads {
+  like_post: { postId: number };
+  unlike_post: { postId: number };
+  bookmark_post: { postId: number };
+  unbookmark_post: { postId: number };
+  create_reply: { topicId: number; raw: string; replyToPostNumber?: number };
+  create_topic: { title: string; raw: string; category?: number; tags?: string[] };
+  update_profile: { username: string; updates: Record<string, any> };
+}
+
+export type OfflineActionType = keyof OfflineActionPayloads;
+
+export type ReplayOutcome = 'done' | 'retry' | 'drop';
+
 export interface SyncResult {
   success: boolean;
   actionsProcessed: number;
@@ -113,7 +135,8 @@ class NetworkStatusManager {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 5000);
       
-      const response = await fetch('https://www.google.com/favicon.ico', {
+      // Discourse health endpoint - reachability of the forum is what matters for replay
+      const response = await fetch(`${discourseApi.getBaseUrl()}/srv/status`, {
         method: 'HEAD',
         cache: 'no-cache',
         signal: controller.signal,
@@ -161,6 +184,12 @@ class NetworkStatusManager {
     });
   }
   
+  // Check connectivity now rather than trusting the last poll, which starts out as connected
+  async refresh(): Promise<boolean> {
+    await this.checkNetworkStatus();
+    return this.isOnline();
+  }
+  
   // Get current network state
   getState(): NetworkState {
     return { ...this.currentState };
@@ -268,6 +297,113 @@ class CacheManager {
   }
 }
 
+// =============================================================================
+// REPLAY HELPERS
+// =============================================================================
+
+// Toggle actions that cancel each other out while both are still queued
+const OPPOSITE_ACTIONS: Partial<Record<OfflineActionType, OfflineActionType>> = {
+  like_post: 'unlike_post',
+  unlike_post: 'like_post',
+  bookmark_post: 'unbookmark_post',
+  unbookmark_post: 'bookmark_post',
+};
+
+// Small stable string hash (djb2) so create actions get a deterministic dedupe key
+function hashString(value: string): string {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Build the key identifying the server-side effect of an action.
+ * Toggles key on the target post; creates key on their target and content.
+ */
+export function getActionDedupeKey(type: string, payload: any): string | undefined {
+  switch (type) {
+    case 'like_post':
+    case 'unlike_post':
+    case 'bookmark_post':
+    case 'unbookmark_post':
+      return `post:${payload?.postId}`;
+    case 'create_reply':
+      return `create_reply:${payload?.topicId}:${payload?.replyToPostNumber ?? 0}:${hashString(String(payload?.raw ?? '').trim())}`;
+    case 'create_topic':
+      return `create_topic:${hashString(`${payload?.title ?? ''}\n${String(payload?.raw ?? '').trim()}`)}`;
+    case 'update_profile':
+      return `update_profile:${payload?.username}`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * True when a discourseApi call failed before reaching the server
+ * (offline, DNS failure, timeout) - i.e. the action is safe to queue for replay.
+ */
+export function isNetworkFailure(response: DiscourseApiResponse<unknown>): boolean {
+  return !response.success && response.networkError === true;
+}
+
+function responseMentions(response: DiscourseApiResponse<unknown>, fragments: string[]): boolean {
+  const messages = [response.error, ...(response.errors || [])]
+    .filter((message): message is string => typeof message === 'string')
+    .map(message => message.toLowerCase());
+  return messages.some(message => fragments.some(fragment => message.includes(fragment)));
+}
+
+/**
+ * Decide what to do with a replayed action given the Discourse response.
+ *
+ * Replays must be idempotent: an action whose effect already exists on the
+ * server (liked twice, reply already posted before the connection dropped)
+ * counts as done rather than as an error.
+ */
+export function classifyReplayResponse(
+  type: string,
+  response: DiscourseApiResponse<unknown>
+): ReplayOutcome {
+  if (response.success) {
+    return 'done';
+  }
+
+  const status = response.status;
+
+  switch (type) {
+    case 'like_post':
+    case 'bookmark_post':
+      // "You already performed this action"
+      if (status === 403 && responseMentions(response, ['already'])) {
+        return 'done';
+      }
+      break;
+    case 'unlike_post':
+    case 'unbookmark_post':
+      // Nothing left to undo
+      if (status === 404) {
+        return 'done';
+      }
+      break;
+    case 'create_reply':
+    case 'create_topic':
+      // Discourse rejects duplicate posts - the earlier attempt went through
+      if (status === 422 && responseMentions(response, ['too similar', 'already been used', 'already exists'])) {
+        return 'done';
+      }
+      break;
+  }
+
+  if (status === undefined || status === 401 || status === 429 || status >= 500) {
+    return 'retry';
+  }
+
+  // Validation and permission errors will not fix themselves on replay
+  return 'drop';
+}
+
 // =============================================================================
 // ACTION QUEUE MANAGER
 // =============================================================================
@@ -275,7 +411,11 @@ class CacheManager {
 class ActionQueueManager {
   private queueKey = 'fomio_action_queue';
   private queue: QueuedAction[] = [];
-  private isProcessing = false;
+  // The replay under way, which later callers wait on rather than starting another
+  private currentRun: Promise<SyncResult> | null = null;
+  
+  // Told about every replay run, wherever it was started from
+  constructor(private onProcessed: (result: SyncResult) => void) {}
   
   // Initialize queue from storage
   async initialize(): Promise<void> {
@@ -292,8 +432,45 @@ class ActionQueueManager {
   
   // Add action to queue
   async enqueue(action: Omit<QueuedAction, 'id' | 'timestamp' | 'retryCount'>): Promise<string> {
+    const dedupeKey = action.dedupeKey ?? getActionDedupeKey(action.type, action.payload);
+
+    if (dedupeKey) {
+      // Same effect already waiting - keep the original entry
+      const duplicate = this.queue.find(
+        queued => queued.dedupeKey === dedupeKey && queued.type === action.type
+      );
+      if (duplicate && action.type === 'update_profile') {
+        // Later edits win, but fields only touched by the earlier edit still go out
+        const queuedUpdates = (duplicate.payload as OfflineActionPayloads['update_profile']).updates;
+        duplicate.payload = {
+          ...action.payload,
+          updates: { ...queuedUpdates, ...action.payload.updates },
+        };
+        await this.saveQueue();
+        logger.info(`Merged profile edit into queued action (${duplicate.id})`);
+        return duplicate.id;
+      }
+      if (duplicate) {
+        logger.info(`Action already queued: ${action.type} (${duplicate.id})`);
+        return duplicate.id;
+      }
+
+      // Like followed by unlike (or vice versa) nets out to nothing
+      const opposite = OPPOSITE_ACTIONS[action.type as OfflineActionType];
+      const pendingOpposite = opposite
+        ? this.queue.find(queued => queued.dedupeKey === dedupeKey && queued.type === opposite)
+        : undefined;
+      if (pendingOpposite) {
+        this.removeFromQueue(pendingOpposite.id);
+        await this.saveQueue();
+        logger.info(`Cancelled queued ${pendingOpposite.type} with ${action.type} (${pendingOpposite.id})`);
+        return pendingOpposite.id;
+      }
+    }
+
     const queuedAction: QueuedAction = {
       ...action,
+      dedupeKey,
       id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       timestamp: Date.now(),
       retryCount: 0,
@@ -304,122 +481,138 @@ class ActionQueueManager {
     
     logger.info(`Queued action: ${queuedAction.type} (${queuedAction.id})`);
     
-    // Try to process immediately if online
-    if (networkStatusManager.isOnline()) {
-      this.processQueue();
-    }
+    // Try to process immediately if the forum is actually reachable
+    this.replayWhenReachable().catch((error) => logger.error('Error replaying queued actions:', error));
     
     return queuedAction.id;
   }
   
+  private async replayWhenReachable(): Promise<void> {
+    if (!(await networkStatusManager.refresh())) return;
+    // A run already under way started before this action was queued
+    if (this.currentRun) await this.currentRun;
+    await this.processQueue();
+  }
+  
   // Process queued actions
-  async processQueue(): Promise<SyncResult> {
-    if (this.isProcessing || !networkStatusManager.isOnline()) {
-      return { success: false, actionsProcessed: 0, errors: ['Already processing or offline'], timestamp: Date.now() };
+  processQueue(): Promise<SyncResult> {
+    if (this.currentRun) {
+      return this.currentRun;
+    }
+    if (!networkStatusManager.isOnline()) {
+      return Promise.resolve({ success: false, actionsProcessed: 0, errors: ['Offline'], timestamp: Date.now() });
     }
     
-    this.isProcessing = true;
+    this.currentRun = this.runQueue().finally(() => {
+      this.currentRun = null;
+    });
+    return this.currentRun;
+  }
+  
+  private async runQueue(): Promise<SyncResult> {
     const errors: string[] = [];
     let actionsProcessed = 0;
     
-    try {
-      // Sort by priority and timestamp
-      const sortedQueue = [...this.queue].sort((a, b) => {
-        const priorityOrder = { high: 3, medium: 2, low: 1 };
-        const priorityDiff = priorityOrder[b.priority] - priorityOrder[a.priority];
-        return priorityDiff !== 0 ? priorityDiff : a.timestamp - b.timestamp;
-      });
-      
-      for (const action of sortedQueue) {
-        try {
-          await this.processAction(action);
+    // Sort by priority and timestamp
+    const sortedQueue = [...this.queue].sort((a, b) => {
+      const priorityOrder = { high: 3, medium: 2, low: 1 };
+      const priorityDiff = priorityOrder[b.priority] - priorityOrder[a.priority];
+      return priorityDiff !== 0 ? priorityDiff : a.timestamp - b.timestamp;
+    });
+    
+    for (const action of sortedQueue) {
+      try {
+        const { outcome, networkFailure } = await this.processAction(action);
+        
+        // Never reached the server: keep everything for the next sync without spending retries
+        if (networkFailure) {
+          errors.push(`Action ${action.id}: network unavailable, will retry`);
+          break;
+        }
+        
+        if (outcome === 'done') {
           this.removeFromQueue(action.id);
           actionsProcessed++;
           logger.info(`Processed action: ${action.type} (${action.id})`);
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          errors.push(`Action ${action.id}: ${errorMessage}`);
-          
-          // Increment retry count
-          action.retryCount++;
-          
-          // Remove if max retries exceeded
-          if (action.retryCount >= action.maxRetries) {
-            this.removeFromQueue(action.id);
-            logger.warn(`Action ${action.id} exceeded max retries, removing from queue`);
-          }
+          continue;
+        }
+        
+        if (outcome === 'drop') {
+          this.removeFromQueue(action.id);
+          errors.push(`Action ${action.id}: rejected by server`);
+          logger.warn(`Action ${action.id} rejected by server, removing from queue`);
+          continue;
+        }
+        
+        throw new Error('Request failed, will retry');
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        errors.push(`Action ${action.id}: ${errorMessage}`);
+        
+        // Increment retry count (the server answered, but not with success)
+        action.retryCount++;
+        
+        // Remove if max retries exceeded
+        if (action.retryCount >= action.maxRetries) {
+          this.removeFromQueue(action.id);
+          logger.warn(`Action ${action.id} exceeded max retries, removing from queue`);
         }
       }
-      
-      await this.saveQueue();
-      
-      return {
-        success: errors.length === 0,
-        actionsProcessed,
-        errors,
-        timestamp: Date.now(),
-      };
-    } finally {
-      this.isProcessing = false;
-    }
-  }
-  
-  // Process individual action
-  private async processAction(action: QueuedAction): Promise<void> {
-    // Implement action processing based on type
-    switch (action.type) {
-      case 'like_byte':
-        await this.processLikeAction(action);
-        break;
-      case 'create_byte':
-        await this.processCreateByteAction(action);
-        break;
-      case 'update_profile':
-        await this.processUpdateProfileAction(action);
-        break;
-      default:
-        throw new Error(`Unknown action type: ${action.type}`);
     }
-  }
-  
-  // Process like action
-  private async processLikeAction(action: QueuedAction): Promise<void> {
-    const { byteId, isLiked } = action.payload;
     
-    // Simulate API call
-    const response = await fetch(`/api/bytes/${byteId}/like`, {
-      method: isLiked ? 'POST' : 'DELETE',
-      headers: { 'Content-Type': 'application/json' },
-    });
+    await this.saveQueue();
     
-    if (!response.ok) {
-      throw new Error(`Failed to ${isLiked ? 'like' : 'unlike'} byte`);
-    }
+    const result: SyncResult = {
+      success: errors.length === 0,
+      actionsProcessed,
+      errors,
+      timestamp: Date.now(),
+    };
+    this.onProcessed(result);
+    return result;
   }
   
-  // Process create byte action
-  private async processCreateByteAction(action: QueuedAction): Promise<void> {
-    const response = await fetch('/api/bytes', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(action.payload),
-    });
-    
-    if (!response.ok) {
-      throw new Error('Failed to create byte');
-    }
+  // Replay an individual action against Discourse
+  private async processAction(action: QueuedAction): Promise<{ outcome: ReplayOutcome; networkFailure: boolean }> {
+    const response = await this.sendAction(action);
+    return {
+      outcome: classifyReplayResponse(action.type, response),
+      networkFailure: isNetworkFailure(response),
+    };
   }
   
-  // Process update profile action
-  private async processUpdateProfileAction(action: QueuedAction): Promise<void> {
-    const response = await fetch('/api/profile', {
-      method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(action.payload),
-    });
-    
-    if (!response.ok) {
-      throw new Error('Failed to update profile');
+  private async sendAction(action: QueuedAction): Promise<DiscourseApiResponse<unknown>> {
+    switch (action.type as OfflineActionType) {
+      case 'like_post': {
+        const { postId } = action.payload as OfflineActionPayloads['like_post'];
+        return discourseApi.likePost(postId);
+      }
+      case 'unlike_post': {
+        const { postId } = action.payload as OfflineActionPayloads['unlike_post'];
+        return discourseApi.unlikePost(postId);
+      }
+      case 'bookmark_post': {
+        const { postId } = action.payload as OfflineActionPayloads['bookmark_post'];
+        return discourseApi.bookmarkPost(postId);
+      }
+      case 'unbookmark_post': {
+        const { postId } = action.payload as OfflineActionPayloads['unbookmark_post'];
+        return discourseApi.unbookmarkPost(postId);
+      }
+      case 'create_reply': {
+        const { topicId, raw, replyToPostNumber } = action.payload as OfflineActionPayloads['create_reply'];
+        return discourseApi.createReply(topicId, raw, replyToPostNumber);
+      }
+      case 'create_topic': {
+        const { title, raw, category, tags } = action.payload as OfflineActionPayloads['create_topic'];
+        return discourseApi.createTopic({ title, raw, category, tags });
+      }
+      case 'update_profile': {
+        const { username, updates } = action.payload as OfflineActionPayloads['update_profile'];
+        return discourseApi.updateUserProfile(username, updates);
+      }
+      default:
+        throw new Error(`Unknown action type: ${action.type}`);
     }
   }
   
@@ -441,7 +634,7 @@ class ActionQueueManager {
   getStatus(): { count: number; processing: boolean; actions: QueuedAction[] } {
     return {
       count: this.queue.length,
-      processing: this.isProcessing,
+      processing: this.currentRun !== null,
       actions: [...this.queue],
     };
   }
@@ -460,15 +653,20 @@ class ActionQueueManager {
 
 class OfflineManager {
   private cacheManager = new CacheManager();
-  private actionQueueManager = new ActionQueueManager();
   private syncListeners: ((result: SyncResult) => void)[] = [];
+  private actionQueueManager = new ActionQueueManager((result) => this.notifySyncListeners(result));
+  private initialized = false;
   
   // Initialize offline manager
   async initialize(): Promise<void> {
+    if (this.initialized) return;
+    this.initialized = true;
+    
     await this.actionQueueManager.initialize();
     networkStatusManager.initialize();
     
-    // Listen for network changes
+    // Listen for network changes (called immediately too, which flushes
+    // anything left over from a previous session)
     networkStatusManager.addListener((state) => {
       if (state.isConnected) {
         this.syncWhenOnline();
@@ -489,9 +687,9 @@ class OfflineManager {
   }
   
   // Queue action for later execution
-  async queueAction(
-    type: string,
-    payload: any,
+  async queueAction<T extends OfflineActionType>(
+    type: T,
+    payload: OfflineActionPayloads[T],
     options: {
       priority?: QueuedAction['priority'];
       maxRetries?: number;
@@ -516,8 +714,8 @@ class OfflineManager {
     }
     
     try {
+      // Listeners hear about the run from the queue itself
       const result = await this.actionQueueManager.processQueue();
-      this.notifySyncListeners(result);
       
       if (result.success) {
         logger.info(`Sync completed: ${result.actionsProcessed} actions processed`);
@@ -687,9 +885,9 @@ export function useOfflineData<T>(key: string, fetcher: () => Promise<T>, ttl?:
 export function useQueuedAction() {
   const { isOnline } = useNetworkStatus();
   
-  const queueAction = React.useCallback(async (
-    type: string,
-    payload: any,
+  const queueAction = React.useCallback(async <T extends OfflineActionType>(
+    type: T,
+    payload: OfflineActionPayloads[T],
     options?: Parameters<typeof offlineManager.queueAction>[2]
   ) => {
     return await offlineManager.queueAction(type, payload, options);
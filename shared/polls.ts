@@ -0,0 +1,287 @@
+/**
+ * Polls
+ *
+ * Discourse polls are written as `[poll]` BBCode and cooked into `div.poll`
+ * blocks. The cooked HTML only carries the poll's settings and option
+ * labels; vote counts and the current user's votes come from the post's
+ * `polls` and `polls_votes` fields. Votes go through /polls/vote.
+ */
+
+import { decodeHtmlEntities } from './revision-diff';
+
+export type PollType = 'regular' | 'multiple' | 'number';
+export type PollStatus = 'open' | 'closed';
+// When voters get to see the results
+export type PollResultsVisibility = 'always' | 'on_vote' | 'on_close' | 'staff_only';
+
+export interface PollOption {
+  id: string;
+  text: string;
+  votes: number;
+}
+
+export interface Poll {
+  name: string;
+  type: PollType;
+  status: PollStatus;
+  results: PollResultsVisibility;
+  isPublic: boolean;
+  title: string | null;
+  // Selection limits for multiple choice, value range for number polls
+  min: number | null;
+  max: number | null;
+  step: number | null;
+  options: PollOption[];
+  voters: number;
+  closesAt: string | null;
+  // Option ids the current user voted for
+  userVotes: string[];
+}
+
+export interface PollBuilderInput {
+  type: PollType;
+  options: string[];
+  title?: string;
+  name?: string;
+  min?: number;
+  max?: number;
+  step?: number;
+  results?: PollResultsVisibility;
+  isPublic?: boolean;
+  closesAt?: string;
+}
+
+export const DEFAULT_POLL_NAME = 'poll';
+
+const POLL_TYPES: PollType[] = ['regular', 'multiple', 'number'];
+const RESULTS_VISIBILITY: PollResultsVisibility[] = ['always', 'on_vote', 'on_close', 'staff_only'];
+
+function toPlainText(html: string): string {
+  return decodeHtmlEntities(String(html).replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function toPollType(value: unknown): PollType {
+  return POLL_TYPES.includes(value as PollType) ? (value as PollType) : 'regular';
+}
+
+function toResultsVisibility(value: unknown): PollResultsVisibility {
+  return RESULTS_VISIBILITY.includes(value as PollResultsVisibility)
+    ? (value as PollResultsVisibility)
+    : 'always';
+}
+
+/**
+ * Map a poll from a post's `polls` field (or a /polls/vote response)
+ */
+export function parsePoll(raw: any, userVotes: string[] = []): Poll {
+  return {
+    name: raw?.name || DEFAULT_POLL_NAME,
+    type: toPollType(raw?.type),
+    status: raw?.status === 'closed' ? 'closed' : 'open',
+    results: toResultsVisibility(raw?.results),
+    isPublic: raw?.public === true || raw?.public === 'true',
+    title: raw?.title ? toPlainText(raw.title) : null,
+    min: toNumber(raw?.min),
+    max: toNumber(raw?.max),
+    step: toNumber(raw?.step),
+    options: (Array.isArray(raw?.options) ? raw.options : [])
+      .filter((option: any) => option && option.id !== undefined)
+      .map((option: any) => ({
+        id: String(option.id),
+        text: toPlainText(option.html ?? option.text ?? ''),
+        votes: toNumber(option.votes) ?? 0,
+      })),
+    voters: toNumber(raw?.voters) ?? 0,
+    closesAt: raw?.close || null,
+    userVotes: userVotes.map(String),
+  };
+}
+
+/**
+ * Map a post's `polls` and `polls_votes` fields
+ */
+export function parsePolls(rawPolls: any[] | undefined, pollsVotes?: Record<string, string[]>): Poll[] {
+  if (!Array.isArray(rawPolls)) return [];
+  return rawPolls.map((raw) => parsePoll(raw, pollsVotes?.[raw?.name] || []));
+}
+
+/**
+ * Build a poll from a cooked `div.poll` block, for posts whose `polls`
+ * field isn't available (vote counts are unknown)
+ */
+export function parsePollFromCooked(
+  attributes: Record<string, string | undefined>,
+  options: Array<{ id: string; text: string }>
+): Poll {
+  return parsePoll({
+    name: attributes['data-poll-name'],
+    type: attributes['data-poll-type'],
+    status: attributes['data-poll-status'],
+    results: attributes['data-poll-results'],
+    public: attributes['data-poll-public'],
+    min: attributes['data-poll-min'],
+    max: attributes['data-poll-max'],
+    step: attributes['data-poll-step'],
+    close: attributes['data-poll-close'],
+    options: options.map((option) => ({ id: option.id, html: option.text, votes: 0 })),
+  });
+}
+
+export function hasVoted(poll: Poll): boolean {
+  return poll.userVotes.length > 0;
+}
+
+/**
+ * Whether the current (non-staff) user may see the results right now
+ */
+export function canSeeResults(poll: Poll): boolean {
+  switch (poll.results) {
+    case 'always':
+      return true;
+    case 'on_vote':
+      return hasVoted(poll) || poll.status === 'closed';
+    case 'on_close':
+      return poll.status === 'closed';
+    case 'staff_only':
+      return false;
+  }
+}
+
+/**
+ * How many options a vote needs and allows
+ */
+export function getSelectionLimits(poll: Poll): { min: number; max: number } {
+  if (poll.type !== 'multiple') return { min: 1, max: 1 };
+
+  const optionCount = poll.options.length;
+  const min = Math.max(1, Math.min(poll.min ?? 1, optionCount));
+  const max = Math.max(min, Math.min(poll.max ?? optionCount, optionCount));
+  return { min, max };
+}
+
+export function isValidSelection(poll: Poll, selected: string[]): boolean {
+  const { min, max } = getSelectionLimits(poll);
+  const known = selected.filter((id) => poll.options.some((option) => option.id === id));
+  return known.length === selected.length && selected.length >= min && selected.length <= max;
+}
+
+/**
+ * Toggle an option in the pending selection. Single choice polls replace
+ * the selection; multiple choice polls stop adding at the max.
+ */
+export function toggleSelection(poll: Poll, selected: string[], optionId: string): string[] {
+  if (selected.includes(optionId)) {
+    return selected.filter((id) => id !== optionId);
+  }
+  if (poll.type !== 'multiple') return [optionId];
+
+  const { max } = getSelectionLimits(poll);
+  return selected.length >= max ? selected : [...selected, optionId];
+}
+
+/**
+ * Share of voters who picked the option, rounded to a whole percent.
+ * Multiple choice polls can add up to more than 100.
+ */
+export function getOptionPercentage(poll: Poll, option: PollOption): number {
+  if (poll.voters <= 0) return 0;
+  return Math.round((option.votes / poll.voters) * 100);
+}
+
+/**
+ * Average of the values picked in a number poll
+ */
+export function getNumberPollAverage(poll: Poll): number | null {
+  let total = 0;
+  let votes = 0;
+  poll.options.forEach((option) => {
+    const value = Number(option.text);
+    if (!Number.isFinite(value)) return;
+    total += value * option.votes;
+    votes += option.votes;
+  });
+  return votes > 0 ? Math.round((total / votes) * 10) / 10 : null;
+}
+
+/**
+ * Pick a poll name that isn't used yet in the raw post; Discourse needs
+ * every poll in a post to have its own name
+ */
+export function getNextPollName(raw: string): string {
+  const count = (raw.match(/\[poll\b/gi) || []).length;
+  return count === 0 ? DEFAULT_POLL_NAME : `${DEFAULT_POLL_NAME}${count + 1}`;
+}
+
+/**
+ * Turn selected lines of text into poll options, dropping list markers
+ */
+export function pollOptionsFromText(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/^\s*(?:[-*+]|\d+[.)])\s+/, '').trim())
+    .filter(Boolean);
+}
+
+/**
+ * Check a poll builder's input; returns what's wrong, or null when it can be inserted
+ */
+export function validatePollInput(input: PollBuilderInput): string | null {
+  if (input.type === 'number') {
+    const { min = 1, max = 10, step = 1 } = input;
+    if (![min, max, step].every(Number.isInteger)) return 'Use whole numbers for the range.';
+    if (min >= max) return 'The lowest value must be below the highest.';
+    if (step < 1 || step > max - min) return 'The step must fit within the range.';
+    return null;
+  }
+
+  const options = input.options.map((option) => option.trim()).filter(Boolean);
+  if (options.length < 2) return 'Add at least two options.';
+  if (new Set(options).size !== options.length) return 'Each option must be different.';
+
+  if (input.type === 'multiple') {
+    const { min = 1, max = options.length } = input;
+    if (min < 1 || max > options.length || min > max) {
+      return `Choose between 1 and ${options.length} options.`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Write the `[poll]` BBCode for the composer
+ */
+export function buildPollMarkup(input: PollBuilderInput): string {
+  const attributes: string[] = [`type=${input.type}`];
+  if (input.name && input.name !== DEFAULT_POLL_NAME) {
+    attributes.unshift(`name=${input.name}`);
+  }
+  if (input.type !== 'regular') {
+    if (input.min !== undefined) attributes.push(`min=${input.min}`);
+    if (input.max !== undefined) attributes.push(`max=${input.max}`);
+  }
+  if (input.type === 'number' && input.step !== undefined) {
+    attributes.push(`step=${input.step}`);
+  }
+  attributes.push(`results=${input.results || 'always'}`);
+  if (input.isPublic) attributes.push('public=true');
+  if (input.closesAt) attributes.push(`close=${input.closesAt}`);
+
+  const lines = [`[poll ${attributes.join(' ')}]`];
+  if (input.title?.trim()) {
+    lines.push(`# ${input.title.trim()}`);
+  }
+  if (input.type !== 'number') {
+    input.options
+      .map((option) => option.trim())
+      .filter(Boolean)
+      .forEach((option) => lines.push(`* ${option}`));
+  }
+  lines.push('[/poll]');
+  return lines.join('\n');
+}
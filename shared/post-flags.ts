@@ -0,0 +1,146 @@
+/**
+ * Post flags
+ *
+ * Bytes and comments are flagged through Discourse post actions. The flag
+ * types a site offers come from /site.json (`post_action_types`, read with
+ * the site settings); whether the current user has flagged a post, and can
+ * still undo it, comes from the post's `actions_summary`.
+ */
+
+import { decodeHtmlEntities } from './revision-diff';
+
+export interface PostFlagType {
+  id: number;
+  nameKey: string;
+  name: string;
+  description: string;
+  // "Something else" and, on newer servers, "illegal" need a note for moderators
+  requireMessage: boolean;
+}
+
+export interface PostFlagState {
+  // Flag type the current user raised on this post, if any
+  flaggedTypeId: number | null;
+  canUndo: boolean;
+  // Flag types the current user may still raise (empty when unknown)
+  availableTypeIds: number[];
+}
+
+export const POST_FLAG_TYPE_IDS = {
+  offTopic: 3,
+  inappropriate: 4,
+  notifyUser: 6,
+  notifyModerators: 7,
+  spam: 8,
+  illegal: 10,
+} as const;
+
+// Post actions that aren't flags: bookmark, like, vote. "Send @user a message"
+// is technically a flag but starts a PM, so it isn't offered here.
+const NON_FLAG_ACTION_TYPE_IDS = [1, 2, 5, POST_FLAG_TYPE_IDS.notifyUser];
+
+export const EMPTY_POST_FLAG_STATE: PostFlagState = {
+  flaggedTypeId: null,
+  canUndo: false,
+  availableTypeIds: [],
+};
+
+// Used until (or if) /site.json can't be loaded
+export const DEFAULT_POST_FLAG_TYPES: PostFlagType[] = [
+  {
+    id: POST_FLAG_TYPE_IDS.offTopic,
+    nameKey: 'off_topic',
+    name: "It's Off-Topic",
+    description: 'This post is not relevant to the current discussion.',
+    requireMessage: false,
+  },
+  {
+    id: POST_FLAG_TYPE_IDS.inappropriate,
+    nameKey: 'inappropriate',
+    name: "It's Inappropriate",
+    description: 'This post contains content that a reasonable person would consider offensive, abusive, or a violation of our community guidelines.',
+    requireMessage: false,
+  },
+  {
+    id: POST_FLAG_TYPE_IDS.spam,
+    nameKey: 'spam',
+    name: "It's Spam",
+    description: 'This post is an advertisement or vandalism.',
+    requireMessage: false,
+  },
+  {
+    id: POST_FLAG_TYPE_IDS.illegal,
+    nameKey: 'illegal',
+    name: "It's Illegal",
+    description: 'This post requires staff attention because I believe it contains content that is illegal.',
+    requireMessage: true,
+  },
+  {
+    id: POST_FLAG_TYPE_IDS.notifyModerators,
+    nameKey: 'notify_moderators',
+    name: 'Something Else',
+    description: 'This post requires staff attention for another reason not listed above.',
+    requireMessage: true,
+  },
+];
+
+function toPlainText(html: string): string {
+  return decodeHtmlEntities(html.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Pick the flag types offered for posts out of /site.json `post_action_types`
+ */
+export function parsePostFlagTypes(postActionTypes: any[]): PostFlagType[] {
+  return postActionTypes
+    .filter((type) => type?.is_flag && typeof type.id === 'number')
+    .filter((type) => !NON_FLAG_ACTION_TYPE_IDS.includes(type.id))
+    .filter((type) => type.enabled !== false)
+    .filter((type) => !Array.isArray(type.applies_to) || type.applies_to.includes('Post'))
+    .map((type) => ({
+      id: type.id,
+      nameKey: type.name_key || String(type.id),
+      name: toPlainText(type.name || type.name_key || ''),
+      description: toPlainText(type.description || ''),
+      requireMessage:
+        !!type.is_custom_flag ||
+        !!type.require_message ||
+        type.id === POST_FLAG_TYPE_IDS.notifyModerators,
+    }));
+}
+
+/**
+ * Read the current user's flag state from a post's `actions_summary`
+ */
+export function getPostFlagState(actionsSummary: any[] | undefined): PostFlagState {
+  if (!Array.isArray(actionsSummary)) return EMPTY_POST_FLAG_STATE;
+
+  const flagActions = actionsSummary.filter(
+    (action) => typeof action?.id === 'number' && !NON_FLAG_ACTION_TYPE_IDS.includes(action.id)
+  );
+  const flagged = flagActions.find((action) => action.acted);
+
+  return {
+    flaggedTypeId: flagged ? flagged.id : null,
+    canUndo: !!flagged?.can_undo,
+    availableTypeIds: flagActions.filter((action) => action.can_act).map((action) => action.id),
+  };
+}
+
+/**
+ * Whether the post can be flagged (or un-flagged) by the current user
+ */
+export function canFlagPost(state: PostFlagState): boolean {
+  return state.flaggedTypeId !== null || state.availableTypeIds.length > 0;
+}
+
+/**
+ * Narrow the site's flag types to the ones the current user may raise on a post
+ */
+export function getAvailableFlagTypes(
+  types: PostFlagType[],
+  state: PostFlagState
+): PostFlagType[] {
+  if (state.availableTypeIds.length === 0) return types;
+  return types.filter((type) => state.availableTypeIds.includes(type.id));
+}
@@ -0,0 +1,146 @@
+/**
+ * Push Manager - Registers this device with the push relay
+ *
+ * Ties the device's Expo push token to the client_id of the signed-in
+ * account's User API Key, which is how the relay recognises the
+ * notifications Discourse sends it (see ./push). Registering again with the
+ * same token and preferences is a no-op, so callers can register whenever
+ * the account, the token or the preferences might have changed.
+ */
+
+import Constants from 'expo-constants';
+import { DiscourseApiResponse } from './discourseApi';
+import type { NotificationPreferences } from './useNotificationPreferences';
+import {
+  PushPlatform,
+  PushRegistration,
+  PushUnregistration,
+  getPushDeliveryPreferences,
+  getPushRelayEndpoints,
+} from './push';
+import { devicePushTransport } from './push-transport';
+import { logger } from './logger';
+
+export interface PushDeviceToken {
+  token: string;
+  platform: PushPlatform;
+}
+
+/**
+ * Everything that touches the OS or the network directly
+ */
+export interface PushTransport {
+  // This device's Expo push token, or null when notifications aren't allowed.
+  // Asks for permission only when `prompt` is set.
+  getDeviceToken(prompt: boolean): Promise<PushDeviceToken | null>;
+  post(url: string, body: PushRegistration | PushUnregistration): Promise<DiscourseApiResponse<void>>;
+}
+
+export interface PushAccount {
+  site: string;
+  clientId: string;
+  username?: string;
+}
+
+export class PushManager {
+  private current: PushRegistration | null = null;
+
+  constructor(private transport: PushTransport, private pushUrl: string | undefined) {}
+
+  /**
+   * Whether the app was built with a push_url (DISCOURSE_PUSH_URL)
+   */
+  isConfigured(): boolean {
+    return !!this.pushUrl && !!getPushRelayEndpoints(this.pushUrl);
+  }
+
+  getRegistration(): PushRegistration | null {
+    return this.current;
+  }
+
+  /**
+   * Register the account's client_id with the relay, or unregister when the
+   * user has push turned off
+   */
+  async register(
+    account: PushAccount,
+    preferences: NotificationPreferences,
+    { prompt = false }: { prompt?: boolean } = {}
+  ): Promise<DiscourseApiResponse<PushRegistration | null>> {
+    const endpoints = this.pushUrl ? getPushRelayEndpoints(this.pushUrl) : null;
+    if (!endpoints) {
+      return { success: false, error: 'Push notifications are not set up for this app' };
+    }
+
+    if (!preferences.pushEnabled) {
+      const response = await this.unregister();
+      return response.success ? { success: true, data: null } : { success: false, error: response.error };
+    }
+
+    const device = await this.transport.getDeviceToken(prompt);
+    if (!device) {
+      return { success: false, error: 'Notifications are turned off for Fomio in your device settings' };
+    }
+
+    // A different account or device replaces the old registration
+    if (
+      this.current &&
+      (this.current.client_id !== account.clientId || this.current.push_token !== device.token)
+    ) {
+      await this.unregister();
+    }
+
+    const registration: PushRegistration = {
+      client_id: account.clientId,
+      site: account.site,
+      username: account.username,
+      platform: device.platform,
+      token_type: 'expo',
+      push_token: device.token,
+      preferences: getPushDeliveryPreferences(preferences),
+    };
+
+    if (this.current && JSON.stringify(this.current) === JSON.stringify(registration)) {
+      return { success: true, data: registration };
+    }
+
+    const response = await this.transport.post(endpoints.register, registration);
+    if (!response.success) {
+      logger.warn('Push: Registration failed', { error: response.error, status: response.status });
+      return { success: false, error: response.error || 'Failed to register for push notifications', status: response.status };
+    }
+
+    this.current = registration;
+    logger.info('Push: Registered device', { site: registration.site, platform: registration.platform });
+    return { success: true, data: registration };
+  }
+
+  /**
+   * Stop pushes to this device for the registered account
+   */
+  async unregister(): Promise<DiscourseApiResponse<void>> {
+    const registration = this.current;
+    const endpoints = this.pushUrl ? getPushRelayEndpoints(this.pushUrl) : null;
+    if (!registration || !endpoints) {
+      return { success: true };
+    }
+
+    this.current = null;
+    const response = await this.transport.post(endpoints.unregister, {
+      client_id: registration.client_id,
+      site: registration.site,
+      push_token: registration.push_token,
+    });
+    if (!response.success) {
+      logger.warn('Push: Unregister failed', { error: response.error, status: response.status });
+    }
+    return response;
+  }
+}
+
+const config = Constants.expoConfig?.extra || {};
+
+export const PUSH_URL: string | undefined =
+  config.DISCOURSE_PUSH_URL || process.env.EXPO_PUBLIC_DISCOURSE_PUSH_URL || undefined;
+
+export const pushManager = new PushManager(devicePushTransport, PUSH_URL);
@@ -0,0 +1,67 @@
+/**
+ * Push transport for devices
+ *
+ * The OS and network side of the push manager: notification permission,
+ * the Android channel, the Expo push token, and requests to the relay.
+ */
+
+import * as Notifications from 'expo-notifications';
+import Constants from 'expo-constants';
+import { Platform } from 'react-native';
+import { DiscourseApiResponse } from './discourseApi';
+import { PUSH_CHANNEL_ID } from './push';
+import type { PushDeviceToken, PushTransport } from './push-manager';
+import { logger } from './logger';
+
+async function hasPermission(prompt: boolean): Promise<boolean> {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!prompt || !current.canAskAgain) return false;
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+}
+
+export const devicePushTransport: PushTransport = {
+  async getDeviceToken(prompt: boolean): Promise<PushDeviceToken | null> {
+    if (Platform.OS !== 'ios' && Platform.OS !== 'android') {
+      return null;
+    }
+
+    try {
+      if (Platform.OS === 'android') {
+        await Notifications.setNotificationChannelAsync(PUSH_CHANNEL_ID, {
+          name: 'Notifications',
+          importance: Notifications.AndroidImportance.DEFAULT,
+        });
+      }
+
+      if (!(await hasPermission(prompt))) {
+        return null;
+      }
+
+      const projectId = Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+      const { data } = await Notifications.getExpoPushTokenAsync(projectId ? { projectId } : undefined);
+      return { token: data, platform: Platform.OS };
+    } catch (error) {
+      // Simulators and builds without push credentials can't get a token
+      logger.warn('Push: Could not get a push token', error);
+      return null;
+    }
+  },
+
+  async post(url, body): Promise<DiscourseApiResponse<void>> {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        return { success: false, error: `Push relay returned ${response.status}`, status: response.status };
+      }
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Network error reaching the push relay' };
+    }
+  },
+};
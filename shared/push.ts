@@ -0,0 +1,284 @@
+/**
+ * Push notifications
+ *
+ * Discourse doesn't talk to Apple or Google itself. When a User API Key is
+ * created with the `push` scope and a `push_url`, Discourse POSTs every
+ * notification for that key to the push_url, tagged with the key's
+ * client_id. A relay at that URL keeps the device token each client_id
+ * registered, drops notification types the user turned off, and forwards
+ * the rest to the Expo push service.
+ *
+ * The types below are the relay contract. The functions are the rules both
+ * sides share: the app uses them to register and to open a tapped push, the
+ * relay (scripts/fake-push-relay.js locally) to route what Discourse sends.
+ */
+
+import type { Notification } from './useNotifications';
+import type { NotificationPreferences } from './useNotificationPreferences';
+import {
+  getNotificationPreferenceKey,
+  isNotificationTypeEnabled,
+  normalizeNotificationType,
+} from '../lib/utils/notifications';
+
+// =============================================================================
+// DISCOURSE → RELAY
+// =============================================================================
+
+/**
+ * One notification in Discourse's push_url request (Jobs::PushNotification)
+ */
+export interface DiscoursePushNotification {
+  notification_type: number;
+  client_id: string;
+  topic_id?: number;
+  topic_title?: string;
+  post_number?: number;
+  excerpt?: string;
+  username?: string;
+  // Absolute URL of the post
+  url?: string;
+}
+
+/**
+ * The body Discourse POSTs to the push_url
+ */
+export interface DiscoursePushPayload {
+  // push_api_secret_key site setting; the relay may check it
+  secret_key?: string;
+  // Site base URL
+  url: string;
+  // Site title and description
+  title?: string;
+  description?: string;
+  notifications: DiscoursePushNotification[];
+}
+
+// =============================================================================
+// APP → RELAY
+// =============================================================================
+
+export type PushPlatform = 'ios' | 'android';
+
+export type PushCategory = NonNullable<ReturnType<typeof getNotificationPreferenceKey>>;
+
+/**
+ * What the relay may deliver to a device
+ */
+export interface PushDeliveryPreferences {
+  // Show a banner; when off, pushes arrive silently (data only)
+  alert: boolean;
+  sound: boolean;
+  // Notification Categories toggles; types outside them are always delivered
+  categories: Record<PushCategory, boolean>;
+}
+
+/**
+ * POST {relay}/devices — sent after sign-in and whenever the token or the
+ * preferences change. A client_id has one device; registering again
+ * replaces it.
+ */
+export interface PushRegistration {
+  client_id: string;
+  // Site origin, matches DiscoursePushPayload.url
+  site: string;
+  username?: string;
+  platform: PushPlatform;
+  token_type: 'expo';
+  push_token: string;
+  preferences: PushDeliveryPreferences;
+}
+
+/**
+ * POST {relay}/devices/unregister — sent on sign-out or when push is turned off
+ */
+export interface PushUnregistration {
+  client_id: string;
+  site: string;
+  push_token: string;
+}
+
+// =============================================================================
+// RELAY → DEVICE
+// =============================================================================
+
+/**
+ * The `data` of a delivered push, read back when it's tapped
+ */
+export interface PushMessageData {
+  site: string;
+  client_id: string;
+  notification_type: number;
+  topic_id?: number;
+  post_number?: number;
+  username?: string;
+  topic_title?: string;
+  excerpt?: string;
+  url?: string;
+}
+
+/**
+ * A message for the Expo push service (https://exp.host/--/api/v2/push/send)
+ */
+export interface PushMessage {
+  to: string;
+  title?: string;
+  body?: string;
+  sound?: 'default' | null;
+  channelId?: string;
+  data: PushMessageData;
+}
+
+// Android channel the app creates and the relay sends to
+export const PUSH_CHANNEL_ID = 'default';
+
+// =============================================================================
+// RULES
+// =============================================================================
+
+/**
+ * Registration endpoints served next to the push_url: for
+ * "https://relay.example.com/push" they are "https://relay.example.com/devices"
+ * and ".../devices/unregister"
+ */
+export function getPushRelayEndpoints(pushUrl: string): { register: string; unregister: string } | null {
+  const match = /^(https?:\/\/[^/?#]+)((?:\/[^/?#]+)*)\/[^/?#]+\/?(?:[?#].*)?$/i.exec(pushUrl.trim());
+  if (!match) return null;
+  const base = `${match[1]}${match[2]}`;
+  return { register: `${base}/devices`, unregister: `${base}/devices/unregister` };
+}
+
+export function getPushDeliveryPreferences(preferences: NotificationPreferences): PushDeliveryPreferences {
+  return {
+    alert: preferences.pushAlert,
+    sound: preferences.pushSound,
+    categories: {
+      replies: preferences.replies,
+      mentions: preferences.mentions,
+      likes: preferences.likes,
+      privateMessages: preferences.privateMessages,
+      badges: preferences.badges,
+      system: preferences.system,
+      following: preferences.following,
+    },
+  };
+}
+
+/**
+ * Whether the user wants pushes of this Discourse notification type
+ */
+export function shouldDeliverPush(notificationType: number | string, preferences: PushDeliveryPreferences): boolean {
+  const key = getNotificationPreferenceKey(normalizeNotificationType(notificationType));
+  return key ? preferences.categories[key] !== false : true;
+}
+
+/**
+ * Same check against the app's own preferences, for pushes that arrive
+ * while the app is open
+ */
+export function isPushAllowed(data: PushMessageData, preferences: NotificationPreferences): boolean {
+  return (
+    preferences.pushEnabled &&
+    isNotificationTypeEnabled(normalizeNotificationType(data.notification_type), preferences)
+  );
+}
+
+function getPushBody(notification: DiscoursePushNotification): string {
+  const type = normalizeNotificationType(notification.notification_type);
+  const username = notification.username || 'Someone';
+  switch (type) {
+    case 'replied':
+      return `${username} replied: ${notification.excerpt || ''}`.trim();
+    case 'mentioned':
+    case 'group_mentioned':
+      return `${username} mentioned you: ${notification.excerpt || ''}`.trim();
+    case 'quoted':
+      return `${username} quoted you: ${notification.excerpt || ''}`.trim();
+    case 'liked':
+    case 'liked_consolidated':
+    case 'reaction':
+      return `${username} liked your post`;
+    case 'private_message':
+      return `${username} sent you a message: ${notification.excerpt || ''}`.trim();
+    default:
+      return notification.excerpt || `${username} notified you`;
+  }
+}
+
+function isSameSite(a: string, b: string): boolean {
+  const normalize = (url: string) => url.trim().replace(/\/+$/, '').toLowerCase();
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Route a Discourse push_url request: one Expo message per notification
+ * whose client_id is registered for the site and whose type the user wants
+ */
+export function buildPushMessages(
+  payload: DiscoursePushPayload,
+  registrations: PushRegistration[]
+): PushMessage[] {
+  const messages: PushMessage[] = [];
+  (payload.notifications || []).forEach((notification) => {
+    const registration = registrations.find(
+      (candidate) => candidate.client_id === notification.client_id && isSameSite(candidate.site, payload.url)
+    );
+    if (!registration) return;
+    if (!shouldDeliverPush(notification.notification_type, registration.preferences)) return;
+
+    const data: PushMessageData = {
+      site: payload.url,
+      client_id: notification.client_id,
+      notification_type: notification.notification_type,
+      topic_id: notification.topic_id,
+      post_number: notification.post_number,
+      username: notification.username,
+      topic_title: notification.topic_title,
+      excerpt: notification.excerpt,
+      url: notification.url,
+    };
+    const { alert, sound } = registration.preferences;
+    messages.push({
+      to: registration.push_token,
+      ...(alert
+        ? { title: notification.topic_title || payload.title || 'Fomio', body: getPushBody(notification) }
+        : {}),
+      sound: sound ? 'default' : null,
+      channelId: PUSH_CHANNEL_ID,
+      data,
+    });
+  });
+  return messages;
+}
+
+/**
+ * The data of a tapped push, or null when it didn't come from the relay
+ */
+export function readPushMessageData(value: unknown): PushMessageData | null {
+  const data = value as Partial<PushMessageData> | null | undefined;
+  if (!data || typeof data.site !== 'string' || typeof data.notification_type !== 'number') {
+    return null;
+  }
+  return data as PushMessageData;
+}
+
+/**
+ * A pushed notification in the shape the notifications list uses, so it
+ * opens the same screen (getNotificationNavigationTarget)
+ */
+export function pushDataToNotification(data: PushMessageData): Notification {
+  return {
+    id: 0,
+    type: normalizeNotificationType(data.notification_type),
+    isRead: false,
+    createdAt: new Date().toISOString(),
+    topicId: data.topic_id,
+    postNumber: data.post_number,
+    data: {
+      display_username: data.username,
+      original_username: data.username,
+      topic_title: data.topic_title,
+      excerpt: data.excerpt,
+    },
+  };
+}
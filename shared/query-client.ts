@@ -2,22 +2,26 @@
  * TanStack Query (React Query) Configuration
  * 
  * Centralized QueryClient configuration with optimal settings for mobile.
+ * Each account gets its own QueryClient and persisted cache, so switching
+ * accounts never shows one account's data to another.
  * Includes query key factory for consistent key generation across the app.
  */
 
 import { QueryClient } from '@tanstack/react-query';
 import { createAsyncStoragePersister } from '@tanstack/query-async-storage-persister';
+import type { Persister } from '@tanstack/react-query-persist-client';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getActiveAccountId } from './accounts';
 
-// Persister for query cache persistence across app restarts
-export const asyncStoragePersister = createAsyncStoragePersister({
-  storage: AsyncStorage,
-  key: 'fomio-query-cache',
-  throttleTime: 1000, // Throttle writes to AsyncStorage (1 second)
-});
+const QUERY_CACHE_STORAGE_KEY = 'fomio-query-cache';
+
+// Signed out, the cache keeps the key it had before accounts existed
+export function getQueryCacheStorageKey(accountId: string | null): string {
+  return accountId ? `${QUERY_CACHE_STORAGE_KEY}:${accountId}` : QUERY_CACHE_STORAGE_KEY;
+}
 
 // Query client with optimized defaults for mobile
-export const queryClient = new QueryClient({
+const createQueryClient = () => new QueryClient({
   defaultOptions: {
     queries: {
       // Data is fresh for 2 minutes (no refetch during this time)
@@ -45,6 +49,53 @@ export const queryClient = new QueryClient({
   },
 });
 
+const accountQueryClients = new Map<string, QueryClient>();
+const accountPersisters = new Map<string, Persister>();
+
+/**
+ * The QueryClient for an account (null when signed out)
+ */
+export function getAccountQueryClient(accountId: string | null): QueryClient {
+  const storageKey = getQueryCacheStorageKey(accountId);
+  let client = accountQueryClients.get(storageKey);
+  if (!client) {
+    client = createQueryClient();
+    accountQueryClients.set(storageKey, client);
+  }
+  return client;
+}
+
+/**
+ * Persister for an account's query cache across app restarts
+ */
+export function getAccountQueryPersister(accountId: string | null): Persister {
+  const storageKey = getQueryCacheStorageKey(accountId);
+  let persister = accountPersisters.get(storageKey);
+  if (!persister) {
+    persister = createAsyncStoragePersister({
+      storage: AsyncStorage,
+      key: storageKey,
+      throttleTime: 1000, // Throttle writes to AsyncStorage (1 second)
+    });
+    accountPersisters.set(storageKey, persister);
+  }
+  return persister;
+}
+
+/**
+ * Drop an account's cached queries, in memory and on disk (after signing out)
+ */
+export async function removeAccountQueryCache(accountId: string): Promise<void> {
+  const storageKey = getQueryCacheStorageKey(accountId);
+  accountQueryClients.get(storageKey)?.clear();
+  accountQueryClients.delete(storageKey);
+  accountPersisters.delete(storageKey);
+  await AsyncStorage.removeItem(storageKey);
+}
+
+// The helpers below act on the active account's cache
+const activeQueryClient = () => getAccountQueryClient(getActiveAccountId());
+
 /**
  * Query key factory for consistent key generation across the app.
  * Using a factory ensures type-safe and consistent query keys.
@@ -57,9 +108,14 @@ export const queryKeys = {
   // Topic queries
   topic: (topicId: number) => ['topic', topicId] as const,
   topicComments: (topicId: number) => ['topic', topicId, 'comments'] as const,
+  topicReadPosition: (topicId: number) => ['topic', topicId, 'read-position'] as const,
+  postRevision: (postId: number, revision: number | 'latest') =>
+    ['post', postId, 'revisions', revision] as const,
+  postReactionUsers: (postId: number) => ['post', postId, 'reaction-users'] as const,
   
   // Category/Hub queries
   categories: () => ['categories'] as const,
+  categoryNotificationLevels: () => ['categories', 'notification-levels'] as const,
   category: (categoryId: number) => ['category', categoryId] as const,
   hubs: () => ['hubs'] as const,
   hub: (hubId: number) => ['hub', hubId] as const,
@@ -77,19 +133,41 @@ export const queryKeys = {
   // Search queries
   search: (query: string, filters?: object) => 
     ['search', query, filters] as const,
+  searchSuggestions: (term: string) => ['search', 'suggestions', term] as const,
+
+  // Tag queries
+  tag: (tagName: string) => ['tag', tagName] as const,
+  tagSearch: (query: string, filters?: { categoryId?: number; selectedTags?: string[] }) =>
+    ['tags', 'search', query, filters] as const,
+  
+  // Site queries
+  site: () => ['site'] as const,
+  siteSettings: () => ['site', 'settings'] as const,
+  customEmojis: () => ['site', 'emojis'] as const,
   
   // Notification queries
   notifications: () => ['notifications'] as const,
   
+  // Private message queries
+  messages: (username: string, folder: string) => ['messages', username, folder] as const,
+  
+  // Bookmark queries (the bookmarks screen, searched by `query`)
+  bookmarks: () => ['bookmarks'] as const,
+  bookmarkList: (username: string, query: string) => ['bookmarks', username, query] as const,
+
+  // Draft queries (the current user's server-side drafts)
+  drafts: () => ['drafts'] as const,
+  
   // Settings queries
   userSettings: (username: string) => ['user', username, 'settings'] as const,
+  userPreferences: (username: string) => ['user', username, 'preferences'] as const,
 } as const;
 
 /**
  * Get cache statistics for debugging/monitoring
  */
 export function getCacheStats() {
-  const cache = queryClient.getQueryCache();
+  const cache = activeQueryClient().getQueryCache();
   const queries = cache.getAll();
   
   return {
@@ -107,14 +185,14 @@ export function getCacheStats() {
  * Clear all cached queries
  */
 export function clearQueryCache() {
-  queryClient.clear();
+  activeQueryClient().clear();
 }
 
 /**
  * Invalidate queries by key prefix
  */
 export function invalidateQueriesByPrefix(prefix: string[]) {
-  queryClient.invalidateQueries({ queryKey: prefix });
+  activeQueryClient().invalidateQueries({ queryKey: prefix });
 }
 
 /**
@@ -126,7 +204,7 @@ export async function prefetchQuery<T>(
   queryFn: () => Promise<T>,
   staleTime?: number
 ) {
-  await queryClient.prefetchQuery({
+  await activeQueryClient().prefetchQuery({
     queryKey,
     queryFn,
     staleTime: staleTime ?? 2 * 60 * 1000, // Default 2 minutes
@@ -141,7 +219,7 @@ export async function prefetchInfiniteQuery<T>(
   queryFn: ({ pageParam }: { pageParam: number }) => Promise<T>,
   staleTime?: number
 ) {
-  await queryClient.prefetchInfiniteQuery({
+  await activeQueryClient().prefetchInfiniteQuery({
     queryKey,
     queryFn,
     initialPageParam: 0,
@@ -153,13 +231,13 @@ export async function prefetchInfiniteQuery<T>(
  * Set data directly in the cache (useful for optimistic updates)
  */
 export function setQueryData<T>(queryKey: readonly unknown[], data: T) {
-  queryClient.setQueryData(queryKey, data);
+  activeQueryClient().setQueryData(queryKey, data);
 }
 
 /**
  * Get data directly from the cache
  */
 export function getQueryData<T>(queryKey: readonly unknown[]): T | undefined {
-  return queryClient.getQueryData(queryKey);
+  return activeQueryClient().getQueryData(queryKey);
 }
 
@@ -0,0 +1,151 @@
+/**
+ * Quotes
+ *
+ * Discourse quotes are written as `[quote="user, post:N, topic:T"]` BBCode
+ * and cooked into `aside.quote` blocks carrying `data-username`,
+ * `data-post` and `data-topic`. These helpers build the BBCode for a reply
+ * and split post content into plain runs and quotes so the reader can show
+ * each quote as its own aside.
+ */
+
+import { decodeHtmlEntities } from './revision-diff';
+
+export interface QuoteSource {
+  username: string;
+  postNumber?: number | null;
+  topicId?: number | null;
+}
+
+export type QuoteSegment =
+  | { kind: 'text'; content: string }
+  | { kind: 'quote'; source: QuoteSource | null; content: string };
+
+const QUOTE_OPEN = /<aside\b[^>]*\bclass="[^"]*\bquote\b[^"]*"[^>]*>|\[quote(?:=([^\]]*))?\]/i;
+// The cooked quote header: avatar and "user:" (the quote body follows in a <blockquote>)
+const COOKED_QUOTE_TITLE = /<div class="title">(?:\s*<div class="quote-controls"><\/div>)?[\s\S]*?<\/div>/i;
+
+/**
+ * BBCode quoting `text` from a post, followed by a blank line for the reply.
+ * Empty when there's nothing to quote.
+ */
+export function buildQuoteMarkup(source: QuoteSource, text: string): string {
+  const quoted = text.trim();
+  if (!quoted) return '';
+
+  const attribution = [source.username];
+  if (source.postNumber && source.topicId) {
+    attribution.push(`post:${source.postNumber}`, `topic:${source.topicId}`);
+  }
+  return `[quote="${attribution.join(', ')}"]\n${quoted}\n[/quote]\n\n`;
+}
+
+/**
+ * Source of a `[quote="user, post:N, topic:T"]` attribution, or null when
+ * it doesn't name anyone
+ */
+export function parseQuoteAttribution(value: string | null | undefined): QuoteSource | null {
+  const parts = (value || '')
+    .replace(/^["']|["']$/g, '')
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (parts.length === 0 || parts[0].includes(':')) return null;
+
+  const source: QuoteSource = { username: parts[0] };
+  parts.slice(1).forEach((part) => {
+    const [key, raw] = part.split(':').map((piece) => piece.trim());
+    const number = parseInt(raw, 10);
+    if (!Number.isFinite(number)) return;
+    if (key === 'post') source.postNumber = number;
+    if (key === 'topic') source.topicId = number;
+  });
+  return source;
+}
+
+function readAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\b${name}="([^"]*)"`, 'i'));
+  return match ? decodeHtmlEntities(match[1]) : null;
+}
+
+function readNumberAttribute(tag: string, name: string): number | null {
+  const value = parseInt(readAttribute(tag, name) || '', 10);
+  return Number.isFinite(value) ? value : null;
+}
+
+function sourceFromAside(tag: string): QuoteSource | null {
+  const username = readAttribute(tag, 'data-username');
+  if (!username) return null;
+  return {
+    username,
+    postNumber: readNumberAttribute(tag, 'data-post'),
+    topicId: readNumberAttribute(tag, 'data-topic'),
+  };
+}
+
+// Index of the tag closing the quote opened before `from`, skipping nested quotes
+function findQuoteClose(content: string, from: number, isCooked: boolean): { start: number; end: number } | null {
+  const tags = isCooked ? /<aside\b[^>]*>|<\/aside>/gi : /\[quote(?:=[^\]]*)?\]|\[\/quote\]/gi;
+  tags.lastIndex = from;
+  let depth = 1;
+  let match: RegExpExecArray | null;
+  while ((match = tags.exec(content))) {
+    depth += match[0][1] === '/' ? -1 : 1;
+    if (depth === 0) return { start: match.index, end: match.index + match[0].length };
+  }
+  return null;
+}
+
+/**
+ * Split cooked HTML (or raw markdown) into text runs and top-level quotes.
+ * Quotes nested inside a quote stay in its content.
+ */
+export function splitQuotes(content: string): QuoteSegment[] {
+  const segments: QuoteSegment[] = [];
+  const pushText = (text: string) => {
+    if (text.trim()) segments.push({ kind: 'text', content: text.trim() });
+  };
+
+  let rest = content || '';
+  let open = rest.match(QUOTE_OPEN);
+  while (open && open.index !== undefined) {
+    const isCooked = open[0][0] === '<';
+    const bodyStart = open.index + open[0].length;
+    const close = findQuoteClose(rest, bodyStart, isCooked);
+    if (!close) break;
+
+    pushText(rest.slice(0, open.index));
+    let body = rest.slice(bodyStart, close.start);
+    if (isCooked) body = body.replace(COOKED_QUOTE_TITLE, '');
+    segments.push({
+      kind: 'quote',
+      source: isCooked ? sourceFromAside(open[0]) : parseQuoteAttribution(open[1]),
+      content: body.trim(),
+    });
+
+    rest = rest.slice(close.end);
+    open = rest.match(QUOTE_OPEN);
+  }
+  pushText(rest);
+  return segments;
+}
+
+/**
+ * Plain text of a post for picking a quote from, without the quotes it
+ * already contains (Discourse doesn't quote quotes either)
+ */
+export function getQuotableText(content: string): string {
+  const html = splitQuotes(content)
+    .filter((segment) => segment.kind === 'text')
+    .map((segment) => segment.content)
+    .join('\n\n');
+
+  return decodeHtmlEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6]|blockquote|pre|tr)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
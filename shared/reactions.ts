@@ -0,0 +1,134 @@
+/**
+ * Reactions
+ *
+ * Maps the discourse-reactions plugin's post fields (`reactions`,
+ * `current_user_reaction`) and applies a reaction toggle locally so the UI
+ * can update before the server answers. The plugin stores the main
+ * reaction (a heart by default) as a like; every other reaction replaces it.
+ */
+
+import { SiteSettings } from './site-settings';
+
+export interface ReactionCount {
+  // Emoji name, e.g. "heart" or "laughing"
+  id: string;
+  count: number;
+}
+
+export interface PostReactions {
+  reactions: ReactionCount[];
+  // The current user's reaction, if any
+  currentUserReaction: string | null;
+  // Discourse only allows taking a reaction back for a short while
+  canUndo: boolean;
+}
+
+export interface ReactionUser {
+  username: string;
+  name?: string | null;
+  avatar_template?: string;
+}
+
+export interface ReactionUsers {
+  id: string;
+  count: number;
+  users: ReactionUser[];
+}
+
+export const EMPTY_POST_REACTIONS: PostReactions = {
+  reactions: [],
+  currentUserReaction: null,
+  canUndo: true,
+};
+
+function sortReactions(reactions: ReactionCount[]): ReactionCount[] {
+  return [...reactions].sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Reactions on a post payload, or null when the plugin isn't running
+ * (the fields are missing)
+ */
+export function parsePostReactions(post: any): PostReactions | null {
+  if (!post || !Array.isArray(post.reactions)) return null;
+
+  const reactions = (post.reactions as any[])
+    .filter((reaction) => typeof reaction?.id === 'string' && Number(reaction.count) > 0)
+    .map((reaction) => ({ id: reaction.id, count: Number(reaction.count) }));
+  const current = post.current_user_reaction;
+
+  return {
+    reactions: sortReactions(reactions),
+    currentUserReaction: typeof current?.id === 'string' ? current.id : null,
+    canUndo: current ? current.can_undo !== false : true,
+  };
+}
+
+/**
+ * Reactions offered in the picker, main reaction first. Empty when the
+ * site doesn't use the plugin; `hasReactionData` (a post came with
+ * reactions) turns it on when the site settings weren't sent to the app,
+ * which leaves the plugin's default reactions.
+ */
+export function getReactionOptions(settings: SiteSettings, hasReactionData: boolean = false): string[] {
+  if (!settings.reactionsEnabled && !hasReactionData) return [];
+
+  const main = settings.mainReaction;
+  return [main, ...settings.enabledReactions.filter((reaction) => reaction !== main)];
+}
+
+/**
+ * The current user can always react, but changing or removing a reaction
+ * needs `canUndo`
+ */
+export function canToggleReaction(state: PostReactions): boolean {
+  return !state.currentUserReaction || state.canUndo;
+}
+
+/**
+ * The state after the current user toggles `reactionId`: the same reaction
+ * is removed, a different one replaces theirs
+ */
+export function toggleReaction(state: PostReactions, reactionId: string): PostReactions {
+  if (!canToggleReaction(state)) return state;
+
+  const counts = new Map(state.reactions.map((reaction) => [reaction.id, reaction.count]));
+  const previous = state.currentUserReaction;
+  if (previous) {
+    counts.set(previous, (counts.get(previous) || 1) - 1);
+  }
+  const next = previous === reactionId ? null : reactionId;
+  if (next) {
+    counts.set(next, (counts.get(next) || 0) + 1);
+  }
+
+  return {
+    reactions: sortReactions(
+      Array.from(counts.entries())
+        .filter(([, count]) => count > 0)
+        .map(([id, count]) => ({ id, count }))
+    ),
+    currentUserReaction: next,
+    canUndo: true,
+  };
+}
+
+export function getReactionTotal(state: PostReactions | null | undefined): number {
+  return state ? state.reactions.reduce((total, reaction) => total + reaction.count, 0) : 0;
+}
+
+/**
+ * "Who reacted" lists from /discourse-reactions/posts/{id}/reactions-users.json
+ */
+export function parseReactionUsers(payload: any): ReactionUsers[] {
+  const groups: any[] = Array.isArray(payload?.reaction_users) ? payload.reaction_users : [];
+  return groups
+    .filter((group) => typeof group?.id === 'string')
+    .map((group) => {
+      const users: ReactionUser[] = (Array.isArray(group.users) ? group.users : [])
+        .filter((user: any) => typeof user?.username === 'string')
+        .map((user: any) => ({ username: user.username, name: user.name, avatar_template: user.avatar_template }));
+      return { id: group.id, count: Number(group.count) || users.length, users };
+    })
+    .sort((a, b) => b.count - a.count);
+}
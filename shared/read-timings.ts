@@ -0,0 +1,271 @@
+/**
+ * Read Timings - Report which posts were on screen, and for how long
+ *
+ * Mirrors Discourse's own screen tracker: time spent with each post visible
+ * is accumulated locally and flushed to /topics/timings every minute and
+ * whenever the reader loses focus. Timings that can't be sent while offline
+ * are buffered in AsyncStorage and sent once the forum is reachable again.
+ */
+
+import { useCallback } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { discourseApi, DiscourseApiResponse } from './discourseApi';
+import { networkStatusManager, isNetworkFailure } from './offline-support';
+import { logger } from './logger';
+
+export const READ_TIMINGS_FLUSH_INTERVAL = 60 * 1000;
+// Stop counting when the reader hasn't interacted for a while (screen left on)
+export const READ_TIMINGS_IDLE_TIMEOUT = 3 * 60 * 1000;
+// Discourse caps the time credited to a single post per report
+export const MAX_POST_READ_TIME = 6 * 60 * 1000;
+
+const STORAGE_KEY = 'fomio_read_timings';
+
+export interface PendingTopicTimings {
+  topicTime: number;
+  // Milliseconds on screen, keyed by post number
+  timings: Record<number, number>;
+}
+
+type SendTimings = (
+  topicId: number,
+  topicTime: number,
+  timings: Record<number, number>
+) => Promise<DiscourseApiResponse<void>>;
+
+/**
+ * Combine two sets of timings for the same topic
+ */
+export function mergeTopicTimings(
+  a: PendingTopicTimings | undefined,
+  b: PendingTopicTimings
+): PendingTopicTimings {
+  const timings: Record<number, number> = { ...(a?.timings || {}) };
+  Object.entries(b.timings).forEach(([postNumber, ms]) => {
+    const key = Number(postNumber);
+    timings[key] = Math.min((timings[key] || 0) + ms, MAX_POST_READ_TIME);
+  });
+
+  return {
+    topicTime: (a?.topicTime || 0) + b.topicTime,
+    timings,
+  };
+}
+
+// =============================================================================
+// TRACKER
+// =============================================================================
+
+export class ReadTimingsTracker {
+  private topicId: number | null = null;
+  private visiblePosts: number[] = [];
+  private lastTick: number | null = null; // null while paused
+  private lastActivity = 0;
+  private pending = new Map<number, PendingTopicTimings>();
+  private isFlushing = false;
+  private initialized = false;
+  private now: () => number;
+  private send: SendTimings;
+
+  constructor(options: { now?: () => number; send?: SendTimings } = {}) {
+    this.now = options.now || Date.now;
+    this.send = options.send || ((topicId, topicTime, timings) =>
+      discourseApi.sendTopicTimings(topicId, topicTime, timings));
+  }
+
+  // Restore buffered timings and flush whenever the forum becomes reachable
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const buffered: Record<string, PendingTopicTimings> = JSON.parse(stored);
+        Object.entries(buffered).forEach(([topicId, entry]) => {
+          const id = Number(topicId);
+          this.pending.set(id, mergeTopicTimings(this.pending.get(id), entry));
+        });
+      }
+    } catch (error) {
+      logger.error('Error loading buffered read timings:', error);
+    }
+
+    networkStatusManager.addListener((state) => {
+      if (state.isConnected) {
+        void this.flush();
+      }
+    });
+  }
+
+  // Begin timing a topic (finishing any previous one)
+  start(topicId: number, visiblePosts: number[] = []): void {
+    this.tick();
+    this.topicId = topicId;
+    this.visiblePosts = visiblePosts;
+    this.lastTick = this.now();
+    this.lastActivity = this.now();
+  }
+
+  // Stop timing without losing what has been recorded
+  stop(): void {
+    this.pause();
+    this.topicId = null;
+    this.visiblePosts = [];
+  }
+
+  pause(): void {
+    this.tick();
+    this.lastTick = null;
+  }
+
+  resume(): void {
+    if (this.topicId === null || this.lastTick !== null) return;
+    this.lastTick = this.now();
+    this.lastActivity = this.now();
+  }
+
+  // Replace the set of posts currently on screen
+  setVisiblePosts(postNumbers: number[]): void {
+    this.tick();
+    this.visiblePosts = Array.from(new Set(postNumbers.filter((n) => n > 0)));
+    this.noteActivity();
+  }
+
+  // Scrolling and similar interactions keep the idle timer from kicking in
+  noteActivity(): void {
+    this.lastActivity = this.now();
+  }
+
+  // Credit the time since the last tick to the visible posts
+  tick(): void {
+    if (this.topicId === null || this.lastTick === null) return;
+
+    const now = this.now();
+    const idleCutoff = this.lastActivity + READ_TIMINGS_IDLE_TIMEOUT;
+    const elapsed = Math.max(0, Math.min(now, idleCutoff) - this.lastTick);
+    this.lastTick = now;
+
+    if (elapsed === 0) return;
+
+    const timings: Record<number, number> = {};
+    this.visiblePosts.forEach((postNumber) => {
+      timings[postNumber] = elapsed;
+    });
+    this.pending.set(
+      this.topicId,
+      mergeTopicTimings(this.pending.get(this.topicId), { topicTime: elapsed, timings })
+    );
+  }
+
+  getPending(topicId: number): PendingTopicTimings | undefined {
+    return this.pending.get(topicId);
+  }
+
+  // Send everything recorded so far; keeps whatever can't be delivered yet
+  async flush(): Promise<void> {
+    this.tick();
+    if (this.isFlushing) return;
+
+    if (!networkStatusManager.isOnline()) {
+      await this.persist();
+      return;
+    }
+
+    this.isFlushing = true;
+    try {
+      const entries = Array.from(this.pending.entries());
+      this.pending.clear();
+
+      for (const [topicId, entry] of entries) {
+        const timings: Record<number, number> = {};
+        Object.entries(entry.timings).forEach(([postNumber, ms]) => {
+          if (ms > 0) timings[Number(postNumber)] = Math.round(ms);
+        });
+        // Discourse needs at least one post timing
+        if (Object.keys(timings).length === 0) continue;
+
+        const response = await this.send(topicId, entry.topicTime, timings);
+        if (response.success) continue;
+
+        const status = response.status;
+        const shouldRetry = isNetworkFailure(response) || status === 429 || (status !== undefined && status >= 500);
+        if (shouldRetry) {
+          this.pending.set(topicId, mergeTopicTimings(this.pending.get(topicId), entry));
+        } else {
+          // Anonymous session, deleted topic, etc. - nothing to retry
+          logger.warn(`Dropping read timings for topic ${topicId}: ${response.error}`);
+        }
+      }
+    } finally {
+      this.isFlushing = false;
+      await this.persist();
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      if (this.pending.size === 0) {
+        await AsyncStorage.removeItem(STORAGE_KEY);
+        return;
+      }
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(this.pending)));
+    } catch (error) {
+      logger.error('Error saving read timings:', error);
+    }
+  }
+}
+
+export const readTimingsTracker = new ReadTimingsTracker();
+
+// =============================================================================
+// REACT HOOKS
+// =============================================================================
+
+/**
+ * Track reading time for a topic while its screen is focused.
+ * Flushes periodically, on blur and when the app goes to the background.
+ */
+export function useReadTimings(topicId: number, enabled: boolean) {
+  useFocusEffect(
+    useCallback(() => {
+      if (!enabled || topicId <= 0) return;
+
+      void readTimingsTracker.initialize();
+      // The reader opens on the Byte itself, i.e. post 1
+      readTimingsTracker.start(topicId, [1]);
+
+      const flushTimer = setInterval(() => {
+        void readTimingsTracker.flush();
+      }, READ_TIMINGS_FLUSH_INTERVAL);
+
+      const subscription = AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
+        if (nextAppState === 'active') {
+          readTimingsTracker.resume();
+        } else {
+          readTimingsTracker.pause();
+          void readTimingsTracker.flush();
+        }
+      });
+
+      return () => {
+        clearInterval(flushTimer);
+        subscription.remove();
+        readTimingsTracker.stop();
+        void readTimingsTracker.flush();
+      };
+    }, [topicId, enabled])
+  );
+
+  const setVisiblePosts = useCallback((postNumbers: number[]) => {
+    readTimingsTracker.setVisiblePosts(postNumbers);
+  }, []);
+
+  const noteActivity = useCallback(() => {
+    readTimingsTracker.noteActivity();
+  }, []);
+
+  return { setVisiblePosts, noteActivity };
+}
@@ -0,0 +1,132 @@
+/**
+ * Revision diff parsing
+ *
+ * Discourse's /posts/{id}/revisions/{n}.json returns diffs as HTML.
+ * `body_changes.side_by_side_markdown` is a two-column table of the raw
+ * markdown, one row per line, with changed words wrapped in <del>/<ins>.
+ * These helpers turn that table into plain rows that can be rendered
+ * natively as either an inline or a side-by-side diff.
+ */
+
+export type DiffSegmentKind = 'same' | 'added' | 'removed';
+
+export interface DiffSegment {
+  text: string;
+  kind: DiffSegmentKind;
+}
+
+export type RevisionDiffRowType = 'same' | 'changed' | 'added' | 'removed';
+
+export interface RevisionDiffRow {
+  type: RevisionDiffRowType;
+  // null when the line doesn't exist on that side
+  before: DiffSegment[] | null;
+  after: DiffSegment[] | null;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Split a diff fragment into unchanged, inserted and deleted runs.
+ * Tags other than <ins>/<del> are dropped.
+ */
+export function parseDiffSegments(html: string): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  const stack: DiffSegmentKind[] = [];
+  const tokenRegex = /<(\/?)(ins|del)\b[^>]*>|<[^>]*>|([^<]+)/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenRegex.exec(html)) !== null) {
+    const [, closing, tag, text] = match;
+    if (tag) {
+      if (closing) {
+        stack.pop();
+      } else {
+        stack.push(tag.toLowerCase() === 'ins' ? 'added' : 'removed');
+      }
+      continue;
+    }
+    if (!text) continue;
+
+    const kind = stack[stack.length - 1] ?? 'same';
+    const decoded = decodeHtmlEntities(text);
+    const last = segments[segments.length - 1];
+    if (last && last.kind === kind) {
+      last.text += decoded;
+    } else {
+      segments.push({ text: decoded, kind });
+    }
+  }
+
+  return segments;
+}
+
+export function segmentsToText(segments: DiffSegment[] | null): string {
+  return segments ? segments.map((segment) => segment.text).join('') : '';
+}
+
+/**
+ * Parse `body_changes.side_by_side_markdown` into diff rows
+ */
+export function parseSideBySideMarkdown(html: string): RevisionDiffRow[] {
+  const rows: RevisionDiffRow[] = [];
+  const rowRegex = /<tr[^>]*>([\s\S]*?)<\/tr>/gi;
+
+  let rowMatch: RegExpExecArray | null;
+  while ((rowMatch = rowRegex.exec(html)) !== null) {
+    const cells: { className: string; html: string }[] = [];
+    const cellRegex = /<td([^>]*)>([\s\S]*?)<\/td>/gi;
+    let cellMatch: RegExpExecArray | null;
+    while ((cellMatch = cellRegex.exec(rowMatch[1])) !== null) {
+      const classMatch = /class\s*=\s*"([^"]*)"/i.exec(cellMatch[1]);
+      cells.push({ className: classMatch?.[1] ?? '', html: cellMatch[2] });
+    }
+    if (cells.length < 2) continue;
+
+    const [left, right] = cells;
+    const leftIsDiff = left.className.includes('diff-del');
+    const rightIsDiff = right.className.includes('diff-ins');
+
+    // An empty, unclassed cell opposite a changed one means "no line here"
+    const before = !leftIsDiff && rightIsDiff && left.html === '' ? null : parseDiffSegments(trimLine(left.html));
+    const after = !rightIsDiff && leftIsDiff && right.html === '' ? null : parseDiffSegments(trimLine(right.html));
+
+    let type: RevisionDiffRowType;
+    if (before === null) {
+      type = 'added';
+    } else if (after === null) {
+      type = 'removed';
+    } else if (!leftIsDiff && !rightIsDiff) {
+      type = 'same';
+    } else {
+      type = 'changed';
+    }
+
+    rows.push({ type, before, after });
+  }
+
+  return rows;
+}
+
+function trimLine(html: string): string {
+  return html.replace(/\r?\n$/, '');
+}
@@ -24,3 +24,33 @@ export function mapSearchResultToItems(result: SearchResult | null): SearchResul
 
   return items;
 }
+
+function uniqueBy<T>(items: T[], getKey: (item: T) => string | number): T[] {
+  const seen = new Set<string | number>();
+  return items.filter((item) => {
+    const key = getKey(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Pages of full search results as one result. A result that moved onto the
+ * next page while paging is only listed once.
+ */
+export function mergeSearchResultPages(pages: SearchResult[]): SearchResult {
+  const bytes = uniqueBy(pages.flatMap((page) => page.bytes), (byte) => byte.id);
+  const comments = uniqueBy(pages.flatMap((page) => page.comments), (comment) => comment.id);
+  const users = uniqueBy(pages.flatMap((page) => page.users), (user) => user.id);
+  const hubs = uniqueBy(pages.flatMap((page) => page.hubs), (hub) => hub.id);
+
+  return {
+    bytes,
+    comments,
+    users,
+    hubs,
+    totalResults: bytes.length + comments.length + users.length + hubs.length,
+    hasMore: pages.length > 0 ? !!pages[pages.length - 1].hasMore : false,
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Search history
+ *
+ * Searches are remembered per account in AsyncStorage, newest first. Pinned
+ * searches stay at the top and are never pushed out by new ones; the rest are
+ * capped at SEARCH_HISTORY_LIMIT.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getAccountStorageKey } from '../accounts';
+
+export const SEARCH_HISTORY_LIMIT = 20;
+
+const SEARCH_HISTORY_STORAGE_PREFIX = 'fomio_search_history';
+
+export interface SearchHistoryEntry {
+  query: string;
+  pinned: boolean;
+  searchedAt: string;
+}
+
+const isSameQuery = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Searches made without an account are kept apart from every account's
+export function getSearchHistoryStorageKey(accountId: string | null): string {
+  return getAccountStorageKey(SEARCH_HISTORY_STORAGE_PREFIX, accountId);
+}
+
+/**
+ * Stored history, tolerating the plain list of strings kept before pins
+ */
+export function parseSearchHistory(stored: string | null): SearchHistoryEntry[] {
+  if (!stored) return [];
+  let data: unknown;
+  try {
+    data = JSON.parse(stored);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(data)) return [];
+
+  const entries: SearchHistoryEntry[] = [];
+  data.forEach((item: any) => {
+    const query = typeof item === 'string' ? item.trim() : typeof item?.query === 'string' ? item.query.trim() : '';
+    if (!query || entries.some((entry) => isSameQuery(entry.query, query))) return;
+    entries.push({
+      query,
+      pinned: item?.pinned === true,
+      searchedAt: typeof item?.searchedAt === 'string' ? item.searchedAt : '',
+    });
+  });
+  return sortSearchHistory(entries);
+}
+
+// Pinned first, then the most recent
+export function sortSearchHistory(history: SearchHistoryEntry[]): SearchHistoryEntry[] {
+  return [...history].sort((a, b) => {
+    if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+    return b.searchedAt.localeCompare(a.searchedAt);
+  });
+}
+
+/**
+ * Records a search, moving a repeat to the top (and keeping it pinned)
+ */
+export function addSearchHistoryEntry(
+  history: SearchHistoryEntry[],
+  query: string,
+  now: Date = new Date()
+): SearchHistoryEntry[] {
+  const trimmed = query.trim();
+  if (!trimmed) return history;
+
+  const existing = history.find((entry) => isSameQuery(entry.query, trimmed));
+  const entry: SearchHistoryEntry = {
+    query: trimmed,
+    pinned: existing?.pinned ?? false,
+    searchedAt: now.toISOString(),
+  };
+  const rest = history.filter((item) => !isSameQuery(item.query, trimmed));
+  const sorted = sortSearchHistory([entry, ...rest]);
+
+  let unpinned = 0;
+  return sorted.filter((item) => item.pinned || ++unpinned <= SEARCH_HISTORY_LIMIT);
+}
+
+export function removeSearchHistoryEntry(history: SearchHistoryEntry[], query: string): SearchHistoryEntry[] {
+  return history.filter((entry) => !isSameQuery(entry.query, query));
+}
+
+export function toggleSearchHistoryPin(history: SearchHistoryEntry[], query: string): SearchHistoryEntry[] {
+  return sortSearchHistory(
+    history.map((entry) => (isSameQuery(entry.query, query) ? { ...entry, pinned: !entry.pinned } : entry))
+  );
+}
+
+// Saving a search records it and pins it, whether or not it was run before
+export function pinSearchHistoryEntry(
+  history: SearchHistoryEntry[],
+  query: string,
+  now: Date = new Date()
+): SearchHistoryEntry[] {
+  return sortSearchHistory(
+    addSearchHistoryEntry(history, query, now).map((entry) =>
+      isSameQuery(entry.query, query) ? { ...entry, pinned: true } : entry
+    )
+  );
+}
+
+// Clearing keeps what the user pinned
+export function clearSearchHistoryEntries(history: SearchHistoryEntry[]): SearchHistoryEntry[] {
+  return history.filter((entry) => entry.pinned);
+}
+
+/**
+ * Earlier searches for what's being typed: those starting with it first,
+ * leaving out an exact repeat of it
+ */
+export function matchSearchHistory(
+  history: SearchHistoryEntry[],
+  query: string,
+  limit: number
+): SearchHistoryEntry[] {
+  const term = query.trim().toLowerCase();
+  if (!term) return history.slice(0, limit);
+
+  const starts: SearchHistoryEntry[] = [];
+  const contains: SearchHistoryEntry[] = [];
+  history.forEach((entry) => {
+    const value = entry.query.toLowerCase();
+    if (value === term) return;
+    if (value.startsWith(term)) starts.push(entry);
+    else if (value.includes(term)) contains.push(entry);
+  });
+  return [...starts, ...contains].slice(0, limit);
+}
+
+export async function loadSearchHistory(accountId: string | null): Promise<SearchHistoryEntry[]> {
+  return parseSearchHistory(await AsyncStorage.getItem(getSearchHistoryStorageKey(accountId)));
+}
+
+export async function saveSearchHistory(accountId: string | null, history: SearchHistoryEntry[]): Promise<void> {
+  await AsyncStorage.setItem(getSearchHistoryStorageKey(accountId), JSON.stringify(history));
+}
@@ -1,2 +1,53 @@
-export { mapSearchResultToItems } from './adapters';
+export { mapSearchResultToItems, mergeSearchResultPages } from './adapters';
 export type { SearchResultItem, SearchResultItemType } from './types';
+export {
+  SEARCH_HISTORY_LIMIT,
+  addSearchHistoryEntry,
+  clearSearchHistoryEntries,
+  loadSearchHistory,
+  matchSearchHistory,
+  pinSearchHistoryEntry,
+  removeSearchHistoryEntry,
+  saveSearchHistory,
+  toggleSearchHistoryPin,
+} from './history';
+export type { SearchHistoryEntry } from './history';
+export {
+  EMPTY_REMOTE_SUGGESTIONS,
+  SUGGESTIONS_PER_SECTION,
+  buildSearchSuggestionSections,
+  matchTeretSuggestions,
+  toByteSuggestions,
+  toHistorySuggestions,
+  toTagSuggestions,
+  toUserSuggestions,
+} from './suggestions';
+export type {
+  RemoteSearchSuggestions,
+  SearchSuggestion,
+  SearchSuggestionSection,
+  SearchSuggestionSectionType,
+} from './suggestions';
+export {
+  EMPTY_SEARCH_FILTERS,
+  SEARCH_DATE_PRESETS,
+  SEARCH_IN_OPTIONS,
+  SEARCH_MIN_POSTS_OPTIONS,
+  SEARCH_ORDER_OPTIONS,
+  SEARCH_STATUS_OPTIONS,
+  buildSearchQuery,
+  getSearchDateDaysAgo,
+  getSearchFilterChips,
+  getSearchShareLink,
+  hasSearchFilters,
+  isValidSearchDate,
+  parseSearchQuery,
+  removeSearchFilter,
+} from './query';
+export type {
+  SearchFilterChip,
+  SearchInFilter,
+  SearchOrderFilter,
+  SearchQueryFilters,
+  SearchStatusFilter,
+} from './query';
@@ -0,0 +1,231 @@
+/**
+ * Search query builder
+ *
+ * Converts between a Discourse search string and the filters the search
+ * screen shows as chips, so a search round-trips through history and
+ * `fomio://search?q=` links. Anything that isn't a known filter stays part of
+ * the search term.
+ *
+ * Syntax: `#teret` / `category:teret`, `@user` / `user:user`, `tags:a,b`,
+ * `status:open`, `order:latest`, `in:bookmarks`, `after:2026-01-31`,
+ * `before:2026-02-28`, `min_posts:5`
+ */
+
+export type SearchInFilter = 'bookmarks' | 'likes' | 'unseen';
+export type SearchStatusFilter = 'open' | 'closed' | 'archived' | 'noreplies';
+export type SearchOrderFilter = 'latest' | 'likes' | 'views' | 'latest_topic';
+
+export interface SearchQueryFilters {
+  // Teret (category) slug
+  category?: string;
+  author?: string;
+  tags: string[];
+  status?: SearchStatusFilter;
+  // Unset is Discourse's relevance order
+  order?: SearchOrderFilter;
+  in: SearchInFilter[];
+  // YYYY-MM-DD
+  after?: string;
+  before?: string;
+  minPosts?: number;
+}
+
+export interface SearchFilterChip {
+  id: string;
+  label: string;
+}
+
+export const EMPTY_SEARCH_FILTERS: SearchQueryFilters = { tags: [], in: [] };
+
+export const SEARCH_IN_OPTIONS: { value: SearchInFilter; label: string }[] = [
+  { value: 'bookmarks', label: 'Bookmarked' },
+  { value: 'likes', label: 'Liked' },
+  { value: 'unseen', label: 'Unseen' },
+];
+
+export const SEARCH_STATUS_OPTIONS: { value: SearchStatusFilter; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'closed', label: 'Closed' },
+  { value: 'archived', label: 'Archived' },
+  { value: 'noreplies', label: 'No replies' },
+];
+
+export const SEARCH_ORDER_OPTIONS: { value: SearchOrderFilter | undefined; label: string }[] = [
+  { value: undefined, label: 'Relevance' },
+  { value: 'latest', label: 'Latest post' },
+  { value: 'latest_topic', label: 'Newest Byte' },
+  { value: 'likes', label: 'Most liked' },
+  { value: 'views', label: 'Most viewed' },
+];
+
+export const SEARCH_DATE_PRESETS: { key: string; label: string; days: number }[] = [
+  { key: 'week', label: 'Past week', days: 7 },
+  { key: 'month', label: 'Past month', days: 30 },
+  { key: 'year', label: 'Past year', days: 365 },
+];
+
+export const SEARCH_MIN_POSTS_OPTIONS = [2, 5, 10, 25];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Filters with one value, whose chip id is the filter's name
+const SINGLE_VALUE_FILTERS = ['category', 'author', 'status', 'after', 'before', 'minPosts', 'order'] as const;
+
+const includes = <T extends string>(options: { value: T | undefined }[], value: string): value is T =>
+  options.some((option) => option.value === value);
+
+export function isValidSearchDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+// The date `days` before `now`, as Discourse's after:/before: expect it
+export function getSearchDateDaysAgo(days: number, now: Date = new Date()): string {
+  const date = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+  return date.toISOString().slice(0, 10);
+}
+
+export function parseSearchQuery(query: string): { term: string; filters: SearchQueryFilters } {
+  const filters: SearchQueryFilters = { tags: [], in: [] };
+  const words: string[] = [];
+
+  query
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach((token) => {
+      if (token.length > 1 && token.startsWith('#')) {
+        filters.category = token.slice(1);
+        return;
+      }
+      if (token.length > 1 && token.startsWith('@')) {
+        filters.author = token.slice(1);
+        return;
+      }
+
+      const separator = token.indexOf(':');
+      const key = separator > 0 ? token.slice(0, separator).toLowerCase() : '';
+      const value = separator > 0 ? token.slice(separator + 1) : '';
+
+      if (value) {
+        switch (key) {
+          case 'category':
+            filters.category = value;
+            return;
+          case 'user':
+          case 'author':
+            filters.author = value.replace(/^@/, '');
+            return;
+          case 'tag':
+          case 'tags':
+            value
+              .split(/[,+]/)
+              .map((tag) => tag.trim())
+              .filter((tag) => tag && !filters.tags.includes(tag))
+              .forEach((tag) => filters.tags.push(tag));
+            return;
+          case 'status':
+            if (includes(SEARCH_STATUS_OPTIONS, value)) {
+              filters.status = value;
+              return;
+            }
+            break;
+          case 'order':
+            if (includes(SEARCH_ORDER_OPTIONS, value)) {
+              filters.order = value;
+              return;
+            }
+            break;
+          case 'in':
+            if (includes(SEARCH_IN_OPTIONS, value)) {
+              if (!filters.in.includes(value)) filters.in.push(value);
+              return;
+            }
+            break;
+          case 'after':
+          case 'before':
+            if (isValidSearchDate(value)) {
+              filters[key] = value;
+              return;
+            }
+            break;
+          case 'min_posts': {
+            const count = parseInt(value, 10);
+            if (count > 0) {
+              filters.minPosts = count;
+              return;
+            }
+            break;
+          }
+        }
+      }
+
+      words.push(token);
+    });
+
+  return { term: words.join(' '), filters };
+}
+
+export function buildSearchQuery(term: string, filters: SearchQueryFilters): string {
+  const parts = [term.trim()];
+  if (filters.category) parts.push(`#${filters.category}`);
+  if (filters.author) parts.push(`@${filters.author}`);
+  if (filters.tags.length > 0) parts.push(`tags:${filters.tags.join(',')}`);
+  filters.in.forEach((value) => parts.push(`in:${value}`));
+  if (filters.status) parts.push(`status:${filters.status}`);
+  if (filters.after) parts.push(`after:${filters.after}`);
+  if (filters.before) parts.push(`before:${filters.before}`);
+  if (filters.minPosts) parts.push(`min_posts:${filters.minPosts}`);
+  if (filters.order) parts.push(`order:${filters.order}`);
+  return parts.filter(Boolean).join(' ');
+}
+
+export function hasSearchFilters(filters: SearchQueryFilters): boolean {
+  return getSearchFilterChips(filters).length > 0;
+}
+
+/**
+ * The chips for filters in use, in the order they're written
+ */
+export function getSearchFilterChips(filters: SearchQueryFilters): SearchFilterChip[] {
+  const chips: SearchFilterChip[] = [];
+  if (filters.category) chips.push({ id: 'category', label: `#${filters.category}` });
+  if (filters.author) chips.push({ id: 'author', label: `@${filters.author}` });
+  filters.tags.forEach((tag) => chips.push({ id: `tag:${tag}`, label: `Tag: ${tag}` }));
+  filters.in.forEach((value) => {
+    const option = SEARCH_IN_OPTIONS.find((item) => item.value === value);
+    chips.push({ id: `in:${value}`, label: option?.label ?? value });
+  });
+  if (filters.status) {
+    const option = SEARCH_STATUS_OPTIONS.find((item) => item.value === filters.status);
+    chips.push({ id: 'status', label: option?.label ?? filters.status });
+  }
+  if (filters.after) chips.push({ id: 'after', label: `After ${filters.after}` });
+  if (filters.before) chips.push({ id: 'before', label: `Before ${filters.before}` });
+  if (filters.minPosts) chips.push({ id: 'minPosts', label: `${filters.minPosts}+ posts` });
+  if (filters.order) {
+    const option = SEARCH_ORDER_OPTIONS.find((item) => item.value === filters.order);
+    chips.push({ id: 'order', label: option?.label ?? filters.order });
+  }
+  return chips;
+}
+
+export function removeSearchFilter(filters: SearchQueryFilters, chipId: string): SearchQueryFilters {
+  if (chipId.startsWith('tag:')) {
+    const tag = chipId.slice(4);
+    return { ...filters, tags: filters.tags.filter((item) => item !== tag) };
+  }
+  if (chipId.startsWith('in:')) {
+    const value = chipId.slice(3);
+    return { ...filters, in: filters.in.filter((item) => item !== value) };
+  }
+  if ((SINGLE_VALUE_FILTERS as readonly string[]).includes(chipId)) {
+    return { ...filters, [chipId]: undefined };
+  }
+  return filters;
+}
+
+export function getSearchShareLink(query: string): string {
+  return `fomio://search?q=${encodeURIComponent(query.trim())}`;
+}
@@ -0,0 +1,133 @@
+/**
+ * Search suggestions
+ *
+ * What's offered under the search box while typing, in typed sections:
+ * earlier searches, then Bytes, people, Terets and tags that match on the
+ * server. Empty sections are left out.
+ */
+
+import type { AppUser, Byte } from '../discourseApi';
+import type { TagSuggestion } from '../tags';
+import type { SearchHistoryEntry } from './history';
+
+export const SUGGESTIONS_PER_SECTION = 4;
+
+export type SearchSuggestion =
+  | { type: 'history'; key: string; query: string; pinned: boolean }
+  | { type: 'byte'; key: string; id: number; title: string }
+  | { type: 'user'; key: string; username: string; name: string; avatar: string }
+  | { type: 'teret'; key: string; id: number; name: string; slug: string; color: string }
+  | { type: 'tag'; key: string; name: string; count: number };
+
+export type SearchSuggestionSectionType = 'history' | 'bytes' | 'users' | 'terets' | 'tags';
+
+export interface SearchSuggestionSection {
+  type: SearchSuggestionSectionType;
+  title: string;
+  data: SearchSuggestion[];
+}
+
+// Suggestions found on the server for a term
+export interface RemoteSearchSuggestions {
+  bytes: SearchSuggestion[];
+  users: SearchSuggestion[];
+  tags: SearchSuggestion[];
+}
+
+export const EMPTY_REMOTE_SUGGESTIONS: RemoteSearchSuggestions = { bytes: [], users: [], tags: [] };
+
+export function toByteSuggestions(bytes: Pick<Byte, 'id' | 'title'>[], limit = SUGGESTIONS_PER_SECTION): SearchSuggestion[] {
+  const seen = new Set<number>();
+  const suggestions: SearchSuggestion[] = [];
+  bytes.forEach((byte) => {
+    const id = byte.id;
+    if (!id || !byte.title || seen.has(id)) return;
+    seen.add(id);
+    suggestions.push({ type: 'byte', key: `byte-${id}`, id, title: byte.title });
+  });
+  return suggestions.slice(0, limit);
+}
+
+export function toUserSuggestions(
+  users: Pick<AppUser, 'username' | 'name' | 'avatar'>[],
+  limit = SUGGESTIONS_PER_SECTION
+): SearchSuggestion[] {
+  return users
+    .filter((user) => !!user.username)
+    .slice(0, limit)
+    .map((user) => ({
+      type: 'user' as const,
+      key: `user-${user.username}`,
+      username: user.username,
+      name: user.name && user.name !== user.username ? user.name : '',
+      avatar: user.avatar || '',
+    }));
+}
+
+export function toTagSuggestions(tags: TagSuggestion[], limit = SUGGESTIONS_PER_SECTION): SearchSuggestion[] {
+  return tags.slice(0, limit).map((tag) => ({
+    type: 'tag' as const,
+    key: `tag-${tag.name}`,
+    name: tag.name,
+    count: tag.count,
+  }));
+}
+
+/**
+ * Terets whose name or slug match, names starting with the term first
+ */
+export function matchTeretSuggestions(
+  terets: { id: number; name: string; slug: string; color: string }[],
+  query: string,
+  limit = SUGGESTIONS_PER_SECTION
+): SearchSuggestion[] {
+  const term = query.trim().toLowerCase();
+  if (!term) return [];
+
+  return terets
+    .filter((teret) => teret.name.toLowerCase().includes(term) || teret.slug.toLowerCase().includes(term))
+    .sort((a, b) => {
+      const aStarts = a.name.toLowerCase().startsWith(term) ? 0 : 1;
+      const bStarts = b.name.toLowerCase().startsWith(term) ? 0 : 1;
+      return aStarts - bStarts || a.name.localeCompare(b.name);
+    })
+    .slice(0, limit)
+    .map((teret) => ({
+      type: 'teret' as const,
+      key: `teret-${teret.id}`,
+      id: teret.id,
+      name: teret.name,
+      slug: teret.slug,
+      color: teret.color,
+    }));
+}
+
+export function toHistorySuggestions(history: SearchHistoryEntry[]): SearchSuggestion[] {
+  return history.map((entry) => ({
+    type: 'history' as const,
+    key: `history-${entry.query.toLowerCase()}`,
+    query: entry.query,
+    pinned: entry.pinned,
+  }));
+}
+
+export function buildSearchSuggestionSections({
+  query,
+  history,
+  remote,
+  terets,
+}: {
+  query: string;
+  history: SearchSuggestion[];
+  remote: RemoteSearchSuggestions;
+  terets: SearchSuggestion[];
+}): SearchSuggestionSection[] {
+  const sections: SearchSuggestionSection[] = [
+    { type: 'history', title: query.trim() ? 'Earlier searches' : 'Recent searches', data: history },
+    { type: 'bytes', title: 'Bytes', data: remote.bytes },
+    { type: 'users', title: 'People', data: remote.users },
+    { type: 'terets', title: 'Terets', data: terets },
+    { type: 'tags', title: 'Tags', data: remote.tags },
+  ];
+  return sections.filter((section) => section.data.length > 0);
+}
@@ -0,0 +1,353 @@
+/**
+ * Site settings
+ *
+ * The rules a Discourse site enforces (title and post lengths, upload
+ * types and sizes, tagging, search, flag types, trust level gates) come
+ * from /site.json and /site/basic-info.json. This module maps both into one
+ * typed object; the values fall back to what the app used before it read
+ * them from the server.
+ */
+
+import {
+  DEFAULT_POST_FLAG_TYPES,
+  PostFlagType,
+  parsePostFlagTypes,
+} from './post-flags';
+
+export interface TrustLevel {
+  level: number;
+  name: string;
+}
+
+export interface SiteSettings {
+  // From /site/basic-info.json
+  title: string;
+  description: string;
+  logoUrl: string | null;
+  mobileLogoUrl: string | null;
+
+  // Composer limits
+  minTopicTitleLength: number;
+  maxTopicTitleLength: number;
+  minPostLength: number;
+  minFirstPostLength: number;
+  maxPostLength: number;
+  minPersonalMessageTitleLength: number;
+  minPersonalMessagePostLength: number;
+
+  // Uploads; extensions are lowercase without the dot ('*' allows any)
+  authorizedExtensions: string[];
+  maxImageSizeKb: number;
+  maxAttachmentSizeKb: number;
+  // Large files go straight to the site's S3 bucket in parts
+  directS3Uploads: boolean;
+  // Client-side image optimization before upload
+  optimizeImages: boolean;
+  imageResizeThreshold: number;
+  imageResizeWidth: number;
+  imageEncodeQuality: number;
+
+  // Tagging
+  taggingEnabled: boolean;
+  canTagTopics: boolean;
+  canCreateTag: boolean;
+  maxTagsPerTopic: number;
+  maxTagLength: number;
+
+  minSearchTermLength: number;
+
+  // discourse-reactions plugin; emoji names, main reaction counts as a like
+  reactionsEnabled: boolean;
+  enabledReactions: string[];
+  mainReaction: string;
+
+  // Post actions offered as flags
+  flagTypes: PostFlagType[];
+
+  // Trust level names, and the levels needed for gated actions
+  trustLevels: TrustLevel[];
+  minTrustToCreateTopic: number;
+  minTrustToFlagPosts: number;
+  minTrustToPostLinks: number;
+  minTrustToPostEmbeddedMedia: number;
+  minTrustToSendMessages: number;
+}
+
+export type TrustGate =
+  | 'createTopic'
+  | 'flagPosts'
+  | 'postLinks'
+  | 'postEmbeddedMedia'
+  | 'sendMessages';
+
+export const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'heic', 'heif', 'webp', 'avif'];
+
+export const DEFAULT_SITE_SETTINGS: SiteSettings = {
+  title: 'Fomio',
+  description: '',
+  logoUrl: null,
+  mobileLogoUrl: null,
+
+  minTopicTitleLength: 15,
+  maxTopicTitleLength: 255,
+  minPostLength: 20,
+  minFirstPostLength: 20,
+  maxPostLength: 32000,
+  minPersonalMessageTitleLength: 2,
+  minPersonalMessagePostLength: 2,
+
+  authorizedExtensions: ['jpg', 'jpeg', 'png', 'gif'],
+  maxImageSizeKb: 5 * 1024,
+  maxAttachmentSizeKb: 5 * 1024,
+  directS3Uploads: false,
+  optimizeImages: true,
+  imageResizeThreshold: 1920,
+  imageResizeWidth: 1920,
+  imageEncodeQuality: 75,
+
+  taggingEnabled: false,
+  canTagTopics: false,
+  canCreateTag: false,
+  maxTagsPerTopic: 5,
+  maxTagLength: 20,
+
+  minSearchTermLength: 3,
+
+  reactionsEnabled: false,
+  enabledReactions: ['laughing', 'open_mouth', 'cry', 'angry', 'thumbsup', 'hugs'],
+  mainReaction: 'heart',
+
+  flagTypes: DEFAULT_POST_FLAG_TYPES,
+
+  trustLevels: [
+    { level: 0, name: 'new user' },
+    { level: 1, name: 'basic user' },
+    { level: 2, name: 'member' },
+    { level: 3, name: 'regular' },
+    { level: 4, name: 'leader' },
+  ],
+  minTrustToCreateTopic: 0,
+  minTrustToFlagPosts: 1,
+  minTrustToPostLinks: 0,
+  minTrustToPostEmbeddedMedia: 0,
+  minTrustToSendMessages: 1,
+};
+
+function readNumber(value: unknown, fallback: number): number {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : fallback;
+}
+
+function readBoolean(value: unknown, fallback: boolean): boolean {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return fallback;
+}
+
+function readString(value: unknown, fallback: string): string {
+  return typeof value === 'string' && value.trim() ? value : fallback;
+}
+
+// Pipe-separated list settings ("laughing|open_mouth")
+function readList(value: unknown, fallback: string[]): string[] {
+  if (typeof value !== 'string' && !Array.isArray(value)) return fallback;
+  const list = (Array.isArray(value) ? value : value.split('|'))
+    .map((item) => String(item).trim())
+    .filter(Boolean);
+  return list.length > 0 ? list : fallback;
+}
+
+// Older sites gate by trust level ("tl2" or 2); group-based settings are left at the default
+function readTrustLevel(value: unknown, fallback: number): number {
+  if (typeof value === 'number') return value;
+  const match = typeof value === 'string' ? /^(?:tl)?([0-4])$/i.exec(value.trim()) : null;
+  return match ? Number(match[1]) : fallback;
+}
+
+/**
+ * Split Discourse's pipe-separated `authorized_extensions` ("jpg|.png|*")
+ */
+export function parseAuthorizedExtensions(value: unknown): string[] | null {
+  if (typeof value !== 'string' && !Array.isArray(value)) return null;
+
+  const list = (Array.isArray(value) ? value : value.split('|'))
+    .map((extension) => String(extension).trim().toLowerCase().replace(/^\./, ''))
+    .filter(Boolean);
+  return list.length > 0 ? Array.from(new Set(list)) : null;
+}
+
+function parseTrustLevels(value: unknown): TrustLevel[] | null {
+  if (!value || typeof value !== 'object') return null;
+
+  // { newuser: 0, basic: 1, ... } or [{ id: 0, name: 'new user' }, ...]
+  const levels = Array.isArray(value)
+    ? value
+        .filter((level) => typeof level?.id === 'number')
+        .map((level) => ({ level: level.id, name: String(level.name || level.id) }))
+    : Object.entries(value as Record<string, unknown>)
+        .filter(([, level]) => typeof level === 'number')
+        .map(([name, level]) => ({ level: level as number, name: name.replace(/_/g, ' ') }));
+
+  return levels.length > 0 ? levels.sort((a, b) => a.level - b.level) : null;
+}
+
+/**
+ * Map /site.json and /site/basic-info.json into site settings. Either
+ * payload may be missing; unknown values keep their defaults.
+ */
+export function parseSiteSettings(site?: any, basicInfo?: any): SiteSettings {
+  const defaults = DEFAULT_SITE_SETTINGS;
+  // Client site settings, when the server includes them with the site payload
+  const settings = site?.site_settings || {};
+  const flagTypes = parsePostFlagTypes(site?.post_action_types || []);
+  const taggingEnabled = readBoolean(settings.tagging_enabled, site?.can_tag_topics !== undefined);
+
+  return {
+    title: readString(basicInfo?.title ?? settings.title, defaults.title),
+    description: readString(basicInfo?.description ?? settings.site_description, defaults.description),
+    logoUrl: basicInfo?.logo_url || null,
+    mobileLogoUrl: basicInfo?.mobile_logo_url || null,
+
+    minTopicTitleLength: readNumber(settings.min_topic_title_length, defaults.minTopicTitleLength),
+    maxTopicTitleLength: readNumber(settings.max_topic_title_length, defaults.maxTopicTitleLength),
+    minPostLength: readNumber(settings.min_post_length, defaults.minPostLength),
+    minFirstPostLength: readNumber(settings.min_first_post_length, defaults.minFirstPostLength),
+    maxPostLength: readNumber(settings.max_post_length, defaults.maxPostLength),
+    minPersonalMessageTitleLength: readNumber(
+      settings.min_personal_message_title_length,
+      defaults.minPersonalMessageTitleLength
+    ),
+    minPersonalMessagePostLength: readNumber(
+      settings.min_personal_message_post_length,
+      defaults.minPersonalMessagePostLength
+    ),
+
+    authorizedExtensions:
+      parseAuthorizedExtensions(settings.authorized_extensions) || defaults.authorizedExtensions,
+    maxImageSizeKb: readNumber(settings.max_image_size_kb, defaults.maxImageSizeKb),
+    maxAttachmentSizeKb: readNumber(settings.max_attachment_size_kb, defaults.maxAttachmentSizeKb),
+    directS3Uploads: readBoolean(settings.enable_direct_s3_uploads, defaults.directS3Uploads),
+    optimizeImages: readBoolean(
+      settings.composer_media_optimization_image_enabled,
+      defaults.optimizeImages
+    ),
+    imageResizeThreshold: readNumber(
+      settings.composer_media_optimization_image_resize_dimensions_threshold,
+      defaults.imageResizeThreshold
+    ),
+    imageResizeWidth: readNumber(
+      settings.composer_media_optimization_image_resize_width_target,
+      defaults.imageResizeWidth
+    ),
+    imageEncodeQuality: readNumber(
+      settings.composer_media_optimization_image_encode_quality,
+      defaults.imageEncodeQuality
+    ),
+
+    taggingEnabled,
+    canTagTopics: taggingEnabled && readBoolean(site?.can_tag_topics, defaults.canTagTopics),
+    canCreateTag: taggingEnabled && readBoolean(site?.can_create_tag, defaults.canCreateTag),
+    maxTagsPerTopic: readNumber(settings.max_tags_per_topic, defaults.maxTagsPerTopic),
+    maxTagLength: readNumber(settings.max_tag_length, defaults.maxTagLength),
+
+    minSearchTermLength: readNumber(settings.min_search_term_length, defaults.minSearchTermLength),
+
+    reactionsEnabled: readBoolean(settings.discourse_reactions_enabled, defaults.reactionsEnabled),
+    enabledReactions: readList(settings.discourse_reactions_enabled_reactions, defaults.enabledReactions),
+    mainReaction: readString(settings.discourse_reactions_reaction_for_like, defaults.mainReaction),
+
+    flagTypes: flagTypes.length > 0 ? flagTypes : defaults.flagTypes,
+
+    trustLevels: parseTrustLevels(site?.trust_levels) || defaults.trustLevels,
+    minTrustToCreateTopic: readTrustLevel(settings.min_trust_to_create_topic, defaults.minTrustToCreateTopic),
+    minTrustToFlagPosts: readTrustLevel(settings.min_trust_to_flag_posts, defaults.minTrustToFlagPosts),
+    minTrustToPostLinks: readTrustLevel(settings.min_trust_to_post_links, defaults.minTrustToPostLinks),
+    minTrustToPostEmbeddedMedia: readTrustLevel(
+      settings.min_trust_to_post_embedded_media,
+      defaults.minTrustToPostEmbeddedMedia
+    ),
+    minTrustToSendMessages: readTrustLevel(
+      settings.min_trust_to_send_messages,
+      defaults.minTrustToSendMessages
+    ),
+  };
+}
+
+/**
+ * Whether a user at `trustLevel` passes a trust level gate. Unknown trust
+ * levels pass; the server has the final say.
+ */
+export function meetsTrustGate(
+  settings: SiteSettings,
+  gate: TrustGate,
+  trustLevel: number | null | undefined
+): boolean {
+  if (trustLevel === null || trustLevel === undefined) return true;
+
+  const required: Record<TrustGate, number> = {
+    createTopic: settings.minTrustToCreateTopic,
+    flagPosts: settings.minTrustToFlagPosts,
+    postLinks: settings.minTrustToPostLinks,
+    postEmbeddedMedia: settings.minTrustToPostEmbeddedMedia,
+    sendMessages: settings.minTrustToSendMessages,
+  };
+  return trustLevel >= required[gate];
+}
+
+/**
+ * File extension from a file name, or from a mime type ("image/png")
+ */
+export function getFileExtension(file: { name?: string; type?: string }): string | null {
+  const fromName = file.name?.includes('.') ? file.name.split('.').pop() : undefined;
+  const fromType = file.type?.includes('/') ? file.type.split('/').pop() : undefined;
+  const extension = (fromName || fromType || '').toLowerCase().replace(/^x-/, '');
+  return extension || null;
+}
+
+export function isImageExtension(extension: string | null): boolean {
+  return !!extension && IMAGE_EXTENSIONS.includes(extension);
+}
+
+export function isAuthorizedExtension(settings: SiteSettings, extension: string | null): boolean {
+  if (settings.authorizedExtensions.includes('*')) return true;
+  if (!extension) return false;
+  // Discourse treats jpg and jpeg as the same type
+  if (extension === 'jpg' || extension === 'jpeg') {
+    return settings.authorizedExtensions.some((allowed) => allowed === 'jpg' || allowed === 'jpeg');
+  }
+  return settings.authorizedExtensions.includes(extension);
+}
+
+export function getMaxUploadBytes(settings: SiteSettings, isImage: boolean): number {
+  return (isImage ? settings.maxImageSizeKb : settings.maxAttachmentSizeKb) * 1024;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    const megabytes = bytes / (1024 * 1024);
+    return `${Number.isInteger(megabytes) ? megabytes : megabytes.toFixed(1)}MB`;
+  }
+  return `${Math.round(bytes / 1024)}KB`;
+}
+
+/**
+ * Check a file against the site's upload rules; returns why it can't be
+ * uploaded, or null when it can
+ */
+export function getUploadError(
+  settings: SiteSettings,
+  file: { name?: string; type?: string; size?: number }
+): string | null {
+  const extension = getFileExtension(file);
+  if (!isAuthorizedExtension(settings, extension)) {
+    const allowed = settings.authorizedExtensions.map((ext) => ext.toUpperCase()).join(', ');
+    return `Invalid file type. Allowed types: ${allowed}.`;
+  }
+
+  const maxBytes = getMaxUploadBytes(settings, isImageExtension(extension));
+  if (file.size && file.size > maxBytes) {
+    return `File too large. Maximum size is ${formatFileSize(maxBytes)}.`;
+  }
+  return null;
+}
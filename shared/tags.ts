@@ -0,0 +1,131 @@
+/**
+ * Tags
+ *
+ * Discourse tags are short lowercase names attached to a topic. Which tags
+ * a Byte may carry depends on the site (tagging on, how many, how long) and
+ * on its Teret: a category can require a minimum number of tags and some
+ * tags from a tag group. /tags/filter/search.json applies the tag group
+ * rules server-side and reports a required group the selection hasn't met
+ * yet, so these helpers only parse that and check what the client can.
+ */
+
+export interface TagSuggestion {
+  name: string;
+  // Topics using the tag
+  count: number;
+}
+
+export interface RequiredTagGroup {
+  name: string;
+  minCount: number;
+}
+
+export interface TagSearchResult {
+  results: TagSuggestion[];
+  // A group the selected tags still need tags from; results come from it
+  requiredGroup: RequiredTagGroup | null;
+}
+
+export interface CategoryTagRules {
+  minimumTags: number;
+  requiredGroups: RequiredTagGroup[];
+}
+
+export interface TagLimits {
+  maxTags: number;
+  maxTagLength: number;
+  minimumTags?: number;
+  requiredGroup?: RequiredTagGroup | null;
+}
+
+// Characters Discourse strips from tag names (DiscourseTagging::TAGS_FILTER_REGEXP)
+const TAG_FILTER = /[\/\?#\[\]@!\$&'\(\)\*\+,;=\.%\\`^\s|\{\}"<>]+/g;
+
+/**
+ * Clean a typed tag the way Discourse does: lowercase, spaces become
+ * dashes, reserved characters dropped, cut to the site's maximum length
+ */
+export function normalizeTagName(value: string, maxLength?: number): string {
+  const name = value
+    .toLowerCase()
+    .trim()
+    .replace(/^#+/, '')
+    .replace(/\s+/g, '-')
+    .replace(TAG_FILTER, '')
+    .replace(/-{2,}/g, '-');
+  return maxLength && maxLength > 0 ? name.slice(0, maxLength) : name;
+}
+
+/**
+ * Tag names from a topic's `tags`, which newer Discourse versions may send
+ * as `{ name }` objects instead of strings
+ */
+export function readTagNames(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((tag) => (typeof tag === 'string' ? tag : typeof tag?.name === 'string' ? tag.name : ''))
+    .filter((name) => name.length > 0);
+}
+
+function readGroup(value: any): RequiredTagGroup | null {
+  const name = typeof value?.name === 'string' ? value.name : null;
+  if (!name) return null;
+  const minCount = Number(value.min_count ?? value.minCount ?? 1);
+  return { name, minCount: Number.isFinite(minCount) && minCount > 0 ? minCount : 1 };
+}
+
+/**
+ * Suggestions and the unmet required group from /tags/filter/search.json
+ */
+export function parseTagSearch(payload: any): TagSearchResult {
+  const results: TagSuggestion[] = (Array.isArray(payload?.results) ? payload.results : [])
+    .map((result: any) => ({
+      name: String(result?.name ?? result?.id ?? result?.text ?? ''),
+      count: Number(result?.count) || 0,
+    }))
+    .filter((result: TagSuggestion) => result.name.length > 0);
+
+  return { results, requiredGroup: readGroup(payload?.required_tag_group) };
+}
+
+/**
+ * A category's tag requirements. Newer sites list required tag groups,
+ * older ones name a single group with a minimum.
+ */
+export function parseCategoryTagRules(category: any): CategoryTagRules {
+  const minimumTags = Number(category?.minimum_required_tags) || 0;
+
+  let requiredGroups: RequiredTagGroup[] = [];
+  if (Array.isArray(category?.required_tag_groups)) {
+    requiredGroups = category.required_tag_groups
+      .map(readGroup)
+      .filter((group: RequiredTagGroup | null): group is RequiredTagGroup => group !== null);
+  } else if (typeof category?.required_tag_group_name === 'string' && category.required_tag_group_name) {
+    requiredGroups = [
+      readGroup({ name: category.required_tag_group_name, min_count: category.min_tags_from_required_group })!,
+    ];
+  }
+
+  return { minimumTags, requiredGroups };
+}
+
+/**
+ * Why a set of tags can't be posted, or null when it can
+ */
+export function validateTags(tags: string[], limits: TagLimits): string | null {
+  if (tags.length > limits.maxTags) {
+    return `You can add at most ${limits.maxTags} ${limits.maxTags === 1 ? 'tag' : 'tags'}`;
+  }
+  if (tags.some((tag) => tag.length > limits.maxTagLength)) {
+    return `Tags must be at most ${limits.maxTagLength} characters`;
+  }
+  const minimumTags = limits.minimumTags ?? 0;
+  if (tags.length < minimumTags) {
+    return `This Teret needs at least ${minimumTags} ${minimumTags === 1 ? 'tag' : 'tags'}`;
+  }
+  if (limits.requiredGroup) {
+    const { name, minCount } = limits.requiredGroup;
+    return `Add at least ${minCount} ${minCount === 1 ? 'tag' : 'tags'} from ${name}`;
+  }
+  return null;
+}
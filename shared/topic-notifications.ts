@@ -0,0 +1,79 @@
+/**
+ * Topic notification levels
+ *
+ * Each Byte has a per-user Discourse topic notification level. Discourse
+ * also records why the level was set (notifications_reason_id), which
+ * decides whether replying may move the Byte to the user's
+ * "when I post in a topic" level.
+ */
+
+import { TOPIC_NOTIFICATION_LEVELS, TopicNotificationLevel } from './discourseApi';
+
+export interface TopicNotificationLevelOption {
+  level: TopicNotificationLevel;
+  label: string;
+  description: string;
+}
+
+// TopicUser.notification_reasons in Discourse core (the ones the app sets)
+export const TOPIC_NOTIFICATION_REASONS = {
+  userChanged: 2,
+  createdPost: 4,
+} as const;
+
+// Same order and wording as the Discourse web picker
+export const TOPIC_NOTIFICATION_LEVEL_OPTIONS: TopicNotificationLevelOption[] = [
+  {
+    level: TOPIC_NOTIFICATION_LEVELS.watching,
+    label: 'Watching',
+    description: 'Get notified of every new reply, with a count of new replies.',
+  },
+  {
+    level: TOPIC_NOTIFICATION_LEVELS.tracking,
+    label: 'Tracking',
+    description: 'Show a count of new replies; notify on mentions and replies to you.',
+  },
+  {
+    level: TOPIC_NOTIFICATION_LEVELS.regular,
+    label: 'Normal',
+    description: 'Only notify when someone mentions or replies to you.',
+  },
+  {
+    level: TOPIC_NOTIFICATION_LEVELS.muted,
+    label: 'Muted',
+    description: 'Never notify, and hide this Byte from Latest.',
+  },
+];
+
+/**
+ * A topic's notification_level as a known level; anything else is Normal
+ */
+export function toTopicNotificationLevel(value: unknown): TopicNotificationLevel {
+  return typeof value === 'number' && value >= 0 && value <= 3
+    ? (value as TopicNotificationLevel)
+    : TOPIC_NOTIFICATION_LEVELS.regular;
+}
+
+export function getTopicNotificationLevelOption(level: number): TopicNotificationLevelOption {
+  return (
+    TOPIC_NOTIFICATION_LEVEL_OPTIONS.find((option) => option.level === level) ??
+    TOPIC_NOTIFICATION_LEVEL_OPTIONS[2]
+  );
+}
+
+/**
+ * The level a Byte ends up at after the user replies, mirroring
+ * TopicUser.auto_notification: a level nobody chose yet moves to the reply
+ * level, and Tracking moves up to Watching. A level the user picked
+ * themselves (Normal, Muted) is left alone, and nothing is lowered.
+ */
+export function getLevelAfterReply(
+  current: { level: TopicNotificationLevel; reasonId: number | null },
+  whenReplying: TopicNotificationLevel
+): TopicNotificationLevel {
+  if (current.reasonId === null) return whenReplying;
+  if (current.level > TOPIC_NOTIFICATION_LEVELS.regular && current.level < whenReplying) {
+    return whenReplying;
+  }
+  return current.level;
+}
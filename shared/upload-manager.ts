@@ -0,0 +1,405 @@
+/**
+ * Upload Manager - Sends files to Discourse with progress, cancel and retry
+ *
+ * Each file is prepared on the device (HEIC converted, large images
+ * downscaled), checked against the site's upload rules, then sent to
+ * /uploads.json. On sites that upload directly to S3, large files go through
+ * the multipart endpoints one part at a time. Failed attempts caused by the
+ * network or the server are retried with backoff; a retried multipart upload
+ * resumes after the last part that went through.
+ */
+
+import {
+  DiscourseApiResponse,
+  DiscourseUpload,
+  MultipartUploadSession,
+  UploadType,
+  discourseApi,
+} from './discourseApi';
+import { SiteSettings, parseSiteSettings } from './site-settings';
+import {
+  MAX_CONCURRENT_UPLOADS,
+  MultipartPart,
+  PreparedUpload,
+  UPLOAD_MAX_ATTEMPTS,
+  UPLOAD_MAX_RETRY_DELAY,
+  UPLOAD_RETRY_DELAY,
+  UploadItem,
+  UploadSource,
+  getMultipartParts,
+  getUploadRetryDelay,
+  getUploadValidationError,
+  isRetryableUploadFailure,
+  isSettledUpload,
+  shouldUseMultipart,
+} from './uploads';
+import { fileUploadTransport } from './upload-transport';
+import { logger } from './logger';
+
+export type UploadProgressCallback = (bytesSent: number) => void;
+
+/**
+ * Everything that touches files or the network directly
+ */
+export interface UploadTransport {
+  prepare(source: UploadSource, settings: SiteSettings, uploadType: UploadType): Promise<PreparedUpload>;
+  // Single request to /uploads.json
+  send(
+    file: PreparedUpload,
+    uploadType: UploadType,
+    onProgress: UploadProgressCallback,
+    signal: AbortSignal
+  ): Promise<DiscourseApiResponse<DiscourseUpload>>;
+  // PUT one part to its presigned URL; resolves with the part's ETag
+  sendPart(
+    file: PreparedUpload,
+    part: MultipartPart,
+    url: string,
+    onProgress: UploadProgressCallback,
+    signal: AbortSignal
+  ): Promise<DiscourseApiResponse<string>>;
+  // Delete files created while preparing
+  discard(file: PreparedUpload): Promise<void>;
+}
+
+export interface UploadManagerOptions {
+  getSettings?: () => Promise<SiteSettings>;
+  maxAttempts?: number;
+  retryDelay?: number;
+  maxRetryDelay?: number;
+  maxConcurrent?: number;
+}
+
+export type UploadListener = (item: UploadItem) => void;
+
+interface MultipartState {
+  session: MultipartUploadSession;
+  etags: Map<number, string>;
+}
+
+// Per-upload state that doesn't belong in the public item
+interface UploadRuntime {
+  controller: AbortController | null;
+  prepared: PreparedUpload | null;
+  multipart: MultipartState | null;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+async function loadSiteSettings(): Promise<SiteSettings> {
+  const response = await discourseApi.getSiteSettings();
+  return response.data || parseSiteSettings();
+}
+
+function createUploadId(): string {
+  return `upload-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export class UploadManager {
+  private items = new Map<string, UploadItem>();
+  private runtime = new Map<string, UploadRuntime>();
+  private listeners = new Set<UploadListener>();
+  private active = 0;
+  private getSettings: () => Promise<SiteSettings>;
+  private maxAttempts: number;
+  private retryDelay: number;
+  private maxRetryDelay: number;
+  private maxConcurrent: number;
+
+  constructor(private transport: UploadTransport, options: UploadManagerOptions = {}) {
+    this.getSettings = options.getSettings || loadSiteSettings;
+    this.maxAttempts = options.maxAttempts ?? UPLOAD_MAX_ATTEMPTS;
+    this.retryDelay = options.retryDelay ?? UPLOAD_RETRY_DELAY;
+    this.maxRetryDelay = options.maxRetryDelay ?? UPLOAD_MAX_RETRY_DELAY;
+    this.maxConcurrent = options.maxConcurrent ?? MAX_CONCURRENT_UPLOADS;
+  }
+
+  /**
+   * Queue files for upload. They start as soon as a slot is free.
+   */
+  add(sources: UploadSource[], uploadType: UploadType = 'composer'): UploadItem[] {
+    const added = sources.map((source) => {
+      const item: UploadItem = {
+        id: createUploadId(),
+        source,
+        uploadType,
+        status: 'queued',
+        progress: 0,
+        attempts: 0,
+      };
+      this.items.set(item.id, item);
+      this.runtime.set(item.id, { controller: null, prepared: null, multipart: null, retryTimer: null });
+      this.emit(item);
+      return item;
+    });
+    this.pump();
+    return added;
+  }
+
+  get(id: string): UploadItem | undefined {
+    return this.items.get(id);
+  }
+
+  /**
+   * Listen for changes to any upload. Returns a function that removes the listener.
+   */
+  subscribe(listener: UploadListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  cancel(id: string): void {
+    const item = this.items.get(id);
+    const runtime = this.runtime.get(id);
+    if (!item || !runtime || isSettledUpload(item.status)) return;
+
+    if (runtime.retryTimer) {
+      clearTimeout(runtime.retryTimer);
+      runtime.retryTimer = null;
+    }
+    runtime.controller?.abort();
+
+    if (runtime.multipart) {
+      discourseApi
+        .abortMultipartUpload(runtime.multipart.session.external_upload_identifier)
+        .catch(() => {});
+      runtime.multipart = null;
+    }
+
+    this.update(id, { status: 'canceled', error: undefined });
+    this.release(id);
+  }
+
+  /**
+   * Try a failed upload again, starting over with a fresh attempt count
+   */
+  retry(id: string): void {
+    const item = this.items.get(id);
+    if (!item || item.status !== 'failed') return;
+    this.update(id, { status: 'queued', attempts: 0, error: undefined });
+    this.pump();
+  }
+
+  /**
+   * Cancel (if still running) and forget an upload
+   */
+  remove(id: string): void {
+    this.cancel(id);
+    const runtime = this.runtime.get(id);
+    if (runtime?.prepared?.isTemporary) {
+      this.transport.discard(runtime.prepared).catch(() => {});
+    }
+    this.items.delete(id);
+    this.runtime.delete(id);
+  }
+
+  private emit(item: UploadItem): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(item);
+      } catch (error) {
+        logger.error('UploadManager: listener failed', error);
+      }
+    });
+  }
+
+  private update(id: string, changes: Partial<UploadItem>): UploadItem | undefined {
+    const current = this.items.get(id);
+    if (!current) return undefined;
+    const next = { ...current, ...changes };
+    this.items.set(id, next);
+    this.emit(next);
+    return next;
+  }
+
+  private pump(): void {
+    for (const item of this.items.values()) {
+      if (this.active >= this.maxConcurrent) return;
+      if (item.status === 'queued') {
+        this.active++;
+        this.run(item.id)
+          .catch((error) => {
+            logger.error('UploadManager: upload crashed', error, { id: item.id });
+            this.fail(item.id, 'Upload failed. Please try again.');
+          })
+          .finally(() => {
+            this.active--;
+            this.pump();
+          });
+      }
+    }
+  }
+
+  private isCurrent(id: string, controller: AbortController): boolean {
+    return !controller.signal.aborted && this.runtime.get(id)?.controller === controller;
+  }
+
+  private async run(id: string): Promise<void> {
+    const item = this.items.get(id);
+    const runtime = this.runtime.get(id);
+    if (!item || !runtime || item.status !== 'queued') return;
+
+    const controller = new AbortController();
+    runtime.controller = controller;
+    this.update(id, { status: 'preparing', attempts: item.attempts + 1, error: undefined });
+
+    const settings = await this.getSettings();
+    let prepared = runtime.prepared;
+    if (!prepared) {
+      try {
+        prepared = await this.transport.prepare(item.source, settings, item.uploadType);
+        runtime.prepared = prepared;
+      } catch (error) {
+        logger.error('UploadManager: failed to prepare file', error, { id });
+        if (this.isCurrent(id, controller)) {
+          this.fail(id, 'Could not read this file.');
+        }
+        return;
+      }
+    }
+    if (!this.isCurrent(id, controller)) {
+      // Canceled while preparing
+      this.release(id);
+      return;
+    }
+    const validationError = getUploadValidationError(settings, item.uploadType, {
+      name: prepared.name,
+      type: prepared.mimeType,
+      size: prepared.size,
+    });
+    if (validationError) {
+      this.fail(id, validationError);
+      return;
+    }
+
+    this.update(id, { status: 'uploading' });
+    const response = shouldUseMultipart(settings, prepared.size)
+      ? await this.sendMultipart(id, prepared, item.uploadType, controller)
+      : await this.transport.send(
+          prepared,
+          item.uploadType,
+          (sent) => this.reportProgress(id, controller, sent, prepared.size),
+          controller.signal
+        );
+    if (!this.isCurrent(id, controller)) return;
+
+    if (response.success && response.data) {
+      runtime.multipart = null;
+      this.update(id, { status: 'done', progress: 1, result: response.data });
+      this.release(id);
+      logger.info('UploadManager: upload finished', { id, uploadId: response.data.id });
+      return;
+    }
+
+    const attempts = this.items.get(id)?.attempts ?? 0;
+    if (isRetryableUploadFailure(response) && attempts < this.maxAttempts) {
+      const delay = getUploadRetryDelay(attempts, this.retryDelay, this.maxRetryDelay);
+      logger.warn('UploadManager: upload failed, retrying', { id, attempts, delay, error: response.error });
+      runtime.controller = null;
+      this.update(id, { status: 'retrying', error: response.error });
+      runtime.retryTimer = setTimeout(() => {
+        runtime.retryTimer = null;
+        if (this.items.get(id)?.status !== 'retrying') return;
+        this.update(id, { status: 'queued' });
+        this.pump();
+      }, delay);
+      return;
+    }
+
+    this.fail(id, response.error || 'Upload failed. Please try again.');
+  }
+
+  private async sendMultipart(
+    id: string,
+    file: PreparedUpload,
+    uploadType: UploadType,
+    controller: AbortController
+  ): Promise<DiscourseApiResponse<DiscourseUpload>> {
+    const runtime = this.runtime.get(id)!;
+
+    if (!runtime.multipart) {
+      const created = await discourseApi.createMultipartUpload({
+        fileName: file.name,
+        fileSize: file.size,
+        uploadType,
+      });
+      if (!created.success || !created.data) {
+        return { success: false, error: created.error || 'Failed to start upload', status: created.status };
+      }
+      runtime.multipart = { session: created.data, etags: new Map() };
+    }
+
+    const { session, etags } = runtime.multipart;
+    const parts = getMultipartParts(file.size);
+    const bytesDone = () =>
+      parts
+        .filter((part) => etags.has(part.partNumber))
+        .reduce((total, part) => total + part.length, 0);
+
+    const remaining = parts.filter((part) => !etags.has(part.partNumber));
+    if (remaining.length > 0) {
+      const presigned = await discourseApi.presignMultipartParts(
+        session.unique_identifier,
+        remaining.map((part) => part.partNumber)
+      );
+      if (!presigned.success || !presigned.data) {
+        return { success: false, error: presigned.error || 'Failed to start upload', status: presigned.status };
+      }
+
+      for (const part of remaining) {
+        if (!this.isCurrent(id, controller)) {
+          return { success: false, error: 'Upload canceled' };
+        }
+        const url = presigned.data.presigned_urls[String(part.partNumber)];
+        if (!url) {
+          return { success: false, error: 'Failed to start upload' };
+        }
+
+        const offset = bytesDone();
+        const sent = await this.transport.sendPart(
+          file,
+          part,
+          url,
+          (bytes) => this.reportProgress(id, controller, offset + bytes, file.size),
+          controller.signal
+        );
+        if (!sent.success || !sent.data) {
+          return { success: false, error: sent.error || 'Upload interrupted', status: sent.status };
+        }
+        etags.set(part.partNumber, sent.data);
+      }
+    }
+
+    return discourseApi.completeMultipartUpload(
+      session.unique_identifier,
+      parts.map((part) => ({ part_number: part.partNumber, etag: etags.get(part.partNumber)! }))
+    );
+  }
+
+  private reportProgress(id: string, controller: AbortController, sent: number, total: number): void {
+    if (!this.isCurrent(id, controller) || total <= 0) return;
+    // Hold back the last bit until the server has processed the file
+    this.update(id, { progress: Math.min(0.99, sent / total) });
+  }
+
+  private fail(id: string, error: string): void {
+    const runtime = this.runtime.get(id);
+    if (!runtime || this.items.get(id)?.status === 'canceled') return;
+    runtime.controller = null;
+    this.update(id, { status: 'failed', error });
+  }
+
+  // Free the temporary file once it's no longer needed
+  private release(id: string): void {
+    const runtime = this.runtime.get(id);
+    if (!runtime) return;
+    runtime.controller = null;
+    if (runtime.prepared?.isTemporary) {
+      this.transport.discard(runtime.prepared).catch(() => {});
+    }
+    runtime.prepared = null;
+  }
+}
+
+export const uploadManager = new UploadManager(fileUploadTransport);
@@ -0,0 +1,217 @@
+/**
+ * Upload transport for devices
+ *
+ * The file and network side of the upload manager: reads picked files,
+ * converts and downscales images with expo-image-manipulator, and sends
+ * files with expo-file-system upload tasks so progress can be reported and
+ * requests cancelled.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { DiscourseApiResponse, DiscourseUpload, UploadType, discourseApi } from './discourseApi';
+import { authHeaders } from '../lib/auth';
+import { getFileExtension, isImageExtension } from './site-settings';
+import { PreparedUpload, getImageOptimization, replaceExtension } from './uploads';
+import type { UploadTransport } from './upload-manager';
+import { logger } from './logger';
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  pdf: 'application/pdf',
+};
+
+function getMimeType(name: string, fallback?: string): string {
+  const extension = getFileExtension({ name });
+  return (extension && MIME_TYPES[extension]) || fallback || 'application/octet-stream';
+}
+
+async function getFileSize(uri: string): Promise<number> {
+  const info = await FileSystem.getInfoAsync(uri);
+  return info.exists && typeof info.size === 'number' ? info.size : 0;
+}
+
+async function requestHeaders(): Promise<Record<string, string>> {
+  // Upload tasks set their own multipart Content-Type
+  const { 'Content-Type': _contentType, ...headers } = await authHeaders();
+  return {
+    'X-Requested-With': 'XMLHttpRequest',
+    'User-Agent': 'Fomio/1.0',
+    ...headers,
+  };
+}
+
+function parseErrorMessage(body: string): string | undefined {
+  try {
+    const parsed = JSON.parse(body);
+    if (Array.isArray(parsed?.errors) && parsed.errors.length > 0) {
+      return parsed.errors.join(' ');
+    }
+    return typeof parsed?.error === 'string' ? parsed.error : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Run an upload task, cancelling it when `signal` aborts
+ */
+async function runUploadTask(
+  url: string,
+  fileUri: string,
+  options: FileSystem.FileSystemUploadOptions,
+  onProgress: (bytesSent: number) => void,
+  signal: AbortSignal
+): Promise<DiscourseApiResponse<FileSystem.FileSystemUploadResult>> {
+  const task = FileSystem.createUploadTask(url, fileUri, options, (data) => {
+    onProgress(data.totalBytesSent);
+  });
+  const abort = () => {
+    task.cancelAsync().catch(() => {});
+  };
+  signal.addEventListener('abort', abort);
+
+  try {
+    const result = await task.uploadAsync();
+    if (!result) {
+      return { success: false, error: 'Upload canceled' };
+    }
+    if (result.status < 200 || result.status >= 300) {
+      return {
+        success: false,
+        error: parseErrorMessage(result.body) || `Upload failed (${result.status})`,
+        status: result.status,
+      };
+    }
+    return { success: true, data: result };
+  } catch (error) {
+    // No status: the request never completed (offline, connection dropped)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error during upload',
+    };
+  } finally {
+    signal.removeEventListener('abort', abort);
+  }
+}
+
+export const fileUploadTransport: UploadTransport = {
+  async prepare(source, settings) {
+    const name = source.name || source.uri.split('/').pop() || 'upload';
+    const extension = getFileExtension({ name, type: source.mimeType });
+    const optimization = isImageExtension(extension)
+      ? getImageOptimization(settings, { extension, width: source.width, height: source.height })
+      : null;
+
+    if (optimization) {
+      const context = ImageManipulator.manipulate(source.uri);
+      if (optimization.resizeWidth) {
+        context.resize({ width: optimization.resizeWidth });
+      }
+      const image = await context.renderAsync();
+      const saved = await image.saveAsync({
+        compress: optimization.quality,
+        format: optimization.format === 'png' ? SaveFormat.PNG : SaveFormat.JPEG,
+      });
+      const preparedName = replaceExtension(name, optimization.format === 'png' ? 'png' : 'jpg');
+      logger.info('Upload: optimized image', {
+        from: { width: source.width, height: source.height, extension },
+        to: { width: saved.width, height: saved.height },
+      });
+
+      return {
+        uri: saved.uri,
+        name: preparedName,
+        mimeType: getMimeType(preparedName),
+        size: await getFileSize(saved.uri),
+        width: saved.width,
+        height: saved.height,
+        isTemporary: true,
+      };
+    }
+
+    return {
+      uri: source.uri,
+      name,
+      mimeType: source.mimeType || getMimeType(name),
+      size: source.size ?? (await getFileSize(source.uri)),
+      width: source.width,
+      height: source.height,
+      isTemporary: false,
+    };
+  },
+
+  async send(file: PreparedUpload, uploadType: UploadType, onProgress, signal) {
+    const response = await runUploadTask(
+      `${discourseApi.getBaseUrl()}/uploads.json`,
+      file.uri,
+      {
+        httpMethod: 'POST',
+        uploadType: FileSystem.FileSystemUploadType.MULTIPART,
+        fieldName: 'file',
+        mimeType: file.mimeType,
+        parameters: { type: uploadType, synchronous: 'true' },
+        headers: await requestHeaders(),
+      },
+      onProgress,
+      signal
+    );
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error, status: response.status };
+    }
+
+    try {
+      return { success: true, data: JSON.parse(response.data.body) as DiscourseUpload };
+    } catch {
+      return { success: false, error: 'Unexpected response from the server', status: response.data.status };
+    }
+  },
+
+  async sendPart(file, part, url, onProgress, signal) {
+    // Upload tasks send whole files, so each part is copied out to the cache first
+    const partUri = `${FileSystem.cacheDirectory}upload-part-${Date.now()}-${part.partNumber}`;
+    try {
+      const chunk = await FileSystem.readAsStringAsync(file.uri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position: part.start,
+        length: part.length,
+      });
+      await FileSystem.writeAsStringAsync(partUri, chunk, { encoding: FileSystem.EncodingType.Base64 });
+
+      const response = await runUploadTask(
+        url,
+        partUri,
+        { httpMethod: 'PUT', uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT },
+        onProgress,
+        signal
+      );
+      if (!response.success || !response.data) {
+        return { success: false, error: response.error, status: response.status };
+      }
+
+      const etag = response.data.headers.ETag || response.data.headers.etag || response.data.headers.Etag;
+      if (!etag) {
+        return { success: false, error: 'Upload part was not confirmed' };
+      }
+      return { success: true, data: etag };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to read file' };
+    } finally {
+      FileSystem.deleteAsync(partUri, { idempotent: true }).catch(() => {});
+    }
+  },
+
+  async discard(file) {
+    if (file.isTemporary) {
+      await FileSystem.deleteAsync(file.uri, { idempotent: true });
+    }
+  },
+};
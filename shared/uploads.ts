@@ -0,0 +1,221 @@
+/**
+ * Uploads
+ *
+ * Types and rules shared by the upload manager: what state an upload is
+ * in, when a failure is worth retrying, how a large file is split into
+ * parts for Discourse's multipart (direct to S3) endpoints, how images are
+ * optimized before upload and how a finished upload is written into a post.
+ */
+
+import type { DiscourseApiResponse, DiscourseUpload, UploadType } from './discourseApi';
+import {
+  SiteSettings,
+  formatFileSize,
+  getFileExtension,
+  getUploadError,
+  isImageExtension,
+} from './site-settings';
+
+export type UploadStatus =
+  | 'queued'
+  | 'preparing'
+  | 'uploading'
+  | 'retrying'
+  | 'done'
+  | 'failed'
+  | 'canceled';
+
+// A file picked on the device
+export interface UploadSource {
+  uri: string;
+  name?: string;
+  mimeType?: string;
+  size?: number;
+  width?: number;
+  height?: number;
+}
+
+// The file that is actually sent, after conversion and downscaling
+export interface PreparedUpload {
+  uri: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  width?: number;
+  height?: number;
+  // Created by the app (converted or resized); deleted once the upload settles
+  isTemporary: boolean;
+}
+
+export interface UploadItem {
+  id: string;
+  source: UploadSource;
+  uploadType: UploadType;
+  status: UploadStatus;
+  // 0-1
+  progress: number;
+  attempts: number;
+  error?: string;
+  result?: DiscourseUpload;
+}
+
+export interface MultipartPart {
+  partNumber: number;
+  start: number;
+  length: number;
+}
+
+// S3 needs parts of at least 5MB (except the last one)
+export const MULTIPART_PART_SIZE = 10 * 1024 * 1024;
+// Files above this go through multipart when the site uploads directly to S3
+export const MULTIPART_THRESHOLD = MULTIPART_PART_SIZE;
+
+export const MAX_CONCURRENT_UPLOADS = 3;
+export const UPLOAD_MAX_ATTEMPTS = 5;
+// First retry after a failed attempt; doubles up to the max
+export const UPLOAD_RETRY_DELAY = 2 * 1000;
+export const UPLOAD_MAX_RETRY_DELAY = 30 * 1000;
+
+const VIDEO_EXTENSIONS = ['mp4', 'mov', 'm4v', 'webm', 'ogv'];
+// Formats that are always re-encoded as JPEG (most servers and browsers can't show HEIC)
+const CONVERT_TO_JPEG_EXTENSIONS = ['heic', 'heif'];
+// Formats the optimizer may resize; GIFs are left alone to keep animation
+const RESIZABLE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp', 'heic', 'heif'];
+
+export function isSettledUpload(status: UploadStatus): boolean {
+  return status === 'done' || status === 'failed' || status === 'canceled';
+}
+
+export function isVideoExtension(extension: string | null): boolean {
+  return !!extension && VIDEO_EXTENSIONS.includes(extension);
+}
+
+/**
+ * Whether the site allows any video type, so the picker can offer videos
+ */
+export function allowsVideoUploads(settings: SiteSettings): boolean {
+  return (
+    settings.authorizedExtensions.includes('*') ||
+    settings.authorizedExtensions.some((extension) => isVideoExtension(extension))
+  );
+}
+
+/**
+ * Offline, timed out, rate limited or a server error: worth trying again.
+ * Validation errors (size, type, permissions) are not.
+ */
+export function isRetryableUploadFailure(response: DiscourseApiResponse<unknown>): boolean {
+  if (response.success) return false;
+  const status = response.status;
+  return status === undefined || status === 0 || status === 408 || status === 429 || status >= 500;
+}
+
+export function getUploadRetryDelay(
+  attempt: number,
+  baseDelay: number = UPLOAD_RETRY_DELAY,
+  maxDelay: number = UPLOAD_MAX_RETRY_DELAY
+): number {
+  return Math.min(maxDelay, baseDelay * Math.pow(2, Math.max(0, attempt - 1)));
+}
+
+export function shouldUseMultipart(settings: SiteSettings, size: number): boolean {
+  return settings.directS3Uploads && size > MULTIPART_THRESHOLD;
+}
+
+/**
+ * Byte ranges for each part of a multipart upload; part numbers start at 1
+ */
+export function getMultipartParts(size: number, partSize: number = MULTIPART_PART_SIZE): MultipartPart[] {
+  const parts: MultipartPart[] = [];
+  for (let start = 0, partNumber = 1; start < size; start += partSize, partNumber++) {
+    parts.push({ partNumber, start, length: Math.min(partSize, size - start) });
+  }
+  return parts;
+}
+
+export interface ImageOptimization {
+  // New width, when the image should be downscaled
+  resizeWidth?: number;
+  format: 'jpeg' | 'png';
+  // 0-1
+  quality: number;
+}
+
+/**
+ * How an image should be processed before upload, or null to send it as is.
+ * HEIC is always converted to JPEG; other images are downscaled to the
+ * site's target width when wider than its threshold.
+ */
+export function getImageOptimization(
+  settings: SiteSettings,
+  image: { extension: string | null; width?: number; height?: number }
+): ImageOptimization | null {
+  const { extension } = image;
+  if (!extension || !RESIZABLE_EXTENSIONS.includes(extension)) return null;
+
+  const mustConvert = CONVERT_TO_JPEG_EXTENSIONS.includes(extension);
+  const shouldResize =
+    settings.optimizeImages &&
+    !!image.width &&
+    image.width > settings.imageResizeThreshold &&
+    settings.imageResizeWidth < image.width;
+
+  if (!mustConvert && !shouldResize) return null;
+
+  return {
+    resizeWidth: shouldResize ? settings.imageResizeWidth : undefined,
+    format: extension === 'png' ? 'png' : 'jpeg',
+    quality: Math.min(1, Math.max(0.1, settings.imageEncodeQuality / 100)),
+  };
+}
+
+/**
+ * Swap a file name's extension ("IMG_0001.HEIC" -> "IMG_0001.jpg")
+ */
+export function replaceExtension(name: string, extension: string): string {
+  const base = name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : name;
+  return `${base || 'upload'}.${extension}`;
+}
+
+/**
+ * Check a prepared file against the site's rules for this kind of upload.
+ * Avatars and profile backgrounds must be images; post uploads follow the
+ * site's authorized extensions.
+ */
+export function getUploadValidationError(
+  settings: SiteSettings,
+  uploadType: UploadType,
+  file: { name?: string; type?: string; size?: number }
+): string | null {
+  if (uploadType === 'composer') {
+    return getUploadError(settings, file);
+  }
+
+  if (!isImageExtension(getFileExtension(file))) {
+    return 'Please choose an image.';
+  }
+  const maxBytes = settings.maxImageSizeKb * 1024;
+  if (file.size && file.size > maxBytes) {
+    return `File too large. Maximum size is ${formatFileSize(maxBytes)}.`;
+  }
+  return null;
+}
+
+/**
+ * Markdown for a finished upload, in the forms Discourse's composer writes
+ */
+export function getUploadMarkdown(upload: DiscourseUpload): string {
+  const name = (upload.original_filename || 'upload').replace(/[[\]|]/g, '');
+  const extension = upload.extension?.toLowerCase() || getFileExtension({ name: upload.original_filename });
+
+  if (isImageExtension(extension)) {
+    const size = upload.width && upload.height ? `|${upload.width}x${upload.height}` : '';
+    const alt = name.replace(/\.[^.]+$/, '') || 'image';
+    return `![${alt}${size}](${upload.url})`;
+  }
+  if (isVideoExtension(extension)) {
+    return `![${name}|video](${upload.short_url || upload.url})`;
+  }
+  const size = upload.human_filesize || (upload.filesize ? formatFileSize(upload.filesize) : '');
+  return `[${name}|attachment](${upload.short_url || upload.url})${size ? ` (${size})` : ''}`;
+}
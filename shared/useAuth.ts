@@ -1,17 +1,36 @@
 import { useEffect } from 'react';
 import * as SecureStore from 'expo-secure-store';
 import { create } from 'zustand';
-import Constants from 'expo-constants';
 import { discourseApi, AppUser } from './discourseApi';
 import { logger } from './logger';
 import { emitAuthEvent, onAuthEvent } from './auth-events';
 import { UserApiKeyManager } from './userApiKeyManager';
 import { resetOnboarding } from './onboardingStorage';
-
-const config = Constants.expoConfig?.extra || {};
+import {
+  getAccountStorageKey,
+  getActiveAccountId,
+  onActiveAccountChange,
+  useAccountStore,
+} from './accounts';
+import { removeAccountQueryCache } from './query-client';
 
 const AUTH_STORAGE_KEY = 'auth-token-v1';
 
+// The stored user belongs to the active account
+const authStorageKey = () => getAccountStorageKey(AUTH_STORAGE_KEY, getActiveAccountId());
+
+// Keep the switcher's name and avatar for the active account current
+const rememberAccountProfile = (user: AppUser) => {
+  const accountId = getActiveAccountId();
+  if (!accountId) return;
+  useAccountStore
+    .getState()
+    .updateAccount(accountId, { name: user.name, avatarUrl: user.avatar || undefined })
+    .catch(() => {
+      // Display-only data, ignore storage errors
+    });
+};
+
 export interface AuthState {
   user: AppUser | null;
   isLoading: boolean;
@@ -55,6 +74,7 @@ const useAuthStore = create<AuthStore>((set, get) => ({
       // But all authenticated operations require the User-Api-Key header
       const credentials = await UserApiKeyManager.getAuthCredentials();
       const hasStoredApiKey = !!(credentials?.key);
+      const accountId = getActiveAccountId();
       
       console.log('🔐 API Key check:', { hasStoredApiKey, keyLength: credentials?.key?.length || 0 });
       
@@ -76,7 +96,7 @@ const useAuthStore = create<AuthStore>((set, get) => ({
         console.log('✅ Valid API key found and verified via API call');
         // Try to load user data from storage first
         try {
-          const storedData = await SecureStore.getItemAsync(AUTH_STORAGE_KEY);
+          const storedData = await SecureStore.getItemAsync(authStorageKey());
           
           if (storedData) {
             const parsedData = JSON.parse(storedData);
@@ -85,7 +105,12 @@ const useAuthStore = create<AuthStore>((set, get) => ({
             if (validatedUser) {
               console.log('✅ Valid authorization and stored user found');
               set({ 
-                user: validatedUser, 
+                // Staff roles can change between sessions; take them from the fresh response
+                user: {
+                  ...validatedUser,
+                  admin: !!userResponse.data?.admin,
+                  moderator: !!userResponse.data?.moderator,
+                },
                 isAuthenticated: true, 
                 isLoading: false 
               });
@@ -103,10 +128,11 @@ const useAuthStore = create<AuthStore>((set, get) => ({
         if (userResponse.success && userResponse.data) {
           const appUser = mapDiscourseUserToAppUser(userResponse.data);
           try {
-            await SecureStore.setItemAsync(AUTH_STORAGE_KEY, JSON.stringify(appUser));
+            await SecureStore.setItemAsync(authStorageKey(), JSON.stringify(appUser));
           } catch (storageError: any) {
             console.warn('SecureStore error, auth not persisted:', storageError?.message || storageError);
           }
+          rememberAccountProfile(appUser);
           
           set({ 
             user: appUser, 
@@ -130,7 +156,7 @@ const useAuthStore = create<AuthStore>((set, get) => ({
         // Clear stored user data since API confirms no session, but keep API keys
         // (they might be valid but user just needs to authorize)
         try {
-          await SecureStore.deleteItemAsync(AUTH_STORAGE_KEY);
+          await SecureStore.deleteItemAsync(authStorageKey());
         } catch (storageError: any) {
           console.warn('Failed to clear auth storage:', storageError?.message || storageError);
         }
@@ -138,9 +164,9 @@ const useAuthStore = create<AuthStore>((set, get) => ({
         // 401/403 means API key is invalid/expired - clear everything
         console.log('🔒 API key invalid or expired (401/403), clearing authentication');
         try {
-          await SecureStore.deleteItemAsync(AUTH_STORAGE_KEY);
-          // Clear API keys since they're invalid
-          await UserApiKeyManager.clearApiKey();
+          await SecureStore.deleteItemAsync(getAccountStorageKey(AUTH_STORAGE_KEY, accountId));
+          // Clear the key since it's invalid; the account stays, signed out
+          await UserApiKeyManager.expireApiKey(accountId);
         } catch (storageError: any) {
           console.warn('Failed to clear auth storage:', storageError?.message || storageError);
         }
@@ -177,9 +203,22 @@ const validateStoredAuth = (data: any): AppUser | null => {
   }
 };
 
+// Switching accounts (or signing out of one while others stay signed in)
+// loads the user of the account that is now active
+onActiveAccountChange(() => {
+  const reload = async () => {
+    while (isLoadingAuth) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    hasLoadedAuth = false;
+    await useAuthStore.getState().loadStoredAuth();
+  };
+  reload().catch((error) => logger.error('Failed to load auth for the active account', error));
+});
+
 // Helper function to map DiscourseUser to AppUser
-const mapDiscourseUserToAppUser = (discourseUser: any): AppUser => {
-  const DISCOURSE_URL = config.DISCOURSE_BASE_URL || process.env.EXPO_PUBLIC_DISCOURSE_URL || 'https://meta.fomio.app';
+export const mapDiscourseUserToAppUser = (discourseUser: any): AppUser => {
+  const DISCOURSE_URL = discourseApi.getBaseUrl();
   return {
     id: discourseUser.id?.toString() || '0',
     username: discourseUser.username || 'unknown',
@@ -199,6 +238,8 @@ const mapDiscourseUserToAppUser = (discourseUser: any): AppUser => {
           year: 'numeric',
         })
       : 'Unknown',
+    admin: !!discourseUser.admin,
+    moderator: !!discourseUser.moderator,
   };
 };
 
@@ -294,7 +335,7 @@ export const useAuth = () => {
       if (isValid && userResponse.data) {
           const appUser = mapDiscourseUserToAppUser(userResponse.data);
           try {
-            await SecureStore.setItemAsync(AUTH_STORAGE_KEY, JSON.stringify(appUser));
+            await SecureStore.setItemAsync(authStorageKey(), JSON.stringify(appUser));
           } catch (storageError: any) {
             console.warn('SecureStore error:', storageError?.message || storageError);
           }
@@ -349,10 +390,11 @@ export const useAuth = () => {
   const setAuthenticatedUser = async (user: AppUser): Promise<void> => {
     try {
       try {
-        await SecureStore.setItemAsync(AUTH_STORAGE_KEY, JSON.stringify(user));
+        await SecureStore.setItemAsync(authStorageKey(), JSON.stringify(user));
       } catch (storageError: any) {
         logger.warn('useAuth: Failed to save auth to SecureStore:', storageError?.message || storageError);
       }
+      rememberAccountProfile(user);
       
       // Update global state atomically - this will trigger re-renders in all components
       useAuthStore.setState({ 
@@ -425,12 +467,13 @@ export const useAuth = () => {
   };
 
   const signOut = async (): Promise<void> => {
+    const accountId = getActiveAccountId();
     try {
       console.log('🚪 Signing out...');
       setLoading(true);
 
       try {
-        await SecureStore.deleteItemAsync(AUTH_STORAGE_KEY);
+        await SecureStore.deleteItemAsync(authStorageKey());
       } catch (storageError: any) {
         logger.warn('useAuth: Failed to clear auth storage:', storageError?.message || storageError);
       }
@@ -450,6 +493,18 @@ export const useAuth = () => {
       }
       
       console.log('✅ Sign out successful');
+      if (accountId) {
+        removeAccountQueryCache(accountId).catch(() => {
+          // Ignore cache cleanup errors
+        });
+      }
+
+      // Another account is still signed in and has taken over; its user is
+      // loaded by the account change listener
+      if (getActiveAccountId()) {
+        return;
+      }
+
       reset();
       try {
         await resetOnboarding();
@@ -462,7 +517,7 @@ export const useAuth = () => {
       console.error('❌ Sign out error:', error);
       logger.error('Sign out failed', error);
       try {
-        await SecureStore.deleteItemAsync(AUTH_STORAGE_KEY);
+        await SecureStore.deleteItemAsync(authStorageKey());
       } catch {
         // Ignore storage errors
       }
@@ -494,7 +549,7 @@ export const useAuth = () => {
       const updatedUser = { ...user, ...updates };
       
       try {
-        await SecureStore.setItemAsync(AUTH_STORAGE_KEY, JSON.stringify(updatedUser));
+        await SecureStore.setItemAsync(authStorageKey(), JSON.stringify(updatedUser));
       } catch (storageError: any) {
         logger.warn('useAuth: Failed to save profile to SecureStore:', storageError?.message || storageError);
       }
@@ -522,6 +577,7 @@ export const useAuth = () => {
       // CRITICAL FIX: Always try API call first, regardless of hasApiKey() check
       // This handles both legacy ('disc_user_api_key') and new ('fomio_user_api_key') storage
       // The authHeaders() function checks both locations, so if API works, we have valid auth
+      const accountId = getActiveAccountId();
       const userResponse = await discourseApi.getCurrentUser();
       const isValid = userResponse.success && !!userResponse.data;
       
@@ -534,8 +590,8 @@ export const useAuth = () => {
           // API key invalid - clear everything
           console.log('🔒 API key invalid during refresh, clearing authentication');
           try {
-            await SecureStore.deleteItemAsync(AUTH_STORAGE_KEY);
-            await UserApiKeyManager.clearApiKey();
+            await SecureStore.deleteItemAsync(getAccountStorageKey(AUTH_STORAGE_KEY, accountId));
+            await UserApiKeyManager.expireApiKey(accountId);
           } catch {
             // Ignore storage errors
           }
@@ -543,7 +599,7 @@ export const useAuth = () => {
           // Just no session - clear user data but keep API key
           console.log('📱 No active session during refresh');
           try {
-            await SecureStore.deleteItemAsync(AUTH_STORAGE_KEY);
+            await SecureStore.deleteItemAsync(authStorageKey());
           } catch {
             // Ignore storage errors
           }
@@ -561,10 +617,11 @@ export const useAuth = () => {
       if (userResponse.success && userResponse.data) {
         const appUser = mapDiscourseUserToAppUser(userResponse.data);
         try {
-          await SecureStore.setItemAsync(AUTH_STORAGE_KEY, JSON.stringify(appUser));
+          await SecureStore.setItemAsync(authStorageKey(), JSON.stringify(appUser));
         } catch (storageError: any) {
           logger.warn('useAuth: SecureStore error, auth not persisted:', storageError?.message || storageError);
         }
+        rememberAccountProfile(appUser);
         
         setUser(appUser);
         setAuthenticated(true);
@@ -586,7 +643,7 @@ export const useAuth = () => {
         // Shouldn't reach here if isValid check passed, but handle anyway
         console.log('⚠️ Unexpected state in refreshAuth - clearing auth');
         try {
-          await SecureStore.deleteItemAsync(AUTH_STORAGE_KEY);
+          await SecureStore.deleteItemAsync(authStorageKey());
         } catch {
           // Ignore storage errors
         }
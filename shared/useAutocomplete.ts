@@ -0,0 +1,207 @@
+/**
+ * useAutocomplete Hook - @mention and #hashtag suggestions for a text input
+ *
+ * Watches the text and cursor of a markdown input, looks up suggestions for
+ * the mention or hashtag being typed and inserts the chosen one. Hardware
+ * keyboards can move through the list with the arrow keys, pick with
+ * Enter/Tab and close it with Escape (see `handleKeyPress`).
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { NativeSyntheticEvent, Platform, TextInputKeyPressEventData } from 'react-native';
+import { discourseApi } from './discourseApi';
+import {
+  AutocompleteSuggestion,
+  HashtagCategory,
+  MAX_AUTOCOMPLETE_SUGGESTIONS,
+  MentionParticipant,
+  MentionUser,
+  applyAutocompleteSuggestion,
+  filterHashtagSuggestions,
+  getAutocompleteQuery,
+  moveHighlight,
+  rankMentionSuggestions,
+} from './autocomplete';
+import { logger } from './logger';
+
+const SEARCH_DELAY_MS = 250;
+const NO_PARTICIPANTS: MentionParticipant[] = [];
+const NO_CATEGORIES: HashtagCategory[] = [];
+const NO_USERNAMES: string[] = [];
+
+export interface UseAutocompleteOptions {
+  text: string;
+  selection: { start: number; end: number };
+  // Called with the new text and cursor position after a suggestion is inserted
+  onChange: (text: string, cursor: number) => void;
+  topicId?: number;
+  categoryId?: number;
+  // People already in the conversation, ranked first for mentions
+  participants?: MentionParticipant[];
+  categories?: HashtagCategory[];
+  // Usernames never to suggest (e.g. the current user)
+  exclude?: string[];
+  enabled?: boolean;
+}
+
+export function useAutocomplete({
+  text,
+  selection,
+  onChange,
+  topicId,
+  categoryId,
+  participants = NO_PARTICIPANTS,
+  categories = NO_CATEGORIES,
+  exclude = NO_USERNAMES,
+  enabled = true,
+}: UseAutocompleteOptions) {
+  const [results, setResults] = useState<MentionUser[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  // Start of a query the user closed; it stays closed until they start another
+  const [dismissedAt, setDismissedAt] = useState<number | null>(null);
+  // Set when Enter picked a suggestion, so the newline it types is ignored
+  const ignoreNextChange = useRef(false);
+
+  const query = useMemo(() => {
+    if (!enabled || selection.start !== selection.end) return null;
+    const current = getAutocompleteQuery(text, selection.end);
+    return current && current.start !== dismissedAt ? current : null;
+  }, [enabled, text, selection.start, selection.end, dismissedAt]);
+
+  const trigger = query?.trigger;
+  const term = query?.term;
+
+  // Debounced user search
+  useEffect(() => {
+    if (trigger !== '@' || term === undefined) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+    // Without a topic, an empty term has nothing to rank
+    if (!term && !topicId) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const response = await discourseApi.searchUsersForMention(term, {
+          topicId,
+          categoryId,
+          limit: MAX_AUTOCOMPLETE_SUGGESTIONS,
+        });
+        if (cancelled) return;
+        setResults(response.success && response.data ? response.data.users : []);
+      } catch (error) {
+        logger.error('Mention search failed', error);
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trigger, term, topicId, categoryId]);
+
+  const suggestions = useMemo<AutocompleteSuggestion[]>(() => {
+    if (!query) return [];
+    return query.trigger === '@'
+      ? rankMentionSuggestions(query.term, participants, results, { exclude })
+      : filterHashtagSuggestions(query.term, categories);
+  }, [query, participants, results, exclude, categories]);
+
+  // Highlight the first row whenever the list changes
+  useEffect(() => {
+    setHighlightedIndex(0);
+  }, [query?.start, query?.term, suggestions.length]);
+
+  const isOpen = !!query && suggestions.length > 0;
+
+  const select = useCallback(
+    (suggestion: AutocompleteSuggestion) => {
+      if (!query) return;
+      const next = applyAutocompleteSuggestion(text, query, suggestion);
+      onChange(next.text, next.cursor);
+    },
+    [query, text, onChange]
+  );
+
+  const dismiss = useCallback(() => {
+    if (query) setDismissedAt(query.start);
+  }, [query]);
+
+  // Reset a dismissal once its query is gone
+  useEffect(() => {
+    if (dismissedAt !== null && getAutocompleteQuery(text, selection.end)?.start !== dismissedAt) {
+      setDismissedAt(null);
+    }
+  }, [text, selection.end, dismissedAt]);
+
+  /**
+   * Key handling for hardware keyboards. Returns true when the key was used
+   * by the suggestion list.
+   */
+  const handleKeyPress = useCallback(
+    (event: NativeSyntheticEvent<TextInputKeyPressEventData>): boolean => {
+      if (!isOpen) return false;
+      const { key } = event.nativeEvent;
+      const preventDefault = () => (event as unknown as { preventDefault?: () => void }).preventDefault?.();
+
+      switch (key) {
+        case 'ArrowDown':
+        case 'ArrowUp':
+          preventDefault();
+          setHighlightedIndex((index) => moveHighlight(index, key === 'ArrowDown' ? 1 : -1, suggestions.length));
+          return true;
+        case 'Enter':
+        case 'Tab': {
+          preventDefault();
+          const suggestion = suggestions[Math.min(highlightedIndex, suggestions.length - 1)];
+          if (suggestion) {
+            // On web preventDefault stops the newline; native inputs still type it
+            ignoreNextChange.current = key === 'Enter' && Platform.OS !== 'web';
+            select(suggestion);
+          }
+          return true;
+        }
+        case 'Escape':
+          preventDefault();
+          dismiss();
+          return true;
+        default:
+          return false;
+      }
+    },
+    [isOpen, suggestions, highlightedIndex, select, dismiss]
+  );
+
+  /**
+   * Call first in onChangeText; returns true when the change is the newline
+   * typed by the Enter that picked a suggestion and should be dropped
+   */
+  const shouldIgnoreChange = useCallback(() => {
+    if (!ignoreNextChange.current) return false;
+    ignoreNextChange.current = false;
+    return true;
+  }, []);
+
+  return {
+    query,
+    suggestions,
+    isOpen,
+    isSearching,
+    highlightedIndex,
+    setHighlightedIndex,
+    select,
+    dismiss,
+    handleKeyPress,
+    shouldIgnoreChange,
+  };
+}
@@ -1,32 +1,97 @@
 import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Bookmark, BookmarkAutoDeletePreference, BOOKMARK_AUTO_DELETE } from './bookmarks';
+import { getAccountStorageKey } from './accounts';
+import { logger } from './logger';
 
-interface BookmarkStore {
-  bookmarks: Set<number>;
-  toggleBookmark: (topicId: number, isBookmarked: boolean) => void;
+const STORAGE_KEY = 'fomio_bookmarks';
+
+// What's known about a Byte's bookmark; empty when Discourse only said "bookmarked"
+export type SavedBookmark = Partial<Pick<Bookmark, 'id' | 'name' | 'reminderAt' | 'autoDeletePreference'>>;
+
+interface BookmarkSnapshot {
+  // Keyed by topic ID
+  bookmarks: Record<number, SavedBookmark>;
+  // Auto-delete choice the bookmark sheet starts from, the last one used
+  defaultAutoDeletePreference: BookmarkAutoDeletePreference;
+}
+
+interface BookmarkStore extends BookmarkSnapshot {
+  storageKey: string | null;
+  load: (accountId: string | null) => Promise<void>;
+  toggleBookmark: (topicId: number, isBookmarked: boolean, bookmark?: SavedBookmark | null) => void;
+  setDefaultAutoDeletePreference: (preference: BookmarkAutoDeletePreference) => void;
   isBookmarked: (topicId: number) => boolean;
+  getBookmark: (topicId: number) => SavedBookmark | undefined;
+}
+
+const EMPTY_SNAPSHOT: BookmarkSnapshot = {
+  bookmarks: {},
+  defaultAutoDeletePreference: BOOKMARK_AUTO_DELETE.clearReminder,
+};
+
+function toSavedBookmark(bookmark: SavedBookmark | Bookmark): SavedBookmark {
+  const { id, name, reminderAt, autoDeletePreference } = bookmark;
+  return { id, name, reminderAt, autoDeletePreference };
 }
 
 /**
  * Global bookmark sync store using Zustand
- * Keeps bookmark state synchronized across ByteCard, ByteBlogPage, and StickyActionBar
+ * Keeps bookmark state synchronized across ByteCard, ByteBlogPage, StickyActionBar
+ * and the bookmarks screen, and remembers it per account across restarts
  */
-export const useBookmarkStore = create<BookmarkStore>((set, get) => ({
-  bookmarks: new Set<number>(),
-  
-  toggleBookmark: (topicId: number, isBookmarked: boolean) => {
-    set((state) => {
-      const newBookmarks = new Set(state.bookmarks);
+export const useBookmarkStore = create<BookmarkStore>((set, get) => {
+  const commit = (snapshot: Partial<BookmarkSnapshot>) => {
+    set(snapshot);
+    const { storageKey, bookmarks, defaultAutoDeletePreference } = get();
+    if (!storageKey) return;
+    AsyncStorage.setItem(storageKey, JSON.stringify({ bookmarks, defaultAutoDeletePreference })).catch((error) => {
+      logger.warn('Bookmarks: Failed to save bookmark state', error);
+    });
+  };
+
+  return {
+    ...EMPTY_SNAPSHOT,
+    storageKey: null,
+
+    load: async (accountId) => {
+      const storageKey = getAccountStorageKey(STORAGE_KEY, accountId);
+      if (get().storageKey === storageKey) return;
+      set({ ...EMPTY_SNAPSHOT, storageKey });
+      try {
+        const stored = await AsyncStorage.getItem(storageKey);
+        const parsed: Partial<BookmarkSnapshot> = stored ? JSON.parse(stored) : {};
+        // Keep anything toggled while the stored state was loading
+        set((state) => ({
+          bookmarks: { ...(parsed.bookmarks ?? {}), ...state.bookmarks },
+          defaultAutoDeletePreference: parsed.defaultAutoDeletePreference ?? state.defaultAutoDeletePreference,
+        }));
+      } catch (error) {
+        logger.warn('Bookmarks: Failed to load bookmark state', error);
+      }
+    },
+
+    toggleBookmark: (topicId, isBookmarked, bookmark) => {
+      const bookmarks = { ...get().bookmarks };
       if (isBookmarked) {
-        newBookmarks.add(topicId);
+        bookmarks[topicId] = bookmark ? toSavedBookmark(bookmark) : bookmarks[topicId] ?? {};
       } else {
-        newBookmarks.delete(topicId);
+        delete bookmarks[topicId];
       }
-      return { bookmarks: newBookmarks };
-    });
-  },
-  
-  isBookmarked: (topicId: number) => {
-    return get().bookmarks.has(topicId);
-  },
-}));
+      commit({ bookmarks });
+    },
+
+    setDefaultAutoDeletePreference: (preference) => {
+      if (preference === get().defaultAutoDeletePreference) return;
+      commit({ defaultAutoDeletePreference: preference });
+    },
+
+    isBookmarked: (topicId: number) => {
+      return topicId in get().bookmarks;
+    },
 
+    getBookmark: (topicId: number) => {
+      return get().bookmarks[topicId];
+    },
+  };
+});
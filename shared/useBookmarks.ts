@@ -0,0 +1,120 @@
+/**
+ * useBookmarks Hook - The bookmarks screen with TanStack Query
+ *
+ * Uses useInfiniteQuery for the user's paginated bookmarks, searched by
+ * name, title and post text.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+import { discourseApi } from './discourseApi';
+import { Bookmark } from './bookmarks';
+import { queryKeys } from './query-client';
+
+export interface UseBookmarksReturn {
+  bookmarks: Bookmark[];
+  isLoading: boolean;
+  isRefreshing: boolean;
+  hasError: boolean;
+  errorMessage?: string;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+interface BookmarksPageData {
+  bookmarks: Bookmark[];
+  page: number;
+  hasMore: boolean;
+}
+
+/**
+ * Fetch one page of bookmarks from API
+ */
+async function fetchBookmarksPage(username: string, query: string, page: number): Promise<BookmarksPageData> {
+  const response = await discourseApi.getBookmarks(username, { query, page });
+
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to load bookmarks');
+  }
+
+  return {
+    bookmarks: response.data.bookmarks,
+    page,
+    hasMore: response.data.hasMore,
+  };
+}
+
+/**
+ * useBookmarks hook with TanStack Query
+ */
+export function useBookmarks(username: string | undefined, query: string = ''): UseBookmarksReturn {
+  const queryClient = useQueryClient();
+  const trimmedQuery = query.trim();
+  const bookmarksQueryKey = username
+    ? queryKeys.bookmarkList(username, trimmedQuery)
+    : ['bookmarks', null, trimmedQuery];
+
+  const {
+    data,
+    isLoading: isQueryLoading,
+    isFetching,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+    error,
+  } = useInfiniteQuery({
+    queryKey: bookmarksQueryKey,
+    queryFn: async ({ pageParam = 0 }) => {
+      if (!username) {
+        return { bookmarks: [], page: 0, hasMore: false };
+      }
+      return fetchBookmarksPage(username, trimmedQuery, pageParam);
+    },
+    getNextPageParam: (lastPage) => {
+      return lastPage.hasMore ? lastPage.page + 1 : undefined;
+    },
+    initialPageParam: 0,
+    enabled: !!username,
+    staleTime: 1 * 60 * 1000, // 1 minute - reminders go off and clear
+    gcTime: 15 * 60 * 1000, // 15 minutes
+  });
+
+  // Flatten pages into single array
+  const bookmarks = useMemo(() => {
+    const seen = new Set<number>();
+    return (data?.pages.flatMap((page) => page.bookmarks) ?? []).filter((bookmark) => {
+      if (seen.has(bookmark.id)) return false;
+      seen.add(bookmark.id);
+      return true;
+    });
+  }, [data]);
+
+  // Load more
+  const loadMore = useCallback(async () => {
+    if (hasNextPage && !isFetchingNextPage) {
+      await fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Refresh
+  const refresh = useCallback(async () => {
+    await queryClient.invalidateQueries({ queryKey: bookmarksQueryKey });
+  }, [queryClient, bookmarksQueryKey]);
+
+  const isLoading = isQueryLoading && bookmarks.length === 0;
+  const errorMessage = error instanceof Error ? error.message : error ? String(error) : undefined;
+
+  return {
+    bookmarks,
+    isLoading,
+    isRefreshing: isFetching && !isFetchingNextPage && bookmarks.length > 0,
+    hasError: !!error,
+    errorMessage,
+    hasMore: hasNextPage ?? false,
+    isLoadingMore: isFetchingNextPage,
+    loadMore,
+    refresh,
+  };
+}
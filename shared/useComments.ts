@@ -1,14 +1,25 @@
 /**
  * useComments Hook - Comments data fetching with TanStack Query
  * 
- * Uses useQuery for comments data with caching and mutation hooks
- * for comment operations (create, update, delete, like).
+ * Uses useInfiniteQuery to page through the byte's full post stream
+ * (forward and backward) and mutation hooks for comment operations
+ * (create, update, delete, like).
  */
 
-import { useState, useCallback } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useState, useCallback, useMemo } from 'react';
+import { useInfiniteQuery, useMutation, useQueryClient, InfiniteData } from '@tanstack/react-query';
 import { discourseApi, Comment } from './discourseApi';
 import { queryKeys } from './query-client';
+import {
+  CommentStreamPage,
+  CommentStreamWindow,
+  getLoadedRange,
+  getNextCommentWindow,
+  getPreviousCommentWindow,
+  flattenCommentPages,
+  updateCommentPages,
+  appendCommentToPages,
+} from './comment-stream';
 
 export interface CommentsState {
   comments: Comment[];
@@ -18,45 +29,109 @@ export interface CommentsState {
   isPosting: boolean;
 }
 
+export interface UseCommentsOptions {
+  // Start reading around this post instead of the top of the byte
+  nearPostNumber?: number;
+  // Hold off loading, e.g. until the starting post is known
+  enabled?: boolean;
+}
+
+/**
+ * Fetch the first chunk of comments along with the full post stream
+ */
+async function fetchInitialComments(byteId: number, nearPostNumber?: number): Promise<CommentStreamPage> {
+  const response = await discourseApi.getCommentStream(byteId, { nearPostNumber });
+  
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to load comments');
+  }
+  
+  const { comments, stream, byteTitle } = response.data;
+  return {
+    comments,
+    stream,
+    byteTitle,
+    ...getLoadedRange(stream, comments),
+  };
+}
+
 /**
- * Fetch comments for a byte/topic
+ * Fetch one window of the post stream
  */
-async function fetchComments(byteId: number): Promise<Comment[]> {
-  const response = await discourseApi.getComments(byteId);
+async function fetchCommentWindow(
+  byteId: number,
+  window: CommentStreamWindow,
+  stream: number[]
+): Promise<CommentStreamPage> {
+  const response = await discourseApi.getCommentsByIds(byteId, window.postIds, window.byteTitle);
   
   if (!response.success) {
     throw new Error(response.error || 'Failed to load comments');
   }
   
-  return response.data || [];
+  return {
+    comments: response.data || [],
+    stream,
+    start: window.start,
+    end: window.end,
+    byteTitle: window.byteTitle,
+  };
 }
 
 /**
  * useComments hook with TanStack Query
  * 
  * Provides comments data with caching, background refetching,
- * and mutation hooks for CRUD operations.
+ * stream paging and mutation hooks for CRUD operations.
  */
-export function useComments(byteId: number) {
+export function useComments(byteId: number, options: UseCommentsOptions = {}) {
+  const { nearPostNumber, enabled = true } = options;
   const queryClient = useQueryClient();
-  const commentsQueryKey = queryKeys.topicComments(byteId);
+  const commentsQueryKey = useMemo(
+    () => (nearPostNumber
+      ? [...queryKeys.topicComments(byteId), { nearPostNumber }]
+      : queryKeys.topicComments(byteId)),
+    [byteId, nearPostNumber]
+  );
 
-  // Query for fetching comments
+  // Query for paging through the post stream
   const {
-    data: comments = [],
+    data,
     isLoading: isQueryLoading,
     isFetching,
+    isFetchingNextPage,
+    isFetchingPreviousPage,
+    hasNextPage,
+    hasPreviousPage,
+    fetchNextPage,
+    fetchPreviousPage,
     error,
     refetch,
-  } = useQuery({
+  } = useInfiniteQuery({
     queryKey: commentsQueryKey,
-    queryFn: () => fetchComments(byteId),
-    enabled: byteId > 0,
+    queryFn: async ({ pageParam }): Promise<CommentStreamPage> => {
+      if (!pageParam) {
+        return fetchInitialComments(byteId, nearPostNumber);
+      }
+      // Windows only carry their own IDs; reuse the stream from the loaded pages
+      const cached = queryClient.getQueryData<InfiniteData<CommentStreamPage>>(commentsQueryKey);
+      const stream = cached?.pages[0]?.stream ?? pageParam.postIds;
+      return fetchCommentWindow(byteId, pageParam, stream);
+    },
+    initialPageParam: null as CommentStreamWindow | null,
+    getNextPageParam: (lastPage) => getNextCommentWindow(lastPage),
+    getPreviousPageParam: (firstPage) => getPreviousCommentWindow(firstPage),
+    enabled: enabled && byteId > 0,
     staleTime: 1 * 60 * 1000, // 1 minute - comments update frequently
     gcTime: 10 * 60 * 1000, // 10 minutes
     refetchOnMount: 'always',
   });
 
+  const comments = useMemo(() => flattenCommentPages(data), [data]);
+  const totalCount = data?.pages[0]?.stream.length ?? 0;
+  const lastPage = data?.pages[data.pages.length - 1];
+  const remainingCount = lastPage ? Math.max(lastPage.stream.length - lastPage.end, 0) : 0;
+
   // Create comment mutation
   const createMutation = useMutation({
     mutationFn: async ({ content, replyToPostNumber }: { content: string; replyToPostNumber?: number }) => {
@@ -74,8 +149,8 @@ export function useComments(byteId: number) {
     },
     onSuccess: (newComment) => {
       // Add the new comment to the cache
-      queryClient.setQueryData<Comment[]>(commentsQueryKey, (old) => 
-        old ? [...old, newComment] : [newComment]
+      queryClient.setQueryData<InfiniteData<CommentStreamPage>>(commentsQueryKey, (old) =>
+        appendCommentToPages(old, newComment)
       );
     },
   });
@@ -93,10 +168,12 @@ export function useComments(byteId: number) {
     },
     onSuccess: (updatedComment) => {
       // Update the comment in cache
-      queryClient.setQueryData<Comment[]>(commentsQueryKey, (old) =>
-        old?.map((comment) =>
-          comment.id === updatedComment.id ? updatedComment : comment
-        ) ?? []
+      queryClient.setQueryData<InfiniteData<CommentStreamPage>>(commentsQueryKey, (old) =>
+        updateCommentPages(old, (pageComments) =>
+          pageComments.map((comment) =>
+            comment.id === updatedComment.id ? updatedComment : comment
+          )
+        )
       );
     },
   });
@@ -114,8 +191,10 @@ export function useComments(byteId: number) {
     },
     onSuccess: (deletedId) => {
       // Remove the comment from cache
-      queryClient.setQueryData<Comment[]>(commentsQueryKey, (old) =>
-        old?.filter((comment) => comment.id !== deletedId) ?? []
+      queryClient.setQueryData<InfiniteData<CommentStreamPage>>(commentsQueryKey, (old) =>
+        updateCommentPages(old, (pageComments) =>
+          pageComments.filter((comment) => comment.id !== deletedId)
+        )
       );
     },
   });
@@ -136,19 +215,21 @@ export function useComments(byteId: number) {
       await queryClient.cancelQueries({ queryKey: commentsQueryKey });
       
       // Snapshot previous value
-      const previousComments = queryClient.getQueryData<Comment[]>(commentsQueryKey);
+      const previousComments = queryClient.getQueryData<InfiniteData<CommentStreamPage>>(commentsQueryKey);
       
       // Optimistically update
-      queryClient.setQueryData<Comment[]>(commentsQueryKey, (old) =>
-        old?.map((comment) =>
-          comment.id === commentId
-            ? {
-                ...comment,
-                isLiked: !comment.isLiked,
-                likeCount: comment.isLiked ? comment.likeCount - 1 : comment.likeCount + 1,
-              }
-            : comment
-        ) ?? []
+      queryClient.setQueryData<InfiniteData<CommentStreamPage>>(commentsQueryKey, (old) =>
+        updateCommentPages(old, (pageComments) =>
+          pageComments.map((comment) =>
+            comment.id === commentId
+              ? {
+                  ...comment,
+                  isLiked: !comment.isLiked,
+                  likeCount: comment.isLiked ? comment.likeCount - 1 : comment.likeCount + 1,
+                }
+              : comment
+          )
+        )
       );
       
       return { previousComments };
@@ -162,8 +243,8 @@ export function useComments(byteId: number) {
   });
 
   // Backward compatible methods
-  const refreshComments = useCallback(() => {
-    refetch();
+  const refreshComments = useCallback(async () => {
+    await refetch();
   }, [refetch]);
 
   const createComment = async (
@@ -217,11 +298,24 @@ export function useComments(byteId: number) {
   };
 
   const addComment = (newComment: Comment) => {
-    queryClient.setQueryData<Comment[]>(commentsQueryKey, (old) =>
-      old ? [...old, newComment] : [newComment]
+    queryClient.setQueryData<InfiniteData<CommentStreamPage>>(commentsQueryKey, (old) =>
+      appendCommentToPages(old, newComment)
     );
   };
 
+  // Stream paging
+  const loadMore = useCallback(async () => {
+    if (hasNextPage && !isFetchingNextPage) {
+      await fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const loadPrevious = useCallback(async () => {
+    if (hasPreviousPage && !isFetchingPreviousPage) {
+      await fetchPreviousPage();
+    }
+  }, [hasPreviousPage, isFetchingPreviousPage, fetchPreviousPage]);
+
   const clearError = () => {
     // Error is managed by React Query, this is a no-op for compatibility
   };
@@ -247,7 +341,7 @@ export function useComments(byteId: number) {
 
   // Compute states for backward compatibility
   const isLoading = isQueryLoading && comments.length === 0;
-  const isRefreshing = isFetching && comments.length > 0;
+  const isRefreshing = isFetching && !isFetchingNextPage && !isFetchingPreviousPage && comments.length > 0;
   const errorMessage = error instanceof Error ? error.message : error ? String(error) : null;
 
   return {
@@ -266,6 +360,14 @@ export function useComments(byteId: number) {
     getReplies,
     getTopLevelComments,
     getThreadedComments,
+    totalCount,
+    remainingCount,
+    hasMore: hasNextPage ?? false,
+    hasPrevious: hasPreviousPage ?? false,
+    isLoadingMore: isFetchingNextPage,
+    isLoadingPrevious: isFetchingPreviousPage,
+    loadMore,
+    loadPrevious,
   };
 }
 
@@ -1,6 +1,7 @@
 import { useState, useCallback } from 'react';
 import { discourseApi } from './discourseApi';
 import { logger } from './logger';
+import { useSiteSettings } from './useSiteSettings';
 
 export interface CreateByteData {
   title: string;
@@ -31,6 +32,7 @@ export function useCreateByte() {
     isCreating: false,
     hasError: false,
   });
+  const { settings } = useSiteSettings();
 
   const validateByteData = useCallback((data: CreateByteData): string[] => {
     const errors: string[] = [];
@@ -38,19 +40,19 @@ export function useCreateByte() {
     // Validate title
     if (!data.title || data.title.trim().length === 0) {
       errors.push('Title is required');
-    } else if (data.title.length < 5) {
-      errors.push('Title must be at least 5 characters long');
-    } else if (data.title.length > 255) {
-      errors.push('Title must be less than 255 characters');
+    } else if (data.title.length < settings.minTopicTitleLength) {
+      errors.push(`Title must be at least ${settings.minTopicTitleLength} characters long`);
+    } else if (data.title.length > settings.maxTopicTitleLength) {
+      errors.push(`Title must be at most ${settings.maxTopicTitleLength} characters`);
     }
 
     // Validate content
     if (!data.content || data.content.trim().length === 0) {
       errors.push('Content is required');
-    } else if (data.content.length < 10) {
-      errors.push('Content must be at least 10 characters long');
-    } else if (data.content.length > 50000) {
-      errors.push('Content must be less than 50,000 characters');
+    } else if (data.content.length < settings.minFirstPostLength) {
+      errors.push(`Content must be at least ${settings.minFirstPostLength} characters long`);
+    } else if (data.content.length > settings.maxPostLength) {
+      errors.push(`Content must be at most ${settings.maxPostLength} characters`);
     }
 
     // Validate category (hub) - optional but if provided, should be valid
@@ -61,22 +63,22 @@ export function useCreateByte() {
     }
 
     // Validate tags
-    if (data.tags && data.tags.length > 5) {
-      errors.push('Maximum 5 tags allowed');
+    if (data.tags && data.tags.length > settings.maxTagsPerTopic) {
+      errors.push(`Maximum ${settings.maxTagsPerTopic} tags allowed`);
     }
 
     // Validate tag length
     if (data.tags) {
       for (const tag of data.tags) {
-        if (tag.length > 20) {
-          errors.push('Tags must be less than 20 characters');
+        if (tag.length > settings.maxTagLength) {
+          errors.push(`Tags must be at most ${settings.maxTagLength} characters`);
           break;
         }
       }
     }
 
     return errors;
-  }, []);
+  }, [settings]);
 
   const createByte = useCallback(async (data: CreateByteData): Promise<CreateByteResult> => {
     try {
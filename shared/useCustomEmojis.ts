@@ -0,0 +1,36 @@
+/**
+ * useCustomEmojis Hook - The site's custom emoji
+ *
+ * Loads /emojis.json once and keeps it cached; returns an empty list
+ * until it arrives (or when offline), so pickers can show the standard
+ * emoji straight away.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { discourseApi } from './discourseApi';
+import { queryKeys } from './query-client';
+import { CustomEmoji } from './emoji';
+
+const NO_CUSTOM_EMOJIS: CustomEmoji[] = [];
+
+async function fetchCustomEmojis(): Promise<CustomEmoji[]> {
+  const response = await discourseApi.getCustomEmojis();
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to load emoji');
+  }
+  return response.data;
+}
+
+export function useCustomEmojis(enabled: boolean = true) {
+  const query = useQuery({
+    queryKey: queryKeys.customEmojis(),
+    queryFn: fetchCustomEmojis,
+    enabled,
+    staleTime: 30 * 60 * 1000,
+  });
+
+  return {
+    customEmojis: query.data ?? NO_CUSTOM_EMOJIS,
+    isLoading: query.isLoading,
+  };
+}
@@ -24,8 +24,9 @@ export interface UseDiscourseUserReturn {
   updateSettings: (updates: Partial<UserSettings>) => Promise<boolean>;
   changePassword: (currentPassword: string, newPassword: string) => Promise<boolean>;
   changeEmail: (newEmail: string) => Promise<boolean>;
-  uploadAvatar: (imageFile: { uri: string; type?: string; name?: string; fileSize?: number }) => Promise<boolean>;
-  uploadProfileHeader: (imageFile: { uri: string; type?: string; name?: string; fileSize?: number }) => Promise<boolean>;
+  // Take an image uploaded with the matching upload type (see useUploads)
+  setAvatarUpload: (uploadId: number) => Promise<boolean>;
+  setProfileHeaderUpload: (uploadId: number) => Promise<boolean>;
   
   // Utility
   isAuthenticated: boolean;
@@ -320,22 +321,22 @@ export function useDiscourseUser(username?: string): UseDiscourseUserReturn {
     }
   }, [user?.username, refreshUser]);
 
-  // Upload avatar
-  const uploadAvatar = useCallback(async (imageFile: { uri: string; type?: string; name?: string; fileSize?: number }): Promise<boolean> => {
+  // Use an uploaded image as the avatar
+  const setAvatarUpload = useCallback(async (uploadId: number): Promise<boolean> => {
     if (!user?.username) return false;
     
     setUpdating(true);
     setError(null);
     
     try {
-      const response = await discourseApi.uploadAvatar(user.username, imageFile);
+      const response = await discourseApi.pickUploadedAvatar(user.username, uploadId);
       
       if (response.success) {
         // Refresh user data to get updated avatar
         await refreshUser();
         return true;
       } else {
-        setError(response.error || 'Failed to upload avatar');
+        setError(response.error || 'Failed to update avatar');
         return false;
       }
     } catch (err) {
@@ -346,21 +347,21 @@ export function useDiscourseUser(username?: string): UseDiscourseUserReturn {
     }
   }, [user?.username, refreshUser]);
 
-  // Upload profile/hero header
-  const uploadProfileHeader = useCallback(async (imageFile: { uri: string; type?: string; name?: string; fileSize?: number }): Promise<boolean> => {
+  // Use an uploaded image as the profile/hero header
+  const setProfileHeaderUpload = useCallback(async (uploadId: number): Promise<boolean> => {
     if (!user?.username) return false;
     
     setUpdating(true);
     setError(null);
     
     try {
-      const response = await discourseApi.uploadProfileHeader(user.username, imageFile);
+      const response = await discourseApi.setProfileBackground(user.username, uploadId);
       
       if (response.success) {
         await refreshUser();
         return true;
       } else {
-        setError(response.error || 'Failed to upload cover image');
+        setError(response.error || 'Failed to update cover image');
         return false;
       }
     } catch (err) {
@@ -453,8 +454,8 @@ export function useDiscourseUser(username?: string): UseDiscourseUserReturn {
     updateSettings,
     changePassword,
     changeEmail,
-    uploadAvatar,
-    uploadProfileHeader,
+    setAvatarUpload,
+    setProfileHeaderUpload,
     
     // Utility
     isAuthenticated,
@@ -0,0 +1,17 @@
+/**
+ * useFlagTypes Hook - Flag types offered by the site
+ *
+ * Reads the post flag types from the cached site settings; falls back to
+ * the Discourse defaults while loading or offline.
+ */
+
+import { useSiteSettings } from './useSiteSettings';
+
+export function useFlagTypes(enabled: boolean = true) {
+  const { settings, isLoading } = useSiteSettings(enabled);
+
+  return {
+    flagTypes: settings.flagTypes,
+    isLoading,
+  };
+}
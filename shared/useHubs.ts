@@ -5,9 +5,15 @@
  * since hubs rarely change.
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { discourseApi, Hub } from './discourseApi';
+import { useEffect, useCallback, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  discourseApi,
+  Hub,
+  CATEGORY_NOTIFICATION_LEVELS,
+  CategoryNotificationLevel,
+} from './discourseApi';
+import { extractCategoryNotificationLevels, isSubscribedLevel } from './category-notifications';
 import { onAuthEvent } from './auth-events';
 import { queryKeys } from './query-client';
 
@@ -247,75 +253,157 @@ export function useHub(hubId: number) {
   };
 }
 
-// Hook for hub subscription management (unchanged - local state)
+/**
+ * Fetch the current user's notification level for every category
+ */
+async function fetchCategoryNotificationLevels(): Promise<Record<number, CategoryNotificationLevel>> {
+  const response = await discourseApi.getCategories(true);
+
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to load subscriptions');
+  }
+
+  return extractCategoryNotificationLevels(response.data.category_list?.categories || []);
+}
+
+/**
+ * useHubSubscription hook - Hub/Teret subscriptions backed by Discourse
+ * category notification levels
+ *
+ * Subscribing sets the category to Watching, unsubscribing back to Normal.
+ * `setLevel` exposes the full range (watching, tracking, watching first post,
+ * normal, muted) for the level picker.
+ */
 export function useHubSubscription() {
-  const [subscriptions, setSubscriptions] = useState<Set<number>>(new Set());
+  const queryClient = useQueryClient();
+  // Stable, so the auth listener below isn't resubscribed every render
+  const levelsQueryKey = useMemo(() => queryKeys.categoryNotificationLevels(), []);
 
+  const { data: levels = {}, isLoading } = useQuery({
+    queryKey: levelsQueryKey,
+    queryFn: fetchCategoryNotificationLevels,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+
+  // Levels belong to the signed-in user
   useEffect(() => {
-    loadSubscriptions();
-  }, []);
+    const unsubscribe = onAuthEvent(() => {
+      queryClient.invalidateQueries({ queryKey: levelsQueryKey });
+    });
+    return () => {
+      unsubscribe();
+    };
+  }, [queryClient, levelsQueryKey]);
 
-  const loadSubscriptions = async () => {
-    try {
-      // TODO: Load from AsyncStorage or API
-      setSubscriptions(new Set());
-    } catch (error) {
-      console.error('Failed to load subscriptions:', error);
-    }
-  };
+  const levelMutation = useMutation({
+    mutationFn: async ({ categoryId, level }: { categoryId: number; level: CategoryNotificationLevel }) => {
+      const response = await discourseApi.setCategoryNotificationLevel(categoryId, level);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to update subscription');
+      }
+      return { categoryId, level };
+    },
+    onMutate: async ({ categoryId, level }) => {
+      // Cancel any outgoing refetches
+      await queryClient.cancelQueries({ queryKey: levelsQueryKey });
+
+      // Snapshot the previous value
+      const previousLevels = queryClient.getQueryData<Record<number, CategoryNotificationLevel>>(levelsQueryKey);
+
+      // Optimistically update the cache
+      queryClient.setQueryData<Record<number, CategoryNotificationLevel>>(levelsQueryKey, (old) => ({
+        ...(old || {}),
+        [categoryId]: level,
+      }));
+      queryClient.setQueryData<Hub[]>(queryKeys.hubs(), (old) =>
+        old?.map((hub) =>
+          hub.id === categoryId
+            ? { ...hub, notificationLevel: level, isSubscribed: isSubscribedLevel(level) }
+            : hub
+        )
+      );
 
-  const isSubscribed = (hubId: number): boolean => {
-    return subscriptions.has(hubId);
-  };
+      return { previousLevels };
+    },
+    onError: (_err, _variables, context) => {
+      // Rollback on error
+      if (context?.previousLevels) {
+        queryClient.setQueryData(levelsQueryKey, context.previousLevels);
+      }
+      queryClient.invalidateQueries({ queryKey: queryKeys.hubs() });
+    },
+    onSuccess: ({ categoryId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.hub(categoryId) });
+    },
+  });
 
-  const subscribe = async (hubId: number): Promise<{ success: boolean; error?: string }> => {
-    try {
-      // TODO: Call API to subscribe
-      setSubscriptions((prev) => new Set([...prev, hubId]));
-      return { success: true };
-    } catch (error) {
-      console.error('Subscribe error:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to subscribe',
-      };
-    }
-  };
+  const getLevel = useCallback(
+    (categoryId: number): CategoryNotificationLevel => {
+      return levels[categoryId] ?? CATEGORY_NOTIFICATION_LEVELS.regular;
+    },
+    [levels]
+  );
 
-  const unsubscribe = async (hubId: number): Promise<{ success: boolean; error?: string }> => {
-    try {
-      // TODO: Call API to unsubscribe
-      setSubscriptions((prev) => {
-        const newSet = new Set(prev);
-        newSet.delete(hubId);
-        return newSet;
-      });
-      return { success: true };
-    } catch (error) {
-      console.error('Unsubscribe error:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to unsubscribe',
-      };
-    }
-  };
+  const isSubscribed = useCallback(
+    (hubId: number): boolean => {
+      return isSubscribedLevel(getLevel(hubId));
+    },
+    [getLevel]
+  );
 
-  const toggleSubscription = async (
-    hubId: number
-  ): Promise<{ success: boolean; error?: string }> => {
-    if (isSubscribed(hubId)) {
-      return unsubscribe(hubId);
-    } else {
-      return subscribe(hubId);
-    }
-  };
+  const setLevel = useCallback(
+    async (
+      categoryId: number,
+      level: CategoryNotificationLevel
+    ): Promise<{ success: boolean; error?: string }> => {
+      try {
+        await levelMutation.mutateAsync({ categoryId, level });
+        return { success: true };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to update subscription',
+        };
+      }
+    },
+    [levelMutation]
+  );
 
-  const getSubscribedHubs = (): number[] => {
-    return Array.from(subscriptions);
-  };
+  const subscribe = useCallback(
+    (hubId: number) => setLevel(hubId, CATEGORY_NOTIFICATION_LEVELS.watching),
+    [setLevel]
+  );
+
+  const unsubscribe = useCallback(
+    (hubId: number) => setLevel(hubId, CATEGORY_NOTIFICATION_LEVELS.regular),
+    [setLevel]
+  );
+
+  const toggleSubscription = useCallback(
+    (hubId: number): Promise<{ success: boolean; error?: string }> => {
+      return isSubscribed(hubId) ? unsubscribe(hubId) : subscribe(hubId);
+    },
+    [isSubscribed, subscribe, unsubscribe]
+  );
+
+  const subscriptions = useMemo(
+    () =>
+      Object.entries(levels)
+        .filter(([, level]) => isSubscribedLevel(level))
+        .map(([categoryId]) => Number(categoryId)),
+    [levels]
+  );
+
+  const getSubscribedHubs = useCallback((): number[] => subscriptions, [subscriptions]);
 
   return {
-    subscriptions: Array.from(subscriptions),
+    subscriptions,
+    levels,
+    isLoading,
+    isUpdating: levelMutation.isPending,
+    getLevel,
+    setLevel,
     isSubscribed,
     subscribe,
     unsubscribe,
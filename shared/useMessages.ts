@@ -0,0 +1,128 @@
+/**
+ * useMessages Hook - Private message folders with TanStack Query
+ * 
+ * Uses useInfiniteQuery for the paginated inbox, sent and archive lists.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+import { discourseApi, PrivateMessageFolder } from './discourseApi';
+import { topicToMessageSummary, MessageSummary } from './adapters/topicToMessageSummary';
+import { queryKeys } from './query-client';
+
+export interface UseMessagesReturn {
+  messages: MessageSummary[];
+  isLoading: boolean;
+  isRefreshing: boolean;
+  hasError: boolean;
+  errorMessage?: string;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+interface MessagesPageData {
+  messages: MessageSummary[];
+  page: number;
+  hasMore: boolean;
+}
+
+/**
+ * Fetch one page of a message folder from API
+ */
+async function fetchMessagesPage(
+  username: string,
+  folder: PrivateMessageFolder,
+  page: number
+): Promise<MessagesPageData> {
+  const response = await discourseApi.getPrivateMessages(username, folder, page);
+
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to load messages');
+  }
+
+  const users: any[] = response.data.users || [];
+  const usersById = new Map<number, any>(users.map((user) => [user.id, user]));
+  const topics: any[] = response.data.topic_list?.topics || [];
+
+  return {
+    messages: topics.map((topic) => topicToMessageSummary(topic, usersById)),
+    page,
+    hasMore: !!response.data.topic_list?.more_topics_url,
+  };
+}
+
+/**
+ * useMessages hook with TanStack Query
+ */
+export function useMessages(
+  username: string | undefined,
+  folder: PrivateMessageFolder = 'inbox'
+): UseMessagesReturn {
+  const queryClient = useQueryClient();
+  const messagesQueryKey = username ? queryKeys.messages(username, folder) : ['messages', null, folder];
+
+  const {
+    data,
+    isLoading: isQueryLoading,
+    isFetching,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+    error,
+  } = useInfiniteQuery({
+    queryKey: messagesQueryKey,
+    queryFn: async ({ pageParam = 0 }) => {
+      if (!username) {
+        return { messages: [], page: 0, hasMore: false };
+      }
+      return fetchMessagesPage(username, folder, pageParam);
+    },
+    getNextPageParam: (lastPage) => {
+      return lastPage.hasMore ? lastPage.page + 1 : undefined;
+    },
+    initialPageParam: 0,
+    enabled: !!username,
+    staleTime: 1 * 60 * 1000, // 1 minute - conversations move quickly
+    gcTime: 15 * 60 * 1000, // 15 minutes
+  });
+
+  // Flatten pages into single array (a conversation can move between pages as it's bumped)
+  const messages = useMemo(() => {
+    const seen = new Set<number>();
+    return (data?.pages.flatMap((page) => page.messages) ?? []).filter((message) => {
+      if (seen.has(message.id)) return false;
+      seen.add(message.id);
+      return true;
+    });
+  }, [data]);
+
+  // Load more
+  const loadMore = useCallback(async () => {
+    if (hasNextPage && !isFetchingNextPage) {
+      await fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Refresh
+  const refresh = useCallback(async () => {
+    await queryClient.invalidateQueries({ queryKey: messagesQueryKey });
+  }, [queryClient, messagesQueryKey]);
+
+  // Compute states for backward compatibility
+  const isLoading = isQueryLoading && messages.length === 0;
+  const errorMessage = error instanceof Error ? error.message : error ? String(error) : undefined;
+
+  return {
+    messages,
+    isLoading,
+    isRefreshing: isFetching && !isFetchingNextPage && messages.length > 0,
+    hasError: !!error,
+    errorMessage,
+    hasMore: hasNextPage ?? false,
+    isLoadingMore: isFetchingNextPage,
+    loadMore,
+    refresh,
+  };
+}
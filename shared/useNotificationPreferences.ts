@@ -45,7 +45,7 @@ export interface NotificationPreferences {
   // Like frequency (maps to Discourse like_notification_frequency)
   likeFrequency: 'always' | 'daily' | 'weekly' | 'never';
   
-  // Push settings (future - stored but not functional yet)
+  // Push settings (delivered through the push relay, see shared/push.ts)
   pushEnabled: boolean;
   pushSound: boolean;
   pushAlert: boolean;
@@ -68,6 +68,13 @@ const defaultPreferences: NotificationPreferences = {
   pushAlert: false,
 };
 
+// Every mounted instance follows changes made through any other one
+const preferenceListeners = new Set<(preferences: NotificationPreferences) => void>();
+
+function broadcastPreferences(preferences: NotificationPreferences) {
+  preferenceListeners.forEach((listener) => listener(preferences));
+}
+
 /**
  * Load notification preferences from Discourse API
  * Returns ONLY likeFrequency (Discourse does not provide push settings)
@@ -134,6 +141,13 @@ export function useNotificationPreferences(): UseNotificationPreferencesReturn {
   const [isSyncing, setIsSyncing] = useState(false);
   const { user, isAuthenticated } = useAuth();
 
+  useEffect(() => {
+    preferenceListeners.add(setPreferences);
+    return () => {
+      preferenceListeners.delete(setPreferences);
+    };
+  }, []);
+
   // Load preferences from AsyncStorage on mount, then sync from Discourse if authenticated
   useEffect(() => {
     const loadPreferences = async () => {
@@ -238,7 +252,7 @@ export function useNotificationPreferences(): UseNotificationPreferencesReturn {
       const newPreferences = { ...preferences, [key]: value };
       
       // Optimistic update: Save locally immediately
-      setPreferences(newPreferences);
+      broadcastPreferences(newPreferences);
       await savePreferences(newPreferences);
 
       // If setting is likeFrequency and user is authenticated, sync to Discourse
@@ -262,7 +276,7 @@ export function useNotificationPreferences(): UseNotificationPreferencesReturn {
 
   // Reset to default preferences
   const resetToDefaults = useCallback(async () => {
-    setPreferences(defaultPreferences);
+    broadcastPreferences(defaultPreferences);
     await savePreferences(defaultPreferences);
   }, [savePreferences]);
 
@@ -1,15 +1,26 @@
 /**
  * useNotifications Hook - Notifications data fetching with TanStack Query
  * 
- * Uses useQuery for notifications data with short stale time since
- * notifications are time-sensitive.
+ * Uses useInfiniteQuery for notifications data with short stale time since
+ * notifications are time-sensitive; older pages load on demand.
  */
 
-import { useCallback, useEffect, useMemo } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { InfiniteData, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { discourseApi } from './discourseApi';
 import { onAuthEvent } from './auth-events';
 import { queryKeys } from './query-client';
+import { useAccounts } from './accounts';
+import { normalizeNotificationType } from '../lib/utils/notifications';
+import {
+  addMarkedUnread,
+  applyMarkedUnread,
+  getNextNotificationsOffset,
+  loadMarkedUnread,
+  mergeNotificationPages,
+  removeMarkedUnread,
+  saveMarkedUnread,
+} from './notifications';
 
 /**
  * Notification type matching Discourse API structure
@@ -45,60 +56,19 @@ export interface UseNotificationsReturn {
   hasError: boolean;
   errorMessage: string | null;
   loadNotifications: () => Promise<void>;
+  // Older notifications, while Discourse has more
+  loadMore: () => void;
+  hasMore: boolean;
+  isLoadingMore: boolean;
   markAsRead: (notificationId: number) => Promise<void>;
+  // Kept on this device; see shared/notifications
+  markAsUnread: (notificationId: number) => Promise<void>;
   markAllAsRead: () => Promise<void>;
   removeNotification: (notificationId: number) => Promise<void>;
   clearNotifications: () => Promise<void>;
   unreadCount: number;
 }
 
-/**
- * Normalize Discourse notification_type to string type
- */
-function normalizeNotificationType(notificationType: number | string | undefined): string {
-  if (typeof notificationType === 'string') {
-    return notificationType;
-  }
-
-  if (typeof notificationType !== 'number') {
-    return 'unknown';
-  }
-
-  const typeMap: Record<number, string> = {
-    1: 'mentioned',
-    2: 'replied',
-    3: 'quoted',
-    4: 'edited',
-    5: 'liked',
-    6: 'private_message',
-    7: 'invited_to_private_message',
-    8: 'invitee_accepted',
-    9: 'posted',
-    10: 'moved_post',
-    11: 'linked',
-    12: 'granted_badge',
-    13: 'invited_to_topic',
-    14: 'custom',
-    15: 'group_mentioned',
-    16: 'group_message_summary',
-    17: 'watching_first_post',
-    18: 'topic_reminder',
-    19: 'liked_consolidated',
-    20: 'post_approved',
-    21: 'code_review_commit_approved',
-    22: 'membership_request_accepted',
-    23: 'membership_request_consolidated',
-    24: 'bookmark_reminder',
-    25: 'reaction',
-    26: 'votes_released',
-    27: 'event_reminder',
-    28: 'event_invitation',
-    29: 'new_features',
-  };
-
-  return typeMap[notificationType] || 'unknown';
-}
-
 /**
  * Transform Discourse notification to app Notification format
  */
@@ -117,11 +87,30 @@ function transformDiscourseNotification(discourseNotif: any): Notification {
   };
 }
 
+interface NotificationsPage {
+  notifications: Notification[];
+  nextOffset?: number;
+}
+
+type NotificationsData = InfiniteData<NotificationsPage, number>;
+
+// Applies a change to every loaded page
+function updateNotificationPages(
+  data: NotificationsData | undefined,
+  change: (notification: Notification) => Notification
+): NotificationsData | undefined {
+  if (!data) return data;
+  return {
+    ...data,
+    pages: data.pages.map((page) => ({ ...page, notifications: page.notifications.map(change) })),
+  };
+}
+
 /**
- * Fetch notifications from API
+ * Fetch a page of notifications from API
  */
-async function fetchNotifications(): Promise<Notification[]> {
-  const response = await discourseApi.getNotifications();
+async function fetchNotifications(offset: number): Promise<NotificationsPage> {
+  const response = await discourseApi.getNotifications({ offset });
 
   if (!response.success || !response.data) {
     throw new Error(response.error || 'Failed to load notifications');
@@ -147,7 +136,10 @@ async function fetchNotifications(): Promise<Notification[]> {
     return dateB - dateA;
   });
 
-  return transformed;
+  return {
+    notifications: transformed,
+    nextOffset: getNextNotificationsOffset(response.data, offset, rawNotifications.length),
+  };
 }
 
 /**
@@ -159,22 +151,71 @@ async function fetchNotifications(): Promise<Notification[]> {
 export function useNotifications(): UseNotificationsReturn {
   const queryClient = useQueryClient();
   const notificationsQueryKey = queryKeys.notifications();
+  const { activeAccountId } = useAccounts();
+  const [markedUnread, setMarkedUnread] = useState<number[]>([]);
+  const markedUnreadRef = useRef<number[]>([]);
 
   const {
-    data: notifications = [],
+    data,
     isLoading: isQueryLoading,
-    isFetching,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
     error,
     refetch,
-  } = useQuery({
+  } = useInfiniteQuery({
     queryKey: notificationsQueryKey,
-    queryFn: fetchNotifications,
+    queryFn: ({ pageParam }) => fetchNotifications(pageParam),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextOffset,
     staleTime: 30 * 1000, // 30 seconds - notifications are time-sensitive
     gcTime: 5 * 60 * 1000, // 5 minutes
     refetchOnMount: 'always',
     refetchInterval: 60 * 1000, // Poll every minute when app is active
   });
 
+  // Notifications this account marked unread on this device
+  useEffect(() => {
+    let cancelled = false;
+    markedUnreadRef.current = [];
+    setMarkedUnread([]);
+    loadMarkedUnread(activeAccountId)
+      .then((loaded) => {
+        if (cancelled) return;
+        markedUnreadRef.current = loaded;
+        setMarkedUnread(loaded);
+      })
+      .catch((loadError) => {
+        console.error('Failed to load notifications marked unread:', loadError);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeAccountId]);
+
+  const updateMarkedUnread = useCallback(
+    async (change: (current: number[]) => number[]) => {
+      const next = change(markedUnreadRef.current);
+      if (next.length === markedUnreadRef.current.length && next.every((id, i) => id === markedUnreadRef.current[i])) {
+        return;
+      }
+      markedUnreadRef.current = next;
+      setMarkedUnread(next);
+      try {
+        await saveMarkedUnread(activeAccountId, next);
+      } catch (saveError) {
+        console.error('Failed to save notifications marked unread:', saveError);
+      }
+    },
+    [activeAccountId]
+  );
+
+  const notifications = useMemo(
+    () => applyMarkedUnread(mergeNotificationPages(data?.pages.map((page) => page.notifications) ?? []), markedUnread),
+    [data, markedUnread]
+  );
+
   // Mark as read mutation with optimistic update
   const markAsReadMutation = useMutation({
     mutationFn: async (notificationId: number) => {
@@ -186,10 +227,10 @@ export function useNotifications(): UseNotificationsReturn {
     },
     onMutate: async (notificationId) => {
       await queryClient.cancelQueries({ queryKey: notificationsQueryKey });
-      const previousNotifications = queryClient.getQueryData<Notification[]>(notificationsQueryKey);
+      const previousNotifications = queryClient.getQueryData<NotificationsData>(notificationsQueryKey);
 
-      queryClient.setQueryData<Notification[]>(notificationsQueryKey, (old) =>
-        old?.map((n) => (n.id === notificationId ? { ...n, isRead: true } : n)) ?? []
+      queryClient.setQueryData<NotificationsData>(notificationsQueryKey, (old) =>
+        updateNotificationPages(old, (n) => (n.id === notificationId ? { ...n, isRead: true } : n))
       );
 
       return { previousNotifications };
@@ -211,10 +252,10 @@ export function useNotifications(): UseNotificationsReturn {
     },
     onMutate: async () => {
       await queryClient.cancelQueries({ queryKey: notificationsQueryKey });
-      const previousNotifications = queryClient.getQueryData<Notification[]>(notificationsQueryKey);
+      const previousNotifications = queryClient.getQueryData<NotificationsData>(notificationsQueryKey);
 
-      queryClient.setQueryData<Notification[]>(notificationsQueryKey, (old) =>
-        old?.map((n) => ({ ...n, isRead: true })) ?? []
+      queryClient.setQueryData<NotificationsData>(notificationsQueryKey, (old) =>
+        updateNotificationPages(old, (n) => ({ ...n, isRead: true }))
       );
 
       return { previousNotifications };
@@ -244,26 +285,41 @@ export function useNotifications(): UseNotificationsReturn {
     await refetch();
   }, [refetch]);
 
-  // Mark single notification as read
+  const loadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Mark single notification as read; one only marked unread here is already read on the server
   const markAsRead = useCallback(
     async (notificationId: number) => {
+      const wasMarkedUnread = markedUnreadRef.current.includes(notificationId);
+      await updateMarkedUnread((current) => removeMarkedUnread(current, [notificationId]));
+      if (wasMarkedUnread) return;
       try {
         await markAsReadMutation.mutateAsync(notificationId);
       } catch (error) {
         console.error('Error marking notification as read:', error);
       }
     },
-    [markAsReadMutation]
+    [markAsReadMutation, updateMarkedUnread]
+  );
+
+  const markAsUnread = useCallback(
+    (notificationId: number) => updateMarkedUnread((current) => addMarkedUnread(current, [notificationId])),
+    [updateMarkedUnread]
   );
 
   // Mark all notifications as read
   const markAllAsRead = useCallback(async () => {
+    await updateMarkedUnread(() => []);
     try {
       await markAllAsReadMutation.mutateAsync();
     } catch (error) {
       console.error('Error marking all notifications as read:', error);
     }
-  }, [markAllAsReadMutation]);
+  }, [markAllAsReadMutation, updateMarkedUnread]);
 
   // Calculate unread count
   const unreadCount = useMemo(
@@ -275,10 +331,18 @@ export function useNotifications(): UseNotificationsReturn {
   const removeNotification = useCallback(
     async (notificationId: number) => {
       await queryClient.cancelQueries({ queryKey: notificationsQueryKey });
-      const previousNotifications = queryClient.getQueryData<Notification[]>(notificationsQueryKey) || [];
-
-      queryClient.setQueryData<Notification[]>(notificationsQueryKey, (old) =>
-        old?.filter((n) => n.id !== notificationId) ?? []
+      const previousNotifications = queryClient.getQueryData<NotificationsData>(notificationsQueryKey);
+
+      queryClient.setQueryData<NotificationsData>(notificationsQueryKey, (old) =>
+        old
+          ? {
+              ...old,
+              pages: old.pages.map((page) => ({
+                ...page,
+                notifications: page.notifications.filter((n) => n.id !== notificationId),
+              })),
+            }
+          : old
       );
 
       // No server call yet; return previous state for potential rollback
@@ -289,8 +353,10 @@ export function useNotifications(): UseNotificationsReturn {
 
   const clearNotifications = useCallback(async () => {
     await queryClient.cancelQueries({ queryKey: notificationsQueryKey });
-    const previousNotifications = queryClient.getQueryData<Notification[]>(notificationsQueryKey) || [];
-    queryClient.setQueryData<Notification[]>(notificationsQueryKey, () => []);
+    const previousNotifications = queryClient.getQueryData<NotificationsData>(notificationsQueryKey);
+    queryClient.setQueryData<NotificationsData>(notificationsQueryKey, (old) =>
+      old ? { ...old, pages: old.pages.map((page) => ({ ...page, notifications: [] })) } : old
+    );
     return { previousNotifications };
   }, [queryClient, notificationsQueryKey]);
 
@@ -304,7 +370,11 @@ export function useNotifications(): UseNotificationsReturn {
     hasError: !!error,
     errorMessage,
     loadNotifications,
+    loadMore,
+    hasMore: !!hasNextPage,
+    isLoadingMore: isFetchingNextPage,
     markAsRead,
+    markAsUnread,
     markAllAsRead,
     removeNotification,
     clearNotifications,
@@ -1,6 +1,7 @@
 import { useState, useCallback } from 'react';
 import { discourseApi } from './discourseApi';
 import { logger } from './logger';
+import { offlineManager, isNetworkFailure } from './offline-support';
 
 export interface PostActionState {
   isLiked: boolean;
@@ -8,6 +9,8 @@ export interface PostActionState {
   likeCount: number;
   isLoading: boolean;
   error?: string;
+  // Last write was queued in the offline outbox instead of reaching the server
+  isQueued?: boolean;
 }
 
 export function usePostActions(
@@ -34,12 +37,17 @@ export function usePostActions(
         ? await discourseApi.unlikePost(postId)
         : await discourseApi.likePost(postId);
 
-      if (response.success) {
+      if (isNetworkFailure(response)) {
+        await offlineManager.queueAction(state.isLiked ? 'unlike_post' : 'like_post', { postId });
+      }
+
+      if (response.success || isNetworkFailure(response)) {
         setState(prev => ({
           ...prev,
           isLiked: !prev.isLiked,
           likeCount: prev.isLiked ? prev.likeCount - 1 : prev.likeCount + 1,
           isLoading: false,
+          isQueued: !response.success,
         }));
         logger.info(`Post ${postId} ${state.isLiked ? 'unliked' : 'liked'} successfully`);
       } else {
@@ -65,11 +73,16 @@ export function usePostActions(
         ? await discourseApi.unbookmarkPost(postId)
         : await discourseApi.bookmarkPost(postId);
 
-      if (response.success) {
+      if (isNetworkFailure(response)) {
+        await offlineManager.queueAction(state.isBookmarked ? 'unbookmark_post' : 'bookmark_post', { postId });
+      }
+
+      if (response.success || isNetworkFailure(response)) {
         setState(prev => ({
           ...prev,
           isBookmarked: !prev.isBookmarked,
           isLoading: false,
+          isQueued: !response.success,
         }));
         logger.info(`Post ${postId} ${state.isBookmarked ? 'unbookmarked' : 'bookmarked'} successfully`);
       } else {
@@ -85,7 +98,7 @@ export function usePostActions(
     }
   }, [postId, state.isBookmarked, state.isLoading]);
 
-  const createComment = useCallback(async (content: string, replyToPostNumber?: number) => {
+  const createComment = useCallback(async (content: string, replyToPostNumber?: number): Promise<boolean | 'queued'> => {
     if (state.isLoading) return false;
 
     setState(prev => ({ ...prev, isLoading: true, error: undefined }));
@@ -112,9 +125,19 @@ export function usePostActions(
       });
 
       if (response.success) {
-        setState(prev => ({ ...prev, isLoading: false }));
+        setState(prev => ({ ...prev, isLoading: false, isQueued: false }));
         logger.info(`Comment created successfully for topic ${topicId}`);
         return true;
+      } else if (isNetworkFailure(response)) {
+        // Offline - hand the reply to the outbox so it is posted on reconnect
+        await offlineManager.queueAction(
+          'create_reply',
+          { topicId, raw: content, replyToPostNumber },
+          { priority: 'high', maxRetries: 5 }
+        );
+        setState(prev => ({ ...prev, isLoading: false, isQueued: true }));
+        logger.info(`Comment queued offline for topic ${topicId}`);
+        return 'queued' as const;
       } else {
         // Extract detailed error message
         // Prioritize errors array over generic HTTP error messages
@@ -0,0 +1,99 @@
+/**
+ * usePostRevision Hook - One revision of a post with TanStack Query
+ *
+ * Loads /posts/{id}/revisions/{n}.json and parses its markdown diff into
+ * rows that the revision viewer renders inline or side by side.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { discourseApi } from './discourseApi';
+import { queryKeys } from './query-client';
+import {
+  DiffSegment,
+  RevisionDiffRow,
+  parseDiffSegments,
+  parseSideBySideMarkdown,
+} from './revision-diff';
+
+export interface PostRevision {
+  postId: number;
+  revision: number;
+  previousRevision: number | null;
+  nextRevision: number | null;
+  firstRevision: number | null;
+  lastRevision: number | null;
+  version: number;
+  versionCount: number;
+  author: {
+    username: string;
+    avatar: string;
+  };
+  createdAt: string;
+  editReason?: string;
+  titleDiff: DiffSegment[] | null;
+  bodyRows: RevisionDiffRow[];
+}
+
+/**
+ * Fetch and transform a post revision from API
+ */
+async function fetchPostRevision(
+  postId: number,
+  revision: number | 'latest'
+): Promise<PostRevision> {
+  const response = await discourseApi.getPostRevision(postId, revision);
+
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to load revision');
+  }
+
+  const data = response.data;
+  const bodyChanges = data.body_changes || {};
+
+  // Older servers only send the inline HTML diff - fall back to one row
+  const bodyRows: RevisionDiffRow[] = bodyChanges.side_by_side_markdown
+    ? parseSideBySideMarkdown(bodyChanges.side_by_side_markdown)
+    : bodyChanges.inline
+      ? [{ type: 'changed', before: null, after: parseDiffSegments(bodyChanges.inline) }]
+      : [];
+
+  return {
+    postId,
+    revision: data.current_revision,
+    previousRevision: data.previous_revision ?? null,
+    nextRevision: data.next_revision ?? null,
+    firstRevision: data.first_revision ?? null,
+    lastRevision: data.last_revision ?? null,
+    version: data.current_version ?? data.current_revision,
+    versionCount: data.version_count ?? data.current_revision,
+    author: {
+      username: data.username || 'unknown',
+      avatar: discourseApi.getAvatarUrl(data.avatar_template || '', 40),
+    },
+    createdAt: data.created_at,
+    editReason: data.edit_reason || undefined,
+    titleDiff: data.title_changes?.inline ? parseDiffSegments(data.title_changes.inline) : null,
+    bodyRows,
+  };
+}
+
+/**
+ * usePostRevision hook with TanStack Query
+ */
+export function usePostRevision(postId: number | null, revision: number | 'latest' = 'latest') {
+  const query = useQuery({
+    queryKey: postId ? queryKeys.postRevision(postId, revision) : ['post', null, 'revisions'],
+    queryFn: () => fetchPostRevision(postId!, revision),
+    enabled: !!postId,
+    // Past revisions never change
+    staleTime: revision === 'latest' ? 30 * 1000 : Infinity,
+  });
+
+  return {
+    revision: query.data ?? null,
+    isLoading: query.isLoading,
+    hasError: !!query.error,
+    errorMessage: query.error instanceof Error ? query.error.message : undefined,
+    refetch: query.refetch,
+  };
+}
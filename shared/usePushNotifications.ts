@@ -0,0 +1,142 @@
+/**
+ * usePushNotifications Hook - Push delivery for the signed-in account
+ *
+ * Mounted once at the root. Keeps the relay registration in step with the
+ * active account and the notification preferences, decides how pushes that
+ * arrive while the app is open are shown, and opens the Byte, message or
+ * profile a tapped push is about.
+ */
+
+import { useEffect, useRef } from 'react';
+import * as Notifications from 'expo-notifications';
+import { router } from 'expo-router';
+import { useAuth } from './auth-context';
+import { onAuthEvent } from './auth-events';
+import { findAccountForHost, getActiveAccountId, getActiveSiteUrl, getSiteHost, useAccountStore } from './accounts';
+import { DiscourseApiResponse } from './discourseApi';
+import { NotificationPreferences, useNotificationPreferences } from './useNotificationPreferences';
+import { UserApiKeyManager } from './userApiKeyManager';
+import { PushMessageData, PushRegistration, isPushAllowed, pushDataToNotification, readPushMessageData } from './push';
+import { pushManager } from './push-manager';
+import { getNotificationHref, getNotificationNavigationTarget } from '../lib/utils/notifications';
+import { logger } from './logger';
+
+/**
+ * Register the active account with the relay. Pass `prompt` when the user
+ * just turned push on, so the OS permission dialog may show.
+ */
+export async function registerPushForActiveAccount(
+  preferences: NotificationPreferences,
+  options: { prompt?: boolean } = {}
+): Promise<DiscourseApiResponse<PushRegistration | null>> {
+  const credentials = await UserApiKeyManager.getAuthCredentials();
+  if (!credentials?.clientId) {
+    return { success: false, error: 'Sign in to get push notifications' };
+  }
+  return pushManager.register(
+    { site: getActiveSiteUrl(), clientId: credentials.clientId, username: credentials.username },
+    preferences,
+    options
+  );
+}
+
+function openPush(data: PushMessageData) {
+  const target = getNotificationNavigationTarget(pushDataToNotification(data));
+  if (!target) {
+    router.push('/(tabs)/notifications' as any);
+    return;
+  }
+  const href = getNotificationHref(target);
+
+  // A push for another signed-in account opens in that account
+  const { accounts, activeAccountId } = useAccountStore.getState();
+  const account = findAccountForHost(accounts, getSiteHost(data.site), activeAccountId);
+  if (account && account.id !== getActiveAccountId()) {
+    logger.info('Push: Opening in another account', { accountId: account.id });
+    // Switching remounts the app; navigate once the new tree is up
+    useAccountStore
+      .getState()
+      .switchAccount(account.id)
+      .then(() => {
+        setTimeout(() => router.push(href as any), 150);
+      });
+    return;
+  }
+
+  router.push(href as any);
+}
+
+export function usePushNotifications() {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { preferences, isLoading: preferencesLoading } = useNotificationPreferences();
+  const preferencesRef = useRef(preferences);
+  preferencesRef.current = preferences;
+
+  // Pushes that arrive while the app is open follow the same toggles
+  useEffect(() => {
+    if (!pushManager.isConfigured()) return;
+    Notifications.setNotificationHandler({
+      handleNotification: async (notification) => {
+        const data = readPushMessageData(notification.request.content.data);
+        const current = preferencesRef.current;
+        const show = !data || (isPushAllowed(data, current) && current.pushAlert);
+        return {
+          shouldShowBanner: show,
+          shouldShowList: show,
+          shouldPlaySound: show && current.pushSound,
+          shouldSetBadge: false,
+        };
+      },
+    });
+    return () => {
+      Notifications.setNotificationHandler(null);
+    };
+  }, []);
+
+  // Tapped pushes, including the one that launched the app
+  useEffect(() => {
+    if (!pushManager.isConfigured() || authLoading) return;
+
+    const handleResponse = (response: Notifications.NotificationResponse) => {
+      const data = readPushMessageData(response.notification.request.content.data);
+      if (!data) return;
+      Notifications.clearLastNotificationResponse();
+      openPush(data);
+    };
+
+    const launchResponse = Notifications.getLastNotificationResponse();
+    if (launchResponse) {
+      // Let the router mount before navigating (as with cold-start deep links)
+      setTimeout(() => handleResponse(launchResponse), 150);
+    }
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(handleResponse);
+    return () => subscription.remove();
+  }, [authLoading]);
+
+  // Keep the relay registration in step with the account and preferences
+  useEffect(() => {
+    if (!pushManager.isConfigured() || authLoading || preferencesLoading) return;
+    if (!isAuthenticated) {
+      pushManager.unregister().catch(() => {});
+      return;
+    }
+    registerPushForActiveAccount(preferences).then((result) => {
+      if (!result.success) {
+        logger.debug('Push: Not registered', { error: result.error });
+      }
+    });
+  }, [authLoading, isAuthenticated, preferences, preferencesLoading]);
+
+  // Signing out revokes the key; drop the device from the relay as well
+  useEffect(() => {
+    const unsubscribe = onAuthEvent((event) => {
+      if (event === 'auth:signed-out') {
+        pushManager.unregister().catch(() => {});
+      }
+    });
+    return () => {
+      unsubscribe();
+    };
+  }, []);
+}
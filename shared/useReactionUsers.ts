@@ -0,0 +1,36 @@
+/**
+ * useReactionUsers Hook - Who reacted to a post, by reaction
+ *
+ * Loads the discourse-reactions "who reacted" lists for a post while
+ * `postId` is set (e.g. while the reactions sheet is open).
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { discourseApi } from './discourseApi';
+import { queryKeys } from './query-client';
+import { ReactionUsers } from './reactions';
+
+async function fetchReactionUsers(postId: number): Promise<ReactionUsers[]> {
+  const response = await discourseApi.getReactionUsers(postId);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to load reactions');
+  }
+  return response.data;
+}
+
+export function useReactionUsers(postId: number | null) {
+  const query = useQuery({
+    queryKey: postId ? queryKeys.postReactionUsers(postId) : ['post', null, 'reaction-users'],
+    queryFn: () => fetchReactionUsers(postId!),
+    enabled: !!postId,
+    staleTime: 30 * 1000,
+  });
+
+  return {
+    reactionUsers: query.data ?? [],
+    isLoading: query.isLoading,
+    hasError: !!query.error,
+    errorMessage: query.error instanceof Error ? query.error.message : undefined,
+    refetch: query.refetch,
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * useReadPosition Hook - Where the user left off in a byte
+ * 
+ * Snapshots the read position from the first load so the "new replies"
+ * divider stays put while the user reads (and Discourse moves the
+ * position forward underneath us).
+ */
+
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { discourseApi } from './discourseApi';
+import { queryKeys } from './query-client';
+
+export interface ReadPosition {
+  lastRead: number;
+  highest: number;
+}
+
+export interface UseReadPositionReturn {
+  lastRead: number;
+  highest: number;
+  // First post the user hasn't seen yet, if they've been here before
+  firstUnreadPostNumber?: number;
+  newReplyCount: number;
+  isLoading: boolean;
+}
+
+async function fetchReadPosition(topicId: number): Promise<ReadPosition> {
+  const response = await discourseApi.getReadPosition(topicId);
+
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to get read position');
+  }
+
+  return response.data;
+}
+
+export function useReadPosition(topicId: number, enabled: boolean = true): UseReadPositionReturn {
+  const [snapshot, setSnapshot] = useState<{ topicId: number; position: ReadPosition } | null>(null);
+
+  const { data, isLoading: isQueryLoading, isError } = useQuery({
+    queryKey: queryKeys.topicReadPosition(topicId),
+    queryFn: () => fetchReadPosition(topicId),
+    enabled: enabled && topicId > 0,
+    staleTime: 0,
+    gcTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnMount: 'always', // Take a fresh snapshot every time the byte is opened
+    retry: 1,
+  });
+
+  useEffect(() => {
+    if (data && snapshot?.topicId !== topicId) {
+      setSnapshot({ topicId, position: data });
+    }
+  }, [data, snapshot, topicId]);
+
+  const position = snapshot?.topicId === topicId ? snapshot.position : undefined;
+  const lastRead = position?.lastRead ?? 0;
+  const highest = position?.highest ?? 0;
+  // A lastRead of 0 means the byte has never been opened, so there is nothing to jump back to
+  const hasUnread = lastRead > 0 && highest > lastRead;
+
+  return {
+    lastRead,
+    highest,
+    firstUnreadPostNumber: hasUnread ? lastRead + 1 : undefined,
+    newReplyCount: hasUnread ? highest - lastRead : 0,
+    // Don't hold up the comments if the position can't be loaded
+    isLoading: enabled && topicId > 0 && !position && !isError && (isQueryLoading || !!data),
+  };
+}
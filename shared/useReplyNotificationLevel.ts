@@ -0,0 +1,32 @@
+/**
+ * useReplyNotificationLevel Hook - The user's "when I post in a topic" level
+ *
+ * Discourse moves a Byte to this level after the user replies (see
+ * getLevelAfterReply). Read from the user's options so the app can show
+ * the new level straight away.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { discourseApi, TOPIC_NOTIFICATION_LEVELS, TopicNotificationLevel } from './discourseApi';
+import { queryKeys } from './query-client';
+import { useAuth } from './auth-context';
+
+export function useReplyNotificationLevel(): TopicNotificationLevel {
+  const { user, isAuthenticated } = useAuth();
+  const username = user?.username ?? '';
+
+  const { data } = useQuery({
+    queryKey: queryKeys.userPreferences(username),
+    queryFn: async () => {
+      const response = await discourseApi.getUserPreferences(username);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to load user preferences');
+      }
+      return response.data;
+    },
+    enabled: isAuthenticated && !!username,
+    staleTime: 30 * 60 * 1000,
+  });
+
+  return data?.replyNotificationLevel ?? TOPIC_NOTIFICATION_LEVELS.tracking;
+}
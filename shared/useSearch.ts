@@ -1,15 +1,39 @@
 /**
  * useSearch Hook - Search with TanStack Query
  * 
- * Uses useQuery for search results with caching.
+ * Uses useInfiniteQuery for search results with caching; further pages load
+ * while Discourse reports `more_full_page_results`.
  * Debounce is handled at the UI layer via the query string.
  */
 
-import { useState, useCallback, useMemo, useRef } from 'react';
-import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
+import { useQuery, useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
 import { discourseApi, SearchResult } from './discourseApi';
 import { queryKeys } from './query-client';
-import { mapSearchResultToItems } from './search';
+import {
+  EMPTY_REMOTE_SUGGESTIONS,
+  RemoteSearchSuggestions,
+  SUGGESTIONS_PER_SECTION,
+  SearchHistoryEntry,
+  SearchSuggestionSection,
+  addSearchHistoryEntry,
+  buildSearchSuggestionSections,
+  clearSearchHistoryEntries,
+  loadSearchHistory,
+  mapSearchResultToItems,
+  matchSearchHistory,
+  matchTeretSuggestions,
+  mergeSearchResultPages,
+  pinSearchHistoryEntry,
+  removeSearchHistoryEntry,
+  saveSearchHistory,
+  toByteSuggestions,
+  toHistorySuggestions,
+  toTagSuggestions,
+  toUserSuggestions,
+  toggleSearchHistoryPin,
+} from './search';
+import { useSiteSettings } from './useSiteSettings';
 
 export interface SearchState {
   results: SearchResult | null;
@@ -31,13 +55,15 @@ export interface SearchFilters {
 }
 
 /**
- * Fetch search results from API
+ * Fetch a page of search results from API
  */
 async function fetchSearchResults(
   query: string,
-  filters: SearchFilters
+  filters: SearchFilters,
+  page: number,
+  signal?: AbortSignal
 ): Promise<SearchResult> {
-  const response = await discourseApi.search(query.trim(), filters);
+  const response = await discourseApi.search(query.trim(), { ...filters, page, signal });
 
   if (!response.success) {
     const errorMessage =
@@ -62,24 +88,33 @@ export function useSearch() {
   const [currentFilters, setCurrentFilters] = useState<SearchFilters>({});
   const [hasSearched, setHasSearched] = useState(false);
   const searchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const { settings } = useSiteSettings();
+  const minQueryLength = settings.minSearchTermLength;
 
   const searchQueryKey = queryKeys.search(currentQuery, currentFilters);
 
   const {
-    data: results,
+    data,
     isLoading: isQueryLoading,
     isFetching,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
     error,
     refetch,
-  } = useQuery({
+  } = useInfiniteQuery({
     queryKey: searchQueryKey,
-    queryFn: () => fetchSearchResults(currentQuery, currentFilters),
-    enabled: currentQuery.trim().length >= 3, // Only search with 3+ characters
+    queryFn: ({ pageParam, signal }) => fetchSearchResults(currentQuery, currentFilters, pageParam, signal),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage, _allPages, lastPageParam) => (lastPage.hasMore ? lastPageParam + 1 : undefined),
+    enabled: currentQuery.trim().length >= minQueryLength, // The site's minimum search term length
     staleTime: 5 * 60 * 1000, // 5 minutes - search results are stable
     gcTime: 15 * 60 * 1000, // 15 minutes
     refetchOnMount: false, // Don't refetch on mount for search
   });
 
+  const results = useMemo(() => (data ? mergeSearchResultPages(data.pages) : undefined), [data]);
+
   // Search function - updates the query state
   const search = useCallback(
     async (
@@ -152,8 +187,14 @@ export function useSearch() {
     }
   }, [currentQuery, refetch]);
 
-  // Compute states for backward compatibility
-  const isSearching = isQueryLoading || isFetching;
+  const loadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Compute states for backward compatibility; loading another page isn't a new search
+  const isSearching = isQueryLoading || (isFetching && !isFetchingNextPage);
   const errorMessage = error instanceof Error ? error.message : error ? String(error) : null;
   const items = useMemo(() => mapSearchResultToItems(results ?? null), [results]);
 
@@ -163,6 +204,7 @@ export function useSearch() {
     isSearching,
     error: errorMessage,
     query: currentQuery,
+    minQueryLength,
     hasSearched,
     search,
     searchWithDebounce,
@@ -176,6 +218,9 @@ export function useSearch() {
     hasResults,
     isEmpty,
     retry,
+    hasMore: !!hasNextPage,
+    isLoadingMore: isFetchingNextPage,
+    loadMore,
     isLoading: isSearching,
     hasError: !!error,
     quickSearch: search,
@@ -183,111 +228,184 @@ export function useSearch() {
   };
 }
 
-// Hook for search suggestions/autocomplete (unchanged - mock implementation)
-export function useSearchSuggestions() {
-  const [suggestions, setSuggestions] = useState<string[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+const SUGGESTION_DELAY_MS = 250;
+const RECENT_SEARCHES_SHOWN = 8;
+const HISTORY_SUGGESTIONS_WHILE_TYPING = 3;
 
-  const getSuggestions = async (query: string): Promise<string[]> => {
-    if (!query.trim() || query.length < 2) {
-      setSuggestions([]);
-      return [];
-    }
-
-    try {
-      setIsLoading(true);
-
-      // TODO: Implement actual suggestions API
-      const mockSuggestions = [
-        `${query} tutorial`,
-        `${query} guide`,
-        `${query} tips`,
-        `${query} best practices`,
-        `${query} examples`,
-      ].filter((suggestion) =>
-        suggestion.toLowerCase().includes(query.toLowerCase())
-      );
-
-      setSuggestions(mockSuggestions);
-      return mockSuggestions;
-    } catch (error) {
-      console.error('Suggestions error:', error);
-      setSuggestions([]);
-      return [];
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const clearSuggestions = () => {
-    setSuggestions([]);
-  };
+/**
+ * Bytes, people and tags matching a term. Each lookup may fail on its own
+ * (tagging can be off); only when all fail is it an error.
+ */
+async function fetchSearchSuggestions(term: string, signal?: AbortSignal): Promise<RemoteSearchSuggestions> {
+  const [bytes, users, tags] = await Promise.all([
+    discourseApi.search(term, {
+      type: 'topic',
+      order: 'latest',
+      limit: SUGGESTIONS_PER_SECTION * 2,
+      includeBlurbs: false,
+      signal,
+    }),
+    discourseApi.searchUsers(term, { limit: SUGGESTIONS_PER_SECTION, signal }),
+    discourseApi.searchTags(term, { limit: SUGGESTIONS_PER_SECTION, signal }),
+  ]);
+
+  if (!bytes.success && !users.success && !tags.success) {
+    throw new Error(bytes.error || 'Failed to load suggestions');
+  }
 
   return {
-    suggestions,
-    isLoading,
-    getSuggestions,
-    clearSuggestions,
+    bytes: bytes.success ? toByteSuggestions(bytes.data?.bytes ?? []) : [],
+    users: users.success ? toUserSuggestions(users.data?.users ?? []) : [],
+    tags: tags.success && tags.data ? toTagSuggestions(tags.data.results) : [],
   };
 }
 
-// Hook for search history (unchanged - local state)
-export function useSearchHistory() {
-  const [history, setHistory] = useState<string[]>([]);
+interface SearchSuggestionsOptions {
+  // The account's earlier searches (from useSearchHistory)
+  history?: SearchHistoryEntry[];
+  // Terets to match locally, as loaded by useTerets
+  terets?: { id: number; name: string; slug: string; color: string }[];
+  enabled?: boolean;
+}
 
-  const loadHistory = async () => {
-    try {
-      // TODO: Load from AsyncStorage
-      setHistory([]);
-    } catch (error) {
-      console.error('Failed to load search history:', error);
+/**
+ * Suggestions for the search box, in typed sections
+ *
+ * Recent searches while the box is empty; once typing, matching earlier
+ * searches and Terets straight away, and Bytes, people and tags from the
+ * server after a short pause. A request for a term typed over is cancelled.
+ */
+export function useSearchSuggestions(
+  query: string,
+  { history = [], terets = [], enabled = true }: SearchSuggestionsOptions = {}
+) {
+  const { settings } = useSiteSettings();
+  const minQueryLength = settings.minSearchTermLength;
+  const typed = query.trim();
+  const [term, setTerm] = useState(typed);
+
+  useEffect(() => {
+    if (!typed) {
+      setTerm('');
+      return;
     }
-  };
+    const timer = setTimeout(() => setTerm(typed), SUGGESTION_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [typed]);
+
+  const { data, isFetching, error } = useQuery({
+    queryKey: queryKeys.searchSuggestions(term),
+    // Passing the signal lets TanStack abort the request once the term changes
+    queryFn: ({ signal }) => fetchSearchSuggestions(term, signal),
+    enabled: enabled && term.length >= minQueryLength,
+    staleTime: 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+  });
 
-  const addToHistory = async (query: string) => {
-    if (!query.trim()) return;
+  const sections = useMemo<SearchSuggestionSection[]>(() => {
+    if (!enabled) return [];
+    const historyMatches = typed
+      ? matchSearchHistory(history, typed, HISTORY_SUGGESTIONS_WHILE_TYPING)
+      : history.slice(0, RECENT_SEARCHES_SHOWN);
+    const remote = typed && term.length >= minQueryLength ? data ?? EMPTY_REMOTE_SUGGESTIONS : EMPTY_REMOTE_SUGGESTIONS;
+
+    return buildSearchSuggestionSections({
+      query: typed,
+      history: toHistorySuggestions(historyMatches),
+      remote,
+      terets: matchTeretSuggestions(terets, typed),
+    });
+  }, [enabled, typed, term, minQueryLength, history, terets, data]);
 
-    try {
-      const trimmedQuery = query.trim();
+  return {
+    sections,
+    isLoading: enabled && isFetching,
+    hasError: !!error,
+  };
+}
 
-      setHistory((prev) => {
-        const filtered = prev.filter((item) => item !== trimmedQuery);
-        const newHistory = [trimmedQuery, ...filtered];
-        return newHistory.slice(0, 20);
+/**
+ * Search history for an account, kept across launches
+ *
+ * Changes made before the stored history has loaded are applied on top of it.
+ */
+export function useSearchHistory(accountId: string | null) {
+  const [history, setHistory] = useState<SearchHistoryEntry[]>([]);
+  const historyRef = useRef<SearchHistoryEntry[]>([]);
+  const loadedRef = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    let cancelled = false;
+    historyRef.current = [];
+    setHistory([]);
+    loadedRef.current = loadSearchHistory(accountId)
+      .then((loaded) => {
+        if (cancelled) return;
+        historyRef.current = loaded;
+        setHistory(loaded);
+      })
+      .catch((error) => {
+        console.error('Failed to load search history:', error);
       });
 
-      // TODO: Save to AsyncStorage
-    } catch (error) {
-      console.error('Failed to add to search history:', error);
-    }
-  };
+    return () => {
+      cancelled = true;
+    };
+  }, [accountId]);
+
+  const updateHistory = useCallback(
+    async (change: (current: SearchHistoryEntry[]) => SearchHistoryEntry[]) => {
+      await loadedRef.current;
+      const next = change(historyRef.current);
+      historyRef.current = next;
+      setHistory(next);
+      try {
+        await saveSearchHistory(accountId, next);
+      } catch (error) {
+        console.error('Failed to save search history:', error);
+      }
+    },
+    [accountId]
+  );
 
-  const removeFromHistory = async (query: string) => {
-    try {
-      setHistory((prev) => prev.filter((item) => item !== query));
-      // TODO: Save to AsyncStorage
-    } catch (error) {
-      console.error('Failed to remove from search history:', error);
-    }
-  };
+  const addToHistory = useCallback(
+    (query: string) => updateHistory((current) => addSearchHistoryEntry(current, query)),
+    [updateHistory]
+  );
 
-  const clearHistory = async () => {
-    try {
-      setHistory([]);
-      // TODO: Clear from AsyncStorage
-    } catch (error) {
-      console.error('Failed to clear search history:', error);
-    }
-  };
+  const removeFromHistory = useCallback(
+    (query: string) => updateHistory((current) => removeSearchHistoryEntry(current, query)),
+    [updateHistory]
+  );
 
-  const getRecentSearches = (limit: number = 10): string[] => {
-    return history.slice(0, limit);
-  };
+  const togglePin = useCallback(
+    (query: string) => updateHistory((current) => toggleSearchHistoryPin(current, query)),
+    [updateHistory]
+  );
+
+  // Keeps a search (filters and all) pinned at the top
+  const pinSearch = useCallback(
+    (query: string) => updateHistory((current) => pinSearchHistoryEntry(current, query)),
+    [updateHistory]
+  );
+
+  // Pinned searches are kept
+  const clearHistory = useCallback(
+    () => updateHistory(clearSearchHistoryEntries),
+    [updateHistory]
+  );
+
+  const getRecentSearches = useCallback(
+    (limit: number = 10): string[] => history.slice(0, limit).map((entry) => entry.query),
+    [history]
+  );
 
   return {
     history,
     addToHistory,
     removeFromHistory,
+    togglePin,
+    pinSearch,
     clearHistory,
     getRecentSearches,
   };
@@ -0,0 +1,214 @@
+/**
+ * useServerDraft Hook - Keeps one composer's text in a Discourse draft
+ *
+ * Loads the draft for `draftKey` once, then auto-saves `draft` (debounced,
+ * when auto-save is on) and deletes it when the composer empties or sends.
+ * A save refused because the draft changed elsewhere stops auto-saving and
+ * reports `conflict` until the user keeps theirs or takes the other version.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { discourseApi } from './discourseApi';
+import {
+  DraftContent,
+  getDraftFingerprint,
+  getDraftOwner,
+  hasDraftChangedElsewhere,
+  isDraftConflict,
+  parseDraftContent,
+} from './drafts';
+import { queryKeys } from './query-client';
+import { useSettingsStorage } from './useSettingsStorage';
+import { logger } from './logger';
+
+const AUTO_SAVE_DELAY_MS = 1200;
+
+interface UseServerDraftOptions {
+  // null turns drafts off (signed out, or nothing to key them on yet)
+  draftKey: string | null;
+  // What to save; null when the composer is empty
+  draft: Record<string, any> | null;
+  // Called with the saved draft once it loads, and with the other version
+  // when the user takes it over their own
+  onLoad: (content: DraftContent) => void;
+}
+
+export interface UseServerDraftReturn {
+  isLoaded: boolean;
+  isSaving: boolean;
+  lastSavedAt: string | null;
+  error: string | null;
+  // The version saved elsewhere, while it conflicts with this one
+  conflict: DraftContent | null;
+  keepMine: () => Promise<void>;
+  takeTheirs: () => void;
+  // Delete the draft (after sending, or to start over)
+  discard: () => Promise<void>;
+}
+
+export function useServerDraft({ draftKey, draft, onLoad }: UseServerDraftOptions): UseServerDraftReturn {
+  const queryClient = useQueryClient();
+  const { settings, loading: settingsLoading } = useSettingsStorage();
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<DraftContent | null>(null);
+
+  const sequenceRef = useRef(0);
+  // Content this composer last loaded or saved; null when there's no draft
+  const baseFingerprintRef = useRef<string | null>(null);
+  const theirsRef = useRef<{ fingerprint: string; sequence: number } | null>(null);
+  const isSavingRef = useRef(false);
+  const onLoadRef = useRef(onLoad);
+  onLoadRef.current = onLoad;
+
+  const serialized = draft ? JSON.stringify(draft) : null;
+
+  // Load the draft once per key
+  useEffect(() => {
+    setIsLoaded(false);
+    setConflict(null);
+    setError(null);
+    sequenceRef.current = 0;
+    baseFingerprintRef.current = null;
+    if (!draftKey) return;
+
+    let cancelled = false;
+    (async () => {
+      const response = await discourseApi.getDraft({ draftKey });
+      if (cancelled) return;
+      if (response.success && response.data) {
+        sequenceRef.current = response.data.draft_sequence ?? response.data.sequence ?? 0;
+        if (response.data.draft) {
+          baseFingerprintRef.current = getDraftFingerprint(response.data.draft);
+          onLoadRef.current(parseDraftContent(response.data.draft));
+        }
+      } else if (!response.success) {
+        logger.warn('Drafts: Failed to load draft', { draftKey, error: response.error });
+      }
+      setIsLoaded(true);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [draftKey]);
+
+  const save = useCallback(
+    async (nextDraft: Record<string, any>, forceSave = false) => {
+      if (!draftKey || isSavingRef.current) return;
+      isSavingRef.current = true;
+      setIsSaving(true);
+      setError(null);
+
+      const owner = await getDraftOwner();
+      let response = await discourseApi.saveDraft({
+        draftKey,
+        draft: nextDraft,
+        sequence: sequenceRef.current,
+        owner,
+        forceSave,
+      });
+
+      if (isDraftConflict(response)) {
+        const current = await discourseApi.getDraft({ draftKey });
+        const serverSequence = current.data?.draft_sequence ?? current.data?.sequence ?? sequenceRef.current;
+        if (current.success && hasDraftChangedElsewhere(baseFingerprintRef.current, current.data?.draft)) {
+          theirsRef.current = { fingerprint: getDraftFingerprint(current.data.draft), sequence: serverSequence };
+          setConflict(parseDraftContent(current.data.draft));
+          isSavingRef.current = false;
+          setIsSaving(false);
+          return;
+        }
+        // Nobody changed it - it was only saved under another owner
+        sequenceRef.current = serverSequence;
+        response = await discourseApi.saveDraft({
+          draftKey,
+          draft: nextDraft,
+          sequence: serverSequence,
+          owner,
+          forceSave: true,
+        });
+      }
+
+      if (response.success) {
+        sequenceRef.current = response.data?.draft_sequence ?? sequenceRef.current;
+        baseFingerprintRef.current = getDraftFingerprint(nextDraft);
+        setLastSavedAt(new Date().toISOString());
+        queryClient.invalidateQueries({ queryKey: queryKeys.drafts() });
+      } else {
+        setError(response.error || 'Failed to save draft');
+      }
+      isSavingRef.current = false;
+      setIsSaving(false);
+    },
+    [draftKey, queryClient]
+  );
+
+  const discard = useCallback(async () => {
+    if (!draftKey) return;
+    const hadDraft = baseFingerprintRef.current !== null;
+    baseFingerprintRef.current = null;
+    setConflict(null);
+    setLastSavedAt(null);
+    if (!hadDraft) return;
+
+    const response = await discourseApi.deleteDraft({ draftKey, sequence: sequenceRef.current });
+    if (!response.success) {
+      logger.warn('Drafts: Failed to delete draft', { draftKey, error: response.error });
+    }
+    queryClient.invalidateQueries({ queryKey: queryKeys.drafts() });
+  }, [draftKey, queryClient]);
+
+  // Debounced auto-save, paused while there's a conflict
+  useEffect(() => {
+    if (!draftKey || !isLoaded || conflict || settingsLoading || !settings.autoSave) return;
+
+    const timer = setTimeout(() => {
+      if (!serialized) {
+        void discard();
+        return;
+      }
+      const nextDraft = JSON.parse(serialized);
+      if (getDraftFingerprint(nextDraft) === baseFingerprintRef.current) return;
+      void save(nextDraft);
+    }, AUTO_SAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [draftKey, isLoaded, conflict, settingsLoading, settings.autoSave, serialized, save, discard]);
+
+  const keepMine = useCallback(async () => {
+    const theirs = theirsRef.current;
+    theirsRef.current = null;
+    setConflict(null);
+    if (theirs) {
+      sequenceRef.current = theirs.sequence;
+    }
+    if (serialized) {
+      await save(JSON.parse(serialized), true);
+    }
+  }, [serialized, save]);
+
+  const takeTheirs = useCallback(() => {
+    const theirs = theirsRef.current;
+    if (!conflict || !theirs) return;
+    theirsRef.current = null;
+    sequenceRef.current = theirs.sequence;
+    baseFingerprintRef.current = theirs.fingerprint;
+    setConflict(null);
+    onLoadRef.current(conflict);
+  }, [conflict]);
+
+  return {
+    isLoaded,
+    isSaving,
+    lastSavedAt,
+    error,
+    conflict,
+    keepMine,
+    takeTheirs,
+    discard,
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * useSiteSettings Hook - The site's rules and limits
+ *
+ * Loads /site.json and /site/basic-info.json through discourseApi and keeps
+ * the mapped settings cached. Until they arrive (or when offline) the
+ * defaults are returned, so callers never have to wait on them.
+ * Invalidate `queryKeys.site()` to reload after switching sites or signing in.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { discourseApi } from './discourseApi';
+import { queryKeys } from './query-client';
+import { DEFAULT_SITE_SETTINGS, SiteSettings } from './site-settings';
+
+async function fetchSiteSettings(): Promise<SiteSettings> {
+  const response = await discourseApi.getSiteSettings();
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to load site settings');
+  }
+  return response.data;
+}
+
+export function useSiteSettings(enabled: boolean = true) {
+  const query = useQuery({
+    queryKey: queryKeys.siteSettings(),
+    queryFn: fetchSiteSettings,
+    enabled,
+    staleTime: 30 * 60 * 1000,
+  });
+
+  return {
+    settings: query.data ?? DEFAULT_SITE_SETTINGS,
+    isLoading: query.isLoading,
+    hasError: query.isError,
+    refetch: query.refetch,
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * useTagSearch Hook - Tags to offer while composing
+ *
+ * Searches /tags/filter/search.json for the Teret the Byte is going to,
+ * leaving out tags already chosen. Also reports a required tag group the
+ * chosen tags don't satisfy yet, so the composer can say what's missing.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { discourseApi } from './discourseApi';
+import { queryKeys } from './query-client';
+import { TagSearchResult } from './tags';
+
+const NO_TAGS: TagSearchResult = { results: [], requiredGroup: null };
+
+interface TagSearchOptions {
+  categoryId?: number;
+  selectedTags?: string[];
+  enabled?: boolean;
+}
+
+async function fetchTagSearch(
+  query: string,
+  categoryId: number | undefined,
+  selectedTags: string[]
+): Promise<TagSearchResult> {
+  const response = await discourseApi.searchTags(query, { categoryId, selectedTags });
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to search tags');
+  }
+  return response.data;
+}
+
+export function useTagSearch(query: string, { categoryId, selectedTags = [], enabled = true }: TagSearchOptions = {}) {
+  const term = query.trim();
+  const result = useQuery({
+    queryKey: queryKeys.tagSearch(term, { categoryId, selectedTags }),
+    queryFn: () => fetchTagSearch(term, categoryId, selectedTags),
+    enabled,
+    staleTime: 60 * 1000,
+  });
+
+  const data = result.data ?? NO_TAGS;
+  return {
+    suggestions: data.results,
+    requiredGroup: data.requiredGroup,
+    isLoading: result.isLoading,
+    hasError: !!result.error,
+    errorMessage: result.error instanceof Error ? result.error.message : undefined,
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * useTagTopics Hook - The feed of Bytes with a tag
+ *
+ * Pages through /tag/{name}.json with useInfiniteQuery and maps each
+ * topic to a Byte for ByteCard.
+ */
+
+import { useCallback } from 'react';
+import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+import type { Byte } from '@/types/byte';
+import { discourseApi } from './discourseApi';
+import { queryKeys } from './query-client';
+import { topicSummaryToByte } from './adapters/topicSummaryToByte';
+
+interface TagTopicsPage {
+  bytes: Byte[];
+  page: number;
+  hasMore: boolean;
+}
+
+async function fetchTagTopicsPage(tagName: string, page: number): Promise<TagTopicsPage> {
+  const response = await discourseApi.getTagTopics(tagName, page);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || `Failed to load #${tagName}`);
+  }
+
+  const topicList = response.data.topic_list || {};
+  const topics: any[] = topicList.topics || [];
+
+  // Authors are listed once at the root, posters only carry user ids
+  const usersMap = new Map();
+  (response.data.users || []).forEach((user: any) => {
+    if (user.id) usersMap.set(user.id, user);
+  });
+
+  const bytes = topics
+    .map((topic) => topicSummaryToByte({ ...topic, usersMap }))
+    .filter((byte) => !!byte.id && !!byte.title);
+
+  return {
+    bytes,
+    page,
+    hasMore: !!topicList.more_topics_url,
+  };
+}
+
+export function useTagTopics(tagName: string | undefined) {
+  const queryClient = useQueryClient();
+  const tagQueryKey = tagName ? queryKeys.tag(tagName) : ['tag', null];
+
+  const {
+    data,
+    isLoading: isQueryLoading,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+    error,
+  } = useInfiniteQuery({
+    queryKey: tagQueryKey,
+    queryFn: ({ pageParam = 0 }) => fetchTagTopicsPage(tagName!, pageParam),
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.page + 1 : undefined),
+    initialPageParam: 0,
+    enabled: !!tagName,
+    staleTime: 2 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+  });
+
+  const bytes: Byte[] = data?.pages.flatMap((page) => page.bytes) ?? [];
+
+  const loadMore = useCallback(async () => {
+    if (hasNextPage && !isFetchingNextPage) {
+      await fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const refresh = useCallback(async () => {
+    await queryClient.invalidateQueries({ queryKey: tagQueryKey });
+  }, [queryClient, tagQueryKey]);
+
+  return {
+    bytes,
+    isLoading: isQueryLoading && bytes.length === 0,
+    isLoadingMore: isFetchingNextPage,
+    hasError: !!error,
+    errorMessage: error instanceof Error ? error.message : error ? String(error) : undefined,
+    hasMore: hasNextPage ?? false,
+    loadMore,
+    refresh,
+  };
+}
@@ -1,6 +1,7 @@
 import { useState, useCallback, useEffect } from 'react';
 import { discourseApi } from './discourseApi';
 import { logger } from './logger';
+import { CategoryTagRules, parseCategoryTagRules } from './tags';
 
 export interface Teret {
   id: number;
@@ -20,6 +21,8 @@ export interface Teret {
   };
   read_restricted: boolean;
   permission: number;
+  // Tags a Byte posted here must carry
+  tagRules?: CategoryTagRules;
 }
 
 // CategoryItem represents all categories (both Hubs and Terets) with metadata
@@ -43,6 +46,7 @@ export interface CategoryItem {
   permission: number;
   // Indicates if this category is selectable (Teret) or not (Hub)
   isSelectable: boolean;
+  tagRules?: CategoryTagRules;
 }
 
 export interface TeretsState {
@@ -168,6 +172,7 @@ export function useTerets() {
           read_restricted: cat.read_restricted || false,
           permission: cat.permission || 1,
           isSelectable,
+          tagRules: parseCategoryTagRules(cat),
         };
       });
 
@@ -203,6 +208,7 @@ export function useTerets() {
             },
             read_restricted: cat.read_restricted || false,
             permission: cat.permission || 1,
+            tagRules: parseCategoryTagRules(cat),
           };
         });
 
@@ -7,9 +7,14 @@
 
 import { useCallback } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { discourseApi } from './discourseApi';
+import { discourseApi, TopicNotificationLevel } from './discourseApi';
 import { logger } from './logger';
 import { queryKeys } from './query-client';
+import { PostFlagState, getPostFlagState } from './post-flags';
+import { Poll, parsePolls } from './polls';
+import { readTagNames } from './tags';
+import { Bookmark, findByteBookmark, parseTopicBookmarks } from './bookmarks';
+import { toTopicNotificationLevel } from './topic-notifications';
 
 export interface TopicData {
   id: number;
@@ -44,13 +49,20 @@ export interface TopicData {
   replyCount: number;
   likeCount: number;
   isPinned: boolean;
+  isPinnedGlobally: boolean;
   isClosed: boolean;
   isArchived: boolean;
+  // False once staff unlist the Byte
+  isVisible: boolean;
   views: number;
   slug: string;
   url: string;
   bookmarked: boolean;
-  notificationLevel: number;
+  // The user's bookmark on this Byte, with its name and reminder
+  bookmark: Bookmark | null;
+  notificationLevel: TopicNotificationLevel;
+  // Why the level was set; null until the user or Discourse picks one
+  notificationsReasonId: number | null;
   lastReadPostNumber: number;
   highestPostNumber: number;
   unreadCount: number;
@@ -67,6 +79,14 @@ export interface TopicData {
   }>;
   hasMedia: boolean;
   coverImage?: string;
+  // First post details used when editing the Byte
+  firstPostId?: number;
+  rawContent?: string;
+  version: number;
+  // Current user's flag on the first post
+  flagState: PostFlagState;
+  // Polls in the first post
+  polls: Poll[];
   posts: Array<{
     id: number;
     number: number;
@@ -213,8 +233,10 @@ async function fetchTopic(topicId: number): Promise<TopicData> {
   };
 
   // Extract topic-level fields
-  const bookmarked = topic.details?.bookmarked || false;
-  const notificationLevel = topic.details?.notification_level ?? 1;
+  const bookmark = findByteBookmark(parseTopicBookmarks(topic), firstPost?.id);
+  const bookmarked = !!bookmark || !!topic.bookmarked || !!topic.details?.bookmarked;
+  const notificationLevel = toTopicNotificationLevel(topic.details?.notification_level);
+  const notificationsReasonId = topic.details?.notifications_reason_id ?? null;
   const lastReadPostNumber = topic.details?.last_read_post_number || 0;
   const highestPostNumber = topic.highest_post_number || topic.posts_count || 0;
   const unreadCount = Math.max(0, highestPostNumber - lastReadPostNumber);
@@ -230,7 +252,7 @@ async function fetchTopic(topicId: number): Promise<TopicData> {
   const canDelete = topic.details?.can_delete || false;
   const canFlag = topic.details?.can_flag || false;
   const canClose = topic.details?.can_close_topic || false;
-  const canPin = topic.details?.can_pin || false;
+  const canPin = topic.details?.can_pin_unpin_topic || topic.details?.can_pin || false;
   const canArchive = topic.details?.can_archive_topic || false;
 
   // Author badges
@@ -257,19 +279,23 @@ async function fetchTopic(topicId: number): Promise<TopicData> {
     linkMetadata,
     author: authorInfo,
     category: categoryInfo,
-    tags: topic.tags || [],
+    tags: readTagNames(topic.tags),
     createdAt: topic.created_at,
     updatedAt: topic.updated_at,
     replyCount: topic.reply_count,
     likeCount: topic.like_count,
     isPinned: topic.pinned,
+    isPinnedGlobally: !!topic.pinned_globally,
     isClosed: topic.closed,
     isArchived: topic.archived,
+    isVisible: topic.visible !== false,
     views: topic.views,
     slug: topic.slug,
     url: `${discourseApi.getBaseUrl()}/t/${topic.slug}/${topic.id}`,
     bookmarked,
+    bookmark,
     notificationLevel,
+    notificationsReasonId,
     lastReadPostNumber,
     highestPostNumber,
     unreadCount,
@@ -282,6 +308,11 @@ async function fetchTopic(topicId: number): Promise<TopicData> {
     authorBadges: authorBadges.length > 0 ? authorBadges : undefined,
     hasMedia,
     coverImage,
+    firstPostId: firstPost?.id,
+    rawContent: firstPost?.raw,
+    version: firstPost?.version || 1,
+    flagState: getPostFlagState(firstPost?.actions_summary),
+    polls: parsePolls(firstPost?.polls, firstPost?.polls_votes),
     posts: posts.map((post: any) => ({
       id: post.id,
       number: post.post_number,
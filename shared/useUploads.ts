@@ -0,0 +1,86 @@
+/**
+ * useUploads Hook - Uploads started from one screen
+ *
+ * Tracks the uploadManager items this screen started and exposes cancel and
+ * retry for them. Finished uploads are handed to `onUploaded` and dropped
+ * from the list; uploads still running when the screen unmounts are
+ * cancelled.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { UploadType } from './discourseApi';
+import { uploadManager } from './upload-manager';
+import { UploadItem, UploadSource, isSettledUpload } from './uploads';
+
+export interface UseUploadsOptions {
+  onUploaded?: (item: UploadItem) => void;
+  onFailed?: (item: UploadItem) => void;
+}
+
+export function useUploads(options: UseUploadsOptions = {}) {
+  const [uploads, setUploads] = useState<UploadItem[]>([]);
+  const ownedIds = useRef(new Set<string>());
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    const owned = ownedIds.current;
+    const unsubscribe = uploadManager.subscribe((item) => {
+      if (!owned.has(item.id)) return;
+
+      if (item.status === 'done') {
+        owned.delete(item.id);
+        uploadManager.remove(item.id);
+        setUploads((prev) => prev.filter((upload) => upload.id !== item.id));
+        optionsRef.current.onUploaded?.(item);
+        return;
+      }
+
+      setUploads((prev) => prev.map((upload) => (upload.id === item.id ? item : upload)));
+      if (item.status === 'failed') {
+        optionsRef.current.onFailed?.(item);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      owned.forEach((id) => uploadManager.remove(id));
+      owned.clear();
+    };
+  }, []);
+
+  const startUploads = useCallback((sources: UploadSource[], uploadType: UploadType = 'composer') => {
+    if (sources.length === 0) return [];
+    const items = uploadManager.add(sources, uploadType);
+    items.forEach((item) => ownedIds.current.add(item.id));
+    // The manager may have moved on synchronously; take its latest state
+    setUploads((prev) => [...prev, ...items.map((item) => uploadManager.get(item.id) ?? item)]);
+    return items;
+  }, []);
+
+  const cancelUpload = useCallback((id: string) => {
+    uploadManager.cancel(id);
+  }, []);
+
+  const retryUpload = useCallback((id: string) => {
+    uploadManager.retry(id);
+  }, []);
+
+  // Stop tracking an upload (cancelling it if it's still running)
+  const removeUpload = useCallback((id: string) => {
+    uploadManager.remove(id);
+    ownedIds.current.delete(id);
+    setUploads((prev) => prev.filter((upload) => upload.id !== id));
+  }, []);
+
+  const isUploading = uploads.some((upload) => !isSettledUpload(upload.status));
+
+  return {
+    uploads,
+    isUploading,
+    startUploads,
+    cancelUpload,
+    retryUpload,
+    removeUpload,
+  };
+}
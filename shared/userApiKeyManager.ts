@@ -1,6 +1,14 @@
 import * as SecureStore from 'expo-secure-store';
 import * as Crypto from 'expo-crypto';
 import { logger } from './logger';
+import {
+  DEFAULT_SITE_URL,
+  getAccountId,
+  getAccountStorageKey,
+  getActiveAccountId,
+  normalizeSiteUrl,
+  useAccountStore,
+} from './accounts';
 import { generateRsaKeypair, decryptPayloadBase64ToUtf8 } from '../lib/crypto';
 
 // Lazy-load react-native-quick-crypto for React Native RSA support
@@ -84,7 +92,8 @@ function loadQuickCrypto(): any {
 }
 
 // === STORAGE KEYS ===
-// Single source of truth for auth credentials
+// Single source of truth for auth credentials, one entry per account
+// (the unscoped key holds credentials saved before accounts existed)
 const AUTH_CREDENTIALS_KEY = 'fomio_auth_credentials';
 
 // Crypto keys (needed for RSA operations)
@@ -92,6 +101,8 @@ const PRIVATE_KEY_STORAGE_KEY = 'fomio_user_api_private_key';
 const PUBLIC_KEY_STORAGE_KEY = 'fomio_user_api_public_key';
 const NONCE_STORAGE_KEY = 'fomio_user_api_nonce';
 const CLIENT_ID_STORAGE_KEY = 'fomio_user_api_client_id';
+// Site of the sign-in in progress, so the callback knows which account it adds
+const PENDING_SITE_STORAGE_KEY = 'fomio_user_api_pending_site';
 
 // Legacy keys for migration (will be cleaned up after migration)
 const LEGACY_KEYS = [
@@ -448,6 +459,42 @@ export class UserApiKeyManager {
     }
   }
 
+  /**
+   * Remember which site a sign-in was started for
+   * @param siteUrl - Site the authorization request was sent to
+   */
+  static async storePendingSite(siteUrl: string): Promise<void> {
+    try {
+      await SecureStore.setItemAsync(PENDING_SITE_STORAGE_KEY, siteUrl);
+    } catch (error: any) {
+      logger.error('UserApiKeyManager: Failed to store pending site', error);
+    }
+  }
+
+  /**
+   * Get the site of the sign-in in progress
+   * @returns Site URL or null if no sign-in is pending
+   */
+  static async getPendingSite(): Promise<string | null> {
+    try {
+      return await SecureStore.getItemAsync(PENDING_SITE_STORAGE_KEY);
+    } catch (error: any) {
+      logger.error('UserApiKeyManager: Failed to get pending site', error);
+      return null;
+    }
+  }
+
+  /**
+   * Clear the pending site (after the sign-in completes)
+   */
+  static async clearPendingSite(): Promise<void> {
+    try {
+      await SecureStore.deleteItemAsync(PENDING_SITE_STORAGE_KEY);
+    } catch (error: any) {
+      logger.error('UserApiKeyManager: Failed to clear pending site', error);
+    }
+  }
+
   /**
    * Get stored private key
    * @returns Private key or null if not found
@@ -513,6 +560,24 @@ export class UserApiKeyManager {
     }
   }
 
+  /**
+   * Generate a new client ID for a sign-in. Discourse keeps one key per
+   * client ID, so every account needs its own.
+   * @returns Client ID string
+   */
+  static async generateClientId(): Promise<string> {
+    try {
+      const randomBytes = await Crypto.getRandomBytesAsync(16);
+      const clientId = this.generateUUID(randomBytes);
+      await SecureStore.setItemAsync(CLIENT_ID_STORAGE_KEY, clientId);
+      logger.info('UserApiKeyManager: Generated new client ID');
+      return clientId;
+    } catch (error: any) {
+      logger.error('UserApiKeyManager: Failed to generate client ID', error);
+      return `client_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+    }
+  }
+
   /**
    * Generate UUID v4 from random bytes
    */
@@ -711,21 +776,27 @@ export class UserApiKeyManager {
 
   /**
    * Store complete auth credentials to the single source of truth.
+   * With a username the key is filed under that account, which is added to
+   * the account registry and made active.
    * Also handles migration by cleaning up legacy keys.
    * 
    * @param key - The API key string
    * @param username - Username for Api-Username header (optional but recommended)
    * @param clientId - Client ID for the app instance
    * @param _otp - One-time password (unused, kept for API compatibility)
+   * @param siteUrl - Site the key belongs to (defaults to the pending sign-in's site)
    */
   static async storeCompleteAuth(
     key: string,
     username?: string,
     clientId?: string,
-    _otp?: string
+    _otp?: string,
+    siteUrl?: string
   ): Promise<void> {
     try {
       const resolvedClientId = clientId || await this.getOrGenerateClientId();
+      const resolvedSiteUrl =
+        normalizeSiteUrl(siteUrl) || normalizeSiteUrl(await this.getPendingSite()) || DEFAULT_SITE_URL;
       
       // Store as single JSON object
       const credentials: AuthCredentials = {
@@ -735,10 +806,23 @@ export class UserApiKeyManager {
         createdAt: Date.now(),
       };
       
-      await SecureStore.setItemAsync(AUTH_CREDENTIALS_KEY, JSON.stringify(credentials));
+      // Write the key before the account becomes active, so anything reacting
+      // to the switch already finds it
+      await useAccountStore.getState().load();
+      const accountId = username ? getAccountId(resolvedSiteUrl, username) : null;
+      await SecureStore.setItemAsync(
+        getAccountStorageKey(AUTH_CREDENTIALS_KEY, accountId),
+        JSON.stringify(credentials)
+      );
+      if (username) {
+        await useAccountStore.getState().addAccount({ siteUrl: resolvedSiteUrl, username });
+        await SecureStore.deleteItemAsync(AUTH_CREDENTIALS_KEY);
+      }
+      await this.clearPendingSite();
       
       logger.info('UserApiKeyManager: Auth credentials stored', {
         hasUsername: !!username,
+        accountId,
       });
       
       // Clean up legacy keys (migration)
@@ -753,18 +837,35 @@ export class UserApiKeyManager {
   /**
    * Get auth credentials for API requests.
    * This is the single source of truth for reading auth data.
+   * Reads the active account's key.
    * 
    * @returns Object with key and optional username/clientId, or null if not authenticated
    */
   static async getAuthCredentials(): Promise<{ key: string; username?: string; clientId?: string } | null> {
     try {
+      await useAccountStore.getState().load();
+      const accountId = getActiveAccountId();
+
       // Try new storage format first
-      const credentialsJson = await SecureStore.getItemAsync(AUTH_CREDENTIALS_KEY);
+      const credentialsJson = await SecureStore.getItemAsync(
+        getAccountStorageKey(AUTH_CREDENTIALS_KEY, accountId)
+      );
       
       if (credentialsJson) {
         try {
           const credentials = JSON.parse(credentialsJson) as AuthCredentials;
           if (credentials.apiKey) {
+            // Credentials saved before accounts existed belong to the default site
+            if (!accountId && credentials.username) {
+              await this.storeCompleteAuth(
+                credentials.apiKey,
+                credentials.username,
+                credentials.clientId,
+                undefined,
+                DEFAULT_SITE_URL
+              );
+              logger.info('UserApiKeyManager: Moved stored credentials to an account');
+            }
             return {
               key: credentials.apiKey,
               username: credentials.username,
@@ -775,6 +876,11 @@ export class UserApiKeyManager {
           // Invalid JSON, continue to migration
         }
       }
+
+      // Legacy storage only ever held a single, account-less key
+      if (accountId) {
+        return null;
+      }
       
       // Migration: Try legacy storage locations
       const migrated = await this.migrateFromLegacyStorage();
@@ -884,12 +990,16 @@ export class UserApiKeyManager {
   }
 
   /**
-   * Clear all stored API key data
+   * Clear the active account's API key data and remove the account.
+   * The most recently used remaining account (if any) becomes active.
    */
   static async clearApiKey(): Promise<void> {
     try {
       // Clear new storage
+      const accountId = getActiveAccountId();
+      await SecureStore.deleteItemAsync(getAccountStorageKey(AUTH_CREDENTIALS_KEY, accountId));
       await SecureStore.deleteItemAsync(AUTH_CREDENTIALS_KEY);
+      await this.clearPendingSite();
       
       // Clear crypto keys
       await SecureStore.deleteItemAsync(PRIVATE_KEY_STORAGE_KEY);
@@ -899,14 +1009,36 @@ export class UserApiKeyManager {
       // Clear legacy keys
       await this.cleanupLegacyKeys();
       
+      if (accountId) {
+        await useAccountStore.getState().removeAccount(accountId);
+      }
+      
       // Keep client ID for potential reuse
-      logger.info('UserApiKeyManager: API key data cleared');
+      logger.info('UserApiKeyManager: API key data cleared', { accountId });
     } catch (error: any) {
       logger.error('UserApiKeyManager: Failed to clear API key', error);
       // Don't throw - allow cleanup to continue
     }
   }
 
+  /**
+   * Drop a key Discourse rejected (401/403). `accountId` is the account the
+   * rejected request was made for, which may no longer be the active one.
+   * The account stays listed, marked signed out, so the user can sign in
+   * to it again.
+   */
+  static async expireApiKey(accountId: string | null): Promise<void> {
+    try {
+      await SecureStore.deleteItemAsync(getAccountStorageKey(AUTH_CREDENTIALS_KEY, accountId));
+      if (accountId) {
+        await useAccountStore.getState().markSignedOut(accountId);
+      }
+      logger.info('UserApiKeyManager: Rejected API key cleared', { accountId });
+    } catch (error: any) {
+      logger.error('UserApiKeyManager: Failed to clear rejected API key', error);
+    }
+  }
+
   /**
    * Clear client ID (forces new ID on next generation)
    */
@@ -25,6 +25,7 @@ export interface Byte {
     name: string;
     color?: string;
   };
+  tags?: string[];  // Discourse tag names
   raw: string;      // Markdown raw content
   cooked: string;   // HTML from Discourse
   excerpt?: string; // Plain text or HTML excerpt for previews